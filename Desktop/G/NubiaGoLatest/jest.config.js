@@ -0,0 +1,17 @@
+const nextJest = require('next/jest')
+
+// Loads next.config.js and .env files and compiles TypeScript with Next's SWC transform
+const createJestConfig = nextJest({ dir: './' })
+
+/** @type {import('jest').Config} */
+const customJestConfig = {
+  // Suites are server-side logic; a suite that needs the DOM opts in with @jest-environment jsdom
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.[jt]s?(x)'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1'
+  }
+}
+
+module.exports = createJestConfig(customJestConfig)
@@ -3,9 +3,10 @@
 import { useState } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import { Eye, EyeOff, Mail, Lock, ArrowLeft } from 'lucide-react'
+import { Eye, EyeOff, Mail, Lock, ArrowLeft, ShieldCheck } from 'lucide-react'
 import { useFirebaseAuth } from '@/hooks/useFirebaseAuth'
 import { OAuthButtons } from '@/components/auth/oauth-buttons'
+import { TwoFactorRequiredError } from '@/lib/errors'
 
 export default function LoginPage() {
   const [formData, setFormData] = useState({
@@ -15,6 +16,9 @@ export default function LoginPage() {
   const [showPassword, setShowPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
+  // Set once the password is accepted for an account with 2FA on
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false)
+  const [twoFactorCode, setTwoFactorCode] = useState('')
   
   const router = useRouter()
   const { signIn, loading, error: authError, clearError } = useFirebaseAuth()
@@ -25,9 +29,16 @@ export default function LoginPage() {
     clearError()
 
     try {
-      await signIn(formData.email, formData.password)
-      router.push('/customer')
+      await signIn(formData.email, formData.password, needsTwoFactor ? twoFactorCode : undefined)
+      // Back to the page the middleware sent them here from, if it's one of ours
+      const redirect = new URLSearchParams(window.location.search).get('redirect')
+      router.push(redirect && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/customer')
     } catch (err: any) {
+      if (err instanceof TwoFactorRequiredError) {
+        clearError()
+        setNeedsTwoFactor(true)
+        return
+      }
       setError(err.message || 'Invalid email or password')
     }
   }
@@ -107,6 +118,32 @@ export default function LoginPage() {
               </div>
             </div>
 
+            {needsTwoFactor && (
+              <div>
+                <label htmlFor="twoFactorCode" className="block text-sm font-medium text-gray-700 mb-2">
+                  Authentication Code
+                </label>
+                <div className="relative">
+                  <ShieldCheck className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                  <input
+                    type="text"
+                    id="twoFactorCode"
+                    name="twoFactorCode"
+                    required
+                    autoFocus
+                    autoComplete="one-time-code"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    placeholder="6-digit code or a recovery code"
+                  />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Open your authenticator app, or use one of your recovery codes.
+                </p>
+              </div>
+            )}
+
             <div className="flex items-center justify-between">
               <div className="flex items-center">
                 <input
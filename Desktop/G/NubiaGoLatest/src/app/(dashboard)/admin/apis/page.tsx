@@ -3,18 +3,22 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { 
-  Plus, Settings, TestTube, Eye, Edit, Trash2, 
+  Plus, Settings, TestTube, Eye, EyeOff, Edit, Trash2, 
   CheckCircle, XCircle, AlertCircle, Clock, 
   ExternalLink, Copy, Save, Loader2, Search,
   Filter, MoreHorizontal, RefreshCw, Zap,
   Truck, CreditCard, Mail, BarChart3, Database,
   Globe, Shield, Key, Link, Activity
 } from 'lucide-react'
-import { ApiConfiguration, ApiProvider, ApiTestResult } from '@/types'
+import { ApiConfiguration, ApiProvider, ApiSecretField, ApiTestResult } from '@/types'
 import { generateId } from '@/lib/utils';
+import { useCSRFFetch } from '@/hooks/useCSRF'
 
 type ApiStatus = 'active' | 'inactive' | 'testing';
 
+// Revealed credentials are hidden again after this long
+const REVEAL_DURATION_MS = 30 * 1000
+
 interface ApiFormData {
   id?: string;
   name: string;
@@ -208,6 +212,11 @@ export default function ApiManagementPage() {
   const [testResults, setTestResults] = useState<TestResult[]>([])
   const [testing, setTesting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  // Decrypted values currently on screen, keyed by `${apiId}:${field}`
+  const [revealed, setRevealed] = useState<Record<string, string>>({})
+  const [rotating, setRotating] = useState(false)
+  const { fetchWithCSRF } = useCSRFFetch()
 
   const [formData, setFormData] = useState<ApiFormData>(initialFormData)
 
@@ -294,6 +303,66 @@ export default function ApiManagementPage() {
     }
   }
 
+  const hideSecret = (revealKey: string) => {
+    setRevealed(prev => {
+      const next = { ...prev }
+      delete next[revealKey]
+      return next
+    })
+  }
+
+  // Reveals are decrypted server-side and recorded in the audit log
+  const toggleSecret = async (api: ApiConfiguration, field: ApiSecretField) => {
+    const revealKey = `${api.id}:${field}`
+    if (revealed[revealKey] !== undefined) {
+      hideSecret(revealKey)
+      return
+    }
+
+    try {
+      setError(null)
+      const response = await fetchWithCSRF(`/api/apis/${api.id}/reveal`, {
+        method: 'POST',
+        body: JSON.stringify({ field })
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setRevealed(prev => ({ ...prev, [revealKey]: result.data.value || '' }))
+        setTimeout(() => hideSecret(revealKey), REVEAL_DURATION_MS)
+      } else {
+        setError(result.error || 'Failed to reveal secret')
+      }
+    } catch (error: any) {
+      setError(error.message || 'Failed to reveal secret')
+    }
+  }
+
+  const handleRotateKeys = async () => {
+    if (!confirm('Re-encrypt all API credentials with the current master key?')) {
+      return
+    }
+
+    try {
+      setRotating(true)
+      setError(null)
+      setNotice(null)
+      const response = await fetchWithCSRF('/api/apis/rotate-keys', { method: 'POST' })
+      const result = await response.json()
+
+      if (result.success) {
+        setNotice(result.message)
+      } else {
+        setError(result.error || 'Failed to rotate keys')
+      }
+      await loadApis()
+    } catch (error: any) {
+      setError(error.message || 'Failed to rotate keys')
+    } finally {
+      setRotating(false)
+    }
+  }
+
   const handleAddApi = () => {
     setFormData(initialFormData)
     setShowAddModal(true)
@@ -307,8 +376,9 @@ export default function ApiManagementPage() {
       description: api.description || '',
       type: api.type,
       provider: api.provider || '',
-      apiKey: api.apiKey || '',
-      apiSecret: api.apiSecret || '',
+      // Only masked values are sent to the browser; left blank, the stored ones are kept
+      apiKey: '',
+      apiSecret: '',
       baseUrl: api.baseUrl,
       webhookUrl: api.webhookUrl,
       headers: api.headers || {},
@@ -497,13 +567,24 @@ export default function ApiManagementPage() {
               <h1 className="text-2xl font-bold text-gray-900">API Management</h1>
               <p className="text-gray-600">Manage your third-party API integrations</p>
             </div>
-            <button
-              onClick={handleAddApi}
-              className="inline-flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium"
-            >
-              <Plus className="h-4 w-4" />
-              <span>Add API</span>
-            </button>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={handleRotateKeys}
+                disabled={rotating}
+                className="inline-flex items-center space-x-2 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors font-medium disabled:opacity-50"
+                title="Re-encrypt credentials with the current master key"
+              >
+                {rotating ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                <span>Rotate Keys</span>
+              </button>
+              <button
+                onClick={handleAddApi}
+                className="inline-flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add API</span>
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -520,6 +601,15 @@ export default function ApiManagementPage() {
           </div>
         )}
 
+        {notice && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-8">
+            <div className="flex items-center">
+              <CheckCircle className="h-5 w-5 text-green-500 mr-2" />
+              <span className="text-green-800">{notice}</span>
+            </div>
+          </div>
+        )}
+
         {/* Filters */}
         <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
           <div className="flex flex-col sm:flex-row gap-4">
@@ -604,6 +694,35 @@ export default function ApiManagementPage() {
                       {api.lastTested ? new Date(api.lastTested).toLocaleDateString() : 'Never'}
                     </span>
                   </div>
+                  {(['apiKey', 'apiSecret'] as const).filter(field => api[field]).map(field => {
+                    const value = revealed[`${api.id}:${field}`]
+                    return (
+                      <div key={field} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-600">{field === 'apiKey' ? 'API Key:' : 'API Secret:'}</span>
+                        <span className="flex items-center space-x-1 min-w-0">
+                          <span className="font-mono text-xs truncate max-w-[10rem]">{value ?? api[field]}</span>
+                          <button
+                            onClick={() => toggleSecret(api, field)}
+                            className="p-1 text-gray-400 hover:text-gray-600"
+                            title={value !== undefined ? 'Hide' : 'Reveal'}
+                          >
+                            {value !== undefined ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+                          </button>
+                        </span>
+                      </div>
+                    )
+                  })}
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600">Encryption:</span>
+                    {api.secretKeyVersion ? (
+                      <span className="inline-flex items-center font-medium text-green-600">
+                        <Shield className="h-3.5 w-3.5 mr-1" />
+                        Key v{api.secretKeyVersion}
+                      </span>
+                    ) : (
+                      <span className="font-medium text-yellow-600">Not encrypted</span>
+                    )}
+                  </div>
                 </div>
 
                 <div className="flex items-center justify-between pt-4 border-t border-gray-200">
@@ -749,7 +868,7 @@ export default function ApiManagementPage() {
                     value={formData.apiKey}
                     onChange={(e) => setFormData(prev => ({ ...prev, apiKey: e.target.value }))}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                    placeholder="Enter API key"
+                    placeholder={showEditModal && selectedApi?.apiKey ? `Leave blank to keep ${selectedApi.apiKey}` : 'Enter API key'}
                   />
                 </div>
                 <div>
@@ -761,7 +880,7 @@ export default function ApiManagementPage() {
                     value={formData.apiSecret}
                     onChange={(e) => setFormData(prev => ({ ...prev, apiSecret: e.target.value }))}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                    placeholder="Enter API secret"
+                    placeholder={showEditModal && selectedApi?.apiSecret ? `Leave blank to keep ${selectedApi.apiSecret}` : 'Enter API secret'}
                   />
                 </div>
               </div>
@@ -0,0 +1,185 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { CheckCircle, RefreshCw, Trash2 } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+import AdminAuthGuard from '@/components/admin/AdminAuthGuard'
+import ModerationRulesEditor from '@/components/admin/ModerationRulesEditor'
+import AdminModeration from '@/components/chat/admin-moderation'
+import ModernSubpageLayout from '@/components/dashboard/ModernSubpageLayout'
+import StatusBadge from '@/components/dashboard/StatusBadge'
+import DataTable from '@/components/dashboard/DataTable'
+import { useAuth } from '@/hooks/useAuth'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import { toDate } from '@/lib/utils/dates'
+import { MODERATION_REASON_LABELS } from '@/lib/services/moderation/content-moderation'
+import { ModerationFlag, ProductReview } from '@/types'
+
+type ModerationTab = 'reviews' | 'chat' | 'rules'
+
+const TABS: Array<{ id: ModerationTab; label: string }> = [
+  { id: 'reviews', label: 'Review Queue' },
+  { id: 'chat', label: 'Chat Queue' },
+  { id: 'rules', label: 'Rules' }
+]
+
+export default function AdminModerationPage() {
+  const { user } = useAuth()
+  const { success, error: toastError } = useToast()
+  const { fetchWithCSRF } = useCSRFFetch()
+  const [activeTab, setActiveTab] = useState<ModerationTab>('reviews')
+  const [reviews, setReviews] = useState<ProductReview[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const loadReviews = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/moderation/reviews')
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+      const queue: ProductReview[] = result.data.reviews || []
+      setReviews(queue.map(review => ({ ...review, createdAt: toDate(review.createdAt)! })))
+    } catch (err) {
+      toastError('Load failed', 'Failed to load the review queue')
+    } finally {
+      setLoading(false)
+    }
+  }, [toastError])
+
+  useEffect(() => {
+    if (user?.role === 'admin') {
+      loadReviews()
+    }
+  }, [user?.role, loadReviews])
+
+  const handleModerate = async (review: ProductReview, action: 'approve' | 'reject') => {
+    try {
+      const response = await fetchWithCSRF(`/api/moderation/reviews/${review.id}/${action}`, { method: 'POST' })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+      setReviews(current => current.filter(existing => existing.id !== review.id))
+      success(result.message)
+    } catch (err) {
+      toastError('Moderation failed', err instanceof Error ? err.message : 'Please try again')
+    }
+  }
+
+  const columns = [
+    {
+      key: 'comment',
+      label: 'Review',
+      render: (value: string, row: ProductReview) => (
+        <div className="max-w-md">
+          {row.title && <div className="font-medium text-gray-900">{row.title}</div>}
+          <div className="text-sm text-gray-700 line-clamp-3">{value}</div>
+          <div className="text-xs text-gray-500 mt-1">
+            {row.userName} · {row.rating}/5{row.productId ? ` · Product ${row.productId}` : ''}
+          </div>
+        </div>
+      )
+    },
+    {
+      key: 'moderationFlags',
+      label: 'Reasons',
+      render: (value: ModerationFlag[] = []) => (
+        <div className="flex flex-wrap gap-1">
+          {value.map((flag, index) => (
+            <span
+              key={`${flag.code}-${index}`}
+              title={flag.match}
+              className="text-xs px-2 py-0.5 rounded bg-red-50 text-red-700"
+            >
+              {MODERATION_REASON_LABELS[flag.code]}
+            </span>
+          ))}
+        </div>
+      )
+    },
+    {
+      key: 'moderationStatus',
+      label: 'Status',
+      render: (value: string) => <StatusBadge status={value} variant="default" />
+    },
+    {
+      key: 'createdAt',
+      label: 'Posted',
+      render: (value: Date) => <span className="text-sm text-gray-700">{value.toLocaleString()}</span>
+    }
+  ]
+
+  const actions = [
+    {
+      key: 'approve',
+      label: 'Publish',
+      icon: CheckCircle,
+      onClick: (row: ProductReview) => handleModerate(row, 'approve')
+    },
+    {
+      key: 'reject',
+      label: 'Remove',
+      icon: Trash2,
+      onClick: (row: ProductReview) => handleModerate(row, 'reject')
+    }
+  ]
+
+  return (
+    <AdminAuthGuard>
+      <ModernSubpageLayout
+        title="Content Moderation"
+        subtitle="Review content held by the automated filters and tune what they catch"
+        breadcrumbs={[
+          { label: 'Admin', href: '/admin' },
+          { label: 'Moderation' }
+        ]}
+        headerActions={activeTab === 'reviews' ? (
+          <button
+            onClick={loadReviews}
+            className="px-4 py-2 text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors flex items-center space-x-2"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        ) : undefined}
+      >
+        <div className="space-y-6">
+          <div className="border-b border-gray-200 flex space-x-6">
+            {TABS.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`pb-3 text-sm font-medium border-b-2 transition-colors ${
+                  activeTab === tab.id
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {tab.label}
+                {tab.id === 'reviews' && reviews.length > 0 && (
+                  <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-700">{reviews.length}</span>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {activeTab === 'reviews' && (
+            <DataTable
+              data={reviews}
+              columns={columns}
+              actions={actions}
+              loading={loading}
+              emptyState={<p className="text-sm text-gray-500 py-6 text-center">No reviews waiting for moderation.</p>}
+            />
+          )}
+
+          {activeTab === 'chat' && <AdminModeration theme="light" showFilters={true} maxQueueItems={50} />}
+
+          {activeTab === 'rules' && (
+            <div className="bg-white rounded-lg p-6 border border-gray-200">
+              <ModerationRulesEditor />
+            </div>
+          )}
+        </div>
+      </ModernSubpageLayout>
+    </AdminAuthGuard>
+  )
+}
@@ -17,11 +17,13 @@ import StatusBadge from '@/components/dashboard/StatusBadge'
 import DataTable from '@/components/dashboard/DataTable'
 import { useAdminDashboardStore } from '@/store/admin/admin-dashboard.store'
 import { useAuth } from '@/hooks/useAuth'
+import { useCSRFFetch } from '@/hooks/useCSRF'
 
 export default function AdminOrders() {
   const router = useRouter()
   const { user } = useAuth()
   const { success, error: toastError, warning } = useToast()
+  const { fetchWithCSRF } = useCSRFFetch()
   const { 
     orders, 
     orderStats, 
@@ -122,9 +124,21 @@ export default function AdminOrders() {
   const handleCancelOrder = async (orderId: string) => {
     try {
       await cancelOrder(orderId, 'admin-1', 'Order cancelled by admin')
-      warning('Order cancelled', 'Order has been cancelled successfully')
     } catch (err) {
       toastError('Cancellation failed', 'Failed to cancel order. Please try again.')
+      return
+    }
+
+    // The order won't be paid, so its promotion uses go back to the promotions' limits
+    const response = await fetchWithCSRF('/api/checkout/promotions/release', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ orderId })
+    }).catch(() => null)
+    if (response?.ok) {
+      warning('Order cancelled', 'Order has been cancelled successfully')
+    } else {
+      toastError('Promotions not released', 'The order was cancelled, but its promotion uses could not be released. Please retry.')
     }
   }
 
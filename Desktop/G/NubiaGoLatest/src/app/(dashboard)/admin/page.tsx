@@ -10,7 +10,7 @@ import {
   Wallet, CreditCard, Activity, TrendingDown, ArrowUpRight,
   MoreHorizontal, Flag, Star, ShoppingCart, Store, Globe,
   Download, FileText, Zap, Eye, AlertTriangle, Database,
-  Server, Cpu, HardDrive, Network, Lock, UserCheck
+  Server, Cpu, HardDrive, Network, Lock, UserCheck, LifeBuoy, ShieldAlert
 } from 'lucide-react'
 import Link from 'next/link'
 import AdminAuthGuard from '@/components/admin/AdminAuthGuard'
@@ -112,8 +112,11 @@ export default function AdminDashboard() {
     { id: 'users', icon: Users, label: 'Users', path: '/admin/users', badge: userStats.totalUsers },
     { id: 'suppliers', icon: Shield, label: 'Suppliers', path: '/admin/suppliers', badge: supplierStats.totalSuppliers },
     { id: 'orders', icon: ShoppingCart, label: 'Orders', path: '/admin/orders' },
+    { id: 'payouts', icon: DollarSign, label: 'Payouts', path: '/admin/payouts' },
     { id: 'products', icon: Package, label: 'Products', path: '/admin/products' },
     { id: 'approvals', icon: CheckCircle, label: 'Approvals', path: '/admin/approvals', badge: 5 },
+    { id: 'support', icon: LifeBuoy, label: 'Support', path: '/admin/support' },
+    { id: 'moderation', icon: ShieldAlert, label: 'Moderation', path: '/admin/moderation' },
     { id: 'analytics', icon: BarChart3, label: 'Analytics', path: '/admin/analytics' },
     { id: 'monitoring', icon: Server, label: 'System Health', path: '/admin/monitoring' },
     { id: 'apis', icon: Zap, label: 'API Management', path: '/admin/apis' },
@@ -0,0 +1,355 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { CheckCircle, XCircle, DollarSign, RefreshCw, Layers, AlertTriangle } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+import AdminAuthGuard from '@/components/admin/AdminAuthGuard'
+import ModernSubpageLayout from '@/components/dashboard/ModernSubpageLayout'
+import StatusBadge from '@/components/dashboard/StatusBadge'
+import DataTable from '@/components/dashboard/DataTable'
+import { useAuth } from '@/hooks/useAuth'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import {
+  payoutService,
+  SettlementBatch,
+  SupplierSettlement
+} from '@/lib/services/payout.service'
+
+const toDateString = (value: unknown): string => {
+  if (value && typeof (value as { toDate?: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate().toLocaleDateString()
+  }
+  return value ? new Date(value as string | Date).toLocaleDateString() : ''
+}
+
+// Batch totals are kept per currency, e.g. "USD 120.00 + EUR 40.00"
+const formatTotals = (totals: Record<string, number> | undefined): string => {
+  const currencies = Object.keys(totals || {})
+  return currencies.length > 0
+    ? currencies.map(currency => `${currency} ${totals![currency].toFixed(2)}`).join(' + ')
+    : '0.00'
+}
+
+// Settlement periods run weekly, ending at the start of today
+const SETTLEMENT_PERIOD_DAYS = 7
+
+export default function AdminPayouts() {
+  const { user } = useAuth()
+  const { success, error: toastError, warning } = useToast()
+  const { fetchWithCSRF } = useCSRFFetch()
+  const [batches, setBatches] = useState<SettlementBatch[]>([])
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null)
+  const [settlements, setSettlements] = useState<SupplierSettlement[]>([])
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+
+  const loadBatches = useCallback(async () => {
+    setLoading(true)
+    try {
+      const settlementBatches = await payoutService.getSettlementBatches()
+      setBatches(settlementBatches)
+      setSelectedBatchId(current => current || settlementBatches[0]?.id || null)
+    } catch (err) {
+      toastError('Load failed', 'Failed to load settlement batches')
+    } finally {
+      setLoading(false)
+    }
+  }, [toastError])
+
+  const loadSettlements = useCallback(async (batchId: string) => {
+    try {
+      setSettlements(await payoutService.getBatchSettlements(batchId))
+    } catch (err) {
+      toastError('Load failed', 'Failed to load settlements for this batch')
+    }
+  }, [toastError])
+
+  useEffect(() => {
+    if (user?.role === 'admin') {
+      loadBatches()
+    }
+  }, [user?.role, loadBatches])
+
+  useEffect(() => {
+    if (selectedBatchId) {
+      loadSettlements(selectedBatchId)
+    } else {
+      setSettlements([])
+    }
+  }, [selectedBatchId, loadSettlements])
+
+  const refresh = async () => {
+    await loadBatches()
+    if (selectedBatchId) {
+      await loadSettlements(selectedBatchId)
+    }
+  }
+
+  // Post an admin action to the payouts API; the server applies and audits it
+  const postAction = async (url: string, body?: Record<string, string>) => {
+    const response = await fetchWithCSRF(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    })
+    const result = await response.json()
+    if (!response.ok) throw new Error(result.error)
+    return result.data
+  }
+
+  // Run an admin action, then reload so statuses and batch totals stay in sync
+  const runAction = async (action: () => Promise<unknown>, successTitle: string, successMessage: string) => {
+    if (!user) return
+
+    setWorking(true)
+    try {
+      await action()
+      success(successTitle, successMessage)
+      await refresh()
+    } catch (err) {
+      toastError('Action failed', err instanceof Error ? err.message : 'Please try again')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleGenerateBatch = async () => {
+    if (!user) return
+
+    const periodEnd = new Date()
+    periodEnd.setHours(0, 0, 0, 0)
+    const periodStart = new Date(periodEnd)
+    periodStart.setDate(periodStart.getDate() - SETTLEMENT_PERIOD_DAYS)
+
+    setWorking(true)
+    try {
+      const { batch } = await postAction('/api/payouts/batches', {
+        periodStart: periodStart.toISOString(),
+        periodEnd: periodEnd.toISOString()
+      }) as { batch: SettlementBatch }
+      if (batch.settlementIds.length === 0) {
+        warning('Nothing to settle', 'No supplier has an unsettled balance above the minimum payout')
+      } else {
+        success('Batch created', `${batch.settlementIds.length} settlements totalling ${formatTotals(batch.totals)} await approval`)
+        setSelectedBatchId(batch.id)
+      }
+      await loadBatches()
+    } catch (err) {
+      toastError('Batch failed', err instanceof Error ? err.message : 'Failed to generate the settlement batch')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const settlementUrl = (settlement: SupplierSettlement, action: string) =>
+    `/api/payouts/settlements/${encodeURIComponent(settlement.id)}/${action}`
+
+  const handleApproveBatch = (batchId: string) =>
+    runAction(() => postAction(`/api/payouts/batches/${encodeURIComponent(batchId)}/approve`), 'Batch approved', 'All pending settlements in the batch were approved')
+
+  const handleApprove = (settlement: SupplierSettlement) =>
+    runAction(() => postAction(settlementUrl(settlement, 'approve')), 'Settlement approved', `Payout to ${settlement.supplierId} is ready to send`)
+
+  const handleReject = (settlement: SupplierSettlement) => {
+    const reason = prompt('Reason for rejecting this settlement:')
+    if (!reason) return
+    runAction(() => postAction(settlementUrl(settlement, 'reject'), { reason }), 'Settlement rejected', 'The balance returns to the supplier for the next period')
+  }
+
+  const handleMarkPaid = (settlement: SupplierSettlement) => {
+    const payoutReference = prompt('Transfer reference for this payout:')
+    if (!payoutReference) return
+    runAction(() => postAction(settlementUrl(settlement, 'paid'), { payoutReference }), 'Payout recorded', `${settlement.currency} ${settlement.amount.toFixed(2)} marked as paid`)
+  }
+
+  const handleMarkFailed = (settlement: SupplierSettlement) => {
+    const reason = prompt('Why did this payout fail?')
+    if (!reason) return
+    runAction(() => postAction(settlementUrl(settlement, 'failed'), { reason }), 'Payout failed', 'The balance returns to the supplier for the next period')
+  }
+
+  const selectedBatch = batches.find(batch => batch.id === selectedBatchId)
+  const pendingCount = settlements.filter(s => s.status === 'pending_approval').length
+  const approvedAmount = settlements
+    .filter(s => s.status === 'approved' || s.status === 'processing')
+    .reduce((sum, s) => sum + s.amount, 0)
+  const paidAmount = settlements
+    .filter(s => s.status === 'paid')
+    .reduce((sum, s) => sum + s.amount, 0)
+
+  const batchColumns = [
+    {
+      key: 'periodStart',
+      label: 'Period',
+      render: (value: unknown, row: SettlementBatch) => (
+        <span>{toDateString(value)} – {toDateString(row.periodEnd)}</span>
+      )
+    },
+    { key: 'supplierCount', label: 'Suppliers' },
+    {
+      key: 'totals',
+      label: 'Total',
+      render: (value: Record<string, number>) => <span className="font-medium">{formatTotals(value)}</span>
+    },
+    {
+      key: 'status',
+      label: 'Status',
+      render: (value: string) => <StatusBadge status={value} variant="default" />
+    },
+    {
+      key: 'createdAt',
+      label: 'Created',
+      render: (value: unknown) => <span>{toDateString(value)}</span>
+    }
+  ]
+
+  const batchActions = [
+    {
+      key: 'view',
+      label: 'View settlements',
+      icon: Layers,
+      onClick: (row: SettlementBatch) => setSelectedBatchId(row.id)
+    },
+    {
+      key: 'approve',
+      label: 'Approve batch',
+      icon: CheckCircle,
+      onClick: (row: SettlementBatch) => handleApproveBatch(row.id)
+    }
+  ]
+
+  const settlementColumns = [
+    { key: 'supplierId', label: 'Supplier' },
+    {
+      key: 'amount',
+      label: 'Amount',
+      render: (value: number, row: SupplierSettlement) => (
+        <span className="font-medium">{row.currency} {value.toFixed(2)}</span>
+      )
+    },
+    {
+      key: 'payoutMethod',
+      label: 'Payout To',
+      render: (value: string, row: SupplierSettlement) => (
+        <span className={value === 'unknown' ? 'text-red-600' : ''}>
+          {value === 'unknown' ? 'No payout details' : `${value.replace('_', ' ')} · ${row.payoutDestination || ''}`}
+        </span>
+      )
+    },
+    {
+      key: 'transactionIds',
+      label: 'Entries',
+      render: (value: string[]) => <span>{value.length}</span>
+    },
+    {
+      key: 'status',
+      label: 'Status',
+      render: (value: string, row: SupplierSettlement) => (
+        <div>
+          <StatusBadge status={value} variant="default" />
+          {row.failureReason && <p className="text-xs text-red-600 mt-1">{row.failureReason}</p>}
+          {row.payoutReference && <p className="text-xs text-gray-500 mt-1">Ref: {row.payoutReference}</p>}
+        </div>
+      )
+    }
+  ]
+
+  const settlementActions = [
+    {
+      key: 'approve',
+      label: 'Approve',
+      icon: CheckCircle,
+      onClick: (row: SupplierSettlement) => handleApprove(row)
+    },
+    {
+      key: 'paid',
+      label: 'Mark as paid',
+      icon: DollarSign,
+      onClick: (row: SupplierSettlement) => handleMarkPaid(row)
+    },
+    {
+      key: 'failed',
+      label: 'Mark as failed',
+      icon: AlertTriangle,
+      onClick: (row: SupplierSettlement) => handleMarkFailed(row),
+      variant: 'danger' as const
+    },
+    {
+      key: 'reject',
+      label: 'Reject',
+      icon: XCircle,
+      onClick: (row: SupplierSettlement) => handleReject(row),
+      variant: 'danger' as const
+    }
+  ]
+
+  return (
+    <AdminAuthGuard>
+      <ModernSubpageLayout
+        title="Supplier Payouts"
+        subtitle="Review, approve and record supplier settlements"
+        breadcrumbs={[
+          { label: 'Admin', href: '/admin' },
+          { label: 'Payouts' }
+        ]}
+        showAddButton
+        addButtonText={working ? 'Working...' : 'Generate Batch'}
+        onAddClick={handleGenerateBatch}
+        headerActions={
+          <button
+            onClick={refresh}
+            className="px-4 py-2 text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors flex items-center space-x-2"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        }
+      >
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="bg-white rounded-lg p-6 border border-gray-200">
+              <p className="text-sm font-medium text-gray-600">Awaiting Approval</p>
+              <p className="text-2xl font-bold text-gray-900">{pendingCount}</p>
+              <p className="text-sm text-yellow-600">Settlements in selected batch</p>
+            </div>
+            <div className="bg-white rounded-lg p-6 border border-gray-200">
+              <p className="text-sm font-medium text-gray-600">Approved, Unpaid</p>
+              <p className="text-2xl font-bold text-gray-900">{approvedAmount.toFixed(2)}</p>
+              <p className="text-sm text-blue-600">Ready to transfer</p>
+            </div>
+            <div className="bg-white rounded-lg p-6 border border-gray-200">
+              <p className="text-sm font-medium text-gray-600">Paid</p>
+              <p className="text-2xl font-bold text-gray-900">{paidAmount.toFixed(2)}</p>
+              <p className="text-sm text-green-600">Recorded in the ledger</p>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg p-6 border border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Settlement Batches</h3>
+            <DataTable
+              data={batches}
+              columns={batchColumns}
+              actions={batchActions}
+              loading={loading}
+              emptyState={<p className="text-sm text-gray-500 py-6 text-center">No settlement batches yet. Generate one to settle the last period.</p>}
+            />
+          </div>
+
+          <div className="bg-white rounded-lg p-6 border border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              {selectedBatch
+                ? `Settlements for ${toDateString(selectedBatch.periodStart)} – ${toDateString(selectedBatch.periodEnd)}`
+                : 'Settlements'}
+            </h3>
+            <DataTable
+              data={settlements}
+              columns={settlementColumns}
+              actions={settlementActions}
+              emptyState={<p className="text-sm text-gray-500 py-6 text-center">Select a batch to review its settlements.</p>}
+            />
+          </div>
+        </div>
+      </ModernSubpageLayout>
+    </AdminAuthGuard>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react'
 import { ModernDashboardLayout } from '@/components/dashboard/ModernDashboardLayout'
+import { TwoFactorPolicySettings } from '@/components/admin/settings/TwoFactorPolicySettings'
 import { 
   Shield, 
   Key, 
@@ -83,11 +84,6 @@ export default function AdminSecurityPage() {
   ]
 
   const securitySettings = [
-    {
-      name: 'Two-Factor Authentication',
-      description: 'Require 2FA for all admin accounts',
-      enabled: true
-    },
     {
       name: 'Password Complexity',
       description: 'Enforce strong password requirements',
@@ -284,6 +280,7 @@ export default function AdminSecurityPage() {
             <div className="p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Security Settings</h3>
               <div className="space-y-6">
+                <TwoFactorPolicySettings />
                 {securitySettings.map((setting, index) => (
                   <div key={index} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
                     <div className="flex-1">
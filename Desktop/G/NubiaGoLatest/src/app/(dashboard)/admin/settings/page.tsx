@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { User, Shield, Bell, Settings as SettingsIcon } from 'lucide-react'
+import { User, Shield, Bell, Truck, Coins, Settings as SettingsIcon } from 'lucide-react'
 import AdminAuthGuard from '@/components/admin/AdminAuthGuard'
 import ModernSubpageLayout from '@/components/dashboard/ModernSubpageLayout'
 import { useAdminDashboardStore } from '@/store/admin/admin-dashboard.store'
@@ -9,11 +9,15 @@ import { ProfileSettings } from '@/components/admin/settings/ProfileSettings'
 import { SecuritySettings } from '@/components/admin/settings/SecuritySettings'
 import { NotificationSettings } from '@/components/admin/settings/NotificationSettings'
 import { SystemSettings } from '@/components/admin/settings/SystemSettings'
+import { ShippingSettings } from '@/components/admin/settings/ShippingSettings'
+import { CurrencySettings } from '@/components/admin/settings/CurrencySettings'
 
 const tabs = [
   { id: 'profile', label: 'Profile', icon: User, component: ProfileSettings },
   { id: 'security', label: 'Security', icon: Shield, component: SecuritySettings },
   { id: 'notifications', label: 'Notifications', icon: Bell, component: NotificationSettings },
+  { id: 'shipping', label: 'Shipping', icon: Truck, component: ShippingSettings },
+  { id: 'currency', label: 'Currency', icon: Coins, component: CurrencySettings },
   { id: 'system', label: 'System', icon: SettingsIcon, component: SystemSettings },
 ]
 
@@ -0,0 +1,264 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { AlertTriangle, Eye, RefreshCw, UserCheck } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+import AdminAuthGuard from '@/components/admin/AdminAuthGuard'
+import ModernSubpageLayout from '@/components/dashboard/ModernSubpageLayout'
+import FilterBar from '@/components/dashboard/FilterBar'
+import StatusBadge from '@/components/dashboard/StatusBadge'
+import DataTable from '@/components/dashboard/DataTable'
+import TicketThreadModal, { TICKET_CATEGORY_LABELS } from '@/components/support/TicketThreadModal'
+import { useAuth } from '@/hooks/useAuth'
+import { supportService, TicketParticipant } from '@/lib/services/support.service'
+import { isTicketOverdue } from '@/lib/services/support/ticket-state-machine'
+import { SupportTicket, TicketPriority } from '@/types'
+
+const formatDueIn = (due: Date): string => {
+  const minutes = Math.round((due.getTime() - Date.now()) / 60000)
+  const magnitude = Math.abs(minutes)
+  const text = magnitude < 60 ? `${magnitude}m` : magnitude < 48 * 60 ? `${Math.round(magnitude / 60)}h` : `${Math.round(magnitude / 1440)}d`
+  return minutes < 0 ? `${text} overdue` : `in ${text}`
+}
+
+export default function AdminSupportQueue() {
+  const { user } = useAuth()
+  const { success, error: toastError } = useToast()
+  const [tickets, setTickets] = useState<SupportTicket[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [activeFilters, setActiveFilters] = useState<Record<string, string>>({})
+  const [selectedTicket, setSelectedTicket] = useState<SupportTicket | null>(null)
+
+  const viewer: TicketParticipant | null = user
+    ? { id: user.uid, name: user.name || user.email, role: 'admin' }
+    : null
+
+  // Escalate anything that has missed its SLA before showing the queue, so breached
+  // tickets always surface at the top
+  const loadQueue = useCallback(async () => {
+    setLoading(true)
+    try {
+      const breached = await supportService.escalateOverdueTickets()
+      if (breached > 0) {
+        toastError('SLA breached', `${breached} ticket${breached === 1 ? '' : 's'} missed a deadline and were escalated`)
+      }
+      setTickets(await supportService.getAdminQueue())
+    } catch (err) {
+      toastError('Load failed', 'Failed to load the support queue')
+    } finally {
+      setLoading(false)
+    }
+  }, [toastError])
+
+  useEffect(() => {
+    if (user?.role === 'admin') {
+      loadQueue()
+    }
+  }, [user?.role, loadQueue])
+
+  const handleTicketUpdated = (updated: SupportTicket) => {
+    setTickets(current => current.map(ticket => ticket.id === updated.id ? updated : ticket))
+    setSelectedTicket(updated)
+  }
+
+  const handleAssignToMe = async (ticket: SupportTicket) => {
+    if (!viewer) return
+    try {
+      const updated = await supportService.assignTicket(ticket.id, viewer, { id: viewer.id, name: viewer.name })
+      setTickets(current => current.map(existing => existing.id === updated.id ? updated : existing))
+      success('Ticket assigned', `${ticket.ticketNumber} is now assigned to you`)
+    } catch (err) {
+      toastError('Assignment failed', err instanceof Error ? err.message : 'Please try again')
+    }
+  }
+
+  const filters = [
+    {
+      key: 'queue',
+      label: 'Queue',
+      options: [
+        { value: 'all', label: 'All active' },
+        { value: 'escalated', label: 'Escalated' },
+        { value: 'unassigned', label: 'Unassigned' },
+        { value: 'mine', label: 'Assigned to me' }
+      ]
+    },
+    {
+      key: 'priority',
+      label: 'Priority',
+      options: [
+        { value: 'all', label: 'All Priority' },
+        { value: 'urgent', label: 'Urgent' },
+        { value: 'high', label: 'High' },
+        { value: 'medium', label: 'Medium' },
+        { value: 'low', label: 'Low' }
+      ]
+    }
+  ]
+
+  const handleFilterChange = (filterKey: string, value: string) => {
+    setActiveFilters(prev => ({
+      ...prev,
+      [filterKey]: value
+    }))
+  }
+
+  const filteredTickets = tickets.filter(ticket => {
+    const search = searchTerm.toLowerCase()
+    const matchesSearch = !search ||
+      ticket.ticketNumber.toLowerCase().includes(search) ||
+      ticket.subject.toLowerCase().includes(search) ||
+      ticket.requesterName.toLowerCase().includes(search)
+
+    const queue = activeFilters.queue || 'all'
+    const priority = activeFilters.priority || 'all'
+    const matchesQueue = queue === 'all' ||
+      (queue === 'escalated' && ticket.status === 'escalated') ||
+      (queue === 'unassigned' && !ticket.assigneeId) ||
+      (queue === 'mine' && ticket.assigneeId === user?.uid)
+
+    return matchesSearch && matchesQueue && (priority === 'all' || ticket.priority === priority)
+  })
+
+  const escalatedCount = tickets.filter(ticket => ticket.status === 'escalated').length
+  const breachedCount = tickets.filter(ticket => ticket.slaBreached || isTicketOverdue(ticket)).length
+  const unassignedCount = tickets.filter(ticket => !ticket.assigneeId).length
+
+  const columns = [
+    {
+      key: 'ticketNumber',
+      label: 'Ticket',
+      render: (value: string, row: SupportTicket) => (
+        <div>
+          <div className="font-mono text-sm">{value}</div>
+          <div className="text-xs text-gray-500">{TICKET_CATEGORY_LABELS[row.category]}</div>
+        </div>
+      )
+    },
+    {
+      key: 'subject',
+      label: 'Subject',
+      render: (value: string, row: SupportTicket) => (
+        <div>
+          <div className="font-medium text-gray-900">{value}</div>
+          <div className="text-xs text-gray-500 capitalize">{row.requesterName} · {row.requesterRole}</div>
+        </div>
+      )
+    },
+    {
+      key: 'priority',
+      label: 'Priority',
+      render: (value: TicketPriority) => <span className="capitalize">{value}</span>
+    },
+    {
+      key: 'status',
+      label: 'Status',
+      render: (value: string, row: SupportTicket) => (
+        <div>
+          <StatusBadge status={value} variant="default" />
+          {row.escalationReason && <p className="text-xs text-gray-500 mt-1">{row.escalationReason}</p>}
+        </div>
+      )
+    },
+    {
+      key: 'resolutionDueAt',
+      label: 'SLA',
+      render: (value: Date, row: SupportTicket) => (
+        <span className={row.slaBreached || isTicketOverdue(row) ? 'text-red-600 font-medium' : 'text-gray-700'}>
+          {row.firstRespondedAt ? `Resolve ${formatDueIn(value)}` : `Respond ${formatDueIn(row.firstResponseDueAt)}`}
+        </span>
+      )
+    },
+    {
+      key: 'assigneeName',
+      label: 'Assignee',
+      render: (value?: string) => <span className={value ? '' : 'text-gray-400'}>{value || 'Unassigned'}</span>
+    }
+  ]
+
+  const actions = [
+    {
+      key: 'view',
+      label: 'Open thread',
+      icon: Eye,
+      onClick: (row: SupportTicket) => setSelectedTicket(row)
+    },
+    {
+      key: 'assign',
+      label: 'Assign to me',
+      icon: UserCheck,
+      onClick: (row: SupportTicket) => handleAssignToMe(row)
+    }
+  ]
+
+  return (
+    <AdminAuthGuard>
+      <ModernSubpageLayout
+        title="Support Queue"
+        subtitle="Answer escalated and overdue customer and supplier tickets"
+        breadcrumbs={[
+          { label: 'Admin', href: '/admin' },
+          { label: 'Support' }
+        ]}
+        headerActions={
+          <button
+            onClick={loadQueue}
+            className="px-4 py-2 text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors flex items-center space-x-2"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        }
+      >
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="bg-white rounded-lg p-6 border border-gray-200">
+              <p className="text-sm font-medium text-gray-600">Escalated</p>
+              <p className="text-2xl font-bold text-gray-900">{escalatedCount}</p>
+              <p className="text-sm text-red-600">Waiting on an admin</p>
+            </div>
+            <div className="bg-white rounded-lg p-6 border border-gray-200">
+              <p className="text-sm font-medium text-gray-600">SLA Breached</p>
+              <p className="text-2xl font-bold text-gray-900 flex items-center">
+                {breachedCount}
+                {breachedCount > 0 && <AlertTriangle className="h-5 w-5 text-red-600 ml-2" />}
+              </p>
+              <p className="text-sm text-yellow-600">Missed a response or resolution deadline</p>
+            </div>
+            <div className="bg-white rounded-lg p-6 border border-gray-200">
+              <p className="text-sm font-medium text-gray-600">Unassigned</p>
+              <p className="text-2xl font-bold text-gray-900">{unassignedCount}</p>
+              <p className="text-sm text-blue-600">Active tickets without an owner</p>
+            </div>
+          </div>
+
+          <FilterBar
+            searchValue={searchTerm}
+            onSearchChange={setSearchTerm}
+            filters={filters}
+            activeFilters={activeFilters}
+            onFilterChange={handleFilterChange}
+          />
+
+          <DataTable
+            data={filteredTickets}
+            columns={columns}
+            actions={actions}
+            loading={loading}
+            emptyState={<p className="text-sm text-gray-500 py-6 text-center">No active support tickets.</p>}
+          />
+        </div>
+
+        {selectedTicket && viewer && (
+          <TicketThreadModal
+            ticket={selectedTicket}
+            viewer={viewer}
+            onClose={() => setSelectedTicket(null)}
+            onUpdated={handleTicketUpdated}
+          />
+        )}
+      </ModernSubpageLayout>
+    </AdminAuthGuard>
+  )
+}
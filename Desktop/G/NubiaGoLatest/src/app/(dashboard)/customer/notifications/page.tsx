@@ -1,100 +1,97 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { 
-  Bell, CheckCircle, Package, Truck, CreditCard,
-  XCircle, Clock, Eye, Trash2, Settings, Check, Filter
+  Bell, Package, Truck, CreditCard, MessageSquare,
+  Clock, Eye, Trash2, Settings, Check, Shield, Tag, User
 } from 'lucide-react'
 import ModernSubpageLayout from '@/components/dashboard/ModernSubpageLayout'
 import FilterBar from '@/components/dashboard/FilterBar'
 import StatusBadge from '@/components/dashboard/StatusBadge'
-
-interface Notification {
-  id: string
-  type: 'order' | 'payment' | 'message' | 'system'
-  title: string
-  message: string
-  isRead: boolean
-  createdAt: string
-  data?: any
-}
+import { useToast } from '@/components/ui/toast'
+import { useAuth } from '@/hooks/useAuth'
+import { notificationService } from '@/lib/services/notification.service'
+import { Notification } from '@/types'
 
 export default function CustomerNotificationsPage() {
   const router = useRouter()
+  const { user } = useAuth()
+  const { error: toastError } = useToast()
   const [notifications, setNotifications] = useState<Notification[]>([])
   const [loading, setLoading] = useState(true)
   const [filter, setFilter] = useState('all')
 
-  useEffect(() => {
-    // Simulate loading notifications
-    setTimeout(() => {
-      setNotifications([
-        {
-          id: '1',
-          type: 'order',
-          title: 'Order Shipped',
-          message: 'Your order #ORD-001 has been shipped and is on its way to you.',
-          isRead: false,
-          createdAt: '2024-01-22T10:30:00Z',
-          data: { orderId: 'ORD-001' }
-        },
-        {
-          id: '2',
-          type: 'payment',
-          title: 'Payment Successful',
-          message: 'Your payment of $99.99 has been processed successfully.',
-          isRead: true,
-          createdAt: '2024-01-21T15:45:00Z',
-          data: { amount: 99.99 }
-        },
-        {
-          id: '3',
-          type: 'system',
-          title: 'Welcome to NubiaGo!',
-          message: 'Thank you for joining our platform. We\'re excited to have you on board.',
-          isRead: true,
-          createdAt: '2024-01-20T09:00:00Z'
-        },
-        {
-          id: '4',
-          type: 'message',
-          title: 'New Message from Support',
-          message: 'We\'ve responded to your support ticket. Click to view the message.',
-          isRead: false,
-          createdAt: '2024-01-19T14:20:00Z',
-          data: { ticketId: 'TICKET-001' }
-        }
-      ])
+  const loadNotifications = useCallback(async () => {
+    if (!user?.uid) return
+    try {
+      setNotifications(await notificationService.getUserNotifications(user.uid))
+    } catch (err) {
+      toastError('Load failed', 'Failed to load your notifications')
+    } finally {
       setLoading(false)
-    }, 1000)
-  }, [])
+    }
+  }, [user?.uid, toastError])
+
+  useEffect(() => {
+    loadNotifications()
+  }, [loadNotifications])
 
-  const markAsRead = (id: string) => {
-    setNotifications(prev => 
-      prev.map(notification => 
-        notification.id === id 
-          ? { ...notification, isRead: true }
-          : notification
+  const markAsRead = async (id: string) => {
+    if (!user?.uid) return
+    try {
+      await notificationService.markAsRead(id, user.uid)
+      setNotifications(prev => 
+        prev.map(notification => 
+          notification.id === id 
+            ? { ...notification, isRead: true, readAt: new Date() }
+            : notification
+        )
       )
-    )
+    } catch (err) {
+      toastError('Update failed', err instanceof Error ? err.message : undefined)
+    }
   }
 
-  const markAllAsRead = () => {
-    setNotifications(prev => 
-      prev.map(notification => ({ ...notification, isRead: true }))
-    )
+  const markAllAsRead = async () => {
+    if (!user?.uid) return
+    try {
+      await notificationService.markAllAsRead(user.uid)
+      setNotifications(prev => 
+        prev.map(notification => ({ ...notification, isRead: true }))
+      )
+    } catch (err) {
+      toastError('Update failed', err instanceof Error ? err.message : undefined)
+    }
+  }
+
+  const deleteNotification = async (id: string) => {
+    if (!user?.uid) return
+    try {
+      await notificationService.deleteNotification(id, user.uid)
+      setNotifications(prev => prev.filter(notification => notification.id !== id))
+    } catch (err) {
+      toastError('Delete failed', err instanceof Error ? err.message : undefined)
+    }
   }
 
-  const deleteNotification = (id: string) => {
-    setNotifications(prev => prev.filter(notification => notification.id !== id))
+  const openNotification = async (notification: Notification) => {
+    if (!notification.link) return
+    if (!notification.isRead) {
+      await markAsRead(notification.id)
+    }
+    router.push(notification.link)
   }
 
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'order': return <Package className="h-5 w-5" />
       case 'payment': return <CreditCard className="h-5 w-5" />
-      case 'message': return <Bell className="h-5 w-5" />
+      case 'shipping': return <Truck className="h-5 w-5" />
+      case 'message': return <MessageSquare className="h-5 w-5" />
+      case 'promotion': return <Tag className="h-5 w-5" />
+      case 'account': return <User className="h-5 w-5" />
+      case 'security': return <Shield className="h-5 w-5" />
       case 'system': return <Settings className="h-5 w-5" />
       default: return <Bell className="h-5 w-5" />
     }
@@ -104,7 +101,11 @@ export default function CustomerNotificationsPage() {
     switch (type) {
       case 'order': return 'text-blue-600 bg-blue-100'
       case 'payment': return 'text-green-600 bg-green-100'
+      case 'shipping': return 'text-indigo-600 bg-indigo-100'
       case 'message': return 'text-purple-600 bg-purple-100'
+      case 'promotion': return 'text-pink-600 bg-pink-100'
+      case 'account': return 'text-yellow-600 bg-yellow-100'
+      case 'security': return 'text-red-600 bg-red-100'
       case 'system': return 'text-gray-600 bg-gray-100'
       default: return 'text-gray-600 bg-gray-100'
     }
@@ -133,24 +134,28 @@ export default function CustomerNotificationsPage() {
     { value: 'all', label: 'All Notifications' },
     { value: 'unread', label: 'Unread Only' },
     { value: 'order', label: 'Order Updates' },
+    { value: 'shipping', label: 'Shipping Updates' },
     { value: 'payment', label: 'Payment Alerts' },
     { value: 'message', label: 'Messages' },
+    { value: 'account', label: 'Account' },
     { value: 'system', label: 'System Alerts' }
   ]
 
   return (
     <ModernSubpageLayout
       title="Notifications"
-      description="Stay updated with your orders and account activity"
+      subtitle="Stay updated with your orders and account activity"
       breadcrumbs={breadcrumbs}
-      actions={[
-        {
-          label: 'Mark All Read',
-          onClick: markAllAsRead,
-          variant: 'secondary',
-          icon: Check
-        }
-      ]}
+      headerActions={
+        <button
+          onClick={markAllAsRead}
+          disabled={!notifications.some(n => !n.isRead)}
+          className="px-4 py-2 text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50"
+        >
+          <Check className="h-4 w-4" />
+          <span>Mark All Read</span>
+        </button>
+      }
     >
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
@@ -180,7 +185,7 @@ export default function CustomerNotificationsPage() {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Orders</p>
               <p className="text-2xl font-semibold text-gray-900">
-                {notifications.filter(n => n.type === 'order').length}
+                {notifications.filter(n => n.type === 'order' || n.type === 'shipping').length}
               </p>
             </div>
           </div>
@@ -206,11 +211,11 @@ export default function CustomerNotificationsPage() {
           {
             key: 'type',
             label: 'Type',
-            value: filter,
-            options: filterOptions,
-            onChange: (value) => setFilter(value)
+            options: filterOptions
           }
         ]}
+        activeFilters={{ type: filter }}
+        onFilterChange={(_, value) => setFilter(value)}
         onClearFilters={() => setFilter('all')}
         showDateRange={false}
       />
@@ -243,19 +248,22 @@ export default function CustomerNotificationsPage() {
                     <div className="flex items-start justify-between">
                       <div className="flex-1">
                         <div className="flex items-center space-x-2">
-                          <p className={`text-sm font-medium ${!notification.isRead ? 'text-gray-900' : 'text-gray-600'}`}>
+                          <button
+                            onClick={() => openNotification(notification)}
+                            disabled={!notification.link}
+                            className={`text-sm font-medium text-left ${!notification.isRead ? 'text-gray-900' : 'text-gray-600'} ${notification.link ? 'hover:text-primary-600' : 'cursor-default'}`}
+                          >
                             {notification.title}
-                          </p>
+                          </button>
                           {!notification.isRead && (
-                            <StatusBadge status="new" type="notification" />
+                            <StatusBadge status="new" size="sm" />
                           )}
-                          <StatusBadge status={notification.type} type="notification" />
                         </div>
                         <p className="text-sm text-gray-600 mt-1">
                           {notification.message}
                         </p>
                         <p className="text-xs text-gray-500 mt-2">
-                          {new Date(notification.createdAt).toLocaleString()}
+                          {notification.createdAt.toLocaleString()}
                         </p>
                       </div>
                       <div className="flex items-center space-x-2 ml-4">
@@ -3,8 +3,17 @@
 import React, { useState, useEffect } from 'react'
 import Link from 'next/link'
 import Image from 'next/image'
-import { ArrowLeft, Package, Truck, CheckCircle, Clock, AlertCircle, Loader2, Download, MessageSquare, MapPin, CreditCard, Heart, Settings } from 'lucide-react'
+import { ArrowLeft, Package, Truck, CheckCircle, Clock, AlertCircle, Loader2, Download, MessageSquare, MapPin, CreditCard, Heart, Settings, RotateCcw } from 'lucide-react'
 import ModernDashboardLayout from '@/components/dashboard/ModernDashboardLayout'
+import StatusBadge from '@/components/dashboard/StatusBadge'
+import ReturnRequestModal from '@/components/customer/ReturnRequestModal'
+import { useToast } from '@/components/ui/toast'
+import { useAuth } from '@/hooks/useAuth'
+import { orderService } from '@/lib/services/order.service'
+import { subOrderService } from '@/lib/services/sub-order.service'
+import { RETURN_WINDOW_DAYS, returnService } from '@/lib/services/return.service'
+import { OPEN_RETURN_STATUSES } from '@/lib/services/returns/return-state-machine'
+import { ReturnRequest } from '@/types'
 
 interface OrderItem {
   id: string
@@ -13,12 +22,14 @@ interface OrderItem {
   quantity: number
   image: string
   sku: string
+  // Delivered units not yet covered by a return; 0 outside the return window
+  returnableQuantity: number
 }
 
 interface Order {
   id: string
   orderNumber: string
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled'
+  status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled'
   orderDate: string
   estimatedDelivery: string
   items: OrderItem[]
@@ -37,12 +48,34 @@ interface Order {
     country: string
   }
   paymentMethod: string
+  shipments: Shipment[]
+}
+
+// One shipment per supplier sub-order
+interface Shipment {
+  id: string
+  supplierId: string
+  status: string
+  trackingNumber?: string
+  shippingCost: number
+  itemCount: number
+}
+
+const toDateString = (value: unknown): string => {
+  if (value && typeof (value as { toDate?: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate().toISOString()
+  }
+  return new Date(value as string | Date).toISOString()
 }
 
 export default function CustomerOrderDetailPage({ params }: { params: { id: string } }) {
   const orderId = params.id
+  const { user, loading: authLoading } = useAuth()
   const [order, setOrder] = useState<Order | null>(null)
   const [loading, setLoading] = useState(true)
+  const [returns, setReturns] = useState<ReturnRequest[]>([])
+  const [returnItem, setReturnItem] = useState<OrderItem | null>(null)
+  const { success, error } = useToast()
 
   // Sidebar items for customer dashboard
   const sidebarItems = [
@@ -91,61 +124,119 @@ export default function CustomerOrderDetailPage({ params }: { params: { id: stri
   ]
 
   useEffect(() => {
-    // Simulate loading order data
     const loadOrder = async () => {
+      if (authLoading) return
       setLoading(true)
-      
-      // Mock order data - in real app, fetch from API
-      const mockOrder: Order = {
-        id: orderId,
-        orderNumber: `ORD-${orderId.toUpperCase()}`,
-        status: 'shipped',
-        orderDate: '2024-01-15T10:30:00Z',
-        estimatedDelivery: '2024-01-20T17:00:00Z',
-        items: [
-          {
-            id: '1',
-            name: 'Wireless Bluetooth Headphones',
-            price: 89.99,
-            quantity: 1,
-            image: '/category-api-5.jpg',
-            sku: 'WBH-001'
-          },
-          {
-            id: '2',
-            name: 'Premium Cotton T-Shirt',
-            price: 24.99,
-            quantity: 2,
-            image: '/product-api-3.jpg',
-            sku: 'PCT-002'
+
+      try {
+        const parentOrder = user ? await orderService.getOrder(orderId) : null
+        if (!parentOrder || parentOrder.userId !== user?.uid) {
+          setOrder(null)
+          return
+        }
+
+        const [subOrders, orderReturns] = await Promise.all([
+          subOrderService.getSubOrdersForOrder(orderId),
+          returnService.getReturnsForOrder(orderId, parentOrder.userId)
+        ])
+        setReturns(orderReturns)
+
+        // Items can be returned once their own shipment has been delivered
+        const returnWindowMs = RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000
+        const getReturnableQuantity = (itemId: string, quantity: number) => {
+          const subOrder = subOrders.find(candidate => candidate.items.some(subItem => subItem.id === itemId))
+          const status = subOrder?.status || parentOrder.status
+          const deliveredAt = new Date(toDateString(subOrder?.deliveredAt || parentOrder.updatedAt))
+          if (status !== 'delivered' || Date.now() - deliveredAt.getTime() > returnWindowMs) {
+            return 0
           }
-        ],
-        subtotal: 139.97,
-        shipping: 9.99,
-        tax: 11.20,
-        total: 161.16,
-        trackingNumber: 'TRK123456789',
-        shippingMethod: 'Standard Shipping',
-        shippingAddress: {
-          name: 'John Doe',
-          street: '123 Main St',
-          city: 'New York',
-          state: 'NY',
-          zip: '10001',
-          country: 'USA'
-        },
-        paymentMethod: 'Credit Card ending in 4242'
-      }
+          const held = orderReturns
+            .filter(existing => existing.orderItemId === itemId && OPEN_RETURN_STATUSES.includes(existing.status))
+            .reduce((sum, existing) => sum + existing.quantity, 0)
+          return Math.max(quantity - held, 0)
+        }
+
+        const subtotal = parentOrder.items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+        const shipping = subOrders.reduce((sum, subOrder) => sum + subOrder.shippingCost, 0)
+        const address = parentOrder.shippingAddress
 
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      setOrder(mockOrder)
-      setLoading(false)
+        setOrder({
+          id: parentOrder.id,
+          orderNumber: `ORD-${parentOrder.id.toUpperCase()}`,
+          status: parentOrder.status,
+          orderDate: toDateString(parentOrder.createdAt),
+          estimatedDelivery: '',
+          items: parentOrder.items.map(item => ({
+            id: item.id,
+            name: item.variant ? `${item.product?.name || item.productId} (${item.variant.name})` : item.product?.name || item.productId,
+            price: item.price,
+            quantity: item.quantity,
+            image: item.product?.image || '/placeholder-product.jpg',
+            sku: item.variant?.sku || item.product?.sku || item.productId,
+            returnableQuantity: getReturnableQuantity(item.id, item.quantity)
+          })),
+          subtotal,
+          shipping,
+          tax: Math.max(parentOrder.total - subtotal - shipping, 0),
+          total: parentOrder.total,
+          trackingNumber: subOrders.find(subOrder => subOrder.trackingNumber)?.trackingNumber,
+          shippingMethod: subOrders.length > 1 ? `${subOrders.length} shipments` : 'Standard Shipping',
+          shippingAddress: {
+            name: `${address.firstName} ${address.lastName}`.trim(),
+            street: [address.address1, address.address2].filter(Boolean).join(', '),
+            city: address.city,
+            state: address.state,
+            zip: address.postalCode,
+            country: address.country
+          },
+          paymentMethod: parentOrder.paymentMethod,
+          shipments: subOrders.map(subOrder => ({
+            id: subOrder.id,
+            supplierId: subOrder.supplierId,
+            status: subOrder.status,
+            trackingNumber: subOrder.trackingNumber,
+            shippingCost: subOrder.shippingCost,
+            itemCount: subOrder.items.reduce((sum, item) => sum + item.quantity, 0)
+          }))
+        })
+      } catch (error) {
+        console.error('Failed to load order:', error)
+        setOrder(null)
+      } finally {
+        setLoading(false)
+      }
     }
 
     loadOrder()
-  }, [orderId])
+  }, [orderId, user, authLoading])
+
+  const handleReturnCreated = (returnRequest: ReturnRequest) => {
+    setReturns(current => [returnRequest, ...current])
+    setOrder(current => current && {
+      ...current,
+      items: current.items.map(item => item.id === returnRequest.orderItemId
+        ? { ...item, returnableQuantity: Math.max(item.returnableQuantity - returnRequest.quantity, 0) }
+        : item)
+    })
+  }
+
+  const updateReturn = async (action: () => Promise<ReturnRequest>, message: string) => {
+    try {
+      const updated = await action()
+      setReturns(current => current.map(existing => existing.id === updated.id ? updated : existing))
+      if (updated.status === 'cancelled') {
+        setOrder(current => current && {
+          ...current,
+          items: current.items.map(item => item.id === updated.orderItemId
+            ? { ...item, returnableQuantity: item.returnableQuantity + updated.quantity }
+            : item)
+        })
+      }
+      success(message)
+    } catch (err) {
+      error('Could not update return', err instanceof Error ? err.message : undefined)
+    }
+  }
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -269,6 +360,15 @@ export default function CustomerOrderDetailPage({ params }: { params: { id: stri
                       <div className="text-right">
                         <p className="text-sm font-medium text-gray-900">${item.price.toFixed(2)}</p>
                         <p className="text-sm text-gray-500">Total: ${(item.price * item.quantity).toFixed(2)}</p>
+                        {item.returnableQuantity > 0 && (
+                          <button
+                            onClick={() => setReturnItem(item)}
+                            className="mt-2 inline-flex items-center text-sm text-blue-600 hover:text-blue-700"
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Return item
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -276,6 +376,105 @@ export default function CustomerOrderDetailPage({ params }: { params: { id: stri
               </div>
             </div>
 
+            {/* Shipments */}
+            {order.shipments.length > 1 && (
+              <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900">Shipments</h3>
+                  <p className="text-sm text-gray-500">Items from different sellers ship separately</p>
+                </div>
+                <div className="divide-y divide-gray-200">
+                  {order.shipments.map((shipment, index) => (
+                    <div key={shipment.id} className="px-6 py-4 flex items-center justify-between">
+                      <div>
+                        <h4 className="text-sm font-medium text-gray-900">Shipment {index + 1}</h4>
+                        <p className="text-sm text-gray-500">
+                          {shipment.itemCount} {shipment.itemCount === 1 ? 'item' : 'items'} · Shipping ${shipment.shippingCost.toFixed(2)}
+                        </p>
+                        {shipment.trackingNumber && (
+                          <p className="text-sm text-gray-500">Tracking: {shipment.trackingNumber}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {getStatusIcon(shipment.status)}
+                        <span className={`inline-flex px-3 py-1 text-xs font-medium rounded-full border ${getStatusColor(shipment.status)}`}>
+                          {shipment.status.charAt(0).toUpperCase() + shipment.status.slice(1)}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Returns */}
+            {returns.length > 0 && (
+              <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900">Returns</h3>
+                </div>
+                <div className="divide-y divide-gray-200">
+                  {returns.map((returnRequest) => (
+                    <div key={returnRequest.id} className="px-6 py-4 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <h4 className="text-sm font-medium text-gray-900">
+                            {returnRequest.productName} × {returnRequest.quantity}
+                          </h4>
+                          <p className="text-sm text-gray-500 font-mono">{returnRequest.rmaNumber}</p>
+                        </div>
+                        <StatusBadge status={returnRequest.status} />
+                      </div>
+                      {returnRequest.rejectionReason && (
+                        <p className="text-sm text-red-600">Rejected: {returnRequest.rejectionReason}</p>
+                      )}
+                      {returnRequest.replacementTrackingNumber && (
+                        <p className="text-sm text-gray-500">Replacement tracking: {returnRequest.replacementTrackingNumber}</p>
+                      )}
+                      <ol className="text-xs text-gray-500 space-y-1">
+                        {returnRequest.statusHistory.map((change, index) => (
+                          <li key={index}>
+                            {new Date(change.changedAt).toLocaleString()} · {change.status.replace(/_/g, ' ')}
+                            {change.note ? ` – ${change.note}` : ''}
+                          </li>
+                        ))}
+                      </ol>
+                      <div className="flex flex-wrap gap-3">
+                        {returnRequest.returnLabel && returnRequest.status === 'label_issued' && (
+                          <>
+                            <a
+                              href={returnRequest.returnLabel.labelUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-700"
+                            >
+                              <Download className="h-4 w-4 mr-1" />
+                              Return label ({returnRequest.returnLabel.carrier} {returnRequest.returnLabel.trackingNumber})
+                            </a>
+                            <button
+                              onClick={() => updateReturn(() => returnService.markShipped(returnRequest.id, user!.uid), 'Return marked as shipped')}
+                              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-700"
+                            >
+                              <Truck className="h-4 w-4 mr-1" />
+                              I've shipped it
+                            </button>
+                          </>
+                        )}
+                        {['requested', 'approved', 'label_issued'].includes(returnRequest.status) && (
+                          <button
+                            onClick={() => updateReturn(() => returnService.cancelReturn(returnRequest.id, user!.uid), 'Return cancelled')}
+                            className="text-sm text-gray-600 hover:text-gray-900"
+                          >
+                            Cancel return
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Shipping Information */}
             <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
               <div className="px-6 py-4 border-b border-gray-200">
@@ -301,10 +500,12 @@ export default function CustomerOrderDetailPage({ params }: { params: { id: stri
                       {order.trackingNumber && (
                         <p><span className="font-medium">Tracking:</span> {order.trackingNumber}</p>
                       )}
-                      <p>
-                        <span className="font-medium">Estimated Delivery:</span>{' '}
-                        {new Date(order.estimatedDelivery).toLocaleDateString()}
-                      </p>
+                      {order.estimatedDelivery && (
+                        <p>
+                          <span className="font-medium">Estimated Delivery:</span>{' '}
+                          {new Date(order.estimatedDelivery).toLocaleDateString()}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -398,6 +599,17 @@ export default function CustomerOrderDetailPage({ params }: { params: { id: stri
           </div>
         </div>
       </div>
+
+      {returnItem && user && (
+        <ReturnRequestModal
+          isOpen={!!returnItem}
+          onClose={() => setReturnItem(null)}
+          onCreated={handleReturnCreated}
+          userId={user.uid}
+          orderId={order.id}
+          item={returnItem}
+        />
+      )}
     </ModernDashboardLayout>
   )
 }
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { 
   HelpCircle, MessageCircle, Phone, Mail, FileText,
   ChevronDown, ChevronUp, Send, LifeBuoy, Clock, Users
@@ -8,6 +8,13 @@ import {
 import Link from 'next/link'
 import ModernSubpageLayout from '@/components/dashboard/ModernSubpageLayout'
 import StatusBadge from '@/components/dashboard/StatusBadge'
+import TicketThreadModal, { TICKET_CATEGORY_LABELS } from '@/components/support/TicketThreadModal'
+import { useToast } from '@/components/ui/toast'
+import { useAuth } from '@/hooks/useAuth'
+import { ValidationError } from '@/lib/errors'
+import { orderService } from '@/lib/services/order.service'
+import { supportService } from '@/lib/services/support.service'
+import { Order, SupportTicket, TicketCategory, TicketPriority } from '@/types'
 
 interface FAQItem {
   id: string
@@ -16,23 +23,49 @@ interface FAQItem {
   category: string
 }
 
-interface SupportTicket {
-  id: string
-  subject: string
-  status: 'open' | 'in-progress' | 'resolved'
-  createdAt: string
-  lastUpdated: string
+const EMPTY_TICKET_FORM = {
+  subject: '',
+  message: '',
+  category: 'order' as TicketCategory,
+  priority: 'medium' as TicketPriority,
+  orderId: ''
 }
 
 export default function CustomerSupportPage() {
+  const { user, loading: authLoading } = useAuth()
+  const { success, error } = useToast()
   const [activeCategory, setActiveCategory] = useState('all')
   const [expandedFAQ, setExpandedFAQ] = useState<string | null>(null)
   const [showContactForm, setShowContactForm] = useState(false)
-  const [contactForm, setContactForm] = useState({
-    subject: '',
-    message: '',
-    priority: 'medium'
-  })
+  const [contactForm, setContactForm] = useState(EMPTY_TICKET_FORM)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({})
+  const [submitting, setSubmitting] = useState(false)
+  const [supportTickets, setSupportTickets] = useState<SupportTicket[]>([])
+  const [orders, setOrders] = useState<Order[]>([])
+  const [selectedTicket, setSelectedTicket] = useState<SupportTicket | null>(null)
+
+  const loadTickets = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setSupportTickets(await supportService.getRequesterTickets(user.uid))
+    } catch (err) {
+      console.error('Failed to load support tickets:', err)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (!authLoading) {
+      loadTickets()
+    }
+  }, [authLoading, loadTickets])
+
+  useEffect(() => {
+    if (!user || !showContactForm) return
+    orderService.getUserOrders(user.uid, 1, 10)
+      .then(result => setOrders(result.orders))
+      .catch(err => console.error('Failed to load orders:', err))
+  }, [user, showContactForm])
 
   const faqItems: FAQItem[] = [
     {
@@ -73,23 +106,6 @@ export default function CustomerSupportPage() {
     }
   ]
 
-  const supportTickets: SupportTicket[] = [
-    {
-      id: 'TICKET-001',
-      subject: 'Order not delivered',
-      status: 'resolved',
-      createdAt: '2024-01-15',
-      lastUpdated: '2024-01-18'
-    },
-    {
-      id: 'TICKET-002',
-      subject: 'Payment issue',
-      status: 'in-progress',
-      createdAt: '2024-01-20',
-      lastUpdated: '2024-01-22'
-    }
-  ]
-
   const filteredFAQs = faqItems.filter(item => 
     activeCategory === 'all' || item.category === activeCategory
   )
@@ -99,25 +115,41 @@ export default function CustomerSupportPage() {
     { label: 'Support', href: '/customer/support' }
   ]
 
-  const handleSubmitTicket = (e: React.FormEvent) => {
+  const handleSubmitTicket = async (e: React.FormEvent) => {
     e.preventDefault()
-    console.log('Support ticket submitted:', contactForm)
-    // TODO: Implement toast notification
-    setShowContactForm(false)
-    setContactForm({ subject: '', message: '', priority: 'medium' })
+    if (!user) return
+
+    setSubmitting(true)
+    setFieldErrors({})
+    try {
+      const ticket = await supportService.createTicket(user, {
+        subject: contactForm.subject,
+        message: contactForm.message,
+        category: contactForm.category,
+        priority: contactForm.priority,
+        ...(contactForm.orderId ? { orderId: contactForm.orderId } : {})
+      })
+      success('Ticket submitted', `We've opened ticket ${ticket.ticketNumber} and emailed you a copy`)
+      setSupportTickets(current => [ticket, ...current])
+      setShowContactForm(false)
+      setContactForm(EMPTY_TICKET_FORM)
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        setFieldErrors(err.fieldErrors)
+      }
+      error('Could not submit ticket', err instanceof Error ? err.message : undefined)
+    } finally {
+      setSubmitting(false)
+    }
   }
 
-  const handleNewTicket = () => {
-    setShowContactForm(true)
+  const handleTicketUpdated = (updated: SupportTicket) => {
+    setSupportTickets(current => current.map(ticket => ticket.id === updated.id ? updated : ticket))
+    setSelectedTicket(updated)
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'resolved': return 'text-green-600 bg-green-100'
-      case 'in-progress': return 'text-yellow-600 bg-yellow-100'
-      case 'open': return 'text-blue-600 bg-blue-100'
-      default: return 'text-gray-600 bg-gray-100'
-    }
+  const handleNewTicket = () => {
+    setShowContactForm(true)
   }
 
   return (
@@ -137,7 +169,7 @@ export default function CustomerSupportPage() {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Active Tickets</p>
               <p className="text-2xl font-semibold text-gray-900">
-                {supportTickets.filter(t => t.status !== 'resolved').length}
+                {supportTickets.filter(t => t.status !== 'resolved' && t.status !== 'closed').length}
               </p>
             </div>
           </div>
@@ -264,18 +296,50 @@ export default function CustomerSupportPage() {
                       required
                       className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
                     />
+                    {fieldErrors.subject && <p className="mt-1 text-sm text-red-600">{fieldErrors.subject[0]}</p>}
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Category</label>
+                      <select
+                        value={contactForm.category}
+                        onChange={(e) => setContactForm(prev => ({ ...prev, category: e.target.value as TicketCategory }))}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        {Object.entries(TICKET_CATEGORY_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Priority</label>
+                      <select
+                        value={contactForm.priority}
+                        onChange={(e) => setContactForm(prev => ({ ...prev, priority: e.target.value as TicketPriority }))}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        <option value="low">Low</option>
+                        <option value="medium">Medium</option>
+                        <option value="high">High</option>
+                        <option value="urgent">Urgent</option>
+                      </select>
+                    </div>
                   </div>
                   <div>
-                    <label className="block text-sm font-medium text-gray-700">Priority</label>
+                    <label className="block text-sm font-medium text-gray-700">Related order</label>
                     <select
-                      value={contactForm.priority}
-                      onChange={(e) => setContactForm(prev => ({ ...prev, priority: e.target.value }))}
+                      value={contactForm.orderId}
+                      onChange={(e) => setContactForm(prev => ({ ...prev, orderId: e.target.value }))}
                       className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
                     >
-                      <option value="low">Low</option>
-                      <option value="medium">Medium</option>
-                      <option value="high">High</option>
+                      <option value="">None</option>
+                      {orders.map(order => (
+                        <option key={order.id} value={order.id}>
+                          #{order.id} · {order.items.length} item{order.items.length === 1 ? '' : 's'}
+                        </option>
+                      ))}
                     </select>
+                    {fieldErrors.orderId && <p className="mt-1 text-sm text-red-600">{fieldErrors.orderId[0]}</p>}
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Message</label>
@@ -286,14 +350,16 @@ export default function CustomerSupportPage() {
                       rows={4}
                       className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
                     />
+                    {fieldErrors.message && <p className="mt-1 text-sm text-red-600">{fieldErrors.message[0]}</p>}
                   </div>
                   <div className="flex items-center space-x-3">
                     <button
                       type="submit"
-                      className="flex items-center space-x-2 px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700"
+                      disabled={submitting}
+                      className="flex items-center space-x-2 px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
                     >
                       <Send className="h-4 w-4" />
-                      <span>Submit Ticket</span>
+                      <span>{submitting ? 'Submitting...' : 'Submit Ticket'}</span>
                     </button>
                     <button
                       type="button"
@@ -315,14 +381,19 @@ export default function CustomerSupportPage() {
               <h3 className="text-lg font-medium text-gray-900 mb-4">Recent Support Tickets</h3>
               <div className="space-y-4">
                 {supportTickets.map((ticket) => (
-                  <div key={ticket.id} className="border border-gray-200 rounded-lg p-4">
+                  <button
+                    key={ticket.id}
+                    onClick={() => setSelectedTicket(ticket)}
+                    className="w-full text-left border border-gray-200 rounded-lg p-4 hover:bg-gray-50"
+                  >
                     <div className="flex items-center justify-between mb-2">
                       <p className="text-sm font-medium text-gray-900">{ticket.subject}</p>
                       <StatusBadge status={ticket.status} />
                     </div>
-                    <p className="text-xs text-gray-500">Created: {ticket.createdAt}</p>
-                    <p className="text-xs text-gray-500">Updated: {ticket.lastUpdated}</p>
-                  </div>
+                    <p className="text-xs text-gray-500">{ticket.ticketNumber} · {TICKET_CATEGORY_LABELS[ticket.category]}</p>
+                    <p className="text-xs text-gray-500">Created: {ticket.createdAt.toLocaleDateString()}</p>
+                    <p className="text-xs text-gray-500">Updated: {ticket.updatedAt.toLocaleDateString()}</p>
+                  </button>
                 ))}
                 {supportTickets.length === 0 && (
                   <p className="text-sm text-gray-500 text-center py-4">No recent tickets</p>
@@ -383,6 +454,15 @@ export default function CustomerSupportPage() {
             </div>
         </div>
       </div>
+
+      {selectedTicket && user && (
+        <TicketThreadModal
+          ticket={selectedTicket}
+          viewer={{ id: user.uid, name: user.name || user.email, role: 'customer' }}
+          onClose={() => setSelectedTicket(null)}
+          onUpdated={handleTicketUpdated}
+        />
+      )}
     </ModernSubpageLayout>
   )
 } 
@@ -1,73 +1,84 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { 
   Package, 
   AlertTriangle, 
   TrendingDown, 
   TrendingUp, 
-  Plus,
+  Lock,
   Edit,
   Eye
 } from 'lucide-react'
 import ModernSubpageLayout from '@/components/dashboard/ModernSubpageLayout'
 import FilterBar from '@/components/dashboard/FilterBar'
 import StatusBadge from '@/components/dashboard/StatusBadge'
+import { useAuth } from '@/hooks/useAuth'
+import { InventoryItem, inventoryReservationService } from '@/lib/services/inventory-reservation.service'
+
+// One row per product; variants are listed underneath with their own counts
+interface ProductInventoryRow {
+  id: string
+  name: string
+  skus: InventoryItem[]
+  onHand: number
+  reserved: number
+  available: number
+  status: 'in_stock' | 'low_stock' | 'out_of_stock'
+  lastUpdated: Date
+}
+
+const toProductRows = (records: InventoryItem[]): ProductInventoryRow[] => {
+  const byProduct = new Map<string, InventoryItem[]>()
+  for (const record of records) {
+    byProduct.set(record.productId, [...(byProduct.get(record.productId) || []), record])
+  }
+
+  return Array.from(byProduct, ([productId, skus]) => {
+    const onHand = skus.reduce((sum, sku) => sum + sku.quantity, 0)
+    const reserved = skus.reduce((sum, sku) => sum + sku.reservedQuantity, 0)
+    const available = skus.reduce((sum, sku) => sum + sku.availableQuantity, 0)
+    const lowStockThreshold = skus.reduce((sum, sku) => sum + sku.lowStockThreshold, 0)
+    return {
+      id: productId,
+      name: skus.find(sku => sku.productName)?.productName || productId,
+      skus,
+      onHand,
+      reserved,
+      available,
+      status: available <= 0 ? 'out_of_stock' : available <= lowStockThreshold ? 'low_stock' : 'in_stock',
+      lastUpdated: new Date(Math.max(...skus.map(sku => sku.lastUpdated.getTime())))
+    }
+  })
+}
 
 export default function SupplierInventoryPage() {
+  const { user, loading: authLoading } = useAuth()
   const [searchTerm, setSearchTerm] = useState('')
   const [filterStatus, setFilterStatus] = useState('all')
+  const [records, setRecords] = useState<InventoryItem[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const loadInventory = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      setRecords(await inventoryReservationService.getSupplierInventory(user.uid))
+    } catch (err) {
+      console.error('Failed to load inventory:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
 
-  const inventoryItems = [
-    {
-      id: '1',
-      name: 'Wireless Headphones',
-      sku: 'WH-001',
-      currentStock: 45,
-      minStock: 20,
-      maxStock: 100,
-      unitCost: 25.00,
-      totalValue: 1125.00,
-      status: 'in_stock',
-      lastUpdated: '2024-01-15'
-    },
-    {
-      id: '2',
-      name: 'Smart Watch',
-      sku: 'SW-002',
-      currentStock: 8,
-      minStock: 15,
-      maxStock: 50,
-      unitCost: 150.00,
-      totalValue: 1200.00,
-      status: 'low_stock',
-      lastUpdated: '2024-01-14'
-    },
-    {
-      id: '3',
-      name: 'Bluetooth Speaker',
-      sku: 'BS-003',
-      currentStock: 0,
-      minStock: 10,
-      maxStock: 30,
-      unitCost: 45.00,
-      totalValue: 0.00,
-      status: 'out_of_stock',
-      lastUpdated: '2024-01-13'
-    },
-    {
-      id: '4',
-      name: 'USB-C Cable',
-      sku: 'UC-004',
-      currentStock: 150,
-      minStock: 50,
-      maxStock: 200,
-      unitCost: 8.00,
-      totalValue: 1200.00,
-      status: 'in_stock',
-      lastUpdated: '2024-01-15'
+  useEffect(() => {
+    if (!authLoading) {
+      loadInventory()
     }
-  ]
+  }, [authLoading, loadInventory])
+
+  const inventoryItems = useMemo(() => toProductRows(records), [records])
 
   const getInventoryStatus = (status: string) => {
     switch (status) {
@@ -89,12 +100,12 @@ export default function SupplierInventoryPage() {
 
   const filteredItems = inventoryItems.filter(item => {
     const matchesSearch = item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         item.sku.toLowerCase().includes(searchTerm.toLowerCase())
+                         item.skus.some(sku => (sku.sku || '').toLowerCase().includes(searchTerm.toLowerCase()))
     const matchesFilter = filterStatus === 'all' || item.status === filterStatus
     return matchesSearch && matchesFilter
   })
 
-  const totalValue = inventoryItems.reduce((sum, item) => sum + item.totalValue, 0)
+  const totalReserved = inventoryItems.reduce((sum, item) => sum + item.reserved, 0)
   const lowStockItems = inventoryItems.filter(item => item.status === 'low_stock').length
   const outOfStockItems = inventoryItems.filter(item => item.status === 'out_of_stock').length
 
@@ -140,11 +151,12 @@ export default function SupplierInventoryPage() {
         <div className="bg-white rounded-lg p-6 border border-gray-200">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-600">Total Value</p>
-              <p className="text-2xl font-bold text-gray-900">₦{totalValue.toLocaleString()}</p>
+              <p className="text-sm font-medium text-gray-600">Reserved</p>
+              <p className="text-2xl font-bold text-gray-900">{totalReserved.toLocaleString()}</p>
+              <p className="text-xs text-gray-500">Units held for unpaid orders</p>
             </div>
             <div className="p-3 bg-green-100 rounded-full">
-              <TrendingUp className="h-6 w-6 text-green-600" />
+              <Lock className="h-6 w-6 text-green-600" />
             </div>
           </div>
         </div>
@@ -212,13 +224,16 @@ export default function SupplierInventoryPage() {
                   SKU
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Stock Level
+                  On Hand
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Status
+                  Reserved
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Value
+                  Available
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Actions
@@ -232,15 +247,27 @@ export default function SupplierInventoryPage() {
                     <div className="text-sm font-medium text-gray-900">{item.name}</div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-600">{item.sku}</div>
+                    {item.skus.map(sku => (
+                      <div key={sku.sku || sku.productId} className="text-sm text-gray-600">{sku.sku || '—'}</div>
+                    ))}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900">
-                      {item.currentStock} / {item.maxStock}
-                    </div>
-                    <div className="text-xs text-gray-500">
-                      Min: {item.minStock}
-                    </div>
+                    <div className="text-sm text-gray-900">{item.onHand}</div>
+                    {item.skus.length > 1 && item.skus.map(sku => (
+                      <div key={sku.sku} className="text-xs text-gray-500">{sku.quantity}</div>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900">{item.reserved}</div>
+                    {item.skus.length > 1 && item.skus.map(sku => (
+                      <div key={sku.sku} className="text-xs text-gray-500">{sku.reservedQuantity}</div>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{item.available}</div>
+                    {item.skus.length > 1 && item.skus.map(sku => (
+                      <div key={sku.sku} className="text-xs text-gray-500">{sku.availableQuantity}</div>
+                    ))}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
@@ -249,14 +276,6 @@ export default function SupplierInventoryPage() {
                       <span className="ml-2 text-xs text-gray-500 capitalize">{item.status.replace('_', ' ')}</span>
                     </div>
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">
-                      ₦{item.totalValue.toFixed(2)}
-                    </div>
-                    <div className="text-xs text-gray-500">
-                      ₦{item.unitCost.toFixed(2)} each
-                    </div>
-                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <div className="flex items-center space-x-2">
                       <button className="text-orange-600 hover:text-orange-900">
@@ -292,7 +311,7 @@ export default function SupplierInventoryPage() {
       )}
 
       {/* Empty State */}
-      {filteredItems.length === 0 && (
+      {!loading && filteredItems.length === 0 && (
         <div className="text-center py-12">
           <Package className="w-16 h-16 text-gray-400 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">No inventory items found</h3>
@@ -5,6 +5,10 @@ import Link from 'next/link'
 import Image from 'next/image'
 import { ArrowLeft, Package, Truck, CheckCircle, Clock, AlertCircle, Loader2, Download, MessageSquare, Edit, User, MapPin, CreditCard } from 'lucide-react'
 import ModernDashboardLayout from '@/components/dashboard/ModernDashboardLayout'
+import { useAuth } from '@/hooks/useAuth'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import { orderService } from '@/lib/services/order.service'
+import { subOrderService } from '@/lib/services/sub-order.service'
 
 interface OrderItem {
   id: string
@@ -21,13 +25,13 @@ interface Order {
   customerName: string
   customerEmail: string
   customerPhone: string
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled'
+  status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled'
   orderDate: string
   estimatedDelivery: string
   items: OrderItem[]
   subtotal: number
   shipping: number
-  tax: number
+  commission: number
   total: number
   trackingNumber?: string
   shippingMethod: string
@@ -51,8 +55,17 @@ interface Order {
   }
 }
 
+const toDateString = (value: unknown): string => {
+  if (value && typeof (value as { toDate?: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate().toISOString()
+  }
+  return new Date(value as string | Date).toISOString()
+}
+
 export default function SupplierOrderDetailPage({ params }: { params: { id: string } }) {
   const orderId = params.id
+  const { user, loading: authLoading } = useAuth()
+  const { fetchWithCSRF } = useCSRFFetch()
   const [order, setOrder] = useState<Order | null>(null)
   const [loading, setLoading] = useState(true)
 
@@ -115,73 +128,68 @@ export default function SupplierOrderDetailPage({ params }: { params: { id: stri
   ]
 
   useEffect(() => {
-    // Simulate loading order data
     const loadOrder = async () => {
+      if (authLoading) return
       setLoading(true)
-      
-      // Mock order data - in real app, fetch from API
-      const mockOrder: Order = {
-        id: orderId,
-        orderNumber: `ORD-${orderId.toUpperCase()}`,
-        customerName: 'John Doe',
-        customerEmail: 'john.doe@example.com',
-        customerPhone: '+1 (555) 123-4567',
-        status: 'processing',
-        orderDate: '2024-01-15T10:30:00Z',
-        estimatedDelivery: '2024-01-20T17:00:00Z',
-        items: [
-          {
-            id: '1',
-            name: 'Wireless Bluetooth Headphones',
-            price: 89.99,
-            quantity: 1,
-            image: '/category-api-5.jpg',
-            sku: 'WBH-001'
-          },
-          {
-            id: '2',
-            name: 'Premium Cotton T-Shirt',
-            price: 24.99,
-            quantity: 2,
-            image: '/product-api-3.jpg',
-            sku: 'PCT-002'
-          }
-        ],
-        subtotal: 139.97,
-        shipping: 9.99,
-        tax: 11.20,
-        total: 161.16,
-        trackingNumber: 'TRK123456789',
-        shippingMethod: 'Standard Shipping',
-        paymentStatus: 'paid',
-        paymentMethod: 'Credit Card ending in 4242',
-        shippingAddress: {
-          name: 'John Doe',
-          street: '123 Main St',
-          city: 'New York',
-          state: 'NY',
-          zip: '10001',
-          country: 'USA'
-        },
-        billingAddress: {
-          name: 'John Doe',
-          street: '123 Main St',
-          city: 'New York',
-          state: 'NY',
-          zip: '10001',
-          country: 'USA'
+
+      try {
+        // Suppliers only ever see their own sub-order, never the combined parent order
+        const subOrder = user ? await subOrderService.getSupplierSubOrder(orderId, user.uid) : null
+        if (!subOrder) {
+          setOrder(null)
+          return
         }
-      }
 
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      setOrder(mockOrder)
-      setLoading(false)
+        const parentOrder = await orderService.getOrder(subOrder.parentOrderId)
+        const address = subOrder.shippingAddress
+        const billing = parentOrder?.billingAddress || address
+        const toAddress = (value: typeof address) => ({
+          name: `${value.firstName} ${value.lastName}`.trim(),
+          street: [value.address1, value.address2].filter(Boolean).join(', '),
+          city: value.city,
+          state: value.state,
+          zip: value.postalCode,
+          country: value.country
+        })
+
+        setOrder({
+          id: subOrder.id,
+          orderNumber: `ORD-${subOrder.parentOrderId.toUpperCase()}`,
+          customerName: `${address.firstName} ${address.lastName}`.trim(),
+          customerEmail: '',
+          customerPhone: address.phone || '',
+          status: subOrder.status,
+          orderDate: toDateString(subOrder.createdAt),
+          estimatedDelivery: '',
+          items: subOrder.items.map(item => ({
+            id: item.id,
+            name: item.product?.name || item.productId,
+            price: item.price,
+            quantity: item.quantity,
+            image: item.product?.image || '/placeholder-product.jpg',
+            sku: item.product?.sku || item.productId
+          })),
+          subtotal: subOrder.subtotal,
+          shipping: subOrder.shippingCost,
+          commission: subOrder.commissionAmount,
+          total: subOrder.total,
+          trackingNumber: subOrder.trackingNumber,
+          shippingMethod: 'Standard Shipping',
+          paymentStatus: parentOrder?.paymentStatus === 'paid' ? 'paid' : parentOrder?.paymentStatus === 'failed' ? 'failed' : 'pending',
+          paymentMethod: parentOrder?.paymentMethod || '',
+          shippingAddress: toAddress(address),
+          billingAddress: toAddress(billing)
+        })
+      } catch (error) {
+        console.error('Failed to load sub-order:', error)
+        setOrder(null)
+      } finally {
+        setLoading(false)
+      }
     }
 
     loadOrder()
-  }, [orderId])
+  }, [orderId, user, authLoading])
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -226,12 +234,24 @@ export default function SupplierOrderDetailPage({ params }: { params: { id: stri
     }
   }
 
-  const handleStatusUpdate = (newStatus: string) => {
-    if (order) {
-      setOrder({ ...order, status: newStatus as any })
-      // In real app, make API call to update status
-      // TODO: Replace with toast notification
-      console.log(`Updating order ${order.id} status to ${newStatus}`)
+  const handleStatusUpdate = async (newStatus: Order['status']) => {
+    if (!order) return
+
+    const previousStatus = order.status
+    setOrder({ ...order, status: newStatus })
+    try {
+      // Status changes go through the server, which books delivered sales in the ledger
+      const response = await fetchWithCSRF(`/api/sub-orders/${order.id}/status`, {
+        method: 'PATCH',
+        body: JSON.stringify({ status: newStatus })
+      })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update sub-order status')
+      }
+    } catch (error) {
+      console.error('Failed to update sub-order status:', error)
+      setOrder({ ...order, status: previousStatus })
     }
   }
 
@@ -312,7 +332,7 @@ export default function SupplierOrderDetailPage({ params }: { params: { id: stri
                     <h4 className="text-sm font-medium text-gray-900 mb-3">Contact Details</h4>
                     <div className="text-sm text-gray-600 space-y-1">
                       <p className="font-medium">{order.customerName}</p>
-                      <p>{order.customerEmail}</p>
+                      {order.customerEmail && <p>{order.customerEmail}</p>}
                       <p>{order.customerPhone}</p>
                     </div>
                   </div>
@@ -390,10 +410,12 @@ export default function SupplierOrderDetailPage({ params }: { params: { id: stri
                       {order.trackingNumber && (
                         <p><span className="font-medium">Tracking:</span> {order.trackingNumber}</p>
                       )}
-                      <p>
-                        <span className="font-medium">Estimated Delivery:</span>{' '}
-                        {new Date(order.estimatedDelivery).toLocaleDateString()}
-                      </p>
+                      {order.estimatedDelivery && (
+                        <p>
+                          <span className="font-medium">Estimated Delivery:</span>{' '}
+                          {new Date(order.estimatedDelivery).toLocaleDateString()}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -418,16 +440,20 @@ export default function SupplierOrderDetailPage({ params }: { params: { id: stri
                     <span className="text-gray-600">Shipping</span>
                     <span className="text-gray-900">${order.shipping.toFixed(2)}</span>
                   </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Tax</span>
-                    <span className="text-gray-900">${order.tax.toFixed(2)}</span>
-                  </div>
                   <div className="border-t border-gray-200 pt-3">
                     <div className="flex justify-between">
                       <span className="text-base font-semibold text-gray-900">Total</span>
                       <span className="text-base font-semibold text-gray-900">${order.total.toFixed(2)}</span>
                     </div>
                   </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Platform Commission</span>
+                    <span className="text-gray-900">-${order.commission.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm font-medium">
+                    <span className="text-gray-900">Your Earnings</span>
+                    <span className="text-gray-900">${(order.total - order.commission).toFixed(2)}</span>
+                  </div>
                 </div>
               </div>
             </div>
@@ -462,13 +488,16 @@ export default function SupplierOrderDetailPage({ params }: { params: { id: stri
                 <div className="space-y-3">
                   <select
                     value={order.status}
-                    onChange={(e) => handleStatusUpdate(e.target.value)}
+                    onChange={(e) => handleStatusUpdate(e.target.value as Order['status'])}
+                    disabled={order.status === 'delivered'}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
-                    <option value="pending">Pending</option>
+                    {/* Pending is where orders start; delivery is confirmed by the carrier */}
+                    <option value="pending" disabled>Pending</option>
+                    <option value="confirmed">Confirmed</option>
                     <option value="processing">Processing</option>
                     <option value="shipped">Shipped</option>
-                    <option value="delivered">Delivered</option>
+                    <option value="delivered" disabled>Delivered</option>
                     <option value="cancelled">Cancelled</option>
                   </select>
                 </div>
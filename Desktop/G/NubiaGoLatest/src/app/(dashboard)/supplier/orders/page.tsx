@@ -7,87 +7,68 @@ import ModernSubpageLayout from '@/components/dashboard/ModernSubpageLayout'
 import DataTable from '@/components/dashboard/DataTable'
 import StatusBadge from '@/components/dashboard/StatusBadge'
 import FilterBar from '@/components/dashboard/FilterBar'
+import { useAuth } from '@/hooks/useAuth'
+import { subOrderService } from '@/lib/services/sub-order.service'
 
 interface Order {
   id: string
   orderNumber: string
   customerName: string
   customerEmail: string
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled'
+  status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled'
   orderDate: string
   total: number
   items: number
   paymentStatus: 'paid' | 'pending' | 'failed'
 }
 
+const toDateString = (value: unknown): string => {
+  if (value && typeof (value as { toDate?: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate().toISOString()
+  }
+  return new Date(value as string | Date).toISOString()
+}
+
 export default function SupplierOrdersPage() {
+  const { user, loading: authLoading } = useAuth()
   const [orders, setOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState<string>('all')
 
   useEffect(() => {
-    // Simulate loading orders data
     const loadOrders = async () => {
-      setLoading(true)
-      
-      // Mock orders data - in real app, fetch from API
-      const mockOrders: Order[] = [
-        {
-          id: '1',
-          orderNumber: 'ORD-001',
-          customerName: 'John Doe',
-          customerEmail: 'john@example.com',
-          status: 'processing',
-          orderDate: '2024-01-15T10:30:00Z',
-          total: 159.99,
-          items: 3,
-          paymentStatus: 'paid'
-        },
-        {
-          id: '2',
-          orderNumber: 'ORD-002',
-          customerName: 'Jane Smith',
-          customerEmail: 'jane@example.com',
-          status: 'shipped',
-          orderDate: '2024-01-14T14:20:00Z',
-          total: 89.50,
-          items: 2,
-          paymentStatus: 'paid'
-        },
-        {
-          id: '3',
-          orderNumber: 'ORD-003',
-          customerName: 'Bob Johnson',
-          customerEmail: 'bob@example.com',
-          status: 'delivered',
-          orderDate: '2024-01-13T09:15:00Z',
-          total: 245.00,
-          items: 5,
-          paymentStatus: 'paid'
-        },
-        {
-          id: '4',
-          orderNumber: 'ORD-004',
-          customerName: 'Alice Brown',
-          customerEmail: 'alice@example.com',
-          status: 'pending',
-          orderDate: '2024-01-16T16:45:00Z',
-          total: 67.25,
-          items: 1,
-          paymentStatus: 'pending'
-        }
-      ]
+      if (authLoading) return
+      if (!user) {
+        setLoading(false)
+        return
+      }
 
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      setOrders(mockOrders)
-      setLoading(false)
+      setLoading(true)
+      try {
+        // Each row is this supplier's sub-order of a (possibly multi-vendor) customer order
+        const subOrders = await subOrderService.getSupplierSubOrders(user.uid)
+        setOrders(subOrders.map(subOrder => ({
+          id: subOrder.id,
+          orderNumber: `ORD-${subOrder.parentOrderId.toUpperCase()}`,
+          customerName: `${subOrder.shippingAddress.firstName} ${subOrder.shippingAddress.lastName}`.trim(),
+          customerEmail: '',
+          status: subOrder.status,
+          orderDate: toDateString(subOrder.createdAt),
+          total: subOrder.total,
+          items: subOrder.items.reduce((sum, item) => sum + item.quantity, 0),
+          paymentStatus: subOrder.status === 'pending' ? 'pending' : subOrder.status === 'cancelled' ? 'failed' : 'paid'
+        })))
+      } catch (error) {
+        console.error('Failed to load supplier orders:', error)
+        setOrders([])
+      } finally {
+        setLoading(false)
+      }
     }
 
     loadOrders()
-  }, [])
+  }, [user, authLoading])
 
 
   const breadcrumbs = [
@@ -111,6 +92,7 @@ export default function SupplierOrdersPage() {
   const filterOptions = [
     { label: 'All Status', value: 'all' },
     { label: 'Pending', value: 'pending' },
+    { label: 'Confirmed', value: 'confirmed' },
     { label: 'Processing', value: 'processing' },
     { label: 'Shipped', value: 'shipped' },
     { label: 'Delivered', value: 'delivered' },
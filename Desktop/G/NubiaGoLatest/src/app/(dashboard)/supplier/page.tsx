@@ -10,7 +10,7 @@ import {
   Wallet, CreditCard, Activity, TrendingDown, ArrowUpRight,
   MoreHorizontal, Star, ShoppingCart, Store, Globe,
   Download, FileText, MessageSquare, Award, Target, Zap, Shield,
-  MapPin, Percent, AlertCircle
+  MapPin, Percent, AlertCircle, RotateCcw
 } from 'lucide-react'
 import Link from 'next/link'
 import ModernDashboardLayout from '@/components/dashboard/ModernDashboardLayout'
@@ -344,6 +344,7 @@ export default function SupplierDashboard() {
     { id: 'orders', icon: ShoppingBag, label: 'Orders', path: '/supplier/orders', badge: stats.pendingOrders },
     { id: 'inventory', icon: BarChart3, label: 'Inventory', path: '/supplier/inventory' },
     { id: 'shipping', icon: Truck, label: 'Shipping', path: '/supplier/shipping' },
+    { id: 'returns', icon: RotateCcw, label: 'Returns', path: '/supplier/returns' },
     { id: 'analytics', icon: TrendingUp, label: 'Analytics', path: '/supplier/analytics' },
     { id: 'customers', icon: Users, label: 'Customers', path: '/supplier/customers' },
     { id: 'payments', icon: CreditCard, label: 'Payments', path: '/supplier/payments' },
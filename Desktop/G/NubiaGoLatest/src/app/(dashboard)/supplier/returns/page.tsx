@@ -0,0 +1,451 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import ModernSubpageLayout from '@/components/dashboard/ModernSubpageLayout'
+import FilterBar from '@/components/dashboard/FilterBar'
+import StatusBadge from '@/components/dashboard/StatusBadge'
+import DataTable from '@/components/dashboard/DataTable'
+import { Modal } from '@/components/ui/modal'
+import { useToast } from '@/components/ui/toast'
+import { useAuth } from '@/hooks/useAuth'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import { returnService } from '@/lib/services/return.service'
+import { ReturnReason, ReturnRequest, ReturnResolution } from '@/types'
+import { Eye, RefreshCw, RotateCcw, Clock, Package, CheckCircle } from 'lucide-react'
+
+const toDateString = (value: unknown): string => {
+  if (value && typeof (value as { toDate?: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate().toLocaleDateString()
+  }
+  return value ? new Date(value as string | Date).toLocaleDateString() : ''
+}
+
+const REASON_LABELS: Record<ReturnReason, string> = {
+  damaged: 'Arrived damaged',
+  defective: 'Defective',
+  wrong_item: 'Wrong item',
+  not_as_described: 'Not as described',
+  no_longer_needed: 'No longer needed',
+  other: 'Other'
+}
+
+const RESOLUTION_LABELS: Record<ReturnResolution, string> = {
+  refund: 'Refund',
+  exchange: 'Exchange',
+  store_credit: 'Store credit'
+}
+
+export default function SupplierReturnsPage() {
+  const { user, loading: authLoading } = useAuth()
+  const { success, error, warning } = useToast()
+  const { fetchWithCSRF } = useCSRFFetch()
+  const [returns, setReturns] = useState<ReturnRequest[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [activeFilters, setActiveFilters] = useState<Record<string, string>>({})
+  const [selected, setSelected] = useState<ReturnRequest | null>(null)
+  const [rejectionReason, setRejectionReason] = useState('')
+  const [replacementTracking, setReplacementTracking] = useState('')
+  const [working, setWorking] = useState(false)
+
+  const loadReturns = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      setReturns(await returnService.getSupplierReturns(user.uid))
+    } catch (err) {
+      console.error('Failed to load returns:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (!authLoading) {
+      loadReturns()
+    }
+  }, [authLoading, loadReturns])
+
+  const openReturn = (returnRequest: ReturnRequest) => {
+    setSelected(returnRequest)
+    setRejectionReason('')
+    setReplacementTracking('')
+  }
+
+  const runAction = async (action: () => Promise<ReturnRequest>, message: string) => {
+    setWorking(true)
+    try {
+      const updated = await action()
+      setReturns(current => current.map(existing => existing.id === updated.id ? updated : existing))
+      setSelected(updated)
+      success(message)
+    } catch (err) {
+      error('Could not update return', err instanceof Error ? err.message : undefined)
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  // Labels are bought server-side, where the carrier credentials are
+  const issueLabel = async (returnId: string): Promise<ReturnRequest> => {
+    const response = await fetchWithCSRF('/api/shipping/labels/returns', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ returnId })
+    })
+    const result = await response.json()
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to issue return label')
+    }
+    return result.data
+  }
+
+  // Receiving and resolving issue refunds and store credit, which only the server may do
+  const postReturnAction = async (returnId: string, action: 'receive' | 'resolve'): Promise<ReturnRequest> => {
+    const response = await fetchWithCSRF(`/api/returns/${encodeURIComponent(returnId)}/${action}`, { method: 'POST' })
+    const result = await response.json()
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to update return')
+    }
+    return result.data
+  }
+
+  // The return stays approved when the label can't be bought, so it can be retried
+  const approveAndIssueLabel = async (returnId: string, supplierId: string): Promise<ReturnRequest> => {
+    const approved = await returnService.approveReturn(returnId, supplierId)
+    try {
+      return await issueLabel(returnId)
+    } catch (err) {
+      warning('Label not issued', err instanceof Error ? err.message : undefined)
+      return approved
+    }
+  }
+
+  const filterOptions = [
+    {
+      key: 'status',
+      label: 'Status',
+      options: [
+        { value: 'all', label: 'All Statuses' },
+        { value: 'requested', label: 'Awaiting decision' },
+        { value: 'approved', label: 'Approved (no label)' },
+        { value: 'label_issued', label: 'Label issued' },
+        { value: 'in_transit', label: 'In transit' },
+        { value: 'received', label: 'Received' },
+        { value: 'refunding', label: 'Refund in progress' },
+        { value: 'refunded', label: 'Refunded' },
+        { value: 'credited', label: 'Credited' },
+        { value: 'exchanged', label: 'Exchanged' },
+        { value: 'rejected', label: 'Rejected' },
+        { value: 'cancelled', label: 'Cancelled' }
+      ]
+    },
+    {
+      key: 'resolution',
+      label: 'Resolution',
+      options: [
+        { value: 'all', label: 'All' },
+        { value: 'refund', label: 'Refund' },
+        { value: 'exchange', label: 'Exchange' },
+        { value: 'store_credit', label: 'Store credit' }
+      ]
+    }
+  ]
+
+  const handleFilterChange = (filterKey: string, value: string) => {
+    setActiveFilters(prev => ({
+      ...prev,
+      [filterKey]: value
+    }))
+  }
+
+  const filteredReturns = returns.filter(returnRequest => {
+    const search = searchTerm.toLowerCase()
+    const matchesSearch = !search ||
+      returnRequest.rmaNumber.toLowerCase().includes(search) ||
+      returnRequest.productName.toLowerCase().includes(search) ||
+      returnRequest.orderId.toLowerCase().includes(search)
+
+    const statusFilter = activeFilters.status || 'all'
+    const resolutionFilter = activeFilters.resolution || 'all'
+
+    return matchesSearch &&
+      (statusFilter === 'all' || returnRequest.status === statusFilter) &&
+      (resolutionFilter === 'all' || returnRequest.resolution === resolutionFilter)
+  })
+
+  const breadcrumbs = [
+    { label: 'Dashboard', href: '/supplier' },
+    { label: 'Returns', href: '/supplier/returns' }
+  ]
+
+  const columns = [
+    {
+      key: 'rmaNumber',
+      label: 'RMA',
+      render: (value: string) => <span className="font-mono text-sm">{value}</span>
+    },
+    {
+      key: 'productName',
+      label: 'Item',
+      render: (value: string, row: ReturnRequest) => <span>{value} × {row.quantity}</span>
+    },
+    {
+      key: 'reason',
+      label: 'Reason',
+      render: (value: ReturnReason) => <span>{REASON_LABELS[value]}</span>
+    },
+    {
+      key: 'resolution',
+      label: 'Resolution',
+      render: (value: ReturnResolution) => <span>{RESOLUTION_LABELS[value]}</span>
+    },
+    {
+      key: 'refundAmount',
+      label: 'Value',
+      render: (value: number) => <span className="font-medium">${value.toFixed(2)}</span>
+    },
+    {
+      key: 'status',
+      label: 'Status',
+      render: (value: string) => <StatusBadge status={value} variant="default" />
+    },
+    {
+      key: 'createdAt',
+      label: 'Requested',
+      render: (value: unknown) => <span>{toDateString(value)}</span>
+    }
+  ]
+
+  const actions = [
+    {
+      key: 'view',
+      label: 'Review',
+      icon: Eye,
+      onClick: (row: ReturnRequest) => openReturn(row)
+    }
+  ]
+
+  const awaitingDecision = returns.filter(r => r.status === 'requested').length
+  const inbound = returns.filter(r => r.status === 'label_issued' || r.status === 'in_transit').length
+  const awaitingResolution = returns.filter(r => r.status === 'received').length
+
+  return (
+    <ModernSubpageLayout
+      title="Returns"
+      subtitle="Review return requests and process returned items"
+      breadcrumbs={breadcrumbs}
+      headerActions={
+        <button
+          onClick={loadReturns}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      }
+    >
+      <div className="space-y-6">
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="bg-white rounded-lg p-6 border border-gray-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Awaiting Decision</p>
+                <p className="text-2xl font-bold text-gray-900">{awaitingDecision}</p>
+              </div>
+              <div className="p-3 bg-yellow-100 rounded-full">
+                <Clock className="h-6 w-6 text-yellow-600" />
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg p-6 border border-gray-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">On Their Way Back</p>
+                <p className="text-2xl font-bold text-gray-900">{inbound}</p>
+              </div>
+              <div className="p-3 bg-blue-100 rounded-full">
+                <Package className="h-6 w-6 text-blue-600" />
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg p-6 border border-gray-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Received, Awaiting Resolution</p>
+                <p className="text-2xl font-bold text-gray-900">{awaitingResolution}</p>
+              </div>
+              <div className="p-3 bg-green-100 rounded-full">
+                <CheckCircle className="h-6 w-6 text-green-600" />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Search and Filters */}
+        <FilterBar
+          searchValue={searchTerm}
+          onSearchChange={setSearchTerm}
+          searchPlaceholder="Search by RMA, product or order..."
+          filters={filterOptions}
+          activeFilters={activeFilters}
+          onFilterChange={handleFilterChange}
+        />
+
+        {/* Returns Table */}
+        <DataTable
+          data={filteredReturns}
+          columns={columns}
+          actions={actions}
+          loading={loading}
+          emptyState={
+            <div className="text-center py-8">
+              <RotateCcw className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+              <p className="text-sm text-gray-500">No return requests</p>
+            </div>
+          }
+        />
+      </div>
+
+      {selected && user && (
+        <Modal isOpen={!!selected} onClose={() => setSelected(null)} title={`Return ${selected.rmaNumber}`} size="full">
+          <div className="space-y-5">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{selected.productName} × {selected.quantity}</p>
+                <p className="text-sm text-gray-500">
+                  Order ORD-{selected.orderId.toUpperCase()} · {RESOLUTION_LABELS[selected.resolution]} · ${selected.refundAmount.toFixed(2)}
+                </p>
+              </div>
+              <StatusBadge status={selected.status} />
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-1">{REASON_LABELS[selected.reason]}</h4>
+              {selected.description && <p className="text-sm text-gray-600">{selected.description}</p>}
+            </div>
+
+            {selected.photos.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {selected.photos.map((photo, index) => (
+                  <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={photo} alt={`Return photo ${index + 1}`} className="h-24 w-24 rounded-lg object-cover border border-gray-200" />
+                  </a>
+                ))}
+              </div>
+            )}
+
+            {selected.returnLabel && (
+              <p className="text-sm text-gray-600">
+                Return label: {selected.returnLabel.carrier} {selected.returnLabel.trackingNumber}
+              </p>
+            )}
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">History</h4>
+              <ol className="text-sm text-gray-600 space-y-1">
+                {selected.statusHistory.map((change, index) => (
+                  <li key={index}>
+                    {new Date(change.changedAt).toLocaleString()} · {change.status.replace(/_/g, ' ')} ({change.actorRole})
+                    {change.note ? ` – ${change.note}` : ''}
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            {/* Actions available in the current state */}
+            {selected.status === 'requested' && (
+              <div className="space-y-3 border-t border-gray-200 pt-4">
+                <textarea
+                  value={rejectionReason}
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                  rows={2}
+                  placeholder="Reason for rejecting (shown to the customer)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <div className="flex justify-end space-x-3">
+                  <button
+                    disabled={working || !rejectionReason.trim()}
+                    onClick={() => runAction(() => returnService.rejectReturn(selected.id, user.uid, rejectionReason), 'Return rejected')}
+                    className="px-4 py-2 border border-red-300 text-red-700 bg-white rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    disabled={working}
+                    onClick={() => runAction(() => approveAndIssueLabel(selected.id, user.uid), 'Return approved')}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    Approve &amp; Issue Label
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {selected.status === 'approved' && (
+              <div className="flex items-center justify-between border-t border-gray-200 pt-4">
+                <p className="text-sm text-yellow-700">No return label has been issued yet.</p>
+                <button
+                  disabled={working}
+                  onClick={() => runAction(() => issueLabel(selected.id), 'Return label issued')}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Issue Label
+                </button>
+              </div>
+            )}
+
+            {(selected.status === 'label_issued' || selected.status === 'in_transit') && (
+              <div className="flex justify-end border-t border-gray-200 pt-4">
+                <button
+                  disabled={working}
+                  onClick={() => runAction(() => postReturnAction(selected.id, 'receive'), 'Return received')}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Mark as Received
+                </button>
+              </div>
+            )}
+
+            {selected.status === 'received' && selected.resolution !== 'exchange' && (
+              <div className="flex items-center justify-between border-t border-gray-200 pt-4">
+                <p className="text-sm text-yellow-700">The {RESOLUTION_LABELS[selected.resolution].toLowerCase()} has not been issued yet.</p>
+                <button
+                  disabled={working}
+                  onClick={() => runAction(() => postReturnAction(selected.id, 'resolve'), 'Return resolved')}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Issue {RESOLUTION_LABELS[selected.resolution]}
+                </button>
+              </div>
+            )}
+
+            {selected.status === 'received' && selected.resolution === 'exchange' && (
+              <div className="flex items-center space-x-3 border-t border-gray-200 pt-4">
+                <input
+                  value={replacementTracking}
+                  onChange={(e) => setReplacementTracking(e.target.value)}
+                  placeholder="Replacement tracking number"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  disabled={working || !replacementTracking.trim()}
+                  onClick={() => runAction(() => returnService.completeExchange(selected.id, user.uid, replacementTracking), 'Replacement shipped')}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Ship Replacement
+                </button>
+              </div>
+            )}
+          </div>
+        </Modal>
+      )}
+    </ModernSubpageLayout>
+  )
+}
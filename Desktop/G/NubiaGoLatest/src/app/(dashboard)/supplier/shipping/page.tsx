@@ -7,12 +7,14 @@ import StatusBadge from '@/components/dashboard/StatusBadge'
 import DataTable from '@/components/dashboard/DataTable'
 import { 
   Truck, Package, MapPin, Calculator, Printer, 
-  Download, Search, Filter, Plus, RefreshCw, Loader2, Eye
+  Download, Search, Filter, Plus, RefreshCw, Loader2, Eye, Box
 } from 'lucide-react'
 // Button and Input components replaced with standard HTML elements
 import { ShippingCalculator } from '@/components/shipping/shipping-calculator'
 import { LabelGenerator } from '@/components/shipping/label-generator'
+import { BatchLabelPrinter } from '@/components/shipping/batch-label-printer'
 import { TrackingWidget } from '@/components/shipping/tracking-widget'
+import { ShippingBoxesEditor } from '@/components/shipping/shipping-boxes-editor'
 import { useShippingStore } from '@/store/shipping'
 import { useLogistics } from '@/hooks/useLogistics'
 
@@ -30,7 +32,7 @@ interface ShippingOrder {
 }
 
 export default function SupplierShippingPage() {
-  const [activeTab, setActiveTab] = useState<'calculator' | 'labels' | 'tracking' | 'orders'>('orders')
+  const [activeTab, setActiveTab] = useState<'calculator' | 'labels' | 'tracking' | 'boxes' | 'orders'>('orders')
   const [orders, setOrders] = useState<ShippingOrder[]>([])
   const [loading, setLoading] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
@@ -319,6 +321,7 @@ export default function SupplierShippingPage() {
                 { id: 'calculator', label: 'Rate Calculator', icon: Calculator },
                 { id: 'labels', label: 'Generate Labels', icon: Printer },
                 { id: 'tracking', label: 'Track Packages', icon: Search },
+                { id: 'boxes', label: 'Boxes', icon: Box },
               ].map((tab) => (
                 <button
                   key={tab.id}
@@ -376,13 +379,21 @@ export default function SupplierShippingPage() {
 
             {/* Generate Labels Tab */}
             {activeTab === 'labels' && (
-              <LabelGenerator />
+              <div className="space-y-6">
+                <BatchLabelPrinter />
+                <LabelGenerator />
+              </div>
             )}
 
             {/* Track Packages Tab */}
             {activeTab === 'tracking' && (
               <TrackingWidget />
             )}
+
+            {/* Shipping Boxes Tab */}
+            {activeTab === 'boxes' && (
+              <ShippingBoxesEditor />
+            )}
           </div>
         </div>
       </div>
@@ -1,10 +1,17 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import ModernSubpageLayout from '@/components/dashboard/ModernSubpageLayout'
 import FilterBar from '@/components/dashboard/FilterBar'
 import StatusBadge from '@/components/dashboard/StatusBadge'
 import DataTable from '@/components/dashboard/DataTable'
+import TicketThreadModal, { TICKET_CATEGORY_LABELS } from '@/components/support/TicketThreadModal'
+import { useToast } from '@/components/ui/toast'
+import { useAuth } from '@/hooks/useAuth'
+import { ValidationError } from '@/lib/errors'
+import { supportService } from '@/lib/services/support.service'
+import { isTicketOverdue } from '@/lib/services/support/ticket-state-machine'
+import { SupportTicket, TicketCategory, TicketPriority } from '@/types'
 import { 
   MessageSquare, 
   Phone,
@@ -17,11 +24,19 @@ import {
   Plus,
   Send,
   Paperclip,
-  Eye,
-  Edit
+  Eye
 } from 'lucide-react'
 
+const EMPTY_TICKET_FORM = {
+  subject: '',
+  message: '',
+  category: 'account' as TicketCategory,
+  priority: 'medium' as TicketPriority
+}
+
 export default function SupplierSupportPage() {
+  const { user, loading: authLoading } = useAuth()
+  const { success, error } = useToast()
   const [activeTab, setActiveTab] = useState('tickets')
   const [searchTerm, setSearchTerm] = useState('')
   const [activeFilters, setActiveFilters] = useState<Record<string, string>>({
@@ -29,49 +44,32 @@ export default function SupplierSupportPage() {
     priority: 'all'
   })
   const [showNewTicket, setShowNewTicket] = useState(false)
+  const [newTicket, setNewTicket] = useState(EMPTY_TICKET_FORM)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({})
+  const [submitting, setSubmitting] = useState(false)
+  const [supportTickets, setSupportTickets] = useState<SupportTicket[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedTicket, setSelectedTicket] = useState<SupportTicket | null>(null)
 
-  const supportTickets = [
-    {
-      id: 'TICK-001',
-      subject: 'Payment processing issue',
-      category: 'payments',
-      status: 'open',
-      priority: 'high',
-      created: '2024-01-22',
-      lastUpdate: '2024-01-22',
-      messages: 3
-    },
-    {
-      id: 'TICK-002',
-      subject: 'Product listing not appearing',
-      category: 'products',
-      status: 'in_progress',
-      priority: 'medium',
-      created: '2024-01-21',
-      lastUpdate: '2024-01-22',
-      messages: 5
-    },
-    {
-      id: 'TICK-003',
-      subject: 'Shipping rate calculation error',
-      category: 'shipping',
-      status: 'resolved',
-      priority: 'low',
-      created: '2024-01-20',
-      lastUpdate: '2024-01-21',
-      messages: 2
-    },
-    {
-      id: 'TICK-004',
-      subject: 'Account verification needed',
-      category: 'account',
-      status: 'waiting',
-      priority: 'high',
-      created: '2024-01-19',
-      lastUpdate: '2024-01-20',
-      messages: 1
+  // Includes the supplier's own tickets and customer tickets about its orders or products
+  const loadTickets = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      setSupportTickets(await supportService.getSupplierTickets(user.uid))
+    } catch (err) {
+      console.error('Failed to load support tickets:', err)
+    } finally {
+      setLoading(false)
     }
-  ]
+  }, [user])
+
+  useEffect(() => {
+    if (!authLoading) {
+      loadTickets()
+    }
+  }, [authLoading, loadTickets])
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -85,6 +83,7 @@ export default function SupplierSupportPage() {
 
   const getPriorityColor = (priority: string) => {
     switch (priority) {
+      case 'urgent':
       case 'high': return 'bg-red-100 text-red-800'
       case 'medium': return 'bg-yellow-100 text-yellow-800'
       case 'low': return 'bg-green-100 text-green-800'
@@ -115,12 +114,40 @@ export default function SupplierSupportPage() {
   }
 
   const handleNewTicket = () => {
+    setNewTicket(EMPTY_TICKET_FORM)
+    setFieldErrors({})
     setShowNewTicket(true)
   }
 
+  const handleCreateTicket = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    setSubmitting(true)
+    setFieldErrors({})
+    try {
+      const ticket = await supportService.createTicket(user, newTicket)
+      success('Ticket created', `Our team will reply to ${ticket.ticketNumber} soon`)
+      setSupportTickets(current => [ticket, ...current])
+      setShowNewTicket(false)
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        setFieldErrors(err.fieldErrors)
+      }
+      error('Could not create ticket', err instanceof Error ? err.message : undefined)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleTicketUpdated = (updated: SupportTicket) => {
+    setSupportTickets(current => current.map(ticket => ticket.id === updated.id ? updated : ticket))
+    setSelectedTicket(updated)
+  }
+
   const filteredTickets = supportTickets.filter(ticket => {
     const matchesSearch = ticket.subject.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         ticket.id.toLowerCase().includes(searchTerm.toLowerCase())
+                         ticket.ticketNumber.toLowerCase().includes(searchTerm.toLowerCase())
     const matchesStatus = activeFilters.status === 'all' || ticket.status === activeFilters.status
     const matchesPriority = activeFilters.priority === 'all' || ticket.priority === activeFilters.priority
     return matchesSearch && matchesStatus && matchesPriority
@@ -144,7 +171,9 @@ export default function SupplierSupportPage() {
         { value: 'open', label: 'Open' },
         { value: 'in_progress', label: 'In Progress' },
         { value: 'waiting', label: 'Waiting' },
-        { value: 'resolved', label: 'Resolved' }
+        { value: 'escalated', label: 'Escalated' },
+        { value: 'resolved', label: 'Resolved' },
+        { value: 'closed', label: 'Closed' }
       ]
     },
     {
@@ -152,6 +181,7 @@ export default function SupplierSupportPage() {
       label: 'Priority',
       options: [
         { value: 'all', label: 'All Priority' },
+        { value: 'urgent', label: 'Urgent' },
         { value: 'high', label: 'High' },
         { value: 'medium', label: 'Medium' },
         { value: 'low', label: 'Low' }
@@ -161,58 +191,65 @@ export default function SupplierSupportPage() {
 
   const columns = [
     {
-      key: 'id',
+      key: 'ticketNumber',
       label: 'Ticket ID',
-      render: (ticket: any) => (
-        <div className="font-medium text-blue-600">{ticket.id}</div>
+      render: (value: string) => (
+        <div className="font-medium text-blue-600">{value}</div>
       )
     },
     {
       key: 'subject',
       label: 'Subject',
-      render: (ticket: any) => (
-        <div className="font-medium text-gray-900">{ticket.subject}</div>
+      render: (value: string, ticket: SupportTicket) => (
+        <div>
+          <div className="font-medium text-gray-900">{value}</div>
+          <div className="text-xs text-gray-500">
+            {ticket.requesterId === user?.uid ? 'Your ticket' : `From ${ticket.requesterName}`}
+            {ticket.orderId ? ` · Order #${ticket.orderId}` : ''}
+          </div>
+        </div>
       )
     },
     {
       key: 'category',
       label: 'Category',
-      render: (ticket: any) => (
-        <div className="text-gray-600 capitalize">{ticket.category}</div>
+      render: (value: TicketCategory) => (
+        <div className="text-gray-600">{TICKET_CATEGORY_LABELS[value]}</div>
       )
     },
     {
       key: 'status',
       label: 'Status',
-      render: (ticket: any) => (
-        <StatusBadge status={ticket.status} />
+      render: (value: string, ticket: SupportTicket) => (
+        <div>
+          <StatusBadge status={value} />
+          {ticket.requesterId !== user?.uid && isTicketOverdue(ticket) && (
+            <p className="text-xs text-red-600 mt-1">Overdue</p>
+          )}
+        </div>
       )
     },
     {
       key: 'priority',
       label: 'Priority',
-      render: (ticket: any) => (
-        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-          ticket.priority === 'high' ? 'bg-red-100 text-red-800' :
-          ticket.priority === 'medium' ? 'bg-yellow-100 text-yellow-800' :
-          'bg-green-100 text-green-800'
-        }`}>
-          {ticket.priority}
+      render: (value: TicketPriority) => (
+        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityColor(value)}`}>
+          {value}
         </span>
       )
     },
     {
-      key: 'created',
+      key: 'createdAt',
       label: 'Created',
-      render: (ticket: any) => (
-        <div className="text-gray-600">{ticket.created}</div>
+      render: (value: Date) => (
+        <div className="text-gray-600">{value.toLocaleDateString()}</div>
       )
     },
     {
       key: 'messages',
       label: 'Messages',
-      render: (ticket: any) => (
-        <div className="text-gray-900">{ticket.messages}</div>
+      render: (value: SupportTicket['messages']) => (
+        <div className="text-gray-900">{value.length}</div>
       )
     }
   ]
@@ -222,20 +259,7 @@ export default function SupplierSupportPage() {
       key: 'view',
       label: 'View',
       icon: Eye,
-      onClick: (ticket: any) => {
-        console.log('Viewing ticket:', ticket.id)
-        // TODO: Navigate to ticket details
-      }
-    },
-    {
-      key: 'edit',
-      label: 'Edit',
-      icon: Edit,
-      onClick: (ticket: any) => {
-        console.log('Editing ticket:', ticket.id)
-        // TODO: Open edit modal
-      },
-      show: (ticket: any) => ticket.status !== 'resolved'
+      onClick: (ticket: SupportTicket) => setSelectedTicket(ticket)
     }
   ]
 
@@ -354,7 +378,7 @@ export default function SupplierSupportPage() {
               data={filteredTickets}
               columns={columns}
               actions={actions}
-              loading={false}
+              loading={loading}
             />
 
             {filteredTickets.length === 0 && (
@@ -427,26 +451,33 @@ export default function SupplierSupportPage() {
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
             <div className="bg-white rounded-lg p-6 w-full max-w-md">
               <h3 className="text-lg font-semibold mb-4">Create New Support Ticket</h3>
-              <form className="space-y-4">
+              <form onSubmit={handleCreateTicket} className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Subject
                   </label>
                   <input
                     type="text"
+                    value={newTicket.subject}
+                    onChange={(e) => setNewTicket(prev => ({ ...prev, subject: e.target.value }))}
+                    required
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     placeholder="Brief description of your issue"
                   />
+                  {fieldErrors.subject && <p className="mt-1 text-sm text-red-600">{fieldErrors.subject[0]}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Category
                   </label>
-                  <select className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500">
-                    <option value="">Select a category</option>
+                  <select
+                    value={newTicket.category}
+                    onChange={(e) => setNewTicket(prev => ({ ...prev, category: e.target.value as TicketCategory }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                  >
                     <option value="account">Account Issues</option>
-                    <option value="payments">Payment Issues</option>
-                    <option value="products">Product Issues</option>
+                    <option value="payment">Payment Issues</option>
+                    <option value="product">Product Issues</option>
                     <option value="shipping">Shipping Issues</option>
                     <option value="technical">Technical Issues</option>
                     <option value="other">Other</option>
@@ -456,10 +487,15 @@ export default function SupplierSupportPage() {
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Priority
                   </label>
-                  <select className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500">
+                  <select
+                    value={newTicket.priority}
+                    onChange={(e) => setNewTicket(prev => ({ ...prev, priority: e.target.value as TicketPriority }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                  >
                     <option value="low">Low</option>
                     <option value="medium">Medium</option>
                     <option value="high">High</option>
+                    <option value="urgent">Urgent</option>
                   </select>
                 </div>
                 <div>
@@ -468,9 +504,13 @@ export default function SupplierSupportPage() {
                   </label>
                   <textarea
                     rows={4}
+                    value={newTicket.message}
+                    onChange={(e) => setNewTicket(prev => ({ ...prev, message: e.target.value }))}
+                    required
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     placeholder="Please provide detailed information about your issue"
                   ></textarea>
+                  {fieldErrors.message && <p className="mt-1 text-sm text-red-600">{fieldErrors.message[0]}</p>}
                 </div>
                 <div className="flex justify-end space-x-3 pt-4">
                   <button
@@ -482,15 +522,25 @@ export default function SupplierSupportPage() {
                   </button>
                   <button
                     type="submit"
-                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    disabled={submitting}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
                   >
-                    Create Ticket
+                    {submitting ? 'Creating...' : 'Create Ticket'}
                   </button>
                 </div>
               </form>
             </div>
           </div>
         )}
+
+        {selectedTicket && user && (
+          <TicketThreadModal
+            ticket={selectedTicket}
+            viewer={{ id: user.uid, name: user.name || user.email, role: 'supplier' }}
+            onClose={() => setSelectedTicket(null)}
+            onUpdated={handleTicketUpdated}
+          />
+        )}
       </div>
     </ModernSubpageLayout>
   )
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { protectAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { NotFoundError, ValidationError } from '@/lib/errors'
+import { apiService } from '@/lib/services/api.service'
+import { ApiSecretField } from '@/types'
+
+// Admin only, and rate limited well below the other admin APIs
+const protectRevealAPI = protectAPI(
+  { roles: ['admin'], requireActive: true, requireEmailVerified: true },
+  { enableCSRF: true, rateLimit: 10, enableLogging: true }
+)
+
+// POST /api/apis/[id]/reveal - Decrypt one credential of an API configuration ({ field })
+export const POST = protectRevealAPI(async (request: AuthenticatedRequest) => {
+  try {
+    // /api/apis/[id]/reveal
+    const id = new URL(request.url).pathname.split('/')[3]
+    const body = await request.json()
+    const field = body.field as ApiSecretField
+
+    const value = await apiService.revealSecret(id, field, {
+      uid: request.user!.uid,
+      email: request.user!.email
+    })
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { field, value }
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error: any) {
+    console.error('API secret reveal error:', error)
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'INVALID_FIELD', fieldErrors: error.fieldErrors },
+        { status: error.statusCode }
+      )
+    }
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        { success: false, error: 'API configuration not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to reveal secret', code: 'REVEAL_FAILED' },
+      { status: 500 }
+    )
+  }
+})
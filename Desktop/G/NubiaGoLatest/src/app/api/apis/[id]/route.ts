@@ -64,12 +64,12 @@ export const PUT = protectAdminAPI(async (request: NextRequest) => {
 
     const body = await request.json()
     
-    // Validate required fields
-    if (!body.name || !body.type || !body.provider || !body.apiKey) {
+    // Validate required fields. Credentials left blank keep their stored values.
+    if (!body.name || !body.type || !body.provider) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'Missing required fields: name, type, provider, apiKey' 
+          error: 'Missing required fields: name, type, provider' 
         },
         { status: 400 }
       )
@@ -79,8 +79,8 @@ export const PUT = protectAdminAPI(async (request: NextRequest) => {
       name: body.name,
       type: body.type,
       provider: body.provider,
-      apiKey: body.apiKey,
-      apiSecret: body.apiSecret || '',
+      apiKey: body.apiKey || undefined,
+      apiSecret: body.apiSecret || undefined,
       baseUrl: body.baseUrl || '',
       webhookUrl: body.webhookUrl || '',
       isActive: body.isActive !== undefined ? body.isActive : true,
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { apiService } from '@/lib/services/api.service'
+
+// POST /api/apis/rotate-keys - Re-encrypt API credentials under the current master key
+export const POST = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const result = await apiService.rotateSecrets({
+      uid: request.user!.uid,
+      email: request.user!.email
+    })
+
+    // Keep the previous master key configured until this succeeds for every configuration
+    if (result.failed.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${result.failed.length} API configuration(s) could not be re-encrypted`,
+          code: 'ROTATION_INCOMPLETE',
+          data: result
+        },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `${result.rotated.length} API configuration(s) re-encrypted with key v${result.keyVersion}`
+    })
+  } catch (error: any) {
+    console.error('API secret rotation error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to rotate API secrets', code: 'ROTATION_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { protectAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { adminDb } from '@/lib/firebase/admin'
+import { AUTH_SESSION_COOKIE, createSessionClaim, sessionClaimCookie } from '@/lib/auth/session'
+import { twoFactorService } from '@/lib/services/two-factor.service'
+import type { RouteRole } from '@/app/routes'
+
+const ROLES: RouteRole[] = ['customer', 'supplier', 'admin']
+
+// POST /api/auth/session - Issue the session claim page middleware checks, from the
+// role and status on the user's profile. The client calls it whenever Firebase hands it
+// a new ID token. Suspended users get a claim too, so they can be shown why they're out.
+// Until a user with 2FA on enters a code the claim is marked unverified, which middleware
+// treats as signed out. Users the policy requires 2FA from who haven't enrolled yet pass,
+// so they can reach enrollment; the API still refuses them everything else.
+export const POST = protectAPI(
+  { requireActive: false, allowPendingTwoFactor: true },
+  { enableCSRF: false, rateLimit: 30 }
+)(async (request: AuthenticatedRequest) => {
+  try {
+    const { uid } = request.user!
+    const userDoc = await adminDb.collection('users').doc(uid).get()
+    const data = userDoc.exists ? userDoc.data()! : {}
+    const role: RouteRole = ROLES.includes(data.role) ? data.role : 'customer'
+    const status: string = data.status || 'pending'
+    const twoFactorVerified = request.user!.twoFactorVerified || !(await twoFactorService.isEnabled(uid))
+
+    const response = NextResponse.json({
+      success: true,
+      data: { session: { role, status, twoFactorVerified } }
+    })
+    response.cookies.set(sessionClaimCookie(await createSessionClaim(uid, role, status, twoFactorVerified)))
+    return response
+  } catch (error) {
+    console.error('Session claim error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to start session', code: 'SESSION_FAILED' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/auth/session - Drop the session claim on sign-out
+export async function DELETE() {
+  const response = NextResponse.json({
+    success: true,
+    message: 'Signed out'
+  })
+  response.cookies.delete(AUTH_SESSION_COOKIE)
+  return response
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { protectAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { createTwoFactorSession, twoFactorSessionCookie } from '@/lib/auth/two-factor-session'
+import { twoFactorService } from '@/lib/services/two-factor.service'
+
+// Users whose role requires 2FA must be able to reach enrollment before they have it
+const protectEnrollment = protectAPI({ allowPendingTwoFactor: true }, { enableCSRF: true, rateLimit: 20 })
+
+// POST /api/auth/two-factor/enroll - New secret and otpauth:// URI for the authenticator app
+export const POST = protectEnrollment(async (request: AuthenticatedRequest) => {
+  try {
+    const enrollment = await twoFactorService.startEnrollment(request.user!)
+
+    return NextResponse.json({
+      success: true,
+      data: enrollment
+    })
+  } catch (error: any) {
+    console.error('Two-factor enrollment error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof BaseError ? error.message : 'Failed to start two-factor enrollment',
+        code: 'TWO_FACTOR_FAILED'
+      },
+      { status: error instanceof BaseError ? error.statusCode : 500 }
+    )
+  }
+})
+
+// PUT /api/auth/two-factor/enroll - Confirm with a code from the app ({ code }). Returns
+// the recovery codes, and counts as this session's second factor.
+export const PUT = protectEnrollment(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const recoveryCodes = await twoFactorService.confirmEnrollment(request.user!, String(body.code || ''))
+
+    const response = NextResponse.json({
+      success: true,
+      data: { recoveryCodes },
+      message: 'Two-factor authentication enabled'
+    })
+    response.cookies.set(twoFactorSessionCookie(
+      await createTwoFactorSession(request.user!.uid, request.user!.authTime!)
+    ))
+    return response
+  } catch (error: any) {
+    console.error('Two-factor confirmation error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof BaseError ? error.message : 'Failed to enable two-factor authentication',
+        code: 'TWO_FACTOR_FAILED',
+        fieldErrors: error.fieldErrors
+      },
+      { status: error instanceof BaseError ? error.statusCode : 500 }
+    )
+  }
+})
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { ValidationError } from '@/lib/errors'
+import { twoFactorService } from '@/lib/services/two-factor.service'
+
+// GET /api/auth/two-factor/policy - Roles 2FA is mandatory for
+export const GET = protectAdminAPI(async () => {
+  try {
+    const policy = await twoFactorService.getPolicy()
+
+    return NextResponse.json({
+      success: true,
+      data: { policy }
+    })
+  } catch (error) {
+    console.error('Two-factor policy fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load two-factor policy', code: 'TWO_FACTOR_POLICY_FAILED' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/auth/two-factor/policy - Set the roles 2FA is mandatory for ({ requiredRoles })
+export const PUT = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const policy = await twoFactorService.updatePolicy(body.requiredRoles, request.user!.uid)
+
+    return NextResponse.json({
+      success: true,
+      data: { policy },
+      message: 'Two-factor policy saved'
+    })
+  } catch (error) {
+    console.error('Two-factor policy update error:', error)
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'INVALID_POLICY', fieldErrors: error.fieldErrors },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to save two-factor policy', code: 'TWO_FACTOR_POLICY_FAILED' },
+      { status: 500 }
+    )
+  }
+})
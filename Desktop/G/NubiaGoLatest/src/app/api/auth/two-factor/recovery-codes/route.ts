@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { protectAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { twoFactorService } from '@/lib/services/two-factor.service'
+
+// POST /api/auth/two-factor/recovery-codes - Replace the recovery codes ({ code })
+export const POST = protectAPI()(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(request.user!, String(body.code || ''))
+
+    return NextResponse.json({
+      success: true,
+      data: { recoveryCodes },
+      message: 'New recovery codes generated. The old ones no longer work.'
+    })
+  } catch (error: any) {
+    console.error('Recovery code generation error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof BaseError ? error.message : 'Failed to generate recovery codes',
+        code: 'TWO_FACTOR_FAILED'
+      },
+      { status: error instanceof BaseError ? error.statusCode : 500 }
+    )
+  }
+})
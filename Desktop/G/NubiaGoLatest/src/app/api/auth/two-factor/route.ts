@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { protectAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { twoFactorService } from '@/lib/services/two-factor.service'
+
+// GET /api/auth/two-factor - Whether 2FA is on, required, and passed for this session
+export const GET = protectAPI({ allowPendingTwoFactor: true })(async (request: AuthenticatedRequest) => {
+  try {
+    const status = await twoFactorService.getStatus(request.user!, request.user!.twoFactorVerified === true)
+
+    return NextResponse.json({
+      success: true,
+      data: { status }
+    })
+  } catch (error) {
+    console.error('Two-factor status error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load two-factor status', code: 'TWO_FACTOR_FAILED' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/auth/two-factor - Turn 2FA off ({ code }: authenticator or recovery code)
+export const DELETE = protectAPI()(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    await twoFactorService.disable(request.user!, String(body.code || ''))
+
+    return NextResponse.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    })
+  } catch (error: any) {
+    console.error('Two-factor disable error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof BaseError ? error.message : 'Failed to disable two-factor authentication',
+        code: 'TWO_FACTOR_FAILED'
+      },
+      { status: error instanceof BaseError ? error.statusCode : 500 }
+    )
+  }
+})
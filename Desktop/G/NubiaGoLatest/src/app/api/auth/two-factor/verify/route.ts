@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { protectAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError, RateLimitError } from '@/lib/errors'
+import { createTwoFactorSession, twoFactorSessionCookie } from '@/lib/auth/two-factor-session'
+import { twoFactorService } from '@/lib/services/two-factor.service'
+
+// POST /api/auth/two-factor/verify - Second step of sign-in ({ code }: authenticator or
+// recovery code). Sets the session claim the rest of the API checks for.
+// Called by AuthService.signIn before a CSRF session exists; the bearer token it sends
+// can't be forged cross-site. Rate limited per IP against code guessing; the account
+// is also locked for a while after repeated wrong codes.
+export const POST = protectAPI(
+  { allowPendingTwoFactor: true },
+  { enableCSRF: false, rateLimit: 10 }
+)(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const method = await twoFactorService.verifyCode(request.user!, String(body.code || ''))
+
+    const response = NextResponse.json({
+      success: true,
+      data: { method }
+    })
+    response.cookies.set(twoFactorSessionCookie(
+      await createTwoFactorSession(request.user!.uid, request.user!.authTime!)
+    ))
+    return response
+  } catch (error: any) {
+    console.error('Two-factor verification error:', error)
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Too many incorrect codes. Try again in ${Math.ceil(error.retryAfter / 60)} minutes.`,
+          code: 'TWO_FACTOR_LOCKED'
+        },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+      )
+    }
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof BaseError ? error.message : 'Failed to verify code',
+        code: 'INVALID_TWO_FACTOR_CODE'
+      },
+      { status: error instanceof BaseError ? error.statusCode : 500 }
+    )
+  }
+})
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { chatService } from '@/lib/services/chat.service'
+
+// POST /api/chat/moderation/messages/[messageId]/approve - Keep a reported message
+// POST /api/chat/moderation/messages/[messageId]/reject - Remove a message from its room
+export const POST = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const segments = new URL(request.url).pathname.split('/')
+    const action = segments.pop()
+    const messageId = decodeURIComponent(segments.pop() || '')
+
+    if ((action !== 'approve' && action !== 'reject') || !messageId) {
+      return NextResponse.json(
+        { success: false, error: `Unknown moderation action: ${action}`, code: 'INVALID_ACTION' },
+        { status: 400 }
+      )
+    }
+
+    const message = action === 'approve'
+      ? await chatService.approveMessage(messageId, request.user!.uid)
+      : await chatService.removeMessage(messageId, { id: request.user!.uid, role: 'admin' })
+
+    return NextResponse.json({
+      success: true,
+      data: { message },
+      message: action === 'approve' ? 'Message approved' : 'Message removed'
+    })
+  } catch (error) {
+    console.error('Chat message moderation error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'MODERATION_REJECTED' },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to moderate message', code: 'MODERATION_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { chatService } from '@/lib/services/chat.service'
+
+// GET /api/chat/moderation/queue - Reported chat messages waiting for review
+export const GET = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const limitParam = Number(new URL(request.url).searchParams.get('limit'))
+    const messages = await chatService.getModerationQueue(limitParam > 0 ? Math.min(limitParam, 200) : undefined)
+
+    return NextResponse.json({
+      success: true,
+      data: { messages }
+    })
+  } catch (error) {
+    console.error('Chat moderation queue error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load the moderation queue', code: 'MODERATION_QUEUE_FAILED' },
+      { status: 500 }
+    )
+  }
+})
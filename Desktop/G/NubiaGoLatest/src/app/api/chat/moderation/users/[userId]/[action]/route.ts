@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { chatService } from '@/lib/services/chat.service'
+import { ChatUserStatus } from '@/types'
+
+const ACTION_STATUS: Record<string, ChatUserStatus> = {
+  ban: 'banned',
+  unban: 'active',
+  mute: 'muted',
+  unmute: 'active'
+}
+
+// POST /api/chat/moderation/users/[userId]/[action] - Ban, unban, mute or unmute a chat user
+export const POST = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const segments = new URL(request.url).pathname.split('/')
+    const action = segments.pop() || ''
+    const userId = decodeURIComponent(segments.pop() || '')
+    const status = ACTION_STATUS[action]
+
+    if (!status || !userId) {
+      return NextResponse.json(
+        { success: false, error: `Unknown moderation action: ${action}`, code: 'INVALID_ACTION' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const reason = typeof body.reason === 'string' ? body.reason : undefined
+    const user = await chatService.setUserStatus(userId, status, request.user!.uid, reason)
+
+    return NextResponse.json({
+      success: true,
+      data: { user },
+      message: `${user.name} is now ${status}`
+    })
+  } catch (error) {
+    console.error('Chat user moderation error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'MODERATION_REJECTED' },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to update chat user', code: 'MODERATION_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { chatService } from '@/lib/services/chat.service'
+
+// GET /api/chat/moderation/users - Chat users with their ban/mute status
+export const GET = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const users = await chatService.getChatUsers()
+
+    return NextResponse.json({
+      success: true,
+      data: { users }
+    })
+  } catch (error) {
+    console.error('Chat users fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load chat users', code: 'CHAT_USERS_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { protectCustomerAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { checkoutPromotionService } from '@/lib/services/checkout-promotion.service'
+
+// POST /api/checkout/promotions/redeem - Apply promotions to a pending order and record the redemptions
+export const POST = protectCustomerAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const codes: unknown = body.codes ?? []
+
+    if (typeof body.orderId !== 'string' || !body.orderId) {
+      return NextResponse.json(
+        { success: false, error: 'orderId is required', code: 'ORDER_ID_REQUIRED' },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(codes) || !codes.every(code => typeof code === 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'codes must be an array of strings', code: 'INVALID_CODES' },
+        { status: 400 }
+      )
+    }
+
+    const result = await checkoutPromotionService.redeemForOrder(request.user!.uid, body.orderId, codes)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: result.evaluation?.appliedPromotions.length
+        ? `Saved ${(result.evaluation.discountTotal + result.evaluation.shippingDiscount).toFixed(2)} with promotions`
+        : 'No promotions applied'
+    })
+  } catch (error) {
+    console.error('Promotion redemption error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'PROMOTION_REDEMPTION_REJECTED' },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to redeem promotions', code: 'PROMOTION_REDEMPTION_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { checkoutPromotionService } from '@/lib/services/checkout-promotion.service'
+
+// POST /api/checkout/promotions/release - Give a cancelled order's promotion uses back
+// to the promotions' usage limits ({ orderId }). Safe to repeat.
+export const POST = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+
+    if (typeof body.orderId !== 'string' || !body.orderId) {
+      return NextResponse.json(
+        { success: false, error: 'orderId is required', code: 'ORDER_ID_REQUIRED' },
+        { status: 400 }
+      )
+    }
+
+    const released = await checkoutPromotionService.releaseForOrder(body.orderId, 'cancelled')
+
+    return NextResponse.json({
+      success: true,
+      data: { released },
+      message: released > 0 ? `Released ${released} promotion redemptions` : 'No promotions to release'
+    })
+  } catch (error) {
+    console.error('Promotion release error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'PROMOTION_RELEASE_REJECTED' },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to release promotions', code: 'PROMOTION_RELEASE_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { protectCustomerAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { checkoutPromotionService } from '@/lib/services/checkout-promotion.service'
+
+// POST /api/checkout/promotions - Evaluate promotion codes against the customer's cart
+export const POST = protectCustomerAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const codes: unknown = body.codes ?? []
+    const shippingCost = Number(body.shippingCost ?? 0)
+
+    if (!Array.isArray(codes) || !codes.every(code => typeof code === 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'codes must be an array of strings', code: 'INVALID_CODES' },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isFinite(shippingCost) || shippingCost < 0) {
+      return NextResponse.json(
+        { success: false, error: 'shippingCost must be a non-negative number', code: 'INVALID_SHIPPING_COST' },
+        { status: 400 }
+      )
+    }
+
+    const evaluation = await checkoutPromotionService.quoteCart(request.user!.uid, codes, shippingCost)
+
+    return NextResponse.json({ success: true, data: evaluation })
+  } catch (error) {
+    console.error('Promotion quote error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to evaluate promotions', code: 'PROMOTION_QUOTE_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { ValidationError } from '@/lib/errors'
+import { currencyService } from '@/lib/services/currency.service'
+
+const MAX_RATE_FILE_SIZE = 1024 * 1024
+
+// POST /api/currency/rates/import - Merge rates from a CSV ("currency,rate") or JSON file
+export const POST = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: 'A CSV or JSON file is required', code: 'FILE_REQUIRED' },
+        { status: 400 }
+      )
+    }
+
+    if (!/\.(csv|json|txt)$/i.test(file.name)) {
+      return NextResponse.json(
+        { success: false, error: 'Unsupported file type. Upload a CSV or JSON file.', code: 'INVALID_FILE_TYPE' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_RATE_FILE_SIZE) {
+      return NextResponse.json(
+        { success: false, error: 'File is larger than 1MB', code: 'FILE_TOO_LARGE' },
+        { status: 413 }
+      )
+    }
+
+    const table = await currencyService.importRates(await file.text(), request.user!.uid)
+
+    return NextResponse.json({
+      success: true,
+      data: { table },
+      message: `Imported rates for ${Object.keys(table.rates).length} currencies`
+    })
+  } catch (error) {
+    console.error('Exchange rates import error:', error)
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'INVALID_RATES', fieldErrors: error.fieldErrors },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to import exchange rates', code: 'EXCHANGE_RATES_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { ValidationError } from '@/lib/errors'
+import { currencyService } from '@/lib/services/currency.service'
+
+// GET /api/currency/rates - Exchange rates against the base currency, for price display
+export async function GET() {
+  try {
+    const table = await currencyService.getRateTable()
+
+    return NextResponse.json({
+      success: true,
+      data: { table }
+    })
+  } catch (error) {
+    console.error('Exchange rates fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load exchange rates', code: 'EXCHANGE_RATES_FAILED' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/currency/rates - Replace the exchange rate table ({ rates: { NGN: 1500, ... } })
+export const PUT = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const table = await currencyService.updateRates(body.rates, request.user!.uid)
+
+    return NextResponse.json({
+      success: true,
+      data: { table },
+      message: 'Exchange rates saved'
+    })
+  } catch (error) {
+    console.error('Exchange rates update error:', error)
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'INVALID_RATES', fieldErrors: error.fieldErrors },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to save exchange rates', code: 'EXCHANGE_RATES_FAILED' },
+      { status: 500 }
+    )
+  }
+})
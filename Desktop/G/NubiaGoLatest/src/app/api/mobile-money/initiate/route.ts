@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { mobileMoneyService, MobileMoneyPaymentRequest } from '@/lib/services/mobile-money.service'
+import { inventoryHoldService } from '@/lib/services/inventory-hold.service'
 
 export async function POST(request: NextRequest) {
   try {
@@ -87,6 +88,15 @@ export async function POST(request: NextRequest) {
     const response = await mobileMoneyService.initiatePayment(paymentRequest)
 
     if (response.success) {
+      // Keep the order's stock held for as long as the payer has to approve the prompt
+      if (response.data?.paymentId) {
+        try {
+          await inventoryHoldService.attachPayment(body.orderId, response.data.paymentId)
+        } catch (error) {
+          console.error(`Failed to extend stock hold for order ${body.orderId}:`, error)
+        }
+      }
+
       return NextResponse.json({
         success: true,
         data: {
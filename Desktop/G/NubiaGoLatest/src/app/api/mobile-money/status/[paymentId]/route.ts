@@ -37,6 +37,7 @@ export async function GET(
         phoneNumber: payment.phoneNumber,
         gatewayProvider: payment.gatewayProvider,
         gatewayTransactionId: payment.gatewayTransactionId,
+        failureReason: payment.failureReason,
         createdAt: payment.createdAt,
         updatedAt: payment.updatedAt,
         completedAt: payment.completedAt,
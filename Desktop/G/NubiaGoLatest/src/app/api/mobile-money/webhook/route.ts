@@ -1,62 +1,87 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { mobileMoneyService } from '@/lib/services/mobile-money.service'
+import {
+  mobileMoneyService,
+  MobileMoneyGatewayProvider,
+  MobileMoneyPayment,
+  MobileMoneyWebhookEvent
+} from '@/lib/services/mobile-money.service'
+import { webhookEventStore } from '@/lib/services/mobile-money/webhook-event-store'
 import { orderService } from '@/lib/services/order.service'
-import { EmailService } from '@/lib/services/email.service'
+import { inventoryHoldService } from '@/lib/services/inventory-hold.service'
+import { notificationService } from '@/lib/services/notification.service'
+import { checkoutPromotionService } from '@/lib/services/checkout-promotion.service'
+import { logger } from '@/lib/utils/logger'
 
-const emailService = new EmailService()
+const PROVIDERS: MobileMoneyGatewayProvider[] = ['flutterwave', 'mtn_momo', 'orange_money', 'sandbox']
 
+// Gateways call back on the URL passed at initiation, tagged with ?provider=...
+// Each event is signature-checked by its gateway, claimed once in the event store,
+// confirmed with the gateway unless its signature covers the body, and applied
+// through the payment state machine. Failures are dead-lettered and
+// answered with a 500 so the gateway retries.
 export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json()
-    
-    console.log('Mobile Money Webhook received:', {
-      timestamp: new Date().toISOString(),
-      body: body
+  const provider = request.nextUrl.searchParams.get('provider') as MobileMoneyGatewayProvider | null
+  const gateway = provider && PROVIDERS.includes(provider) ? mobileMoneyService.getGateway(provider) : undefined
+
+  if (!gateway) {
+    return NextResponse.json(
+      { success: false, message: 'Unknown or unconfigured payment provider' },
+      { status: 404 }
+    )
+  }
+
+  const webhookRequest = {
+    url: request.url,
+    headers: request.headers,
+    rawBody: await request.text()
+  }
+
+  if (!(await gateway.verifyWebhook(webhookRequest))) {
+    logger.warn('Rejected mobile money webhook with invalid signature:', {
+      provider,
+      timestamp: new Date().toISOString()
     })
+    return NextResponse.json({ success: false, message: 'Invalid webhook signature' }, { status: 401 })
+  }
+
+  const event = gateway.parseWebhookEvent(webhookRequest)
+  if (!event) {
+    logger.info(`Unhandled ${provider} webhook payload`)
+    return NextResponse.json({ success: true, message: 'Event ignored' })
+  }
 
-    // Verify webhook signature (in production, implement proper signature verification)
-    // const signature = request.headers.get('verif-hash')
-    // if (!signature || signature !== process.env.MOBILE_MONEY_WEBHOOK_SECRET) {
-    //   return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
-    // }
-
-    // Process webhook based on event type
-    const eventType = body.event || body.type || 'unknown'
-    
-    switch (eventType) {
-      case 'charge.completed':
-      case 'payment.success':
-      case 'transaction.success':
-        // Payment completed successfully
-        await processPaymentCompletion(body.data || body)
-        break
-        
-      case 'charge.failed':
-      case 'payment.failed':
-      case 'transaction.failed':
-        // Payment failed
-        await processPaymentFailure(body.data || body)
-        break
-        
-      case 'charge.pending':
-      case 'payment.pending':
-      case 'transaction.pending':
-        // Payment still pending
-        await processPaymentPending(body.data || body)
-        break
-        
-      default:
-        console.log(`Unhandled webhook event type: ${eventType}`)
-        break
+  logger.info('Mobile Money Webhook received:', {
+    timestamp: new Date().toISOString(),
+    provider,
+    eventId: event.eventId,
+    status: event.status
+  })
+
+  try {
+    if (!(await webhookEventStore.claim(event))) {
+      logger.info(`Duplicate webhook event ${event.eventId} from ${provider}`)
+      return NextResponse.json({ success: true, message: 'Event already processed' })
     }
+  } catch (error) {
+    logger.error('Webhook processing error:', error)
+    return NextResponse.json({ success: false, message: 'Webhook processing failed' }, { status: 500 })
+  }
+
+  try {
+    const outcome = await processEvent(event)
+    await webhookEventStore.complete(event, outcome.status, outcome.note)
 
     return NextResponse.json({ 
       success: true, 
-      message: 'Webhook processed successfully' 
+      message: outcome.status === 'processed' ? 'Webhook processed successfully' : 'Event ignored'
     })
-    
   } catch (error) {
-    console.error('Webhook processing error:', error)
+    logger.error('Webhook processing error:', error)
+    try {
+      await webhookEventStore.fail(event, error)
+    } catch (deadLetterError) {
+      logger.error('Failed to dead-letter webhook event:', deadLetterError)
+    }
     return NextResponse.json(
       { 
         success: false, 
@@ -68,163 +93,115 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function processPaymentCompletion(data: any) {
-  try {
-    console.log('Processing payment completion:', data)
-    
-    // Extract transaction reference
-    const transactionRef = data.tx_ref || data.reference || data.transaction_id
-    
-    if (!transactionRef) {
-      console.error('No transaction reference found in webhook data')
-      return
-    }
+// MTN MoMo delivers request-to-pay callbacks with PUT
+export const PUT = POST
 
-    // Find payment by transaction reference
-    const payments = await mobileMoneyService.getAllPayments()
-    const payment = payments.find(p => p.gatewayTransactionId === transactionRef)
-    
-    if (payment) {
-      // Update payment status
-      payment.status = 'completed'
-      payment.completedAt = new Date()
-      payment.updatedAt = new Date()
-      payment.gatewayResponse = data
-      
-      console.log(`Payment ${payment.id} completed via webhook`)
-      
-      // Update order status in order management system
-      try {
-        await orderService.updatePaymentStatus(payment.orderId, 'paid')
-        await orderService.updateOrderStatus(payment.orderId, 'confirmed')
-        console.log(`Order ${payment.orderId} status updated to confirmed`)
-      } catch (orderError) {
-        console.error('Failed to update order status:', orderError)
-      }
-      
-      // Send customer notification
-      try {
-        const order = await orderService.getOrder(payment.orderId)
-        if (order) {
-          await emailService.sendPaymentConfirmation(
-            {
-              uid: order.userId,
-              email: order.userId, // Using userId as email fallback
-              name: 'Customer',
-              role: 'customer',
-              createdAt: new Date()
-            },
-            {
-              orderId: payment.orderId,
-              amount: payment.amount,
-              currency: payment.currency,
-              paymentMethod: 'Mobile Money',
-              transactionId: payment.gatewayTransactionId || payment.id
-            }
-          )
-          console.log(`Payment success notification sent for order ${payment.orderId}`)
-        }
-      } catch (notificationError) {
-        console.error('Failed to send payment notification:', notificationError)
-      }
-    } else {
-      console.log(`Payment not found for transaction reference: ${transactionRef}`)
+async function processEvent(
+  event: MobileMoneyWebhookEvent
+): Promise<{ status: 'processed' | 'ignored'; note?: string }> {
+  const { payment, result } = await mobileMoneyService.applyWebhookEvent(event)
+
+  if (!payment) {
+    throw new Error(`Payment not found for transaction reference: ${event.transactionId}`)
+  }
+
+  if (result === 'rejected') {
+    logger.warn(`Ignoring ${event.status} event for payment ${payment.id}: payment is already ${payment.status}`)
+    return { status: 'ignored', note: `Illegal transition ${payment.status} -> ${event.status}` }
+  }
+
+  if (result === 'unchanged') {
+    // A retry after a failed attempt finds the payment already moved; finish the
+    // order update if that attempt didn't get to it
+    const expected = payment.status === 'completed' ? 'paid' : payment.status === 'failed' ? 'failed' : null
+    const order = expected && event.status === payment.status ? await orderService.getOrder(payment.orderId) : null
+    if (!order || order.paymentStatus === expected) {
+      return { status: 'ignored', note: `Payment already ${payment.status}` }
     }
-  } catch (error) {
-    console.error('Error processing payment completion:', error)
   }
+
+  if (payment.status === 'completed') {
+    await processPaymentCompletion(payment)
+  } else if (payment.status === 'failed') {
+    // The reason comes from the gateway's status check where the body wasn't trusted
+    await processPaymentFailure(payment, payment.failureReason || event.reason)
+  }
+  return { status: 'processed' }
 }
 
-async function processPaymentFailure(data: any) {
-  try {
-    console.log('Processing payment failure:', data)
-    
-    const transactionRef = data.tx_ref || data.reference || data.transaction_id
-    
-    if (!transactionRef) {
-      console.error('No transaction reference found in webhook data')
-      return
-    }
+async function processPaymentCompletion(payment: MobileMoneyPayment) {
+  logger.info(`Payment ${payment.id} completed via webhook`)
 
-    const payments = await mobileMoneyService.getAllPayments()
-    const payment = payments.find(p => p.gatewayTransactionId === transactionRef)
-    
-    if (payment) {
-      payment.status = 'failed'
-      payment.updatedAt = new Date()
-      payment.gatewayResponse = data
-      
-      console.log(`Payment ${payment.id} marked as failed via webhook`)
-      
-      // Update order status
-      try {
-        await orderService.updatePaymentStatus(payment.orderId, 'failed')
-        console.log(`Order ${payment.orderId} payment status updated to failed`)
-        
-        // Release inventory reservation
-        const order = await orderService.getOrder(payment.orderId)
-        if (order) {
-          await orderService.releaseInventoryReservation(order.items)
-          console.log(`Inventory reservation released for order ${payment.orderId}`)
-        }
-      } catch (orderError) {
-        console.error('Failed to update order status:', orderError)
-      }
-      
-      // Send customer notification
-      try {
-        const order = await orderService.getOrder(payment.orderId)
-        if (order) {
-          await emailService.sendPaymentFailure(
-            {
-              uid: order.userId,
-              email: order.userId, // Using userId as email fallback
-              name: 'Customer',
-              role: 'customer',
-              createdAt: new Date()
-            },
-            {
-              orderId: payment.orderId,
-              amount: payment.amount,
-              currency: payment.currency,
-              paymentMethod: 'Mobile Money',
-              transactionId: payment.gatewayTransactionId || payment.id,
-              reason: data.message || 'Payment processing failed'
-            }
-          )
-          console.log(`Payment failure notification sent for order ${payment.orderId}`)
-        }
-      } catch (notificationError) {
-        console.error('Failed to send payment failure notification:', notificationError)
-      }
+  // The held stock is now sold. If the hold already expired the units went back on sale,
+  // so the order needs a person to decide between fulfilling it and refunding.
+  const settlement = await inventoryHoldService.commit(payment.orderId)
+  if (settlement === 'unchanged') {
+    const reservation = await inventoryHoldService.getReservation(payment.orderId)
+    if (reservation && reservation.status !== 'committed') {
+      logger.warn(`Payment ${payment.id} completed after the stock hold for order ${payment.orderId} was ${reservation.status}`)
     }
-  } catch (error) {
-    console.error('Error processing payment failure:', error)
   }
-}
 
-async function processPaymentPending(data: any) {
+  // Update order status in order management system; errors propagate so the event is dead-lettered
+  await orderService.updatePaymentStatus(payment.orderId, 'paid')
+  await orderService.updateOrderStatus(payment.orderId, 'confirmed')
+  logger.info(`Order ${payment.orderId} status updated to confirmed`)
+
+  // Send customer notification
   try {
-    console.log('Processing payment pending:', data)
-    
-    const transactionRef = data.tx_ref || data.reference || data.transaction_id
-    
-    if (!transactionRef) {
-      console.error('No transaction reference found in webhook data')
-      return
+    const order = await orderService.getOrder(payment.orderId)
+    if (order) {
+      await notificationService.publish({
+        type: 'payment_result',
+        userId: order.userId,
+        orderId: payment.orderId,
+        succeeded: true,
+        amount: payment.amount,
+        currency: payment.currency,
+        paymentMethod: 'Mobile Money',
+        transactionId: payment.gatewayTransactionId || payment.id
+      })
+      logger.info(`Payment success notification sent for order ${payment.orderId}`)
     }
+  } catch (notificationError) {
+    logger.error('Failed to send payment notification:', notificationError)
+  }
+}
+
+async function processPaymentFailure(payment: MobileMoneyPayment, reason?: string) {
+  logger.info(`Payment ${payment.id} marked as failed via webhook`)
+
+  // Update order status and release the reserved stock
+  await orderService.updatePaymentStatus(payment.orderId, 'failed')
+  logger.info(`Order ${payment.orderId} payment status updated to failed`)
+
+  if (await inventoryHoldService.release(payment.orderId, 'payment_failed') === 'applied') {
+    logger.info(`Inventory reservation released for order ${payment.orderId}`)
+  }
+
+  // The order won't be paid, so its promotion uses go back to the promotions' limits
+  if (await checkoutPromotionService.releaseForOrder(payment.orderId, 'payment_failed') > 0) {
+    logger.info(`Promotion redemptions released for order ${payment.orderId}`)
+  }
 
-    const payments = await mobileMoneyService.getAllPayments()
-    const payment = payments.find(p => p.gatewayTransactionId === transactionRef)
-    
-    if (payment) {
-      payment.status = 'pending'
-      payment.updatedAt = new Date()
-      payment.gatewayResponse = data
-      
-      console.log(`Payment ${payment.id} status updated to pending via webhook`)
+  // Send customer notification
+  try {
+    const order = await orderService.getOrder(payment.orderId)
+    if (order) {
+      await notificationService.publish({
+        type: 'payment_result',
+        userId: order.userId,
+        orderId: payment.orderId,
+        succeeded: false,
+        amount: payment.amount,
+        currency: payment.currency,
+        paymentMethod: 'Mobile Money',
+        transactionId: payment.gatewayTransactionId || payment.id,
+        reason: reason || 'Payment processing failed'
+      })
+      logger.info(`Payment failure notification sent for order ${payment.orderId}`)
     }
-  } catch (error) {
-    console.error('Error processing payment pending:', error)
+  } catch (notificationError) {
+    logger.error('Failed to send payment failure notification:', notificationError)
   }
 }
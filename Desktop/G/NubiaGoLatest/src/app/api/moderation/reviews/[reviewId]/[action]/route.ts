@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { moderationService } from '@/lib/services/moderation.service'
+import { reviewService } from '@/lib/services/review.service'
+
+// POST /api/moderation/reviews/[reviewId]/approve - Publish a held review
+// POST /api/moderation/reviews/[reviewId]/reject - Remove a review
+export const POST = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const segments = new URL(request.url).pathname.split('/')
+    const action = segments.pop()
+    const reviewId = decodeURIComponent(segments.pop() || '')
+
+    if ((action !== 'approve' && action !== 'reject') || !reviewId) {
+      return NextResponse.json(
+        { success: false, error: `Unknown moderation action: ${action}`, code: 'INVALID_ACTION' },
+        { status: 400 }
+      )
+    }
+
+    const review = action === 'approve'
+      ? await moderationService.approveReview(reviewId, request.user!.uid)
+      : await moderationService.removeReview(reviewId, request.user!.uid)
+    // Publishing or removing a review changes which ratings count
+    await reviewService.refreshRatings(review)
+
+    return NextResponse.json({
+      success: true,
+      data: { review },
+      message: action === 'approve' ? 'Review published' : 'Review removed'
+    })
+  } catch (error) {
+    console.error('Review moderation error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'MODERATION_REJECTED' },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to moderate review', code: 'MODERATION_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { moderationService } from '@/lib/services/moderation.service'
+
+// GET /api/moderation/reviews - Flagged and hidden product reviews waiting for review
+export const GET = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const limitParam = Number(new URL(request.url).searchParams.get('limit'))
+    const reviews = await moderationService.getReviewQueue(limitParam > 0 ? Math.min(limitParam, 200) : undefined)
+
+    return NextResponse.json({
+      success: true,
+      data: { reviews }
+    })
+  } catch (error) {
+    console.error('Review moderation queue error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load the review queue', code: 'MODERATION_QUEUE_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { ValidationError } from '@/lib/errors'
+import { moderationService } from '@/lib/services/moderation.service'
+
+// GET /api/moderation/rules - Current content moderation rule lists
+export const GET = protectAdminAPI(async () => {
+  try {
+    const rules = await moderationService.getRules()
+
+    return NextResponse.json({
+      success: true,
+      data: { rules }
+    })
+  } catch (error) {
+    console.error('Moderation rules fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load moderation rules', code: 'MODERATION_RULES_FAILED' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/moderation/rules - Replace the rule lists and per-reason actions
+export const PUT = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const rules = await moderationService.updateRules(body, request.user!.uid)
+
+    return NextResponse.json({
+      success: true,
+      data: { rules },
+      message: 'Moderation rules saved'
+    })
+  } catch (error) {
+    console.error('Moderation rules update error:', error)
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'INVALID_RULES', fieldErrors: error.fieldErrors },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to save moderation rules', code: 'MODERATION_RULES_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { auditService } from '@/lib/services/audit.service'
+import { settlementService } from '@/lib/services/settlement.service'
+
+// POST /api/payouts/batches/[batchId]/approve - Approve every pending settlement in a batch
+export const POST = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    // /api/payouts/batches/[batchId]/approve
+    const batchId = decodeURIComponent(new URL(request.url).pathname.split('/')[4] || '')
+    const admin = request.user!
+
+    const approved = await settlementService.approveBatch(batchId, admin.uid)
+    await auditService.logAdminAction(admin.uid, admin.email, 'settlement_batch_approved', batchId, 'settlement_batch', {
+      approvedCount: approved
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { batchId, approved },
+      message: 'All pending settlements in the batch were approved'
+    })
+  } catch (error) {
+    console.error('Settlement batch approval error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'APPROVAL_REJECTED' },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to approve the settlement batch', code: 'APPROVAL_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { auditService } from '@/lib/services/audit.service'
+import { settlementService } from '@/lib/services/settlement.service'
+
+// POST /api/payouts/batches - Settle the unsettled ledger rows booked in a period
+// ({ periodStart, periodEnd }, ISO dates) into per-supplier settlements awaiting approval
+export const POST = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const periodStart = new Date(body.periodStart)
+    const periodEnd = new Date(body.periodEnd)
+
+    if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime()) || periodStart >= periodEnd || periodEnd > new Date()) {
+      return NextResponse.json(
+        { success: false, error: 'periodStart and periodEnd must be dates, in order, and not in the future', code: 'INVALID_PERIOD' },
+        { status: 400 }
+      )
+    }
+
+    const admin = request.user!
+    const batch = await settlementService.createSettlementBatch(periodStart, periodEnd, admin.uid)
+    await auditService.logAdminAction(admin.uid, admin.email, 'settlement_batch_created', batch.id, 'settlement_batch', {
+      periodStart: periodStart.toISOString(),
+      periodEnd: periodEnd.toISOString(),
+      settlementCount: batch.settlementIds.length,
+      totals: batch.totals
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { batch },
+      message: `${batch.settlementIds.length} settlements created`
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Settlement batch creation error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate the settlement batch', code: 'BATCH_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { payoutService } from '@/lib/services/payout.service'
+import { subOrderService } from '@/lib/services/sub-order.service'
+
+// POST /api/payouts/chargebacks - Book a lost dispute against the supplier who fulfilled
+// the sub-order ({ subOrderId, amount, fee?, disputeId }). Amounts are in the base
+// currency, like the sale they reverse.
+export const POST = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const amount = Number(body.amount)
+    const fee = Number(body.fee || 0)
+
+    if (!body.subOrderId || !body.disputeId || !(amount > 0) || !(fee >= 0)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'subOrderId, disputeId and a positive amount are required; fee cannot be negative',
+          code: 'INVALID_CHARGEBACK'
+        },
+        { status: 400 }
+      )
+    }
+
+    const subOrder = await subOrderService.getSubOrder(String(body.subOrderId))
+    if (!subOrder) {
+      return NextResponse.json(
+        { success: false, error: 'Sub-order not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      )
+    }
+
+    // The transaction id is derived from the dispute, so a repeated call books it once
+    const transactions = await payoutService.recordChargeback(subOrder, amount, fee, String(body.disputeId))
+    console.log(`Chargeback ${body.disputeId} on sub-order ${subOrder.id} recorded by admin ${request.user!.uid}`)
+
+    return NextResponse.json({
+      success: true,
+      data: { transactions },
+      message: 'Chargeback recorded against the supplier'
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Chargeback recording error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to record chargeback', code: 'CHARGEBACK_FAILED' },
+      { status: 500 }
+    )
+  }
+})
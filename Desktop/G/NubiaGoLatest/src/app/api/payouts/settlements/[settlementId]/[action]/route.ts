@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { auditService } from '@/lib/services/audit.service'
+import { settlementService } from '@/lib/services/settlement.service'
+
+const ACTIONS = ['approve', 'reject', 'paid', 'failed'] as const
+type SettlementAction = typeof ACTIONS[number]
+
+// POST /api/payouts/settlements/[settlementId]/approve - Approve a settlement for payout
+// POST /api/payouts/settlements/[settlementId]/reject - Reject it ({ reason })
+// POST /api/payouts/settlements/[settlementId]/paid - Record the transfer ({ payoutReference })
+// POST /api/payouts/settlements/[settlementId]/failed - Record a failed transfer ({ reason })
+export const POST = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const segments = new URL(request.url).pathname.split('/')
+    const action = segments.pop() as SettlementAction
+    const settlementId = decodeURIComponent(segments.pop() || '')
+
+    if (!ACTIONS.includes(action) || !settlementId) {
+      return NextResponse.json(
+        { success: false, error: `Unknown settlement action: ${action}`, code: 'INVALID_ACTION' },
+        { status: 400 }
+      )
+    }
+
+    const body = action === 'approve' ? {} : await request.json()
+    const note = String((action === 'paid' ? body.payoutReference : body.reason) || '').trim()
+    if (action !== 'approve' && !note) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: action === 'paid' ? 'payoutReference is required' : 'reason is required',
+          code: 'INVALID_SETTLEMENT_ACTION'
+        },
+        { status: 400 }
+      )
+    }
+
+    const admin = request.user!
+    const settlement = action === 'approve'
+      ? await settlementService.approveSettlement(settlementId, admin.uid)
+      : action === 'reject'
+        ? await settlementService.rejectSettlement(settlementId, admin.uid, note)
+        : action === 'paid'
+          ? await settlementService.markSettlementPaid(settlementId, note)
+          : await settlementService.markSettlementFailed(settlementId, note)
+
+    await auditService.logAdminAction(admin.uid, admin.email, `settlement_${action}`, settlementId, 'supplier_settlement', {
+      supplierId: settlement.supplierId,
+      amount: settlement.amount,
+      currency: settlement.currency,
+      ...(note ? { note } : {})
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { settlement },
+      message: `Settlement ${settlement.status.replace('_', ' ')}`
+    })
+  } catch (error) {
+    console.error('Settlement action error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'SETTLEMENT_ACTION_REJECTED' },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to update the settlement', code: 'SETTLEMENT_ACTION_FAILED' },
+      { status: 500 }
+    )
+  }
+})
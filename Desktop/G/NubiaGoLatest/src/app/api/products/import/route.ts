@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import { protectSupplierAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import {
+  productImportService,
+  MAX_IMPORT_FILE_SIZE
+} from '@/lib/services/product-import.service'
+
+// POST /api/products/import - Validate (dryRun=true) or upsert a supplier's product spreadsheet
+export const POST = protectSupplierAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const dryRun = formData.get('dryRun') !== 'false'
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: 'A CSV or Excel file is required', code: 'FILE_REQUIRED' },
+        { status: 400 }
+      )
+    }
+
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      return NextResponse.json(
+        { success: false, error: 'Unsupported file type. Upload a CSV or Excel (.xlsx) file.', code: 'INVALID_FILE_TYPE' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json(
+        { success: false, error: 'File is larger than 10MB', code: 'FILE_TOO_LARGE' },
+        { status: 413 }
+      )
+    }
+
+    let table: string[][]
+    try {
+      table = await productImportService.parseFile(await file.arrayBuffer(), file.name)
+    } catch (parseError) {
+      console.error('Product import parse error:', parseError)
+      return NextResponse.json(
+        { success: false, error: 'The file could not be read. Check that it is a valid CSV or Excel file.', code: 'PARSE_ERROR' },
+        { status: 400 }
+      )
+    }
+
+    const user = request.user!
+    const result = await productImportService.importProducts(table, {
+      id: user.uid,
+      name: user.displayName || user.email,
+      email: user.email
+    }, dryRun)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: dryRun
+        ? `${result.validRows} of ${result.totalRows} products are ready to import`
+        : `Imported ${result.validRows} products (${result.created} new, ${result.updated} updated)`
+    })
+  } catch (error: any) {
+    console.error('Product import error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'Failed to import products',
+        code: 'IMPORT_ERROR'
+      },
+      { status: 500 }
+    )
+  }
+})
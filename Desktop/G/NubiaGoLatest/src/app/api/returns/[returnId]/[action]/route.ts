@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { protectSupplierAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { returnResolutionService } from '@/lib/services/return-resolution.service'
+
+// POST /api/returns/[returnId]/receive - Confirm the goods arrived and issue the refund or credit
+// POST /api/returns/[returnId]/resolve - Retry the refund or credit for a received return
+export const POST = protectSupplierAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const segments = new URL(request.url).pathname.split('/')
+    const action = segments.pop()
+    const returnId = decodeURIComponent(segments.pop() || '')
+
+    if ((action !== 'receive' && action !== 'resolve') || !returnId) {
+      return NextResponse.json(
+        { success: false, error: `Unknown return action: ${action}`, code: 'INVALID_ACTION' },
+        { status: 400 }
+      )
+    }
+
+    const returnRequest = action === 'receive'
+      ? await returnResolutionService.markReceived(returnId, request.user!.uid)
+      : await returnResolutionService.resolveReturn(returnId, request.user!.uid)
+
+    return NextResponse.json({
+      success: true,
+      data: returnRequest,
+      message: action === 'receive' ? 'Return received' : 'Return resolved'
+    })
+  } catch (error) {
+    console.error('Return resolution error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'RETURN_ACTION_REJECTED' },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to update return', code: 'RETURN_ACTION_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { protectSupplierAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError, ValidationError } from '@/lib/errors'
+import { reviewService } from '@/lib/services/review.service'
+
+// POST /api/reviews/[reviewId]/reply - Post or edit the supplier's public reply ({ message })
+export const POST = protectSupplierAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const segments = new URL(request.url).pathname.split('/')
+    segments.pop()
+    const reviewId = decodeURIComponent(segments.pop() || '')
+    const { message } = await request.json()
+    const user = request.user!
+
+    const review = await reviewService.replyToReview(
+      reviewId,
+      { id: user.uid, name: user.displayName || user.email },
+      String(message || '')
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: { review },
+      message: 'Reply posted'
+    })
+  } catch (error) {
+    console.error('Review reply error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: 'REPLY_REJECTED',
+          ...(error instanceof ValidationError ? { fieldErrors: error.fieldErrors } : {})
+        },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to post reply', code: 'REPLY_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { protectCustomerAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { moderationService } from '@/lib/services/moderation.service'
+
+// POST /api/reviews/[reviewId]/report - Send a review to the moderation queue ({ reason })
+export const POST = protectCustomerAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const segments = new URL(request.url).pathname.split('/')
+    segments.pop()
+    const reviewId = decodeURIComponent(segments.pop() || '')
+    const { reason } = await request.json()
+
+    await moderationService.reportReview(reviewId, request.user!.uid, String(reason || ''))
+
+    return NextResponse.json({
+      success: true,
+      message: 'Thanks, our moderators will take a look'
+    })
+  } catch (error) {
+    console.error('Review report error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'REPORT_REJECTED' },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to report review', code: 'REPORT_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { protectCustomerAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { reviewService } from '@/lib/services/review.service'
+
+// POST /api/reviews/[reviewId]/vote - Mark a review helpful or not helpful ({ vote })
+export const POST = protectCustomerAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const segments = new URL(request.url).pathname.split('/')
+    segments.pop()
+    const reviewId = decodeURIComponent(segments.pop() || '')
+    const { vote } = await request.json()
+
+    const counts = await reviewService.voteReview(reviewId, request.user!.uid, vote)
+
+    return NextResponse.json({
+      success: true,
+      data: counts
+    })
+  } catch (error) {
+    console.error('Review vote error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'VOTE_REJECTED' },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to record vote', code: 'VOTE_FAILED' },
+      { status: 500 }
+    )
+  }
+})
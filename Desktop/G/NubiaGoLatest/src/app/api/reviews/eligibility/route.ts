@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { protectCustomerAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { reviewService } from '@/lib/services/review.service'
+
+// GET /api/reviews/eligibility?productId= - Whether the signed-in customer may review a product
+export const GET = protectCustomerAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const productId = new URL(request.url).searchParams.get('productId')
+    if (!productId) {
+      return NextResponse.json(
+        { success: false, error: 'productId is required', code: 'PRODUCT_REQUIRED' },
+        { status: 400 }
+      )
+    }
+
+    const eligibility = await reviewService.getEligibility(request.user!.uid, productId)
+
+    return NextResponse.json({
+      success: true,
+      data: eligibility
+    })
+  } catch (error) {
+    console.error('Review eligibility error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to check review eligibility', code: 'ELIGIBILITY_FAILED' },
+      { status: 500 }
+    )
+  }
+})
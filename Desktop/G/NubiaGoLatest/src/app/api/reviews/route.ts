@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { protectCustomerAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError, ValidationError } from '@/lib/errors'
+import { reviewService } from '@/lib/services/review.service'
+
+// GET /api/reviews?productId= - Published reviews for a product, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const productId = new URL(request.url).searchParams.get('productId')
+    if (!productId) {
+      return NextResponse.json(
+        { success: false, error: 'productId is required', code: 'PRODUCT_REQUIRED' },
+        { status: 400 }
+      )
+    }
+
+    const reviews = await reviewService.getProductReviews(productId)
+
+    return NextResponse.json({
+      success: true,
+      data: { reviews }
+    })
+  } catch (error) {
+    console.error('Review list error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load reviews', code: 'REVIEWS_FAILED' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/reviews - Review a product from a delivered order (multipart: productId,
+// rating, title, comment and up to five photos)
+export const POST = protectCustomerAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const formData = await request.formData()
+    const productId = formData.get('productId')
+
+    if (typeof productId !== 'string' || !productId) {
+      return NextResponse.json(
+        { success: false, error: 'productId is required', code: 'PRODUCT_REQUIRED' },
+        { status: 400 }
+      )
+    }
+
+    const review = await reviewService.createReview(request.user!.uid, {
+      productId,
+      rating: Number(formData.get('rating')),
+      title: String(formData.get('title') || ''),
+      comment: String(formData.get('comment') || ''),
+      photos: formData.getAll('photos').filter((photo): photo is File => photo instanceof File)
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { review },
+      message: review.moderationStatus === 'hidden'
+        ? 'Thanks! Your review will appear once a moderator has checked it'
+        : 'Thanks for your review'
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Review create error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: 'REVIEW_REJECTED',
+          ...(error instanceof ValidationError ? { fieldErrors: error.fieldErrors } : {})
+        },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to submit review', code: 'REVIEW_FAILED' },
+      { status: 500 }
+    )
+  }
+})
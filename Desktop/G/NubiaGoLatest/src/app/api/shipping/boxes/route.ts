@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { protectSupplierAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { ValidationError } from '@/lib/errors'
+import { packingService } from '@/lib/services/packing.service'
+
+// GET /api/shipping/boxes - Box sizes the supplier packs orders in
+export const GET = protectSupplierAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const boxes = await packingService.getSupplierBoxes(request.user!.uid)
+
+    return NextResponse.json({
+      success: true,
+      data: { boxes }
+    })
+  } catch (error) {
+    console.error('Shipping boxes fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load shipping boxes', code: 'SHIPPING_BOXES_FAILED' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/shipping/boxes - Replace the supplier's box sizes ({ boxes }, cm and kg)
+export const PUT = protectSupplierAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const boxes = await packingService.updateSupplierBoxes(request.user!.uid, body.boxes)
+
+    return NextResponse.json({
+      success: true,
+      data: { boxes },
+      message: 'Shipping boxes saved'
+    })
+  } catch (error) {
+    console.error('Shipping boxes update error:', error)
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'INVALID_BOXES', fieldErrors: error.fieldErrors },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to save shipping boxes', code: 'SHIPPING_BOXES_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { protectSupplierAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { logisticsService } from '@/lib/services/logistics.service'
+
+// POST /api/shipping/labels/batch - Print labels for all of the supplier's open orders
+// ({ format?, serviceCode?, useLocalCourier?, courierName? })
+export const POST = protectSupplierAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+
+    if (body.format && !['pdf', 'png', 'zpl'].includes(body.format)) {
+      return NextResponse.json(
+        { success: false, error: 'Label format must be one of: pdf, png, zpl', code: 'INVALID_FORMAT' },
+        { status: 400 }
+      )
+    }
+
+    const result = await logisticsService.generateBatchLabels(request.user!.uid, {
+      format: body.format,
+      serviceCode: body.serviceCode,
+      useLocalCourier: !!body.useLocalCourier,
+      courierName: body.courierName
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: result.labels.length === 0 && result.failed.length === 0
+        ? 'No open orders need a label'
+        : `${result.labels.length} labels printed${result.failed.length ? `, ${result.failed.length} failed` : ''}`
+    })
+  } catch (error) {
+    console.error('Batch label generation error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'BATCH_LABELS_REJECTED' },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to print labels', code: 'BATCH_LABELS_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { protectSupplierAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { returnService } from '@/lib/services/return.service'
+
+// POST /api/shipping/labels/returns - Buy the return label for one of the supplier's
+// approved returns ({ returnId }). Runs here because the carrier credentials are only
+// available server-side.
+export const POST = protectSupplierAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+
+    if (typeof body.returnId !== 'string' || !body.returnId) {
+      return NextResponse.json(
+        { success: false, error: 'returnId is required', code: 'RETURN_ID_REQUIRED' },
+        { status: 400 }
+      )
+    }
+
+    const returnRequest = await returnService.issueReturnLabel(body.returnId, request.user!.uid)
+
+    return NextResponse.json({
+      success: true,
+      data: returnRequest,
+      message: `Return label issued with tracking number ${returnRequest.returnLabel?.trackingNumber}`
+    })
+  } catch (error) {
+    console.error('Return label error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'RETURN_LABEL_REJECTED' },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to issue return label', code: 'RETURN_LABEL_FAILED' },
+      { status: 500 }
+    )
+  }
+})
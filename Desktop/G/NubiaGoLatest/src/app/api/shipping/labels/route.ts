@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server'
+import { BaseError } from '@/lib/errors'
+import { protectSupplierAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { logisticsService } from '@/lib/services/logistics.service'
+import { packingService } from '@/lib/services/packing.service'
+import { subOrderService } from '@/lib/services/sub-order.service'
+
+const LABEL_FORMATS = ['pdf', 'png', 'zpl']
+
+// POST /api/shipping/labels - Issue a label through the configured carrier, or print a
+// local label when carrier is 'local' (own fleet or informal courier). Packages may be
+// left out for a sub-order (orderId), which is then packed in the supplier's boxes.
+export const POST = protectSupplierAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const supplierId = request.user!.uid
+
+    // Validate required fields
+    if (!body.fromAddress || !body.toAddress || (!body.packages && !body.orderId) || !body.serviceCode) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required fields: fromAddress, toAddress, packages or orderId, serviceCode'
+        },
+        { status: 400 }
+      )
+    }
+
+    // Validate addresses
+    const requiredAddressFields = ['name', 'address1', 'city', 'country']
+    for (const field of requiredAddressFields) {
+      if (!body.fromAddress[field] || !body.toAddress[field]) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Missing required address field: ${field}`
+          },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Validate packages
+    if (body.packages && (!Array.isArray(body.packages) || body.packages.length === 0)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'At least one package is required'
+        },
+        { status: 400 }
+      )
+    }
+
+    if (body.labelFormat && !LABEL_FORMATS.includes(body.labelFormat)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Label format must be one of: ${LABEL_FORMATS.join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    const provider = body.carrier === 'local' ? null : await logisticsService.getLabelProvider()
+    if (body.carrier !== 'local' && !provider) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No logistics provider is configured. Print a local courier label instead.',
+          code: 'NO_LABEL_PROVIDER'
+        },
+        { status: 409 }
+      )
+    }
+
+    // Labels for one of the supplier's sub-orders are saved on it
+    const subOrder = body.orderId
+      ? await subOrderService.getSupplierSubOrder(String(body.orderId), supplierId)
+      : null
+
+    if (!body.packages && !subOrder) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Sub-order not found; pass packages to label another shipment'
+        },
+        { status: 404 }
+      )
+    }
+    const packages = body.packages || await packingService.packagesForSubOrder(subOrder!)
+
+    const label = await logisticsService.generateShippingLabel(
+      provider,
+      body.fromAddress,
+      body.toAddress,
+      packages,
+      body.serviceCode,
+      {
+        format: body.labelFormat,
+        courierName: body.courierName,
+        reference: body.orderId ? String(body.orderId) : undefined,
+        orderId: subOrder?.parentOrderId
+      }
+    )
+
+    if (subOrder) {
+      await subOrderService.attachShippingLabel(subOrder.id, label)
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: label,
+      message: `Label issued with tracking number ${label.trackingNumber}`
+    })
+  } catch (error: any) {
+    console.error('Shipping label generation error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'Failed to generate shipping label'
+      },
+      { status: error instanceof BaseError ? error.statusCode : 500 }
+    )
+  }
+})
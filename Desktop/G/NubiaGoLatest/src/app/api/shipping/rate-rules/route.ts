@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { ValidationError } from '@/lib/errors'
+import { rateShoppingService } from '@/lib/services/rate-shopping.service'
+
+// GET /api/shipping/rate-rules - Current shipping markup, free-shipping and carrier rules
+export const GET = protectAdminAPI(async () => {
+  try {
+    const rules = await rateShoppingService.getRules()
+
+    return NextResponse.json({
+      success: true,
+      data: { rules }
+    })
+  } catch (error) {
+    console.error('Shipping rate rules fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load shipping rate rules', code: 'RATE_RULES_FAILED' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/shipping/rate-rules - Replace the shipping pricing rules
+export const PUT = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const rules = await rateShoppingService.updateRules(body, request.user!.uid)
+
+    return NextResponse.json({
+      success: true,
+      data: { rules },
+      message: 'Shipping rate rules saved'
+    })
+  } catch (error) {
+    console.error('Shipping rate rules update error:', error)
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'INVALID_RULES', fieldErrors: error.fieldErrors },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to save shipping rate rules', code: 'RATE_RULES_FAILED' },
+      { status: 500 }
+    )
+  }
+})
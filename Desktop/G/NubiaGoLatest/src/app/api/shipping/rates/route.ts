@@ -1,18 +1,22 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { logisticsService } from '@/lib/services/logistics.service'
-import { protectAPI } from '@/lib/middleware/api-auth'
+import { NextResponse } from 'next/server'
+import { BaseError } from '@/lib/errors'
+import { packingService } from '@/lib/services/packing.service'
+import { rateShoppingService } from '@/lib/services/rate-shopping.service'
+import { protectAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
 
-// POST /api/shipping/rates - Get shipping rates
-export const POST = protectAPI()(async (request: NextRequest) => {
+// POST /api/shipping/rates - Shop every active carrier and return priced options, cheapest
+// first with the cheapest and fastest labelled. Pass orderSubtotal for free-shipping rules,
+// and either packages or order items ({ productId, quantity }) to be packed in supplier boxes.
+export const POST = protectAPI()(async (request: AuthenticatedRequest) => {
   try {
     const body = await request.json()
     
     // Validate required fields
-    if (!body.fromAddress || !body.toAddress || !body.packages) {
+    if (!body.fromAddress || !body.toAddress || (!body.packages && !body.items)) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'Missing required fields: fromAddress, toAddress, packages' 
+          error: 'Missing required fields: fromAddress, toAddress, packages or items' 
         },
         { status: 400 }
       )
@@ -32,6 +36,25 @@ export const POST = protectAPI()(async (request: NextRequest) => {
       }
     }
 
+    // Order items are packed into the suppliers' boxes first
+    if (!body.packages) {
+      const validItems = Array.isArray(body.items) && body.items.length > 0 && body.items.every((item: any) =>
+        item && typeof item.productId === 'string' && item.productId &&
+        Number.isInteger(item.quantity) && item.quantity > 0)
+      if (!validItems) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Items must each have a productId and a whole quantity above 0'
+          },
+          { status: 400 }
+        )
+      }
+      body.packages = await packingService.packagesForItems(
+        body.items.map((item: any) => ({ productId: item.productId, quantity: item.quantity }))
+      )
+    }
+
     // Validate packages
     if (!Array.isArray(body.packages) || body.packages.length === 0) {
       return NextResponse.json(
@@ -59,17 +82,31 @@ export const POST = protectAPI()(async (request: NextRequest) => {
       }
     }
 
-    // Get shipping rates from logistics service
-    const rates = await logisticsService.getShippingRates(
+    if (body.orderSubtotal !== undefined && (typeof body.orderSubtotal !== 'number' || body.orderSubtotal < 0)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'orderSubtotal must be a non-negative number'
+        },
+        { status: 400 }
+      )
+    }
+
+    const quoteSet = await rateShoppingService.shopRates(
       body.fromAddress,
       body.toAddress,
-      body.packages
+      body.packages,
+      { userId: request.user!.uid, orderSubtotal: body.orderSubtotal }
     )
 
     return NextResponse.json({
       success: true,
-      data: rates,
-      message: `Found ${rates.length} shipping options`
+      data: {
+        quoteId: quoteSet.id,
+        rates: quoteSet.quotes,
+        expiresAt: quoteSet.expiresAt
+      },
+      message: `Found ${quoteSet.quotes.length} shipping options`
     })
   } catch (error: any) {
     console.error('Shipping rates calculation error:', error)
@@ -78,7 +115,7 @@ export const POST = protectAPI()(async (request: NextRequest) => {
         success: false, 
         error: error.message || 'Failed to calculate shipping rates' 
       },
-      { status: 500 }
+      { status: error instanceof BaseError ? error.statusCode : 500 }
     )
   }
 })
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { protectAPI, protectAdminAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError } from '@/lib/errors'
+import { rateShoppingService } from '@/lib/services/rate-shopping.service'
+
+const DEFAULT_MARGIN_DAYS = 30
+const MAX_MARGIN_DAYS = 365
+
+// POST /api/shipping/rates/selection - Record the quoted option an order was placed with
+export const POST = protectAPI()(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    if (!body.quoteId || !body.rateId || !body.orderId) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: quoteId, rateId, orderId', code: 'SELECTION_REQUIRED' },
+        { status: 400 }
+      )
+    }
+
+    const selection = await rateShoppingService.recordSelection(
+      body.quoteId,
+      body.rateId,
+      body.orderId,
+      request.user!.uid
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: selection,
+      message: 'Shipping selection recorded'
+    })
+  } catch (error) {
+    console.error('Shipping selection error:', error)
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'SELECTION_REJECTED' },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to record shipping selection', code: 'SELECTION_FAILED' },
+      { status: 500 }
+    )
+  }
+})
+
+// GET /api/shipping/rates/selection?days= - Chosen quotes and shipping margins for auditing
+export const GET = protectAdminAPI(async (request: AuthenticatedRequest) => {
+  try {
+    const days = Number(new URL(request.url).searchParams.get('days') || DEFAULT_MARGIN_DAYS)
+    if (!Number.isInteger(days) || days < 1 || days > MAX_MARGIN_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `days must be between 1 and ${MAX_MARGIN_DAYS}`, code: 'INVALID_PERIOD' },
+        { status: 400 }
+      )
+    }
+
+    const summary = await rateShoppingService.getMarginSummary(new Date(Date.now() - days * 24 * 60 * 60 * 1000))
+
+    return NextResponse.json({
+      success: true,
+      data: summary
+    })
+  } catch (error) {
+    console.error('Shipping margin report error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load shipping margins', code: 'MARGINS_FAILED' },
+      { status: 500 }
+    )
+  }
+})
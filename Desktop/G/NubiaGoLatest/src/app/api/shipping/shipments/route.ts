@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { protectAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { trackingService } from '@/lib/services/tracking.service'
+
+// GET /api/shipping/shipments?orderId= - Parcels of an order with their tracking timelines.
+// Customers see their own parcels; admins see every parcel of the order.
+export const GET = protectAPI()(async (request: AuthenticatedRequest) => {
+  try {
+    const orderId = new URL(request.url).searchParams.get('orderId')
+    if (!orderId) {
+      return NextResponse.json(
+        { success: false, error: 'orderId is required', code: 'ORDER_REQUIRED' },
+        { status: 400 }
+      )
+    }
+
+    const user = request.user!
+    const shipments = await trackingService.getOrderShipments(orderId, user.role === 'admin' ? undefined : user.uid)
+
+    return NextResponse.json({
+      success: true,
+      data: shipments
+    })
+  } catch (error) {
+    console.error('Shipment tracking error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch shipments', code: 'SHIPMENTS_FAILED' },
+      { status: 500 }
+    )
+  }
+})
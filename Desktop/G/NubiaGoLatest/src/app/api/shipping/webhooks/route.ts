@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logisticsService } from '@/lib/services/logistics.service'
+import { getTrackingWebhookParser } from '@/lib/services/shipping/tracking-webhooks'
+import { trackingService } from '@/lib/services/tracking.service'
+
+// Carriers push scan events here, tagged with ?carrier=... matching the provider of a
+// logistics API configuration whose config.webhookSecret they sign with. Events are
+// stored idempotently, so failures answer 500 and the carrier's retry is safe.
+export async function POST(request: NextRequest) {
+  const carrier = request.nextUrl.searchParams.get('carrier')
+  const secret = carrier ? await logisticsService.getTrackingWebhookSecret(carrier) : null
+
+  if (!carrier || !secret) {
+    return NextResponse.json(
+      { success: false, message: 'Unknown or unconfigured carrier' },
+      { status: 404 }
+    )
+  }
+
+  const parser = getTrackingWebhookParser(carrier)
+  const webhookRequest = {
+    headers: request.headers,
+    rawBody: await request.text()
+  }
+
+  if (!(await parser.verify(webhookRequest, secret))) {
+    console.warn('Rejected tracking webhook with invalid signature:', {
+      carrier,
+      timestamp: new Date().toISOString()
+    })
+    return NextResponse.json({ success: false, message: 'Invalid webhook signature' }, { status: 401 })
+  }
+
+  let updates
+  try {
+    updates = parser.parse(JSON.parse(webhookRequest.rawBody))
+  } catch {
+    return NextResponse.json({ success: false, message: 'Malformed webhook payload' }, { status: 400 })
+  }
+
+  if (updates.length === 0) {
+    console.log(`Unhandled ${carrier} tracking webhook payload`)
+    return NextResponse.json({ success: true, message: 'Event ignored' })
+  }
+
+  try {
+    const result = await trackingService.recordUpdates(carrier, updates)
+    if (result.unknown.length > 0) {
+      console.log(`Ignored ${carrier} tracking for unknown parcels:`, result.unknown)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.recorded > 0 ? 'Webhook processed successfully' : 'Event ignored'
+    })
+  } catch (error) {
+    console.error('Tracking webhook processing error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Webhook processing failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
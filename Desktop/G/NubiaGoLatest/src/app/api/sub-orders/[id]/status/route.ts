@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { protectAPI, AuthenticatedRequest } from '@/lib/middleware/api-auth'
+import { BaseError, ValidationError } from '@/lib/errors'
+import { subOrderService } from '@/lib/services/sub-order.service'
+import { OrderStatus } from '@/types'
+
+const ORDER_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled']
+
+const protectSubOrderAPI = protectAPI(
+  { roles: ['supplier', 'admin'], requireActive: true, requireEmailVerified: true },
+  { enableCSRF: true, rateLimit: 100, enableLogging: true }
+)
+
+// PATCH /api/sub-orders/[id]/status - Move a sub-order along ({ status, trackingNumber? }).
+// Suppliers can only change their own sub-orders and can't mark them delivered.
+export const PATCH = protectSubOrderAPI(async (request: AuthenticatedRequest) => {
+  try {
+    // /api/sub-orders/[id]/status
+    const id = new URL(request.url).pathname.split('/')[3]
+    const body = await request.json()
+    const status = body.status as OrderStatus
+
+    if (!ORDER_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `Status must be one of: ${ORDER_STATUSES.join(', ')}`, code: 'INVALID_STATUS' },
+        { status: 400 }
+      )
+    }
+
+    const subOrder = request.user!.role === 'admin'
+      ? await subOrderService.updateSubOrderStatus(id, status, body.trackingNumber)
+      : await subOrderService.updateSupplierSubOrderStatus(id, request.user!.uid, status)
+
+    return NextResponse.json({
+      success: true,
+      data: subOrder,
+      message: 'Sub-order status updated'
+    })
+  } catch (error) {
+    console.error('Sub-order status update error:', error)
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'INVALID_STATUS', fieldErrors: error.fieldErrors },
+        { status: error.statusCode }
+      )
+    }
+    if (error instanceof BaseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'STATUS_UPDATE_REJECTED' },
+        { status: error.statusCode }
+      )
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to update sub-order status', code: 'STATUS_UPDATE_FAILED' },
+      { status: 500 }
+    )
+  }
+})
@@ -7,12 +7,15 @@ import ShoppingCart from '@/components/cart/shopping-cart'
 import Recommendations from '@/components/cart/recommendations'
 import { CartService } from '@/lib/services/cart.service'
 import { useAuth } from '@/hooks/useAuth'
+import { useCurrency } from '@/hooks/useCurrency'
 import { Product } from '@/types'
 import { logger } from '@/lib/utils/logger'
+import { findVariant, formatVariantAttributes } from '@/lib/product-variants'
 
 interface CartItem {
   id: string
   name: string
+  variantName?: string
   price: number
   originalPrice?: number
   quantity: number
@@ -42,6 +45,7 @@ export default function CartPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [cartItems, setCartItems] = useState<CartItem[]>([])
   const [cartTotal, setCartTotal] = useState(0)
+  const { formatPrice } = useCurrency()
   const { user } = useAuth()
   
   const cartService = useMemo(() => new CartService(), [])
@@ -49,14 +53,15 @@ export default function CartPage() {
   // Transform cart items to match ShoppingCart component interface
   const transformCartItems = useCallback((cart: any) => {
     return cart.items.map((item: any) => ({
-      id: item.productId,
+      id: item.id,
       name: item.product.name,
+      variantName: item.variant ? formatVariantAttributes(item.variant.attributes) : undefined,
       price: item.price,
       originalPrice: item.product.originalPrice,
       quantity: item.quantity,
       image: item.product.images?.[0] || item.product.imageUrl || '',
-      inStock: item.product.stock > 0,
-      maxQuantity: item.product.stock,
+      inStock: (item.variant ? findVariant(item.product, item.variantId)?.stock : item.product.stock) > 0,
+      maxQuantity: item.variant ? findVariant(item.product, item.variantId)?.stock : item.product.stock,
       category: item.product.category,
       supplierId: 'supplier-1', // Default supplier ID
       supplierName: 'Supplier' // Default supplier name
@@ -317,7 +322,7 @@ export default function CartPage() {
                 <div className="space-y-3">
                   <div className="flex justify-between text-sm">
                     <span>Subtotal ({cartItems.reduce((sum, item) => sum + item.quantity, 0)} items)</span>
-                    <span>${cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0).toFixed(2)}</span>
+                    <span>{formatPrice(cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0))}</span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span>Shipping</span>
@@ -325,12 +330,12 @@ export default function CartPage() {
                   </div>
                   <div className="flex justify-between text-sm">
                     <span>Tax</span>
-                    <span>${(cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0) * 0.08).toFixed(2)}</span>
+                    <span>{formatPrice(cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0) * 0.08)}</span>
                   </div>
                   <div className="border-t border-gray-200 pt-3">
                     <div className="flex justify-between font-semibold text-lg">
                       <span>Total</span>
-                      <span>${(cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0) + (cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0) > 50 ? 0 : 5.99) + (cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0) * 0.08)).toFixed(2)}</span>
+                      <span>{formatPrice(cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0) + (cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0) > 50 ? 0 : 5.99) + (cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0) * 0.08))}</span>
                     </div>
                   </div>
                 </div>
@@ -376,7 +381,7 @@ export default function CartPage() {
                     ></div>
                   </div>
                   <p className="text-xs text-blue-700">
-                    Add ${(50 - cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0)).toFixed(2)} more to get free shipping!
+                    Add {formatPrice(50 - cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0))} more to get free shipping!
                   </p>
                 </div>
               )}
@@ -1,9 +1,15 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { Suspense, useState, useEffect, useMemo } from 'react'
 import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
 import { ArrowLeft, MessageCircle, Headphones, Video, Phone, Search, Shield, Clock, CheckCircle } from 'lucide-react'
 import ChatInterface from '@/components/chat/chat-interface'
+import { useToast } from '@/components/ui/toast'
+import { useAuth } from '@/hooks/useAuth'
+import { useChatPresence } from '@/hooks/useChatPresence'
+import { chatService } from '@/lib/services/chat.service'
+import { ChatMessage, ChatParticipant as RoomParticipant, ChatPresence, ChatRoom } from '@/types'
 
 interface Message {
   id: string
@@ -15,6 +21,7 @@ interface Message {
   type: 'text' | 'image' | 'file' | 'system'
   status: 'sent' | 'delivered' | 'read' | 'failed'
   isOwn: boolean
+  url?: string
 }
 
 interface ChatParticipant {
@@ -26,100 +33,100 @@ interface ChatParticipant {
 }
 
 export default function ChatPage() {
-  const [messages, setMessages] = useState<Message[]>([])
-  const [participants, setParticipants] = useState<ChatParticipant[]>([])
-  const [isLoading, setIsLoading] = useState(true)
+  return (
+    <Suspense fallback={null}>
+      <ChatRooms />
+    </Suspense>
+  )
+}
+
+function ChatRooms() {
+  const searchParams = useSearchParams()
+  const { user, loading: authLoading } = useAuth()
+  const { error: toastError } = useToast()
+  const [rooms, setRooms] = useState<ChatRoom[]>([])
+  const [selectedRoomId, setSelectedRoomId] = useState<string | null>(searchParams.get('room'))
+  const [roomMessages, setRoomMessages] = useState<ChatMessage[]>([])
+  const [presence, setPresence] = useState<Record<string, ChatPresence>>({})
+  const [roomsLoaded, setRoomsLoaded] = useState(false)
+
+  useChatPresence(user?.uid)
 
   useEffect(() => {
-    // Simulate loading chat data
-    setTimeout(() => {
-      setParticipants([
-        {
-          id: 'user1',
-          name: 'Enterprise Support Team',
-          status: 'online'
-        },
-        {
-          id: 'current-user',
-          name: 'You',
-          status: 'online'
-        }
-      ])
+    if (!user?.uid) return
+    return chatService.subscribeToRooms(user.uid, (userRooms) => {
+      setRooms(userRooms)
+      setRoomsLoaded(true)
+    })
+  }, [user?.uid])
 
-      setMessages([
-        {
-          id: '1',
-          senderId: 'user1',
-          senderName: 'Enterprise Support Team',
-          content: 'Welcome to NubiaGo Enterprise Support! How can we assist you today?',
-          timestamp: new Date('2024-01-20T10:00:00'),
-          type: 'text',
-          status: 'read',
-          isOwn: false
-        },
-        {
-          id: '2',
-          senderId: 'current-user',
-          senderName: 'You',
-          content: 'Hello! I have a question about your enterprise features.',
-          timestamp: new Date('2024-01-20T10:01:00'),
-          type: 'text',
-          status: 'read',
-          isOwn: true
-        },
-        {
-          id: '3',
-          senderId: 'user1',
-          senderName: 'Enterprise Support Team',
-          content: 'I\'d be happy to help! What specific enterprise features are you interested in?',
-          timestamp: new Date('2024-01-20T10:02:00'),
-          type: 'text',
-          status: 'read',
-          isOwn: false
-        },
-        {
-          id: '4',
-          senderId: 'current-user',
-          senderName: 'You',
-          content: 'I\'m looking for information about bulk ordering and corporate accounts.',
-          timestamp: new Date('2024-01-20T10:03:00'),
-          type: 'text',
-          status: 'read',
-          isOwn: true
-        }
-      ])
-      setIsLoading(false)
-    }, 1000)
-  }, [])
+  const currentRoom = rooms.find(room => room.id === selectedRoomId) || rooms[0] || null
+  const currentRoomId = currentRoom?.id
+  const participantKey = currentRoom?.participantIds.join(',') || ''
 
-  const handleSendMessage = (content: string, type: 'text' | 'image' | 'file' = 'text') => {
-    const newMessage: Message = {
-      id: Date.now().toString(),
-      senderId: 'current-user',
-      senderName: 'You',
-      content,
-      timestamp: new Date(),
-      type,
-      status: 'sent',
-      isOwn: true
+  useEffect(() => {
+    if (!currentRoomId) return
+    return chatService.subscribeToMessages(currentRoomId, setRoomMessages, user?.uid)
+  }, [currentRoomId, user?.uid])
+
+  useEffect(() => {
+    if (!participantKey) return
+    return chatService.subscribeToPresence(participantKey.split(','), setPresence)
+  }, [participantKey])
+
+  // Opening a room, or receiving a message while it is open, marks it as read
+  const unreadInCurrentRoom = currentRoom && user ? currentRoom.unreadCounts[user.uid] || 0 : 0
+  useEffect(() => {
+    if (!currentRoomId || !user?.uid || unreadInCurrentRoom === 0) return
+    chatService.markRoomAsRead(currentRoomId, user.uid).catch(() => undefined)
+  }, [currentRoomId, user?.uid, unreadInCurrentRoom])
+
+  const sender: RoomParticipant | null = user
+    ? { id: user.uid, name: user.name || user.displayName || user.email, role: user.role }
+    : null
+
+  const messages: Message[] = useMemo(() => roomMessages.map(message => {
+    const attachment = message.attachments[0]
+    const readBy = currentRoom ? chatService.getReadBy(currentRoom, message) : []
+    return {
+      id: message.id,
+      senderId: message.senderId,
+      senderName: message.senderName,
+      content: message.status === 'removed'
+        ? 'This message was removed'
+        : message.messageType === 'image' && attachment ? attachment.url : message.content || attachment?.name || '',
+      timestamp: message.createdAt,
+      type: message.status === 'removed' ? 'system' : message.messageType,
+      // Messages held by moderation never reached the other participants
+      status: message.status === 'hidden' ? 'failed' : readBy.length > 0 ? 'read' : 'sent',
+      isOwn: message.senderId === user?.uid,
+      url: message.messageType === 'file' ? attachment?.url : undefined
     }
+  }), [roomMessages, currentRoom, user?.uid])
 
-    setMessages(prev => [...prev, newMessage])
+  const participants: ChatParticipant[] = (currentRoom?.participants || []).map(participant => ({
+    id: participant.id,
+    name: participant.name,
+    status: participant.id === user?.uid || presence[participant.id]?.isOnline ? 'online' : 'offline',
+    lastSeen: presence[participant.id]?.lastSeenAt
+  }))
 
-    // Simulate response after 2 seconds
-    setTimeout(() => {
-      const response: Message = {
-        id: (Date.now() + 1).toString(),
-        senderId: 'user1',
-        senderName: 'Enterprise Support Team',
-        content: 'Perfect! I can provide you with detailed information about our enterprise solutions. Let me connect you with our enterprise specialist.',
-        timestamp: new Date(),
-        type: 'text',
-        status: 'read',
-        isOwn: false
-      }
-      setMessages(prev => [...prev, response])
-    }, 2000)
+  const handleSendMessage = async (content: string) => {
+    if (!currentRoom || !sender) return
+    try {
+      await chatService.sendMessage(currentRoom.id, sender, { content })
+    } catch (err) {
+      toastError('Message not sent', err instanceof Error ? err.message : undefined)
+    }
+  }
+
+  const handleSendFile = async (file: File) => {
+    if (!currentRoom || !sender) return
+    try {
+      await chatService.sendMessage(currentRoom.id, sender, { content: '', files: [file] })
+    } catch (err) {
+      toastError('Upload failed', err instanceof Error ? err.message : undefined)
+    }
   }
 
   const handleTyping = (isTyping: boolean) => {
@@ -137,6 +144,8 @@ export default function ChatPage() {
     // Handle message search
   }
 
+  const isLoading = authLoading || (!!user && !roomsLoaded)
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-50 flex items-center justify-center">
@@ -224,11 +233,27 @@ export default function ChatPage() {
                   <MessageCircle className="h-6 w-6 text-white" />
                 </div>
                 <div>
-                  <h2 className="text-xl font-bold text-gray-900">Enterprise Support</h2>
-                  <div className="flex items-center space-x-2">
-                    <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                    <span className="text-sm text-gray-600">Online • Responds in 2 minutes</span>
-                  </div>
+                  <h2 className="text-xl font-bold text-gray-900">{currentRoom?.name || 'Messages'}</h2>
+                  {rooms.length > 1 ? (
+                    <select
+                      value={currentRoom?.id}
+                      onChange={(e) => setSelectedRoomId(e.target.value)}
+                      className="mt-1 text-sm text-gray-600 bg-transparent border border-gray-200 rounded-lg px-2 py-1"
+                    >
+                      {rooms.map(room => (
+                        <option key={room.id} value={room.id}>
+                          {room.name}{user && room.unreadCounts[user.uid] ? ` (${room.unreadCounts[user.uid]})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                      <span className="text-sm text-gray-600">
+                        {participants.filter(participant => participant.status === 'online').length} online
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
               
@@ -247,15 +272,31 @@ export default function ChatPage() {
           </div>
           
           <div className="h-[600px]">
-            <ChatInterface
-              messages={messages}
-              participants={participants}
-              currentUserId="current-user"
-              onSendMessage={handleSendMessage}
-              onTyping={handleTyping}
-              onCall={handleCall}
-              onSearch={handleSearch}
-            />
+            {!user ? (
+              <div className="h-full flex flex-col items-center justify-center text-gray-500">
+                <MessageCircle className="h-12 w-12 mb-4 opacity-50" />
+                <p className="mb-4">Sign in to message sellers and support.</p>
+                <Link href="/login" className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700">
+                  Sign In
+                </Link>
+              </div>
+            ) : !currentRoom ? (
+              <div className="h-full flex flex-col items-center justify-center text-gray-500">
+                <MessageCircle className="h-12 w-12 mb-4 opacity-50" />
+                <p>No conversations yet. A conversation with the seller opens when you place an order.</p>
+              </div>
+            ) : (
+              <ChatInterface
+                messages={messages}
+                participants={participants}
+                currentUserId={user.uid}
+                onSendMessage={handleSendMessage}
+                onSendFile={handleSendFile}
+                onTyping={handleTyping}
+                onCall={handleCall}
+                onSearch={handleSearch}
+              />
+            )}
           </div>
         </div>
 
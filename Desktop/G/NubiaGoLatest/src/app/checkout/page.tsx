@@ -4,18 +4,24 @@ import { useState, useEffect } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { 
   CreditCard, MapPin, Phone, Mail, User, Lock, 
-  ArrowLeft, CheckCircle, Package, Truck, Shield, Clock, Loader2, AlertCircle
+  ArrowLeft, CheckCircle, Package, Truck, Shield, Clock, Loader2, AlertCircle, Tag, X
 } from 'lucide-react'
 import Link from 'next/link'
 import { CartService } from '@/lib/services/cart.service'
 import { OrderService } from '@/lib/services/order.service'
 import { useAuth } from '@/hooks/useAuth'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import { useCurrency } from '@/hooks/useCurrency'
 import { PaymentForm } from '@/components/payment/payment-form'
 import { PaymentStatus } from '@/components/payment/payment-status'
 import { usePaymentStore } from '@/store/payment'
 import { useLogistics } from '@/hooks/useLogistics'
-import { ShippingAddress, ShippingPackage } from '@/lib/services/logistics.service'
+import type { ShippingAddress } from '@/lib/services/logistics.service'
+import { RATE_OPTION_LABELS, ShippingQuote } from '@/lib/services/shipping/rate-shopping'
 import { toast } from '@/lib/utils'
+import { toOrderCurrency } from '@/lib/currency'
+import { Order, PromotionEvaluation } from '@/types'
+import { ConflictError } from '@/lib/errors'
 
 interface CheckoutForm {
   firstName: string
@@ -36,14 +42,20 @@ export default function CheckoutPage() {
   const searchParams = useSearchParams()
   const { user } = useAuth()
   const { paymentUrl, status, clearPayment } = usePaymentStore()
-  const { rates, loading: ratesLoading, error: ratesError, getRates, clearRates } = useLogistics()
+  const { rates, quoteId, loading: ratesLoading, error: ratesError, getRates, clearRates } = useLogistics()
+  const { fetchWithCSRF } = useCSRFFetch()
+  const { currency, formatPrice } = useCurrency()
   const cartService = new CartService()
   const orderService = new OrderService()
   
   const [cartItems, setCartItems] = useState<any[]>([])
   const [cartTotal, setCartTotal] = useState(0)
   const [loading, setLoading] = useState(false)
-  const [selectedRate, setSelectedRate] = useState<any>(null)
+  const [selectedRate, setSelectedRate] = useState<ShippingQuote | null>(null)
+  const [promoInput, setPromoInput] = useState('')
+  const [promoCodes, setPromoCodes] = useState<string[]>([])
+  const [promotionQuote, setPromotionQuote] = useState<PromotionEvaluation | null>(null)
+  const [applyingPromo, setApplyingPromo] = useState(false)
   
   // Fixed: Using user.name instead of user.displayName to match User interface
   const [formData, setFormData] = useState<CheckoutForm>({
@@ -61,6 +73,8 @@ export default function CheckoutPage() {
   })
   const [step, setStep] = useState(1)
   const [orderId, setOrderId] = useState<string | null>(null)
+  // Currency and rate the order was locked to when it was placed
+  const [orderCurrency, setOrderCurrency] = useState<Pick<Order, 'currency' | 'exchangeRate'>>({})
   const [paymentId, setPaymentId] = useState<string | null>(null)
   const [formErrors, setFormErrors] = useState<{[key: string]: string}>({})
 
@@ -73,6 +87,7 @@ export default function CheckoutPage() {
         const cart = await cartService.getCart(user.uid)
         setCartItems(cart.items)
         setCartTotal(cart.total)
+        setPromoCodes(cart.promotionCodes || [])
       } catch (error) {
         console.error('Error loading cart:', error)
       }
@@ -81,6 +96,34 @@ export default function CheckoutPage() {
     loadCart()
   }, [user?.uid])
 
+  // Discounts are always computed by the server; this quote is for display
+  useEffect(() => {
+    if (!user?.uid || cartItems.length === 0) {
+      setPromotionQuote(null)
+      return
+    }
+
+    let cancelled = false
+    const loadQuote = async () => {
+      try {
+        const response = await fetchWithCSRF('/api/checkout/promotions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ codes: promoCodes, shippingCost: selectedRate ? selectedRate.rate : 0 })
+        })
+        const result = await response.json()
+        if (!cancelled && result.success) {
+          setPromotionQuote(result.data)
+        }
+      } catch (error) {
+        console.error('Error loading promotions:', error)
+      }
+    }
+
+    loadQuote()
+    return () => { cancelled = true }
+  }, [user?.uid, cartItems, promoCodes, selectedRate, fetchWithCSRF])
+
   // Check for existing order from URL params
   useEffect(() => {
     const orderIdParam = searchParams.get('orderId')
@@ -100,7 +143,7 @@ export default function CheckoutPage() {
   // Calculate shipping rates when address changes
   useEffect(() => {
     const calculateShippingRates = async () => {
-      if (!formData.address.street || !formData.address.city || !formData.address.state || !formData.address.zipCode || !formData.address.country) {
+      if (cartItems.length === 0 || !formData.address.street || !formData.address.city || !formData.address.state || !formData.address.zipCode || !formData.address.country) {
         return
       }
 
@@ -131,18 +174,11 @@ export default function CheckoutPage() {
         email: formData.email
       }
 
-      // Create package from cart items
-      const packages: ShippingPackage[] = [{
-        weight: Math.max(1, cartItems.reduce((total, item) => total + (item.quantity || 1), 0)),
-        length: 10,
-        width: 8,
-        height: 6,
-        weightUnit: 'lb',
-        dimensionUnit: 'in'
-      }]
+      // Cart items are packed into the suppliers' boxes for the quote
+      const items = cartItems.map(item => ({ productId: item.productId, quantity: item.quantity || 1 }))
 
       try {
-        await getRates(fromAddress, toAddress, packages)
+        await getRates(fromAddress, toAddress, { items }, cartTotal)
       } catch (error) {
         console.error('Failed to calculate shipping rates:', error)
       }
@@ -151,7 +187,12 @@ export default function CheckoutPage() {
     // Debounce the calculation
     const timeoutId = setTimeout(calculateShippingRates, 1000)
     return () => clearTimeout(timeoutId)
-  }, [formData.address, cartItems, getRates])
+  }, [formData.address, cartItems, cartTotal, getRates])
+
+  // New quotes re-price the option already picked, or drop it if no longer offered
+  useEffect(() => {
+    setSelectedRate(current => current ? rates.find(rate => rate.id === current.id) || null : null)
+  }, [rates])
 
   const handleInputChange = (field: string, value: string) => {
     // Clear error when user starts typing
@@ -210,6 +251,77 @@ export default function CheckoutPage() {
     }
   }
 
+  const handleApplyPromo = async () => {
+    if (!user?.uid || !promoInput.trim()) return
+
+    try {
+      setApplyingPromo(true)
+      const cart = await cartService.applyDiscount(user.uid, promoInput)
+      setPromoCodes(cart.promotionCodes || [])
+      setPromoInput('')
+    } catch (error) {
+      toast.error('Invalid promotion code')
+    } finally {
+      setApplyingPromo(false)
+    }
+  }
+
+  const handleRemovePromo = async (code: string) => {
+    if (!user?.uid) return
+
+    try {
+      const cart = await cartService.removeDiscount(user.uid, code)
+      setPromoCodes(cart.promotionCodes || [])
+    } catch (error) {
+      toast.error('Failed to remove promotion code')
+    }
+  }
+
+  // Record the promotions against the new order; the server recomputes the discount
+  // Tie the order to the quoted option so shipping margins can be audited. The order
+  // already exists by now, so a failure here is only logged.
+  const recordShippingSelection = async (newOrderId: string) => {
+    if (!quoteId || !selectedRate) return
+
+    try {
+      const response = await fetchWithCSRF('/api/shipping/rates/selection', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quoteId, rateId: selectedRate.id, orderId: newOrderId })
+      })
+      if (!response.ok) {
+        const result = await response.json()
+        console.error('Shipping selection was not recorded:', result.error)
+      }
+    } catch (error) {
+      console.error('Error recording shipping selection:', error)
+    }
+  }
+
+  const redeemPromotions = async (newOrderId: string) => {
+    if (promoCodes.length === 0 && !promotionQuote?.appliedPromotions.length) return
+
+    try {
+      const response = await fetchWithCSRF('/api/checkout/promotions/redeem', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId: newOrderId, codes: promoCodes })
+      })
+      const result = await response.json()
+      if (!result.success) {
+        toast.error(result.error || 'Promotions could not be applied to your order')
+        return
+      }
+
+      setPromotionQuote(result.data.evaluation)
+      const rejected: Array<{ code: string; reason: string }> = result.data.evaluation?.rejectedCodes || []
+      rejected.forEach(({ code, reason }) => toast.error(`${code}: ${reason}`))
+    } catch (error) {
+      console.error('Error redeeming promotions:', error)
+      toast.error('Promotions could not be applied to your order')
+    }
+  }
+
   const createOrder = async () => {
     try {
       setLoading(true)
@@ -217,8 +329,9 @@ export default function CheckoutPage() {
       const orderData = {
         userId: user?.uid || '',
         items: cartItems.map(item => ({
-          id: `${item.productId}-${Date.now()}`,
+          id: `${item.id}-${Date.now()}`,
           productId: item.productId,
+          ...(item.variant ? { variantId: item.variantId, variant: item.variant } : {}),
           quantity: item.quantity,
           price: item.price,
           total: item.price * item.quantity,
@@ -257,10 +370,12 @@ export default function CheckoutPage() {
         tax: cartTotal * 0.08,
         total: cartTotal + (selectedRate ? selectedRate.rate : 0) + (cartTotal * 0.08),
         status: 'pending',
-        paymentStatus: 'pending'
+        paymentStatus: 'pending',
+        currency
       }
       
       const newOrder = await orderService.createOrder(orderData)
+      setOrderCurrency({ currency: newOrder.currency, exchangeRate: newOrder.exchangeRate })
       return newOrder.id
     } catch (error) {
       console.error('Error creating order:', error)
@@ -283,18 +398,22 @@ export default function CheckoutPage() {
     
     try {
       const newOrderId = await createOrder()
+      await recordShippingSelection(newOrderId)
+      await redeemPromotions(newOrderId)
       setOrderId(newOrderId)
       setStep(2)
     } catch (error) {
       console.error('Error creating order:', error)
-      toast.error('Failed to create order. Please try again.')
+      toast.error(error instanceof ConflictError ? error.message : 'Failed to create order. Please try again.')
     }
   }
 
   const subtotal = cartTotal
   const shipping = selectedRate ? selectedRate.rate : 0
   const tax = subtotal * 0.08
-  const total = subtotal + shipping + tax
+  const promotionDiscount = promotionQuote ? promotionQuote.discountTotal + promotionQuote.shippingDiscount : 0
+  const total = Math.max(0, subtotal + shipping + tax - promotionDiscount)
+  const payment = toOrderCurrency(total, orderCurrency)
 
   // If we have a payment ID, show payment status
   if (paymentId) {
@@ -579,14 +698,26 @@ export default function CheckoutPage() {
                               )}
                             </div>
                             <div>
-                              <h3 className="font-medium text-gray-900">{rate.serviceName}</h3>
+                              <div className="flex items-center space-x-2">
+                                <h3 className="font-medium text-gray-900">{rate.serviceName}</h3>
+                                {rate.labels.map(label => (
+                                  <span
+                                    key={label}
+                                    className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800"
+                                  >
+                                    {RATE_OPTION_LABELS[label]}
+                                  </span>
+                                ))}
+                              </div>
                               <p className="text-sm text-gray-500">
-                                {rate.carrier} • {rate.estimatedDays} days
+                                {rate.carrier} • {rate.estimatedDays}
                               </p>
                             </div>
                           </div>
                           <div className="text-right">
-                            <p className="font-semibold text-gray-900">${rate.rate.toFixed(2)}</p>
+                            <p className="font-semibold text-gray-900">
+                              {rate.freeShipping ? 'Free' : formatPrice(rate.rate)}
+                            </p>
                           </div>
                         </div>
                       </div>
@@ -609,8 +740,8 @@ export default function CheckoutPage() {
                 
                 {orderId ? (
                   <PaymentForm
-                    amount={total}
-                    currency="NGN"
+                    amount={payment.amount}
+                    currency={payment.currency}
                     orderId={orderId}
                     onSuccess={handlePaymentSuccess}
                     onError={handlePaymentError}
@@ -657,36 +788,76 @@ export default function CheckoutPage() {
                     </div>
                     <div className="flex-1">
                       <p className="font-medium text-gray-900">{item.product.name}</p>
+                      {item.variant && <p className="text-sm text-gray-600">{item.variant.name}</p>}
                       <p className="text-sm text-gray-500">Qty: {item.quantity}</p>
                     </div>
-                    <p className="font-semibold text-gray-900">${(item.price * item.quantity).toFixed(2)}</p>
+                    <p className="font-semibold text-gray-900">{formatPrice(item.price * item.quantity)}</p>
                   </div>
                 ))}
                 
+                <div className="border-t border-gray-200 pt-4 space-y-2">
+                  <div className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={promoInput}
+                      onChange={(e) => setPromoInput(e.target.value)}
+                      placeholder="Promotion code"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <button
+                      onClick={handleApplyPromo}
+                      disabled={applyingPromo || !promoInput.trim()}
+                      className="px-4 py-2 bg-gray-900 text-white text-sm rounded-lg hover:bg-gray-800 disabled:opacity-50"
+                    >
+                      {applyingPromo ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Apply'}
+                    </button>
+                  </div>
+                  {promoCodes.map(code => {
+                    const rejection = promotionQuote?.rejectedCodes.find(rejected => rejected.code === code)
+                    return (
+                      <div key={code} className="flex items-center justify-between text-sm">
+                        <span className={`inline-flex items-center ${rejection ? 'text-red-600' : 'text-green-700'}`}>
+                          <Tag className="h-4 w-4 mr-1" />
+                          {code}{rejection && ` – ${rejection.reason}`}
+                        </span>
+                        <button onClick={() => handleRemovePromo(code)} className="text-gray-400 hover:text-gray-600">
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )
+                  })}
+                </div>
+
                 <div className="border-t border-gray-200 pt-4 space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Subtotal</span>
-                    <span className="font-medium">${subtotal.toFixed(2)}</span>
+                    <span className="font-medium">{formatPrice(subtotal)}</span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">
                       Shipping {selectedRate && `(${selectedRate.serviceName})`}
                     </span>
-                    <span className="font-medium">${shipping.toFixed(2)}</span>
+                    <span className="font-medium">{formatPrice(shipping)}</span>
                   </div>
                   {selectedRate && (
                     <div className="text-xs text-gray-500 pl-4">
-                      {selectedRate.carrier} • {selectedRate.estimatedDays} days
+                      {selectedRate.carrier} • {selectedRate.estimatedDays}
                     </div>
                   )}
+                  {promotionQuote?.appliedPromotions.map(promotion => (
+                    <div key={promotion.promotionId} className="flex justify-between text-sm text-green-700">
+                      <span>{promotion.name}</span>
+                      <span className="font-medium">-{formatPrice(promotion.discountAmount + promotion.shippingDiscount)}</span>
+                    </div>
+                  ))}
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Tax</span>
-                    <span className="font-medium">${tax.toFixed(2)}</span>
+                    <span className="font-medium">{formatPrice(tax)}</span>
                   </div>
                   <div className="border-t border-gray-200 pt-2">
                     <div className="flex justify-between">
                       <span className="text-lg font-semibold text-gray-900">Total</span>
-                      <span className="text-lg font-semibold text-gray-900">${total.toFixed(2)}</span>
+                      <span className="text-lg font-semibold text-gray-900">{formatPrice(total)}</span>
                     </div>
                   </div>
                 </div>
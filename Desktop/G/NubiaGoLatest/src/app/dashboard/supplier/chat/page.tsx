@@ -4,6 +4,8 @@ import React, { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { useFirebaseAuth } from '@/hooks/useFirebaseAuth'
 import { useChatStore } from '@/store/chat'
+import { chatService } from '@/lib/services/chat.service'
+import { ChatRoom } from '@/types'
 import ChatWidget from '@/components/chat/chat-widget'
 import MessageNotifications from '@/components/chat/message-notifications'
 import AdminModeration from '@/components/chat/admin-moderation'
@@ -49,12 +51,12 @@ interface RecentChannel {
 const SupplierChatDashboard: React.FC = () => {
   const { user } = useFirebaseAuth()
   const {
-    rooms,
     notifications,
     isLoading,
     setLoading,
     addNotification
   } = useChatStore()
+  const [rooms, setRooms] = useState<ChatRoom[]>([])
 
   const [activeTab, setActiveTab] = useState<'overview' | 'channels' | 'moderation' | 'notifications'>('overview')
   const [selectedChannel, setSelectedChannel] = useState<string | null>(null)
@@ -93,29 +95,20 @@ const SupplierChatDashboard: React.FC = () => {
 
     setLoading(true)
     try {
-      const response = await fetch('/api/chat/sendbird', {
-        headers: {
-          'Authorization': `Bearer ${user.uid}`
-        }
-      })
-
-      if (response.ok) {
-        const result = await response.json()
-        // Mock channels data since we don't have the actual API
-        const mockChannels = []
-        
-        // Create recent channels list
-        const recent = result.data.channels?.slice(0, 5).map((channel: any) => ({
-          channelUrl: channel.channelUrl,
-          name: channel.name,
-          lastMessage: channel.lastMessage?.message || 'No messages yet',
-          lastMessageTime: channel.lastMessage?.createdAt || channel.updatedAt,
-          unreadCount: 0, // This would come from Sendbird
-          participants: channel.participants?.length || 0
-        })) || []
-        
-        setRecentChannels(recent)
-      }
+      const userRooms = await chatService.getUserRooms(user.uid)
+      setRooms(userRooms)
+
+      // Create recent channels list
+      const recent = userRooms.slice(0, 5).map(room => ({
+        channelUrl: room.id,
+        name: room.name,
+        lastMessage: room.lastMessage?.content || 'No messages yet',
+        lastMessageTime: (room.lastMessage?.createdAt || room.updatedAt).toISOString(),
+        unreadCount: room.unreadCounts[user.uid] || 0,
+        participants: room.participants.length
+      }))
+      
+      setRecentChannels(recent)
     } catch (error) {
       console.error('Failed to load channels:', error)
     } finally {
@@ -130,7 +123,7 @@ const SupplierChatDashboard: React.FC = () => {
       // In a real implementation, these would come from API calls
       const mockStats: ChatStats = {
         totalChannels: rooms.length,
-        unreadMessages: notifications.filter(n => !n.isRead).length,
+        unreadMessages: rooms.reduce((sum, room) => sum + (room.unreadCounts[user.uid] || 0), 0),
         activeConversations: rooms.filter(r => r.lastMessage).length,
         pendingModeration: 0 // Mock value
       }
@@ -144,7 +137,7 @@ const SupplierChatDashboard: React.FC = () => {
   const updateStats = () => {
     setStats({
       totalChannels: rooms.length,
-      unreadMessages: notifications.filter(n => !n.isRead).length,
+      unreadMessages: user ? rooms.reduce((sum, room) => sum + (room.unreadCounts[user.uid] || 0), 0) : 0,
       activeConversations: rooms.filter(r => r.lastMessage).length,
       pendingModeration: 0 // Mock value
     })
@@ -159,34 +152,6 @@ const SupplierChatDashboard: React.FC = () => {
     setIsChatOpen(true)
   }
 
-  const handleCreateOrderChannel = async (orderId: string, customerId: string) => {
-    if (!user) return
-
-    try {
-      const response = await fetch('/api/chat/sendbird/order-channel', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${user.uid}`
-        },
-        body: JSON.stringify({
-          orderId,
-          customerId,
-          supplierId: user.uid
-        })
-      })
-
-      if (response.ok) {
-        const result = await response.json()
-        // Add new channel to store
-        // This would be handled by the store
-        loadChannels() // Reload channels
-      }
-    } catch (error) {
-      console.error('Failed to create order channel:', error)
-    }
-  }
-
   const handleNotificationClick = (notification: any) => {
     if (notification.channelUrl) {
       setSelectedChannel(notification.channelUrl)
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation'
 import { ArrowLeft } from 'lucide-react'
 import AdminProductForm from '@/components/product/forms/admin/AdminProductForm'
 import { useToast } from '@/components/ui/toast'
+import { ProductVariant, VariantOptionAxis } from '@/types/product'
 
 interface AdminProductData {
   name: string
@@ -33,13 +34,8 @@ interface AdminProductData {
   shippingWeight?: number
   isDigital: boolean
   downloadUrl?: string
-  variants?: Array<{
-    id: string
-    name: string
-    sku: string
-    price: number
-    stock: number
-  }>
+  variantOptions?: VariantOptionAxis[]
+  variants?: ProductVariant[]
 }
 
 export default function AdminCreateProductPage() {
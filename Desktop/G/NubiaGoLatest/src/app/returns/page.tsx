@@ -8,19 +8,19 @@ export default function ReturnsPage() {
     {
       step: 1,
       title: 'Initiate Return',
-      description: 'Go to your order history and select the item you want to return',
+      description: 'Open the delivered order in your account and choose Return item next to the product',
       icon: Package
     },
     {
       step: 2,
-      title: 'Select Reason',
-      description: 'Choose the reason for your return from our predefined options',
+      title: 'Describe the Problem',
+      description: 'Pick a reason, add photos and choose a refund, exchange or store credit',
       icon: CheckCircle
     },
     {
       step: 3,
       title: 'Print Label',
-      description: 'Download and print the return shipping label provided',
+      description: 'Once the seller approves your return, download the prepaid label from your order',
       icon: Package
     },
     {
@@ -31,8 +31,8 @@ export default function ReturnsPage() {
     },
     {
       step: 5,
-      title: 'Track Refund',
-      description: 'Monitor your return status and expect refund within 5-7 business days',
+      title: 'Get Your Resolution',
+      description: 'Your refund, replacement or store credit is issued as soon as the seller receives the item',
       icon: Clock
     }
   ]
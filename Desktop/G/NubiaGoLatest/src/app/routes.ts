@@ -78,6 +78,11 @@ export const ROUTES = {
   SHIPPING: '/shipping',
   RETURNS: '/returns',
   
+  // Customer Dashboard Routes
+  CUSTOMER: {
+    DASHBOARD: '/customer',
+  },
+  
   // Supplier Routes
   SUPPLIER: {
     DASHBOARD: '/supplier',
@@ -85,7 +90,9 @@ export const ROUTES = {
     BULK_UPLOAD: '/supplier/products/bulk-upload',
     CREATE: '/supplier/products/create',
     SHIPPING: '/supplier/shipping',
+    RETURNS: '/supplier/returns',
     CHAT: '/supplier/chat',
+    SETTINGS: '/supplier/settings',
     PENDING_APPROVAL: '/supplier/pending-approval',
     BECOME_SUPPLIER: '/become-supplier',
   },
@@ -98,8 +105,11 @@ export const ROUTES = {
     USER_EDIT: (id: string) => `/admin/users/${id}/edit`,
     PRODUCTS: '/admin/products',
     ORDERS: '/admin/orders',
+    PAYOUTS: '/admin/payouts',
     SUPPLIERS: '/admin/suppliers',
     APPROVALS: '/admin/approvals',
+    SUPPORT: '/admin/support',
+    MODERATION: '/admin/moderation',
     APIS: '/admin/apis',
     IMAGES: '/admin/images',
     MONITORING: '/admin/monitoring',
@@ -111,8 +121,25 @@ export const ROUTES = {
     PRODUCTS: '/api/products',
     PRODUCT_DETAIL: (id: string) => `/api/products/${id}`,
     CATEGORIES: '/api/categories',
+    CURRENCY_RATES: '/api/currency/rates',
+    CURRENCY_RATES_IMPORT: '/api/currency/rates/import',
+    AUTH_SESSION: '/api/auth/session',
+    TWO_FACTOR: '/api/auth/two-factor',
+    TWO_FACTOR_ENROLL: '/api/auth/two-factor/enroll',
+    TWO_FACTOR_VERIFY: '/api/auth/two-factor/verify',
+    TWO_FACTOR_RECOVERY_CODES: '/api/auth/two-factor/recovery-codes',
+    TWO_FACTOR_POLICY: '/api/auth/two-factor/policy',
     SHIPPING_RATES: '/api/shipping/rates',
+    SHIPPING_RATE_SELECTION: '/api/shipping/rates/selection',
+    SHIPPING_RATE_RULES: '/api/shipping/rate-rules',
+    SHIPPING_BOXES: '/api/shipping/boxes',
     SHIPPING_TRACKING: '/api/shipping/tracking',
+    SHIPPING_LABELS: '/api/shipping/labels',
+    SHIPPING_LABELS_BATCH: '/api/shipping/labels/batch',
+    SHIPPING_SHIPMENTS: '/api/shipping/shipments',
+    SHIPPING_WEBHOOKS: '/api/shipping/webhooks',
+    SUB_ORDER_STATUS: (id: string) => `/api/sub-orders/${id}/status`,
+    PAYOUT_CHARGEBACKS: '/api/payouts/chargebacks',
     MOBILE_MONEY: {
       INITIATE: '/api/mobile-money/initiate',
       OPERATORS: (country: string) => `/api/mobile-money/operators/${country}`,
@@ -177,6 +204,7 @@ export const ROUTE_GROUPS = {
     ROUTES.SUPPLIER.BULK_UPLOAD,
     ROUTES.SUPPLIER.CREATE,
     ROUTES.SUPPLIER.SHIPPING,
+    ROUTES.SUPPLIER.RETURNS,
     ROUTES.SUPPLIER.CHAT,
   ],
   
@@ -185,15 +213,46 @@ export const ROUTE_GROUPS = {
     ROUTES.ADMIN.USERS,
     ROUTES.ADMIN.PRODUCTS,
     ROUTES.ADMIN.ORDERS,
+    ROUTES.ADMIN.PAYOUTS,
     ROUTES.ADMIN.SUPPLIERS,
     ROUTES.ADMIN.APPROVALS,
+    ROUTES.ADMIN.SUPPORT,
+    ROUTES.ADMIN.MODERATION,
     ROUTES.ADMIN.APIS,
     ROUTES.ADMIN.IMAGES,
     ROUTES.ADMIN.MONITORING,
     ROUTES.ADMIN.SETTINGS,
   ],
+  
+  // Open to suppliers still awaiting approval
+  SUPPLIER_ONBOARDING: [
+    ROUTES.SUPPLIER.PENDING_APPROVAL,
+    ROUTES.SUPPLIER.SETTINGS,
+  ],
 } as const
 
+export type RouteRole = 'customer' | 'supplier' | 'admin'
+
+export interface RouteAccessRule {
+  // Applies to this path and everything below it
+  path: string
+  roles: RouteRole[]
+  // Suppliers pending approval may open it
+  onboarding?: boolean
+}
+
+// Who may open each dashboard, enforced server-side by src/middleware.ts. The first
+// matching rule wins, so more specific paths come first.
+export const ROUTE_ACCESS: RouteAccessRule[] = [
+  ...ROUTE_GROUPS.SUPPLIER_ONBOARDING.map(path => ({ path, roles: ['supplier'] as RouteRole[], onboarding: true })),
+  { path: ROUTES.ADMIN.DASHBOARD, roles: ['admin'] },
+  { path: ROUTES.SUPPLIER.DASHBOARD, roles: ['supplier'] },
+  { path: ROUTES.CUSTOMER.DASHBOARD, roles: ['customer'] },
+]
+
+export const findRouteAccess = (pathname: string): RouteAccessRule | undefined =>
+  ROUTE_ACCESS.find(rule => pathname === rule.path || pathname.startsWith(`${rule.path}/`))
+
 // Navigation structure for consistent UI
 export const NAVIGATION = {
   MAIN: [
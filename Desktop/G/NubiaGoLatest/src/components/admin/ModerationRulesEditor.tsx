@@ -0,0 +1,179 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, RotateCcw, Save } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import { DEFAULT_MODERATION_RULES, MODERATION_REASON_LABELS } from '@/lib/services/moderation/content-moderation'
+import { ModerationAction, ModerationReasonCode, ModerationRules } from '@/types'
+
+type RuleListKey = 'profanity' | 'offPlatformPaymentTerms' | 'allowedLinkDomains' | 'allowedImageTypes'
+
+const RULE_LISTS: Array<{ key: RuleListKey; label: string; help: string }> = [
+  { key: 'profanity', label: 'Profanity', help: 'Words and phrases, one per line. Common letter swaps like sh1t are matched too.' },
+  { key: 'offPlatformPaymentTerms', label: 'Off-platform payment terms', help: 'Apps, services and phrases used to take a deal off the marketplace.' },
+  { key: 'allowedLinkDomains', label: 'Allowed link domains', help: 'Links to these domains never count towards the link limit.' },
+  { key: 'allowedImageTypes', label: 'Allowed image types', help: 'MIME types, e.g. image/png. Uploaded images must also match their declared type.' }
+]
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  allow: 'Allow',
+  queue: 'Publish and queue for review',
+  hide: 'Hide until approved'
+}
+
+export default function ModerationRulesEditor() {
+  const { success, error } = useToast()
+  const { fetchWithCSRF } = useCSRFFetch()
+  const [rules, setRules] = useState<ModerationRules | null>(null)
+  const [lists, setLists] = useState<Record<RuleListKey, string>>({
+    profanity: '',
+    offPlatformPaymentTerms: '',
+    allowedLinkDomains: '',
+    allowedImageTypes: ''
+  })
+  const [saving, setSaving] = useState(false)
+
+  const applyRules = (next: ModerationRules) => {
+    setRules(next)
+    setLists({
+      profanity: next.profanity.join('\n'),
+      offPlatformPaymentTerms: next.offPlatformPaymentTerms.join('\n'),
+      allowedLinkDomains: next.allowedLinkDomains.join('\n'),
+      allowedImageTypes: next.allowedImageTypes.join('\n')
+    })
+  }
+
+  const loadRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/moderation/rules')
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+      applyRules(result.data.rules)
+    } catch (err) {
+      error('Load failed', 'Failed to load moderation rules')
+    }
+  }, [error])
+
+  useEffect(() => {
+    loadRules()
+  }, [loadRules])
+
+  const handleSave = async () => {
+    if (!rules) return
+    setSaving(true)
+    try {
+      const toList = (value: string) => value.split('\n').map(term => term.trim()).filter(Boolean)
+      const response = await fetchWithCSRF('/api/moderation/rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          profanity: toList(lists.profanity),
+          offPlatformPaymentTerms: toList(lists.offPlatformPaymentTerms),
+          allowedLinkDomains: toList(lists.allowedLinkDomains),
+          allowedImageTypes: toList(lists.allowedImageTypes),
+          maxLinks: rules.maxLinks,
+          actions: rules.actions
+        })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        const details = result.fieldErrors ? Object.values(result.fieldErrors).flat().join(' ') : undefined
+        throw new Error(details || result.error)
+      }
+      applyRules(result.data.rules)
+      success('Moderation rules saved')
+    } catch (err) {
+      error('Save failed', err instanceof Error ? err.message : 'Please try again')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!rules) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {RULE_LISTS.map(list => (
+          <div key={list.key}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{list.label}</label>
+            <p className="text-xs text-gray-500 mb-2">{list.help}</p>
+            <textarea
+              value={lists[list.key]}
+              onChange={(e) => setLists(prev => ({ ...prev, [list.key]: e.target.value }))}
+              rows={8}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Maximum links per message</label>
+        <input
+          type="number"
+          min={0}
+          max={20}
+          value={rules.maxLinks}
+          onChange={(e) => setRules({ ...rules, maxLinks: Number(e.target.value) })}
+          className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">What happens when a rule matches</h3>
+        <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {(Object.keys(MODERATION_REASON_LABELS) as ModerationReasonCode[]).map(code => (
+            <div key={code} className="flex items-center justify-between px-4 py-2">
+              <div>
+                <p className="text-sm text-gray-900">{MODERATION_REASON_LABELS[code]}</p>
+                <p className="text-xs text-gray-500 font-mono">{code}</p>
+              </div>
+              <select
+                value={rules.actions[code]}
+                onChange={(e) => setRules({ ...rules, actions: { ...rules.actions, [code]: e.target.value as ModerationAction } })}
+                className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+              >
+                {(Object.keys(ACTION_LABELS) as ModerationAction[]).map(action => (
+                  <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+        <p className="text-xs text-gray-500">
+          {rules.updatedAt ? `Last saved ${new Date(rules.updatedAt).toLocaleString()}` : 'Using the default rules'}
+        </p>
+        <div className="flex space-x-2">
+          <button
+            type="button"
+            onClick={() => applyRules({ ...DEFAULT_MODERATION_RULES, updatedAt: rules.updatedAt })}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50"
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Restore defaults
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save Rules
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Loader2, Save, Upload } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import { BASE_CURRENCY, CURRENCIES } from '@/lib/currency'
+import { useCurrencyStore } from '@/store/currency'
+import { ExchangeRateTable } from '@/types'
+
+// Rates are edited as text so a blank field can mean "not sold in this currency"
+const toInputs = (table: ExchangeRateTable): Record<string, string> => {
+  const inputs: Record<string, string> = {}
+  Object.keys(CURRENCIES).forEach(code => {
+    inputs[code] = table.rates[code] !== undefined ? String(table.rates[code]) : ''
+  })
+  return inputs
+}
+
+const errorDetails = (result: any): string | undefined =>
+  result.fieldErrors
+    ? Object.entries(result.fieldErrors).map(([field, messages]) => `${field}: ${(messages as string[]).join(' ')}`).join(' ')
+    : undefined
+
+export function CurrencySettings() {
+  const { success, error } = useToast()
+  const { fetchWithCSRF } = useCSRFFetch()
+  const [table, setTable] = useState<ExchangeRateTable | null>(null)
+  const [inputs, setInputs] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const applyTable = (next: ExchangeRateTable) => {
+    setTable(next)
+    setInputs(toInputs(next))
+    // Prices on this tab's own pages follow the new rates straight away
+    useCurrencyStore.setState({ table: next })
+  }
+
+  const loadRates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/currency/rates')
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+      applyTable(result.data.table)
+    } catch (err) {
+      error('Load failed', 'Failed to load exchange rates')
+    }
+  }, [error])
+
+  useEffect(() => {
+    loadRates()
+  }, [loadRates])
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const rates: Record<string, number> = {}
+      Object.entries(inputs).forEach(([code, value]) => {
+        if (code !== BASE_CURRENCY && value.trim() !== '') rates[code] = Number(value)
+      })
+
+      const response = await fetchWithCSRF('/api/currency/rates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rates })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(errorDetails(result) || result.error)
+      applyTable(result.data.table)
+      success(result.message)
+    } catch (err) {
+      error('Save failed', err instanceof Error ? err.message : 'Please try again')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleImport = async (file: File) => {
+    setImporting(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const response = await fetchWithCSRF('/api/currency/rates/import', {
+        method: 'POST',
+        body: formData
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(errorDetails(result) || result.error)
+      applyTable(result.data.table)
+      success(result.message)
+    } catch (err) {
+      error('Import failed', err instanceof Error ? err.message : 'Please try again')
+    } finally {
+      setImporting(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  if (!table) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Exchange Rates</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Units of each currency per 1 {BASE_CURRENCY}. Leave a rate blank to show and charge that currency in {BASE_CURRENCY}.
+            Orders keep the rate they were placed at.
+          </p>
+        </div>
+        <div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,.txt"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm text-gray-700 bg-white rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            {importing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+            Import file
+          </button>
+          <p className="text-xs text-gray-500 mt-1">CSV of currency,rate or JSON</p>
+        </div>
+      </div>
+
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {Object.values(CURRENCIES).map(currency => (
+          <div key={currency.code} className="grid grid-cols-12 gap-2 items-center px-4 py-3">
+            <div className="col-span-6 md:col-span-4">
+              <p className="text-sm font-medium text-gray-900">{currency.code} ({currency.symbol})</p>
+              <p className="text-xs text-gray-500">{currency.name}</p>
+            </div>
+            <p className="hidden md:block md:col-span-4 text-xs text-gray-500">
+              {currency.minorUnits === 0 ? 'Rounded to whole units' : `Rounded to ${currency.minorUnits} decimals`}
+            </p>
+            {currency.code === BASE_CURRENCY ? (
+              <p className="col-span-6 md:col-span-4 text-sm text-gray-500 text-right">Base currency</p>
+            ) : (
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={inputs[currency.code] || ''}
+                onChange={(e) => setInputs(prev => ({ ...prev, [currency.code]: e.target.value }))}
+                placeholder="No rate"
+                className="col-span-6 md:col-span-4 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+        <p className="text-xs text-gray-500">
+          {table.updatedAt
+            ? `Last ${table.source === 'import' ? 'imported' : 'saved'} ${new Date(table.updatedAt).toLocaleString()}`
+            : 'No rates set yet'}
+        </p>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save Rates
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -3,13 +3,13 @@
 import { useState } from 'react'
 import { useAdminDashboardStore } from '@/store/admin/admin-dashboard.store'
 import { useToast } from '@/components/ui/toast'
+import { TwoFactorSettings } from '@/components/auth/two-factor-settings'
 import { Eye, EyeOff, Key, Save, Trash2 } from 'lucide-react'
 
 export function SecuritySettings() {
   const { success, error, warning } = useToast()
   const [isSaving, setIsSaving] = useState(false)
   const [security, setSecurity] = useState({
-    twoFactorEnabled: false,
     sessionTimeout: 30,
     passwordExpiry: 90,
     maxLoginAttempts: 5,
@@ -142,17 +142,7 @@ export function SecuritySettings() {
       <div>
         <h3 className="text-lg font-medium text-gray-900 mb-4">Security Preferences</h3>
         <div className="space-y-4">
-          <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-200">
-            <div>
-              <h4 className="font-medium text-gray-900">Two-Factor Authentication</h4>
-              <p className="text-sm text-gray-600">Add an extra layer of security to your account</p>
-            </div>
-            <button
-              onClick={() => setSecurity(prev => ({ ...prev, twoFactorEnabled: !prev.twoFactorEnabled }))}
-              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${security.twoFactorEnabled ? 'bg-blue-600' : 'bg-gray-300'}`}>
-              <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${security.twoFactorEnabled ? 'translate-x-6' : 'translate-x-1'}`}/>
-            </button>
-          </div>
+          <TwoFactorSettings />
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <div>
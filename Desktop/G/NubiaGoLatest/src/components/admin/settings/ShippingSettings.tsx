@@ -0,0 +1,265 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Plus, Save, Trash2 } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import type { ShippingMarginSummary } from '@/lib/services/rate-shopping.service'
+import { ShippingCountryRule, ShippingRateRules } from '@/types'
+
+// Country rules are edited as rows; blank numbers fall back to the global rule
+interface CountryRuleRow {
+  country: string
+  markupPercent: string
+  freeShippingThreshold: string
+  excludedCarriers: string
+}
+
+const MARGIN_WINDOW_DAYS = 30
+
+const toRows = (countryRules: Record<string, ShippingCountryRule>): CountryRuleRow[] =>
+  Object.entries(countryRules).map(([country, rule]) => ({
+    country,
+    markupPercent: rule.markupPercent !== undefined ? String(rule.markupPercent) : '',
+    freeShippingThreshold: rule.freeShippingThreshold !== undefined ? String(rule.freeShippingThreshold) : '',
+    excludedCarriers: rule.excludedCarriers.join(', ')
+  }))
+
+const formatMoney = (value: number) => `$${value.toFixed(2)}`
+
+export function ShippingSettings() {
+  const { success, error } = useToast()
+  const { fetchWithCSRF } = useCSRFFetch()
+  const [rules, setRules] = useState<ShippingRateRules | null>(null)
+  const [rows, setRows] = useState<CountryRuleRow[]>([])
+  const [margins, setMargins] = useState<ShippingMarginSummary | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const applyRules = (next: ShippingRateRules) => {
+    setRules(next)
+    setRows(toRows(next.countryRules))
+  }
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const [rulesResponse, marginsResponse] = await Promise.all([
+        fetch('/api/shipping/rate-rules'),
+        fetch(`/api/shipping/rates/selection?days=${MARGIN_WINDOW_DAYS}`)
+      ])
+      const rulesResult = await rulesResponse.json()
+      if (!rulesResponse.ok) throw new Error(rulesResult.error)
+      applyRules(rulesResult.data.rules)
+
+      const marginsResult = await marginsResponse.json()
+      if (marginsResponse.ok) setMargins(marginsResult.data)
+    } catch (err) {
+      error('Load failed', 'Failed to load shipping settings')
+    }
+  }, [error])
+
+  useEffect(() => {
+    loadSettings()
+  }, [loadSettings])
+
+  const updateRow = (index: number, field: keyof CountryRuleRow, value: string) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, [field]: value } : row))
+  }
+
+  const handleSave = async () => {
+    if (!rules) return
+    setSaving(true)
+    try {
+      const optionalNumber = (value: string) => value.trim() === '' ? undefined : Number(value)
+      const countryRules: Record<string, ShippingCountryRule> = {}
+      for (const row of rows) {
+        if (!row.country.trim()) continue
+        countryRules[row.country.trim()] = {
+          excludedCarriers: row.excludedCarriers.split(',').map(carrier => carrier.trim()).filter(Boolean),
+          markupPercent: optionalNumber(row.markupPercent),
+          freeShippingThreshold: optionalNumber(row.freeShippingThreshold)
+        }
+      }
+
+      const response = await fetchWithCSRF('/api/shipping/rate-rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          markupPercent: rules.markupPercent,
+          markupFlat: rules.markupFlat,
+          freeShippingThreshold: rules.freeShippingThreshold,
+          countryRules
+        })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        const details = result.fieldErrors ? Object.values(result.fieldErrors).flat().join(' ') : undefined
+        throw new Error(details || result.error)
+      }
+      applyRules(result.data.rules)
+      success('Shipping rules saved')
+    } catch (err) {
+      error('Save failed', err instanceof Error ? err.message : 'Please try again')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!rules) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Shipping Pricing</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Markup is added to every carrier rate. Above the free-shipping threshold the cheapest option is free.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Markup (%)</label>
+          <input
+            type="number"
+            min={0}
+            step="0.1"
+            value={rules.markupPercent}
+            onChange={(e) => setRules({ ...rules, markupPercent: Number(e.target.value) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Flat markup ($)</label>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={rules.markupFlat}
+            onChange={(e) => setRules({ ...rules, markupFlat: Number(e.target.value) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Free shipping from ($)</label>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={rules.freeShippingThreshold}
+            onChange={(e) => setRules({ ...rules, freeShippingThreshold: Number(e.target.value) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <p className="text-xs text-gray-500 mt-1">0 turns free shipping off.</p>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700">Country rules</h3>
+            <p className="text-xs text-gray-500">Leave a number blank to use the global value. Carriers are comma separated.</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setRows(prev => [...prev, { country: '', markupPercent: '', freeShippingThreshold: '', excludedCarriers: '' }])}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm text-gray-700 bg-white rounded-lg hover:bg-gray-50"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add country
+          </button>
+        </div>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500 border border-dashed border-gray-300 rounded-lg px-4 py-6 text-center">
+            The global rules apply to every destination.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center px-4 py-3">
+                <input
+                  value={row.country}
+                  onChange={(e) => updateRow(index, 'country', e.target.value)}
+                  placeholder="Country"
+                  className="md:col-span-3 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={row.markupPercent}
+                  onChange={(e) => updateRow(index, 'markupPercent', e.target.value)}
+                  placeholder="Markup %"
+                  className="md:col-span-2 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={row.freeShippingThreshold}
+                  onChange={(e) => updateRow(index, 'freeShippingThreshold', e.target.value)}
+                  placeholder="Free from $"
+                  className="md:col-span-2 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                />
+                <input
+                  value={row.excludedCarriers}
+                  onChange={(e) => updateRow(index, 'excludedCarriers', e.target.value)}
+                  placeholder="Excluded carriers"
+                  className="md:col-span-4 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                  className="md:col-span-1 justify-self-end p-2 text-gray-400 hover:text-red-600"
+                  aria-label="Remove country rule"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+        <p className="text-xs text-gray-500">
+          {rules.updatedAt ? `Last saved ${new Date(rules.updatedAt).toLocaleString()}` : 'Using the default rules'}
+        </p>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save Rules
+        </button>
+      </div>
+
+      {margins && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Last {MARGIN_WINDOW_DAYS} days</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Orders', value: String(margins.totals.count) },
+              { label: 'Charged', value: formatMoney(margins.totals.revenue) },
+              { label: 'Carrier cost', value: formatMoney(margins.totals.carrierCost) },
+              { label: 'Margin', value: formatMoney(margins.totals.margin) }
+            ].map(stat => (
+              <div key={stat.label} className="bg-gray-50 rounded-lg p-4">
+                <p className="text-xs text-gray-500">{stat.label}</p>
+                <p className={`text-lg font-semibold ${
+                  stat.label === 'Margin' && margins.totals.margin < 0 ? 'text-red-600' : 'text-gray-900'
+                }`}>
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Save } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import { TwoFactorPolicy, User } from '@/types'
+
+const ENFORCEABLE_ROLES: Array<{ role: User['role']; label: string }> = [
+  { role: 'admin', label: 'Admin accounts' },
+  { role: 'supplier', label: 'Supplier accounts' }
+]
+
+// Which roles must use two-factor authentication to reach the API
+export function TwoFactorPolicySettings() {
+  const { success, error } = useToast()
+  const { fetchWithCSRF } = useCSRFFetch()
+  const [policy, setPolicy] = useState<TwoFactorPolicy | null>(null)
+  const [requiredRoles, setRequiredRoles] = useState<Array<User['role']>>([])
+  const [saving, setSaving] = useState(false)
+
+  const applyPolicy = (next: TwoFactorPolicy) => {
+    setPolicy(next)
+    setRequiredRoles(next.requiredRoles)
+  }
+
+  const loadPolicy = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/two-factor/policy')
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+      applyPolicy(result.data.policy)
+    } catch (err) {
+      error('Load failed', 'Failed to load two-factor policy')
+    }
+  }, [error])
+
+  useEffect(() => {
+    loadPolicy()
+  }, [loadPolicy])
+
+  const toggleRole = (role: User['role']) => {
+    setRequiredRoles(prev => prev.includes(role) ? prev.filter(existing => existing !== role) : [...prev, role])
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetchWithCSRF('/api/auth/two-factor/policy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requiredRoles })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+      applyPolicy(result.data.policy)
+      success(result.message)
+    } catch (err) {
+      error('Save failed', err instanceof Error ? err.message : 'Please try again')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!policy) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-gray-900">Two-Factor Authentication</h4>
+        <p className="text-sm text-gray-600">
+          Require 2FA for these accounts. Anyone without it set up can only reach the 2FA setup page until they do.
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-6">
+        {ENFORCEABLE_ROLES.map(({ role, label }) => (
+          <label key={role} className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={requiredRoles.includes(role)}
+              onChange={() => toggleRole(role)}
+              className="h-4 w-4 rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+            />
+            <span>{label}</span>
+          </label>
+        ))}
+      </div>
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="flex items-center space-x-2 px-4 py-2 text-sm bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50"
+      >
+        {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+        <span>Save</span>
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,251 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Copy, KeyRound, Loader2, ShieldCheck, ShieldOff } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+import { QrCode } from '@/components/ui/qr-code'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import { TwoFactorStatus } from '@/types'
+
+type Step = 'idle' | 'enrolling' | 'recovery-codes' | 'disabling' | 'regenerating'
+
+interface TwoFactorSettingsProps {
+  className?: string
+}
+
+// Secrets are easier to type in groups of four
+const groupSecret = (secret: string): string => (secret.match(/.{1,4}/g) || []).join(' ')
+
+// Turn authenticator-app 2FA on or off for the signed-in user, and manage recovery codes
+export function TwoFactorSettings({ className = '' }: TwoFactorSettingsProps) {
+  const { success, error } = useToast()
+  const { fetchWithCSRF } = useCSRFFetch()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [step, setStep] = useState<Step>('idle')
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUri: string } | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
+  const [code, setCode] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/two-factor')
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+      setStatus(result.data.status)
+    } catch (err) {
+      error('Load failed', 'Failed to load two-factor settings')
+    }
+  }, [error])
+
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  const reset = () => {
+    setStep('idle')
+    setCode('')
+    setEnrollment(null)
+  }
+
+  // Runs a request for the current step; `onSuccess` gets the response data
+  const submit = async (url: string, method: string, body: object | null, onSuccess: (data: any) => void) => {
+    setSubmitting(true)
+    try {
+      const response = await fetchWithCSRF(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+      onSuccess(result.data)
+      if (result.message) success(result.message)
+    } catch (err) {
+      error('Two-factor authentication', err instanceof Error ? err.message : 'Please try again')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleStart = () => submit('/api/auth/two-factor/enroll', 'POST', null, (data) => {
+    setEnrollment(data)
+    setCode('')
+    setStep('enrolling')
+  })
+
+  const handleConfirm = () => submit('/api/auth/two-factor/enroll', 'PUT', { code }, (data) => {
+    setRecoveryCodes(data.recoveryCodes)
+    setEnrollment(null)
+    setCode('')
+    setStep('recovery-codes')
+    loadStatus()
+  })
+
+  const handleDisable = () => submit('/api/auth/two-factor', 'DELETE', { code }, () => {
+    reset()
+    loadStatus()
+  })
+
+  const handleRegenerate = () => submit('/api/auth/two-factor/recovery-codes', 'POST', { code }, (data) => {
+    setRecoveryCodes(data.recoveryCodes)
+    setCode('')
+    setStep('recovery-codes')
+    loadStatus()
+  })
+
+  const copyRecoveryCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'))
+      success('Recovery codes copied')
+    } catch (err) {
+      error('Copy failed', 'Select the codes and copy them instead')
+    }
+  }
+
+  if (!status) {
+    return (
+      <div className={`flex justify-center py-6 ${className}`}>
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  const codeInput = (placeholder: string) => (
+    <input
+      type="text"
+      inputMode="text"
+      autoComplete="one-time-code"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      className="w-48 px-3 py-2 border border-gray-300 rounded-lg font-mono tracking-widest focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      placeholder={placeholder}
+    />
+  )
+
+  return (
+    <div className={`p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-4 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium text-gray-900">Two-Factor Authentication</h4>
+          <p className="text-sm text-gray-600">
+            {status.enabled
+              ? `On. ${status.recoveryCodesRemaining} recovery code${status.recoveryCodesRemaining === 1 ? '' : 's'} left.`
+              : status.required
+                ? 'Required for your account. Set it up to keep using it.'
+                : 'Ask for a code from an authenticator app when you sign in'}
+          </p>
+        </div>
+        {step === 'idle' && (
+          status.enabled ? (
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => { setCode(''); setStep('regenerating') }}
+                className="flex items-center space-x-1 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-100"
+              >
+                <KeyRound className="h-4 w-4" />
+                <span>New Recovery Codes</span>
+              </button>
+              {!status.required && (
+                <button
+                  onClick={() => { setCode(''); setStep('disabling') }}
+                  className="flex items-center space-x-1 px-3 py-2 text-sm text-red-600 border border-red-300 rounded-lg hover:bg-red-50"
+                >
+                  <ShieldOff className="h-4 w-4" />
+                  <span>Disable</span>
+                </button>
+              )}
+            </div>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={submitting}
+              className="flex items-center space-x-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <ShieldCheck className="h-4 w-4" />
+              <span>Enable</span>
+            </button>
+          )
+        )}
+      </div>
+
+      {step === 'enrolling' && enrollment && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Scan this code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <QrCode value={enrollment.otpauthUri} size={176} className="border border-gray-200 rounded" />
+            <div className="text-sm text-gray-600">
+              <p>Can&apos;t scan it? Enter this key instead:</p>
+              <p className="mt-1 font-mono text-gray-900 break-all">{groupSecret(enrollment.secret)}</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            {codeInput('123456')}
+            <button
+              onClick={handleConfirm}
+              disabled={submitting || code.trim().length === 0}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Verify
+            </button>
+            <button onClick={reset} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {(step === 'disabling' || step === 'regenerating') && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-700">
+            Enter a code from your authenticator app or a recovery code to continue.
+          </p>
+          <div className="flex items-center space-x-2">
+            {codeInput('Code')}
+            <button
+              onClick={step === 'disabling' ? handleDisable : handleRegenerate}
+              disabled={submitting || code.trim().length === 0}
+              className={`px-4 py-2 text-sm text-white rounded-lg disabled:opacity-50 ${
+                step === 'disabling' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {step === 'disabling' ? 'Disable' : 'Generate'}
+            </button>
+            <button onClick={reset} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'recovery-codes' && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-700">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone,
+            and they won&apos;t be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 p-3 bg-white border border-gray-200 rounded-lg font-mono text-sm text-gray-900">
+            {recoveryCodes.map(recoveryCode => <span key={recoveryCode}>{recoveryCode}</span>)}
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={copyRecoveryCodes}
+              className="flex items-center space-x-1 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-100"
+            >
+              <Copy className="h-4 w-4" />
+              <span>Copy</span>
+            </button>
+            <button
+              onClick={() => { setRecoveryCodes([]); setStep('idle') }}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,11 +6,13 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/form'
 import Image from 'next/image'
 import Link from 'next/link'
+import { useCurrency } from '@/hooks/useCurrency'
 import Recommendations from './recommendations'
 
 interface CartItem {
   id: string
   name: string
+  variantName?: string
   price: number
   originalPrice?: number
   quantity: number
@@ -59,6 +61,7 @@ const ShoppingCart = React.memo(function ShoppingCart({
   onAddToWishlist,
   className = ''
 }: ShoppingCartProps) {
+  const { formatPrice } = useCurrency()
   const [isCollapsed, setIsCollapsed] = useState(false)
   const [savedItems, setSavedItems] = useState<CartItem[]>([])
 
@@ -184,20 +187,23 @@ const ShoppingCart = React.memo(function ShoppingCart({
                         <h3 className="text-sm font-medium text-gray-900 line-clamp-2">
                           {item.name}
                         </h3>
+                        {item.variantName && (
+                          <p className="text-xs text-gray-600 mt-1">{item.variantName}</p>
+                        )}
                         <p className="text-xs text-gray-500 mt-1">{item.supplierName}</p>
                         
                         {/* Price and Savings */}
                         <div className="flex items-center gap-2 mt-2">
                           <span className="text-sm font-semibold text-gray-900">
-                            ${item.price.toFixed(2)}
+                            {formatPrice(item.price)}
                           </span>
                           {item.originalPrice && item.originalPrice > item.price && (
                             <>
                               <span className="text-xs text-gray-500 line-through">
-                                ${item.originalPrice.toFixed(2)}
+                                {formatPrice(item.originalPrice)}
                               </span>
                               <span className="text-xs text-green-600 font-medium">
-                                Save ${(item.originalPrice - item.price).toFixed(2)}
+                                Save {formatPrice(item.originalPrice - item.price)}
                               </span>
                             </>
                           )}
@@ -263,7 +269,7 @@ const ShoppingCart = React.memo(function ShoppingCart({
                       {/* Item Total */}
                       <div className="text-right">
                         <div className="text-sm font-semibold text-gray-900">
-                          ${(item.price * item.quantity).toFixed(2)}
+                          {formatPrice(item.price * item.quantity)}
                         </div>
                         <button
                           onClick={() => handleRemoveItem(item.id)}
@@ -299,7 +305,7 @@ const ShoppingCart = React.memo(function ShoppingCart({
                       <p className="text-xs text-gray-500">{item.supplierName}</p>
                     </div>
                     <div className="flex items-center gap-2">
-                      <span className="text-sm font-semibold text-gray-900">${item.price.toFixed(2)}</span>
+                      <span className="text-sm font-semibold text-gray-900">{formatPrice(item.price)}</span>
                       <button
                         onClick={() => handleMoveToCart(item.id)}
                         className="text-xs text-primary-600 hover:text-primary-700"
@@ -319,20 +325,20 @@ const ShoppingCart = React.memo(function ShoppingCart({
             <div className="space-y-2 mb-4">
               <div className="flex justify-between text-sm">
                 <span>Subtotal ({totalItems} items)</span>
-                <span>${subtotal.toFixed(2)}</span>
+                <span>{formatPrice(subtotal)}</span>
               </div>
               <div className="flex justify-between text-sm">
                 <span>Shipping</span>
-                <span>{shipping === 0 ? 'Free' : `$${shipping.toFixed(2)}`}</span>
+                <span>{shipping === 0 ? 'Free' : formatPrice(shipping)}</span>
               </div>
               <div className="flex justify-between text-sm">
                 <span>Tax</span>
-                <span>${tax.toFixed(2)}</span>
+                <span>{formatPrice(tax)}</span>
               </div>
               <div className="border-t border-gray-200 pt-2">
                 <div className="flex justify-between font-semibold text-lg">
                   <span>Total</span>
-                  <span>${total.toFixed(2)}</span>
+                  <span>{formatPrice(total)}</span>
                 </div>
               </div>
             </div>
@@ -372,7 +378,7 @@ const ShoppingCart = React.memo(function ShoppingCart({
                 <div className="flex items-center gap-2">
                   <Truck className="h-4 w-4 text-blue-600" />
                   <p className="text-sm text-blue-800">
-                    Add ${(50 - subtotal).toFixed(2)} more to get free shipping!
+                    Add {formatPrice(50 - subtotal)} more to get free shipping!
                   </p>
                 </div>
               </div>
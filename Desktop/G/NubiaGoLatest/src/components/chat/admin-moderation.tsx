@@ -1,30 +1,10 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
-import { useChatStore } from '@/store/chat'
-// import { ChatMessage, ChatUser } from '@/lib/sendbird'
-// Use fallback types for ChatMessage and ChatUser
-
-interface ChatMessage {
-  id: string
-  type: 'text' | 'image' | 'file'
-  message: string
-  channelId: string
-  userId: string
-  timestamp: Date
-  metadata?: Record<string, any>
-}
-// Define a minimal ChatUser type for fallback
-interface ChatUser {
-  id: string
-  userId: string
-  name: string
-  nickname: string
-  avatar?: string
-  metadata?: {
-    status?: string
-  }
-}
+import React, { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import { ChatMessage, ChatUser, ChatUserStatus } from '@/types'
+import { toDate } from '@/lib/utils/dates'
 import { 
   ShieldCheckIcon, 
   ExclamationTriangleIcon, 
@@ -119,26 +99,51 @@ const ModerationQueueItem: React.FC<ModerationQueueItemProps> = ({
                              <span className={`font-medium text-sm ${
                  theme === 'dark' ? 'text-white' : 'text-gray-900'
                }`}>
-                 {message.userId}
+                 {message.senderName}
                </span>
               <span className={`text-xs px-2 py-1 rounded ${
                 theme === 'dark' ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'
               }`}>
-                {message.type}
+                {message.messageType}
               </span>
-              {getMessageTypeIcon(message.type)}
+              {getMessageTypeIcon(message.messageType)}
             </div>
             
                          <div className={`text-sm ${
                theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
              }`}>
-               {message.message}
+               {message.content || message.attachments.map(attachment => attachment.name).join(', ')}
              </div>
             
+            {message.flaggedReason && (
+              <div className={`text-xs mt-2 ${
+                theme === 'dark' ? 'text-red-300' : 'text-red-600'
+              }`}>
+                {message.flaggedBy === 'system'
+                  ? `${message.status === 'hidden' ? 'Auto-hidden' : 'Auto-flagged'}: ${message.flaggedReason}`
+                  : `Reported: ${message.flaggedReason}`}
+              </div>
+            )}
+            {message.moderationFlags && message.moderationFlags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {message.moderationFlags.map((flag, index) => (
+                  <span
+                    key={`${flag.code}-${index}`}
+                    title={flag.match}
+                    className={`text-xs px-2 py-0.5 rounded font-mono ${
+                      theme === 'dark' ? 'bg-red-900 text-red-200' : 'bg-red-50 text-red-700'
+                    }`}
+                  >
+                    {flag.code}
+                  </span>
+                ))}
+              </div>
+            )}
+            
                          <div className={`text-xs mt-2 ${
                theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
              }`}>
-               {formatTime(message.timestamp)}
+               {formatTime(message.createdAt)}
              </div>
             
             {isExpanded && (
@@ -152,8 +157,16 @@ const ModerationQueueItem: React.FC<ModerationQueueItemProps> = ({
                 </h4>
                                  <div className="space-y-1 text-xs">
                    <div><strong>Message ID:</strong> {message.id}</div>
-                   <div><strong>Channel:</strong> {message.channelId}</div>
-                   <div><strong>User ID:</strong> {message.userId}</div>
+                   <div><strong>Room:</strong> {message.roomId}</div>
+                   <div><strong>User ID:</strong> {message.senderId}</div>
+                   {message.attachments.map(attachment => (
+                     <div key={attachment.path}>
+                       <strong>Attachment:</strong>{' '}
+                       <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="underline">
+                         {attachment.name}
+                       </a>
+                     </div>
+                   ))}
                  </div>
               </div>
             )}
@@ -191,13 +204,13 @@ const ModerationQueueItem: React.FC<ModerationQueueItemProps> = ({
            Reject
          </button>
          <button
-           onClick={() => onBanUser(message.userId)}
+           onClick={() => onBanUser(message.senderId)}
            className="px-3 py-1 text-xs bg-orange-500 text-white rounded hover:bg-orange-600"
          >
            Ban User
          </button>
          <button
-           onClick={() => onMuteUser(message.userId)}
+           onClick={() => onMuteUser(message.senderId)}
            className="px-3 py-1 text-xs bg-yellow-500 text-white rounded hover:bg-yellow-600"
          >
            Mute User
@@ -223,8 +236,8 @@ const UserManagement: React.FC<UserManagementProps> = ({
   const [searchTerm, setSearchTerm] = useState('')
 
   const filteredUsers = users.filter(user => {
-    const matchesSearch = user.nickname.toLowerCase().includes(searchTerm.toLowerCase())
-    const matchesFilter = filter === 'all' || user.metadata?.status === filter
+    const matchesSearch = user.name.toLowerCase().includes(searchTerm.toLowerCase())
+    const matchesFilter = filter === 'all' || user.status === filter
     return matchesSearch && matchesFilter
   })
 
@@ -284,18 +297,18 @@ const UserManagement: React.FC<UserManagementProps> = ({
                 <div className={`font-medium ${
                   theme === 'dark' ? 'text-white' : 'text-gray-900'
                 }`}>
-                  {user.nickname}
+                  {user.name}
                 </div>
                 <div className={`text-xs ${
                   theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
                 }`}>
-                  {user.userId}
+                  {user.userId} · {user.role}
                 </div>
               </div>
             </div>
             
             <div className="flex gap-1">
-              {user.metadata?.status === 'banned' ? (
+              {user.status === 'banned' ? (
                 <button
                   onClick={() => onUnbanUser(user.userId)}
                   className="px-2 py-1 text-xs bg-green-500 text-white rounded hover:bg-green-600"
@@ -311,7 +324,7 @@ const UserManagement: React.FC<UserManagementProps> = ({
                 </button>
               )}
               
-              {user.metadata?.status === 'muted' ? (
+              {user.status === 'muted' ? (
                 <button
                   onClick={() => onUnmuteUser(user.userId)}
                   className="px-2 py-1 text-xs bg-green-500 text-white rounded hover:bg-green-600"
@@ -343,40 +356,39 @@ const AdminModeration: React.FC<AdminModerationProps> = ({
   showFilters = true,
   maxQueueItems = 10
 }) => {
-  // Mock data since these properties don't exist in the store
-  const moderationQueue: ChatMessage[] = []
-  const isAdmin = true
-  
-  const removeFromModerationQueue = (messageId: string) => {
-    // Mock function
-    console.log('Remove from moderation queue:', messageId)
-  }
-  
-  const clearModerationQueue = () => {
-    // Mock function
-    console.log('Clear moderation queue')
-  }
+  const { user } = useAuth()
+  const { fetchWithCSRF } = useCSRFFetch()
+  const isAdmin = user?.role === 'admin'
 
   const [activeTab, setActiveTab] = useState<'queue' | 'users'>('queue')
   const [filter, setFilter] = useState('all')
+  const [moderationQueue, setModerationQueue] = useState<ChatMessage[]>([])
   const [users, setUsers] = useState<ChatUser[]>([])
 
   // ============================================================================
-  // EFFECTS
+  // DATA LOADING
   // ============================================================================
 
-  useEffect(() => {
-    // Load users for management
-    loadUsers()
+  const loadQueue = useCallback(async () => {
+    try {
+      const response = await fetch('/api/chat/moderation/queue')
+      if (response.ok) {
+        const result = await response.json()
+        const messages: ChatMessage[] = result.data.messages || []
+        setModerationQueue(messages.map(message => ({
+          ...message,
+          createdAt: toDate(message.createdAt)!,
+          flaggedAt: toDate(message.flaggedAt)
+        })))
+      }
+    } catch (error) {
+      console.error('Failed to load moderation queue:', error)
+    }
   }, [])
 
-  // ============================================================================
-  // HANDLERS
-  // ============================================================================
-
-  const loadUsers = async () => {
+  const loadUsers = useCallback(async () => {
     try {
-      const response = await fetch('/api/chat/sendbird/users')
+      const response = await fetch('/api/chat/moderation/users')
       if (response.ok) {
         const result = await response.json()
         setUsers(result.data.users || [])
@@ -384,11 +396,29 @@ const AdminModeration: React.FC<AdminModerationProps> = ({
     } catch (error) {
       console.error('Failed to load users:', error)
     }
+  }, [])
+
+  // ============================================================================
+  // EFFECTS
+  // ============================================================================
+
+  useEffect(() => {
+    if (!isAdmin) return
+    loadQueue()
+    loadUsers()
+  }, [isAdmin, loadQueue, loadUsers])
+
+  // ============================================================================
+  // HANDLERS
+  // ============================================================================
+
+  const removeFromModerationQueue = (messageId: string) => {
+    setModerationQueue(prev => prev.filter(message => message.id !== messageId))
   }
 
   const handleApproveMessage = async (messageId: string) => {
     try {
-      const response = await fetch(`/api/chat/sendbird/messages/${messageId}/approve`, {
+      const response = await fetchWithCSRF(`/api/chat/moderation/messages/${messageId}/approve`, {
         method: 'POST'
       })
       
@@ -402,7 +432,7 @@ const AdminModeration: React.FC<AdminModerationProps> = ({
 
   const handleRejectMessage = async (messageId: string) => {
     try {
-      const response = await fetch(`/api/chat/sendbird/messages/${messageId}/reject`, {
+      const response = await fetchWithCSRF(`/api/chat/moderation/messages/${messageId}/reject`, {
         method: 'POST'
       })
       
@@ -414,81 +444,33 @@ const AdminModeration: React.FC<AdminModerationProps> = ({
     }
   }
 
-  const handleBanUser = async (userId: string) => {
-    try {
-      const response = await fetch(`/api/chat/sendbird/users/${userId}/ban`, {
-        method: 'POST'
-      })
-      
-      if (response.ok) {
-        // Update user status in local state
-        setUsers(prev => prev.map(user => 
-          user.userId === userId 
-            ? { ...user, metadata: { ...user.metadata, status: 'banned' } }
-            : user
-        ))
-      }
-    } catch (error) {
-      console.error('Failed to ban user:', error)
-    }
-  }
-
-  const handleUnbanUser = async (userId: string) => {
-    try {
-      const response = await fetch(`/api/chat/sendbird/users/${userId}/unban`, {
-        method: 'POST'
-      })
-      
-      if (response.ok) {
-        setUsers(prev => prev.map(user => 
-          user.userId === userId 
-            ? { ...user, metadata: { ...user.metadata, status: 'active' } }
-            : user
-        ))
-      }
-    } catch (error) {
-      console.error('Failed to unban user:', error)
-    }
-  }
-
-  const handleMuteUser = async (userId: string) => {
+  // Ban, unban, mute or unmute, then reflect the new status locally
+  const updateUserStatus = async (userId: string, action: 'ban' | 'unban' | 'mute' | 'unmute', status: ChatUserStatus) => {
     try {
-      const response = await fetch(`/api/chat/sendbird/users/${userId}/mute`, {
+      const response = await fetchWithCSRF(`/api/chat/moderation/users/${userId}/${action}`, {
         method: 'POST'
       })
       
       if (response.ok) {
-        setUsers(prev => prev.map(user => 
-          user.userId === userId 
-            ? { ...user, metadata: { ...user.metadata, status: 'muted' } }
-            : user
+        setUsers(prev => prev.map(chatUser => 
+          chatUser.userId === userId 
+            ? { ...chatUser, status }
+            : chatUser
         ))
       }
     } catch (error) {
-      console.error('Failed to mute user:', error)
+      console.error(`Failed to ${action} user:`, error)
     }
   }
 
-  const handleUnmuteUser = async (userId: string) => {
-    try {
-      const response = await fetch(`/api/chat/sendbird/users/${userId}/unmute`, {
-        method: 'POST'
-      })
-      
-      if (response.ok) {
-        setUsers(prev => prev.map(user => 
-          user.userId === userId 
-            ? { ...user, metadata: { ...user.metadata, status: 'active' } }
-            : user
-        ))
-      }
-    } catch (error) {
-      console.error('Failed to unmute user:', error)
-    }
-  }
+  const handleBanUser = (userId: string) => updateUserStatus(userId, 'ban', 'banned')
+  const handleUnbanUser = (userId: string) => updateUserStatus(userId, 'unban', 'active')
+  const handleMuteUser = (userId: string) => updateUserStatus(userId, 'mute', 'muted')
+  const handleUnmuteUser = (userId: string) => updateUserStatus(userId, 'unmute', 'active')
 
-  const handleClearQueue = () => {
-    clearModerationQueue()
+  const handleRefresh = () => {
+    loadQueue()
+    loadUsers()
   }
 
   // ============================================================================
@@ -497,9 +479,9 @@ const AdminModeration: React.FC<AdminModerationProps> = ({
 
   const filteredQueue = moderationQueue.filter(message => {
     if (filter === 'all') return true
-    if (filter === 'text' && message.type === 'text') return true
-    if (filter === 'image' && message.type === 'image') return true
-    if (filter === 'file' && message.type === 'file') return true
+    if (filter === 'text' && message.messageType === 'text') return true
+    if (filter === 'image' && message.messageType === 'image') return true
+    if (filter === 'file' && message.messageType === 'file') return true
     return false
   }).slice(0, maxQueueItems)
 
@@ -542,10 +524,10 @@ const AdminModeration: React.FC<AdminModerationProps> = ({
             {moderationQueue.length} items in queue
           </span>
           <button
-            onClick={handleClearQueue}
-            className="px-3 py-1 text-xs bg-red-500 text-white rounded hover:bg-red-600"
+            onClick={handleRefresh}
+            className="px-3 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600"
           >
-            Clear All
+            Refresh
           </button>
         </div>
       </div>
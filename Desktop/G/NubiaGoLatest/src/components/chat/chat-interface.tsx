@@ -16,6 +16,8 @@ interface Message {
   type: 'text' | 'image' | 'file' | 'system'
   status: 'sent' | 'delivered' | 'read' | 'failed'
   isOwn: boolean
+  // Download link for file messages
+  url?: string
 }
 
 interface ChatParticipant {
@@ -31,6 +33,7 @@ interface ChatInterfaceProps {
   participants: ChatParticipant[]
   currentUserId: string
   onSendMessage: (content: string, type?: 'text' | 'image' | 'file') => void
+  onSendFile?: (file: File) => void
   onTyping?: (isTyping: boolean) => void
   onCall?: (type: 'audio' | 'video') => void
   onSearch?: (query: string) => void
@@ -42,6 +45,7 @@ export default function ChatInterface({
   participants,
   currentUserId,
   onSendMessage,
+  onSendFile,
   onTyping,
   onCall,
   onSearch,
@@ -98,9 +102,13 @@ export default function ChatInterface({
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files
     if (files && files.length > 0) {
-      // Handle file upload logic here
       const file = files[0]
-      onSendMessage(`Uploaded: ${file.name}`, 'file')
+      if (onSendFile) {
+        onSendFile(file)
+      } else {
+        onSendMessage(`Uploaded: ${file.name}`, 'file')
+      }
+      event.target.value = ''
     }
   }
 
@@ -268,7 +276,13 @@ export default function ChatInterface({
                   ) : message.type === 'file' ? (
                     <div className="flex items-center gap-2">
                       <Paperclip className="h-4 w-4" />
-                      <span className="text-sm">{message.content}</span>
+                      {message.url ? (
+                        <a href={message.url} target="_blank" rel="noopener noreferrer" className="text-sm underline">
+                          {message.content}
+                        </a>
+                      ) : (
+                        <span className="text-sm">{message.content}</span>
+                      )}
                     </div>
                   ) : (
                     <p className="text-sm whitespace-pre-wrap">{message.content}</p>
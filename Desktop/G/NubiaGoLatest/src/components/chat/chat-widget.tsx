@@ -1,19 +1,10 @@
 'use client'
 
 import React, { useState, useEffect, useRef } from 'react'
-import { useChatStore } from '@/store/chat'
-import { useFirebaseAuth } from '@/hooks/useFirebaseAuth'
-// import { ChatUser, ChatChannel, ChatMessage } from '@/lib/sendbird'
-// Use fallback types for ChatUser, ChatChannel, and ChatMessage
-
-type ChatUser = any
-// Define minimal fallback types
-interface ChatChannel {
-  id: string
-  name: string
-  channelUrl?: string
-}
-type ChatMessage = any
+import { useAuth } from '@/hooks/useAuth'
+import { useChatPresence } from '@/hooks/useChatPresence'
+import { chatService } from '@/lib/services/chat.service'
+import { ChatMessage, ChatRoom } from '@/types'
 import { PaperAirplaneIcon, XMarkIcon, ChatBubbleLeftRightIcon } from '@heroicons/react/24/outline'
 
 // ============================================================================
@@ -40,6 +31,7 @@ interface MessageInputProps {
 interface MessageBubbleProps {
   message: ChatMessage
   isOwnMessage: boolean
+  isRead?: boolean
   onReply?: (message: ChatMessage) => void
   onDelete?: (messageId: string) => void
 }
@@ -101,7 +93,7 @@ const MessageInput: React.FC<MessageInputProps> = ({
         type="file"
         onChange={handleFileUpload}
         className="hidden"
-        accept="image/*,.pdf,.doc,.docx,.txt"
+        accept="image/*,.pdf,.doc,.docx"
       />
       
       <button
@@ -122,13 +114,14 @@ const MessageInput: React.FC<MessageInputProps> = ({
 const MessageBubble: React.FC<MessageBubbleProps> = ({
   message,
   isOwnMessage,
+  isRead = false,
   onReply,
   onDelete
 }) => {
   const [showActions, setShowActions] = useState(false)
 
-  const formatTime = (timestamp: string) => {
-    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  const formatTime = (timestamp: Date) => {
+    return timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
   }
 
   const handleReply = () => {
@@ -153,7 +146,7 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
         {!isOwnMessage && (
           <div className="flex items-center gap-2 mb-1">
             <span className="text-sm font-medium text-gray-700">
-              {message.userId}
+              {message.senderName}
             </span>
           </div>
         )}
@@ -165,30 +158,43 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
               : 'bg-gray-100 text-gray-900'
           }`}
         >
-          {message.type === 'image' && (
-            <img
-              src={message.message}
-              alt="Image"
-              className="max-w-full h-auto rounded"
-            />
-          )}
-          
-          {message.type === 'file' && (
-            <div className="flex items-center gap-2">
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-              </svg>
-              <span className="text-sm">File attached</span>
-            </div>
-          )}
-          
-          {message.type === 'text' && (
-            <p className="text-sm whitespace-pre-wrap">{message.message}</p>
+          {message.status === 'removed' ? (
+            <p className="text-sm italic opacity-75">This message was removed</p>
+          ) : (
+            <>
+              {message.attachments.map(attachment => attachment.contentType.startsWith('image/') ? (
+                <img
+                  key={attachment.path}
+                  src={attachment.url}
+                  alt={attachment.name}
+                  className="max-w-full h-auto rounded mb-1"
+                />
+              ) : (
+                <a
+                  key={attachment.path}
+                  href={attachment.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 mb-1 underline"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                  <span className="text-sm">{attachment.name}</span>
+                </a>
+              ))}
+              
+              {message.content && (
+                <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+              )}
+            </>
           )}
         </div>
         
         <div className={`text-xs text-gray-500 mt-1 ${isOwnMessage ? 'text-right' : 'text-left'}`}>
-          {formatTime(message.timestamp)}
+          {formatTime(message.createdAt)}
+          {isOwnMessage && isRead && <span className="ml-1">· Read</span>}
+          {message.status === 'hidden' && <span className="ml-1 text-red-600">· Held for review, only you can see this</span>}
         </div>
         
         {showActions && (
@@ -199,7 +205,7 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
             >
               Reply
             </button>
-            {isOwnMessage && onDelete && (
+            {isOwnMessage && onDelete && message.status !== 'removed' && (
               <button
                 onClick={handleDelete}
                 className="block w-full px-2 py-1 text-sm text-left text-red-600 hover:bg-red-50 rounded"
@@ -227,22 +233,50 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({
   theme = 'light',
   showNotifications = true
 }) => {
-  const { user } = useFirebaseAuth()
-  const [isLoading, setIsLoading] = useState(false)
+  const { user } = useAuth()
+  const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
-  const [replyTo, setReplyTo] = useState<any>(null)
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null)
+  const [currentChannel, setCurrentChannel] = useState<ChatRoom | null>(null)
+  const [messages, setMessages] = useState<ChatMessage[]>([])
 
-  // Mock data
   const isAuthenticated = !!user
-  const messages: any[] = []
-  const unreadCount = 0
-  const currentChannel = channelUrl ? { 
-    id: 'mock-channel', 
-    name: 'Mock Channel', 
-    channelUrl,
-    participants: []
-  } : null
+  const roomId = channelUrl || (orderId ? chatService.getOrderRoomId(orderId) : undefined)
+  const unreadCount = currentChannel && user ? currentChannel.unreadCounts[user.uid] || 0 : 0
+
+  useChatPresence(user?.uid)
+
+  // ============================================================================
+  // EFFECTS
+  // ============================================================================
+
+  useEffect(() => {
+    if (!roomId || !user) return
+    setIsLoading(true)
+    return chatService.subscribeToRoom(roomId, (room) => {
+      setCurrentChannel(room)
+      setError(room ? null : 'Conversation not found')
+      setIsLoading(false)
+    })
+  }, [roomId, user])
+
+  useEffect(() => {
+    if (!roomId || !user) return
+    return chatService.subscribeToMessages(roomId, setMessages, user.uid)
+  }, [roomId, user])
+
+  // Reading the open conversation clears its unread count
+  useEffect(() => {
+    if (!isOpen || !roomId || !user || unreadCount === 0) return
+    chatService.markRoomAsRead(roomId, user.uid).catch(() => undefined)
+  }, [isOpen, roomId, user, unreadCount])
+
+  useEffect(() => {
+    if (isOpen) {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+    }
+  }, [isOpen, messages.length])
 
   // ============================================================================
   // POSITION CLASSES
@@ -269,27 +303,49 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
 
-  const sendMessage = async (messageText: string) => {
-    if (!messageText.trim() || !user) return
+  const getSender = () => user
+    ? { id: user.uid, name: user.name || user.displayName || user.email, role: user.role }
+    : null
 
-    console.log('Sending message:', messageText)
-    // Mock implementation
+  const sendMessage = async (messageText: string) => {
+    const sender = getSender()
+    if (!messageText.trim() || !sender || !roomId) return
+
+    try {
+      await chatService.sendMessage(roomId, sender, {
+        content: replyTo ? `> ${replyTo.senderName}: ${replyTo.content.slice(0, 80)}\n${messageText}` : messageText
+      })
+      setReplyTo(null)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message')
+    }
   }
 
   const handleFileUpload = async (file: File) => {
-    if (!user) return
-
-    console.log('Uploading file:', file.name)
-    // Mock implementation
+    const sender = getSender()
+    if (!sender || !roomId) return
+
+    try {
+      await chatService.sendMessage(roomId, sender, { content: '', files: [file] })
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload file')
+    }
   }
 
-  const handleReply = (message: any) => {
+  const handleReply = (message: ChatMessage) => {
     setReplyTo(message)
   }
 
   const handleDeleteMessage = async (messageId: string) => {
-    console.log('Deleting message:', messageId)
-    // Mock implementation
+    if (!user) return
+
+    try {
+      await chatService.removeMessage(messageId, { id: user.uid, role: user.role })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete message')
+    }
   }
 
   // ============================================================================
@@ -358,11 +414,12 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({
               </div>
             ) : (
               <div>
-                {currentChannel && currentChannel.channelUrl && messages?.map((message) => (
+                {currentChannel && messages.map((message) => (
                   <MessageBubble
                     key={message.id}
                     message={message}
-                    isOwnMessage={message.userId === user?.uid}
+                    isOwnMessage={message.senderId === user?.uid}
+                    isRead={chatService.getReadBy(currentChannel, message).length > 0}
                     onReply={handleReply}
                     onDelete={handleDeleteMessage}
                   />
@@ -378,7 +435,7 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({
               theme === 'dark' ? 'border-gray-700 bg-gray-700' : 'border-gray-200 bg-gray-50'
             }`}>
               <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-500">Replying to {replyTo.userId}</span>
+                <span className="text-sm text-gray-500">Replying to {replyTo.senderName}</span>
                 <button
                   onClick={() => setReplyTo(null)}
                   className="text-gray-400 hover:text-gray-600"
@@ -386,7 +443,7 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({
                   <XMarkIcon className="w-4 h-4" />
                 </button>
               </div>
-              <p className="text-sm text-gray-600 truncate">{replyTo.message}</p>
+              <p className="text-sm text-gray-600 truncate">{replyTo.content}</p>
             </div>
           )}
 
@@ -395,7 +452,7 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({
             onSend={sendMessage}
             onFileUpload={handleFileUpload}
             placeholder="Type your message..."
-            disabled={isLoading}
+            disabled={isLoading || !currentChannel}
           />
         </div>
       )}
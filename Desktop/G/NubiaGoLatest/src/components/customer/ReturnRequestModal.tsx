@@ -0,0 +1,202 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Camera, Loader2, X } from 'lucide-react'
+import { Modal } from '@/components/ui/modal'
+import { useToast } from '@/components/ui/toast'
+import { ValidationError } from '@/lib/errors'
+import { MAX_RETURN_PHOTOS, returnService } from '@/lib/services/return.service'
+import { storageService } from '@/lib/services/storage.service'
+import { ReturnReason, ReturnRequest, ReturnResolution } from '@/types'
+
+interface ReturnRequestModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onCreated: (returnRequest: ReturnRequest) => void
+  userId: string
+  orderId: string
+  item: {
+    id: string
+    name: string
+    returnableQuantity: number
+  }
+}
+
+const REASONS: Array<{ value: ReturnReason; label: string }> = [
+  { value: 'damaged', label: 'Arrived damaged' },
+  { value: 'defective', label: 'Defective or not working' },
+  { value: 'wrong_item', label: 'Wrong item received' },
+  { value: 'not_as_described', label: 'Not as described' },
+  { value: 'no_longer_needed', label: 'No longer needed' },
+  { value: 'other', label: 'Other' }
+]
+
+const RESOLUTIONS: Array<{ value: ReturnResolution; label: string; description: string }> = [
+  { value: 'refund', label: 'Refund', description: 'Money back to your original payment method' },
+  { value: 'exchange', label: 'Exchange', description: 'Receive a replacement of the same item' },
+  { value: 'store_credit', label: 'Store credit', description: 'Credit to spend on your next order' }
+]
+
+export default function ReturnRequestModal({ isOpen, onClose, onCreated, userId, orderId, item }: ReturnRequestModalProps) {
+  const { success, error } = useToast()
+  const [quantity, setQuantity] = useState(1)
+  const [reason, setReason] = useState<ReturnReason>('damaged')
+  const [description, setDescription] = useState('')
+  const [resolution, setResolution] = useState<ReturnResolution>('refund')
+  const [photos, setPhotos] = useState<File[]>([])
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({})
+  const [submitting, setSubmitting] = useState(false)
+
+  const handlePhotoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || [])
+    setPhotos(current => [...current, ...selected].slice(0, MAX_RETURN_PHOTOS))
+    event.target.value = ''
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setSubmitting(true)
+    setFieldErrors({})
+
+    try {
+      const uploads = photos.length > 0 ? await storageService.uploadReturnPhotos(userId, photos) : []
+      const returnRequest = await returnService.createReturnRequest(userId, {
+        orderId,
+        orderItemId: item.id,
+        quantity,
+        reason,
+        description,
+        photos: uploads.map(upload => upload.url),
+        resolution
+      })
+
+      success('Return requested', `Your return ${returnRequest.rmaNumber} has been sent to the seller`)
+      onCreated(returnRequest)
+      onClose()
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        setFieldErrors(err.fieldErrors)
+      }
+      error('Could not request return', err instanceof Error ? err.message : undefined)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Return ${item.name}`} size="lg">
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+          <select
+            value={quantity}
+            onChange={(e) => setQuantity(Number(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {Array.from({ length: item.returnableQuantity }, (_, index) => index + 1).map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+          {fieldErrors.quantity && <p className="mt-1 text-sm text-red-600">{fieldErrors.quantity[0]}</p>}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as ReturnReason)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {REASONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Details</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+            placeholder="Tell the seller what went wrong"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          {fieldErrors.description && <p className="mt-1 text-sm text-red-600">{fieldErrors.description[0]}</p>}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Photos <span className="text-gray-500 font-normal">(up to {MAX_RETURN_PHOTOS})</span>
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {photos.map((photo, index) => (
+              <span key={`${photo.name}-${index}`} className="inline-flex items-center px-2 py-1 bg-gray-100 rounded text-sm text-gray-700">
+                {photo.name}
+                <button
+                  type="button"
+                  onClick={() => setPhotos(current => current.filter((_, i) => i !== index))}
+                  className="ml-1 text-gray-500 hover:text-gray-700"
+                  aria-label={`Remove ${photo.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+            {photos.length < MAX_RETURN_PHOTOS && (
+              <label className="inline-flex items-center px-3 py-1 border border-dashed border-gray-300 rounded cursor-pointer text-sm text-gray-600 hover:bg-gray-50">
+                <Camera className="h-4 w-4 mr-1" />
+                Add photo
+                <input type="file" accept="image/*" multiple onChange={handlePhotoChange} className="hidden" />
+              </label>
+            )}
+          </div>
+          {fieldErrors.photos && <p className="mt-1 text-sm text-red-600">{fieldErrors.photos[0]}</p>}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Preferred resolution</label>
+          <div className="space-y-2">
+            {RESOLUTIONS.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-start p-3 border rounded-lg cursor-pointer ${resolution === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}
+              >
+                <input
+                  type="radio"
+                  name="resolution"
+                  value={option.value}
+                  checked={resolution === option.value}
+                  onChange={() => setResolution(option.value)}
+                  className="mt-1 mr-3"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                  <span className="block text-sm text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Request Return
+          </button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
@@ -9,6 +9,7 @@ import {
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/form'
 import { useFirebaseAuth } from '@/hooks/useFirebaseAuth'
+import { TwoFactorSettings } from '@/components/auth/two-factor-settings'
 
 interface UserProfile {
   firstName: string
@@ -33,7 +34,6 @@ interface UserProfile {
     theme: 'light' | 'dark'
   }
   security: {
-    twoFactorEnabled: boolean
     lastPasswordChange: string
     lastLogin: string
   }
@@ -64,7 +64,6 @@ export default function CustomerProfile() {
       theme: 'light'
     },
     security: {
-      twoFactorEnabled: false,
       lastPasswordChange: '',
       lastLogin: ''
     }
@@ -441,18 +440,7 @@ export default function CustomerProfile() {
                 </div>
                 <div className="p-6 space-y-6">
                   {/* Two-Factor Authentication */}
-                  <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
-                    <div>
-                      <h3 className="text-sm font-medium text-gray-900">Two-Factor Authentication</h3>
-                      <p className="text-sm text-gray-600">Add an extra layer of security to your account</p>
-                    </div>
-                    <Button
-                      variant={profile.security.twoFactorEnabled ? "outline" : "primary"}
-                      size="sm"
-                    >
-                      {profile.security.twoFactorEnabled ? 'Disable' : 'Enable'}
-                    </Button>
-                  </div>
+                  <TwoFactorSettings />
 
                   {/* Password */}
                   <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
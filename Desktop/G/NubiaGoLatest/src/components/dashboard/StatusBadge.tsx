@@ -39,6 +39,30 @@ export default function StatusBadge({
       'unpaid': { color: 'text-red-700', bgColor: 'bg-red-100', icon: XCircle, label: 'Unpaid' },
       'refunded': { color: 'text-gray-700', bgColor: 'bg-gray-100', icon: CreditCard, label: 'Refunded' },
       
+      // Settlement statuses
+      'pending_approval': { color: 'text-yellow-700', bgColor: 'bg-yellow-100', icon: Clock, label: 'Pending Approval' },
+      'approved': { color: 'text-blue-700', bgColor: 'bg-blue-100', icon: CheckCircle, label: 'Approved' },
+      'rejected': { color: 'text-red-700', bgColor: 'bg-red-100', icon: XCircle, label: 'Rejected' },
+      'failed': { color: 'text-red-700', bgColor: 'bg-red-100', icon: XCircle, label: 'Failed' },
+      'open': { color: 'text-yellow-700', bgColor: 'bg-yellow-100', icon: Clock, label: 'Open' },
+      'completed': { color: 'text-green-700', bgColor: 'bg-green-100', icon: CheckCircle, label: 'Completed' },
+      
+      // Return statuses
+      'requested': { color: 'text-yellow-700', bgColor: 'bg-yellow-100', icon: Clock, label: 'Requested' },
+      'label_issued': { color: 'text-blue-700', bgColor: 'bg-blue-100', icon: Package, label: 'Label Issued' },
+      'in_transit': { color: 'text-blue-700', bgColor: 'bg-blue-100', icon: Truck, label: 'In Transit' },
+      'received': { color: 'text-orange-700', bgColor: 'bg-orange-100', icon: Package, label: 'Received' },
+      'refunding': { color: 'text-blue-700', bgColor: 'bg-blue-100', icon: Clock, label: 'Refunding' },
+      'credited': { color: 'text-green-700', bgColor: 'bg-green-100', icon: CreditCard, label: 'Credited' },
+      'exchanged': { color: 'text-green-700', bgColor: 'bg-green-100', icon: CheckCircle, label: 'Exchanged' },
+      
+      // Support ticket statuses
+      'in_progress': { color: 'text-blue-700', bgColor: 'bg-blue-100', icon: Clock, label: 'In Progress' },
+      'waiting': { color: 'text-orange-700', bgColor: 'bg-orange-100', icon: Clock, label: 'Waiting on Reply' },
+      'escalated': { color: 'text-red-700', bgColor: 'bg-red-100', icon: AlertCircle, label: 'Escalated' },
+      'resolved': { color: 'text-green-700', bgColor: 'bg-green-100', icon: CheckCircle, label: 'Resolved' },
+      'closed': { color: 'text-gray-700', bgColor: 'bg-gray-100', icon: XCircle, label: 'Closed' },
+      
       // User statuses
       'active': { color: 'text-green-700', bgColor: 'bg-green-100', icon: CheckCircle, label: 'Active' },
       'inactive': { color: 'text-gray-700', bgColor: 'bg-gray-100', icon: Clock, label: 'Inactive' },
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import Link from 'next/link'
 import { useRouter, usePathname } from 'next/navigation'
 import { createPortal } from 'react-dom'
@@ -52,10 +52,13 @@ import {
 import { Logo } from '@/components/ui/Logo'
 import { Button } from '@/components/ui/button'
 import { ThemeToggle } from '@/components/ui/theme-toggle'
+import { CurrencySelector } from '@/components/ui/currency-selector'
 import { useFirebaseAuth } from '@/hooks/useFirebaseAuth'
 import { CartService } from '@/lib/services/cart.service'
 import { WishlistService } from '@/lib/services/wishlist.service'
+import { notificationService } from '@/lib/services/notification.service'
 import { logger } from '@/lib/utils/logger'
+import { Notification as UserNotification } from '@/types'
 
 interface NavigationProps {
   onMenuToggle?: () => void;
@@ -72,6 +75,10 @@ export default function Navigation({ onMenuToggle }: NavigationProps) {
   const [dropdownPosition, setDropdownPosition] = useState({ top: 0, left: 0, width: 0 })
   const [cartItemCount, setCartItemCount] = useState(0)
   const [wishlistItemCount, setWishlistItemCount] = useState(0)
+  const [isNotificationsOpen, setIsNotificationsOpen] = useState(false)
+  const [notifications, setNotifications] = useState<UserNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const seenNotificationIds = useRef<Set<string> | null>(null)
   
   const router = useRouter()
   const pathname = usePathname()
@@ -141,6 +148,62 @@ export default function Navigation({ onMenuToggle }: NavigationProps) {
     fetchCounts()
   }, [fetchCounts])
 
+  // Keep the bell in sync with the user's notifications. Anything that arrives while
+  // the page is open and was sent on the push channel is also shown by the browser.
+  useEffect(() => {
+    if (!user?.uid) {
+      setNotifications([])
+      setUnreadCount(0)
+      seenNotificationIds.current = null
+      return
+    }
+
+    return notificationService.subscribeToNotifications(user.uid, (latest, unread) => {
+      const seen = seenNotificationIds.current
+      if (seen && typeof window !== 'undefined' && 'Notification' in window && window.Notification.permission === 'granted') {
+        latest
+          .filter(notification => !seen.has(notification.id) && !notification.isRead && notification.channels.includes('push'))
+          .forEach(notification => new window.Notification(notification.title, { body: notification.message }))
+      }
+      seenNotificationIds.current = new Set([...(seen || []), ...latest.map(notification => notification.id)])
+      setNotifications(latest)
+      setUnreadCount(unread)
+    })
+  }, [user?.uid])
+
+  const handleNotificationsToggle = () => {
+    const opening = !isNotificationsOpen
+    setIsNotificationsOpen(opening)
+    // Ask for browser notification permission the first time the bell is opened
+    if (opening && typeof window !== 'undefined' && 'Notification' in window && window.Notification.permission === 'default') {
+      window.Notification.requestPermission().catch(() => undefined)
+    }
+  }
+
+  const handleNotificationClick = async (notification: UserNotification) => {
+    setIsNotificationsOpen(false)
+    if (!user?.uid) return
+    try {
+      if (!notification.isRead) {
+        await notificationService.markAsRead(notification.id, user.uid)
+      }
+    } catch (error) {
+      logger.error('Error marking notification as read:', error)
+    }
+    if (notification.link) {
+      router.push(notification.link)
+    }
+  }
+
+  const handleMarkAllNotificationsRead = async () => {
+    if (!user?.uid) return
+    try {
+      await notificationService.markAllAsRead(user.uid)
+    } catch (error) {
+      logger.error('Error marking notifications as read:', error)
+    }
+  }
+
   useEffect(() => {
     if (!isClient) return
 
@@ -321,6 +384,9 @@ export default function Navigation({ onMenuToggle }: NavigationProps) {
                 Browse Products
               </Link>
               
+              {/* Currency */}
+              <CurrencySelector className="hidden sm:block" />
+
               {/* Wishlist */}
               <Link href="/wishlist" className="relative p-2 text-gray-700 hover:text-primary-600 transition-colors">
                 <Heart className="h-5 w-5" />
@@ -341,6 +407,75 @@ export default function Navigation({ onMenuToggle }: NavigationProps) {
                 )}
               </Link>
 
+              {/* Notifications */}
+              {user && (
+                <div className="relative">
+                  <button
+                    onClick={handleNotificationsToggle}
+                    className="relative p-2 text-gray-700 hover:text-primary-600 transition-colors"
+                    aria-label="Notifications"
+                  >
+                    <Bell className="h-5 w-5" />
+                    {isClient && unreadCount > 0 && (
+                      <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-5 min-w-[1.25rem] px-1 flex items-center justify-center">
+                        {unreadCount > 99 ? '99+' : unreadCount}
+                      </span>
+                    )}
+                  </button>
+
+                  {isNotificationsOpen && (
+                    <>
+                      <div
+                        className="fixed inset-0 z-40"
+                        onClick={() => setIsNotificationsOpen(false)}
+                      />
+                      <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-xl border border-gray-200 z-50">
+                        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+                          <span className="font-semibold text-gray-900">Notifications</span>
+                          {unreadCount > 0 && (
+                            <button
+                              onClick={handleMarkAllNotificationsRead}
+                              className="text-xs text-primary-600 hover:text-primary-700"
+                            >
+                              Mark all read
+                            </button>
+                          )}
+                        </div>
+                        <div className="max-h-96 overflow-y-auto">
+                          {notifications.length === 0 ? (
+                            <p className="px-4 py-6 text-sm text-gray-500 text-center">You&apos;re all caught up.</p>
+                          ) : (
+                            notifications.map((notification) => (
+                              <button
+                                key={notification.id}
+                                onClick={() => handleNotificationClick(notification)}
+                                className={`w-full text-left px-4 py-3 border-b border-gray-100 hover:bg-gray-50 transition-colors ${notification.isRead ? '' : 'bg-blue-50'}`}
+                              >
+                                <div className="flex items-start justify-between">
+                                  <span className={`text-sm ${notification.isRead ? 'text-gray-700' : 'font-medium text-gray-900'}`}>
+                                    {notification.title}
+                                  </span>
+                                  {!notification.isRead && <span className="mt-1.5 ml-2 h-2 w-2 rounded-full bg-blue-600 flex-shrink-0" />}
+                                </div>
+                                <p className="text-xs text-gray-600 mt-1 line-clamp-2">{notification.message}</p>
+                                <p className="text-xs text-gray-400 mt-1">{notification.createdAt.toLocaleString()}</p>
+                              </button>
+                            ))
+                          )}
+                        </div>
+                        <Link
+                          href="/customer/notifications"
+                          onClick={() => setIsNotificationsOpen(false)}
+                          className="block px-4 py-2 text-sm text-center text-primary-600 hover:bg-gray-50 rounded-b-lg"
+                        >
+                          View all notifications
+                        </Link>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
               {/* Theme Toggle */}
               <ThemeToggle />
 
@@ -1,7 +1,8 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
-import { useMobileMoneyStore, MobileMoneyPaymentRequest } from '@/lib/services/mobile-money.service'
+import type { MobileMoneyPaymentRequest } from '@/lib/services/mobile-money/gateway'
+import { useMobileMoneyStore } from '@/store/mobile-money'
 import { useFirebaseAuth } from '@/hooks/useFirebaseAuth'
 import { Smartphone, Globe, Phone, User, Mail, Shield, CheckCircle, AlertCircle, Clock } from 'lucide-react'
 
@@ -1,27 +1,28 @@
 'use client'
 
-import React, { useState } from 'react'
+import React, { useEffect, useMemo, useState } from 'react'
 import Link from 'next/link'
-import { ArrowLeft, Star, Heart, ShoppingCart, Share2, Eye, Truck, Shield, CheckCircle, Minus, Plus, MessageCircle, ThumbsUp, ThumbsDown, Check } from 'lucide-react'
-import { Product } from '@/types'
+import { ArrowLeft, Star, Heart, ShoppingCart, Share2, Eye, Truck, Shield, CheckCircle, Minus, Plus, Check } from 'lucide-react'
+import { Product, ProductReview } from '@/types'
 import SwipeableGallery from '@/components/mobile/SwipeableGallery'
 import { useCartStore } from '@/store/cart'
+import { useAuth } from '@/hooks/useAuth'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import { useToast } from '@/components/ui/toast'
+import { cartService } from '@/lib/services/cart.service'
+import { toDate } from '@/lib/utils/dates'
+import { findVariantByAttributes, getVariantOptionAxes, hasVariants, toVariantSnapshot } from '@/lib/product-variants'
 import { AIRecommendations, SimilarProducts } from '@/components/product/ai-recommendations'
+import ProductReviews from '@/components/product/product-reviews'
 
-interface Review {
-  id: string
-  userId: string
-  userName: string
-  userAvatar?: string
-  rating: number
-  title: string
-  comment: string
-  createdAt: Date
-  helpful: number
-  notHelpful: number
-  verified: boolean
-  images?: string[]
-}
+// Reviews from the API carry their dates as ISO strings
+const toReview = (review: ProductReview): ProductReview => ({
+  ...review,
+  createdAt: toDate(review.createdAt)!,
+  supplierReply: review.supplierReply
+    ? { ...review.supplierReply, createdAt: toDate(review.supplierReply.createdAt)! }
+    : undefined
+})
 
 interface ProductDetailClientProps {
   product: Product
@@ -32,10 +33,46 @@ export default function ProductDetailClient({ product }: ProductDetailClientProp
   const [quantity, setQuantity] = useState(1)
   const [isWishlisted, setIsWishlisted] = useState(false)
   const [isAdding, setIsAdding] = useState(false)
-  
+  const [addError, setAddError] = useState<string | null>(null)
+
+  // Variant selection: one value per option axis, starting from the first variant in stock
+  const optionAxes = useMemo(() => getVariantOptionAxes(product), [product])
+  const [selection, setSelection] = useState<Record<string, string>>(() => {
+    const initial = product.variants?.find(variant => variant.inStock) || product.variants?.[0]
+    return initial ? { ...initial.attributes } : {}
+  })
+  const selectedVariant = hasVariants(product) ? findVariantByAttributes(product, selection) : undefined
+  const price = selectedVariant ? selectedVariant.price : product.price
+  const originalPrice = selectedVariant ? selectedVariant.originalPrice : product.originalPrice
+  const maxQuantity = selectedVariant?.stock ?? 999
+  const images = selectedVariant?.image
+    ? [selectedVariant.image, ...(product.images || []).filter(image => image !== selectedVariant.image)]
+    : product.images
+
+  const { user } = useAuth()
+  const { fetchWithCSRF } = useCSRFFetch()
+  const { success: toastSuccess, error: toastError } = useToast()
+  const [reviews, setReviews] = useState<ProductReview[]>([])
+  const [canReview, setCanReview] = useState(false)
   const { addItem, items } = useCartStore()
-  const isInCart = items.some(item => item.productId === product.id)
-  const isOutOfStock = !product.inStock
+  const isInCart = items.some(item => item.productId === product.id && item.variantId === selectedVariant?.id)
+  const isOutOfStock = hasVariants(product)
+    ? !selectedVariant || !selectedVariant.inStock || selectedVariant.stock === 0
+    : !product.inStock
+
+  // A value is selectable if some in-stock variant has it together with the other current choices
+  const isOptionAvailable = (axisName: string, value: string) =>
+    (product.variants || []).some(variant =>
+      variant.inStock && variant.stock !== 0 &&
+      variant.attributes[axisName] === value &&
+      Object.entries(selection).every(([name, selected]) => name === axisName || variant.attributes[name] === selected)
+    )
+
+  const handleSelectOption = (axisName: string, value: string) => {
+    setSelection(current => ({ ...current, [axisName]: value }))
+    setQuantity(1)
+    setAddError(null)
+  }
 
   const handleAddToCart = async () => {
     if (isOutOfStock) return
@@ -46,8 +83,12 @@ export default function ProductDetailClient({ product }: ProductDetailClientProp
     }
 
     setIsAdding(true)
+    setAddError(null)
     try {
-      await new Promise(resolve => setTimeout(resolve, 500))
+      // Signed-in carts live in Firestore, which checkout reads from
+      if (user?.uid) {
+        await cartService.addToCart(user.uid, product.id, quantity, selectedVariant?.id)
+      }
       addItem({
         id: product.id,
         name: product.name,
@@ -58,45 +99,102 @@ export default function ProductDetailClient({ product }: ProductDetailClientProp
         rating: product.rating || 0,
         reviewCount: product.reviewCount || 0,
         inStock: product.inStock
-      }, quantity)
+      }, quantity, selectedVariant ? { ...toVariantSnapshot(selectedVariant), price: selectedVariant.price } : undefined)
     } catch (error) {
       console.error('Failed to add to cart:', error)
+      setAddError(error instanceof Error ? error.message : 'Failed to add to cart')
     } finally {
       setIsAdding(false)
     }
   }
 
   const handleQuantityChange = (delta: number) => {
-    const newQuantity = Math.max(1, Math.min(product.inStock ? 999 : 0, quantity + delta))
+    const newQuantity = Math.max(1, Math.min(isOutOfStock ? 0 : maxQuantity, quantity + delta))
     setQuantity(newQuantity)
   }
 
-  const mockReviews: Review[] = [
-    {
-      id: '1',
-      userId: 'user1',
-      userName: 'John Doe',
-      rating: 5,
-      title: 'Excellent sound quality!',
-      comment: 'These headphones exceeded my expectations. The sound quality is amazing and the battery life is impressive. Very comfortable for long listening sessions.',
-      createdAt: new Date('2024-01-20'),
-      helpful: 12,
-      notHelpful: 0,
-      verified: true
-    },
-    {
-      id: '2',
-      userId: 'user2',
-      userName: 'Jane Smith',
-      rating: 4,
-      title: 'Great headphones with minor issues',
-      comment: 'Overall great product. Sound quality is excellent and the noise cancellation works well. The only downside is the ear cushions could be a bit softer.',
-      createdAt: new Date('2024-01-18'),
-      helpful: 8,
-      notHelpful: 2,
-      verified: true
+  // Published reviews for everyone; customers with a delivered order for this
+  // product also get the review form
+  useEffect(() => {
+    fetch(`/api/reviews?productId=${encodeURIComponent(product.id)}`)
+      .then(response => response.json())
+      .then(result => setReviews((result.data?.reviews || []).map(toReview)))
+      .catch(error => console.error('Failed to load reviews:', error))
+  }, [product.id])
+
+  useEffect(() => {
+    if (user?.role !== 'customer') {
+      setCanReview(false)
+      return
+    }
+    fetch(`/api/reviews/eligibility?productId=${encodeURIComponent(product.id)}`)
+      .then(response => response.json())
+      .then(result => setCanReview(!!result.data?.eligible))
+      .catch(() => setCanReview(false))
+  }, [product.id, user?.role])
+
+  const handleAddReview = async (review: { rating: number; title: string; comment: string }, photos: File[]) => {
+    const formData = new FormData()
+    formData.append('productId', product.id)
+    formData.append('rating', String(review.rating))
+    formData.append('title', review.title)
+    formData.append('comment', review.comment)
+    photos.forEach(photo => formData.append('photos', photo))
+
+    try {
+      const response = await fetchWithCSRF('/api/reviews', { method: 'POST', body: formData })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+      setReviews(current => [toReview(result.data.review), ...current])
+      setCanReview(false)
+      toastSuccess(result.message)
+    } catch (error) {
+      toastError('Review not submitted', error instanceof Error ? error.message : 'Please try again')
+    }
+  }
+
+  const handleHelpful = async (reviewId: string, isHelpful: boolean) => {
+    if (!user) {
+      toastError('Sign in to vote on reviews')
+      return
+    }
+    try {
+      const response = await fetchWithCSRF(`/api/reviews/${reviewId}/vote`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ vote: isHelpful ? 'helpful' : 'not_helpful' })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+      setReviews(current => current.map(review => review.id === reviewId
+        ? { ...review, likes: result.data.likes, dislikes: result.data.dislikes }
+        : review))
+    } catch (error) {
+      toastError('Vote not recorded', error instanceof Error ? error.message : 'Please try again')
     }
-  ]
+  }
+
+  const handleReport = async (reviewId: string) => {
+    const reason = window.prompt('Why are you reporting this review?')
+    if (!reason?.trim()) return
+    try {
+      const response = await fetchWithCSRF(`/api/reviews/${reviewId}/report`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+      toastSuccess(result.message)
+    } catch (error) {
+      toastError('Report not sent', error instanceof Error ? error.message : 'Please try again')
+    }
+  }
+
+  const ratingDistribution = reviews.reduce<Record<number, number>>((distribution, review) => ({
+    ...distribution,
+    [review.rating]: (distribution[review.rating] || 0) + 1
+  }), {})
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -146,7 +244,7 @@ export default function ProductDetailClient({ product }: ProductDetailClientProp
           <div className="space-y-4">
             <div className="relative">
               <SwipeableGallery
-                images={product.images || ['/images/placeholder-product.png']}
+                images={images || ['/images/placeholder-product.png']}
                 showThumbnails={true}
                 showNavigation={true}
                 autoPlay={false}
@@ -154,9 +252,9 @@ export default function ProductDetailClient({ product }: ProductDetailClientProp
               />
               
               {/* Discount Badge */}
-              {product.originalPrice && (
+              {originalPrice && (
                 <div className="absolute top-2 left-2 bg-red-500 text-white px-2 py-1 rounded text-xs font-medium z-10">
-                  {Math.round(((product.originalPrice - product.price) / product.originalPrice) * 100)}% OFF
+                  {Math.round(((originalPrice - price) / originalPrice) * 100)}% OFF
                 </div>
               )}
             </div>
@@ -167,17 +265,55 @@ export default function ProductDetailClient({ product }: ProductDetailClientProp
             {/* Price Section */}
             <div className="bg-white border border-gray-200 rounded-lg p-6">
               <div className="flex items-baseline gap-3 mb-4">
-                <span className="text-3xl font-bold text-gray-900">${product.price.toLocaleString()}</span>
-                {product.originalPrice && (
-                  <span className="text-lg text-gray-400 line-through">${product.originalPrice.toLocaleString()}</span>
+                <span className="text-3xl font-bold text-gray-900">${price.toLocaleString()}</span>
+                {originalPrice && (
+                  <span className="text-lg text-gray-400 line-through">${originalPrice.toLocaleString()}</span>
                 )}
               </div>
+
+              {/* Variant Options */}
+              {optionAxes.length > 0 && (
+                <div className="space-y-4 mb-4">
+                  {optionAxes.map(axis => (
+                    <div key={axis.name}>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {axis.name}{selection[axis.name] && <span className="font-normal text-gray-500">: {selection[axis.name]}</span>}
+                      </label>
+                      <div className="flex flex-wrap gap-2">
+                        {axis.values.map(value => {
+                          const isSelected = selection[axis.name] === value
+                          const isAvailable = isOptionAvailable(axis.name, value)
+                          return (
+                            <button
+                              key={value}
+                              type="button"
+                              onClick={() => handleSelectOption(axis.name, value)}
+                              aria-pressed={isSelected}
+                              className={`px-3 py-1.5 text-sm rounded-md border transition-colors ${
+                                isSelected
+                                  ? 'border-blue-600 bg-blue-50 text-blue-700'
+                                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                              } ${isAvailable ? '' : 'line-through text-gray-400'}`}
+                            >
+                              {value}
+                            </button>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
               
               {/* Stock Status */}
               <div className="mb-4">
-                <span className={`px-4 py-2 text-sm rounded-md ${product.inStock ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
-                  {product.inStock ? 'In Stock' : 'Out of Stock'}
+                <span className={`px-4 py-2 text-sm rounded-md ${!isOutOfStock ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                  {!isOutOfStock ? 'In Stock' : hasVariants(product) && !selectedVariant ? 'Unavailable' : 'Out of Stock'}
                 </span>
+                {selectedVariant?.stock !== undefined && selectedVariant.stock > 0 && selectedVariant.stock <= 10 && (
+                  <span className="ml-2 text-sm text-orange-600">Only {selectedVariant.stock} left</span>
+                )}
+                {selectedVariant && <span className="ml-2 text-xs text-gray-500">SKU: {selectedVariant.sku}</span>}
               </div>
 
               {/* Trust Indicators */}
@@ -211,7 +347,7 @@ export default function ProductDetailClient({ product }: ProductDetailClientProp
                     <span className="w-12 text-center font-medium text-gray-900">{quantity}</span>
                     <button 
                       onClick={() => handleQuantityChange(1)}
-                      disabled={quantity >= (product.inStock ? 999 : 0)}
+                      disabled={quantity >= maxQuantity}
                       className="w-8 h-8 rounded border border-gray-300 hover:bg-gray-50 flex items-center justify-center transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       <Plus className="h-4 w-4 text-gray-600" />
@@ -252,6 +388,7 @@ export default function ProductDetailClient({ product }: ProductDetailClientProp
                     </>
                   )}
                 </button>
+                {addError && <p className="text-sm text-red-600">{addError}</p>}
                 <button className="w-full bg-white border border-blue-600 text-blue-600 py-3 rounded-md font-medium hover:bg-blue-50 transition-colors flex items-center justify-center">
                   <Eye className="h-4 w-4 mr-2" />
                   Quick View
@@ -304,64 +441,30 @@ export default function ProductDetailClient({ product }: ProductDetailClientProp
         />
 
         {/* Reviews */}
-        <div className="bg-white border border-gray-200 rounded-lg p-6 mt-6">
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="text-lg font-semibold text-gray-900">Customer Reviews</h2>
-            <button className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md font-medium hover:bg-blue-700 transition-colors">
-              <MessageCircle className="h-4 w-4 mr-2" />
-              Write Review
-            </button>
-          </div>
-          
-          <div className="space-y-4">
-            {mockReviews.map((review) => (
-              <div key={review.id} className="border border-gray-100 rounded-lg p-4">
-                <div className="flex items-start justify-between mb-3">
-                  <div className="flex items-center space-x-3">
-                    <div className="w-8 h-8 bg-blue-600 rounded-full flex items-center justify-center text-white font-medium text-sm">
-                      {review.userName.charAt(0)}
-                    </div>
-                    <div>
-                      <div className="font-medium text-gray-900">{review.userName}</div>
-                      <div className="flex items-center space-x-2">
-                        <div className="flex items-center">
-                          {[...Array(5)].map((_, i) => (
-                            <Star
-                              key={i}
-                              className={`h-3 w-3 ${
-                                i < review.rating ? 'text-yellow-400 fill-current' : 'text-gray-300'
-                              }`}
-                            />
-                          ))}
-                        </div>
-                        {review.verified && (
-                          <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded">Verified</span>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                  <span className="text-sm text-gray-500">{review.createdAt.toLocaleDateString()}</span>
-                </div>
-                
-                <h4 className="font-medium text-gray-900 mb-2">{review.title}</h4>
-                <p className="text-gray-600 text-sm mb-3">{review.comment}</p>
-                
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-4 text-sm text-gray-500">
-                    <button className="flex items-center space-x-1 hover:text-blue-600 transition-colors">
-                      <ThumbsUp className="h-3 w-3" />
-                      <span>{review.helpful}</span>
-                    </button>
-                    <button className="flex items-center space-x-1 hover:text-red-600 transition-colors">
-                      <ThumbsDown className="h-3 w-3" />
-                      <span>{review.notHelpful}</span>
-                    </button>
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
-        </div>
+        <ProductReviews
+          reviews={reviews.map(review => ({
+            id: review.id,
+            userId: review.userId,
+            userName: review.userName,
+            userAvatar: review.userAvatar,
+            rating: review.rating,
+            title: review.title || '',
+            comment: review.comment,
+            createdAt: review.createdAt,
+            helpful: review.likes || 0,
+            notHelpful: review.dislikes || 0,
+            verified: !!review.verifiedPurchase,
+            images: review.images,
+            supplierReply: review.supplierReply
+          }))}
+          averageRating={product.rating || 0}
+          totalReviews={Math.max(product.reviewCount || 0, reviews.length)}
+          ratingDistribution={ratingDistribution}
+          onAddReview={canReview ? handleAddReview : undefined}
+          onHelpful={handleHelpful}
+          onReport={user ? handleReport : undefined}
+          className="mt-6"
+        />
       </div>
     </div>
   )
@@ -21,13 +21,6 @@ interface AdminProductFormData extends ProductFormData {
   shippingWeight?: number
   isDigital: boolean
   downloadUrl?: string
-  variants?: Array<{
-    id: string
-    name: string
-    sku: string
-    price: number
-    stock: number
-  }>
 }
 
 interface AdminProductFormProps extends Omit<ProductFormProps, 'mode' | 'onSubmit'> {
@@ -129,7 +122,7 @@ export default function AdminProductForm({
         shippingWeight: adminFormData.shippingWeight || 0,
         isDigital: adminFormData.isDigital,
         downloadUrl: adminFormData.downloadUrl || '',
-        variants: adminFormData.variants || []
+        variants: baseData.variants || []
       }
 
       await onSubmit(combinedData)
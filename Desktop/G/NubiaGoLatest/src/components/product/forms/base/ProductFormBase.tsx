@@ -6,9 +6,11 @@ import {
   Package, Upload, Save, X, Plus, Trash2, 
   DollarSign, Tag, FileText, Image as ImageIcon,
   ChevronLeft, ChevronRight, CheckCircle, AlertCircle,
-  Camera, Edit3, Eye, Download, Copy, Search
+  Camera, Edit3, Eye, Download, Copy, Search, Layers
 } from 'lucide-react'
 import { useToast } from '@/components/ui/toast'
+import { generateVariantMatrix } from '@/lib/product-variants'
+import { ProductVariant, VariantOptionAxis } from '@/types/product'
 import Image from 'next/image'
 
 export interface ProductFormData {
@@ -38,6 +40,9 @@ export interface ProductFormData {
   sizeCharts?: string
   fitGuides?: string
   otherDetails?: string
+  // Option axes (e.g. Size, Color) and one variant per combination, each with its own SKU and stock
+  variantOptions?: VariantOptionAxis[]
+  variants?: ProductVariant[]
 }
 
 export interface ProductFormProps {
@@ -85,6 +90,8 @@ export default function ProductFormBase({
     sizeCharts: '',
     fitGuides: '',
     otherDetails: '',
+    variantOptions: [],
+    variants: [],
     ...initialData
   })
 
@@ -93,6 +100,7 @@ export default function ProductFormBase({
   const [currentStep, setCurrentStep] = useState(1)
   const [showPreview, setShowPreview] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
+  const [newOptionValues, setNewOptionValues] = useState<Record<number, string>>({})
 
   // Form steps configuration
   const steps = [
@@ -111,7 +119,8 @@ export default function ProductFormBase({
       case 2:
         return true // Optional fields
       case 3:
-        return !!(formData.price > 0 && formData.stock >= 0)
+        return !!(formData.price > 0 && formData.stock >= 0) &&
+          (formData.variants || []).every(variant => variant.sku && variant.price > 0)
       case 4:
         return formData.images.length > 0
       case 5:
@@ -153,6 +162,62 @@ export default function ProductFormBase({
     })
   }
 
+  // Variant option axes
+  const handleAddOptionAxis = () => {
+    handleFieldChange('variantOptions', [...(formData.variantOptions || []), { name: '', values: [] }])
+  }
+
+  const handleOptionAxisNameChange = (index: number, name: string) => {
+    handleFieldChange('variantOptions', (formData.variantOptions || []).map((axis, i) => i === index ? { ...axis, name } : axis))
+  }
+
+  const handleRemoveOptionAxis = (index: number) => {
+    handleFieldChange('variantOptions', (formData.variantOptions || []).filter((_, i) => i !== index))
+  }
+
+  const handleAddOptionValue = (index: number) => {
+    const value = (newOptionValues[index] || '').trim()
+    const axis = formData.variantOptions?.[index]
+    if (!value || !axis || axis.values.includes(value)) return
+    handleFieldChange('variantOptions', (formData.variantOptions || []).map((a, i) => i === index ? { ...a, values: [...a.values, value] } : a))
+    setNewOptionValues(prev => ({ ...prev, [index]: '' }))
+  }
+
+  const handleRemoveOptionValue = (index: number, value: string) => {
+    handleFieldChange('variantOptions', (formData.variantOptions || []).map((a, i) => i === index ? { ...a, values: a.values.filter(v => v !== value) } : a))
+  }
+
+  // Build the variant matrix from the option axes, keeping values already entered
+  const handleGenerateVariants = () => {
+    if (!formData.sku) {
+      error('Enter a base SKU first', 'Variant SKUs are derived from the product SKU')
+      return
+    }
+    const variants = generateVariantMatrix(formData.variantOptions || [], {
+      sku: formData.sku,
+      price: formData.price,
+      originalPrice: formData.comparePrice || undefined,
+      stock: formData.stock
+    }, formData.variants)
+    if (variants.length === 0) {
+      error('Add at least one option with values')
+      return
+    }
+    handleFieldChange('variants', variants)
+  }
+
+  const handleVariantChange = (variantId: string, field: 'sku' | 'price' | 'stock', value: string | number) => {
+    handleFieldChange('variants', (formData.variants || []).map(variant => {
+      if (variant.id !== variantId) return variant
+      const updated = { ...variant, [field]: value }
+      return field === 'stock' ? { ...updated, inStock: Number(value) > 0 } : updated
+    }))
+  }
+
+  const handleRemoveVariant = (variantId: string) => {
+    handleFieldChange('variants', (formData.variants || []).filter(variant => variant.id !== variantId))
+  }
+
   // Add tag
   const handleAddTag = () => {
     if (newTag.trim() && !formData.tags.includes(newTag.trim())) {
@@ -228,6 +293,23 @@ export default function ProductFormBase({
       return
     }
 
+    const variants = formData.variants || []
+    if (variants.length > 0) {
+      const skus = variants.map(variant => variant.sku.trim().toUpperCase())
+      if (skus.some(sku => !sku)) {
+        error('Every variant needs a SKU')
+        return
+      }
+      if (new Set(skus).size !== skus.length) {
+        error('Variant SKUs must be unique')
+        return
+      }
+      if (variants.some(variant => !(variant.price > 0))) {
+        error('Every variant needs a price')
+        return
+      }
+    }
+
     try {
       await onSubmit(formData)
       success(`Product ${mode === 'admin' ? 'created' : 'submitted for approval'} successfully!`)
@@ -632,6 +714,156 @@ export default function ProductFormBase({
                     </div>
                   </div>
 
+                  {/* Variants */}
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <h4 className="text-lg font-semibold text-gray-900 flex items-center">
+                        <Layers className="h-5 w-5 mr-2 text-primary-600" />
+                        Variants
+                      </h4>
+                      <button
+                        type="button"
+                        onClick={handleAddOptionAxis}
+                        className="flex items-center px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Option
+                      </button>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      Add options such as Size or Color, then generate one variant per combination. Each variant has its own SKU, price and stock.
+                    </p>
+
+                    {(formData.variantOptions || []).map((axis, index) => (
+                      <div key={index} className="p-4 border border-gray-200 rounded-lg space-y-3">
+                        <div className="flex items-center gap-3">
+                          <input
+                            type="text"
+                            value={axis.name}
+                            onChange={(e) => handleOptionAxisNameChange(index, e.target.value)}
+                            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all"
+                            placeholder="Option name, e.g. Size"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveOptionAxis(index)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            aria-label="Remove option"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {axis.values.map(value => (
+                            <span key={value} className="inline-flex items-center px-3 py-1 bg-primary-100 text-primary-800 rounded-full text-sm">
+                              {value}
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveOptionValue(index, value)}
+                                className="ml-2 text-primary-600 hover:text-primary-800"
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            value={newOptionValues[index] || ''}
+                            onChange={(e) => setNewOptionValues(prev => ({ ...prev, [index]: e.target.value }))}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                e.preventDefault()
+                                handleAddOptionValue(index)
+                              }
+                            }}
+                            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all"
+                            placeholder="Add a value, e.g. M"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => handleAddOptionValue(index)}
+                            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                          >
+                            Add
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+
+                    {(formData.variantOptions || []).length > 0 && (
+                      <button
+                        type="button"
+                        onClick={handleGenerateVariants}
+                        className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+                      >
+                        <Layers className="h-4 w-4 mr-2" />
+                        Generate Variants
+                      </button>
+                    )}
+
+                    {(formData.variants || []).length > 0 && (
+                      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                        <table className="min-w-full divide-y divide-gray-200 text-sm">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-4 py-2 text-left font-medium text-gray-700">Variant</th>
+                              <th className="px-4 py-2 text-left font-medium text-gray-700">SKU</th>
+                              <th className="px-4 py-2 text-left font-medium text-gray-700">Price</th>
+                              <th className="px-4 py-2 text-left font-medium text-gray-700">Stock</th>
+                              <th className="px-4 py-2" />
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-200">
+                            {(formData.variants || []).map(variant => (
+                              <tr key={variant.id}>
+                                <td className="px-4 py-2 text-gray-900">{variant.name}</td>
+                                <td className="px-4 py-2">
+                                  <input
+                                    type="text"
+                                    value={variant.sku}
+                                    onChange={(e) => handleVariantChange(variant.id, 'sku', e.target.value)}
+                                    className="w-40 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                                  />
+                                </td>
+                                <td className="px-4 py-2">
+                                  <input
+                                    type="number"
+                                    value={variant.price}
+                                    onChange={(e) => handleVariantChange(variant.id, 'price', parseFloat(e.target.value) || 0)}
+                                    className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                                    min="0"
+                                    step="0.01"
+                                  />
+                                </td>
+                                <td className="px-4 py-2">
+                                  <input
+                                    type="number"
+                                    value={variant.stock ?? 0}
+                                    onChange={(e) => handleVariantChange(variant.id, 'stock', parseInt(e.target.value) || 0)}
+                                    className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                                    min="0"
+                                  />
+                                </td>
+                                <td className="px-4 py-2 text-right">
+                                  <button
+                                    type="button"
+                                    onClick={() => handleRemoveVariant(variant.id)}
+                                    className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                                    aria-label={`Remove ${variant.name}`}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </button>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+
                   {/* Quantity Discounts */}
                   <div className="space-y-4">
                     <h4 className="text-lg font-semibold text-gray-900 flex items-center">
@@ -892,7 +1124,11 @@ export default function ProductFormBase({
                           </div>
                           <div className="flex justify-between">
                             <span className="text-gray-600">Stock:</span>
-                            <span className="font-medium">{formData.stock} units</span>
+                            <span className="font-medium">
+                              {(formData.variants || []).length > 0
+                                ? `${(formData.variants || []).reduce((sum, variant) => sum + (variant.stock || 0), 0)} units across ${(formData.variants || []).length} variants`
+                                : `${formData.stock} units`}
+                            </span>
                           </div>
                         </div>
                       </div>
@@ -20,14 +20,21 @@ interface Review {
   notHelpful: number
   verified: boolean
   images?: string[]
+  supplierReply?: {
+    supplierName: string
+    message: string
+    createdAt: Date
+  }
 }
 
+const MAX_REVIEW_PHOTOS = 5
+
 interface ProductReviewsProps {
   reviews: Review[]
   averageRating: number
   totalReviews: number
   ratingDistribution: { [key: number]: number }
-  onAddReview?: (review: Omit<Review, 'id' | 'createdAt' | 'helpful' | 'notHelpful'>) => void
+  onAddReview?: (review: Omit<Review, 'id' | 'createdAt' | 'helpful' | 'notHelpful'>, photos: File[]) => void
   onHelpful?: (reviewId: string, isHelpful: boolean) => void
   onReport?: (reviewId: string) => void
   className?: string
@@ -51,6 +58,7 @@ export default function ProductReviews({
     title: '',
     comment: ''
   })
+  const [photos, setPhotos] = useState<File[]>([])
 
   // Sort and filter reviews
   const sortedAndFilteredReviews = reviews
@@ -77,9 +85,10 @@ export default function ProductReviews({
       title: newReview.title,
       comment: newReview.comment,
       verified: false, // Add the missing verified property
-    })
+    }, photos)
 
     setNewReview({ rating: 5, title: '', comment: '' })
+    setPhotos([])
     setShowReviewForm(false)
   }
 
@@ -217,6 +226,25 @@ export default function ProductReviews({
               />
             </div>
 
+            {/* Photos */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Photos (up to {MAX_REVIEW_PHOTOS})
+              </label>
+              <input
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                multiple
+                onChange={(e) => setPhotos(Array.from(e.target.files || []).slice(0, MAX_REVIEW_PHOTOS))}
+                className="block text-sm text-gray-600"
+              />
+              {photos.length > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {photos.map(photo => photo.name).join(', ')}
+                </p>
+              )}
+            </div>
+
             {/* Submit Button */}
             <div className="flex gap-2">
               <Button
@@ -352,6 +380,19 @@ export default function ProductReviews({
                   </div>
                 )}
 
+                {/* Supplier Reply */}
+                {review.supplierReply && (
+                  <div className="mb-4 ml-4 pl-4 border-l-2 border-blue-200">
+                    <p className="text-sm font-medium text-gray-900">
+                      Response from {review.supplierReply.supplierName}
+                      <span className="ml-2 font-normal text-gray-500">
+                        {new Date(review.supplierReply.createdAt).toLocaleDateString()}
+                      </span>
+                    </p>
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap">{review.supplierReply.message}</p>
+                  </div>
+                )}
+
                 {/* Helpful Actions */}
                 <div className="flex items-center gap-4">
                   <button
@@ -0,0 +1,143 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, Download, Layers, Loader2 } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import type { BatchLabelResult } from '@/lib/services/logistics.service'
+
+interface BatchLabelPrinterProps {
+  className?: string
+}
+
+export function BatchLabelPrinter({ className = '' }: BatchLabelPrinterProps) {
+  const { success, error: toastError } = useToast()
+  const { fetchWithCSRF } = useCSRFFetch()
+  const [format, setFormat] = useState<'pdf' | 'zpl'>('pdf')
+  const [useLocalCourier, setUseLocalCourier] = useState(false)
+  const [courierName, setCourierName] = useState('')
+  const [printing, setPrinting] = useState(false)
+  const [result, setResult] = useState<BatchLabelResult | null>(null)
+
+  const handlePrint = async () => {
+    setPrinting(true)
+    try {
+      const response = await fetchWithCSRF('/api/shipping/labels/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          format,
+          useLocalCourier,
+          ...(useLocalCourier && courierName.trim() ? { courierName: courierName.trim() } : {})
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+      setResult(data.data)
+      success(data.message)
+    } catch (err) {
+      toastError('Printing failed', err instanceof Error ? err.message : 'Please try again')
+    } finally {
+      setPrinting(false)
+    }
+  }
+
+  return (
+    <div className={`bg-white rounded-lg shadow p-6 ${className}`}>
+      <div className="flex items-center space-x-2 mb-2">
+        <Layers className="h-5 w-5 text-primary-600" />
+        <h2 className="text-lg font-medium text-gray-900">Print Labels for Open Orders</h2>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Issues a label for every confirmed or processing order that does not have one yet.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as 'pdf' | 'zpl')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="pdf">PDF (office printer)</option>
+            <option value="zpl">ZPL (Zebra thermal printer)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Courier</label>
+          <select
+            value={useLocalCourier ? 'local' : 'provider'}
+            onChange={(e) => setUseLocalCourier(e.target.value === 'local')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="provider">Configured carrier</option>
+            <option value="local">Own fleet or local courier</option>
+          </select>
+        </div>
+        {useLocalCourier && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Courier name</label>
+            <input
+              value={courierName}
+              onChange={(e) => setCourierName(e.target.value)}
+              placeholder="Local courier"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={handlePrint}
+        disabled={printing}
+        className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        {printing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Layers className="h-4 w-4 mr-2" />}
+        Print Labels
+      </button>
+
+      {result && (result.labels.length > 0 || result.failed.length > 0) && (
+        <div className="mt-6 space-y-4">
+          {result.documentUrl && (
+            <a
+              href={result.documentUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download all ({result.documentFormat?.toUpperCase()})
+            </a>
+          )}
+
+          <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {result.labels.map(({ subOrderId, label }) => (
+              <div key={subOrderId} className="flex items-center justify-between px-4 py-2 text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">{label.trackingNumber}</p>
+                  <p className="text-xs text-gray-500">Order {subOrderId} · {label.carrier}</p>
+                </div>
+                <a
+                  href={label.labelUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:text-blue-700"
+                >
+                  {label.labelFormat.toUpperCase()}
+                </a>
+              </div>
+            ))}
+            {result.failed.map(({ subOrderId, error }) => (
+              <div key={subOrderId} className="flex items-center px-4 py-2 text-sm text-red-700 bg-red-50">
+                <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+                Order {subOrderId}: {error}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -9,6 +9,8 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 // Button and Input components replaced with standard HTML elements
 import { toast } from '@/components/ui/toast'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import type { ShippingLabel } from '@/lib/services/logistics.service'
 import { Package, Printer, Download, Truck, MapPin } from 'lucide-react'
 
 const labelGeneratorSchema = z.object({
@@ -47,6 +49,8 @@ const labelGeneratorSchema = z.object({
   })).min(1, 'At least one package is required'),
   serviceCode: z.string().min(1, 'Service code is required'),
   labelFormat: z.enum(['pdf', 'png', 'zpl']).default('pdf'),
+  carrier: z.enum(['provider', 'local']).default('provider'),
+  courierName: z.string().optional(),
 })
 
 type LabelGeneratorFormData = z.infer<typeof labelGeneratorSchema>
@@ -57,14 +61,9 @@ interface LabelGeneratorProps {
 }
 
 export function LabelGenerator({ orderId, className = '' }: LabelGeneratorProps) {
+  const { fetchWithCSRF } = useCSRFFetch()
   const [isGenerating, setIsGenerating] = useState(false)
-  const [generatedLabel, setGeneratedLabel] = useState<{
-    labelId: string
-    trackingNumber: string
-    carrierCode: string
-    labelUrl: string
-    labelFormat: string
-  } | null>(null)
+  const [generatedLabel, setGeneratedLabel] = useState<ShippingLabel | null>(null)
   const [packages, setPackages] = useState([
     {
       weight: 1,
@@ -81,6 +80,7 @@ export function LabelGenerator({ orderId, className = '' }: LabelGeneratorProps)
     handleSubmit,
     formState: { errors },
     setValue,
+    watch,
   } = useForm<LabelGeneratorFormData>({
     resolver: zodResolver(labelGeneratorSchema),
     defaultValues: {
@@ -112,18 +112,21 @@ export function LabelGenerator({ orderId, className = '' }: LabelGeneratorProps)
       packages,
       serviceCode: '',
       labelFormat: 'pdf',
+      carrier: 'provider',
+      courierName: '',
     },
   })
 
+  const useLocalCourier = watch('carrier') === 'local'
+
   const onSubmit = async (data: LabelGeneratorFormData) => {
     try {
       setIsGenerating(true)
 
-      const response = await fetch('/api/shipping/labels', {
+      const response = await fetchWithCSRF('/api/shipping/labels', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${typeof window !== 'undefined' && typeof localStorage !== 'undefined' ? localStorage.getItem('authToken') : ''}`,
         },
         body: JSON.stringify({
           ...data,
@@ -459,6 +462,7 @@ export function LabelGenerator({ orderId, className = '' }: LabelGeneratorProps)
                   <option value="fedex_2day">FedEx 2-Day</option>
                   <option value="ups_ground">UPS Ground</option>
                   <option value="ups_2nd_day_air">UPS 2nd Day Air</option>
+                  <option value="LOCAL_DELIVERY">Local delivery (own fleet)</option>
                 </select>
                 {errors.serviceCode && (
                   <p className="text-red-600 text-xs mt-1">{errors.serviceCode.message}</p>
@@ -477,7 +481,30 @@ export function LabelGenerator({ orderId, className = '' }: LabelGeneratorProps)
                   <option value="zpl">ZPL (Zebra)</option>
                 </select>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Courier
+                </label>
+                <select
+                  {...register('carrier')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="provider">Configured carrier</option>
+                  <option value="local">Own fleet or local courier</option>
+                </select>
+              </div>
+              {useLocalCourier && (
+                <Input
+                  {...register('courierName')}
+                  placeholder="Courier name (Optional)"
+                />
+              )}
             </div>
+            {useLocalCourier && (
+              <p className="text-xs text-gray-500 mt-2">
+                Local labels are printed as PDF or ZPL with a tracking barcode and a QR code for the courier to scan.
+              </p>
+            )}
           </div>
 
           <Button
@@ -508,9 +535,9 @@ export function LabelGenerator({ orderId, className = '' }: LabelGeneratorProps)
               </h3>
             </div>
             <div className="space-y-2 text-sm">
-              <p><strong>Label ID:</strong> {generatedLabel.labelId}</p>
+              <p><strong>Label ID:</strong> {generatedLabel.id}</p>
               <p><strong>Tracking Number:</strong> {generatedLabel.trackingNumber}</p>
-              <p><strong>Carrier:</strong> {generatedLabel.carrierCode.toUpperCase()}</p>
+              <p><strong>Carrier:</strong> {generatedLabel.carrier}</p>
               <p><strong>Format:</strong> {generatedLabel.labelFormat.toUpperCase()}</p>
             </div>
           </div>
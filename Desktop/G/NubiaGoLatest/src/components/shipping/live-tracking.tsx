@@ -1,195 +1,86 @@
 'use client'
 
 import React, { useState, useEffect, useRef } from 'react'
-import { MapPin, Truck, Package, Clock, CheckCircle, AlertCircle, Phone, MessageSquare } from 'lucide-react'
-import { useShippingStore } from '@/store/shipping'
+import { MapPin, Truck, Package, Clock, CheckCircle, AlertCircle } from 'lucide-react'
+import { useAuth } from '@/hooks/useAuth'
+import { trackingService } from '@/lib/services/tracking.service'
+import { ShipmentStatus } from '@/types'
+
+type TrackingStatus = 'pending' | 'confirmed' | 'shipped' | 'in-transit' | 'out-for-delivery' | 'delivered' | 'failed'
 
 interface TrackingEvent {
   id: string
-  status: 'pending' | 'confirmed' | 'shipped' | 'in-transit' | 'out-for-delivery' | 'delivered' | 'failed'
+  status: TrackingStatus
   location: string
   timestamp: Date
   description: string
-  estimatedDelivery?: Date
-  actualDelivery?: Date
-  courier?: {
-    name: string
-    phone: string
-    vehicle: string
-    photo?: string
-  }
 }
 
 interface OrderTracking {
   orderId: string
   trackingNumber: string
-  status: 'pending' | 'confirmed' | 'shipped' | 'in-transit' | 'out-for-delivery' | 'delivered' | 'failed'
+  carrier: string
+  status: TrackingStatus
   events: TrackingEvent[]
-  estimatedDelivery: Date
+  estimatedDelivery?: Date
   currentLocation?: {
-    lat: number
-    lng: number
     address: string
   }
-  courier?: {
-    name: string
-    phone: string
-    vehicle: string
-    photo?: string
-    currentLocation?: {
-      lat: number
-      lng: number
-    }
-  }
+}
+
+const DISPLAY_STATUS: Record<ShipmentStatus, TrackingStatus> = {
+  label_created: 'confirmed',
+  picked_up: 'shipped',
+  in_transit: 'in-transit',
+  out_for_delivery: 'out-for-delivery',
+  delivered: 'delivered',
+  exception: 'failed',
+  returned: 'failed'
 }
 
 export function LiveOrderTracking({ orderId }: { orderId: string }) {
+  const { user } = useAuth()
   const [tracking, setTracking] = useState<OrderTracking | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [showMap, setShowMap] = useState(false)
   const [isRealTime, setIsRealTime] = useState(true)
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date())
-  
-  const mapRef = useRef<HTMLDivElement>(null)
-  const intervalRef = useRef<NodeJS.Timeout | null>(null)
 
-  // Mock tracking data
-  const mockTrackingData: OrderTracking = {
-    orderId,
-    trackingNumber: 'NUB' + Math.random().toString(36).substr(2, 9).toUpperCase(),
-    status: 'in-transit',
-    events: [
-      {
-        id: '1',
-        status: 'confirmed',
-        location: 'Lagos, Nigeria',
-        timestamp: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-        description: 'Order confirmed and payment received',
-        estimatedDelivery: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000)
-      },
-      {
-        id: '2',
-        status: 'shipped',
-        location: 'Lagos Warehouse',
-        timestamp: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000),
-        description: 'Package picked up by courier',
-        courier: {
-          name: 'John Doe',
-          phone: '+234 801 234 5678',
-          vehicle: 'Motorcycle - LAG 123 AB'
-        }
-      },
-      {
-        id: '3',
-        status: 'in-transit',
-        location: 'Ibadan Distribution Center',
-        timestamp: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
-        description: 'Package in transit to destination',
-        estimatedDelivery: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000)
-      },
-      {
-        id: '4',
-        status: 'in-transit',
-        location: 'Abuja Hub',
-        timestamp: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
-        description: 'Package arrived at local hub',
-        estimatedDelivery: new Date(Date.now() + 1 * 24 * 60 * 60 * 1000)
-      }
-    ],
-    estimatedDelivery: new Date(Date.now() + 1 * 24 * 60 * 60 * 1000),
-    currentLocation: {
-      lat: 9.0820,
-      lng: 8.6753,
-      address: 'Abuja, Nigeria'
-    },
-    courier: {
-      name: 'John Doe',
-      phone: '+234 801 234 5678',
-      vehicle: 'Motorcycle - LAG 123 AB',
-      currentLocation: {
-        lat: 9.0820,
-        lng: 8.6753
-      }
-    }
-  }
+  const mapRef = useRef<HTMLDivElement>(null)
 
-  // Load tracking data
+  // Follow the order's most recently updated parcel as the carrier reports scans
   useEffect(() => {
-    const loadTrackingData = async () => {
-      try {
-        setIsLoading(true)
-        // Simulate API call
-        await new Promise(resolve => setTimeout(resolve, 1000))
-        setTracking(mockTrackingData)
+    if (!user || !isRealTime) return
+
+    return trackingService.subscribeToOrderShipments(orderId, user.uid, (shipments) => {
+      const shipment = [...shipments].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())[0]
+      if (!shipment) {
+        setTracking(null)
+        setError('No tracking updates yet. Tracking appears once the carrier scans your parcel.')
+      } else {
+        const events = shipment.events.map(event => ({
+          id: event.id,
+          status: DISPLAY_STATUS[event.status],
+          location: event.location || shipment.carrier,
+          timestamp: event.occurredAt,
+          description: event.description
+        }))
+        setTracking({
+          orderId,
+          trackingNumber: shipment.trackingNumber,
+          carrier: shipment.carrier,
+          status: DISPLAY_STATUS[shipment.status],
+          events,
+          estimatedDelivery: shipment.deliveredAt || shipment.estimatedDelivery,
+          currentLocation: shipment.lastEvent?.location ? { address: shipment.lastEvent.location } : undefined
+        })
         setError(null)
-      } catch (err) {
-        setError('Failed to load tracking information')
-      } finally {
-        setIsLoading(false)
       }
-    }
-
-    loadTrackingData()
-  }, [orderId])
-
-  // Real-time updates
-  useEffect(() => {
-    if (!isRealTime || !tracking) return
-
-    const updateTracking = () => {
-      setTracking(prev => {
-        if (!prev) return prev
-
-        // Simulate real-time updates
-        const newEvents = [...prev.events]
-        const random = Math.random()
-
-        if (random > 0.95) {
-          // New event
-          const newEvent: TrackingEvent = {
-            id: Date.now().toString(),
-            status: 'in-transit',
-            location: 'En route to destination',
-            timestamp: new Date(),
-            description: 'Package is on the move',
-            estimatedDelivery: prev.estimatedDelivery
-          }
-          newEvents.push(newEvent)
-        }
-
-        // Update current location
-        const currentLocation = {
-          lat: prev.currentLocation?.lat || 9.0820 + (Math.random() - 0.5) * 0.01,
-          lng: prev.currentLocation?.lng || 8.6753 + (Math.random() - 0.5) * 0.01,
-          address: 'En route to destination'
-        }
-
-        return {
-          ...prev,
-          events: newEvents,
-          currentLocation,
-          courier: prev.courier ? {
-            ...prev.courier,
-            currentLocation: {
-              lat: currentLocation.lat,
-              lng: currentLocation.lng
-            }
-          } : undefined
-        }
-      })
-
       setLastUpdate(new Date())
-    }
-
-    intervalRef.current = setInterval(updateTracking, 30000) // Update every 30 seconds
-
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-      }
-    }
-  }, [isRealTime, tracking])
+      setIsLoading(false)
+    })
+  }, [orderId, user, isRealTime])
 
   // Initialize map
   useEffect(() => {
@@ -274,7 +165,7 @@ export function LiveOrderTracking({ orderId }: { orderId: string }) {
             <p className="text-gray-600">Order #{tracking.orderId}</p>
           </div>
           <div className="text-right">
-            <p className="text-sm text-gray-500">Tracking Number</p>
+            <p className="text-sm text-gray-500">{tracking.carrier} Tracking Number</p>
             <p className="font-mono text-lg font-semibold">{tracking.trackingNumber}</p>
           </div>
         </div>
@@ -289,14 +180,18 @@ export function LiveOrderTracking({ orderId }: { orderId: string }) {
         <div className="mt-4 p-4 bg-blue-50 rounded-lg">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-blue-600 font-medium">Estimated Delivery</p>
+              <p className="text-sm text-blue-600 font-medium">
+                {tracking.status === 'delivered' ? 'Delivered' : 'Estimated Delivery'}
+              </p>
               <p className="text-lg font-semibold text-blue-900">
-                {tracking.estimatedDelivery.toLocaleDateString('en-US', {
-                  weekday: 'long',
-                  year: 'numeric',
-                  month: 'long',
-                  day: 'numeric'
-                })}
+                {tracking.estimatedDelivery
+                  ? tracking.estimatedDelivery.toLocaleDateString('en-US', {
+                      weekday: 'long',
+                      year: 'numeric',
+                      month: 'long',
+                      day: 'numeric'
+                    })
+                  : 'Not yet available'}
               </p>
             </div>
             <div className="text-right">
@@ -360,30 +255,6 @@ export function LiveOrderTracking({ orderId }: { orderId: string }) {
         </div>
       )}
 
-      {/* Courier Information */}
-      {tracking.courier && (
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Courier Information</h3>
-          <div className="flex items-center space-x-4">
-            <div className="w-12 h-12 bg-gray-300 rounded-full flex items-center justify-center">
-              <span className="text-gray-600 font-medium">{tracking.courier.name[0]}</span>
-            </div>
-            <div className="flex-1">
-              <p className="font-medium text-gray-900">{tracking.courier.name}</p>
-              <p className="text-sm text-gray-600">{tracking.courier.vehicle}</p>
-            </div>
-            <div className="flex space-x-2">
-              <button className="p-2 text-gray-500 hover:text-gray-700 rounded-lg hover:bg-gray-100">
-                <Phone className="w-4 h-4" />
-              </button>
-              <button className="p-2 text-gray-500 hover:text-gray-700 rounded-lg hover:bg-gray-100">
-                <MessageSquare className="w-4 h-4" />
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
-
       {/* Tracking Timeline */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-6">Tracking History</h3>
@@ -412,17 +283,7 @@ export function LiveOrderTracking({ orderId }: { orderId: string }) {
                     })}
                   </span>
                 </div>
-                <p className="text-gray-600 mb-2">{event.description}</p>
-                {event.courier && (
-                  <div className="bg-gray-50 rounded-lg p-3">
-                    <p className="text-sm text-gray-600">
-                      <span className="font-medium">Courier:</span> {event.courier.name}
-                    </p>
-                    <p className="text-sm text-gray-600">
-                      <span className="font-medium">Vehicle:</span> {event.courier.vehicle}
-                    </p>
-                  </div>
-                )}
+                <p className="text-gray-600">{event.description}</p>
               </div>
             </div>
           ))}
@@ -0,0 +1,150 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Box, Loader2, Plus, Save, Trash2 } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import { ShippingBox } from '@/types'
+
+interface ShippingBoxesEditorProps {
+  className?: string
+}
+
+const NUMBER_FIELDS: Array<{ key: 'length' | 'width' | 'height' | 'maxWeight' | 'emptyWeight'; label: string }> = [
+  { key: 'length', label: 'Length (cm)' },
+  { key: 'width', label: 'Width (cm)' },
+  { key: 'height', label: 'Height (cm)' },
+  { key: 'maxWeight', label: 'Max weight (kg)' },
+  { key: 'emptyWeight', label: 'Empty weight (kg)' }
+]
+
+export function ShippingBoxesEditor({ className = '' }: ShippingBoxesEditorProps) {
+  const { success, error: toastError } = useToast()
+  const { fetchWithCSRF } = useCSRFFetch()
+  const [boxes, setBoxes] = useState<ShippingBox[] | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const loadBoxes = useCallback(async () => {
+    try {
+      const response = await fetch('/api/shipping/boxes')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+      setBoxes(data.data.boxes)
+    } catch (err) {
+      toastError('Load failed', 'Failed to load your shipping boxes')
+    }
+  }, [toastError])
+
+  useEffect(() => {
+    loadBoxes()
+  }, [loadBoxes])
+
+  const updateBox = (index: number, changes: Partial<ShippingBox>) => {
+    setBoxes(prev => prev && prev.map((box, i) => i === index ? { ...box, ...changes } : box))
+  }
+
+  const handleSave = async () => {
+    if (!boxes) return
+    setSaving(true)
+    try {
+      const response = await fetchWithCSRF('/api/shipping/boxes', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ boxes })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        const details = data.fieldErrors ? Object.values(data.fieldErrors).flat().join(' ') : undefined
+        throw new Error(details || data.error)
+      }
+      setBoxes(data.data.boxes)
+      success(data.message)
+    } catch (err) {
+      toastError('Save failed', err instanceof Error ? err.message : 'Please try again')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className={`bg-white rounded-lg shadow p-6 ${className}`}>
+      <div className="flex items-center space-x-2 mb-2">
+        <Box className="h-5 w-5 text-primary-600" />
+        <h2 className="text-lg font-medium text-gray-900">Shipping Boxes</h2>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Orders are packed into these sizes for rate quotes and labels. Use inside dimensions.
+      </p>
+
+      {!boxes ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {boxes.map((box, index) => (
+            <div key={index} className="grid grid-cols-2 md:grid-cols-7 gap-2 items-end border border-gray-200 rounded-lg p-3">
+              <div className="col-span-2 md:col-span-1">
+                <label className="block text-xs text-gray-500 mb-1">Name</label>
+                <input
+                  value={box.name}
+                  onChange={(e) => updateBox(index, { name: e.target.value })}
+                  className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              {NUMBER_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs text-gray-500 mb-1">{field.label}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.1"
+                    value={box[field.key]}
+                    onChange={(e) => updateBox(index, { [field.key]: Number(e.target.value) })}
+                    className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setBoxes(prev => prev && prev.filter((_, i) => i !== index))}
+                className="justify-self-end p-2 text-gray-400 hover:text-red-600"
+                aria-label="Remove box"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between pt-2">
+            <button
+              type="button"
+              onClick={() => setBoxes(prev => [...(prev || []), {
+                id: `box-${Date.now()}`,
+                name: '',
+                length: 0,
+                width: 0,
+                height: 0,
+                maxWeight: 0,
+                emptyWeight: 0
+              }])}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm text-gray-700 bg-white rounded-lg hover:bg-gray-50"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add box
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+            >
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Boxes
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,7 +6,8 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { Truck, Package, Calculator, ArrowRight, CheckCircle, AlertCircle } from 'lucide-react'
 import { useShippingStore } from '@/store/shipping'
-import { ShippingAddress, ShippingPackage } from '@/lib/services/logistics.service'
+import type { ShippingAddress, ShippingPackage } from '@/lib/services/logistics.service'
+import { RATE_OPTION_LABELS, ShippingQuote } from '@/lib/services/shipping/rate-shopping'
 import { toast } from '@/lib/utils'
 
 const addressSchema = z.object({
@@ -40,7 +41,7 @@ const shippingCalculatorSchema = z.object({
 type ShippingCalculatorFormData = z.infer<typeof shippingCalculatorSchema>
 
 interface ShippingCalculatorProps {
-  onRateSelect?: (rate: any) => void
+  onRateSelect?: (rate: ShippingQuote) => void
   className?: string
 }
 
@@ -152,10 +153,10 @@ export function ShippingCalculator({ onRateSelect, className = '' }: ShippingCal
     }
   }
 
-  const handleRateSelect = (rate: any) => {
+  const handleRateSelect = (rate: ShippingQuote) => {
     selectRate(rate)
     onRateSelect?.(rate)
-    toast.success(`Selected ${rate.serviceName} - $${rate.rate.toFixed(2)}`)
+    toast.success(`Selected ${rate.serviceName} - ${rate.freeShipping ? 'Free' : `$${rate.rate.toFixed(2)}`}`)
   }
 
   const addPackage = () => {
@@ -582,14 +583,19 @@ export function ShippingCalculator({ onRateSelect, className = '' }: ShippingCal
                             Guaranteed
                           </span>
                         )}
+                        {rate.labels.map(label => (
+                          <span key={label} className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-primary-100 text-primary-800">
+                            {RATE_OPTION_LABELS[label]}
+                          </span>
+                        ))}
                       </div>
                       <p className="text-sm text-gray-600 mt-1">
-                        {rate.estimatedDays} • {rate.currency} ${rate.rate.toFixed(2)}
+                        {rate.estimatedDays}
                       </p>
                     </div>
                     <div className="text-right">
                       <div className="text-lg font-semibold text-gray-900">
-                        ${rate.rate.toFixed(2)}
+                        {rate.freeShipping ? 'Free' : `$${rate.rate.toFixed(2)}`}
                       </div>
                       <div className="text-sm text-gray-500">{rate.currency}</div>
                     </div>
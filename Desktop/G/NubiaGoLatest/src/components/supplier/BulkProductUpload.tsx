@@ -6,54 +6,33 @@ import {
   Info, ArrowDown, Plus, Trash2, Eye, Edit, Save
 } from 'lucide-react'
 import { useToast } from '@/components/ui/toast'
+import { useCSRFFetch } from '@/hooks/useCSRF'
+import type {
+  BulkProductData,
+  ProductImportResult,
+  RowValidationError as ValidationError
+} from '@/lib/services/product-import.service'
 
-interface BulkProductData {
-  name: string
-  description: string
-  price: number
-  category: string
-  stock: number
-  sku: string
-  brandName?: string
-  modelNumber?: string
-  upcEanIsbn?: string
-  materialComposition?: string
-  weight?: number
-  dimensions?: {
-    length: number
-    width: number
-    height: number
-  }
-  tags?: string[]
-  seoTitle?: string
-  seoDescription?: string
-  metaKeywords?: string[]
-  productHighlights?: string[]
-}
-
-interface ValidationError {
-  row: number
-  field: string
-  message: string
-}
+// Large catalogs are validated in full, but only the first rows are rendered
+const PREVIEW_ROW_LIMIT = 100
 
-interface BulkUploadResult {
+interface BulkUploadResponse {
   success: boolean
-  message: string
-  processed: number
-  errors: ValidationError[]
-  products: BulkProductData[]
+  data?: ProductImportResult
+  message?: string
+  error?: string
 }
 
 export default function BulkProductUpload() {
   const { success, error } = useToast()
+  const { fetchWithCSRF } = useCSRFFetch()
   const fileInputRef = useRef<HTMLInputElement>(null)
   const [isUploading, setIsUploading] = useState(false)
   const [uploadedFile, setUploadedFile] = useState<File | null>(null)
   const [previewData, setPreviewData] = useState<BulkProductData[]>([])
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([])
   const [currentStep, setCurrentStep] = useState<'upload' | 'preview' | 'confirm' | 'complete'>('upload')
-  const [uploadProgress, setUploadProgress] = useState(0)
+  const [importResult, setImportResult] = useState<ProductImportResult | null>(null)
   const [showTemplate, setShowTemplate] = useState(false)
 
   // CSV Template for download
@@ -62,155 +41,105 @@ export default function BulkProductUpload() {
     'Sample Product,This is a sample product description,99.99,Electronics,100,SAMPLE-001,Sample Brand,SAMPLE-MODEL,1234567890123,Plastic,0.5,10,5,2,"tag1,tag2",SEO Title,SEO Description,"keyword1,keyword2","highlight1,highlight2"'
   ].join('\n')
 
+  // Send the file to the import route; dry runs validate without writing
+  const submitImport = async (file: File, dryRun: boolean): Promise<ProductImportResult> => {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('dryRun', String(dryRun))
+
+    const response = await fetchWithCSRF('/api/products/import', {
+      method: 'POST',
+      body: formData
+    })
+    const body: BulkUploadResponse = await response.json()
+
+    if (!response.ok || !body.success || !body.data) {
+      throw new Error(body.error || 'Import request failed')
+    }
+    return body.data
+  }
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file) return
 
     // Validate file type
-    if (!file.name.match(/\.(csv|xlsx?)$/i)) {
-      error('Please upload a CSV or Excel file')
+    if (!file.name.match(/\.(csv|xlsx)$/i)) {
+      error('Please upload a CSV or Excel (.xlsx) file')
       return
     }
 
     setUploadedFile(file)
     setIsUploading(true)
-    setUploadProgress(0)
 
     try {
-      // Simulate file processing
-      for (let i = 0; i <= 100; i += 10) {
-        setUploadProgress(i)
-        await new Promise(resolve => setTimeout(resolve, 100))
-      }
+      const result = await submitImport(file, true)
 
-      // Parse file content (simulated)
-      const mockData: BulkProductData[] = [
-        {
-          name: 'Premium Wireless Headphones',
-          description: 'High-quality wireless headphones with noise cancellation',
-          price: 299.99,
-          category: 'Electronics',
-          stock: 50,
-          sku: 'HEAD-001',
-          brandName: 'AudioTech',
-          modelNumber: 'WH-2000',
-          upcEanIsbn: '1234567890123',
-          materialComposition: 'Plastic, Metal',
-          weight: 0.3,
-          dimensions: { length: 20, width: 15, height: 8 },
-          tags: ['wireless', 'noise-cancelling', 'premium'],
-          seoTitle: 'Premium Wireless Headphones - AudioTech',
-          seoDescription: 'High-quality wireless headphones with advanced noise cancellation technology',
-          metaKeywords: ['wireless headphones', 'noise cancellation', 'premium audio'],
-          productHighlights: ['Active noise cancellation', '30-hour battery life', 'Premium build quality']
-        },
-        {
-          name: 'Smart Fitness Watch',
-          description: 'Advanced fitness tracking smartwatch',
-          price: 199.99,
-          category: 'Electronics',
-          stock: 75,
-          sku: 'WATCH-001',
-          brandName: 'FitTech',
-          modelNumber: 'FW-500',
-          upcEanIsbn: '9876543210987',
-          materialComposition: 'Silicone, Stainless Steel',
-          weight: 0.05,
-          dimensions: { length: 4, width: 4, height: 1 },
-          tags: ['fitness', 'smartwatch', 'tracking'],
-          seoTitle: 'Smart Fitness Watch - FitTech',
-          seoDescription: 'Advanced fitness tracking smartwatch with health monitoring',
-          metaKeywords: ['fitness watch', 'smartwatch', 'health tracking'],
-          productHighlights: ['Heart rate monitoring', 'GPS tracking', 'Water resistant']
-        }
-      ]
-
-      setPreviewData(mockData)
+      setImportResult(result)
+      setPreviewData(result.products.map(parsed => parsed.product))
+      setValidationErrors(result.errors)
       setCurrentStep('preview')
-      success('File uploaded successfully! Please review the data before proceeding.')
+
+      if (result.errors.length > 0) {
+        error(`Found ${result.errors.length} validation errors in ${result.skipped} rows. Download the error report for details.`)
+      } else {
+        success('File uploaded successfully! Please review the data before proceeding.')
+      }
     } catch (err) {
-      error('Failed to process file. Please try again.')
+      error(err instanceof Error ? err.message : 'Failed to process file. Please try again.')
     } finally {
       setIsUploading(false)
-      setUploadProgress(0)
     }
   }
 
-  const validateData = (data: BulkProductData[]): ValidationError[] => {
-    const errors: ValidationError[] = []
-    
-    data.forEach((product, index) => {
-      const row = index + 1
-      
-      if (!product.name || product.name.trim().length < 2) {
-        errors.push({ row, field: 'name', message: 'Product name must be at least 2 characters' })
-      }
-      
-      if (!product.description || product.description.trim().length < 10) {
-        errors.push({ row, field: 'description', message: 'Description must be at least 10 characters' })
-      }
-      
-      if (!product.price || product.price <= 0) {
-        errors.push({ row, field: 'price', message: 'Price must be greater than 0' })
-      }
-      
-      if (!product.category) {
-        errors.push({ row, field: 'category', message: 'Category is required' })
-      }
-      
-      if (!product.stock || product.stock < 0) {
-        errors.push({ row, field: 'stock', message: 'Stock must be 0 or greater' })
-      }
-      
-      if (!product.sku) {
-        errors.push({ row, field: 'sku', message: 'SKU is required' })
-      }
-    })
-    
-    return errors
-  }
-
   const handlePreviewContinue = () => {
-    const errors = validateData(previewData)
-    setValidationErrors(errors)
-    
-    if (errors.length === 0) {
-      setCurrentStep('confirm')
-    } else {
-      error(`Found ${errors.length} validation errors. Please fix them before proceeding.`)
+    if (previewData.length === 0) {
+      error('There are no valid products to import. Fix the errors and upload the file again.')
+      return
     }
+    setCurrentStep('confirm')
   }
 
   const handleConfirmUpload = async () => {
+    if (!uploadedFile) return
+
     setIsUploading(true)
-    setUploadProgress(0)
 
     try {
-      // Simulate bulk upload process
-      for (let i = 0; i <= 100; i += 5) {
-        setUploadProgress(i)
-        await new Promise(resolve => setTimeout(resolve, 200))
-      }
-
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000))
+      const result = await submitImport(uploadedFile, false)
 
+      setImportResult(result)
       setCurrentStep('complete')
-      success(`Successfully uploaded ${previewData.length} products!`)
+      success(`Successfully imported ${result.validRows} products!`)
     } catch (err) {
-      error('Failed to upload products. Please try again.')
+      error(err instanceof Error ? err.message : 'Failed to upload products. Please try again.')
     } finally {
       setIsUploading(false)
-      setUploadProgress(0)
     }
   }
 
+  const downloadErrorReport = () => {
+    const escape = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`
+    const report = [
+      'Row,Field,Error',
+      ...validationErrors.map(err => [err.row, err.field, err.message].map(escape).join(','))
+    ].join('\n')
+
+    const blob = new Blob([report], { type: 'text/csv' })
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${uploadedFile?.name.replace(/\.[^.]+$/, '') || 'products'}-errors.csv`
+    a.click()
+    window.URL.revokeObjectURL(url)
+  }
+
   const handleReset = () => {
     setUploadedFile(null)
     setPreviewData([])
     setValidationErrors([])
+    setImportResult(null)
     setCurrentStep('upload')
-    setUploadProgress(0)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
@@ -263,7 +192,7 @@ export default function BulkProductUpload() {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv,.xlsx,.xls"
+          accept=".csv,.xlsx"
           onChange={handleFileUpload}
           className="hidden"
         />
@@ -281,13 +210,9 @@ export default function BulkProductUpload() {
         <div className="space-y-2">
           <div className="flex justify-between text-sm text-gray-600">
             <span>Processing file...</span>
-            <span>{uploadProgress}%</span>
           </div>
           <div className="w-full bg-gray-200 rounded-full h-2">
-            <div 
-              className="bg-primary-600 h-2 rounded-full transition-all duration-300"
-              style={{ width: `${uploadProgress}%` }}
-            />
+            <div className="bg-primary-600 h-2 rounded-full w-full animate-pulse" />
           </div>
         </div>
       )}
@@ -318,6 +243,18 @@ export default function BulkProductUpload() {
               {validationErrors.length} validation error(s) found
             </h4>
           </div>
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-sm text-red-700">
+              {importResult?.skipped || 0} row(s) with errors will be skipped. Fix them and upload the file again to import them.
+            </p>
+            <button
+              onClick={downloadErrorReport}
+              className="ml-4 flex-shrink-0 text-sm font-medium text-red-700 hover:text-red-900 flex items-center"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              Download error report
+            </button>
+          </div>
           <div className="space-y-2">
             {validationErrors.slice(0, 5).map((err, index) => (
               <div key={index} className="text-sm text-red-700">
@@ -338,6 +275,7 @@ export default function BulkProductUpload() {
         <div className="px-6 py-4 border-b border-gray-200">
           <h4 className="text-sm font-medium text-gray-900">
             {previewData.length} products ready for upload
+            {importResult && ` (${importResult.created} new, ${importResult.updated} will update existing SKUs)`}
           </h4>
         </div>
         <div className="overflow-x-auto">
@@ -352,7 +290,7 @@ export default function BulkProductUpload() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {previewData.map((product, index) => (
+              {previewData.slice(0, PREVIEW_ROW_LIMIT).map((product, index) => (
                 <tr key={index} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {product.name}
@@ -374,6 +312,11 @@ export default function BulkProductUpload() {
             </tbody>
           </table>
         </div>
+        {previewData.length > PREVIEW_ROW_LIMIT && (
+          <div className="px-6 py-3 border-t border-gray-200 text-sm text-gray-600">
+            Showing the first {PREVIEW_ROW_LIMIT} of {previewData.length} products
+          </div>
+        )}
       </div>
 
       {/* Action Buttons */}
@@ -387,7 +330,7 @@ export default function BulkProductUpload() {
         <button
           onClick={handlePreviewContinue}
           className="px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
-          disabled={validationErrors.length > 0}
+          disabled={previewData.length === 0}
         >
           Continue
         </button>
@@ -406,12 +349,12 @@ export default function BulkProductUpload() {
       <div className="bg-gray-50 rounded-lg p-6">
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
           <div>
-            <div className="text-2xl font-bold text-gray-900">{previewData.length}</div>
-            <div className="text-sm text-gray-600">Total Products</div>
+            <div className="text-2xl font-bold text-gray-900">{importResult?.totalRows ?? previewData.length}</div>
+            <div className="text-sm text-gray-600">Total Rows</div>
           </div>
           <div>
             <div className="text-2xl font-bold text-green-600">
-              {previewData.filter(p => p.price > 0).length}
+              {previewData.length}
             </div>
             <div className="text-sm text-gray-600">Valid Products</div>
           </div>
@@ -435,13 +378,9 @@ export default function BulkProductUpload() {
         <div className="space-y-2">
           <div className="flex justify-between text-sm text-gray-600">
             <span>Uploading products...</span>
-            <span>{uploadProgress}%</span>
           </div>
           <div className="w-full bg-gray-200 rounded-full h-2">
-            <div 
-              className="bg-primary-600 h-2 rounded-full transition-all duration-300"
-              style={{ width: `${uploadProgress}%` }}
-            />
+            <div className="bg-primary-600 h-2 rounded-full w-full animate-pulse" />
           </div>
         </div>
       )}
@@ -485,8 +424,14 @@ export default function BulkProductUpload() {
       <div>
         <h3 className="text-lg font-medium text-gray-900 mb-2">Upload Complete!</h3>
         <p className="text-gray-600">
-          Successfully uploaded {previewData.length} products to your catalog.
+          Successfully uploaded {importResult?.validRows ?? previewData.length} products to your catalog.
         </p>
+        {importResult && (
+          <p className="text-sm text-gray-500 mt-1">
+            {importResult.created} created, {importResult.updated} updated by SKU
+            {importResult.skipped > 0 && `, ${importResult.skipped} skipped because of errors`}
+          </p>
+        )}
       </div>
 
       {/* Next Steps */}
@@ -0,0 +1,230 @@
+'use client'
+
+import React, { useState } from 'react'
+import { AlertTriangle, Loader2, Send } from 'lucide-react'
+import { Modal } from '@/components/ui/modal'
+import { useToast } from '@/components/ui/toast'
+import StatusBadge from '@/components/dashboard/StatusBadge'
+import { supportService, TicketParticipant } from '@/lib/services/support.service'
+import { isTicketOverdue } from '@/lib/services/support/ticket-state-machine'
+import { SupportTicket, TicketCategory, TicketStatus } from '@/types'
+
+export const TICKET_CATEGORY_LABELS: Record<TicketCategory, string> = {
+  order: 'Order',
+  payment: 'Payment',
+  shipping: 'Shipping',
+  returns: 'Returns',
+  product: 'Product',
+  account: 'Account',
+  technical: 'Technical',
+  other: 'Other'
+}
+
+interface TicketThreadModalProps {
+  ticket: SupportTicket
+  viewer: TicketParticipant
+  onClose: () => void
+  onUpdated: (ticket: SupportTicket) => void
+}
+
+// Status buttons offered to whoever is answering the ticket
+const RESPONDER_STATUSES: Array<{ status: TicketStatus; label: string; message: string }> = [
+  { status: 'in_progress', label: 'In progress', message: 'Ticket is in progress' },
+  { status: 'waiting', label: 'Waiting on requester', message: 'Waiting for the requester to reply' },
+  { status: 'resolved', label: 'Resolve', message: 'Ticket resolved' },
+  { status: 'closed', label: 'Close', message: 'Ticket closed' }
+]
+
+const formatDateTime = (value?: Date) => value ? value.toLocaleString() : '—'
+
+export default function TicketThreadModal({ ticket, viewer, onClose, onUpdated }: TicketThreadModalProps) {
+  const { success, error } = useToast()
+  const [reply, setReply] = useState('')
+  const [escalationReason, setEscalationReason] = useState('')
+  const [showEscalate, setShowEscalate] = useState(false)
+  const [working, setWorking] = useState(false)
+
+  const isRequester = viewer.id === ticket.requesterId
+  const isAdmin = viewer.role === 'admin'
+  const isActive = ticket.status !== 'resolved' && ticket.status !== 'closed'
+  // Escalated tickets are in the admins' hands; suppliers can still reply but not move them
+  const canChangeStatus = !isRequester && (isAdmin || ticket.status !== 'escalated')
+
+  const runAction = async (action: () => Promise<SupportTicket>, message: string) => {
+    setWorking(true)
+    try {
+      const updated = await action()
+      onUpdated(updated)
+      success(message)
+      return true
+    } catch (err) {
+      error('Could not update ticket', err instanceof Error ? err.message : undefined)
+      return false
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleReply = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (await runAction(() => supportService.addReply(ticket.id, viewer, reply), 'Reply sent')) {
+      setReply('')
+    }
+  }
+
+  const handleEscalate = async () => {
+    if (await runAction(() => supportService.escalateTicket(ticket.id, viewer, escalationReason), 'Ticket escalated to an admin')) {
+      setShowEscalate(false)
+      setEscalationReason('')
+    }
+  }
+
+  return (
+    <Modal isOpen onClose={onClose} title={`${ticket.ticketNumber} · ${ticket.subject}`} size="lg">
+      <div className="space-y-5">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+          <StatusBadge status={ticket.status} />
+          <span className="px-2 py-0.5 bg-gray-100 rounded">{TICKET_CATEGORY_LABELS[ticket.category]}</span>
+          <span className="px-2 py-0.5 bg-gray-100 rounded capitalize">{ticket.priority} priority</span>
+          {ticket.orderId && <span>Order #{ticket.orderId}</span>}
+          {ticket.productId && <span>Product {ticket.productId}</span>}
+          {ticket.assigneeName && <span>Assigned to {ticket.assigneeName}</span>}
+        </div>
+
+        {!isRequester && (
+          <div className={`grid grid-cols-2 gap-4 p-3 rounded-lg text-sm ${isTicketOverdue(ticket) || ticket.slaBreached ? 'bg-red-50' : 'bg-gray-50'}`}>
+            <div>
+              <p className="text-gray-500">First response due</p>
+              <p className="font-medium text-gray-900">
+                {ticket.firstRespondedAt ? `Answered ${formatDateTime(ticket.firstRespondedAt)}` : formatDateTime(ticket.firstResponseDueAt)}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500">Resolution due</p>
+              <p className="font-medium text-gray-900">{formatDateTime(ticket.resolutionDueAt)}</p>
+            </div>
+            {ticket.slaBreached && (
+              <p className="col-span-2 flex items-center text-red-700">
+                <AlertTriangle className="h-4 w-4 mr-1" />
+                SLA breached{ticket.escalationReason ? ` · ${ticket.escalationReason}` : ''}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-3 max-h-80 overflow-y-auto">
+          {ticket.messages.map(message => (
+            <div
+              key={message.id}
+              className={`p-3 rounded-lg ${message.authorId === viewer.id ? 'bg-blue-50 ml-8' : 'bg-gray-50 mr-8'}`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-gray-900">
+                  {message.authorName}
+                  <span className="ml-2 text-xs text-gray-500 capitalize">{message.authorRole}</span>
+                </span>
+                <span className="text-xs text-gray-500">{formatDateTime(message.createdAt)}</span>
+              </div>
+              <p className="text-sm text-gray-700 whitespace-pre-wrap">{message.body}</p>
+            </div>
+          ))}
+        </div>
+
+        {ticket.status !== 'closed' && (
+          <form onSubmit={handleReply} className="space-y-2">
+            <textarea
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              rows={3}
+              placeholder={ticket.status === 'resolved' && isRequester ? 'Reply to reopen this ticket' : 'Write a reply'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={working || !reply.trim()}
+                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {working ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                Send Reply
+              </button>
+            </div>
+          </form>
+        )}
+
+        {showEscalate && (
+          <div className="p-3 border border-red-200 rounded-lg space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Why does this need an admin?</label>
+            <textarea
+              value={escalationReason}
+              onChange={(e) => setEscalationReason(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setShowEscalate(false)}
+                className="px-3 py-1.5 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleEscalate}
+                disabled={working || !escalationReason.trim()}
+                className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm disabled:opacity-50"
+              >
+                Escalate
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2 pt-2 border-t border-gray-200">
+          {isAdmin && isActive && ticket.assigneeId !== viewer.id && (
+            <button
+              type="button"
+              disabled={working}
+              onClick={() => runAction(() => supportService.assignTicket(ticket.id, viewer, { id: viewer.id, name: viewer.name }), 'Ticket assigned to you')}
+              className="px-3 py-1.5 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 text-sm"
+            >
+              Assign to me
+            </button>
+          )}
+          {isActive && ticket.status !== 'escalated' && !isAdmin && !showEscalate && (
+            <button
+              type="button"
+              disabled={working}
+              onClick={() => setShowEscalate(true)}
+              className="px-3 py-1.5 border border-red-300 text-red-700 bg-white rounded-lg hover:bg-red-50 text-sm"
+            >
+              Escalate to admin
+            </button>
+          )}
+          {canChangeStatus && RESPONDER_STATUSES.filter(option => option.status !== ticket.status && (isActive || option.status === 'closed')).map(option => (
+            <button
+              key={option.status}
+              type="button"
+              disabled={working}
+              onClick={() => runAction(() => supportService.updateStatus(ticket.id, option.status, viewer), option.message)}
+              className="px-3 py-1.5 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 text-sm"
+            >
+              {option.label}
+            </button>
+          ))}
+          {isRequester && ticket.status !== 'closed' && (
+            <button
+              type="button"
+              disabled={working}
+              onClick={() => runAction(() => supportService.updateStatus(ticket.id, 'closed', viewer), 'Ticket closed')}
+              className="px-3 py-1.5 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 text-sm"
+            >
+              Close ticket
+            </button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  )
+}
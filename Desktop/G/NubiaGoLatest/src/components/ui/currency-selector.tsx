@@ -0,0 +1,35 @@
+'use client'
+
+import { BASE_CURRENCY, CURRENCIES } from '@/lib/currency'
+import { useCurrency } from '@/hooks/useCurrency'
+import { useCurrencyStore } from '@/store/currency'
+
+interface CurrencySelectorProps {
+  className?: string
+}
+
+export function CurrencySelector({ className = '' }: CurrencySelectorProps) {
+  const { currency, setCurrency } = useCurrency()
+  const table = useCurrencyStore(state => state.table)
+
+  // Only currencies with a rate can be shown
+  const available = [BASE_CURRENCY, ...Object.keys(table?.rates || {})]
+    .filter((code, index, codes) => CURRENCIES[code] && codes.indexOf(code) === index)
+
+  if (available.length < 2) return null
+
+  return (
+    <select
+      value={currency}
+      onChange={(e) => setCurrency(e.target.value)}
+      className={`rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm text-gray-700 focus:ring-2 focus:ring-primary-500 dark:bg-gray-800 dark:text-gray-300 ${className}`}
+      aria-label="Currency"
+    >
+      {available.map(code => (
+        <option key={code} value={code}>
+          {code} ({CURRENCIES[code].symbol})
+        </option>
+      ))}
+    </select>
+  )
+}
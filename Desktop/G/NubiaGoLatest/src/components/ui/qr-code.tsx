@@ -0,0 +1,39 @@
+'use client'
+
+import { useMemo } from 'react'
+import { encodeQrCode } from '@/lib/qr-code'
+
+interface QrCodeProps {
+  value: string
+  size?: number
+  className?: string
+}
+
+// Scanners need a light border of four modules around the code
+const QUIET_ZONE = 4
+
+export function QrCode({ value, size = 192, className = '' }: QrCodeProps) {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value)
+    let path = ''
+    modules.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) path += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`
+    }))
+    return { path, dimension: modules.length + QUIET_ZONE * 2 }
+  }, [value])
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  )
+}
@@ -2,6 +2,8 @@
 
 // Core Hooks
 export { useAuth } from './useAuth'
+export { useChatPresence } from './useChatPresence'
+export { useCurrency } from './useCurrency'
 export { useFirebaseAuth } from './useFirebaseAuth'
 export { useCSRF } from './useCSRF'
 export { useDebounce } from './useDebounce'
@@ -8,7 +8,7 @@ interface UseAuthReturn {
   user: User | null
   loading: boolean
   error: string | null
-  signIn: (email: string, password: string) => Promise<void>
+  signIn: (email: string, password: string, twoFactorCode?: string) => Promise<void>
   signOut: () => Promise<void>
   register: (email: string, password: string, displayName?: string, role?: 'customer' | 'supplier') => Promise<void>
   resendVerification: () => Promise<void>
@@ -34,11 +34,11 @@ export function useAuth(): UseAuthReturn {
     }
   }, [])
 
-  const signIn = useCallback(async (email: string, password: string) => {
+  const signIn = useCallback(async (email: string, password: string, twoFactorCode?: string) => {
     setLoading(true)
     setError(null)
     try {
-      await authService.signIn(email, password)
+      await authService.signIn(email, password, twoFactorCode)
     } catch (error: any) {
       setError(error.message)
       throw error
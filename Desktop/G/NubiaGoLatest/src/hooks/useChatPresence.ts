@@ -0,0 +1,24 @@
+'use client'
+
+import { useEffect } from 'react'
+import { chatService, PRESENCE_HEARTBEAT_MS } from '@/lib/services/chat.service'
+
+// Show the signed-in user as online in chat while the calling component is mounted
+export function useChatPresence(userId?: string | null): void {
+  useEffect(() => {
+    if (!userId) return
+
+    chatService.setPresence(userId, true)
+    const heartbeat = setInterval(() => chatService.setPresence(userId, true), PRESENCE_HEARTBEAT_MS)
+    const handleUnload = () => {
+      chatService.setPresence(userId, false)
+    }
+    window.addEventListener('beforeunload', handleUnload)
+
+    return () => {
+      clearInterval(heartbeat)
+      window.removeEventListener('beforeunload', handleUnload)
+      chatService.setPresence(userId, false)
+    }
+  }, [userId])
+}
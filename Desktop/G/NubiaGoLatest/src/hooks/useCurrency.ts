@@ -0,0 +1,27 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useCurrencyStore } from '@/store/currency'
+import { formatCurrency } from '@/lib/formatting'
+
+// Shopper's display currency, with rates loaded on first use. Components re-render
+// when the shopper switches currency or new rates arrive.
+export function useCurrency() {
+  const table = useCurrencyStore(state => state.table)
+  const loadRates = useCurrencyStore(state => state.loadRates)
+  const setCurrency = useCurrencyStore(state => state.setCurrency)
+  const convert = useCurrencyStore(state => state.convert)
+  const currency = useCurrencyStore(state => state.getDisplayCurrency())
+
+  useEffect(() => {
+    if (!table) loadRates()
+  }, [table, loadRates])
+
+  return {
+    currency,
+    setCurrency,
+    convert,
+    // A base-currency amount, converted and formatted for the shopper
+    formatPrice: (amount: number) => formatCurrency(convert(amount), currency)
+  }
+}
@@ -7,6 +7,7 @@ import {
   createUserWithEmailAndPassword,
   signOut as firebaseSignOut,
   onAuthStateChanged,
+  onIdTokenChanged,
   sendPasswordResetEmail,
   updateProfile,
   signInWithPopup,
@@ -14,12 +15,13 @@ import {
   UserCredential
 } from 'firebase/auth'
 import { auth } from '@/lib/firebase/config'
+import { authService } from '@/lib/services/auth.service'
 import { logger } from '@/lib/utils/logger'
 
 interface AuthContextType {
   user: User | null
   loading: boolean
-  signIn: (email: string, password: string) => Promise<UserCredential>
+  signIn: (email: string, password: string, twoFactorCode?: string) => Promise<UserCredential>
   signUp: (email: string, password: string, displayName?: string) => Promise<UserCredential>
   signInWithGoogle: () => Promise<UserCredential>
   signOut: () => Promise<void>
@@ -49,10 +51,23 @@ export function FirebaseAuthProvider({ children }: { children: React.ReactNode }
     return unsubscribe
   }, [])
 
-  const signIn = async (email: string, password: string) => {
+  // Fires on sign-in, sign-out and every hourly token refresh. Visitors who were never
+  // signed in have no session claim to drop.
+  useEffect(() => {
+    let signedIn = false
+    return onIdTokenChanged(auth, (user) => {
+      if (user || signedIn) authService.syncSession(user)
+      signedIn = !!user
+    })
+  }, [])
+
+  const signIn = async (email: string, password: string, twoFactorCode?: string) => {
     try {
       setError(null)
       const result = await signInWithEmailAndPassword(auth, email, password)
+      await authService.completeTwoFactor(result.user, twoFactorCode)
+      // The dashboards check the session claim, so have it before navigating there
+      await authService.syncSession(result.user)
       return result
     } catch (error: any) {
       logger.error('Sign in error:', error)
@@ -177,6 +192,7 @@ export function FirebaseAuthProvider({ children }: { children: React.ReactNode }
       })
       
       const result = await signInWithPopup(auth, provider)
+      await authService.syncSession(result.user)
       return result
     } catch (error: any) {
       logger.error('Google sign in error:', error)
@@ -1,12 +1,22 @@
 import { useState, useCallback } from 'react'
-import { ShippingRate, ShippingAddress, ShippingPackage, TrackingInfo } from '@/lib/services/logistics.service'
+import type { ShippingAddress, ShippingPackage, TrackingInfo } from '@/lib/services/logistics.service'
+import type { PackingRequestItem } from '@/lib/services/packing.service'
+import type { ShippingQuote } from '@/lib/services/shipping/rate-shopping'
 
 interface UseLogisticsReturn {
-  rates: ShippingRate[]
+  rates: ShippingQuote[]
+  // Quote set the rates belong to; sent back with the chosen rate once an order is placed
+  quoteId: string | null
   trackingInfo: TrackingInfo | null
   loading: boolean
   error: string | null
-  getRates: (fromAddress: ShippingAddress, toAddress: ShippingAddress, packages: ShippingPackage[]) => Promise<boolean>
+  getRates: (
+    fromAddress: ShippingAddress,
+    toAddress: ShippingAddress,
+    // Ready-made packages, or order items to be packed in the suppliers' boxes
+    shipment: ShippingPackage[] | { items: PackingRequestItem[] },
+    orderSubtotal?: number
+  ) => Promise<boolean>
   getTrackingInfo: (trackingNumber: string, carrierCode: string) => Promise<boolean>
   clearRates: () => void
   clearTrackingInfo: () => void
@@ -14,7 +24,8 @@ interface UseLogisticsReturn {
 }
 
 export function useLogistics(): UseLogisticsReturn {
-  const [rates, setRates] = useState<ShippingRate[]>([])
+  const [rates, setRates] = useState<ShippingQuote[]>([])
+  const [quoteId, setQuoteId] = useState<string | null>(null)
   const [trackingInfo, setTrackingInfo] = useState<TrackingInfo | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -22,7 +33,9 @@ export function useLogistics(): UseLogisticsReturn {
   const getRates = useCallback(async (
     fromAddress: ShippingAddress,
     toAddress: ShippingAddress,
-    packages: ShippingPackage[]
+    // Ready-made packages, or order items to be packed in the suppliers' boxes
+    shipment: ShippingPackage[] | { items: PackingRequestItem[] },
+    orderSubtotal?: number
   ): Promise<boolean> => {
     setLoading(true)
     setError(null)
@@ -36,7 +49,8 @@ export function useLogistics(): UseLogisticsReturn {
         body: JSON.stringify({
           fromAddress,
           toAddress,
-          packages
+          ...(Array.isArray(shipment) ? { packages: shipment } : shipment),
+          orderSubtotal
         })
       })
 
@@ -47,7 +61,8 @@ export function useLogistics(): UseLogisticsReturn {
       }
 
       if (data.success) {
-        setRates(data.data)
+        setRates(data.data.rates)
+        setQuoteId(data.data.quoteId)
         return true
       } else {
         throw new Error(data.error || 'Failed to get shipping rates')
@@ -103,6 +118,7 @@ export function useLogistics(): UseLogisticsReturn {
 
   const clearRates = useCallback(() => {
     setRates([])
+    setQuoteId(null)
   }, [])
 
   const clearTrackingInfo = useCallback(() => {
@@ -115,6 +131,7 @@ export function useLogistics(): UseLogisticsReturn {
 
   return {
     rates,
+    quoteId,
     trackingInfo,
     loading,
     error,
@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+import { ExchangeRateTable } from '@/types'
+import {
+  BASE_CURRENCY,
+  convertAmount,
+  currencyForCountry,
+  exchangeRate,
+  minorUnitsOf,
+  parseRateFile,
+  roundAmount,
+  toOrderCurrency
+} from '../currency'
+
+const TABLE: ExchangeRateTable = {
+  base: 'USD',
+  rates: { NGN: 1500, XAF: 600, EUR: 0.9 },
+  source: 'manual'
+}
+
+const lockedAt = new Date('2026-06-01T00:00:00Z')
+
+describe('roundAmount', () => {
+  it('rounds to the currency\'s minor units', () => {
+    expect(roundAmount(19.994, 'USD')).toBe(19.99)
+    expect(roundAmount(1234.4, 'XAF')).toBe(1234)
+    expect(roundAmount(99.6, 'UGX')).toBe(100)
+  })
+
+  it('rounds halves away from zero, for refunds too', () => {
+    expect(roundAmount(0.125, 'USD')).toBe(0.13)
+    expect(roundAmount(-0.125, 'USD')).toBe(-0.13)
+    expect(roundAmount(1234.5, 'XOF')).toBe(1235)
+    expect(roundAmount(-1234.5, 'XOF')).toBe(-1235)
+  })
+
+  it('uses two decimals for currencies it does not know', () => {
+    expect(minorUnitsOf('ABC')).toBe(2)
+    expect(roundAmount(3.14159, 'ABC')).toBe(3.14)
+  })
+})
+
+describe('exchangeRate', () => {
+  it('converts through the table\'s base currency', () => {
+    expect(exchangeRate(TABLE, 'USD', 'NGN')).toBe(1500)
+    expect(exchangeRate(TABLE, 'XAF', 'USD')).toBeCloseTo(1 / 600, 10)
+    expect(exchangeRate(TABLE, 'NGN', 'XAF')).toBe(0.4)
+    expect(exchangeRate(TABLE, 'GHS', 'GHS')).toBe(1)
+  })
+
+  it('has no rate when the table lacks either currency', () => {
+    expect(exchangeRate(TABLE, 'USD', 'GHS')).toBeUndefined()
+    expect(exchangeRate(TABLE, 'KES', 'NGN')).toBeUndefined()
+  })
+})
+
+describe('convertAmount', () => {
+  it('converts and rounds to the target currency', () => {
+    expect(convertAmount(19.99, 'USD', 'XAF', TABLE)).toBe(11994)
+    expect(convertAmount(1000, 'XAF', 'NGN', TABLE)).toBe(2500)
+    expect(convertAmount(10.01, 'USD', 'EUR', TABLE)).toBe(9.01)
+    expect(convertAmount(10, 'USD', 'GHS', TABLE)).toBeUndefined()
+  })
+})
+
+describe('toOrderCurrency', () => {
+  it('converts at the rate locked on the order', () => {
+    const order = { currency: 'XAF', exchangeRate: { baseCurrency: 'USD', rate: 600, lockedAt } }
+
+    expect(toOrderCurrency(19.99, order)).toEqual({ amount: 11994, currency: 'XAF' })
+    expect(toOrderCurrency(0.0009, order)).toEqual({ amount: 1, currency: 'XAF' })
+  })
+
+  it('keeps the order currency\'s minor units', () => {
+    const order = { currency: 'NGN', exchangeRate: { baseCurrency: 'USD', rate: 1523.37, lockedAt } }
+    expect(toOrderCurrency(10.55, order)).toEqual({ amount: 16071.55, currency: 'NGN' })
+  })
+
+  it('leaves orders without a locked rate in the base currency', () => {
+    expect(toOrderCurrency(42.5, {})).toEqual({ amount: 42.5, currency: BASE_CURRENCY })
+    expect(toOrderCurrency(42.5, { currency: 'XAF' })).toEqual({ amount: 42.5, currency: BASE_CURRENCY })
+  })
+})
+
+describe('currencyForCountry', () => {
+  it('finds the currency from a country code or name', () => {
+    expect(currencyForCountry('cm')).toBe('XAF')
+    expect(currencyForCountry(' Ivory Coast ')).toBe('XOF')
+    expect(currencyForCountry('Nigeria')).toBe('NGN')
+  })
+
+  it('has no currency for unknown or missing countries', () => {
+    expect(currencyForCountry('Narnia')).toBeUndefined()
+    expect(currencyForCountry('JP')).toBeUndefined()
+    expect(currencyForCountry(null)).toBeUndefined()
+  })
+})
+
+describe('parseRateFile', () => {
+  it('reads CSV rows, skipping a header row', () => {
+    expect(parseRateFile('currency,rate\nngn,1500\nXAF;600\n')).toEqual({ rates: { NGN: 1500, XAF: 600 }, errors: [] })
+  })
+
+  it('reads JSON with or without a rates key', () => {
+    expect(parseRateFile('{"rates":{"NGN":1500}}').rates).toEqual({ NGN: 1500 })
+    expect(parseRateFile('{"XAF":"600"}').rates).toEqual({ XAF: 600 })
+  })
+
+  it('reports bad codes and rates by line', () => {
+    expect(parseRateFile('NGN,1500\nNAIRA,1500\nXAF,-1').errors).toEqual([
+      'Line 2: "NAIRA" is not a currency code',
+      'Line 3: rate for XAF must be a number above 0'
+    ])
+    expect(parseRateFile('{"NGN":').errors).toEqual(['File is not valid JSON'])
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ */
+import { JWTVerifier } from '../jwt-verifier'
+import { RemoteKeySource, RS256_ALGORITHM, StaticKeySource } from '../jwks'
+
+const PROJECT_ID = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID
+
+const base64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...Array.from(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+const encodePart = (value: object): string => base64Url(new TextEncoder().encode(JSON.stringify(value)))
+
+const generateKeyPair = () =>
+  crypto.subtle.generateKey(
+    { ...RS256_ALGORITHM, modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]) },
+    true,
+    ['sign', 'verify']
+  ) as Promise<CryptoKeyPair>
+
+async function signToken(privateKey: CryptoKey, overrides: Record<string, any> = {}, header: object = {}) {
+  const now = Math.floor(Date.now() / 1000)
+  const signingInput = `${encodePart({ alg: 'RS256', kid: 'test-key', typ: 'JWT', ...header })}.${encodePart({
+    iss: `https://securetoken.google.com/${PROJECT_ID}`,
+    aud: PROJECT_ID,
+    auth_time: now,
+    user_id: 'user-1',
+    sub: 'user-1',
+    iat: now,
+    exp: now + 3600,
+    email: 'shopper@example.com',
+    email_verified: true,
+    firebase: { identities: {}, sign_in_provider: 'password' },
+    ...overrides
+  })}`
+  const signature = await crypto.subtle.sign(RS256_ALGORITHM, privateKey, new TextEncoder().encode(signingInput))
+  return `${signingInput}.${base64Url(new Uint8Array(signature))}`
+}
+
+describe('JWTVerifier', () => {
+  let keyPair: CryptoKeyPair
+  let otherKeyPair: CryptoKeyPair
+
+  beforeAll(async () => {
+    keyPair = await generateKeyPair()
+    otherKeyPair = await generateKeyPair()
+  })
+
+  beforeEach(() => {
+    JWTVerifier.setKeySource(new StaticKeySource({ 'test-key': keyPair.publicKey }))
+  })
+
+  it('accepts a token signed with a known key', async () => {
+    const result = await JWTVerifier.verifyToken(await signToken(keyPair.privateKey))
+
+    expect(result.valid).toBe(true)
+    expect(result.payload?.user_id).toBe('user-1')
+  })
+
+  it('rejects a token signed with a different key', async () => {
+    const result = await JWTVerifier.verifyToken(await signToken(otherKeyPair.privateKey))
+
+    expect(result).toEqual({ valid: false, error: 'Invalid signature' })
+  })
+
+  it('rejects a token whose payload was changed after signing', async () => {
+    const [header, , signature] = (await signToken(keyPair.privateKey)).split('.')
+    const forged = await signToken(keyPair.privateKey, { user_id: 'admin-1', sub: 'admin-1' })
+
+    const result = await JWTVerifier.verifyToken(`${header}.${forged.split('.')[1]}.${signature}`)
+
+    expect(result.valid).toBe(false)
+  })
+
+  it('rejects unknown kids and algorithms other than RS256', async () => {
+    const unknownKid = await JWTVerifier.verifyToken(await signToken(keyPair.privateKey, {}, { kid: 'rotated-out' }))
+    const unsigned = await JWTVerifier.verifyToken(await signToken(keyPair.privateKey, {}, { alg: 'none' }))
+
+    expect(unknownKid.valid).toBe(false)
+    expect(unsigned.valid).toBe(false)
+  })
+
+  it('tolerates clock skew on expiry and issue time', async () => {
+    const now = Math.floor(Date.now() / 1000)
+    const withinSkew = await signToken(keyPair.privateKey, { iat: now + 30, exp: now - 30 })
+    const beyondSkew = await signToken(keyPair.privateKey, { exp: now - JWTVerifier.CLOCK_SKEW_SECONDS - 5 })
+    const issuedLater = await signToken(keyPair.privateKey, { iat: now + JWTVerifier.CLOCK_SKEW_SECONDS + 5 })
+
+    expect((await JWTVerifier.verifyToken(withinSkew)).valid).toBe(true)
+    expect(await JWTVerifier.verifyToken(beyondSkew)).toEqual({ valid: false, error: 'Token expired' })
+    expect((await JWTVerifier.verifyToken(issuedLater)).valid).toBe(false)
+  })
+})
+
+describe('RemoteKeySource', () => {
+  const jwkResponse = async (kid: string, key: CryptoKey, cacheControl = 'public, max-age=3600') =>
+    new Response(JSON.stringify({ keys: [{ ...(await crypto.subtle.exportKey('jwk', key)), kid, use: 'sig' }] }), {
+      headers: { 'cache-control': cacheControl }
+    })
+
+  it('caches the key set for the Cache-Control max-age', async () => {
+    const { publicKey } = await generateKeyPair()
+    const fetcher = jest.fn(async () => jwkResponse('key-1', publicKey))
+    const source = new RemoteKeySource('https://keys.example.com', fetcher)
+
+    expect(await source.getKey('key-1')).not.toBeNull()
+    expect(await source.getKey('key-1')).not.toBeNull()
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('refetches for an unknown kid once the keys may have rotated', async () => {
+    const first = await generateKeyPair()
+    const second = await generateKeyPair()
+    const fetcher = jest.fn()
+      .mockImplementationOnce(async () => jwkResponse('key-1', first.publicKey))
+      .mockImplementationOnce(async () => jwkResponse('key-2', second.publicKey))
+    const source = new RemoteKeySource('https://keys.example.com', fetcher)
+    const now = Date.now()
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now)
+
+    await source.getKey('key-1')
+    // Within the refetch interval an unknown kid is just rejected
+    expect(await source.getKey('key-2')).toBeNull()
+    clock.mockReturnValue(now + 2 * 60 * 1000)
+    expect(await source.getKey('key-2')).not.toBeNull()
+    expect(fetcher).toHaveBeenCalledTimes(2)
+
+    clock.mockRestore()
+  })
+})
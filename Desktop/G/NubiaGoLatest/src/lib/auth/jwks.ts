@@ -0,0 +1,99 @@
+// Public keys for verifying token signatures. Built on Web Crypto so verification runs
+// in the Edge runtime as well as Node route handlers.
+
+// Firebase ID tokens are signed with these rotating keys, published as a JWK set
+export const FIREBASE_JWKS_URL =
+  'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com'
+
+export const RS256_ALGORITHM = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }
+
+// Where the verifier gets the key a token names in its `kid` header
+export interface KeySource {
+  getKey(kid: string): Promise<CryptoKey | null>
+}
+
+interface JWKSet {
+  keys: Array<JsonWebKey & { kid?: string }>
+}
+
+// Used when the key set response has no usable Cache-Control max-age
+const DEFAULT_CACHE_SECONDS = 60 * 60
+// An unknown kid triggers a refetch in case the keys rotated, but no more often than
+// this, so tokens with made-up kids can't make us hammer the key endpoint
+const MIN_REFETCH_SECONDS = 60
+
+export function importRS256Key(jwk: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey('jwk', jwk, RS256_ALGORITHM, false, ['verify'])
+}
+
+// Seconds a response may be cached for, from its Cache-Control header
+export function maxAgeSeconds(cacheControl: string | null): number | null {
+  if (!cacheControl || /no-cache|no-store/i.test(cacheControl)) return null
+  const match = cacheControl.match(/max-age=(\d+)/i)
+  return match ? Number(match[1]) : null
+}
+
+// Key set fetched over HTTP and cached for as long as the response allows
+export class RemoteKeySource implements KeySource {
+  private keys = new Map<string, CryptoKey>()
+  private expiresAt = 0
+  private fetchedAt = 0
+  private pending: Promise<void> | null = null
+
+  constructor(
+    private readonly url: string = FIREBASE_JWKS_URL,
+    private readonly fetcher: typeof fetch = (input, init) => fetch(input, init)
+  ) {}
+
+  async getKey(kid: string): Promise<CryptoKey | null> {
+    const now = Date.now()
+    if (now >= this.expiresAt) {
+      await this.refresh()
+    } else if (!this.keys.has(kid) && now - this.fetchedAt >= MIN_REFETCH_SECONDS * 1000) {
+      // The keys may have rotated since we cached them
+      await this.refresh()
+    }
+    return this.keys.get(kid) || null
+  }
+
+  // Concurrent callers share one request
+  private refresh(): Promise<void> {
+    if (!this.pending) {
+      this.pending = this.load().then(
+        () => { this.pending = null },
+        (error) => { this.pending = null; throw error }
+      )
+    }
+    return this.pending
+  }
+
+  private async load(): Promise<void> {
+    const response = await this.fetcher(this.url, { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error(`Key set request failed with status ${response.status}`)
+    }
+
+    const body = await response.json() as JWKSet
+    const keys = new Map<string, CryptoKey>()
+    for (const jwk of body.keys || []) {
+      // Only RSA signing keys are of use for RS256
+      if (!jwk.kid || jwk.kty !== 'RSA' || (jwk.use && jwk.use !== 'sig')) continue
+      keys.set(jwk.kid, await importRS256Key({ kty: jwk.kty, n: jwk.n, e: jwk.e, alg: 'RS256', ext: true }))
+    }
+
+    const now = Date.now()
+    const maxAge = maxAgeSeconds(response.headers.get('cache-control'))
+    this.keys = keys
+    this.fetchedAt = now
+    this.expiresAt = now + (maxAge ?? DEFAULT_CACHE_SECONDS) * 1000
+  }
+}
+
+// Fixed keys, e.g. a locally generated key pair in tests
+export class StaticKeySource implements KeySource {
+  constructor(private readonly keys: Record<string, CryptoKey>) {}
+
+  async getKey(kid: string): Promise<CryptoKey | null> {
+    return this.keys[kid] || null
+  }
+}
@@ -1,5 +1,12 @@
 // JWT verification utility for Edge Runtime
 // This works without Firebase Admin dependencies
+import { KeySource, RemoteKeySource, RS256_ALGORITHM } from './jwks'
+
+interface JWTHeader {
+  alg: string
+  kid?: string
+  typ?: string
+}
 
 interface JWTPayload {
   iss: string
@@ -26,6 +33,16 @@ interface VerificationResult {
 export class JWTVerifier {
   private static readonly FIREBASE_PROJECT_ID = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID
   private static readonly FIREBASE_AUTH_DOMAIN = process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN
+  // Allowance for clocks drifting between us and the token issuer
+  static readonly CLOCK_SKEW_SECONDS = 60
+  private static keySource: KeySource = new RemoteKeySource()
+
+  /**
+   * Replace where signing keys come from, e.g. a local key pair in tests
+   */
+  static setKeySource(source: KeySource): void {
+    this.keySource = source
+  }
 
   /**
    * Verify Firebase JWT token
@@ -37,9 +54,11 @@ export class JWTVerifier {
       }
 
       // Decode the JWT token
-      const decoded = this.decodeJWT(token)
+      const parts = token.split('.')
+      const header = this.decodeJWT(token, 0) as JWTHeader | null
+      const decoded = this.decodeJWT(token, 1)
       
-      if (!decoded) {
+      if (!header || !decoded) {
         return { valid: false, error: 'Invalid token format' }
       }
 
@@ -53,6 +72,11 @@ export class JWTVerifier {
         return { valid: false, error: 'Token expired' }
       }
 
+      // Reject tokens issued in the future
+      if (!this.isIssued(decoded)) {
+        return { valid: false, error: 'Token used before issue time' }
+      }
+
       // Check issuer
       if (!this.isValidIssuer(decoded)) {
         return { valid: false, error: 'Invalid issuer' }
@@ -63,8 +87,8 @@ export class JWTVerifier {
         return { valid: false, error: 'Invalid audience' }
       }
 
-      // Verify signature (simplified for Edge Runtime)
-      if (!await this.verifySignature(token)) {
+      // Verify signature against the issuer's public key
+      if (!await this.verifySignature(header, parts)) {
         return { valid: false, error: 'Invalid signature' }
       }
 
@@ -76,26 +100,35 @@ export class JWTVerifier {
   }
 
   /**
-   * Decode JWT token (base64 decode only)
+   * Decode one JSON part of a JWT token (0 = header, 1 = payload)
    */
-  private static decodeJWT(token: string): JWTPayload | null {
+  private static decodeJWT(token: string, index: 0 | 1): any | null {
     try {
       const parts = token.split('.')
       if (parts.length !== 3) {
         return null
       }
 
-      // Decode payload
-      const payload = parts[1]
-      const decoded = JSON.parse(atob(payload))
-      
-      return decoded as JWTPayload
+      return JSON.parse(new TextDecoder().decode(this.base64UrlDecode(parts[index])))
     } catch (error) {
       console.error('JWT decode error:', error)
       return null
     }
   }
 
+  /**
+   * Decode base64url (JWT parts use it, and omit the padding)
+   */
+  private static base64UrlDecode(value: string) {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+    const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='))
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i)
+    }
+    return bytes
+  }
+
   /**
    * Check if payload has required fields
    */
@@ -116,7 +149,15 @@ export class JWTVerifier {
    */
   private static isExpired(payload: JWTPayload): boolean {
     const now = Math.floor(Date.now() / 1000)
-    return payload.exp < now
+    return payload.exp < now - this.CLOCK_SKEW_SECONDS
+  }
+
+  /**
+   * Check the token was not issued (or its user signed in) in the future
+   */
+  private static isIssued(payload: JWTPayload): boolean {
+    const latest = Math.floor(Date.now() / 1000) + this.CLOCK_SKEW_SECONDS
+    return payload.iat <= latest && (typeof payload.auth_time !== 'number' || payload.auth_time <= latest)
   }
 
   /**
@@ -135,35 +176,26 @@ export class JWTVerifier {
   }
 
   /**
-   * Verify JWT signature (simplified implementation)
+   * Verify the RS256 signature with the public key named by the header's kid
    */
-  private static async verifySignature(token: string): Promise<boolean> {
+  private static async verifySignature(header: JWTHeader, parts: string[]): Promise<boolean> {
     try {
-      // In a production environment, you would:
-      // 1. Fetch Firebase public keys from https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com
-      // 2. Verify the signature using the appropriate public key
-      // 3. Check the key ID (kid) in the header
-      
-      // For now, we'll do basic validation
-      const parts = token.split('.')
-      if (parts.length !== 3) {
-        return false
-      }
-
-      // Check if the token has a valid structure
-      const header = JSON.parse(atob(parts[0]))
-      const payload = JSON.parse(atob(parts[1]))
-
-      // Basic checks
-      if (!header.alg || !header.kid) {
+      // Only RS256 is accepted, so a token can't pick a weaker algorithm (or "none")
+      if (header.alg !== 'RS256' || !header.kid) {
         return false
       }
 
-      if (!payload.iss || !payload.aud || !payload.sub) {
+      const key = await this.keySource.getKey(header.kid)
+      if (!key) {
         return false
       }
 
-      return true
+      return await crypto.subtle.verify(
+        RS256_ALGORITHM,
+        key,
+        this.base64UrlDecode(parts[2]),
+        new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+      )
     } catch (error) {
       console.error('Signature verification error:', error)
       return false
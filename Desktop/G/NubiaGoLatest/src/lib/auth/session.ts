@@ -0,0 +1,75 @@
+// Session claim the page middleware trusts for who is signed in and what they may open.
+// The server issues it after verifying a Firebase ID token and reading the user's role
+// and status, and signs it with HMAC so the Edge runtime can check it without Firestore.
+import { hmacSha256Hex, safeEqual } from '@/lib/security/hmac'
+import type { RouteRole } from '@/app/routes'
+
+export const AUTH_SESSION_COOKIE = 'auth-session'
+// Lasts as long as a Firebase ID token. The client reissues the claim on every hourly
+// token refresh, so a role or status change (e.g. a suspension) locks out open sessions
+// within the hour, and a claim that stops being refreshed lapses.
+export const AUTH_SESSION_MAX_AGE = 60 * 60
+
+export interface SessionClaim {
+  uid: string
+  role: RouteRole
+  status: string
+  // False while a user with 2FA on has signed in but not yet entered a code
+  twoFactorVerified: boolean
+  exp: number
+}
+
+const sessionSecret = (): string | undefined =>
+  process.env.SESSION_SECRET || process.env.JWT_SECRET
+
+export async function createSessionClaim(
+  uid: string,
+  role: RouteRole,
+  status: string,
+  twoFactorVerified: boolean
+): Promise<string> {
+  const secret = sessionSecret()
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not configured')
+  }
+
+  const claim: SessionClaim = {
+    uid,
+    role,
+    status,
+    twoFactorVerified,
+    exp: Math.floor(Date.now() / 1000) + AUTH_SESSION_MAX_AGE
+  }
+  const body = encodeURIComponent(JSON.stringify(claim))
+  return `${body}.${await hmacSha256Hex(secret, body)}`
+}
+
+// The claim if it is genuine and unexpired. Without a configured secret nothing
+// verifies, so protected pages fail closed.
+export async function verifySessionClaim(value: string | null | undefined): Promise<SessionClaim | null> {
+  const secret = sessionSecret()
+  if (!value || !secret) return null
+
+  const separator = value.lastIndexOf('.')
+  if (separator === -1) return null
+  const body = value.slice(0, separator)
+  if (!safeEqual(value.slice(separator + 1), await hmacSha256Hex(secret, body))) return null
+
+  try {
+    const claim = JSON.parse(decodeURIComponent(body)) as SessionClaim
+    return claim.exp > Math.floor(Date.now() / 1000) ? claim : null
+  } catch {
+    return null
+  }
+}
+
+// Cookie settings for the claim; httpOnly so page scripts can't lift it
+export const sessionClaimCookie = (value: string) => ({
+  name: AUTH_SESSION_COOKIE,
+  value,
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge: AUTH_SESSION_MAX_AGE
+})
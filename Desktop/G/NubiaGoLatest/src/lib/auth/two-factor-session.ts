@@ -0,0 +1,66 @@
+// Session claim proving a sign-in passed its second factor. It is an HMAC-signed cookie
+// tied to the user and to the `auth_time` of their ID token, so it lapses on the next
+// password sign-in while surviving the hourly token refresh.
+import { hmacSha256Hex, safeEqual } from '@/lib/security/hmac'
+
+export const TWO_FACTOR_SESSION_COOKIE = 'mfa-session'
+export const TWO_FACTOR_SESSION_MAX_AGE = 12 * 60 * 60
+
+interface TwoFactorClaim {
+  uid: string
+  authTime: number
+  exp: number
+}
+
+const sessionSecret = (): string | undefined =>
+  process.env.TWO_FACTOR_SESSION_SECRET || process.env.JWT_SECRET
+
+export async function createTwoFactorSession(uid: string, authTime: number): Promise<string> {
+  const secret = sessionSecret()
+  if (!secret) {
+    throw new Error('TWO_FACTOR_SESSION_SECRET is not configured')
+  }
+
+  const claim: TwoFactorClaim = {
+    uid,
+    authTime,
+    exp: Math.floor(Date.now() / 1000) + TWO_FACTOR_SESSION_MAX_AGE
+  }
+  const body = encodeURIComponent(JSON.stringify(claim))
+  return `${body}.${await hmacSha256Hex(secret, body)}`
+}
+
+// Without a configured secret nothing verifies, so required 2FA fails closed
+export async function verifyTwoFactorSession(
+  value: string | null | undefined,
+  uid: string,
+  authTime?: number
+): Promise<boolean> {
+  const secret = sessionSecret()
+  if (!value || !secret) return false
+
+  const separator = value.lastIndexOf('.')
+  if (separator === -1) return false
+  const body = value.slice(0, separator)
+  if (!safeEqual(value.slice(separator + 1), await hmacSha256Hex(secret, body))) return false
+
+  try {
+    const claim = JSON.parse(decodeURIComponent(body)) as TwoFactorClaim
+    return claim.uid === uid &&
+      claim.authTime === authTime &&
+      claim.exp > Math.floor(Date.now() / 1000)
+  } catch {
+    return false
+  }
+}
+
+// Cookie settings for the claim; httpOnly so page scripts can't lift it
+export const twoFactorSessionCookie = (value: string) => ({
+  name: TWO_FACTOR_SESSION_COOKIE,
+  value,
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  path: '/',
+  maxAge: TWO_FACTOR_SESSION_MAX_AGE
+})
@@ -0,0 +1,192 @@
+// Currencies shoppers can pay in, their rounding rules, and conversion from the base
+// currency catalog prices and order totals are kept in. Rates come from the exchange
+// rate table admins maintain.
+import { ExchangeRateTable, Order } from '@/types'
+import { CURRENCY } from './constants'
+
+export interface CurrencyDefinition {
+  code: string
+  name: string
+  symbol: string
+  // Digits after the decimal point; 0 for currencies without minor units in use
+  minorUnits: number
+}
+
+export const BASE_CURRENCY = CURRENCY.CODE
+
+export const CURRENCIES: Record<string, CurrencyDefinition> = {
+  USD: { code: 'USD', name: 'US Dollar', symbol: '$', minorUnits: 2 },
+  EUR: { code: 'EUR', name: 'Euro', symbol: '€', minorUnits: 2 },
+  GBP: { code: 'GBP', name: 'British Pound', symbol: '£', minorUnits: 2 },
+  NGN: { code: 'NGN', name: 'Nigerian Naira', symbol: '₦', minorUnits: 2 },
+  GHS: { code: 'GHS', name: 'Ghanaian Cedi', symbol: 'GH₵', minorUnits: 2 },
+  KES: { code: 'KES', name: 'Kenyan Shilling', symbol: 'KSh', minorUnits: 2 },
+  UGX: { code: 'UGX', name: 'Ugandan Shilling', symbol: 'USh', minorUnits: 0 },
+  TZS: { code: 'TZS', name: 'Tanzanian Shilling', symbol: 'TSh', minorUnits: 2 },
+  RWF: { code: 'RWF', name: 'Rwandan Franc', symbol: 'FRw', minorUnits: 0 },
+  ZAR: { code: 'ZAR', name: 'South African Rand', symbol: 'R', minorUnits: 2 },
+  XAF: { code: 'XAF', name: 'Central African CFA Franc', symbol: 'FCFA', minorUnits: 0 },
+  XOF: { code: 'XOF', name: 'West African CFA Franc', symbol: 'CFA', minorUnits: 0 }
+}
+
+// ISO 3166 country code to the currency shoppers there pay in
+export const COUNTRY_CURRENCIES: Record<string, string> = {
+  US: 'USD',
+  GB: 'GBP',
+  FR: 'EUR',
+  DE: 'EUR',
+  BE: 'EUR',
+  NL: 'EUR',
+  NG: 'NGN',
+  GH: 'GHS',
+  KE: 'KES',
+  UG: 'UGX',
+  TZ: 'TZS',
+  RW: 'RWF',
+  ZA: 'ZAR',
+  CM: 'XAF',
+  GA: 'XAF',
+  CG: 'XAF',
+  TD: 'XAF',
+  CF: 'XAF',
+  GQ: 'XAF',
+  CI: 'XOF',
+  SN: 'XOF',
+  BJ: 'XOF',
+  BF: 'XOF',
+  ML: 'XOF',
+  NE: 'XOF',
+  TG: 'XOF'
+}
+
+// Country names as typed into addresses, for the ones that don't use codes
+const COUNTRY_CODES_BY_NAME: Record<string, string> = {
+  'united states': 'US',
+  'united kingdom': 'GB',
+  france: 'FR',
+  germany: 'DE',
+  belgium: 'BE',
+  netherlands: 'NL',
+  nigeria: 'NG',
+  ghana: 'GH',
+  kenya: 'KE',
+  uganda: 'UG',
+  tanzania: 'TZ',
+  rwanda: 'RW',
+  'south africa': 'ZA',
+  cameroon: 'CM',
+  gabon: 'GA',
+  congo: 'CG',
+  chad: 'TD',
+  'central african republic': 'CF',
+  'equatorial guinea': 'GQ',
+  "côte d'ivoire": 'CI',
+  "cote d'ivoire": 'CI',
+  'ivory coast': 'CI',
+  senegal: 'SN',
+  benin: 'BJ',
+  'burkina faso': 'BF',
+  mali: 'ML',
+  niger: 'NE',
+  togo: 'TG'
+}
+
+export function isSupportedCurrency(code: string): boolean {
+  return code in CURRENCIES
+}
+
+export function minorUnitsOf(currency: string): number {
+  return CURRENCIES[currency]?.minorUnits ?? 2
+}
+
+// Currency for a country code or name, if we sell in it
+export function currencyForCountry(country?: string | null): string | undefined {
+  if (!country) return undefined
+  const trimmed = country.trim()
+  const code = trimmed.length === 2 ? trimmed.toUpperCase() : COUNTRY_CODES_BY_NAME[trimmed.toLowerCase()]
+  return code ? COUNTRY_CURRENCIES[code] : undefined
+}
+
+// Round to the currency's minor units, halves away from zero
+export function roundAmount(amount: number, currency: string): number {
+  const factor = 10 ** minorUnitsOf(currency)
+  return Math.sign(amount) * Math.round(Math.abs(amount) * factor) / factor
+}
+
+// Units of `to` per unit of `from`, or undefined when the table lacks either rate
+export function exchangeRate(table: ExchangeRateTable, from: string, to: string): number | undefined {
+  if (from === to) return 1
+  const rateOf = (code: string) => code === table.base ? 1 : table.rates[code]
+  const fromRate = rateOf(from)
+  const toRate = rateOf(to)
+  return fromRate && toRate ? toRate / fromRate : undefined
+}
+
+export function convertAmount(amount: number, from: string, to: string, table: ExchangeRateTable): number | undefined {
+  const rate = exchangeRate(table, from, to)
+  return rate === undefined ? undefined : roundAmount(amount * rate, to)
+}
+
+// A base-currency amount of an order in the currency it was paid in, at the rate locked
+// at checkout. Orders from before currencies were locked stay in the base currency.
+export function toOrderCurrency(
+  amount: number,
+  order: Pick<Order, 'currency' | 'exchangeRate'>
+): { amount: number; currency: string } {
+  if (!order.currency || !order.exchangeRate) {
+    return { amount, currency: BASE_CURRENCY }
+  }
+  return { amount: roundAmount(amount * order.exchangeRate.rate, order.currency), currency: order.currency }
+}
+
+export function formatMoney(amount: number, currency: string, locale: string = 'en-NG'): string {
+  const digits = minorUnitsOf(currency)
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits
+    }).format(amount)
+  } catch {
+    // Runtimes without full ICU data reject some codes
+    return `${CURRENCIES[currency]?.symbol || currency} ${amount.toFixed(digits)}`
+  }
+}
+
+// Read an uploaded rate file: CSV rows of "currency,rate" (a header row is skipped) or
+// JSON, either { "rates": { "NGN": 1500 } } or the code-to-rate object on its own.
+export function parseRateFile(content: string): { rates: Record<string, number>; errors: string[] } {
+  const rates: Record<string, number> = {}
+  const errors: string[] = []
+  const add = (code: string, value: unknown, where: string) => {
+    const currency = code.trim().toUpperCase()
+    const rate = typeof value === 'number' ? value : Number(String(value).trim())
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      errors.push(`${where}: "${code}" is not a currency code`)
+    } else if (!isFinite(rate) || rate <= 0) {
+      errors.push(`${where}: rate for ${currency} must be a number above 0`)
+    } else {
+      rates[currency] = rate
+    }
+  }
+
+  const trimmed = content.trim()
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed)
+      const table = parsed && typeof parsed.rates === 'object' ? parsed.rates : parsed
+      Object.entries(table as Record<string, unknown>).forEach(([code, value]) => add(code, value, code))
+    } catch {
+      errors.push('File is not valid JSON')
+    }
+    return { rates, errors }
+  }
+
+  trimmed.split(/\r?\n/).forEach((line, index) => {
+    const [code = '', value = ''] = line.split(/[,;\t]/)
+    if (!line.trim() || (index === 0 && isNaN(Number(value.trim())))) return
+    add(code, value, `Line ${index + 1}`)
+  })
+  return { rates, errors }
+}
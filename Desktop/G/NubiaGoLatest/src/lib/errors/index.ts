@@ -51,6 +51,13 @@ export class InvalidCredentialsError extends BaseError {
   }
 }
 
+// Password was right, but the account also needs a code from an authenticator app
+export class TwoFactorRequiredError extends BaseError {
+  constructor(message: string = 'Enter the code from your authenticator app', context?: Record<string, any>) {
+    super(message, 401, true, context)
+  }
+}
+
 // Validation Errors
 export class ValidationError extends BaseError {
   public readonly fieldErrors: Record<string, string[]>
@@ -1,18 +1,16 @@
 import { CURRENCY } from './constants'
+import { formatMoney } from './currency'
+import { useCurrencyStore } from '@/store/currency'
 
-// Currency formatting
+// Currency formatting, to the currency's minor units (none for XAF, UGX and the like)
 export const formatCurrency = (amount: number, currency = CURRENCY.CODE): string => {
-  const formatter = new Intl.NumberFormat('en-NG', {
-    style: 'currency',
-    currency: currency,
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 2,
-  })
-  return formatter.format(amount)
+  return formatMoney(amount, currency)
 }
 
+// Catalog prices are in the base currency; show them in the shopper's currency
 export const formatPrice = (price: number): string => {
-  return formatCurrency(price)
+  const { convert, getDisplayCurrency } = useCurrencyStore.getState()
+  return formatCurrency(convert(price), getDisplayCurrency())
 }
 
 export const formatPriceRange = (min: number, max: number): string => {
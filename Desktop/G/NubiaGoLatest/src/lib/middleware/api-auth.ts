@@ -2,6 +2,16 @@ import { NextRequest, NextResponse } from 'next/server'
 import { JWTVerifier } from '@/lib/auth/jwt-verifier'
 import { EdgeUserService } from '@/lib/services/edge-user.service'
 import { CSRFProtection, getCSRFTokenFromRequest, getSessionTokenFromRequest } from '@/lib/security/csrf'
+import { TWO_FACTOR_SESSION_COOKIE, verifyTwoFactorSession } from '@/lib/auth/two-factor-session'
+import { twoFactorService } from '@/lib/services/two-factor.service'
+import {
+  RateLimitAlgorithm,
+  RateLimitKeyType,
+  RateLimitPolicy,
+  rateLimit,
+  rateLimitHeaders,
+  rateLimitIdentity
+} from '@/lib/utils/rate-limiter'
 
 export interface AuthenticatedRequest extends NextRequest {
   user?: {
@@ -11,6 +21,10 @@ export interface AuthenticatedRequest extends NextRequest {
     status: string
     displayName?: string | null
     emailVerified?: boolean
+    // When the user last signed in with their password, from the ID token
+    authTime?: number
+    // This session passed the second factor
+    twoFactorVerified?: boolean
   }
 }
 
@@ -18,6 +32,8 @@ export interface RoleGuard {
   roles?: string[]
   requireActive?: boolean
   requireEmailVerified?: boolean
+  // Let users who still owe a second factor through, for the routes that collect it
+  allowPendingTwoFactor?: boolean
 }
 
 /**
@@ -107,9 +123,27 @@ export async function authenticateAPI(
       )
     }
 
+    // Users with 2FA on, or whose role the admin policy requires it for, need the
+    // session claim issued after they enter a code
+    const twoFactorVerified = await verifyTwoFactorSession(
+      request.cookies.get(TWO_FACTOR_SESSION_COOKIE)?.value,
+      user.uid,
+      verificationResult.payload.auth_time
+    )
+    if (!twoFactorVerified && !roleGuard?.allowPendingTwoFactor && await twoFactorService.isRequired(user.uid, user.role)) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication required', code: 'TWO_FACTOR_REQUIRED' },
+        { status: 403 }
+      )
+    }
+
     // Add user to request
     const authenticatedRequest = request as AuthenticatedRequest
-    authenticatedRequest.user = user
+    authenticatedRequest.user = {
+      ...user,
+      authTime: verificationResult.payload.auth_time,
+      twoFactorVerified
+    }
 
     return authenticatedRequest
   } catch (error) {
@@ -182,30 +216,34 @@ export const withCustomerAuth = withAuth({
 })
 
 /**
- * Rate limiting middleware
+ * Rate limiting middleware. Requests count against their issued API key, user or IP (see
+ * rateLimitIdentity) in the shared rate limit store, per route path unless a scope is
+ * given. Responses carry RateLimit-* headers, and Retry-After when refused.
  */
-export function withRateLimit(maxRequests: number = 100, windowMs: number = 15 * 60 * 1000) {
-  const requests = new Map<string, { count: number; resetTime: number }>()
+export function withRateLimit(
+  maxRequests: number = 100,
+  windowMs: number = 15 * 60 * 1000,
+  options: { algorithm?: RateLimitAlgorithm; keyBy?: RateLimitKeyType; scope?: string } = {}
+) {
+  const policy: RateLimitPolicy = { algorithm: options.algorithm || 'sliding-log', limit: maxRequests, windowMs }
 
   return function(handler: (request: AuthenticatedRequest) => Promise<NextResponse>) {
     return async function(request: AuthenticatedRequest): Promise<NextResponse> {
-      const ip = request.ip || request.headers.get('x-forwarded-for') || 'unknown'
-      const now = Date.now()
-      
-      const userRequests = requests.get(ip)
-      
-      if (!userRequests || now > userRequests.resetTime) {
-        requests.set(ip, { count: 1, resetTime: now + windowMs })
-      } else if (userRequests.count >= maxRequests) {
+      const identity = await rateLimitIdentity(request, request.user?.uid, options.keyBy)
+      const scope = options.scope || request.nextUrl.pathname
+      const result = await rateLimit(`route:${scope}:${identity}`, maxRequests, windowMs, policy.algorithm)
+      const headers = rateLimitHeaders(result, policy)
+
+      if (!result.success) {
         return NextResponse.json(
-          { error: 'Rate limit exceeded', code: 'RATE_LIMIT_EXCEEDED' },
-          { status: 429 }
+          { error: 'Rate limit exceeded', code: 'RATE_LIMIT_EXCEEDED', retryAfter: result.retryAfter },
+          { status: 429, headers }
         )
-      } else {
-        userRequests.count++
       }
 
-      return handler(request)
+      const response = await handler(request)
+      Object.entries(headers).forEach(([name, value]) => response.headers.set(name, value))
+      return response
     }
   }
 }
@@ -301,6 +339,8 @@ export function protectAPI(
   roleGuard?: RoleGuard,
   options: {
     rateLimit?: number
+    rateLimitAlgorithm?: RateLimitAlgorithm
+    rateLimitBy?: RateLimitKeyType
     enableCSRF?: boolean
     enableLogging?: boolean
   } = {}
@@ -315,7 +355,10 @@ export function protectAPI(
 
     // Apply rate limiting if specified
     if (options.rateLimit) {
-      protectedHandler = withRateLimit(options.rateLimit)(protectedHandler)
+      protectedHandler = withRateLimit(options.rateLimit, undefined, {
+        algorithm: options.rateLimitAlgorithm,
+        keyBy: options.rateLimitBy
+      })(protectedHandler)
     }
 
     // Apply request logging if enabled
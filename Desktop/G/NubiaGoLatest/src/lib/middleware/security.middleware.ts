@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { rateLimit } from '@/lib/utils/rate-limiter'
+import { RateLimitAlgorithm, rateLimit, rateLimitHeaders, rateLimitIdentity } from '@/lib/utils/rate-limiter'
 import { validateInput } from '@/lib/utils/input-validator'
 import { logger } from '@/lib/utils/logger'
 
@@ -65,14 +65,12 @@ export class SecurityMiddleware {
 
       // 2. Rate Limiting
       if (this.config.enableRateLimit) {
-        const rateLimitResult = await this.checkRateLimit(context)
+        const rateLimitResult = await this.checkRateLimit(request, context)
         if (!rateLimitResult.allowed) {
           logger.warn(`Rate limit exceeded for IP: ${context.ip}`)
           return new NextResponse('Too Many Requests', { 
             status: 429,
-            headers: {
-              'Retry-After': rateLimitResult.retryAfter?.toString() || '60'
-            }
+            headers: rateLimitResult.headers
           })
         }
       }
@@ -129,32 +127,36 @@ export class SecurityMiddleware {
     return this.blockedIPs.has(ip)
   }
 
-  private async checkRateLimit(context: SecurityContext): Promise<{
+  private async checkRateLimit(request: NextRequest, context: SecurityContext): Promise<{
     allowed: boolean
     retryAfter?: number
+    headers: Record<string, string>
   }> {
-    // Different rate limits for different endpoints
-    const limits = {
-      '/api/auth/login': { requests: 5, window: 15 * 60 * 1000 }, // 5 per 15 min
-      '/api/auth/register': { requests: 3, window: 60 * 60 * 1000 }, // 3 per hour
-      '/api/auth/verify-email': { requests: 10, window: 60 * 60 * 1000 }, // 10 per hour
-      '/api/products': { requests: 100, window: 60 * 1000 }, // 100 per minute
-      '/api/orders': { requests: 20, window: 60 * 1000 }, // 20 per minute
-      default: { requests: 60, window: 60 * 1000 } // 60 per minute default
+    // Different rate limits for different endpoints. Logins and sign-ups use an exact
+    // sliding log; browsing endpoints use a token bucket so page loads can burst.
+    const limits: Record<string, { requests: number; window: number; algorithm: RateLimitAlgorithm }> = {
+      '/api/auth/login': { requests: 5, window: 15 * 60 * 1000, algorithm: 'sliding-log' }, // 5 per 15 min
+      '/api/auth/register': { requests: 3, window: 60 * 60 * 1000, algorithm: 'sliding-log' }, // 3 per hour
+      '/api/auth/verify-email': { requests: 10, window: 60 * 60 * 1000, algorithm: 'sliding-log' }, // 10 per hour
+      '/api/products': { requests: 100, window: 60 * 1000, algorithm: 'token-bucket' }, // 100 per minute
+      '/api/orders': { requests: 20, window: 60 * 1000, algorithm: 'token-bucket' }, // 20 per minute
+      default: { requests: 60, window: 60 * 1000, algorithm: 'token-bucket' } // 60 per minute default
     }
 
     const pathKey = Object.keys(limits).find(path => 
       context.path.startsWith(path)
     ) || 'default'
 
-    const limit = limits[pathKey as keyof typeof limits] || limits.default
-    const key = `${context.ip}:${pathKey}`
+    const limit = limits[pathKey] || limits.default
+    // API clients are counted by key, everyone else by IP; users aren't known this early
+    const key = `security:${pathKey}:${await rateLimitIdentity(request, undefined, 'auto')}`
 
-    const result = await rateLimit(key, limit.requests, limit.window)
+    const result = await rateLimit(key, limit.requests, limit.window, limit.algorithm)
     
     return {
       allowed: result.success,
-      retryAfter: result.resetTime ? Math.ceil((result.resetTime - Date.now()) / 1000) : undefined
+      retryAfter: result.retryAfter,
+      headers: rateLimitHeaders(result, { algorithm: limit.algorithm, limit: limit.requests, windowMs: limit.window })
     }
   }
 
@@ -0,0 +1,114 @@
+import { Product, ProductVariant, VariantOptionAxis, VariantSnapshot } from '@/types/product'
+
+// Helpers shared by the product page, cart, checkout and product forms for working
+// with product variants (one SKU per combination of option values).
+
+// Cart lines are keyed by product and variant, so two sizes of the same shirt are
+// separate lines. Products without variants keep the product id as their line id.
+export function getCartLineId(productId: string, variantId?: string): string {
+  return variantId ? `${productId}__${variantId}` : productId
+}
+
+// Stock is tracked per variant SKU; products without variants have one record keyed
+// by product id. SKUs are sanitized because Firestore ids can't contain '/'.
+export function getInventoryKey(item: { productId: string; variant?: Pick<VariantSnapshot, 'sku'> }): string {
+  return item.variant?.sku ? item.variant.sku.replace(/[^A-Za-z0-9_-]/g, '_') : item.productId
+}
+
+export function hasVariants(product: Pick<Product, 'variants'>): boolean {
+  return !!product.variants && product.variants.length > 0
+}
+
+export function findVariant(product: Pick<Product, 'variants'>, variantId?: string): ProductVariant | undefined {
+  if (!variantId) return undefined
+  return product.variants?.find(variant => variant.id === variantId)
+}
+
+// The variant matching every selected option value, if the selection is complete
+export function findVariantByAttributes(
+  product: Pick<Product, 'variants'>,
+  selection: Record<string, string>
+): ProductVariant | undefined {
+  return product.variants?.find(variant =>
+    Object.keys(variant.attributes).length === Object.keys(selection).length &&
+    Object.entries(variant.attributes).every(([name, value]) => selection[name] === value)
+  )
+}
+
+// Option axes in display order: the product's own, or derived from its variants
+export function getVariantOptionAxes(product: Pick<Product, 'variants' | 'variantOptions'>): VariantOptionAxis[] {
+  if (product.variantOptions?.length) {
+    return product.variantOptions
+  }
+
+  const axes = new Map<string, string[]>()
+  for (const variant of product.variants || []) {
+    for (const [name, value] of Object.entries(variant.attributes)) {
+      const values = axes.get(name) || []
+      if (!values.includes(value)) values.push(value)
+      axes.set(name, values)
+    }
+  }
+  return Array.from(axes, ([name, values]) => ({ name, values }))
+}
+
+export function toVariantSnapshot(variant: ProductVariant): VariantSnapshot {
+  return {
+    id: variant.id,
+    name: variant.name,
+    sku: variant.sku,
+    attributes: variant.attributes
+  }
+}
+
+// "Size: M / Color: Red"
+export function formatVariantAttributes(attributes: Record<string, string>): string {
+  return Object.entries(attributes).map(([name, value]) => `${name}: ${value}`).join(' / ')
+}
+
+const toSkuPart = (value: string) => value.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '')
+const toIdPart = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+
+// Build one variant per combination of option values (e.g. Size x Color). Variants that
+// already exist for a combination keep their SKU, price and stock, so editing the axes
+// doesn't wipe what the supplier entered.
+export function generateVariantMatrix(
+  axes: VariantOptionAxis[],
+  base: { sku: string; price: number; originalPrice?: number; stock?: number },
+  existing: ProductVariant[] = []
+): ProductVariant[] {
+  const usableAxes = axes
+    .map(axis => ({ name: axis.name.trim(), values: Array.from(new Set(axis.values.map(v => v.trim()).filter(Boolean))) }))
+    .filter(axis => axis.name && axis.values.length > 0)
+  if (usableAxes.length === 0) return []
+
+  let combinations: Array<Record<string, string>> = [{}]
+  for (const axis of usableAxes) {
+    combinations = combinations.flatMap(combination =>
+      axis.values.map(value => ({ ...combination, [axis.name]: value }))
+    )
+  }
+
+  return combinations.map(attributes => {
+    const values = usableAxes.map(axis => attributes[axis.name])
+    const previous = existing.find(variant =>
+      usableAxes.every(axis => variant.attributes[axis.name] === attributes[axis.name]) &&
+      Object.keys(variant.attributes).length === usableAxes.length
+    )
+    if (previous) {
+      return { ...previous, attributes }
+    }
+
+    const stock = base.stock ?? 0
+    return {
+      id: values.map(toIdPart).join('_'),
+      name: values.join(' / '),
+      sku: [base.sku || 'SKU', ...values.map(toSkuPart)].join('-'),
+      price: base.price,
+      ...(base.originalPrice ? { originalPrice: base.originalPrice } : {}),
+      stock,
+      inStock: stock > 0,
+      attributes
+    }
+  })
+}
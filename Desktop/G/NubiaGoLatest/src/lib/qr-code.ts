@@ -0,0 +1,331 @@
+// Minimal QR code encoder (ISO/IEC 18004): byte mode, error correction level M. Enough
+// to draw otpauth:// links for authenticator apps without shipping the secret to a
+// third-party image service.
+
+// Error correction codewords per block and number of blocks at level M, by version
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28
+]
+const ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49
+]
+// Format information bits for level M
+const ECC_LEVEL_M_BITS = 0
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0
+
+// Modules available for data and error correction, after function patterns
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2
+    result -= (25 * alignments - 10) * alignments - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+const dataCodewords = (version: number): number =>
+  Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version]
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return []
+  const count = Math.floor(version / 7) + 2
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2
+  const positions = [6]
+  for (let position = version * 4 + 10; positions.length < count; position -= step) {
+    positions.splice(1, 0, position)
+  }
+  return positions
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < degree) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0)
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coefficient, i) => { result[i] ^= gfMultiply(coefficient, factor) })
+  }
+  return result
+}
+
+// Data codewords padded to capacity, split into blocks with error correction and
+// interleaved in the order they are placed
+function buildCodewords(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+  append(0x4, 4)
+  append(bytes.length, version < 10 ? 8 : 16)
+  bytes.forEach(byte => append(byte, 8))
+
+  const capacityBits = dataCodewords(version) * 8
+  append(0, Math.min(4, capacityBits - bits.length))
+  append(0, (8 - bits.length % 8) % 8)
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8)
+  }
+
+  const data: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+
+  const blockCount = ERROR_CORRECTION_BLOCKS[version]
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version]
+  const rawCodewords = Math.floor(rawDataModules(version) / 8)
+  const shortBlocks = blockCount - rawCodewords % blockCount
+  const shortBlockLength = Math.floor(rawCodewords / blockCount)
+  const divisor = reedSolomonDivisor(eccLength)
+
+  const blocks: number[][] = []
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1)
+    const block = data.slice(offset, offset + length)
+    offset += length
+    const ecc = reedSolomonRemainder(block, divisor)
+    if (i < shortBlocks) block.push(0)
+    blocks.push(block.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Short blocks carry a placeholder where the long blocks have one more data byte
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i])
+    })
+  }
+  return result
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => x * y % 2 + x * y % 3 === 0,
+  (x, y) => (x * y % 2 + x * y % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + x * y % 3) % 2 === 0
+]
+
+class QrMatrix {
+  readonly size: number
+  readonly modules: boolean[][]
+  private readonly isFunction: boolean[][]
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+  }
+
+  drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+
+    this.drawFinder(3, 3)
+    this.drawFinder(this.size - 4, 3)
+    this.drawFinder(3, this.size - 4)
+
+    const positions = alignmentPositions(this.version)
+    const last = positions.length - 1
+    positions.forEach((x, i) => positions.forEach((y, j) => {
+      // The corners already hold finder patterns
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+        }
+      }
+    }))
+
+    // Reserve the format areas; the real bits are written once a mask is chosen
+    this.drawFormatBits(0)
+    this.drawVersion()
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (ECC_LEVEL_M_BITS << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const bits = ((data << 10) | remainder) ^ 0x5412
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i))
+    this.setFunction(8, 7, getBit(bits, 6))
+    this.setFunction(8, 8, getBit(bits, 7))
+    this.setFunction(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i))
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i))
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i))
+    this.setFunction(8, this.size - 8, true)
+  }
+
+  // Data bits go in two-module columns, zigzagging up and down from the bottom right
+  drawCodewords(codewords: number[]): void {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vertical : vertical
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7))
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  // XOR, so applying the same mask twice removes it
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && MASKS[mask](x, y)) {
+          this.modules[y][x] = !this.modules[y][x]
+        }
+      }
+    }
+  }
+
+  // Lower is easier to scan: few long runs, 2x2 blocks or finder look-alikes, and
+  // a balance of dark and light
+  penalty(): number {
+    let score = 0
+    const lines: boolean[][] = []
+    for (let i = 0; i < this.size; i++) {
+      lines.push(this.modules[i])
+      lines.push(this.modules.map(row => row[i]))
+    }
+
+    const finderLike = [/10111010000/g, /00001011101/g]
+    for (const line of lines) {
+      let runLength = 1
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          runLength++
+        } else {
+          if (runLength >= 5) score += runLength - 2
+          runLength = 1
+        }
+      }
+      const text = line.map(dark => (dark ? '1' : '0')).join('')
+      for (const pattern of finderLike) {
+        score += (text.match(pattern) || []).length * 40
+      }
+    }
+
+    for (let y = 0; y < this.size - 1; y++) {
+      for (let x = 0; x < this.size - 1; x++) {
+        const dark = this.modules[y][x]
+        if (dark === this.modules[y][x + 1] && dark === this.modules[y + 1][x] && dark === this.modules[y + 1][x + 1]) {
+          score += 3
+        }
+      }
+    }
+
+    const darkCount = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0)
+    const total = this.size * this.size
+    score += Math.ceil(Math.abs(darkCount * 20 - total * 10) / total) * 10 - 10
+    return Math.max(score, 0)
+  }
+
+  private drawFinder(cx: number, cy: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx
+        const y = cy + dy
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+          this.setFunction(x, y, distance !== 2 && distance !== 4)
+        }
+      }
+    }
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return
+    let remainder = this.version
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    const bits = (this.version << 12) | remainder
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + i % 3
+      const b = Math.floor(i / 3)
+      this.setFunction(a, b, getBit(bits, i))
+      this.setFunction(b, a, getBit(bits, i))
+    }
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark
+    this.isFunction[y][x] = true
+  }
+}
+
+// Module grid for `text`, rows top to bottom, true for dark. Uses the smallest version
+// that fits; a mask can be forced, otherwise the one with the lowest penalty is used.
+export function encodeQrCode(text: string, forcedMask?: number): boolean[][] {
+  const bytes = new TextEncoder().encode(text)
+  let version = 1
+  while (dataCodewords(version) * 8 < 4 + (version < 10 ? 8 : 16) + bytes.length * 8) {
+    if (++version > 40) {
+      throw new Error('Text is too long for a QR code')
+    }
+  }
+
+  const matrix = new QrMatrix(version)
+  matrix.drawFunctionPatterns()
+  matrix.drawCodewords(buildCodewords(bytes, version))
+
+  let mask = forcedMask
+  if (mask === undefined) {
+    let lowest = Infinity
+    for (let candidate = 0; candidate < MASKS.length; candidate++) {
+      matrix.applyMask(candidate)
+      matrix.drawFormatBits(candidate)
+      const score = matrix.penalty()
+      if (score < lowest) {
+        lowest = score
+        mask = candidate
+      }
+      matrix.applyMask(candidate)
+    }
+  }
+
+  matrix.applyMask(mask!)
+  matrix.drawFormatBits(mask!)
+  return matrix.modules
+}
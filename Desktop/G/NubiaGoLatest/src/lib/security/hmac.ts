@@ -0,0 +1,30 @@
+/**
+ * HMAC signing helpers
+ * Used for gateway and carrier webhooks and for the signed session cookies. Built on
+ * Web Crypto so they run in route handlers, the edge middleware and the browser bundle.
+ */
+
+const encoder = new TextEncoder()
+
+export async function hmacSha256Hex(secret: string, data: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data))
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Constant-time string comparison, so a forged signature can't be guessed byte by byte
+export function safeEqual(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b || a.length !== b.length) return false
+
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
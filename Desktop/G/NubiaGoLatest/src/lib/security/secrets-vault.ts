@@ -0,0 +1,178 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+import { BaseError } from '@/lib/errors'
+
+/**
+ * Secrets Vault
+ * Envelope encryption for third-party credentials stored in Firestore. Each record
+ * gets its own random data key, and only the data key is encrypted with the master
+ * key from the environment. Server-side only: the master key never reaches the browser.
+ */
+
+export interface EncryptedValue {
+  iv: string
+  tag: string
+  ciphertext: string
+}
+
+export interface EncryptedSecrets {
+  // Version of the master key the data key is encrypted with
+  keyVersion: number
+  dataKey: EncryptedValue
+  fields: Record<string, EncryptedValue>
+}
+
+export class SecretsVaultError extends BaseError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 500, true, context)
+  }
+}
+
+const ALGORITHM = 'aes-256-gcm'
+const KEY_LENGTH = 32
+const IV_LENGTH = 12
+
+interface MasterKeys {
+  currentVersion: number
+  keys: Map<number, Buffer>
+}
+
+function parseKey(value: string, name: string): Buffer {
+  const key = Buffer.from(value.trim(), 'base64')
+  if (key.length !== KEY_LENGTH) {
+    throw new SecretsVaultError(`${name} must be a base64-encoded ${KEY_LENGTH}-byte key`)
+  }
+  return key
+}
+
+// SECRETS_MASTER_KEY encrypts new data keys under SECRETS_MASTER_KEY_VERSION (default 1).
+// During a rotation the old keys stay in SECRETS_PREVIOUS_MASTER_KEYS as comma-separated
+// "version:key" pairs until every record has been re-encrypted.
+function loadMasterKeys(): MasterKeys {
+  const currentKey = process.env.SECRETS_MASTER_KEY
+  if (!currentKey) {
+    throw new SecretsVaultError('SECRETS_MASTER_KEY is not configured')
+  }
+
+  const currentVersion = Number(process.env.SECRETS_MASTER_KEY_VERSION || 1)
+  if (!Number.isInteger(currentVersion) || currentVersion < 1) {
+    throw new SecretsVaultError('SECRETS_MASTER_KEY_VERSION must be a positive integer')
+  }
+
+  const keys = new Map<number, Buffer>([[currentVersion, parseKey(currentKey, 'SECRETS_MASTER_KEY')]])
+  const previous = (process.env.SECRETS_PREVIOUS_MASTER_KEYS || '').split(',').filter(entry => entry.trim())
+  for (const entry of previous) {
+    const separator = entry.indexOf(':')
+    const version = Number(entry.slice(0, separator))
+    if (separator === -1 || !Number.isInteger(version) || version < 1) {
+      throw new SecretsVaultError('SECRETS_PREVIOUS_MASTER_KEYS entries must look like "version:key"')
+    }
+    if (!keys.has(version)) {
+      keys.set(version, parseKey(entry.slice(separator + 1), 'SECRETS_PREVIOUS_MASTER_KEYS'))
+    }
+  }
+
+  return { currentVersion, keys }
+}
+
+// The associated data ties each ciphertext to its purpose, so an encrypted value
+// can't be moved to another field or passed off as a data key
+function seal(key: Buffer, plaintext: Buffer, associatedData: string): EncryptedValue {
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv(ALGORITHM, key, iv)
+  cipher.setAAD(Buffer.from(associatedData))
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64')
+  }
+}
+
+function unseal(key: Buffer, value: EncryptedValue, associatedData: string): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(value.iv, 'base64'))
+  decipher.setAAD(Buffer.from(associatedData))
+  decipher.setAuthTag(Buffer.from(value.tag, 'base64'))
+  return Buffer.concat([decipher.update(Buffer.from(value.ciphertext, 'base64')), decipher.final()])
+}
+
+export class SecretsVault {
+  private masterKeys: MasterKeys | null = null
+
+  get currentKeyVersion(): number {
+    return this.getMasterKeys().currentVersion
+  }
+
+  // Encrypt a set of named values under a fresh data key
+  encrypt(values: Record<string, string>): EncryptedSecrets {
+    const { currentVersion, keys } = this.getMasterKeys()
+    const dataKey = randomBytes(KEY_LENGTH)
+
+    const fields: Record<string, EncryptedValue> = {}
+    Object.keys(values).forEach(field => {
+      fields[field] = seal(dataKey, Buffer.from(values[field], 'utf8'), `field:${field}`)
+    })
+
+    return {
+      keyVersion: currentVersion,
+      dataKey: seal(keys.get(currentVersion)!, dataKey, `data-key:v${currentVersion}`),
+      fields
+    }
+  }
+
+  decrypt(secrets: EncryptedSecrets): Record<string, string> {
+    const dataKey = this.unwrapDataKey(secrets)
+    const values: Record<string, string> = {}
+
+    try {
+      Object.keys(secrets.fields).forEach(field => {
+        values[field] = unseal(dataKey, secrets.fields[field], `field:${field}`).toString('utf8')
+      })
+    } catch {
+      throw new SecretsVaultError('Encrypted secrets could not be decrypted')
+    }
+    return values
+  }
+
+  // Whether the record was encrypted under an older master key
+  needsRotation(secrets: EncryptedSecrets): boolean {
+    return secrets.keyVersion !== this.currentKeyVersion
+  }
+
+  // Re-encrypt under the current master key. The data key is replaced as well, so a
+  // rotation also retires any data key that was exposed along with the old master key.
+  rotate(secrets: EncryptedSecrets): EncryptedSecrets {
+    return this.encrypt(this.decrypt(secrets))
+  }
+
+  private unwrapDataKey(secrets: EncryptedSecrets): Buffer {
+    const masterKey = this.getMasterKeys().keys.get(secrets.keyVersion)
+    if (!masterKey) {
+      throw new SecretsVaultError(`Master key version ${secrets.keyVersion} is not configured`, {
+        keyVersion: secrets.keyVersion
+      })
+    }
+
+    try {
+      return unseal(masterKey, secrets.dataKey, `data-key:v${secrets.keyVersion}`)
+    } catch {
+      throw new SecretsVaultError('Encrypted secrets could not be decrypted', { keyVersion: secrets.keyVersion })
+    }
+  }
+
+  private getMasterKeys(): MasterKeys {
+    if (!this.masterKeys) {
+      this.masterKeys = loadMasterKeys()
+    }
+    return this.masterKeys
+  }
+}
+
+// What the admin UI shows instead of a secret: the last four characters, or nothing
+// at all for values short enough that four characters would give most of it away
+export function maskSecret(value: string | undefined | null): string | undefined {
+  if (!value) return undefined
+  return value.length > 12 ? `••••••••${value.slice(-4)}` : '••••••••'
+}
+
+export const secretsVault = new SecretsVault()
@@ -18,6 +18,8 @@ import {
 } from 'firebase/firestore'
 import { db } from '@/lib/firebase/config'
 import { logger } from '@/lib/utils/logger'
+import { roundAmount, toOrderCurrency } from '@/lib/currency'
+import { LockedExchangeRate } from '@/types'
 
 export interface AdminOrder {
   id: string
@@ -33,6 +35,7 @@ export interface AdminOrder {
     name: string
     email: string
   }
+  subOrderIds?: string[]
   items: Array<{
     productId: string
     productName: string
@@ -67,6 +70,8 @@ export interface AdminOrder {
   totalAmount: number
   commissionAmount: number
   currency: string
+  // Rate locked at checkout; amounts above are in the base currency
+  exchangeRate?: LockedExchangeRate
   notes?: string
   adminNotes?: string
   trackingNumber?: string
@@ -95,6 +100,8 @@ export interface OrderStats {
   revenueThisMonth: number
   ordersThisWeek: number
   revenueThisWeek: number
+  // Completed revenue in the currencies shoppers paid in, at their checkout rates
+  revenueByCurrency: Record<string, number>
 }
 
 export interface OrderFilters {
@@ -420,7 +427,8 @@ export class AdminOrderService {
         ordersThisMonth: 0,
         revenueThisMonth: 0,
         ordersThisWeek: 0,
-        revenueThisWeek: 0
+        revenueThisWeek: 0,
+        revenueByCurrency: {}
       }
 
       // Get all orders for stats calculation
@@ -447,6 +455,11 @@ export class AdminOrderService {
         stats.totalRevenue = completedOrders.reduce((sum, o) => sum + o.totalAmount, 0)
         stats.averageOrderValue = stats.totalRevenue / completedOrders.length
         stats.totalCommission = completedOrders.reduce((sum, o) => sum + o.commissionAmount, 0)
+        for (const order of completedOrders) {
+          const paid = toOrderCurrency(order.totalAmount, order)
+          stats.revenueByCurrency[paid.currency] =
+            roundAmount((stats.revenueByCurrency[paid.currency] || 0) + paid.amount, paid.currency)
+        }
       }
 
       // Calculate monthly and weekly stats
@@ -10,10 +10,29 @@ import {
   where, 
   orderBy,
   onSnapshot,
-  Timestamp 
+  deleteField,
+  Timestamp,
+  DocumentData
 } from 'firebase/firestore'
 import { db } from '@/lib/firebase/config'
-import { ApiConfiguration, ApiTestResult } from '@/types'
+import { BaseError, NotFoundError, ValidationError } from '@/lib/errors'
+import { EncryptedSecrets, maskSecret, secretsVault } from '@/lib/security/secrets-vault'
+import { ApiConfiguration, ApiCredentials, ApiSecretField, ApiTestResult } from '@/types'
+import { auditService } from './audit.service'
+
+const SECRET_FIELDS: ApiSecretField[] = ['apiKey', 'apiSecret', 'webhookSecret']
+
+// Admin performing a reveal or rotation, for the audit log
+export interface ApiSecretActor {
+  uid: string
+  email: string
+}
+
+export interface ApiSecretRotationResult {
+  keyVersion: number
+  rotated: string[]
+  failed: string[]
+}
 
 export class ApiService {
   private collectionName = 'api_configurations'
@@ -29,22 +48,19 @@ export class ApiService {
 
       const id = `api_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
       const now = new Date()
-      
-      const apiConfig: ApiConfiguration = {
-        id,
-        ...config,
-        createdAt: now,
-        updatedAt: now
-      }
+      const { credentials, settings } = this.splitCredentials(config)
 
-      await setDoc(doc(db, this.collectionName, id), {
-        ...apiConfig,
+      const data = {
+        ...settings,
+        ...this.encryptCredentials(credentials),
         createdAt: Timestamp.fromDate(now),
         updatedAt: Timestamp.fromDate(now)
-      })
+      }
+
+      await setDoc(doc(db, this.collectionName, id), data)
 
       console.log(`✅ API configuration created: ${id}`)
-      return apiConfig
+      return this.toApiConfiguration(id, data)
     } catch (error: any) {
       console.error('❌ Failed to create API configuration:', error)
       throw new Error(`Failed to create API configuration: ${error.message}`)
@@ -59,25 +75,7 @@ export class ApiService {
 
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        apis.push({
-          id: doc.id,
-          name: data.name,
-          description: data.description || '',
-          type: data.type,
-          provider: data.provider,
-          apiKey: data.apiKey,
-          apiSecret: data.apiSecret,
-          baseUrl: data.baseUrl,
-          webhookUrl: data.webhookUrl,
-          isActive: data.isActive,
-          isTestMode: data.isTestMode,
-          config: data.config || {},
-          status: data.status || 'inactive',
-          errorMessage: data.errorMessage,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date(),
-          lastTested: data.lastTested?.toDate(),
-        })
+        apis.push(this.toApiConfiguration(doc.id, data))
       })
 
       return apis.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
@@ -103,25 +101,7 @@ export class ApiService {
       }
 
       const data = docSnap.data()
-      return {
-        id: docSnap.id,
-        name: data.name,
-        description: data.description || '',
-        type: data.type,
-        provider: data.provider,
-        apiKey: data.apiKey,
-        apiSecret: data.apiSecret,
-        baseUrl: data.baseUrl,
-        webhookUrl: data.webhookUrl,
-        isActive: data.isActive,
-        isTestMode: data.isTestMode,
-        config: data.config || {},
-        status: data.status || 'inactive',
-        errorMessage: data.errorMessage,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        updatedAt: data.updatedAt?.toDate() || new Date(),
-        lastTested: data.lastTested?.toDate(),
-      }
+      return this.toApiConfiguration(docSnap.id, data)
     } catch (error: any) {
       console.error('❌ Failed to fetch API configuration:', error)
       throw new Error(`Failed to fetch API configuration: ${error.message}`)
@@ -142,11 +122,22 @@ export class ApiService {
         throw new Error('API configuration not found')
       }
 
-      const updateData = {
-        ...updates,
+      const { credentials, settings } = this.splitCredentials(updates)
+      const updateData: DocumentData = {
+        ...settings,
         updatedAt: Timestamp.fromDate(new Date())
       }
 
+      // The edit form sends masked values back unchanged, so only real new values count
+      const current = docSnap.data()
+      const masked = this.maskedCredentials(current)
+      const changed = SECRET_FIELDS.filter(field => credentials[field] && credentials[field] !== masked[field])
+      if (changed.length > 0) {
+        const merged = this.readCredentials(current)
+        changed.forEach(field => { merged[field] = credentials[field] })
+        Object.assign(updateData, this.encryptCredentials(merged), this.plaintextRemoval(!!settings.config))
+      }
+
       await updateDoc(docRef, updateData)
 
       // Get updated configuration
@@ -157,25 +148,7 @@ export class ApiService {
         throw new Error('Failed to retrieve updated configuration')
       }
 
-      const updatedConfig: ApiConfiguration = {
-        id: updatedDoc.id,
-        name: data.name,
-        description: data.description || '',
-        type: data.type,
-        provider: data.provider,
-        apiKey: data.apiKey,
-        apiSecret: data.apiSecret,
-        baseUrl: data.baseUrl,
-        webhookUrl: data.webhookUrl,
-        isActive: data.isActive,
-        isTestMode: data.isTestMode,
-        config: data.config || {},
-        status: data.status || 'inactive',
-        errorMessage: data.errorMessage,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        updatedAt: data.updatedAt?.toDate() || new Date(),
-        lastTested: data.lastTested?.toDate(),
-      }
+      const updatedConfig: ApiConfiguration = this.toApiConfiguration(updatedDoc.id, data)
 
       console.log(`✅ API configuration updated: ${id}`)
       return updatedConfig
@@ -214,10 +187,11 @@ export class ApiService {
         throw new Error('API configuration ID is required')
       }
 
-      const config = await this.getApiConfiguration(id)
-      if (!config) {
+      const stored = await this.getApiConfiguration(id)
+      if (!stored) {
         throw new Error('API configuration not found')
       }
+      const config = await this.withCredentials(stored)
 
       let success = false
       let errorMessage = ''
@@ -289,25 +263,7 @@ export class ApiService {
 
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        apis.push({
-          id: doc.id,
-          name: data.name,
-          description: data.description || '',
-          type: data.type,
-          provider: data.provider,
-          apiKey: data.apiKey,
-          apiSecret: data.apiSecret,
-          baseUrl: data.baseUrl,
-          webhookUrl: data.webhookUrl,
-          isActive: data.isActive,
-          isTestMode: data.isTestMode,
-          config: data.config || {},
-          status: data.status || 'inactive',
-          errorMessage: data.errorMessage,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date(),
-          lastTested: data.lastTested?.toDate(),
-        })
+        apis.push(this.toApiConfiguration(doc.id, data))
       })
 
       return apis
@@ -331,25 +287,7 @@ export class ApiService {
 
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        apis.push({
-          id: doc.id,
-          name: data.name,
-          description: data.description || '',
-          type: data.type,
-          provider: data.provider,
-          apiKey: data.apiKey,
-          apiSecret: data.apiSecret,
-          baseUrl: data.baseUrl,
-          webhookUrl: data.webhookUrl,
-          isActive: data.isActive,
-          isTestMode: data.isTestMode,
-          config: data.config || {},
-          status: data.status || 'inactive',
-          errorMessage: data.errorMessage,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date(),
-          lastTested: data.lastTested?.toDate(),
-        })
+        apis.push(this.toApiConfiguration(doc.id, data))
       })
 
       return apis
@@ -359,6 +297,86 @@ export class ApiService {
     }
   }
 
+  // The configuration with its real credentials, for server-side adapters that call
+  // the provider (LogisticsService, connection tests). Never send the result to a client.
+  async withCredentials(config: ApiConfiguration): Promise<ApiConfiguration> {
+    const docSnap = await getDoc(doc(db, this.collectionName, config.id))
+    if (!docSnap.exists()) {
+      throw new NotFoundError('API configuration', config.id)
+    }
+
+    const credentials = this.readCredentials(docSnap.data())
+    return {
+      ...config,
+      apiKey: credentials.apiKey,
+      apiSecret: credentials.apiSecret,
+      config: { ...config.config, webhookSecret: credentials.webhookSecret }
+    }
+  }
+
+  // Decrypt one credential for an admin to see. Every attempt is audited.
+  async revealSecret(id: string, field: ApiSecretField, actor: ApiSecretActor): Promise<string | null> {
+    try {
+      if (!SECRET_FIELDS.includes(field)) {
+        throw new ValidationError('Unknown secret field', { field: [`Must be one of: ${SECRET_FIELDS.join(', ')}`] })
+      }
+
+      const docSnap = await getDoc(doc(db, this.collectionName, id))
+      if (!docSnap.exists()) {
+        throw new NotFoundError('API configuration', id)
+      }
+
+      const value = this.readCredentials(docSnap.data())[field] || null
+      await this.logSecretAction(actor, 'api_secret_revealed', id, { field })
+      return value
+    } catch (error: any) {
+      console.error('❌ Failed to reveal API secret:', error)
+      await this.logSecretAction(actor, 'api_secret_revealed', id, { field }, error.message)
+      if (error instanceof BaseError) throw error
+      throw new Error(`Failed to reveal API secret: ${error.message}`)
+    }
+  }
+
+  // Re-encrypt every configuration still on an older master key, and encrypt any saved
+  // before the vault existed. Run after changing SECRETS_MASTER_KEY, with the old key in
+  // SECRETS_PREVIOUS_MASTER_KEYS until this reports nothing left to rotate.
+  async rotateSecrets(actor: ApiSecretActor): Promise<ApiSecretRotationResult> {
+    try {
+      const keyVersion = secretsVault.currentKeyVersion
+      const querySnapshot = await getDocs(collection(db, this.collectionName))
+      const result: ApiSecretRotationResult = { keyVersion, rotated: [], failed: [] }
+
+      // One at a time, so a failure part way through leaves the rest untouched
+      for (const docSnap of querySnapshot.docs) {
+        const data = docSnap.data()
+        const secrets = data.secrets as EncryptedSecrets | undefined
+        if (secrets && !secretsVault.needsRotation(secrets)) continue
+
+        const details = { fromVersion: secrets?.keyVersion ?? null, toVersion: keyVersion }
+        try {
+          await updateDoc(docSnap.ref, {
+            ...this.encryptCredentials(this.readCredentials(data)),
+            ...this.plaintextRemoval(false),
+            updatedAt: Timestamp.fromDate(new Date())
+          })
+          result.rotated.push(docSnap.id)
+          await this.logSecretAction(actor, 'api_secrets_rotated', docSnap.id, details)
+        } catch (error: any) {
+          console.error(`❌ Failed to rotate secrets for API configuration ${docSnap.id}:`, error)
+          result.failed.push(docSnap.id)
+          await this.logSecretAction(actor, 'api_secrets_rotated', docSnap.id, details, error.message)
+        }
+      }
+
+      console.log(`✅ API secrets rotated to key v${keyVersion}: ${result.rotated.length} updated, ${result.failed.length} failed`)
+      return result
+    } catch (error: any) {
+      console.error('❌ Failed to rotate API secrets:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error(`Failed to rotate API secrets: ${error.message}`)
+    }
+  }
+
   // Listen to API configuration changes
   onApiConfigurationChange(callback: (apis: ApiConfiguration[]) => void): () => void {
     try {
@@ -369,25 +387,7 @@ export class ApiService {
         
         querySnapshot.forEach((doc) => {
           const data = doc.data()
-          apis.push({
-            id: doc.id,
-            name: data.name,
-            description: data.description || '',
-            type: data.type,
-            provider: data.provider,
-            apiKey: data.apiKey,
-            apiSecret: data.apiSecret,
-            baseUrl: data.baseUrl,
-            webhookUrl: data.webhookUrl,
-            isActive: data.isActive,
-            isTestMode: data.isTestMode,
-            config: data.config || {},
-            status: data.status || 'inactive',
-            errorMessage: data.errorMessage,
-            createdAt: data.createdAt?.toDate() || new Date(),
-            updatedAt: data.updatedAt?.toDate() || new Date(),
-            lastTested: data.lastTested?.toDate(),
-          })
+          apis.push(this.toApiConfiguration(doc.id, data))
         })
 
         callback(apis)
@@ -415,6 +415,105 @@ export class ApiService {
     this.listeners.clear()
   }
 
+  // Document to ApiConfiguration, with credentials masked
+  private toApiConfiguration(id: string, data: DocumentData): ApiConfiguration {
+    const masked = this.maskedCredentials(data)
+    const config = { ...(data.config || {}) }
+    if (masked.webhookSecret) {
+      config.webhookSecret = masked.webhookSecret
+    }
+
+    return {
+      id,
+      name: data.name,
+      description: data.description || '',
+      type: data.type,
+      provider: data.provider,
+      apiKey: masked.apiKey,
+      apiSecret: masked.apiSecret,
+      secretKeyVersion: data.secrets?.keyVersion,
+      baseUrl: data.baseUrl,
+      webhookUrl: data.webhookUrl,
+      isActive: data.isActive,
+      isTestMode: data.isTestMode,
+      config,
+      status: data.status || 'inactive',
+      errorMessage: data.errorMessage,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+      lastTested: data.lastTested?.toDate(),
+    }
+  }
+
+  // Separate credentials from the rest of a configuration so they are never written
+  // to the document as they are
+  private splitCredentials<T extends Partial<ApiConfiguration>>(config: T): { credentials: ApiCredentials; settings: Omit<T, 'apiKey' | 'apiSecret'> } {
+    const { apiKey, apiSecret, ...settings } = config
+    const credentials: ApiCredentials = { apiKey, apiSecret }
+
+    if (settings.config && 'webhookSecret' in settings.config) {
+      const { webhookSecret, ...rest } = settings.config
+      credentials.webhookSecret = webhookSecret
+      settings.config = rest
+    }
+    return { credentials, settings }
+  }
+
+  private encryptCredentials(credentials: ApiCredentials): { secrets: EncryptedSecrets; maskedSecrets: ApiCredentials } {
+    const values: Record<string, string> = {}
+    const maskedSecrets: ApiCredentials = {}
+    SECRET_FIELDS.forEach(field => {
+      const value = credentials[field]
+      if (value) {
+        values[field] = value
+        maskedSecrets[field] = maskSecret(value)
+      }
+    })
+    return { secrets: secretsVault.encrypt(values), maskedSecrets }
+  }
+
+  // Configurations saved before the vault existed keep their credentials in plain fields
+  // until they are rotated; these updates clear them once they are encrypted
+  private plaintextRemoval(replacingConfig: boolean): DocumentData {
+    const removal: DocumentData = { apiKey: deleteField(), apiSecret: deleteField() }
+    if (!replacingConfig) {
+      removal['config.webhookSecret'] = deleteField()
+    }
+    return removal
+  }
+
+  private readCredentials(data: DocumentData): ApiCredentials {
+    if (data.secrets) {
+      return secretsVault.decrypt(data.secrets as EncryptedSecrets) as ApiCredentials
+    }
+    return { apiKey: data.apiKey, apiSecret: data.apiSecret, webhookSecret: data.config?.webhookSecret }
+  }
+
+  private maskedCredentials(data: DocumentData): ApiCredentials {
+    if (data.secrets) {
+      return data.maskedSecrets || {}
+    }
+    return {
+      apiKey: maskSecret(data.apiKey),
+      apiSecret: maskSecret(data.apiSecret),
+      webhookSecret: maskSecret(data.config?.webhookSecret)
+    }
+  }
+
+  private async logSecretAction(
+    actor: ApiSecretActor,
+    action: string,
+    id: string,
+    details: Record<string, any>,
+    errorMessage?: string
+  ): Promise<void> {
+    try {
+      await auditService.logAdminAction(actor.uid, actor.email, action, id, 'api_configuration', details, !errorMessage, errorMessage)
+    } catch (error) {
+      console.error('❌ Failed to log API secret action:', error)
+    }
+  }
+
   // Private test methods
   private async testLogisticsApi(config: ApiConfiguration): Promise<boolean> {
     try {
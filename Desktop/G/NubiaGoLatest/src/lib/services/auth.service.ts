@@ -11,9 +11,12 @@ import {
 } from 'firebase/auth'
 import { doc, setDoc, getDoc, updateDoc, collection, query, where, getDocs, onSnapshot } from 'firebase/firestore'
 import { auth, db } from '@/lib/firebase/config'
-import { User } from '@/types'
+import { TwoFactorStatus, User } from '@/types'
+import { AuthenticationError, BaseError, TwoFactorRequiredError } from '@/lib/errors'
 import { emailService } from './email.service'
 import { auditService } from './audit.service'
+import { notificationService } from './notification.service'
+import { logger } from '@/lib/utils/logger'
 
 export class AuthService {
   private userListeners: Map<string, () => void> = new Map()
@@ -110,8 +113,10 @@ export class AuthService {
     }
   }
 
-  // Sign in user with email verification check
-  async signIn(email: string, password: string): Promise<User> {
+  // Sign in user with email verification check. Accounts with 2FA on also need a code
+  // from their authenticator app or a recovery code; without one this throws
+  // TwoFactorRequiredError and the caller asks for it.
+  async signIn(email: string, password: string, twoFactorCode?: string): Promise<User> {
     try {
       const userCredential = await signInWithEmailAndPassword(auth, email, password)
       const firebaseUser = userCredential.user
@@ -183,6 +188,8 @@ export class AuthService {
         user.status = 'active'
       }
 
+      await this.completeTwoFactor(firebaseUser, twoFactorCode)
+
       // Log successful login
       await auditService.logAuthEvent(
         user.uid,
@@ -203,10 +210,70 @@ export class AuthService {
         false,
         error.message
       )
+      if (error instanceof BaseError) throw error
       throw new Error(this.getErrorMessage(error.code))
     }
   }
 
+  // Second sign-in step. The code is checked server-side, which sets the session claim
+  // the API requires from 2FA users; a sign-in that fails it is signed out again.
+  async completeTwoFactor(firebaseUser: FirebaseUser, code?: string): Promise<void> {
+    const headers = {
+      'Authorization': `Bearer ${await getIdToken(firebaseUser)}`,
+      'Content-Type': 'application/json'
+    }
+
+    const statusResponse = await fetch('/api/auth/two-factor', { headers })
+    const statusResult = await statusResponse.json()
+    if (!statusResponse.ok) {
+      await signOut(auth)
+      throw new Error(statusResult.error || 'Failed to check two-factor authentication')
+    }
+
+    // Users the policy requires 2FA from but who haven't enrolled yet get in, and the
+    // API sends them to enrollment
+    const status: TwoFactorStatus = statusResult.data.status
+    if (!status.enabled || status.verified) return
+
+    if (!code) {
+      await signOut(auth)
+      throw new TwoFactorRequiredError()
+    }
+
+    const verifyResponse = await fetch('/api/auth/two-factor/verify', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ code })
+    })
+    if (!verifyResponse.ok) {
+      const verifyResult = await verifyResponse.json()
+      await signOut(auth)
+      throw new AuthenticationError(verifyResult.error || 'Invalid verification code')
+    }
+  }
+
+  // Keep the server's session claim, which guards the dashboards, in step with the
+  // Firebase user: issued from each new ID token, dropped on sign-out
+  async syncSession(firebaseUser: FirebaseUser | null): Promise<void> {
+    try {
+      if (!firebaseUser) {
+        await fetch('/api/auth/session', { method: 'DELETE' })
+        return
+      }
+
+      const response = await fetch('/api/auth/session', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${await getIdToken(firebaseUser)}` }
+      })
+      if (!response.ok) {
+        const result = await response.json()
+        logger.error('Failed to start session:', result.error)
+      }
+    } catch (error) {
+      logger.error('Error syncing session:', error)
+    }
+  }
+
   // Sign out user
   async signOut(): Promise<void> {
     try {
@@ -322,8 +389,8 @@ export class AuthService {
         approvedBy
       })
 
-      // Send approval email
-      await emailService.sendSupplierApprovalSuccess(user, approvedBy)
+      // Notify the supplier in-app and on the channels they have enabled
+      await notificationService.publish({ type: 'supplier_approval', userId: uid, approved: true, reviewedBy: approvedBy })
 
       // Log the approval action
       await auditService.logSupplierApproval(
@@ -375,8 +442,8 @@ export class AuthService {
         rejectionReason: reason
       })
 
-      // Send rejection email
-      await emailService.sendSupplierRejection(user, reason, rejectedBy)
+      // Notify the supplier in-app and on the channels they have enabled
+      await notificationService.publish({ type: 'supplier_approval', userId: uid, approved: false, reviewedBy: rejectedBy, reason })
 
       // Log the rejection action
       await auditService.logSupplierApproval(
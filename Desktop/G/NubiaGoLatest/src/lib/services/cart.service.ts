@@ -12,7 +12,11 @@ import {
 import { db } from '@/lib/firebase/config'
 import { Cart, CartItem } from '@/types'
 import { Product } from '@/types/product'
+import { BaseError, ValidationError } from '@/lib/errors'
+import { findVariant, getCartLineId, hasVariants, toVariantSnapshot } from '@/lib/product-variants'
 import { productService } from './product.service'
+import { promotionService } from './promotion.service'
+import { normalizePromotionCode } from './promotions/promotion-engine'
 
 export class CartService {
   private readonly COLLECTION_NAME = 'carts'
@@ -75,20 +79,32 @@ export class CartService {
     }
   }
 
-  // Add item to cart
-  async addToCart(userId: string, productId: string, quantity: number = 1): Promise<Cart> {
+  // Add item to cart. Products with variants need the chosen variant; each
+  // product+variant combination is its own cart line.
+  async addToCart(userId: string, productId: string, quantity: number = 1, variantId?: string): Promise<Cart> {
     try {
       const product = await productService.getProduct(productId)
       if (!product) {
         throw new Error('Product not found')
       }
 
-      if (product.inStock === false) {
+      const variant = findVariant(product, variantId)
+      if (hasVariants(product) && !variant) {
+        throw new ValidationError('Please choose an option', {
+          variantId: [variantId ? 'Selected option is no longer available' : 'Select an option before adding to cart']
+        }, { productId, variantId })
+      }
+
+      if (variant ? variant.inStock === false || variant.stock === 0 : product.inStock === false) {
         throw new Error('Product out of stock')
       }
 
+      const lineId = getCartLineId(productId, variant?.id)
       const cart = await this.getCart(userId)
-      const existingItemIndex = cart.items.findIndex(item => item.productId === productId)
+      // Lines saved before variants were keyed by product only
+      const existingItemIndex = cart.items.findIndex(item =>
+        item.id === lineId || (!variant && !item.variantId && item.productId === productId)
+      )
 
       if (existingItemIndex >= 0) {
         // Update existing item quantity
@@ -96,13 +112,17 @@ export class CartService {
       } else {
         // Add new item
         const newItem: CartItem = {
-          id: `${productId}_${Date.now()}`,
+          id: lineId,
           productId,
           quantity,
-          price: product.price,
+          price: variant ? variant.price : product.price,
           product,
           addedAt: new Date()
         }
+        if (variant) {
+          newItem.variantId = variant.id
+          newItem.variant = toVariantSnapshot(variant)
+        }
         cart.items.push(newItem)
       }
 
@@ -116,15 +136,16 @@ export class CartService {
       return cart
     } catch (error) {
       console.error('Error adding to cart:', error)
+      if (error instanceof BaseError) throw error
       throw new Error('Failed to add item to cart')
     }
   }
 
   // Update cart item quantity
-  async updateCartItemQuantity(userId: string, productId: string, quantity: number): Promise<Cart> {
+  async updateCartItemQuantity(userId: string, lineId: string, quantity: number): Promise<Cart> {
     try {
       const cart = await this.getCart(userId)
-      const itemIndex = cart.items.findIndex(item => item.productId === productId)
+      const itemIndex = cart.items.findIndex(item => item.id === lineId)
 
       if (itemIndex === -1) {
         throw new Error('Item not found in cart')
@@ -135,11 +156,16 @@ export class CartService {
         cart.items.splice(itemIndex, 1)
       } else {
         // Check stock availability
-        const product = await productService.getProduct(productId)
-        if (product && product.inStock === false) {
+        const item = cart.items[itemIndex]
+        const product = await productService.getProduct(item.productId)
+        const variant = product ? findVariant(product, item.variantId) : undefined
+        if (variant && variant.stock !== undefined && quantity > variant.stock) {
+          throw new Error('Not enough stock for the selected option')
+        }
+        if (product && (variant ? variant.inStock === false : product.inStock === false)) {
           throw new Error('Product out of stock')
         }
-        cart.items[itemIndex].quantity = quantity
+        item.quantity = quantity
       }
 
       // Update cart totals
@@ -157,10 +183,10 @@ export class CartService {
   }
 
   // Remove item from cart
-  async removeFromCart(userId: string, productId: string): Promise<Cart> {
+  async removeFromCart(userId: string, lineId: string): Promise<Cart> {
     try {
       const cart = await this.getCart(userId)
-      cart.items = cart.items.filter(item => item.productId !== productId)
+      cart.items = cart.items.filter(item => item.id !== lineId)
 
       // Update cart totals
       this.updateCartTotals(cart)
@@ -219,41 +245,46 @@ export class CartService {
     }
   }
 
-  // Apply discount to cart
-  async applyDiscount(userId: string, discountCode: string, discountAmount: number): Promise<Cart> {
+  // Apply a promotion code to the cart. Only the code is stored: the discount is
+  // evaluated server-side against catalog prices when the order is placed.
+  async applyDiscount(userId: string, discountCode: string): Promise<Cart> {
+    const code = normalizePromotionCode(discountCode)
+    const promotion = await promotionService.getPromotionByCode(code)
+    if (!promotion) {
+      throw new Error('Invalid discount code')
+    }
+
     try {
       const cart = await this.getCart(userId)
-      
-      // Validate discount code (simple validation for demo)
-      const validDiscountCodes = {
-        'SAVE10': 0.10,
-        'SAVE20': 0.20,
-        'WELCOME': 0.15,
-        'STUDENT': 0.25
-      }
-      
-      const discountPercentage = validDiscountCodes[discountCode as keyof typeof validDiscountCodes]
-      if (!discountPercentage) {
-        throw new Error('Invalid discount code')
-      }
-      
-      // Calculate discount amount
-      const calculatedDiscount = Math.min(discountAmount, cart.total * discountPercentage)
-      
-      // Apply discount
-      cart.total = Math.max(0, cart.total - discountAmount)
-      
-      // Save to Firestore
+      const promotionCodes = Array.from(new Set([...(cart.promotionCodes || []), code]))
+
       const cartRef = doc(db, this.COLLECTION_NAME, userId)
-      await setDoc(cartRef, cart)
+      await updateDoc(cartRef, { promotionCodes, updatedAt: new Date() })
 
-      return cart
+      return { ...cart, promotionCodes }
     } catch (error) {
       console.error('Error applying discount:', error)
       throw new Error('Failed to apply discount')
     }
   }
 
+  // Remove a promotion code from the cart
+  async removeDiscount(userId: string, discountCode: string): Promise<Cart> {
+    try {
+      const cart = await this.getCart(userId)
+      const code = normalizePromotionCode(discountCode)
+      const promotionCodes = (cart.promotionCodes || []).filter(existing => existing !== code)
+
+      const cartRef = doc(db, this.COLLECTION_NAME, userId)
+      await updateDoc(cartRef, { promotionCodes, updatedAt: new Date() })
+
+      return { ...cart, promotionCodes }
+    } catch (error) {
+      console.error('Error removing discount:', error)
+      throw new Error('Failed to remove discount')
+    }
+  }
+
   // Calculate shipping cost
   async calculateShipping(userId: string, shippingMethod: string): Promise<number> {
     try {
@@ -300,12 +331,18 @@ export class CartService {
           continue
         }
 
-        if (product.inStock === false) {
-          errors.push(`${product.name} is no longer available`)
+        const variant = findVariant(product, item.variantId)
+        if (item.variantId && !variant) {
+          errors.push(`${product.name} (${item.variant?.name || item.variantId}) is no longer available`)
+          continue
+        }
+
+        if (variant ? variant.inStock === false || (variant.stock !== undefined && variant.stock < item.quantity) : product.inStock === false) {
+          errors.push(`${product.name}${variant ? ` (${variant.name})` : ''} is no longer available`)
           continue
         }
 
-        if (product.price !== item.price) {
+        if ((variant ? variant.price : product.price) !== item.price) {
           errors.push(`Price has changed for ${product.name}`)
           continue
         }
@@ -0,0 +1,650 @@
+import {
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  onSnapshot,
+  runTransaction,
+  increment,
+  documentId
+} from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { AuthorizationError, BaseError, ConflictError, NotFoundError, ValidationError } from '@/lib/errors'
+import { logger } from '@/lib/utils/logger'
+import { DateLike, toDate } from '@/lib/utils/dates'
+import {
+  ChatAttachment,
+  ChatMessage,
+  ChatMessageType,
+  ChatParticipant,
+  ChatPresence,
+  ChatRoom,
+  ChatUser,
+  ChatUserStatus,
+  Order
+} from '@/types'
+import { moderationService } from './moderation.service'
+import { notificationService } from './notification.service'
+import { storageService } from './storage.service'
+import { userService } from './user.service'
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000
+export const MAX_CHAT_ATTACHMENTS = 5
+
+// Open chat pages refresh presence this often; a user whose last heartbeat is older
+// than PRESENCE_TIMEOUT_MS is shown as offline even if they never signed out.
+export const PRESENCE_HEARTBEAT_MS = 60 * 1000
+const PRESENCE_TIMEOUT_MS = 2 * PRESENCE_HEARTBEAT_MS
+
+// Firestore 'in' queries accept at most 30 values
+const MAX_PRESENCE_IDS = 30
+
+const NOTIFICATION_PREVIEW_LENGTH = 120
+
+export interface SendMessageInput {
+  content: string
+  files?: File[]
+}
+
+export class ChatService {
+  private readonly ROOMS_COLLECTION = 'chat_rooms'
+  private readonly MESSAGES_COLLECTION = 'chat_messages'
+  private readonly USERS_COLLECTION = 'chat_users'
+  private readonly PRESENCE_COLLECTION = 'chat_presence'
+
+  // Open the inquiry room for an order, linking the customer with each supplier on it.
+  // Safe to call more than once; an existing room is returned unchanged.
+  async openOrderRoom(order: Order, supplierIds: string[]): Promise<ChatRoom> {
+    try {
+      const roomRef = doc(db, this.ROOMS_COLLECTION, this.getOrderRoomId(order.id))
+      const existing = await getDoc(roomRef)
+      if (existing.exists()) {
+        return this.toRoom(existing.id, existing.data())
+      }
+
+      const customer = await userService.getUserProfile(order.userId)
+      const suppliers = await Promise.all(
+        Array.from(new Set(supplierIds)).map(supplierId => userService.getUserProfile(supplierId))
+      )
+      const participants: ChatParticipant[] = [
+        { id: order.userId, name: customer?.name || 'Customer', role: 'customer' },
+        ...suppliers
+          .filter((supplier): supplier is NonNullable<typeof supplier> => !!supplier)
+          .map(supplier => ({ id: supplier.uid, name: supplier.name || 'Supplier', role: 'supplier' as const }))
+      ]
+
+      const now = new Date()
+      const room: ChatRoom = {
+        id: roomRef.id,
+        name: `Order #${order.id}`,
+        type: 'order_inquiry',
+        orderId: order.id,
+        participantIds: participants.map(participant => participant.id),
+        participants,
+        lastReadAt: {},
+        unreadCounts: Object.fromEntries(participants.map(participant => [participant.id, 0])),
+        isActive: true,
+        createdAt: now,
+        updatedAt: now
+      }
+      await setDoc(roomRef, room)
+      return room
+    } catch (error) {
+      logger.error('Error opening order chat room:', error)
+      throw new Error('Failed to open order chat room')
+    }
+  }
+
+  // Start a room with the given participants
+  async createRoom(
+    type: Exclude<ChatRoom['type'], 'order_inquiry'>,
+    name: string,
+    participants: ChatParticipant[]
+  ): Promise<ChatRoom> {
+    if (participants.length < 2) {
+      throw new ValidationError('A chat room needs at least two participants', { participants: ['At least two participants'] })
+    }
+
+    try {
+      const roomRef = doc(collection(db, this.ROOMS_COLLECTION))
+      const now = new Date()
+      const room: ChatRoom = {
+        id: roomRef.id,
+        name,
+        type,
+        participantIds: participants.map(participant => participant.id),
+        participants,
+        lastReadAt: {},
+        unreadCounts: Object.fromEntries(participants.map(participant => [participant.id, 0])),
+        isActive: true,
+        createdAt: now,
+        updatedAt: now
+      }
+      await setDoc(roomRef, room)
+      return room
+    } catch (error) {
+      logger.error('Error creating chat room:', error)
+      throw new Error('Failed to create chat room')
+    }
+  }
+
+  // Get a room by ID
+  async getRoom(roomId: string): Promise<ChatRoom | null> {
+    try {
+      const roomDoc = await getDoc(doc(db, this.ROOMS_COLLECTION, roomId))
+      return roomDoc.exists() ? this.toRoom(roomDoc.id, roomDoc.data()) : null
+    } catch (error) {
+      logger.error('Error getting chat room:', error)
+      throw new Error('Failed to fetch chat room')
+    }
+  }
+
+  // Order inquiry rooms are keyed by the order, so there is exactly one per order
+  getOrderRoomId(orderId: string): string {
+    return `order_${orderId}`
+  }
+
+  // Get the inquiry room for an order
+  async getOrderRoom(orderId: string): Promise<ChatRoom | null> {
+    return this.getRoom(this.getOrderRoomId(orderId))
+  }
+
+  // Get the rooms a user takes part in, most recently active first
+  async getUserRooms(userId: string): Promise<ChatRoom[]> {
+    try {
+      const snapshot = await getDocs(this.userRoomsQuery(userId))
+      return snapshot.docs.map(roomDoc => this.toRoom(roomDoc.id, roomDoc.data()))
+    } catch (error) {
+      logger.error('Error getting chat rooms:', error)
+      throw new Error('Failed to fetch chat rooms')
+    }
+  }
+
+  // Listen to a user's rooms. Returns the unsubscribe function.
+  subscribeToRooms(userId: string, callback: (rooms: ChatRoom[]) => void): () => void {
+    try {
+      return onSnapshot(
+        this.userRoomsQuery(userId),
+        (snapshot) => {
+          callback(snapshot.docs.map(roomDoc => this.toRoom(roomDoc.id, roomDoc.data())))
+        },
+        (error) => {
+          logger.error('Error in chat room subscription:', error)
+        }
+      )
+    } catch (error) {
+      logger.error('Error setting up chat room subscription:', error)
+      return () => {}
+    }
+  }
+
+  // Listen to a single room. Returns the unsubscribe function.
+  subscribeToRoom(roomId: string, callback: (room: ChatRoom | null) => void): () => void {
+    try {
+      return onSnapshot(
+        doc(db, this.ROOMS_COLLECTION, roomId),
+        (roomDoc) => {
+          callback(roomDoc.exists() ? this.toRoom(roomDoc.id, roomDoc.data()) : null)
+        },
+        (error) => {
+          logger.error('Error in chat room subscription:', error)
+        }
+      )
+    } catch (error) {
+      logger.error('Error setting up chat room subscription:', error)
+      return () => {}
+    }
+  }
+
+  // Listen to the latest messages in a room, oldest first. Hidden messages are only
+  // passed to their sender. Returns the unsubscribe function.
+  subscribeToMessages(
+    roomId: string,
+    callback: (messages: ChatMessage[]) => void,
+    viewerId?: string,
+    maxResults: number = 100
+  ): () => void {
+    try {
+      return onSnapshot(
+        query(
+          collection(db, this.MESSAGES_COLLECTION),
+          where('roomId', '==', roomId),
+          orderBy('createdAt', 'desc'),
+          limit(maxResults)
+        ),
+        (snapshot) => {
+          callback(snapshot.docs
+            .map(messageDoc => this.toMessage(messageDoc.id, messageDoc.data()))
+            .filter(message => message.status !== 'hidden' || message.senderId === viewerId)
+            .reverse())
+        },
+        (error) => {
+          logger.error('Error in chat message subscription:', error)
+        }
+      )
+    } catch (error) {
+      logger.error('Error setting up chat message subscription:', error)
+      return () => {}
+    }
+  }
+
+  // Post a message, uploading any attachments first. The moderation pipeline may
+  // flag it for review or hide it from everyone but the sender; participants who
+  // are not currently online are only notified about messages they can see.
+  async sendMessage(roomId: string, sender: ChatParticipant, input: SendMessageInput): Promise<ChatMessage> {
+    const content = input.content.trim()
+    const files = input.files || []
+    if (!content && files.length === 0) {
+      throw new ValidationError('Message cannot be empty', { content: ['Required'] })
+    }
+    if (content.length > MAX_CHAT_MESSAGE_LENGTH) {
+      throw new ValidationError('Message is too long', { content: [`At most ${MAX_CHAT_MESSAGE_LENGTH} characters`] })
+    }
+    if (files.length > MAX_CHAT_ATTACHMENTS) {
+      throw new ValidationError('Too many attachments', { files: [`At most ${MAX_CHAT_ATTACHMENTS} files`] })
+    }
+
+    try {
+      const room = await this.getRoom(roomId)
+      if (!room) {
+        throw new NotFoundError('Chat room', roomId)
+      }
+      this.assertMember(room, sender)
+      if (!room.isActive) {
+        throw new ConflictError('This conversation has been closed', { roomId })
+      }
+
+      const chatUser = await this.ensureChatUser(sender)
+      if (chatUser.status !== 'active') {
+        throw new AuthorizationError(
+          chatUser.status === 'banned' ? 'You have been banned from chat' : 'You have been muted and cannot send messages'
+        )
+      }
+
+      const moderation = await moderationService.moderateContent({ text: content, files })
+
+      const uploads = files.length > 0 ? await storageService.uploadChatAttachments(roomId, files) : []
+      const attachments: ChatAttachment[] = uploads.map((upload, index) => ({
+        url: upload.url,
+        path: upload.path,
+        name: files[index].name,
+        contentType: upload.contentType,
+        size: upload.size
+      }))
+
+      const messageRef = doc(collection(db, this.MESSAGES_COLLECTION))
+      const now = new Date()
+      const message: ChatMessage = {
+        id: messageRef.id,
+        roomId,
+        senderId: sender.id,
+        senderName: sender.name,
+        senderRole: sender.role,
+        content,
+        messageType: this.getMessageType(attachments),
+        attachments,
+        status: moderation.action === 'hide' ? 'hidden' : moderation.action === 'queue' ? 'flagged' : 'visible',
+        ...(moderation.action !== 'allow' ? {
+          moderationFlags: moderation.flags,
+          flaggedBy: 'system',
+          flaggedReason: moderationService.describeFlags(moderation.flags),
+          flaggedAt: now
+        } : {}),
+        createdAt: now
+      }
+      await setDoc(messageRef, message)
+      if (message.status === 'hidden') {
+        return message
+      }
+
+      const recipients = room.participantIds.filter(participantId => participantId !== sender.id)
+      await updateDoc(doc(db, this.ROOMS_COLLECTION, roomId), {
+        lastMessage: {
+          content: content || attachments.map(attachment => attachment.name).join(', '),
+          senderId: sender.id,
+          senderName: sender.name,
+          createdAt: now
+        },
+        updatedAt: now,
+        [`lastReadAt.${sender.id}`]: now,
+        [`unreadCounts.${sender.id}`]: 0,
+        ...Object.fromEntries(recipients.map(recipientId => [`unreadCounts.${recipientId}`, increment(1)]))
+      })
+
+      await this.notifyOfflineRecipients(room, message, recipients)
+      return message
+    } catch (error) {
+      logger.error('Error sending chat message:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to send message')
+    }
+  }
+
+  // Record that a participant has read everything in the room up to now
+  async markRoomAsRead(roomId: string, userId: string): Promise<void> {
+    try {
+      await updateDoc(doc(db, this.ROOMS_COLLECTION, roomId), {
+        [`lastReadAt.${userId}`]: new Date(),
+        [`unreadCounts.${userId}`]: 0
+      })
+    } catch (error) {
+      logger.error('Error marking chat room as read:', error)
+      throw new Error('Failed to update chat room')
+    }
+  }
+
+  // Participants other than the sender who have read a message
+  getReadBy(room: ChatRoom, message: ChatMessage): ChatParticipant[] {
+    return room.participants.filter(participant => {
+      const readAt = room.lastReadAt[participant.id]
+      return participant.id !== message.senderId && !!readAt && readAt.getTime() >= message.createdAt.getTime()
+    })
+  }
+
+  // Mark a user as online or offline. Call with true on a timer while a chat page is open.
+  async setPresence(userId: string, isOnline: boolean): Promise<void> {
+    try {
+      await setDoc(doc(db, this.PRESENCE_COLLECTION, userId), {
+        userId,
+        isOnline,
+        lastSeenAt: new Date()
+      })
+    } catch (error) {
+      logger.error('Error updating chat presence:', error)
+    }
+  }
+
+  // Listen to the presence of up to 30 users. Returns the unsubscribe function.
+  subscribeToPresence(
+    userIds: string[],
+    callback: (presence: Record<string, ChatPresence>) => void
+  ): () => void {
+    const ids = userIds.slice(0, MAX_PRESENCE_IDS)
+    if (ids.length === 0) {
+      return () => {}
+    }
+
+    try {
+      return onSnapshot(
+        query(collection(db, this.PRESENCE_COLLECTION), where(documentId(), 'in', ids)),
+        (snapshot) => {
+          const presence: Record<string, ChatPresence> = {}
+          snapshot.docs.forEach(presenceDoc => {
+            presence[presenceDoc.id] = this.toPresence(presenceDoc.id, presenceDoc.data())
+          })
+          callback(presence)
+        },
+        (error) => {
+          logger.error('Error in chat presence subscription:', error)
+        }
+      )
+    } catch (error) {
+      logger.error('Error setting up chat presence subscription:', error)
+      return () => {}
+    }
+  }
+
+  // Report a message to the moderators. It stays visible until they review it.
+  async reportMessage(messageId: string, reporterId: string, reason: string): Promise<void> {
+    if (!reason.trim()) {
+      throw new ValidationError('Please say why you are reporting this message', { reason: ['Required'] })
+    }
+
+    const messageRef = doc(db, this.MESSAGES_COLLECTION, messageId)
+    try {
+      await runTransaction(db, async (transaction) => {
+        const messageDoc = await transaction.get(messageRef)
+        if (!messageDoc.exists()) {
+          throw new NotFoundError('Chat message', messageId)
+        }
+        if (messageDoc.data().status !== 'visible') return
+
+        transaction.update(messageRef, {
+          status: 'flagged',
+          flaggedBy: reporterId,
+          flaggedReason: reason.trim(),
+          flaggedAt: new Date()
+        })
+      })
+    } catch (error) {
+      logger.error('Error reporting chat message:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to report message')
+    }
+  }
+
+  // Flagged and hidden messages waiting for a moderator, oldest first
+  async getModerationQueue(maxResults: number = 50): Promise<ChatMessage[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.MESSAGES_COLLECTION),
+        where('status', 'in', ['flagged', 'hidden']),
+        orderBy('flaggedAt', 'asc'),
+        limit(maxResults)
+      ))
+      return snapshot.docs.map(messageDoc => this.toMessage(messageDoc.id, messageDoc.data()))
+    } catch (error) {
+      logger.error('Error getting chat moderation queue:', error)
+      throw new Error('Failed to fetch moderation queue')
+    }
+  }
+
+  // Clear a flagged or hidden message and show it to the room
+  async approveMessage(messageId: string, moderatorId: string): Promise<ChatMessage> {
+    return this.moderateMessage(messageId, moderatorId, 'visible')
+  }
+
+  // Hide a message. Senders may remove their own messages; anyone else must be an admin.
+  async removeMessage(messageId: string, actor: Pick<ChatParticipant, 'id' | 'role'>): Promise<ChatMessage> {
+    if (actor.role !== 'admin') {
+      const messageDoc = await getDoc(doc(db, this.MESSAGES_COLLECTION, messageId))
+      if (messageDoc.exists() && messageDoc.data().senderId !== actor.id) {
+        throw new AuthorizationError('You can only remove your own messages')
+      }
+    }
+    return this.moderateMessage(messageId, actor.id, 'removed')
+  }
+
+  // Everyone who has used chat, for the moderation screen
+  async getChatUsers(maxResults: number = 200): Promise<ChatUser[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.USERS_COLLECTION),
+        orderBy('updatedAt', 'desc'),
+        limit(maxResults)
+      ))
+      return snapshot.docs.map(userDoc => this.toChatUser(userDoc.data()))
+    } catch (error) {
+      logger.error('Error getting chat users:', error)
+      throw new Error('Failed to fetch chat users')
+    }
+  }
+
+  // Ban, mute or restore a user
+  async setUserStatus(userId: string, status: ChatUserStatus, moderatorId: string, reason?: string): Promise<ChatUser> {
+    const userRef = doc(db, this.USERS_COLLECTION, userId)
+    try {
+      return await runTransaction(db, async (transaction) => {
+        const userDoc = await transaction.get(userRef)
+        if (!userDoc.exists()) {
+          throw new NotFoundError('Chat user', userId)
+        }
+
+        const chatUser = this.toChatUser(userDoc.data())
+        const updates = {
+          status,
+          statusReason: reason?.trim() || null,
+          statusUpdatedBy: moderatorId,
+          updatedAt: new Date()
+        }
+        transaction.update(userRef, updates)
+        return {
+          ...chatUser,
+          status,
+          statusReason: updates.statusReason || undefined,
+          statusUpdatedBy: moderatorId,
+          updatedAt: updates.updatedAt
+        }
+      })
+    } catch (error) {
+      logger.error('Error updating chat user status:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to update chat user')
+    }
+  }
+
+  private userRoomsQuery(userId: string) {
+    return query(
+      collection(db, this.ROOMS_COLLECTION),
+      where('participantIds', 'array-contains', userId),
+      orderBy('updatedAt', 'desc')
+    )
+  }
+
+  private async moderateMessage(messageId: string, moderatorId: string, status: 'visible' | 'removed'): Promise<ChatMessage> {
+    const messageRef = doc(db, this.MESSAGES_COLLECTION, messageId)
+    try {
+      return await runTransaction(db, async (transaction) => {
+        const messageDoc = await transaction.get(messageRef)
+        if (!messageDoc.exists()) {
+          throw new NotFoundError('Chat message', messageId)
+        }
+
+        const message = this.toMessage(messageDoc.id, messageDoc.data())
+        if (message.status === 'removed') {
+          throw new ConflictError('This message has already been removed', { messageId })
+        }
+
+        const moderatedAt = new Date()
+        transaction.update(messageRef, { status, moderatedBy: moderatorId, moderatedAt })
+        return { ...message, status, moderatedBy: moderatorId, moderatedAt }
+      })
+    } catch (error) {
+      logger.error('Error moderating chat message:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to update message')
+    }
+  }
+
+  // Load the sender's chat standing, registering them on their first message
+  private async ensureChatUser(participant: ChatParticipant): Promise<ChatUser> {
+    const userRef = doc(db, this.USERS_COLLECTION, participant.id)
+    const userDoc = await getDoc(userRef)
+    if (userDoc.exists()) {
+      return this.toChatUser(userDoc.data())
+    }
+
+    const now = new Date()
+    const chatUser: ChatUser = {
+      userId: participant.id,
+      name: participant.name,
+      role: participant.role,
+      status: 'active',
+      createdAt: now,
+      updatedAt: now
+    }
+    await setDoc(userRef, chatUser)
+    return chatUser
+  }
+
+  private assertMember(room: ChatRoom, participant: ChatParticipant): void {
+    if (participant.role !== 'admin' && !room.participantIds.includes(participant.id)) {
+      throw new AuthorizationError('You are not a participant in this conversation')
+    }
+  }
+
+  private getMessageType(attachments: ChatAttachment[]): ChatMessageType {
+    if (attachments.length === 0) return 'text'
+    return attachments.every(attachment => attachment.contentType.startsWith('image/')) ? 'image' : 'file'
+  }
+
+  // Notification failures are logged; the message itself has already been delivered
+  private async notifyOfflineRecipients(room: ChatRoom, message: ChatMessage, recipientIds: string[]): Promise<void> {
+    if (recipientIds.length === 0) return
+
+    try {
+      const presenceSnapshot = await getDocs(query(
+        collection(db, this.PRESENCE_COLLECTION),
+        where(documentId(), 'in', recipientIds.slice(0, MAX_PRESENCE_IDS))
+      ))
+      const online = new Set(
+        presenceSnapshot.docs
+          .map(presenceDoc => this.toPresence(presenceDoc.id, presenceDoc.data()))
+          .filter(presence => presence.isOnline)
+          .map(presence => presence.userId)
+      )
+      const preview = message.content || `Sent ${message.attachments.length} attachment${message.attachments.length === 1 ? '' : 's'}`
+
+      await Promise.all(recipientIds.filter(recipientId => !online.has(recipientId)).map(recipientId =>
+        notificationService.publish({
+          type: 'chat_message',
+          userId: recipientId,
+          roomId: room.id,
+          senderName: message.senderName,
+          preview: preview.slice(0, NOTIFICATION_PREVIEW_LENGTH)
+        })
+      ))
+    } catch (error) {
+      logger.warn(`Failed to notify recipients of chat message ${message.id}:`, error)
+    }
+  }
+
+  private toRoom(id: string, data: Record<string, any>): ChatRoom {
+    const lastReadAt: Record<string, Date> = {}
+    Object.entries<DateLike>(data.lastReadAt || {}).forEach(([userId, value]) => {
+      lastReadAt[userId] = toDate(value)!
+    })
+    return {
+      ...data,
+      id,
+      participantIds: data.participantIds || [],
+      participants: data.participants || [],
+      lastMessage: data.lastMessage
+        ? { ...data.lastMessage, createdAt: toDate(data.lastMessage.createdAt)! }
+        : undefined,
+      lastReadAt,
+      unreadCounts: data.unreadCounts || {},
+      createdAt: toDate(data.createdAt)!,
+      updatedAt: toDate(data.updatedAt)!
+    } as ChatRoom
+  }
+
+  private toMessage(id: string, data: Record<string, any>): ChatMessage {
+    return {
+      ...data,
+      id,
+      attachments: data.attachments || [],
+      status: data.status || 'visible',
+      moderationFlags: data.moderationFlags || [],
+      flaggedAt: toDate(data.flaggedAt),
+      moderatedAt: toDate(data.moderatedAt),
+      createdAt: toDate(data.createdAt)!
+    } as ChatMessage
+  }
+
+  private toPresence(userId: string, data: Record<string, any>): ChatPresence {
+    const lastSeenAt = toDate(data.lastSeenAt) || new Date(0)
+    return {
+      userId,
+      isOnline: !!data.isOnline && Date.now() - lastSeenAt.getTime() < PRESENCE_TIMEOUT_MS,
+      lastSeenAt
+    }
+  }
+
+  private toChatUser(data: Record<string, any>): ChatUser {
+    return {
+      ...data,
+      statusReason: data.statusReason || undefined,
+      createdAt: toDate(data.createdAt)!,
+      updatedAt: toDate(data.updatedAt)!
+    } as ChatUser
+  }
+}
+
+export const chatService = new ChatService()
@@ -0,0 +1,235 @@
+import { FieldValue } from 'firebase-admin/firestore'
+import { adminDb } from '@/lib/firebase/admin'
+import { AuthorizationError, BaseError, ConflictError, NotFoundError } from '@/lib/errors'
+import { logger } from '@/lib/utils/logger'
+import { Order, PromotionCartLine, PromotionEvaluation, PromotionReleaseReason, SubOrder } from '@/types'
+import { evaluatePromotions, splitEvaluation } from './promotions/promotion-engine'
+import {
+  PROMOTION_REDEMPTIONS_COLLECTION,
+  PROMOTIONS_COLLECTION,
+  toPromotion
+} from './promotions/promotion-record'
+
+// Server-only: evaluates promotions against the stored cart or order, never against
+// amounts sent by the client, and records redemptions. Not exported from the services
+// index because it depends on firebase-admin.
+
+export interface PromotionRedemptionResult {
+  evaluation: PromotionEvaluation
+  orderTotal: number
+  alreadyRedeemed: boolean
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+export class CheckoutPromotionService {
+  private readonly CARTS_COLLECTION = 'carts'
+  private readonly ORDERS_COLLECTION = 'orders'
+  private readonly SUB_ORDERS_COLLECTION = 'sub_orders'
+  private readonly PRODUCTS_COLLECTION = 'products'
+
+  // Quote the customer's current cart, pricing items from the catalog
+  async quoteCart(userId: string, codes: string[], shippingCost: number): Promise<PromotionEvaluation> {
+    try {
+      const cartDoc = await adminDb.collection(this.CARTS_COLLECTION).doc(userId).get()
+      const items: Array<{ id?: string; productId: string; quantity: number }> = cartDoc.data()?.items || []
+      const products = await this.getProducts(items.map(item => item.productId))
+
+      const lines: PromotionCartLine[] = items
+        .filter(item => products.has(item.productId))
+        .map(item => {
+          const product = products.get(item.productId)!
+          return {
+            id: item.id || item.productId,
+            productId: item.productId,
+            category: product.category,
+            unitPrice: product.price,
+            quantity: item.quantity
+          }
+        })
+
+      const promotions = await this.getActivePromotions()
+      return evaluatePromotions({ lines, shippingCost: Math.max(0, shippingCost) }, promotions, { codes })
+    } catch (error) {
+      logger.error('Error quoting cart promotions:', error)
+      throw new Error('Failed to evaluate promotions')
+    }
+  }
+
+  // Apply promotions to a pending order and record the redemptions. Runs in a
+  // transaction that reads each promotion's usedCount, so concurrent checkouts can't
+  // push a promotion past its usage limit. Redeeming the same order twice is a no-op.
+  // The discount is also spread over the supplier sub-orders, so payouts and the
+  // ledger are based on what the customer actually pays.
+  async redeemForOrder(userId: string, orderId: string, codes: string[]): Promise<PromotionRedemptionResult> {
+    const orderRef = adminDb.collection(this.ORDERS_COLLECTION).doc(orderId)
+
+    try {
+      // Categories come from the catalog so eligibility can't be spoofed through the order
+      const orderItems: Order['items'] = (await orderRef.get()).data()?.items || []
+      const products = await this.getProducts(orderItems.map(item => item.productId))
+
+      return await adminDb.runTransaction(async transaction => {
+        const orderDoc = await transaction.get(orderRef)
+        if (!orderDoc.exists) {
+          throw new NotFoundError('Order', orderId)
+        }
+
+        const order = orderDoc.data() as Order
+        if (order.userId !== userId) {
+          throw new AuthorizationError('Order belongs to another customer')
+        }
+
+        const existing = await transaction.get(
+          adminDb.collection(PROMOTION_REDEMPTIONS_COLLECTION).where('orderId', '==', orderId).limit(1)
+        )
+        if (!existing.empty || order.promotionEvaluation) {
+          return {
+            evaluation: order.promotionEvaluation!,
+            orderTotal: order.total,
+            alreadyRedeemed: true
+          }
+        }
+
+        if (order.paymentStatus !== 'pending') {
+          throw new ConflictError('Promotions can only be applied before payment', { orderId })
+        }
+
+        const promotionsSnapshot = await transaction.get(
+          adminDb.collection(PROMOTIONS_COLLECTION).where('isActive', '==', true)
+        )
+        const promotions = promotionsSnapshot.docs.map(promotionDoc => toPromotion(promotionDoc.id, promotionDoc.data()))
+        const subOrdersSnapshot = await transaction.get(
+          adminDb.collection(this.SUB_ORDERS_COLLECTION).where('parentOrderId', '==', orderId)
+        )
+
+        const lines: PromotionCartLine[] = order.items.map(item => ({
+          id: item.id,
+          productId: item.productId,
+          category: products.get(item.productId)?.category || '',
+          unitPrice: item.price,
+          quantity: item.quantity
+        }))
+        const evaluation = evaluatePromotions({ lines, shippingCost: order.shippingCost || 0 }, promotions, { codes })
+
+        const now = new Date()
+        evaluation.appliedPromotions.forEach(applied => {
+          transaction.update(adminDb.collection(PROMOTIONS_COLLECTION).doc(applied.promotionId), {
+            usedCount: FieldValue.increment(1),
+            updatedAt: now
+          })
+          transaction.set(
+            adminDb.collection(PROMOTION_REDEMPTIONS_COLLECTION).doc(`${orderId}_${applied.promotionId}`),
+            {
+              promotionId: applied.promotionId,
+              ...(applied.code ? { code: applied.code } : {}),
+              userId,
+              orderId,
+              discountAmount: roundMoney(applied.discountAmount + applied.shippingDiscount),
+              createdAt: now
+            }
+          )
+        })
+
+        const orderTotal = roundMoney(Math.max(0, order.total - evaluation.discountTotal - evaluation.shippingDiscount))
+        if (evaluation.appliedPromotions.length > 0) {
+          transaction.update(orderRef, {
+            promotionEvaluation: JSON.parse(JSON.stringify(evaluation)),
+            total: orderTotal,
+            updatedAt: now
+          })
+
+          const subOrders = subOrdersSnapshot.docs.map(subOrderDoc => ({ ...subOrderDoc.data(), id: subOrderDoc.id }) as SubOrder)
+          const shares = splitEvaluation(evaluation, subOrders.map(subOrder => ({
+            id: subOrder.id,
+            lineIds: subOrder.items.map(item => item.id),
+            shippingCost: subOrder.shippingCost
+          })))
+          subOrders.forEach(subOrder => {
+            const { discountAmount, shippingDiscount } = shares.get(subOrder.id)!
+            transaction.update(adminDb.collection(this.SUB_ORDERS_COLLECTION).doc(subOrder.id), {
+              discountAmount,
+              shippingDiscount,
+              // Commission is charged on the discounted goods value
+              commissionAmount: Math.round((subOrder.subtotal - discountAmount) * subOrder.commissionRate) / 100,
+              total: roundMoney(subOrder.subtotal - discountAmount + subOrder.shippingCost - shippingDiscount),
+              updatedAt: now
+            })
+          })
+        }
+
+        return { evaluation, orderTotal, alreadyRedeemed: false }
+      })
+    } catch (error) {
+      logger.error('Error redeeming promotions:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to redeem promotions')
+    }
+  }
+
+  // Give the promotion uses of an order that won't be paid (cancelled, payment failed,
+  // stock hold expired) back to their usage limits. Each redemption is released once,
+  // in the same transaction that decrements usedCount, so repeated calls are harmless.
+  // Returns the number of redemptions released.
+  async releaseForOrder(orderId: string, reason: PromotionReleaseReason): Promise<number> {
+    const orderRef = adminDb.collection(this.ORDERS_COLLECTION).doc(orderId)
+
+    try {
+      return await adminDb.runTransaction(async transaction => {
+        const orderDoc = await transaction.get(orderRef)
+        if (!orderDoc.exists) {
+          throw new NotFoundError('Order', orderId)
+        }
+
+        const order = orderDoc.data() as Order
+        if (order.status !== 'cancelled' && order.paymentStatus !== 'failed') {
+          throw new ConflictError('Promotions can only be released from a cancelled or unpaid order', { orderId })
+        }
+
+        const redemptions = await transaction.get(
+          adminDb.collection(PROMOTION_REDEMPTIONS_COLLECTION).where('orderId', '==', orderId)
+        )
+        const active = redemptions.docs.filter(redemptionDoc => !redemptionDoc.data().releasedAt)
+
+        const now = new Date()
+        active.forEach(redemptionDoc => {
+          transaction.update(adminDb.collection(PROMOTIONS_COLLECTION).doc(redemptionDoc.data().promotionId), {
+            usedCount: FieldValue.increment(-1),
+            updatedAt: now
+          })
+          transaction.update(redemptionDoc.ref, { releasedAt: now, releaseReason: reason })
+        })
+
+        return active.length
+      })
+    } catch (error) {
+      logger.error('Error releasing promotions:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to release promotions')
+    }
+  }
+
+  private async getActivePromotions() {
+    const snapshot = await adminDb.collection(PROMOTIONS_COLLECTION).where('isActive', '==', true).get()
+    return snapshot.docs.map(promotionDoc => toPromotion(promotionDoc.id, promotionDoc.data()))
+  }
+
+  private async getProducts(productIds: string[]): Promise<Map<string, { price: number; category: string }>> {
+    const uniqueIds = Array.from(new Set(productIds)).filter(Boolean)
+    if (uniqueIds.length === 0) return new Map()
+
+    const docs = await adminDb.getAll(
+      ...uniqueIds.map(id => adminDb.collection(this.PRODUCTS_COLLECTION).doc(id))
+    )
+    return new Map(
+      docs
+        .filter(productDoc => productDoc.exists)
+        .map(productDoc => {
+          const data = productDoc.data()!
+          return [productDoc.id, { price: Number(data.price) || 0, category: data.category || '' }]
+        })
+    )
+  }
+}
+
+export const checkoutPromotionService = new CheckoutPromotionService()
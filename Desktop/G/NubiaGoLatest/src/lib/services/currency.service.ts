@@ -0,0 +1,123 @@
+import { addDoc, collection, doc, getDoc, setDoc } from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { ValidationError } from '@/lib/errors'
+import { logger } from '@/lib/utils/logger'
+import { toDate } from '@/lib/utils/dates'
+import { BASE_CURRENCY, exchangeRate, isSupportedCurrency, parseRateFile } from '@/lib/currency'
+import { ExchangeRateTable, LockedExchangeRate } from '@/types'
+
+// Saved rates are re-read at most this often per server instance or browser tab
+const RATES_CACHE_MS = 5 * 60 * 1000
+
+const EMPTY_RATE_TABLE: ExchangeRateTable = { base: BASE_CURRENCY, rates: {}, source: 'manual' }
+
+export class CurrencyService {
+  private readonly SETTINGS_COLLECTION = 'currency_settings'
+  private readonly RATES_DOCUMENT = 'exchange_rates'
+  private readonly HISTORY_COLLECTION = 'exchange_rate_history'
+  private cachedTable?: { table: ExchangeRateTable; loadedAt: number }
+
+  // Current rate table. Without one only the base currency can be shown or charged.
+  async getRateTable(): Promise<ExchangeRateTable> {
+    if (this.cachedTable && Date.now() - this.cachedTable.loadedAt < RATES_CACHE_MS) {
+      return this.cachedTable.table
+    }
+
+    try {
+      const tableDoc = await getDoc(doc(db, this.SETTINGS_COLLECTION, this.RATES_DOCUMENT))
+      const data = tableDoc.exists() ? tableDoc.data() : {}
+      const table: ExchangeRateTable = {
+        ...EMPTY_RATE_TABLE,
+        ...data,
+        base: BASE_CURRENCY,
+        rates: data.rates || {},
+        updatedAt: toDate(data.updatedAt)
+      }
+      this.cachedTable = { table, loadedAt: Date.now() }
+      return table
+    } catch (error) {
+      logger.error('Error loading exchange rates:', error)
+      throw new Error('Failed to load exchange rates')
+    }
+  }
+
+  // Replace the rates, keeping the previous table in the history for audits
+  async updateRates(
+    rates: Record<string, number>,
+    adminId: string,
+    source: ExchangeRateTable['source'] = 'manual'
+  ): Promise<ExchangeRateTable> {
+    const fieldErrors: Record<string, string[]> = {}
+    const cleaned: Record<string, number> = {}
+    for (const [code, rate] of Object.entries(rates || {})) {
+      const currency = code.trim().toUpperCase()
+      if (currency === BASE_CURRENCY) continue
+      if (!isSupportedCurrency(currency)) {
+        fieldErrors[currency] = ['Currency is not supported']
+      } else if (typeof rate !== 'number' || !isFinite(rate) || rate <= 0) {
+        fieldErrors[currency] = ['Rate must be a number above 0']
+      } else {
+        cleaned[currency] = rate
+      }
+    }
+
+    if (Object.keys(fieldErrors).length > 0) {
+      throw new ValidationError('Invalid exchange rates', fieldErrors)
+    }
+
+    try {
+      const table: ExchangeRateTable = {
+        base: BASE_CURRENCY,
+        rates: cleaned,
+        source,
+        updatedAt: new Date(),
+        updatedBy: adminId
+      }
+      await setDoc(doc(db, this.SETTINGS_COLLECTION, this.RATES_DOCUMENT), table)
+      await addDoc(collection(db, this.HISTORY_COLLECTION), table)
+      this.cachedTable = { table, loadedAt: Date.now() }
+      return table
+    } catch (error) {
+      logger.error('Error saving exchange rates:', error)
+      throw new Error('Failed to save exchange rates')
+    }
+  }
+
+  // Import rates from an uploaded CSV or JSON file. Currencies the file leaves out
+  // keep their current rate.
+  async importRates(content: string, adminId: string): Promise<ExchangeRateTable> {
+    const { rates, errors } = parseRateFile(content)
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid rate file', { file: errors })
+    }
+    if (Object.keys(rates).length === 0) {
+      throw new ValidationError('Rate file has no rates', { file: ['No currency rows found'] })
+    }
+
+    const current = await this.getRateTable()
+    return this.updateRates({ ...current.rates, ...rates }, adminId, 'import')
+  }
+
+  // Units of `to` per unit of `from` under the current table
+  async getExchangeRate(fromCurrency: string, toCurrency: string): Promise<number> {
+    const rate = exchangeRate(await this.getRateTable(), fromCurrency, toCurrency)
+    if (rate === undefined) {
+      throw new ValidationError(`No exchange rate from ${fromCurrency} to ${toCurrency}`)
+    }
+    return rate
+  }
+
+  // The rate an order in this currency is charged at. Currencies without a rate fall
+  // back to the base currency, which is what the shopper was shown.
+  async lockRate(currency?: string): Promise<{ currency: string; exchangeRate: LockedExchangeRate }> {
+    const table = await this.getRateTable()
+    const wanted = currency?.toUpperCase()
+    const rate = wanted ? exchangeRate(table, BASE_CURRENCY, wanted) : undefined
+    return {
+      currency: rate !== undefined ? wanted! : BASE_CURRENCY,
+      exchangeRate: { baseCurrency: BASE_CURRENCY, rate: rate ?? 1, lockedAt: new Date() }
+    }
+  }
+}
+
+export const currencyService = new CurrencyService()
@@ -1,4 +1,4 @@
-import { User, Order, Product } from '@/types'
+import { User, Order, Product, SupportTicket, Notification } from '@/types'
 
 export interface EmailTemplate {
   subject: string
@@ -786,6 +786,102 @@ export class EmailService {
     }
     return await this.sendEmail(user.email, template)
   }
+
+  // Send an in-app notification by email, for events without a dedicated template
+  async sendNotification(user: User, notification: Pick<Notification, 'title' | 'message' | 'link'>): Promise<EmailSendResult> {
+    if (!user?.email) {
+      throw new Error('User email is required')
+    }
+
+    const url = notification.link ? `${process.env.NEXT_PUBLIC_BASE_URL || ''}${notification.link}` : undefined
+    const template: EmailTemplate = {
+      subject: `${notification.title} - NubiaGo`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #2563eb;">${notification.title}</h2>
+          <p>Dear ${user.name || 'Valued Customer'},</p>
+          <p>${notification.message}</p>
+          ${url ? `<p><a href="${url}" style="color: #2563eb;">View details</a></p>` : ''}
+          <p>Best regards,<br>The NubiaGo Team</p>
+        </div>
+      `,
+      text: `
+        ${notification.title}
+        
+        Dear ${user.name || 'Valued Customer'},
+        
+        ${notification.message}
+        ${url ? `View details: ${url}` : ''}
+        
+        Best regards,
+        The NubiaGo Team
+      `
+    }
+    return await this.sendEmail(user.email, template)
+  }
+
+  // Send support ticket status update
+  async sendSupportTicketUpdate(user: Pick<User, 'email' | 'name'>, ticket: SupportTicket, note?: string): Promise<EmailSendResult> {
+    if (!user?.email || !ticket) {
+      throw new Error('User email and ticket are required')
+    }
+
+    const statusLabels: Record<SupportTicket['status'], string> = {
+      open: 'Open',
+      in_progress: 'In Progress',
+      waiting: 'Waiting for Your Reply',
+      escalated: 'Escalated to Our Support Team',
+      resolved: 'Resolved',
+      closed: 'Closed'
+    }
+    const statusLabel = statusLabels[ticket.status]
+    const nextStep = ticket.status === 'waiting'
+      ? 'We need a little more information from you. Please reply to the ticket from your support page.'
+      : ticket.status === 'resolved'
+        ? 'If the problem is not solved, reply to the ticket and we will reopen it.'
+        : ticket.status === 'closed'
+          ? 'This ticket is closed. Please open a new ticket if you need more help.'
+          : 'We will keep you updated as your ticket progresses.'
+
+    const template: EmailTemplate = {
+      subject: `Support Ticket ${ticket.ticketNumber}: ${statusLabel} - NubiaGo`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #2563eb;">Support Ticket Update</h2>
+          <p>Dear ${user.name || 'Valued Customer'},</p>
+          <p>The status of your support ticket has changed.</p>
+          
+          <div style="background-color: #eff6ff; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <p><strong>Ticket:</strong> ${ticket.ticketNumber}</p>
+            <p><strong>Subject:</strong> ${ticket.subject}</p>
+            <p><strong>Status:</strong> ${statusLabel}</p>
+            ${note ? `<p><strong>Note:</strong> ${note}</p>` : ''}
+          </div>
+          
+          <p>${nextStep}</p>
+          <p>Best regards,<br>The NubiaGo Team</p>
+        </div>
+      `,
+      text: `
+        Support Ticket Update
+        
+        Dear ${user.name || 'Valued Customer'},
+        
+        The status of your support ticket has changed.
+        
+        Ticket: ${ticket.ticketNumber}
+        Subject: ${ticket.subject}
+        Status: ${statusLabel}
+        ${note ? `Note: ${note}` : ''}
+        
+        ${nextStep}
+        
+        Best regards,
+        The NubiaGo Team
+      `
+    }
+    return await this.sendEmail(user.email, template)
+  }
 }
 
 // Email Provider Implementations
@@ -6,12 +6,25 @@ export { analyticsService } from './analytics.service'
 export { auditService } from './audit.service'
 export { authService } from './auth.service'
 export { cartService } from './cart.service'
+export { chatService } from './chat.service'
+export { currencyService } from './currency.service'
 export { errorLogger } from './error-logging.service'
+export { inventoryReservationService } from './inventory-reservation.service'
 export { logisticsService } from './logistics.service'
+export { moderationService } from './moderation.service'
+export { notificationService } from './notification.service'
 export { orderService } from './order.service'
+export { packingService } from './packing.service'
+export { payoutService } from './payout.service'
 export { productService } from './product.service'
+export { rateShoppingService } from './rate-shopping.service'
+export { returnService } from './return.service'
+export { reviewService } from './review.service'
 export { searchService } from './search.service'
 export { storageService } from './storage.service'
+export { subOrderService } from './sub-order.service'
+export { supportService } from './support.service'
+export { trackingService } from './tracking.service'
 export { userService } from './user.service'
 export { wishlistService } from './wishlist.service'
 
@@ -23,7 +36,6 @@ export { AdminUserService } from './admin/admin-user.service'
 
 // External Services
 export { emailService } from './email.service'
-export { mobileMoneyService } from './mobile-money.service'
 
 // Utility Services
 export { performanceService } from './performance.service'
@@ -0,0 +1,144 @@
+import { Transaction } from 'firebase-admin/firestore'
+import { adminDb } from '@/lib/firebase/admin'
+import { InventoryReservation, InventoryReservationLine, InventoryReservationStatus } from '@/types'
+import { INVENTORY_HOLD_MINUTES, ReservationSettlement } from './inventory-reservation.service'
+import {
+  INVENTORY_COLLECTION,
+  InventoryItem,
+  RESERVATIONS_COLLECTION,
+  StockOperation,
+  applyStockOperation,
+  toInventoryReservation
+} from './inventory/stock-operations'
+
+// Server-only: settles stock holds for mobile money payments from the webhook, the
+// initiate route and the expired hold sweeper, none of which has a signed-in user.
+// Not exported from the services index because it depends on firebase-admin.
+export class InventoryHoldService {
+  // Tie the hold to a pending payment and restart its clock
+  async attachPayment(orderId: string, paymentId: string, ttlMinutes: number = INVENTORY_HOLD_MINUTES): Promise<void> {
+    const reservationRef = adminDb.collection(RESERVATIONS_COLLECTION).doc(orderId)
+
+    try {
+      await adminDb.runTransaction(async (transaction) => {
+        const reservationDoc = await transaction.get(reservationRef)
+        if (!reservationDoc.exists || reservationDoc.data()!.status !== 'held') return
+
+        const now = new Date()
+        transaction.update(reservationRef, {
+          paymentId,
+          expiresAt: new Date(now.getTime() + ttlMinutes * 60 * 1000),
+          updatedAt: now
+        })
+      })
+    } catch (error) {
+      console.error('Error attaching payment to inventory hold:', error)
+      throw new Error('Failed to attach payment to inventory hold')
+    }
+  }
+
+  // Payment completed: the held units are sold
+  async commit(orderId: string): Promise<ReservationSettlement> {
+    try {
+      return await this.settle(orderId, (reservation) =>
+        reservation.status === 'held' ? { operation: 'commit', status: 'committed' } : null
+      )
+    } catch (error) {
+      console.error('Error committing inventory hold:', error)
+      throw new Error('Failed to commit inventory hold')
+    }
+  }
+
+  // Payment failed or never completed: the held units go back on sale. Safe to call twice.
+  async release(orderId: string, reason: 'payment_failed' | 'expired'): Promise<ReservationSettlement> {
+    try {
+      return await this.settle(orderId, (reservation) => {
+        if (reservation.status !== 'held') return null
+        return { operation: 'release', status: reason === 'expired' ? 'expired' : 'released', reason }
+      })
+    } catch (error) {
+      console.error('Error releasing inventory hold:', error)
+      throw new Error('Failed to release inventory hold')
+    }
+  }
+
+  // Get the hold recorded for an order
+  async getReservation(orderId: string): Promise<InventoryReservation | null> {
+    try {
+      const reservationDoc = await adminDb.collection(RESERVATIONS_COLLECTION).doc(orderId).get()
+      return reservationDoc.exists ? toInventoryReservation(reservationDoc.id, reservationDoc.data()!) : null
+    } catch (error) {
+      console.error('Error getting inventory hold:', error)
+      throw new Error('Failed to fetch inventory hold')
+    }
+  }
+
+  // Holds whose time ran out without the payment completing
+  async getExpiredHolds(now: Date = new Date(), maxResults: number = 50): Promise<InventoryReservation[]> {
+    try {
+      const snapshot = await adminDb
+        .collection(RESERVATIONS_COLLECTION)
+        .where('status', '==', 'held')
+        .where('expiresAt', '<=', now)
+        .orderBy('expiresAt', 'asc')
+        .limit(maxResults)
+        .get()
+      return snapshot.docs.map(reservationDoc => toInventoryReservation(reservationDoc.id, reservationDoc.data()))
+    } catch (error) {
+      console.error('Error getting expired inventory holds:', error)
+      throw new Error('Failed to fetch expired inventory holds')
+    }
+  }
+
+  // Move a hold to its next status and apply the matching stock change, once
+  private async settle(
+    orderId: string,
+    decide: (reservation: InventoryReservation) => {
+      operation: StockOperation
+      status: InventoryReservationStatus
+      reason?: InventoryReservation['releaseReason']
+    } | null
+  ): Promise<ReservationSettlement> {
+    const reservationRef = adminDb.collection(RESERVATIONS_COLLECTION).doc(orderId)
+
+    return adminDb.runTransaction(async (transaction) => {
+      const reservationDoc = await transaction.get(reservationRef)
+      if (!reservationDoc.exists) return 'missing'
+
+      const reservation = toInventoryReservation(reservationDoc.id, reservationDoc.data()!)
+      const next = decide(reservation)
+      if (!next) return 'unchanged'
+
+      await this.applyToInventory(transaction, reservation.lines, next.operation)
+      transaction.update(reservationRef, {
+        status: next.status,
+        ...(next.reason ? { releaseReason: next.reason } : {}),
+        updatedAt: new Date()
+      })
+      return 'applied' as ReservationSettlement
+    })
+  }
+
+  // Read every stock record first (transactions require reads before writes), then
+  // write the new counts. Holds only cover records that existed when they were placed.
+  private async applyToInventory(
+    transaction: Transaction,
+    lines: InventoryReservationLine[],
+    operation: StockOperation
+  ): Promise<void> {
+    const refs = lines.map(line => adminDb.collection(INVENTORY_COLLECTION).doc(line.inventoryKey))
+    const snapshots = refs.length > 0 ? await transaction.getAll(...refs) : []
+    const now = new Date()
+
+    snapshots.forEach((snapshot, index) => {
+      if (!snapshot.exists) return
+
+      const inventory = snapshot.data() as InventoryItem
+      applyStockOperation(inventory, lines[index], operation)
+      inventory.lastUpdated = now
+      transaction.set(refs[index], inventory)
+    })
+  }
+}
+
+export const inventoryHoldService = new InventoryHoldService()
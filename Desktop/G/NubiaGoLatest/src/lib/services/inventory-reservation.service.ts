@@ -0,0 +1,269 @@
+import {
+  doc,
+  getDoc,
+  collection,
+  query,
+  where,
+  getDocs,
+  runTransaction,
+  Transaction
+} from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { BaseError, ConflictError } from '@/lib/errors'
+import { getInventoryKey } from '@/lib/product-variants'
+import {
+  InventoryReservation,
+  InventoryReservationLine,
+  InventoryReservationStatus,
+  Order,
+  OrderItem
+} from '@/types'
+import {
+  INVENTORY_COLLECTION,
+  InventoryItem,
+  RESERVATIONS_COLLECTION,
+  StockOperation,
+  applyStockOperation,
+  seedInventory,
+  toInventoryReservation,
+  toReservationLines
+} from './inventory/stock-operations'
+import { toDate } from '@/lib/utils/dates'
+
+export type { InventoryItem } from './inventory/stock-operations'
+
+// How long stock stays held for an unpaid order. Starting a mobile money payment
+// renews the hold, so the payer gets the full window to approve the prompt.
+export const INVENTORY_HOLD_MINUTES = 30
+
+export type ReservationSettlement = 'applied' | 'unchanged' | 'missing'
+
+// Stock holds placed and settled from the browser checkout. The payment webhook and the
+// expired hold sweeper settle holds server-side through inventory-hold.service.
+export class InventoryReservationService {
+  private readonly COLLECTION_NAME = RESERVATIONS_COLLECTION
+  private readonly INVENTORY_COLLECTION = INVENTORY_COLLECTION
+
+  // Reserve stock for an order and record the hold. Stock is checked and decremented
+  // in one transaction, so concurrent checkouts can't both take the last units.
+  // Retrying for an order that is already held returns the existing hold.
+  async holdForOrder(
+    order: Pick<Order, 'id' | 'userId' | 'items'>,
+    ttlMinutes: number = INVENTORY_HOLD_MINUTES
+  ): Promise<InventoryReservation> {
+    const lines = toReservationLines(order.items)
+    const reservationRef = doc(db, this.COLLECTION_NAME, order.id)
+
+    try {
+      return await runTransaction(db, async (transaction) => {
+        const existing = await transaction.get(reservationRef)
+        if (existing.exists()) {
+          const reservation = toInventoryReservation(existing.id, existing.data())
+          if (reservation.status === 'held') return reservation
+          throw new ConflictError(`Stock for order ${order.id} was already ${reservation.status}`, { orderId: order.id })
+        }
+
+        await this.applyToInventory(transaction, lines, 'reserve', order.items)
+
+        const now = new Date()
+        const reservation: InventoryReservation = {
+          id: order.id,
+          orderId: order.id,
+          userId: order.userId,
+          lines,
+          status: 'held',
+          expiresAt: new Date(now.getTime() + ttlMinutes * 60 * 1000),
+          createdAt: now,
+          updatedAt: now
+        }
+        transaction.set(reservationRef, reservation)
+        return reservation
+      })
+    } catch (error) {
+      console.error('Error holding inventory:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to reserve inventory')
+    }
+  }
+
+  // Payment completed: the held units are sold
+  async commit(orderId: string): Promise<ReservationSettlement> {
+    try {
+      return await this.settle(orderId, (reservation) =>
+        reservation.status === 'held' ? { operation: 'commit', status: 'committed' } : null
+      )
+    } catch (error) {
+      console.error('Error committing inventory hold:', error)
+      throw new Error('Failed to commit inventory hold')
+    }
+  }
+
+  // Return the order's units to stock. Held units go back to available; units of a
+  // paid order that is cancelled before shipping are restocked. Safe to call twice.
+  async release(
+    orderId: string,
+    reason: NonNullable<InventoryReservation['releaseReason']>
+  ): Promise<ReservationSettlement> {
+    try {
+      return await this.settle(orderId, (reservation) => {
+        const status: InventoryReservationStatus = reason === 'expired' ? 'expired' : 'released'
+        if (reservation.status === 'held') return { operation: 'release', status, reason }
+        if (reservation.status === 'committed' && reason === 'cancelled') return { operation: 'restock', status, reason }
+        return null
+      })
+    } catch (error) {
+      console.error('Error releasing inventory hold:', error)
+      throw new Error('Failed to release inventory hold')
+    }
+  }
+
+  // Return part of an order's units to stock, e.g. a cancelled supplier's sub-order.
+  // The lines are taken off the hold too, so settling the rest of the order later
+  // doesn't count them again.
+  async releaseItems(orderId: string, items: OrderItem[]): Promise<ReservationSettlement> {
+    const reservationRef = doc(db, this.COLLECTION_NAME, orderId)
+    const released = toReservationLines(items)
+
+    try {
+      return await runTransaction(db, async (transaction) => {
+        const reservationDoc = await transaction.get(reservationRef)
+        if (!reservationDoc.exists()) return 'missing'
+
+        const reservation = toInventoryReservation(reservationDoc.id, reservationDoc.data())
+        if (reservation.status !== 'held' && reservation.status !== 'committed') return 'unchanged'
+
+        // Never give back more than the hold still covers
+        const lines = released
+          .map(line => {
+            const held = reservation.lines.find(candidate => candidate.inventoryKey === line.inventoryKey)
+            return { ...line, quantity: Math.min(line.quantity, held?.quantity || 0) }
+          })
+          .filter(line => line.quantity > 0)
+        if (lines.length === 0) return 'unchanged'
+
+        await this.applyToInventory(transaction, lines, reservation.status === 'held' ? 'release' : 'restock')
+        transaction.update(reservationRef, {
+          lines: reservation.lines
+            .map(line => {
+              const taken = lines.find(candidate => candidate.inventoryKey === line.inventoryKey)
+              return taken ? { ...line, quantity: line.quantity - taken.quantity } : line
+            })
+            .filter(line => line.quantity > 0),
+          updatedAt: new Date()
+        })
+        return 'applied'
+      })
+    } catch (error) {
+      console.error('Error releasing inventory for items:', error)
+      throw new Error('Failed to release inventory')
+    }
+  }
+
+  // Get the hold recorded for an order
+  async getReservation(orderId: string): Promise<InventoryReservation | null> {
+    try {
+      const reservationDoc = await getDoc(doc(db, this.COLLECTION_NAME, orderId))
+      return reservationDoc.exists() ? toInventoryReservation(reservationDoc.id, reservationDoc.data()) : null
+    } catch (error) {
+      console.error('Error getting inventory hold:', error)
+      throw new Error('Failed to fetch inventory hold')
+    }
+  }
+
+  // Stock records for a supplier's products, one per SKU
+  async getSupplierInventory(supplierId: string): Promise<InventoryItem[]> {
+    try {
+      const q = query(collection(db, this.INVENTORY_COLLECTION), where('supplierId', '==', supplierId))
+      const snapshot = await getDocs(q)
+      return snapshot.docs.map(inventoryDoc => {
+        const data = inventoryDoc.data()
+        return { ...data, lastUpdated: toDate(data.lastUpdated)! } as InventoryItem
+      })
+    } catch (error) {
+      console.error('Error getting supplier inventory:', error)
+      throw new Error('Failed to fetch supplier inventory')
+    }
+  }
+
+  // Adjust stock for a list of items without recording a hold. Used by callers that
+  // manage the order lifecycle themselves; returns the updated stock records.
+  async adjustStock(items: OrderItem[], operation: StockOperation): Promise<InventoryItem[]> {
+    try {
+      return await runTransaction(db, (transaction) =>
+        this.applyToInventory(transaction, toReservationLines(items), operation, items)
+      )
+    } catch (error) {
+      console.error(`Error applying inventory ${operation}:`, error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to update inventory')
+    }
+  }
+
+  // Move a hold to its next status and apply the matching stock change, once
+  private async settle(
+    orderId: string,
+    decide: (reservation: InventoryReservation) => {
+      operation: StockOperation
+      status: InventoryReservationStatus
+      reason?: InventoryReservation['releaseReason']
+    } | null
+  ): Promise<ReservationSettlement> {
+    const reservationRef = doc(db, this.COLLECTION_NAME, orderId)
+
+    return runTransaction(db, async (transaction) => {
+      const reservationDoc = await transaction.get(reservationRef)
+      if (!reservationDoc.exists()) return 'missing'
+
+      const reservation = toInventoryReservation(reservationDoc.id, reservationDoc.data())
+      const next = decide(reservation)
+      if (!next) return 'unchanged'
+
+      await this.applyToInventory(transaction, reservation.lines, next.operation)
+      transaction.update(reservationRef, {
+        status: next.status,
+        ...(next.reason ? { releaseReason: next.reason } : {}),
+        updatedAt: new Date()
+      })
+      return 'applied'
+    })
+  }
+
+  // Read every stock record first (transactions require reads before writes), check
+  // availability, then write the new counts.
+  private async applyToInventory(
+    transaction: Transaction,
+    lines: InventoryReservationLine[],
+    operation: StockOperation,
+    items: OrderItem[] = []
+  ): Promise<InventoryItem[]> {
+    const refs = lines.map(line => doc(db, this.INVENTORY_COLLECTION, line.inventoryKey))
+    const snapshots = await Promise.all(refs.map(ref => transaction.get(ref)))
+    const now = new Date()
+
+    const updates = lines.map((line, index) => {
+      const snapshot = snapshots[index]
+      let inventory: InventoryItem
+      if (snapshot.exists()) {
+        inventory = snapshot.data() as InventoryItem
+      } else if (operation === 'reserve') {
+        inventory = seedInventory(line, items.find(item => getInventoryKey(item) === line.inventoryKey))
+      } else {
+        return null // Nothing was ever reserved against a missing record
+      }
+
+      applyStockOperation(inventory, line, operation)
+      inventory.lastUpdated = now
+      return { ref: refs[index], inventory }
+    })
+
+    const written: InventoryItem[] = []
+    for (const update of updates) {
+      if (!update) continue
+      transaction.set(update.ref, update.inventory)
+      written.push(update.inventory)
+    }
+    return written
+  }
+}
+
+export const inventoryReservationService = new InventoryReservationService()
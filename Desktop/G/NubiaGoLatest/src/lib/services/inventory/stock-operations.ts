@@ -0,0 +1,111 @@
+import { ConflictError } from '@/lib/errors'
+import { findVariant, getInventoryKey } from '@/lib/product-variants'
+import { InventoryReservation, InventoryReservationLine, OrderItem } from '@/types'
+import { toDate } from '@/lib/utils/dates'
+
+// Stock arithmetic shared by the browser checkout (client SDK) and the payment
+// webhook and sweeper (firebase-admin). Each SDK reads and writes the records in its
+// own transaction; the counts always change the same way.
+
+export const INVENTORY_COLLECTION = 'inventory'
+export const RESERVATIONS_COLLECTION = 'inventory_reservations'
+
+// Stock record per variant SKU, or per product when it has no variants
+export interface InventoryItem {
+  productId: string
+  variantId?: string
+  sku?: string
+  supplierId?: string
+  productName?: string
+  quantity: number
+  reservedQuantity: number
+  availableQuantity: number
+  lowStockThreshold: number
+  lastUpdated: Date
+}
+
+export type StockOperation = 'reserve' | 'commit' | 'release' | 'restock'
+
+// Apply one line's stock change to its record, in place. A reservation that the
+// record can't cover throws a ConflictError, which aborts the surrounding transaction.
+export function applyStockOperation(inventory: InventoryItem, line: InventoryReservationLine, operation: StockOperation): void {
+  switch (operation) {
+    case 'reserve':
+      if (inventory.availableQuantity < line.quantity) {
+        const label = line.sku ? `${line.productId} (${line.sku})` : line.productId
+        throw new ConflictError(
+          `Insufficient stock for product ${label}. Available: ${inventory.availableQuantity}, Requested: ${line.quantity}`,
+          { productId: line.productId, sku: line.sku, available: inventory.availableQuantity, requested: line.quantity }
+        )
+      }
+      inventory.reservedQuantity += line.quantity
+      inventory.availableQuantity -= line.quantity
+      break
+    case 'commit':
+      inventory.quantity -= line.quantity
+      inventory.reservedQuantity = Math.max(0, inventory.reservedQuantity - line.quantity)
+      if (inventory.quantity <= inventory.lowStockThreshold) {
+        console.warn(`Low stock alert for product ${line.productId}${line.sku ? ` (${line.sku})` : ''}: ${inventory.quantity} remaining`)
+      }
+      break
+    case 'release':
+      inventory.reservedQuantity = Math.max(0, inventory.reservedQuantity - line.quantity)
+      inventory.availableQuantity += line.quantity
+      break
+    case 'restock':
+      inventory.quantity += line.quantity
+      inventory.availableQuantity += line.quantity
+      break
+  }
+}
+
+// First stock record for a product or variant, from the stock it lists. Nothing is
+// assumed: a listing without a stock count starts at 0, so reserving it fails.
+export function seedInventory(line: InventoryReservationLine, item?: OrderItem): InventoryItem {
+  const product = item?.product
+  const variant = product && line.variantId ? findVariant(product, line.variantId) : undefined
+  const stock = (variant ? variant.stock : product?.stock) ?? 0
+  const supplierId = item?.supplierId || product?.supplierId
+
+  return {
+    productId: line.productId,
+    ...(line.variantId ? { variantId: line.variantId, sku: line.sku } : {}),
+    ...(supplierId ? { supplierId } : {}),
+    ...(product?.name ? { productName: product.name } : {}),
+    quantity: stock,
+    reservedQuantity: 0,
+    availableQuantity: stock,
+    lowStockThreshold: 10,
+    lastUpdated: new Date()
+  }
+}
+
+// One line per stock record; order lines for the same SKU are combined
+export function toReservationLines(items: OrderItem[]): InventoryReservationLine[] {
+  const lines = new Map<string, InventoryReservationLine>()
+  for (const item of items) {
+    const inventoryKey = getInventoryKey(item)
+    const line = lines.get(inventoryKey)
+    if (line) {
+      line.quantity += item.quantity
+    } else {
+      lines.set(inventoryKey, {
+        inventoryKey,
+        productId: item.productId,
+        ...(item.variant ? { variantId: item.variant.id, sku: item.variant.sku } : {}),
+        quantity: item.quantity
+      })
+    }
+  }
+  return Array.from(lines.values())
+}
+
+export function toInventoryReservation(id: string, data: Record<string, any>): InventoryReservation {
+  return {
+    ...data,
+    id,
+    expiresAt: toDate(data.expiresAt)!,
+    createdAt: toDate(data.createdAt)!,
+    updatedAt: toDate(data.updatedAt)!
+  } as InventoryReservation
+}
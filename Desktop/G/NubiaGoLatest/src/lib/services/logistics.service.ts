@@ -1,5 +1,14 @@
-import { apiService } from './api.service'
+import { doc, getDoc } from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { BaseError, ConflictError } from '@/lib/errors'
+import { Address, OrderStatus } from '@/types'
 import { ApiConfiguration } from '@/types/api'
+import { apiService } from './api.service'
+import { packingService } from './packing.service'
+import { storageService } from './storage.service'
+import { subOrderService } from './sub-order.service'
+import { getCarrierLabelAdapter, LabelFormat } from './shipping/carrier-label-adapters'
+import { LocalLabelData, renderPdfLabels, renderZplLabel } from './shipping/label-renderer'
 
 export interface ShippingRate {
   id: string
@@ -58,43 +67,134 @@ export interface ShippingLabel {
   id: string
   trackingNumber: string
   labelUrl: string
-  labelFormat: 'pdf' | 'png' | 'zpl'
+  labelFormat: LabelFormat
   carrier: string
   serviceCode: string
   createdAt: Date
 }
 
+export interface LabelOptions {
+  format?: LabelFormat
+  // Printed on the label and sent to the carrier as the customer reference
+  reference?: string
+  // Order whose tracking page the label's QR code links to
+  orderId?: string
+  // Courier named on locally printed labels
+  courierName?: string
+}
+
+export interface BatchLabelOptions {
+  format?: LabelFormat
+  serviceCode?: string
+  // Same packages for every label; by default each sub-order is packed in the supplier's boxes
+  packages?: ShippingPackage[]
+  // Skip the configured carrier and print local labels for the supplier's own courier
+  useLocalCourier?: boolean
+  courierName?: string
+}
+
+export interface BatchLabelResult {
+  labels: Array<{ subOrderId: string; label: ShippingLabel }>
+  failed: Array<{ subOrderId: string; error: string }>
+  // All printable labels in one file, when any could be combined
+  documentUrl?: string
+  documentFormat?: LabelFormat
+}
+
+interface IssuedLabel {
+  label: ShippingLabel
+  // Label file, when we hold it rather than only a carrier URL
+  content?: Uint8Array
+  localLabel?: LocalLabelData
+}
+
+// Sub-orders in these states are paid for and waiting to be shipped
+const LABEL_READY_STATUSES: OrderStatus[] = ['confirmed', 'processing']
+
+const LOCAL_COURIER_NAME = 'Local courier'
+const LOCAL_SERVICE_CODE = 'LOCAL_DELIVERY'
+
+const LABEL_CONTENT_TYPES: Record<LabelFormat, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  zpl: 'application/x-zpl'
+}
+
+// Carriers that have not quoted by then are skipped for this request
+const RATE_PROVIDER_TIMEOUT_MS = 8000
+
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms)
+    promise.then(
+      value => { clearTimeout(timer); resolve(value) },
+      error => { clearTimeout(timer); reject(error) }
+    )
+  })
+}
+
+// Tracking numbers for locally printed labels: NG, the time in ms and three random digits
+function generateLocalTrackingNumber(): string {
+  const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0')
+  return `NG${Date.now()}${random}`
+}
+
 export class LogisticsService {
   private async getActiveLogisticsApis(): Promise<ApiConfiguration[]> {
     try {
       const allApis = await apiService.getAllApiConfigurations()
-      return allApis.filter(api => api.type === 'logistics' && api.isActive)
+      const activeApis = allApis.filter(api => api.type === 'logistics' && api.isActive)
+
+      // Credentials are stored encrypted; a provider whose credentials can't be
+      // decrypted is left out rather than called with masked values
+      const withCredentials = await Promise.all(activeApis.map(api =>
+        apiService.withCredentials(api).catch(error => {
+          console.error(`Failed to load credentials for ${api.provider}:`, error)
+          return null
+        })
+      ))
+      return withCredentials.filter((api): api is ApiConfiguration => api !== null)
     } catch (error) {
       console.error('Failed to get active logistics APIs:', error)
       return []
     }
   }
 
-  // Get shipping rates from all active logistics APIs
+  // Logistics API used to issue labels: the first active provider, if any
+  async getLabelProvider(): Promise<ApiConfiguration | null> {
+    const activeApis = await this.getActiveLogisticsApis()
+    return activeApis[0] || null
+  }
+
+  // Shared secret a carrier signs its tracking webhooks with, from the active
+  // logistics API configured for that provider
+  async getTrackingWebhookSecret(carrier: string): Promise<string | null> {
+    const activeApis = await this.getActiveLogisticsApis()
+    const api = activeApis.find(candidate => candidate.provider?.toLowerCase() === carrier.toLowerCase())
+    return api?.config?.webhookSecret || null
+  }
+
+  // Get shipping rates from all active logistics APIs at once. A provider that fails
+  // or does not answer within the timeout is left out rather than holding up the rest.
   async getShippingRates(
     fromAddress: ShippingAddress,
     toAddress: ShippingAddress,
-    packages: ShippingPackage[]
+    packages: ShippingPackage[],
+    timeoutMs: number = RATE_PROVIDER_TIMEOUT_MS
   ): Promise<ShippingRate[]> {
     try {
       const activeApis = await this.getActiveLogisticsApis()
-      const allRates: ShippingRate[] = []
-
-      for (const api of activeApis) {
-        try {
-          const rates = await this.getRatesFromProvider(api, fromAddress, toAddress, packages)
-          allRates.push(...rates)
-        } catch (error) {
-          console.error(`Failed to get rates from ${api.provider}:`, error)
-        }
-      }
+      const results = await Promise.all(activeApis.map(api =>
+        withTimeout(this.getRatesFromProvider(api, fromAddress, toAddress, packages), timeoutMs, `${api.provider} rates`)
+          .catch(error => {
+            console.error(`Failed to get rates from ${api.provider}:`, error)
+            return [] as ShippingRate[]
+          })
+      ))
 
-      return allRates.sort((a, b) => a.rate - b.rate)
+      return results
+        .reduce<ShippingRate[]>((all, rates) => all.concat(rates), [])
+        .sort((a, b) => a.rate - b.rate)
     } catch (error) {
       console.error('Failed to get shipping rates:', error)
       throw new Error('Failed to calculate shipping rates')
@@ -208,8 +308,7 @@ export class LogisticsService {
       return rates
     } catch (error) {
       console.error('FedEx rate calculation failed:', error)
-      // Return mock rates as fallback
-      return this.getMockFedExRates()
+      throw error
     }
   }
 
@@ -306,8 +405,7 @@ export class LogisticsService {
       return rates
     } catch (error) {
       console.error('UPS rate calculation failed:', error)
-      // Return mock rates as fallback
-      return this.getMockUPSRates()
+      throw error
     }
   }
 
@@ -380,8 +478,7 @@ export class LogisticsService {
       return rates
     } catch (error) {
       console.error('DHL rate calculation failed:', error)
-      // Return mock rates as fallback
-      return this.getMockDHLRates()
+      throw error
     }
   }
 
@@ -439,16 +536,10 @@ export class LogisticsService {
         }
       }
 
-      // If no rates returned from API, return mock rates
-      if (rates.length === 0) {
-        return this.getMockBagsterRates()
-      }
-
       return rates
     } catch (error) {
       console.error('Bagster rate calculation failed:', error)
-      // Return mock rates as fallback
-      return this.getMockBagsterRates()
+      throw error
     }
   }
 
@@ -481,7 +572,7 @@ export class LogisticsService {
       return data.rates || []
     } catch (error) {
       console.error('Generic rate calculation failed:', error)
-      return []
+      throw error
     }
   }
 
@@ -700,160 +791,247 @@ export class LogisticsService {
     }
   }
 
-  // Generate shipping label
+  // Issue a label for one shipment. With a logistics API the carrier's adapter buys the
+  // label; without one (own fleet, informal couriers) a label is rendered locally with
+  // a generated tracking number. Either way the label file is stored and linked.
   async generateShippingLabel(
-    api: ApiConfiguration,
+    api: ApiConfiguration | null,
     fromAddress: ShippingAddress,
     toAddress: ShippingAddress,
     packages: ShippingPackage[],
-    serviceCode: string
+    serviceCode: string,
+    options: LabelOptions = {}
   ): Promise<ShippingLabel> {
     try {
-      const response = await fetch(`${api.baseUrl}/ship/v1/shipments`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${api.apiKey}`,
-        },
-        body: JSON.stringify({
-          requestedShipment: {
-            shipper: {
-              address: {
-                streetLines: [fromAddress.address1],
-                city: fromAddress.city,
-                stateOrProvinceCode: fromAddress.state,
-                postalCode: fromAddress.postalCode,
-                countryCode: fromAddress.country
-              }
-            },
-            recipient: {
-              address: {
-                streetLines: [toAddress.address1],
-                city: toAddress.city,
-                stateOrProvinceCode: toAddress.state,
-                postalCode: toAddress.postalCode,
-                countryCode: toAddress.country
-              }
-            },
-            requestedPackageLineItems: packages.map(pkg => ({
-              weight: {
-                units: pkg.weightUnit.toUpperCase(),
-                value: pkg.weight
-              },
-              dimensions: {
-                length: pkg.length,
-                width: pkg.width,
-                height: pkg.height,
-                units: pkg.dimensionUnit.toUpperCase()
-              }
-            })),
-            rateRequestType: ['LIST']
+      const issued = await this.issueLabel(api, fromAddress, toAddress, packages, serviceCode, options)
+      return await this.storeLabel(issued)
+    } catch (error) {
+      console.error('Label generation failed:', error)
+      throw new Error('Failed to generate shipping label')
+    }
+  }
+
+  // Print labels for every sub-order of a supplier that is ready to ship and has no
+  // label yet. Each label is saved on its sub-order; labels that can be printed
+  // together are also combined into one file.
+  async generateBatchLabels(supplierId: string, options: BatchLabelOptions = {}): Promise<BatchLabelResult> {
+    const subOrders = (await subOrderService.getSupplierSubOrders(supplierId))
+      .filter(subOrder => LABEL_READY_STATUSES.includes(subOrder.status) && !subOrder.shippingLabel)
+    if (subOrders.length === 0) {
+      return { labels: [], failed: [] }
+    }
+
+    // Without a configured carrier every label is printed for the local courier
+    const api = options.useLocalCourier ? null : await this.getLabelProvider()
+    const fromAddress = await this.getSupplierAddress(supplierId)
+    const result: BatchLabelResult = { labels: [], failed: [] }
+    const printable: IssuedLabel[] = []
+
+    // One at a time: carrier APIs rate-limit label purchases
+    for (const subOrder of subOrders) {
+      try {
+        const issued = await this.issueLabel(
+          api,
+          fromAddress,
+          this.toShippingAddress(subOrder.shippingAddress),
+          options.packages || await packingService.packagesForSubOrder(subOrder),
+          options.serviceCode || (api ? 'STANDARD' : LOCAL_SERVICE_CODE),
+          {
+            format: options.format,
+            courierName: options.courierName,
+            reference: subOrder.id,
+            orderId: subOrder.parentOrderId
           }
+        )
+        const label = await this.storeLabel(issued)
+        await subOrderService.attachShippingLabel(subOrder.id, label)
+        result.labels.push({ subOrderId: subOrder.id, label })
+        printable.push(issued)
+      } catch (error) {
+        console.error(`Label generation failed for sub-order ${subOrder.id}:`, error)
+        result.failed.push({
+          subOrderId: subOrder.id,
+          error: error instanceof BaseError ? error.message : 'Failed to generate shipping label'
         })
-      })
-
-      if (!response.ok) {
-        throw new Error(`Label generation error: ${response.status}`)
       }
+    }
 
-      const data = await response.json()
-      
-      return {
-        id: data.output.shipmentId,
-        trackingNumber: data.output.trackingNumber,
-        labelUrl: data.output.labelUrl,
-        labelFormat: 'pdf',
-        carrier: api.provider || 'Unknown',
-        serviceCode,
-        createdAt: new Date()
+    try {
+      const combined = await this.combineLabels(printable, options.format || 'pdf')
+      if (combined) {
+        const upload = await storageService.uploadShippingLabel(
+          `batches/${supplierId}`,
+          `labels_${Date.now()}.${combined.format}`,
+          combined.content,
+          LABEL_CONTENT_TYPES[combined.format]
+        )
+        result.documentUrl = upload.url
+        result.documentFormat = combined.format
       }
     } catch (error) {
-      console.error('Label generation failed:', error)
-      throw new Error('Failed to generate shipping label')
+      // Every label is still available on its own
+      console.error('Failed to combine batch labels:', error)
     }
+
+    return result
   }
 
-  // Mock data fallbacks
-  private getMockFedExRates(): ShippingRate[] {
-    return [
-      {
-        id: 'fedex-standard',
-        serviceName: 'FedEx Standard',
-        serviceCode: 'FEDEX_STANDARD',
-        carrier: 'FedEx',
-        rate: 15.99,
-        estimatedDays: '3-5 business days',
-        deliveryDays: 4,
-        guaranteedDelivery: false,
-        isAvailable: true,
-        currency: 'USD'
+  // Ship-from address for a supplier, taken from their business profile
+  async getSupplierAddress(supplierId: string): Promise<ShippingAddress> {
+    const supplierDoc = await getDoc(doc(db, 'suppliers', supplierId))
+    const supplier = supplierDoc.exists() ? supplierDoc.data() : undefined
+    const address = supplier?.businessAddress
+    if (!address?.street || !address?.city) {
+      throw new ConflictError('Supplier has no business address on file', { supplierId })
+    }
+
+    return {
+      name: supplier!.businessName || supplier!.ownerName || 'Supplier',
+      address1: address.street,
+      city: address.city,
+      state: address.state || '',
+      postalCode: address.zipCode || '',
+      country: address.country,
+      phone: supplier!.businessPhone
+    }
+  }
+
+  // Customer address book entries use first and last names
+  toShippingAddress(address: Address): ShippingAddress {
+    return {
+      name: `${address.firstName} ${address.lastName}`.trim(),
+      company: address.company,
+      address1: address.address1,
+      address2: address.address2,
+      city: address.city,
+      state: address.state,
+      postalCode: address.postalCode,
+      country: address.country,
+      phone: address.phone
+    }
+  }
+
+  private async issueLabel(
+    api: ApiConfiguration | null,
+    fromAddress: ShippingAddress,
+    toAddress: ShippingAddress,
+    packages: ShippingPackage[],
+    serviceCode: string,
+    options: LabelOptions
+  ): Promise<IssuedLabel> {
+    const format = options.format || 'pdf'
+    const localLabel = (trackingNumber: string, courierName: string): LocalLabelData => ({
+      trackingNumber,
+      courierName,
+      serviceCode,
+      fromAddress,
+      toAddress,
+      packages,
+      reference: options.reference,
+      qrContent: options.orderId
+        ? `${process.env.NEXT_PUBLIC_APP_URL || ''}/order/track/${options.orderId}`
+        : trackingNumber,
+      createdAt: new Date()
+    })
+
+    if (!api) {
+      return this.renderLocalLabel(localLabel(generateLocalTrackingNumber(), options.courierName || LOCAL_COURIER_NAME), format)
+    }
+
+    const adapter = getCarrierLabelAdapter(api.provider)
+    const carrier = api.provider || adapter.carrier
+    const shipment = await adapter.createLabel(api, {
+      fromAddress,
+      toAddress,
+      packages,
+      serviceCode,
+      format,
+      reference: options.reference
+    })
+    if (!shipment.trackingNumber) {
+      throw new Error(`${carrier} returned no tracking number`)
+    }
+
+    // Tracked by the carrier but no label to print, so print our own for their number
+    if (!shipment.labelData && !shipment.labelUrl) {
+      return this.renderLocalLabel(localLabel(shipment.trackingNumber, carrier), format, shipment.shipmentId)
+    }
+
+    return {
+      label: {
+        id: shipment.shipmentId || shipment.trackingNumber,
+        trackingNumber: shipment.trackingNumber,
+        labelUrl: shipment.labelUrl || '',
+        labelFormat: shipment.format,
+        carrier,
+        serviceCode,
+        createdAt: new Date()
       },
-      {
-        id: 'fedex-express',
-        serviceName: 'FedEx Express',
-        serviceCode: 'FEDEX_EXPRESS',
-        carrier: 'FedEx',
-        rate: 25.99,
-        estimatedDays: '1-2 business days',
-        deliveryDays: 2,
-        guaranteedDelivery: true,
-        isAvailable: true,
-        currency: 'USD'
-      }
-    ]
+      content: shipment.labelData ? Uint8Array.from(atob(shipment.labelData), char => char.charCodeAt(0)) : undefined
+    }
   }
 
-  private getMockUPSRates(): ShippingRate[] {
-    return [
-      {
-        id: 'ups-ground',
-        serviceName: 'UPS Ground',
-        serviceCode: 'UPS_GROUND',
-        carrier: 'UPS',
-        rate: 12.99,
-        estimatedDays: '5-7 business days',
-        deliveryDays: 6,
-        guaranteedDelivery: false,
-        isAvailable: true,
-        currency: 'USD'
-      }
-    ]
+  // Local labels come as ZPL or PDF; PNG requests get a PDF
+  private renderLocalLabel(data: LocalLabelData, format: LabelFormat, shipmentId?: string): IssuedLabel {
+    const labelFormat = format === 'zpl' ? 'zpl' : 'pdf'
+    return {
+      label: {
+        id: shipmentId || `local_${data.trackingNumber}`,
+        trackingNumber: data.trackingNumber,
+        labelUrl: '',
+        labelFormat,
+        carrier: data.courierName,
+        serviceCode: data.serviceCode,
+        createdAt: data.createdAt
+      },
+      content: labelFormat === 'zpl' ? new TextEncoder().encode(renderZplLabel(data)) : renderPdfLabels([data]),
+      localLabel: data
+    }
   }
 
-  private getMockDHLRates(): ShippingRate[] {
-    return [
-      {
-        id: 'dhl-express',
-        serviceName: 'DHL Express',
-        serviceCode: 'DHL_EXPRESS',
-        carrier: 'DHL',
-        rate: 35.99,
-        estimatedDays: '2-3 business days',
-        deliveryDays: 3,
-        guaranteedDelivery: true,
-        isAvailable: true,
-        currency: 'USD'
-      }
-    ]
+  // Upload label content we hold and point the label at it
+  private async storeLabel(issued: IssuedLabel): Promise<ShippingLabel> {
+    if (!issued.content) {
+      return issued.label
+    }
+
+    const upload = await storageService.uploadShippingLabel(
+      issued.label.carrier.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+      `${issued.label.trackingNumber}.${issued.label.labelFormat}`,
+      issued.content,
+      LABEL_CONTENT_TYPES[issued.label.labelFormat]
+    )
+    return { ...issued.label, labelUrl: upload.url }
   }
 
-  private getMockBagsterRates(): ShippingRate[] {
-    return [
-      {
-        id: 'bagster-waste-removal',
-        serviceName: 'Waste Removal Service',
-        serviceCode: 'WASTE_REMOVAL',
-        carrier: 'Bagster',
-        rate: 50.00,
-        estimatedDays: '1-3 business days',
-        deliveryDays: 2,
-        guaranteedDelivery: false,
-        isAvailable: true,
-        currency: 'USD'
-      }
-    ]
+  // ZPL labels concatenate into one print job. PDFs can only be merged when we drew
+  // them ourselves; carrier PDFs stay as separate files.
+  private async combineLabels(
+    issued: IssuedLabel[],
+    format: LabelFormat
+  ): Promise<{ content: Uint8Array; format: LabelFormat } | null> {
+    if (format === 'zpl') {
+      const zplLabels = issued.filter(entry => entry.label.labelFormat === 'zpl')
+      if (zplLabels.length === 0) return null
+
+      const parts = await Promise.all(zplLabels.map(async (entry) => {
+        if (entry.content) return new TextDecoder().decode(entry.content)
+        const response = await fetch(entry.label.labelUrl)
+        if (!response.ok) {
+          throw new Error(`Failed to download label ${entry.label.trackingNumber}: ${response.status}`)
+        }
+        return response.text()
+      }))
+      return { content: new TextEncoder().encode(parts.join('\n')), format: 'zpl' }
+    }
+
+    const localLabels = issued
+      .filter(entry => entry.localLabel && entry.label.labelFormat === 'pdf')
+      .map(entry => entry.localLabel!)
+    return localLabels.length > 0 ? { content: renderPdfLabels(localLabels), format: 'pdf' } : null
   }
 
+  // Mock data fallbacks
   private getMockTrackingInfo(trackingNumber: string, carrier: string): TrackingInfo {
     // Handle Bagster specifically since it's for waste removal
     if (carrier.toLowerCase() === 'bagster') {
@@ -1,394 +1,58 @@
-import { create } from 'zustand'
-
-// Types for mobile money payment system
-export interface MobileMoneyOperator {
-  id: string
-  country: string
-  operatorCode: string
-  operatorName: string
-  gatewayProvider: 'flutterwave' | 'paystack' | 'mock'
-  isActive: boolean
-  priority: number
-  logo?: string
-  description?: string
-}
-
-export interface MobileMoneyPaymentRequest {
-  orderId: string
-  amount: number
-  currency: string
-  customerPhone: string
-  customerEmail: string
-  customerName: string
-  operatorCode: string
-  country: string
-  redirectUrl: string
-  webhookUrl: string
-}
-
-export interface PaymentResponse {
-  success: boolean
-  transactionId?: string
-  paymentUrl?: string
-  reference?: string
-  message: string
-  gatewayResponse?: any
-  data?: {
-    paymentId: string
-    paymentUrl?: string
-    transactionId?: string
-  }
-}
-
-export interface MobileMoneyPayment {
-  id: string
-  orderId: string
-  customerId?: string
-  amount: number
-  currency: string
-  operator: string
-  country: string
-  phoneNumber: string
-  gatewayProvider: string
-  gatewayTransactionId?: string
-  status: 'pending' | 'completed' | 'failed' | 'expired'
-  gatewayResponse?: any
-  createdAt: Date
-  updatedAt: Date
-  completedAt?: Date
-  lastVerificationCheck?: Date
-}
-
-// Abstract payment gateway service
-export abstract class PaymentGatewayService {
-  abstract initiateMobileMoneyPayment(request: MobileMoneyPaymentRequest): Promise<PaymentResponse>
-  abstract verifyPayment(transactionId: string): Promise<PaymentResponse>
-  abstract getAvailableOperators(country: string): Promise<MobileMoneyOperator[]>
-}
-
-// Mock implementation for development
-export class MockPaymentGatewayService extends PaymentGatewayService {
-  async initiateMobileMoneyPayment(request: MobileMoneyPaymentRequest): Promise<PaymentResponse> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000))
-    
-    // Generate mock transaction ID
-    const transactionId = `mock_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    
-    // Simulate success/failure (90% success rate for demo)
-    const isSuccess = Math.random() > 0.1
-    
-    if (isSuccess) {
-      return {
-        success: true,
-        transactionId,
-        paymentUrl: `${request.redirectUrl}?tx_ref=${transactionId}`,
-        reference: transactionId,
-        message: 'Payment initiated successfully',
-        data: {
-          paymentId: `pm_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          paymentUrl: `${request.redirectUrl}?tx_ref=${transactionId}`,
-          transactionId
-        },
-        gatewayResponse: {
-          status: 'success',
-          data: {
-            tx_ref: transactionId,
-            link: `${request.redirectUrl}?tx_ref=${transactionId}`
-          }
-        }
-      }
-    } else {
-      return {
-        success: false,
-        message: 'Payment initiation failed - insufficient funds',
-        gatewayResponse: {
-          status: 'error',
-          message: 'Insufficient funds'
-        }
-      }
-    }
-  }
-
-  async verifyPayment(transactionId: string): Promise<PaymentResponse> {
-    await new Promise(resolve => setTimeout(resolve, 500))
-    
-    // Simulate payment verification
-    const statuses: Array<'pending' | 'completed' | 'failed'> = ['pending', 'completed', 'failed']
-    const randomStatus = statuses[Math.floor(Math.random() * statuses.length)]
-    
-    if (randomStatus === 'completed') {
-      return {
-        success: true,
-        transactionId,
-        message: 'Payment completed successfully',
-        gatewayResponse: {
-          status: 'successful',
-          data: {
-            status: 'successful',
-            amount: 1000,
-            currency: 'XAF'
-          }
-        }
-      }
-    } else if (randomStatus === 'failed') {
-      return {
-        success: false,
-        message: 'Payment failed',
-        gatewayResponse: {
-          status: 'failed',
-          data: {
-            status: 'failed'
-          }
-        }
-      }
-    } else {
-      return {
-        success: false,
-        message: 'Payment still pending',
-        gatewayResponse: {
-          status: 'pending',
-          data: {
-            status: 'pending'
-          }
-        }
-      }
-    }
-  }
-
-  async getAvailableOperators(country: string): Promise<MobileMoneyOperator[]> {
-    await new Promise(resolve => setTimeout(resolve, 300))
-    
-    const operators: MobileMoneyOperator[] = []
-    
-    switch (country.toUpperCase()) {
-      case 'CM': // Cameroon
-        operators.push(
-          {
-            id: '1',
-            country: 'CM',
-            operatorCode: 'orange_money_cm',
-            operatorName: 'Orange Money',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 1,
-            logo: '/operators/orange-money.png',
-            description: 'Orange Money Cameroon'
-          },
-          {
-            id: '2',
-            country: 'CM',
-            operatorCode: 'mtn_cm',
-            operatorName: 'MTN Mobile Money',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 2,
-            logo: '/operators/mtn-momo.png',
-            description: 'MTN Mobile Money Cameroon'
-          },
-          {
-            id: '3',
-            country: 'CM',
-            operatorCode: 'express_union',
-            operatorName: 'Express Union Mobile Money',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 3,
-            logo: '/operators/express-union.png',
-            description: 'Express Union Mobile Money'
-          }
-        )
-        break
-        
-      case 'CI': // Côte d'Ivoire
-        operators.push(
-          {
-            id: '4',
-            country: 'CI',
-            operatorCode: 'orange_money_ci',
-            operatorName: 'Orange Money',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 1,
-            logo: '/operators/orange-money.png',
-            description: 'Orange Money Côte d\'Ivoire'
-          },
-          {
-            id: '5',
-            country: 'CI',
-            operatorCode: 'mtn_ci',
-            operatorName: 'MTN Mobile Money',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 2,
-            logo: '/operators/mtn-momo.png',
-            description: 'MTN Mobile Money Côte d\'Ivoire'
-          }
-        )
-        break
-        
-      case 'GH': // Ghana
-        operators.push(
-          {
-            id: '6',
-            country: 'GH',
-            operatorCode: 'mtn_gh',
-            operatorName: 'MTN Mobile Money',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 1,
-            logo: '/operators/mtn-momo.png',
-            description: 'MTN Mobile Money Ghana'
-          },
-          {
-            id: '7',
-            country: 'GH',
-            operatorCode: 'vodafone_gh',
-            operatorName: 'Vodafone Cash',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 2,
-            logo: '/operators/vodafone-cash.png',
-            description: 'Vodafone Cash Ghana'
-          }
-        )
-        break
-        
-      case 'KE': // Kenya
-        operators.push(
-          {
-            id: '8',
-            country: 'KE',
-            operatorCode: 'mpesa',
-            operatorName: 'M-Pesa',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 1,
-            logo: '/operators/m-pesa.png',
-            description: 'Safaricom M-Pesa'
-          },
-          {
-            id: '9',
-            country: 'KE',
-            operatorCode: 'airtel_ke',
-            operatorName: 'Airtel Money',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 2,
-            logo: '/operators/airtel-money.png',
-            description: 'Airtel Money Kenya'
-          }
-        )
-        break
-        
-      case 'UG': // Uganda
-        operators.push(
-          {
-            id: '10',
-            country: 'UG',
-            operatorCode: 'mtn_ug',
-            operatorName: 'MTN Mobile Money',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 1,
-            logo: '/operators/mtn-momo.png',
-            description: 'MTN Mobile Money Uganda'
-          },
-          {
-            id: '11',
-            country: 'UG',
-            operatorCode: 'airtel_ug',
-            operatorName: 'Airtel Money',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 2,
-            logo: '/operators/airtel-money.png',
-            description: 'Airtel Money Uganda'
-          }
-        )
-        break
-        
-      case 'SN': // Senegal
-        operators.push(
-          {
-            id: '12',
-            country: 'SN',
-            operatorCode: 'orange_sn',
-            operatorName: 'Orange Money',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 1,
-            logo: '/operators/orange-money.png',
-            description: 'Orange Money Senegal'
-          },
-          {
-            id: '13',
-            country: 'SN',
-            operatorCode: 'mtn_sn',
-            operatorName: 'MTN Mobile Money',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 2,
-            logo: '/operators/mtn-momo.png',
-            description: 'MTN Mobile Money Senegal'
-          }
-        )
-        break
-        
-      case 'TZ': // Tanzania
-        operators.push(
-          {
-            id: '14',
-            country: 'TZ',
-            operatorCode: 'mpesa_tz',
-            operatorName: 'M-Pesa',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 1,
-            logo: '/operators/m-pesa.png',
-            description: 'Vodacom M-Pesa Tanzania'
-          },
-          {
-            id: '15',
-            country: 'TZ',
-            operatorCode: 'tigo_tz',
-            operatorName: 'Tigo Pesa',
-            gatewayProvider: 'mock',
-            isActive: true,
-            priority: 2,
-            logo: '/operators/tigo-pesa.png',
-            description: 'Tigo Pesa Tanzania'
-          }
-        )
-        break
-        
-      default:
-        // Return empty array for unsupported countries
-        break
-    }
-    
-    return operators.sort((a, b) => a.priority - b.priority)
-  }
-}
-
-// Main mobile money service
+import {
+  MobileMoneyOperator,
+  MobileMoneyPayment,
+  MobileMoneyPaymentRequest,
+  MobileMoneyWebhookEvent,
+  PaymentResponse
+} from './mobile-money/gateway'
+import {
+  MobileMoneyGatewayRegistry,
+  createGatewayRegistryFromEnv
+} from './mobile-money/gateway-registry'
+import { FirestorePaymentStore, MobileMoneyPaymentStore } from './mobile-money/payment-store'
+import { PaymentTransitionResult } from './mobile-money/payment-state-machine'
+
+export type {
+  GatewayPaymentStatus,
+  GatewayWebhookRequest,
+  MobileMoneyGatewayProvider,
+  MobileMoneyOperator,
+  MobileMoneyPayment,
+  MobileMoneyPaymentRequest,
+  MobileMoneyWebhookEvent,
+  PaymentResponse
+} from './mobile-money/gateway'
+export { PaymentGatewayService } from './mobile-money/gateway'
+export { MobileMoneyGatewayRegistry, createGatewayRegistryFromEnv } from './mobile-money/gateway-registry'
+export type { PaymentTransitionResult } from './mobile-money/payment-state-machine'
+export type { MobileMoneyPaymentStore } from './mobile-money/payment-store'
+
+// Main mobile money service. Server-only: payments are stored with firebase-admin, so the
+// browser goes through the /api/mobile-money routes (see src/store/mobile-money.ts).
 export class MobileMoneyService {
-  private gatewayService: PaymentGatewayService
-  private payments: MobileMoneyPayment[] = []
-
-  constructor() {
-    // Use mock service for development
-    this.gatewayService = new MockPaymentGatewayService()
+  // Gateways are picked per operator and country; see gateway-registry.ts
+  constructor(
+    private readonly registry: MobileMoneyGatewayRegistry = createGatewayRegistryFromEnv(),
+    private readonly payments: MobileMoneyPaymentStore = new FirestorePaymentStore()
+  ) {}
+
+  getGateway(provider: MobileMoneyPayment['gatewayProvider']) {
+    return this.registry.get(provider)
   }
 
   async getOperatorsByCountry(country: string): Promise<MobileMoneyOperator[]> {
-    return await this.gatewayService.getAvailableOperators(country)
+    return this.registry.getOperators(country)
   }
 
   async initiatePayment(paymentRequest: MobileMoneyPaymentRequest): Promise<PaymentResponse> {
+    let paymentRecord: MobileMoneyPayment | undefined
+    let gatewayAccepted = false
+
     try {
+      const gatewayService = this.registry.resolve(paymentRequest.operatorCode, paymentRequest.country)
+
       // Create payment record
-      const paymentRecord: MobileMoneyPayment = {
+      paymentRecord = {
         id: `pm_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         orderId: paymentRequest.orderId,
         amount: paymentRequest.amount,
@@ -396,30 +60,39 @@ export class MobileMoneyService {
         operator: paymentRequest.operatorCode,
         country: paymentRequest.country,
         phoneNumber: paymentRequest.customerPhone,
-        gatewayProvider: 'mock', // For now, always mock
+        gatewayProvider: gatewayService.provider,
         status: 'pending',
         createdAt: new Date(),
         updatedAt: new Date()
       }
 
       // Store payment record
-      this.payments.push(paymentRecord)
+      await this.payments.create(paymentRecord)
 
-      // Initiate payment with gateway
-      const gatewayResponse = await this.gatewayService.initiateMobileMoneyPayment(paymentRequest)
+      // Initiate payment with gateway; the provider tag routes its webhooks back to it
+      const webhookUrl = new URL(paymentRequest.webhookUrl)
+      webhookUrl.searchParams.set('provider', gatewayService.provider)
+      const gatewayResponse = await gatewayService.initiateMobileMoneyPayment({
+        ...paymentRequest,
+        webhookUrl: webhookUrl.toString()
+      })
 
       if (gatewayResponse.success) {
+        gatewayAccepted = true
         // Update payment record with gateway details
-        paymentRecord.gatewayTransactionId = gatewayResponse.transactionId
-        paymentRecord.gatewayResponse = gatewayResponse.gatewayResponse
-        paymentRecord.updatedAt = new Date()
+        await this.payments.update(paymentRecord.id, {
+          gatewayTransactionId: gatewayResponse.transactionId,
+          gatewayResponse: gatewayResponse.gatewayResponse
+        })
 
         return {
           success: true,
+          status: gatewayResponse.status,
           data: {
             paymentId: paymentRecord.id,
             paymentUrl: gatewayResponse.paymentUrl,
-            transactionId: gatewayResponse.transactionId
+            transactionId: gatewayResponse.transactionId,
+            gatewayProvider: paymentRecord.gatewayProvider
           },
           transactionId: gatewayResponse.transactionId,
           paymentUrl: gatewayResponse.paymentUrl,
@@ -429,61 +102,134 @@ export class MobileMoneyService {
         }
       } else {
         // Mark payment as failed
-        paymentRecord.status = 'failed'
-        paymentRecord.updatedAt = new Date()
+        await this.payments.transition(paymentRecord.id, 'failed', {
+          reason: gatewayResponse.message,
+          gatewayResponse: gatewayResponse.gatewayResponse
+        })
 
         return {
           success: false,
+          status: 'failed',
           message: gatewayResponse.message
         }
       }
     } catch (error) {
       console.error('Payment initiation failed:', error)
+      // Gateway errors (timeouts, outages) leave no payment pending at the operator
+      if (paymentRecord && !gatewayAccepted) {
+        await this.payments.transition(paymentRecord.id, 'failed', {
+          reason: error instanceof Error ? error.message : 'Payment initiation failed'
+        }).catch(storeError => console.error(`Failed to mark payment ${paymentRecord!.id} as failed:`, storeError))
+      }
       return {
         success: false,
+        status: 'failed',
         message: error instanceof Error ? error.message : 'Payment initiation failed'
       }
     }
   }
 
   async getPaymentStatus(paymentId: string): Promise<MobileMoneyPayment | null> {
-    const payment = this.payments.find(p => p.id === paymentId)
+    const payment = await this.payments.get(paymentId)
     if (!payment) return null
 
     // If payment is still pending, verify with gateway
     if (payment.status === 'pending' && payment.gatewayTransactionId) {
-      await this.verifyPendingPayment(payment)
+      return this.verifyPendingPayment(payment)
     }
 
     return payment
   }
 
-  async verifyPendingPayment(payment: MobileMoneyPayment): Promise<void> {
+  // Ask the gateway about a pending payment and record the outcome. Returns the payment
+  // as stored afterwards.
+  async verifyPendingPayment(payment: MobileMoneyPayment): Promise<MobileMoneyPayment> {
     try {
       // Update last verification check
-      payment.lastVerificationCheck = new Date()
-      payment.updatedAt = new Date()
+      await this.payments.update(payment.id, { lastVerificationCheck: new Date() })
 
-      const verification = await this.gatewayService.verifyPayment(payment.gatewayTransactionId!)
+      const gatewayService = this.registry.get(payment.gatewayProvider)
+      if (!gatewayService) {
+        console.error(`Gateway ${payment.gatewayProvider} is not configured; cannot verify payment ${payment.id}`)
+        return payment
+      }
 
-      if (verification.success && verification.gatewayResponse?.data?.status === 'successful') {
-        // Payment completed
-        payment.status = 'completed'
-        payment.completedAt = new Date()
-        payment.updatedAt = new Date()
-        payment.gatewayResponse = verification.gatewayResponse
+      const verification = await gatewayService.verifyPayment(payment.gatewayTransactionId!, payment)
 
-        console.log(`Payment ${payment.id} completed via verification`)
+      if (verification.status === 'completed') {
+        // Payment completed
+        const outcome = await this.payments.transition(payment.id, 'completed', { gatewayResponse: verification.gatewayResponse })
+        if (outcome.result === 'applied') {
+          console.log(`Payment ${payment.id} completed via verification`)
+        }
+        return outcome.payment || payment
+      } else if (verification.status === 'failed') {
+        // Declined or cancelled by the payer or operator
+        const outcome = await this.payments.transition(payment.id, 'failed', {
+          reason: verification.message,
+          gatewayResponse: verification.gatewayResponse
+        })
+        if (outcome.result === 'applied') {
+          console.log(`Payment ${payment.id} failed via verification: ${verification.message}`)
+        }
+        return outcome.payment || payment
       } else if (this.isPaymentExpired(payment)) {
-        // Mark as expired if too old
-        payment.status = 'expired'
-        payment.updatedAt = new Date()
-        
-        console.log(`Payment ${payment.id} marked as expired`)
+        return this.expirePayment(payment)
       }
     } catch (error) {
       console.error(`Failed to verify payment ${payment.id}:`, error)
     }
+    return payment
+  }
+
+  // Stop waiting for a pending payment. A payer who approves it later can still complete it.
+  async expirePayment(payment: MobileMoneyPayment): Promise<MobileMoneyPayment> {
+    const outcome = await this.payments.transition(payment.id, 'expired')
+    if (outcome.result === 'applied') {
+      console.log(`Payment ${payment.id} marked as expired`)
+    }
+    return outcome.payment || payment
+  }
+
+  async findPaymentByTransactionId(
+    provider: MobileMoneyPayment['gatewayProvider'],
+    transactionId: string
+  ): Promise<MobileMoneyPayment | null> {
+    return this.payments.findByTransactionId(provider, transactionId)
+  }
+
+  // Apply a verified gateway webhook through the payment state machine.
+  // Pending events carry no state change and leave the payment as it is. If the gateway
+  // doesn't sign the webhook body, the status applied is the one verifyPayment reports,
+  // so a forged or replayed body can't complete or fail a payment.
+  async applyWebhookEvent(
+    event: MobileMoneyWebhookEvent
+  ): Promise<{ payment: MobileMoneyPayment | null; result: PaymentTransitionResult }> {
+    const payment = await this.findPaymentByTransactionId(event.provider, event.transactionId)
+    if (!payment || event.status === 'pending') {
+      return { payment, result: 'unchanged' }
+    }
+
+    let update = { status: event.status, reason: event.reason, gatewayResponse: event.payload }
+    const gatewayService = this.registry.get(event.provider)
+    if (!gatewayService?.signsWebhookBody) {
+      if (!gatewayService) {
+        throw new Error(`Gateway ${event.provider} is not configured; cannot confirm webhook for payment ${payment.id}`)
+      }
+
+      const verification = await gatewayService.verifyPayment(payment.gatewayTransactionId!, payment)
+      if (verification.status !== 'completed' && verification.status !== 'failed') {
+        console.warn(`Gateway still reports payment ${payment.id} as pending; ignoring ${event.status} webhook`)
+        return { payment, result: 'unchanged' }
+      }
+      update = { status: verification.status, reason: verification.message, gatewayResponse: verification.gatewayResponse }
+    }
+
+    const outcome = await this.payments.transition(payment.id, update.status, {
+      reason: update.reason,
+      gatewayResponse: update.gatewayResponse
+    })
+    return { payment: outcome.payment || payment, result: outcome.result }
   }
 
   private isPaymentExpired(payment: MobileMoneyPayment): boolean {
@@ -492,129 +238,21 @@ export class MobileMoneyService {
   }
 
   async getAllPayments(): Promise<MobileMoneyPayment[]> {
-    return this.payments
+    return this.payments.list()
   }
 
   async getPaymentsByStatus(status: MobileMoneyPayment['status']): Promise<MobileMoneyPayment[]> {
-    return this.payments.filter(p => p.status === status)
+    return this.payments.list({ status })
   }
 
   async getPaymentsByCountry(country: string): Promise<MobileMoneyPayment[]> {
-    return this.payments.filter(p => p.country === country)
+    return this.payments.list({ country })
   }
 
   async getPaymentsByOperator(operator: string): Promise<MobileMoneyPayment[]> {
-    return this.payments.filter(p => p.operator === operator)
+    return this.payments.list({ operator })
   }
 }
 
 // Create singleton instance
 export const mobileMoneyService = new MobileMoneyService()
-
-// Zustand store for mobile money payments
-interface MobileMoneyState {
-  payments: MobileMoneyPayment[]
-  operators: MobileMoneyOperator[]
-  selectedCountry: string
-  selectedOperator: string
-  isLoading: boolean
-  error: string | null
-}
-
-interface MobileMoneyActions {
-  setPayments: (payments: MobileMoneyPayment[]) => void
-  addPayment: (payment: MobileMoneyPayment) => void
-  updatePayment: (id: string, updates: Partial<MobileMoneyPayment>) => void
-  setOperators: (operators: MobileMoneyOperator[]) => void
-  setSelectedCountry: (country: string) => void
-  setSelectedOperator: (operator: string) => void
-  setLoading: (loading: boolean) => void
-  setError: (error: string | null) => void
-  clearError: () => void
-  fetchOperators: (country: string) => Promise<void>
-  initiatePayment: (request: MobileMoneyPaymentRequest) => Promise<PaymentResponse>
-  getPaymentStatus: (paymentId: string) => Promise<MobileMoneyPayment | null>
-}
-
-export const useMobileMoneyStore = create<MobileMoneyState & MobileMoneyActions>((set, get) => ({
-  payments: [],
-  operators: [],
-  selectedCountry: '',
-  selectedOperator: '',
-  isLoading: false,
-  error: null,
-
-  setPayments: (payments) => set({ payments }),
-  addPayment: (payment) => set((state) => ({ payments: [...state.payments, payment] })),
-  updatePayment: (id, updates) => set((state) => ({
-    payments: state.payments.map(p => p.id === id ? { ...p, ...updates } : p)
-  })),
-  setOperators: (operators) => set({ operators }),
-  setSelectedCountry: (country) => set({ selectedCountry: country }),
-  setSelectedOperator: (operator) => set({ selectedOperator: operator }),
-  setLoading: (loading) => set({ isLoading: loading }),
-  setError: (error) => set({ error }),
-  clearError: () => set({ error: null }),
-
-  fetchOperators: async (country: string) => {
-    set({ isLoading: true, error: null })
-    try {
-      const operators = await mobileMoneyService.getOperatorsByCountry(country)
-      set({ operators, selectedCountry: country })
-      if (operators.length > 0) {
-        set({ selectedOperator: operators[0].operatorCode })
-      }
-    } catch (error) {
-      set({ error: error instanceof Error ? error.message : 'Failed to fetch operators' })
-    } finally {
-      set({ isLoading: false })
-    }
-  },
-
-  initiatePayment: async (request: MobileMoneyPaymentRequest) => {
-    set({ isLoading: true, error: null })
-    try {
-      const response = await mobileMoneyService.initiatePayment(request)
-      if (response.success && response.data) {
-        // Add payment to store
-        const payment: MobileMoneyPayment = {
-          id: response.data.paymentId,
-          orderId: request.orderId,
-          amount: request.amount,
-          currency: request.currency,
-          operator: request.operatorCode,
-          country: request.country,
-          phoneNumber: request.customerPhone,
-          gatewayProvider: 'mock',
-          status: 'pending',
-          createdAt: new Date(),
-          updatedAt: new Date()
-        }
-        get().addPayment(payment)
-      }
-      return response
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Payment initiation failed'
-      set({ error: errorMessage })
-      return {
-        success: false,
-        message: errorMessage
-      }
-    } finally {
-      set({ isLoading: false })
-    }
-  },
-
-  getPaymentStatus: async (paymentId: string) => {
-    try {
-      const payment = await mobileMoneyService.getPaymentStatus(paymentId)
-      if (payment) {
-        get().updatePayment(paymentId, payment)
-      }
-      return payment
-    } catch (error) {
-      set({ error: error instanceof Error ? error.message : 'Failed to get payment status' })
-      return null
-    }
-  }
-}))
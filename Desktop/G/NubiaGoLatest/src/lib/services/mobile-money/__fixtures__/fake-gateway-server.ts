@@ -0,0 +1,236 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http'
+import { AddressInfo } from 'node:net'
+import {
+  SandboxScenario,
+  sandboxInitiationOutcome,
+  sandboxStatusOnCheck
+} from '../sandbox-scenarios'
+
+// Local stand-in for the Flutterwave, MTN MoMo and Orange Money APIs, for integration
+// tests of the real gateway adapters (see ../__tests__). Outcomes follow sandbox-scenarios.ts.
+//
+//   const server = await startFakeGatewayServer()
+//   const gateway = new FlutterwaveGatewayService({ secretKey: 'test', baseUrl: server.url })
+//   ...
+//   await server.close()
+//
+// Orange Money's web payment API does not receive the payer's number, so only the
+// amount drives its outcome. The 'timeout' scenario delays the response by
+// FAKE_TIMEOUT_DELAY_MS, so give the adapter a shorter timeoutMs.
+
+export const FAKE_TIMEOUT_DELAY_MS = 2000
+
+export interface FakeGatewayServer {
+  url: string
+  close(): Promise<void>
+}
+
+interface FakeTransaction {
+  scenario: SandboxScenario
+  checks: number
+  amount: number
+  currency: string
+  externalId: string
+}
+
+const sendJson = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+const readBody = (req: IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let raw = ''
+    req.on('data', chunk => { raw += chunk })
+    req.on('end', () => {
+      if (!raw) return resolve({})
+      if ((req.headers['content-type'] || '').includes('application/x-www-form-urlencoded')) {
+        return resolve(Object.fromEntries(new URLSearchParams(raw)))
+      }
+      try {
+        resolve(JSON.parse(raw))
+      } catch (error) {
+        reject(error)
+      }
+    })
+    req.on('error', reject)
+  })
+
+const hasBearer = (req: IncomingMessage) => (req.headers.authorization || '').startsWith('Bearer ')
+
+export function startFakeGatewayServer(port = 0): Promise<FakeGatewayServer> {
+  const transactions = new Map<string, FakeTransaction>()
+  const pendingTimers = new Set<NodeJS.Timeout>()
+
+  const delay = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(() => {
+      pendingTimers.delete(timer)
+      resolve()
+    }, ms)
+    pendingTimers.add(timer)
+  })
+
+  const nextStatus = (transaction: FakeTransaction) => {
+    transaction.checks++
+    return sandboxStatusOnCheck(transaction.scenario, transaction.checks)
+  }
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`)
+    const path = url.pathname
+    const body = req.method === 'POST' ? await readBody(req) : {}
+
+    // Token endpoints (MTN MoMo, Orange Money)
+    if (req.method === 'POST' && (path === '/collection/token/' || path === '/oauth/v3/token')) {
+      if (!(req.headers.authorization || '').startsWith('Basic ')) {
+        return sendJson(res, 401, { error: 'invalid_client' })
+      }
+      return sendJson(res, 200, { access_token: 'fake-access-token', token_type: 'Bearer', expires_in: 3600 })
+    }
+
+    if (!hasBearer(req)) {
+      return sendJson(res, 401, { message: 'Unauthorized' })
+    }
+
+    // Flutterwave: POST /v3/charges?type=...
+    if (req.method === 'POST' && path === '/v3/charges') {
+      const outcome = sandboxInitiationOutcome(String(body.phone_number || ''), Number(body.amount))
+      if (outcome.scenario === 'timeout') await delay(FAKE_TIMEOUT_DELAY_MS)
+      if (!outcome.accepted) {
+        return sendJson(res, 400, { status: 'error', message: outcome.reason, data: null })
+      }
+      transactions.set(body.tx_ref, {
+        scenario: outcome.scenario,
+        checks: 0,
+        amount: Number(body.amount),
+        currency: body.currency,
+        externalId: body.tx_ref
+      })
+      return sendJson(res, 200, {
+        status: 'success',
+        message: 'Charge initiated',
+        data: { tx_ref: body.tx_ref, status: 'pending' },
+        meta: { authorization: { mode: 'redirect', redirect: `${url.origin}/pay/${body.tx_ref}` } }
+      })
+    }
+
+    // Flutterwave: GET /v3/transactions/verify_by_reference?tx_ref=...
+    if (req.method === 'GET' && path === '/v3/transactions/verify_by_reference') {
+      const txRef = url.searchParams.get('tx_ref') || ''
+      const transaction = transactions.get(txRef)
+      if (!transaction) {
+        return sendJson(res, 404, { status: 'error', message: 'No transaction was found for this id', data: null })
+      }
+      const { status, reason } = nextStatus(transaction)
+      return sendJson(res, 200, {
+        status: 'success',
+        message: 'Transaction fetched successfully',
+        data: {
+          id: 1,
+          tx_ref: txRef,
+          status: status === 'completed' ? 'successful' : status,
+          amount: transaction.amount,
+          currency: transaction.currency,
+          processor_response: reason
+        }
+      })
+    }
+
+    // MTN MoMo: POST /collection/v1_0/requesttopay
+    if (req.method === 'POST' && path === '/collection/v1_0/requesttopay') {
+      const referenceId = String(req.headers['x-reference-id'] || '')
+      if (!referenceId || !req.headers['x-target-environment']) {
+        return sendJson(res, 400, { code: 'INVALID_REQUEST', message: 'Missing reference id or target environment' })
+      }
+      const outcome = sandboxInitiationOutcome(String(body.payer?.partyId || ''), Number(body.amount))
+      if (outcome.scenario === 'timeout') await delay(FAKE_TIMEOUT_DELAY_MS)
+      if (!outcome.accepted) {
+        return sendJson(res, 409, { code: 'PAYER_LIMIT_REACHED', message: outcome.reason })
+      }
+      transactions.set(referenceId, {
+        scenario: outcome.scenario,
+        checks: 0,
+        amount: Number(body.amount),
+        currency: body.currency,
+        externalId: body.externalId
+      })
+      return sendJson(res, 202)
+    }
+
+    // MTN MoMo: GET /collection/v1_0/requesttopay/{referenceId}
+    const mtnStatus = path.match(/^\/collection\/v1_0\/requesttopay\/([^/]+)$/)
+    if (req.method === 'GET' && mtnStatus) {
+      const transaction = transactions.get(decodeURIComponent(mtnStatus[1]))
+      if (!transaction) {
+        return sendJson(res, 404, { code: 'RESOURCE_NOT_FOUND', message: 'Requested resource was not found.' })
+      }
+      const { status, reason } = nextStatus(transaction)
+      return sendJson(res, 200, {
+        amount: String(transaction.amount),
+        currency: transaction.currency,
+        externalId: transaction.externalId,
+        status: status === 'completed' ? 'SUCCESSFUL' : status === 'failed' ? 'FAILED' : 'PENDING',
+        reason: reason ? { code: 'APPROVAL_REJECTED', message: reason } : undefined
+      })
+    }
+
+    // Orange Money: POST /orange-money-webpay/{country}/v1/webpayment
+    if (req.method === 'POST' && /^\/orange-money-webpay\/[^/]+\/v1\/webpayment$/.test(path)) {
+      const outcome = sandboxInitiationOutcome('', Number(body.amount))
+      if (!outcome.accepted) {
+        return sendJson(res, 400, { code: 1, message: outcome.reason, description: outcome.reason })
+      }
+      const payToken = `pt_${body.order_id}`
+      transactions.set(payToken, {
+        scenario: outcome.scenario,
+        checks: 0,
+        amount: Number(body.amount),
+        currency: body.currency,
+        externalId: body.order_id
+      })
+      return sendJson(res, 201, {
+        status: 201,
+        message: 'OK',
+        pay_token: payToken,
+        payment_url: `${url.origin}/webpayment/${payToken}`,
+        notif_token: `nt_${body.order_id}`
+      })
+    }
+
+    // Orange Money: POST /orange-money-webpay/{country}/v1/transactionstatus
+    if (req.method === 'POST' && /^\/orange-money-webpay\/[^/]+\/v1\/transactionstatus$/.test(path)) {
+      const transaction = transactions.get(body.pay_token)
+      if (!transaction || transaction.externalId !== body.order_id) {
+        return sendJson(res, 404, { code: 404, message: 'Transaction not found' })
+      }
+      const { status } = nextStatus(transaction)
+      return sendJson(res, 201, {
+        status: status === 'completed' ? 'SUCCESS' : status === 'failed' ? 'FAILED' : 'PENDING',
+        order_id: transaction.externalId,
+        txnid: `MP${transaction.externalId}`
+      })
+    }
+
+    return sendJson(res, 404, { message: `No fake route for ${req.method} ${path}` })
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(error => sendJson(res, 500, { message: String(error) }))
+  })
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, '127.0.0.1', () => {
+      const { port: boundPort } = server.address() as AddressInfo
+      resolve({
+        url: `http://127.0.0.1:${boundPort}`,
+        close: () => new Promise<void>((resolveClose, rejectClose) => {
+          pendingTimers.forEach(timer => clearTimeout(timer))
+          pendingTimers.clear()
+          server.closeAllConnections?.()
+          server.close(error => (error ? rejectClose(error) : resolveClose()))
+        })
+      })
+    })
+  })
+}
@@ -0,0 +1,57 @@
+import { MobileMoneyPayment } from '../gateway'
+import { MobileMoneyPaymentStatus, PaymentTransitionResult, transitionPayment } from '../payment-state-machine'
+import { MobileMoneyPaymentStore } from '../payment-store'
+
+// Payment store kept in memory, so MobileMoneyService can be tested without Firestore.
+// Records are copied in and out, like documents, so callers can't change them in place.
+export class InMemoryPaymentStore implements MobileMoneyPaymentStore {
+  private readonly payments = new Map<string, MobileMoneyPayment>()
+
+  async create(payment: MobileMoneyPayment): Promise<void> {
+    this.payments.set(payment.id, { ...payment })
+  }
+
+  async get(paymentId: string): Promise<MobileMoneyPayment | null> {
+    const payment = this.payments.get(paymentId)
+    return payment ? { ...payment } : null
+  }
+
+  async findByTransactionId(
+    provider: MobileMoneyPayment['gatewayProvider'],
+    transactionId: string
+  ): Promise<MobileMoneyPayment | null> {
+    const payment = Array.from(this.payments.values())
+      .find(p => p.gatewayProvider === provider && p.gatewayTransactionId === transactionId)
+    return payment ? { ...payment } : null
+  }
+
+  async update(paymentId: string, updates: Partial<MobileMoneyPayment>): Promise<void> {
+    const payment = this.payments.get(paymentId)
+    if (payment) {
+      this.payments.set(paymentId, { ...payment, ...updates, updatedAt: new Date() })
+    }
+  }
+
+  async transition(
+    paymentId: string,
+    to: MobileMoneyPaymentStatus,
+    details: { reason?: string; gatewayResponse?: any } = {}
+  ): Promise<{ payment: MobileMoneyPayment | null; result: PaymentTransitionResult }> {
+    const payment = await this.get(paymentId)
+    if (!payment) {
+      return { payment: null, result: 'unchanged' }
+    }
+
+    const result = transitionPayment(payment, to, details)
+    if (result === 'applied') {
+      this.payments.set(paymentId, { ...payment })
+    }
+    return { payment, result }
+  }
+
+  async list(filter: Partial<Pick<MobileMoneyPayment, 'status' | 'country' | 'operator'>> = {}): Promise<MobileMoneyPayment[]> {
+    return Array.from(this.payments.values())
+      .filter(p => Object.entries(filter).every(([field, value]) => p[field as keyof MobileMoneyPayment] === value))
+      .map(p => ({ ...p }))
+  }
+}
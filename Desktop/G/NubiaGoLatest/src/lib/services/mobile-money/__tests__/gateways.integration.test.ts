@@ -0,0 +1,281 @@
+/**
+ * @jest-environment node
+ */
+import { APIError } from '@/lib/errors'
+import { MobileMoneyService } from '../../mobile-money.service'
+import { FakeGatewayServer, FAKE_TIMEOUT_DELAY_MS, startFakeGatewayServer } from '../__fixtures__/fake-gateway-server'
+import { InMemoryPaymentStore } from '../__fixtures__/in-memory-payment-store'
+import { FlutterwaveGatewayService } from '../flutterwave.gateway'
+import { MobileMoneyPayment, MobileMoneyPaymentRequest, MobileMoneyWebhookEvent, PaymentResponse } from '../gateway'
+import { MobileMoneyGatewayRegistry } from '../gateway-registry'
+import { MtnMomoGatewayService } from '../mtn-momo.gateway'
+import { OrangeMoneyGatewayService } from '../orange-money.gateway'
+import { SANDBOX_AMOUNT_LIMIT } from '../sandbox-scenarios'
+
+const paymentRequest = (overrides: Partial<MobileMoneyPaymentRequest> = {}): MobileMoneyPaymentRequest => ({
+  orderId: `order-${Math.random().toString(36).slice(2)}`,
+  amount: 5000,
+  currency: 'XAF',
+  customerPhone: '+237 6 7000 0001',
+  customerEmail: 'buyer@example.com',
+  customerName: 'Test Buyer',
+  operatorCode: 'mtn_cm',
+  country: 'CM',
+  redirectUrl: 'https://shop.example.com/checkout/complete',
+  webhookUrl: 'https://shop.example.com/api/mobile-money/webhook?provider=test',
+  ...overrides
+})
+
+// The stored payment as the service would keep it after a successful initiation
+const storedPayment = (
+  request: MobileMoneyPaymentRequest,
+  response: PaymentResponse,
+  overrides: Partial<MobileMoneyPayment> = {}
+): MobileMoneyPayment => ({
+  id: `payment-${request.orderId}`,
+  orderId: request.orderId,
+  amount: request.amount,
+  currency: request.currency,
+  operator: request.operatorCode,
+  country: request.country,
+  phoneNumber: request.customerPhone,
+  gatewayProvider: 'flutterwave',
+  gatewayTransactionId: response.transactionId,
+  gatewayResponse: response.gatewayResponse,
+  status: 'pending',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+})
+
+describe('mobile money gateway adapters against the fake gateway server', () => {
+  let server: FakeGatewayServer
+
+  beforeAll(async () => {
+    server = await startFakeGatewayServer()
+  })
+
+  afterAll(async () => {
+    await server.close()
+  })
+
+  describe('FlutterwaveGatewayService', () => {
+    let gateway: FlutterwaveGatewayService
+
+    beforeEach(() => {
+      gateway = new FlutterwaveGatewayService({ secretKey: 'test-secret', baseUrl: server.url, timeoutMs: 500 })
+    })
+
+    it('initiates a charge and confirms it on the first status check', async () => {
+      const request = paymentRequest()
+      const initiated = await gateway.initiateMobileMoneyPayment(request)
+
+      expect(initiated).toMatchObject({ success: true, status: 'pending' })
+      expect(initiated.paymentUrl).toContain(`/pay/${initiated.transactionId}`)
+
+      const verified = await gateway.verifyPayment(initiated.transactionId!, storedPayment(request, initiated))
+      expect(verified).toMatchObject({ success: true, status: 'completed' })
+    })
+
+    it('reports a charge rejected at initiation as failed', async () => {
+      const initiated = await gateway.initiateMobileMoneyPayment(paymentRequest({ customerPhone: '+237 6 7000 0002' }))
+
+      expect(initiated).toMatchObject({ success: false, status: 'failed', message: 'Insufficient funds' })
+    })
+
+    it('stays pending until the payer approves', async () => {
+      const request = paymentRequest({ customerPhone: '+237 6 7000 0003' })
+      const initiated = await gateway.initiateMobileMoneyPayment(request)
+      const payment = storedPayment(request, initiated)
+
+      expect((await gateway.verifyPayment(initiated.transactionId!, payment)).status).toBe('pending')
+      expect((await gateway.verifyPayment(initiated.transactionId!, payment)).status).toBe('completed')
+    })
+
+    it('reports a declined payment with the processor reason', async () => {
+      const request = paymentRequest({ customerPhone: '+237 6 7000 0004' })
+      const initiated = await gateway.initiateMobileMoneyPayment(request)
+
+      const verified = await gateway.verifyPayment(initiated.transactionId!, storedPayment(request, initiated))
+      expect(verified).toMatchObject({ success: false, status: 'failed', message: 'Payment declined by customer' })
+    })
+
+    it('fails a successful charge for a different amount than the payment', async () => {
+      const request = paymentRequest()
+      const initiated = await gateway.initiateMobileMoneyPayment(request)
+
+      const verified = await gateway.verifyPayment(
+        initiated.transactionId!,
+        storedPayment(request, initiated, { amount: request.amount + 1000 })
+      )
+      expect(verified).toMatchObject({ success: false, status: 'failed' })
+      expect(verified.message).toContain('does not match')
+    })
+
+    it('fails a successful charge in a different currency than the payment', async () => {
+      const request = paymentRequest()
+      const initiated = await gateway.initiateMobileMoneyPayment(request)
+
+      const verified = await gateway.verifyPayment(
+        initiated.transactionId!,
+        storedPayment(request, initiated, { currency: 'GHS' })
+      )
+      expect(verified).toMatchObject({ success: false, status: 'failed' })
+    })
+
+    it('turns a gateway timeout into a 504 APIError', async () => {
+      expect(FAKE_TIMEOUT_DELAY_MS).toBeGreaterThan(500)
+
+      const attempt = gateway.initiateMobileMoneyPayment(paymentRequest({ customerPhone: '+237 6 7000 0006' }))
+      await expect(attempt).rejects.toBeInstanceOf(APIError)
+      await expect(attempt).rejects.toMatchObject({ statusCode: 504 })
+    })
+  })
+
+  describe('MtnMomoGatewayService', () => {
+    let gateway: MtnMomoGatewayService
+
+    beforeEach(() => {
+      gateway = new MtnMomoGatewayService({
+        subscriptionKey: 'test-subscription',
+        apiUser: 'test-user',
+        apiKey: 'test-key',
+        targetEnvironment: 'sandbox',
+        countries: ['CM'],
+        callbackSecret: 'test-callback-secret',
+        baseUrl: server.url,
+        timeoutMs: 500
+      })
+    })
+
+    it('requests payment and confirms it once approved', async () => {
+      const initiated = await gateway.initiateMobileMoneyPayment(paymentRequest({ customerPhone: '+237 6 7000 0003' }))
+
+      expect(initiated).toMatchObject({ success: true, status: 'pending' })
+      expect((await gateway.verifyPayment(initiated.transactionId!)).status).toBe('pending')
+      expect((await gateway.verifyPayment(initiated.transactionId!)).status).toBe('completed')
+    })
+
+    it('reports a request to pay refused by the operator as failed', async () => {
+      const initiated = await gateway.initiateMobileMoneyPayment(paymentRequest({ customerPhone: '+237 6 7000 0002' }))
+
+      expect(initiated).toMatchObject({ success: false, status: 'failed', message: 'Insufficient funds' })
+    })
+
+    it('reports the reason a payment was declined', async () => {
+      const initiated = await gateway.initiateMobileMoneyPayment(paymentRequest({ customerPhone: '+237 6 7000 0004' }))
+
+      expect(await gateway.verifyPayment(initiated.transactionId!)).toMatchObject({
+        success: false,
+        status: 'failed',
+        message: 'Payment declined by customer'
+      })
+    })
+
+    it('throws a 404 APIError for an unknown reference', async () => {
+      await expect(gateway.verifyPayment('unknown-reference')).rejects.toMatchObject({ statusCode: 404 })
+    })
+  })
+
+  describe('OrangeMoneyGatewayService', () => {
+    let gateway: OrangeMoneyGatewayService
+
+    beforeEach(() => {
+      gateway = new OrangeMoneyGatewayService({
+        clientId: 'test-client',
+        clientSecret: 'test-secret',
+        merchantKey: 'test-merchant',
+        countryPaths: { CM: 'dev' },
+        callbackSecret: 'test-callback-secret',
+        baseUrl: server.url,
+        timeoutMs: 500
+      })
+    })
+
+    it('creates a web payment and confirms it with the stored pay token', async () => {
+      const request = paymentRequest({ operatorCode: 'orange_money_cm' })
+      const initiated = await gateway.initiateMobileMoneyPayment(request)
+
+      expect(initiated).toMatchObject({ success: true, status: 'pending' })
+      expect(initiated.paymentUrl).toContain('/webpayment/')
+
+      const payment = storedPayment(request, initiated, { gatewayProvider: 'orange_money' })
+      const verified = await gateway.verifyPayment(initiated.transactionId!, payment)
+      expect(verified).toMatchObject({ success: true, status: 'completed' })
+      // The pay token is kept so later checks still work
+      expect(verified.gatewayResponse.pay_token).toBe(initiated.gatewayResponse.pay_token)
+    })
+
+    it('rejects amounts above the transaction limit at initiation', async () => {
+      const initiated = await gateway.initiateMobileMoneyPayment(
+        paymentRequest({ operatorCode: 'orange_money_cm', amount: SANDBOX_AMOUNT_LIMIT + 1 })
+      )
+
+      expect(initiated).toMatchObject({ success: false, status: 'failed', message: 'Transaction limit exceeded' })
+    })
+
+    it('needs the stored pay token to check a payment', async () => {
+      await expect(gateway.verifyPayment('unknown-order')).rejects.toMatchObject({ statusCode: 400 })
+    })
+  })
+
+  describe('webhooks without a body signature', () => {
+    let service: MobileMoneyService
+
+    beforeEach(() => {
+      const mtn = new MtnMomoGatewayService({
+        subscriptionKey: 'test-subscription',
+        apiUser: 'test-user',
+        apiKey: 'test-key',
+        targetEnvironment: 'sandbox',
+        countries: ['CM'],
+        callbackSecret: 'test-callback-secret',
+        baseUrl: server.url,
+        timeoutMs: 500
+      })
+      service = new MobileMoneyService(new MobileMoneyGatewayRegistry([mtn]), new InMemoryPaymentStore())
+    })
+
+    // What a forged callback with a valid ?ref=&sig= for the payment would carry
+    const forgedCompletion = (transactionId: string): MobileMoneyWebhookEvent => ({
+      provider: 'mtn_momo',
+      eventId: `${transactionId}:SUCCESSFUL`,
+      transactionId,
+      status: 'completed',
+      payload: { status: 'SUCCESSFUL' }
+    })
+
+    it('applies the status the gateway reports rather than the one in the body', async () => {
+      const initiated = await service.initiatePayment(paymentRequest({ customerPhone: '+237 6 7000 0004' }))
+
+      const { payment, result } = await service.applyWebhookEvent(forgedCompletion(initiated.transactionId!))
+      expect(result).toBe('applied')
+      expect(payment).toMatchObject({ status: 'failed', failureReason: 'Payment declined by customer' })
+    })
+
+    it('keeps a failed payment failed when the webhook is delivered again', async () => {
+      const initiated = await service.initiatePayment(paymentRequest({ customerPhone: '+237 6 7000 0004' }))
+      await service.applyWebhookEvent(forgedCompletion(initiated.transactionId!))
+
+      const { payment, result } = await service.applyWebhookEvent(forgedCompletion(initiated.transactionId!))
+      expect(result).toBe('unchanged')
+      expect(await service.getPaymentStatus(payment!.id)).toMatchObject({ status: 'failed' })
+    })
+
+    it('leaves the payment pending while the gateway has not settled it', async () => {
+      const initiated = await service.initiatePayment(paymentRequest({ customerPhone: '+237 6 7000 0005' }))
+
+      const { payment, result } = await service.applyWebhookEvent(forgedCompletion(initiated.transactionId!))
+      expect(result).toBe('unchanged')
+      expect(payment?.status).toBe('pending')
+    })
+
+    it('completes the payment once the gateway confirms it', async () => {
+      const initiated = await service.initiatePayment(paymentRequest({ customerPhone: '+237 6 7000 0001' }))
+
+      const { payment, result } = await service.applyWebhookEvent(forgedCompletion(initiated.transactionId!))
+      expect(result).toBe('applied')
+      expect(payment?.status).toBe('completed')
+    })
+  })
+})
@@ -0,0 +1,198 @@
+import { APIError } from '@/lib/errors'
+import {
+  GatewayPaymentStatus,
+  GatewayWebhookRequest,
+  MobileMoneyPayment,
+  MobileMoneyPaymentRequest,
+  MobileMoneyWebhookEvent,
+  PaymentGatewayService,
+  PaymentResponse,
+  parseWebhookBody,
+  toMsisdn
+} from './gateway'
+import { gatewayRequest } from './http-client'
+import { safeEqual } from '@/lib/security/hmac'
+
+export interface FlutterwaveConfig {
+  secretKey: string
+  // "Secret hash" set in the Flutterwave dashboard, sent back in the verif-hash header
+  webhookHash?: string
+  baseUrl?: string
+  timeoutMs?: number
+}
+
+// Flutterwave charge type per country
+const CHARGE_TYPES: Record<string, string> = {
+  GH: 'mobile_money_ghana',
+  UG: 'mobile_money_uganda',
+  KE: 'mpesa',
+  TZ: 'mobile_money_tanzania',
+  RW: 'mobile_money_rwanda',
+  ZM: 'mobile_money_zambia',
+  CM: 'mobile_money_franco',
+  CI: 'mobile_money_franco',
+  SN: 'mobile_money_franco'
+}
+
+// Network codes for charge types that need one
+const NETWORKS: Record<string, string> = {
+  mtn_gh: 'MTN',
+  vodafone_gh: 'VODAFONE',
+  mtn_ug: 'MTN',
+  airtel_ug: 'AIRTEL',
+  mpesa_tz: 'VODAFONE',
+  tigo_tz: 'TIGO'
+}
+
+interface FlutterwaveChargeResponse {
+  status: 'success' | 'error'
+  message: string
+  data?: { id?: number; tx_ref: string; status: string }
+  meta?: { authorization?: { mode: string; redirect?: string; note?: string } }
+}
+
+interface FlutterwaveVerifyResponse {
+  status: 'success' | 'error'
+  message: string
+  data?: { id: number; tx_ref: string; status: string; amount: number; currency: string; processor_response?: string }
+}
+
+// Flutterwave v3 mobile money charges (hosted redirect or USSD push depending on country)
+export class FlutterwaveGatewayService extends PaymentGatewayService {
+  readonly provider = 'flutterwave' as const
+  private readonly baseUrl: string
+
+  constructor(private readonly config: FlutterwaveConfig) {
+    super()
+    this.baseUrl = (config.baseUrl || 'https://api.flutterwave.com').replace(/\/$/, '')
+  }
+
+  supports(_operatorCode: string, country: string): boolean {
+    return !!CHARGE_TYPES[country.toUpperCase()]
+  }
+
+  async initiateMobileMoneyPayment(request: MobileMoneyPaymentRequest): Promise<PaymentResponse> {
+    const country = request.country.toUpperCase()
+    const chargeType = CHARGE_TYPES[country]
+    const txRef = `nubia_${request.orderId}_${Date.now()}`
+
+    try {
+      const { data } = await gatewayRequest<FlutterwaveChargeResponse>(
+        `${this.baseUrl}/v3/charges?type=${chargeType}`,
+        {
+          method: 'POST',
+          headers: this.headers(),
+          timeoutMs: this.config.timeoutMs,
+          body: {
+            tx_ref: txRef,
+            amount: request.amount,
+            currency: request.currency,
+            email: request.customerEmail,
+            phone_number: toMsisdn(request.customerPhone),
+            fullname: request.customerName,
+            network: NETWORKS[request.operatorCode],
+            country: chargeType === 'mobile_money_franco' ? country : undefined,
+            redirect_url: request.redirectUrl,
+            meta: { orderId: request.orderId, operatorCode: request.operatorCode }
+          }
+        }
+      )
+
+      if (data.status !== 'success') {
+        return { success: false, status: 'failed', message: data.message, gatewayResponse: data }
+      }
+
+      const paymentUrl = data.meta?.authorization?.redirect
+      return {
+        success: true,
+        status: this.mapStatus(data.data?.status),
+        transactionId: txRef,
+        paymentUrl,
+        reference: txRef,
+        message: data.meta?.authorization?.note || data.message,
+        gatewayResponse: data
+      }
+    } catch (error) {
+      if (error instanceof APIError && error.statusCode === 400) {
+        const response = error.context?.response
+        return {
+          success: false,
+          status: 'failed',
+          message: response?.message || 'Payment initiation failed',
+          gatewayResponse: response
+        }
+      }
+      throw error
+    }
+  }
+
+  async verifyPayment(transactionId: string, payment?: MobileMoneyPayment): Promise<PaymentResponse> {
+    const { data } = await gatewayRequest<FlutterwaveVerifyResponse>(
+      `${this.baseUrl}/v3/transactions/verify_by_reference?tx_ref=${encodeURIComponent(transactionId)}`,
+      { headers: this.headers(), timeoutMs: this.config.timeoutMs }
+    )
+
+    const status = this.mapStatus(data.data?.status)
+    // Flutterwave reports a charge as successful whatever amount was actually paid, so a
+    // success only completes the payment if it is for the amount and currency we asked for
+    if (status === 'completed' && payment && !this.matchesPayment(data.data!, payment)) {
+      return {
+        success: false,
+        status: 'failed',
+        transactionId,
+        message: `Paid ${data.data!.currency} ${data.data!.amount} does not match the expected ${payment.currency} ${payment.amount}`,
+        gatewayResponse: data
+      }
+    }
+
+    return {
+      success: status === 'completed',
+      status,
+      transactionId,
+      message: status === 'failed'
+        ? data.data?.processor_response || 'Payment failed'
+        : status === 'completed' ? 'Payment completed successfully' : 'Payment still pending',
+      gatewayResponse: data
+    }
+  }
+
+  async verifyWebhook(request: GatewayWebhookRequest): Promise<boolean> {
+    return safeEqual(request.headers.get('verif-hash'), this.config.webhookHash)
+  }
+
+  parseWebhookEvent(request: GatewayWebhookRequest): MobileMoneyWebhookEvent | null {
+    const body = parseWebhookBody(request.rawBody)
+    const data = body?.data
+    if (!data?.tx_ref || !data.status) return null
+
+    return {
+      provider: this.provider,
+      eventId: `${data.id ?? data.tx_ref}:${data.status}`,
+      transactionId: data.tx_ref,
+      status: this.mapStatus(data.status),
+      reason: data.processor_response,
+      payload: body
+    }
+  }
+
+  private matchesPayment(verified: NonNullable<FlutterwaveVerifyResponse['data']>, payment: MobileMoneyPayment): boolean {
+    return (verified.currency || '').toUpperCase() === payment.currency.toUpperCase() &&
+      Math.round(Number(verified.amount) * 100) === Math.round(payment.amount * 100)
+  }
+
+  private headers(): Record<string, string> {
+    return { Authorization: `Bearer ${this.config.secretKey}` }
+  }
+
+  private mapStatus(status?: string): GatewayPaymentStatus {
+    switch ((status || '').toLowerCase()) {
+      case 'successful':
+        return 'completed'
+      case 'failed':
+      case 'cancelled':
+        return 'failed'
+      default:
+        return 'pending'
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { PaymentError } from '@/lib/errors'
+import { FlutterwaveGatewayService } from './flutterwave.gateway'
+import {
+  MobileMoneyGatewayProvider,
+  MobileMoneyOperator,
+  PaymentGatewayService
+} from './gateway'
+import { MtnMomoGatewayService } from './mtn-momo.gateway'
+import { OPERATOR_GATEWAY_ROUTES, getCatalogOperators } from './operators'
+import { OrangeMoneyGatewayService } from './orange-money.gateway'
+import { SandboxPaymentGatewayService } from './sandbox.gateway'
+
+// Picks the gateway for an operator/country pair. In sandbox mode every operator is
+// routed to the sandbox gateway; otherwise the first configured gateway in the
+// operator's preference list (OPERATOR_GATEWAY_ROUTES) that supports the country wins.
+export class MobileMoneyGatewayRegistry {
+  private gateways = new Map<MobileMoneyGatewayProvider, PaymentGatewayService>()
+
+  constructor(gateways: PaymentGatewayService[] = [], private readonly sandboxMode = false) {
+    gateways.forEach(gateway => this.register(gateway))
+  }
+
+  register(gateway: PaymentGatewayService): void {
+    this.gateways.set(gateway.provider, gateway)
+  }
+
+  get(provider: MobileMoneyGatewayProvider): PaymentGatewayService | undefined {
+    return this.gateways.get(provider)
+  }
+
+  isSandbox(): boolean {
+    return this.sandboxMode
+  }
+
+  // Resolve the gateway for an operator, or throw if none is configured for it
+  resolve(operatorCode: string, country: string): PaymentGatewayService {
+    const gateway = this.find(operatorCode, country)
+    if (!gateway) {
+      throw new PaymentError(
+        `No payment gateway available for ${operatorCode} in ${country}`,
+        'mobile_money',
+        { operatorCode, country }
+      )
+    }
+    return gateway
+  }
+
+  // Operators for a country that have a gateway able to collect for them
+  getOperators(country: string): MobileMoneyOperator[] {
+    return getCatalogOperators(country).flatMap(operator => {
+      const gateway = this.find(operator.operatorCode, operator.country)
+      return gateway ? [{ ...operator, gatewayProvider: gateway.provider }] : []
+    })
+  }
+
+  private find(operatorCode: string, country: string): PaymentGatewayService | undefined {
+    if (this.sandboxMode) {
+      const sandbox = this.gateways.get('sandbox')
+      return sandbox?.supports(operatorCode, country) ? sandbox : undefined
+    }
+
+    for (const provider of OPERATOR_GATEWAY_ROUTES[operatorCode] || []) {
+      const gateway = this.gateways.get(provider)
+      if (gateway?.supports(operatorCode, country)) {
+        return gateway
+      }
+    }
+    return undefined
+  }
+}
+
+const parseCountries = (value: string | undefined, fallback: string[]) =>
+  value ? value.split(',').map(country => country.trim().toUpperCase()).filter(Boolean) : fallback
+
+// Build the registry from environment configuration.
+// MOBILE_MONEY_MODE=sandbox forces the sandbox; outside production the sandbox is also
+// used when no live gateway has credentials.
+export function createGatewayRegistryFromEnv(env: NodeJS.ProcessEnv = process.env): MobileMoneyGatewayRegistry {
+  const timeoutMs = env.MOBILE_MONEY_GATEWAY_TIMEOUT_MS ? Number(env.MOBILE_MONEY_GATEWAY_TIMEOUT_MS) : undefined
+  const live: PaymentGatewayService[] = []
+
+  if (env.FLUTTERWAVE_SECRET_KEY) {
+    live.push(new FlutterwaveGatewayService({
+      secretKey: env.FLUTTERWAVE_SECRET_KEY,
+      webhookHash: env.FLUTTERWAVE_WEBHOOK_HASH,
+      baseUrl: env.FLUTTERWAVE_BASE_URL,
+      timeoutMs
+    }))
+  }
+
+  if (env.MTN_MOMO_SUBSCRIPTION_KEY && env.MTN_MOMO_API_USER && env.MTN_MOMO_API_KEY) {
+    live.push(new MtnMomoGatewayService({
+      subscriptionKey: env.MTN_MOMO_SUBSCRIPTION_KEY,
+      apiUser: env.MTN_MOMO_API_USER,
+      apiKey: env.MTN_MOMO_API_KEY,
+      targetEnvironment: env.MTN_MOMO_TARGET_ENVIRONMENT || 'sandbox',
+      countries: parseCountries(env.MTN_MOMO_COUNTRIES, ['CM', 'CI', 'GH', 'UG']),
+      callbackSecret: env.MTN_MOMO_CALLBACK_SECRET,
+      baseUrl: env.MTN_MOMO_BASE_URL,
+      timeoutMs
+    }))
+  }
+
+  if (env.ORANGE_MONEY_CLIENT_ID && env.ORANGE_MONEY_CLIENT_SECRET && env.ORANGE_MONEY_MERCHANT_KEY) {
+    const countries = parseCountries(env.ORANGE_MONEY_COUNTRIES, ['CM', 'CI', 'SN'])
+    live.push(new OrangeMoneyGatewayService({
+      clientId: env.ORANGE_MONEY_CLIENT_ID,
+      clientSecret: env.ORANGE_MONEY_CLIENT_SECRET,
+      merchantKey: env.ORANGE_MONEY_MERCHANT_KEY,
+      countryPaths: Object.fromEntries(countries.map(country => [country, country.toLowerCase()])),
+      callbackSecret: env.ORANGE_MONEY_CALLBACK_SECRET,
+      baseUrl: env.ORANGE_MONEY_BASE_URL,
+      timeoutMs
+    }))
+  }
+
+  const sandboxMode = env.MOBILE_MONEY_MODE === 'sandbox' ||
+    (env.MOBILE_MONEY_MODE !== 'live' && live.length === 0 && env.NODE_ENV !== 'production')
+
+  return new MobileMoneyGatewayRegistry(
+    sandboxMode ? [new SandboxPaymentGatewayService(env.MOBILE_MONEY_SANDBOX_WEBHOOK_SECRET)] : live,
+    sandboxMode
+  )
+}
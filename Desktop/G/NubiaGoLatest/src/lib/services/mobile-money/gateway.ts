@@ -0,0 +1,123 @@
+// Types and the gateway contract for mobile money payments.
+// Re-exported from mobile-money.service.ts, which is the public entry point.
+
+export type MobileMoneyGatewayProvider = 'flutterwave' | 'mtn_momo' | 'orange_money' | 'sandbox'
+
+export interface MobileMoneyOperator {
+  id: string
+  country: string
+  operatorCode: string
+  operatorName: string
+  gatewayProvider: MobileMoneyGatewayProvider
+  isActive: boolean
+  priority: number
+  logo?: string
+  description?: string
+}
+
+export interface MobileMoneyPaymentRequest {
+  orderId: string
+  amount: number
+  currency: string
+  customerPhone: string
+  customerEmail: string
+  customerName: string
+  operatorCode: string
+  country: string
+  redirectUrl: string
+  webhookUrl: string
+}
+
+export type GatewayPaymentStatus = 'pending' | 'completed' | 'failed'
+
+export interface PaymentResponse {
+  success: boolean
+  // Normalized gateway status; set by initiation and verification responses
+  status?: GatewayPaymentStatus
+  transactionId?: string
+  paymentUrl?: string
+  reference?: string
+  message: string
+  gatewayResponse?: any
+  data?: {
+    paymentId: string
+    paymentUrl?: string
+    transactionId?: string
+    gatewayProvider?: MobileMoneyGatewayProvider
+  }
+}
+
+export interface MobileMoneyPayment {
+  id: string
+  orderId: string
+  customerId?: string
+  amount: number
+  currency: string
+  operator: string
+  country: string
+  phoneNumber: string
+  gatewayProvider: MobileMoneyGatewayProvider
+  gatewayTransactionId?: string
+  status: 'pending' | 'completed' | 'failed' | 'expired'
+  gatewayResponse?: any
+  failureReason?: string
+  createdAt: Date
+  updatedAt: Date
+  completedAt?: Date
+  lastVerificationCheck?: Date
+}
+
+// Incoming webhook as received by the route handler
+export interface GatewayWebhookRequest {
+  url: string
+  headers: Headers
+  rawBody: string
+}
+
+// Gateway webhook normalized to a payment status change
+export interface MobileMoneyWebhookEvent {
+  provider: MobileMoneyGatewayProvider
+  // Stable across redeliveries of the same notification; used to reject replays
+  eventId: string
+  transactionId: string
+  status: GatewayPaymentStatus
+  reason?: string
+  payload: any
+}
+
+// Abstract payment gateway service
+export abstract class PaymentGatewayService {
+  abstract readonly provider: MobileMoneyGatewayProvider
+
+  // Whether verifyWebhook authenticates the whole body. When it doesn't (a signed callback
+  // URL, a static shared header), the status in the body is confirmed with verifyPayment
+  // before it is applied.
+  readonly signsWebhookBody: boolean = false
+
+  // Whether this gateway can collect for the operator in the given country
+  abstract supports(operatorCode: string, country: string): boolean
+
+  abstract initiateMobileMoneyPayment(request: MobileMoneyPaymentRequest): Promise<PaymentResponse>
+
+  // The stored payment is passed along for gateways that need more than the transaction id
+  abstract verifyPayment(transactionId: string, payment?: MobileMoneyPayment): Promise<PaymentResponse>
+
+  // Whether the webhook really comes from the gateway. Gateways without a configured
+  // webhook secret reject every webhook and rely on status polling instead.
+  abstract verifyWebhook(request: GatewayWebhookRequest): Promise<boolean>
+
+  // Normalize a verified webhook; null for events that don't concern a payment status
+  abstract parseWebhookEvent(request: GatewayWebhookRequest): MobileMoneyWebhookEvent | null
+}
+
+// Strip formatting from a phone number, keeping the international digits only
+export const toMsisdn = (phone: string) => phone.replace(/\D/g, '')
+
+// Parse a webhook body, returning null instead of throwing on malformed JSON
+export const parseWebhookBody = (rawBody: string): any => {
+  try {
+    return JSON.parse(rawBody)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,78 @@
+import { APIError } from '@/lib/errors'
+
+export interface GatewayRequestOptions {
+  method?: 'GET' | 'POST'
+  headers?: Record<string, string>
+  // Objects are sent as JSON; URLSearchParams as a form body
+  body?: Record<string, unknown> | URLSearchParams
+  timeoutMs?: number
+}
+
+export interface GatewayHttpResponse<T> {
+  status: number
+  data: T
+}
+
+const DEFAULT_TIMEOUT_MS = 15000
+
+// Call a payment gateway API. Non-2xx responses and timeouts become APIErrors
+// carrying the gateway's response body in their context.
+export async function gatewayRequest<T = any>(
+  url: string,
+  options: GatewayRequestOptions = {}
+): Promise<GatewayHttpResponse<T>> {
+  const method = options.method || 'GET'
+  const headers: Record<string, string> = { Accept: 'application/json', ...options.headers }
+  let body: string | undefined
+
+  if (options.body instanceof URLSearchParams) {
+    headers['Content-Type'] = 'application/x-www-form-urlencoded'
+    body = options.body.toString()
+  } else if (options.body) {
+    headers['Content-Type'] = 'application/json'
+    body = JSON.stringify(options.body)
+  }
+
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs || DEFAULT_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(url, { method, headers, body, signal: controller.signal })
+    const text = await response.text()
+    let data: any = text
+    try {
+      data = text ? JSON.parse(text) : null
+    } catch {
+      // Some endpoints answer with plain text; keep it as is
+    }
+
+    if (!response.ok) {
+      throw new APIError(
+        `Gateway responded with ${response.status}`,
+        url,
+        method,
+        response.status,
+        { response: data }
+      )
+    }
+
+    return { status: response.status, data: data as T }
+  } catch (error) {
+    if (error instanceof APIError) {
+      throw error
+    }
+    // Our own abort is the only timeout; the abort error's class depends on the fetch implementation
+    const timedOut = controller.signal.aborted
+    throw new APIError(
+      timedOut ? 'Gateway request timed out' : 'Gateway request failed',
+      url,
+      method,
+      timedOut ? 504 : 502,
+      { cause: error instanceof Error ? error.message : String(error) }
+    )
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+export const basicAuth = (username: string, password: string) => `Basic ${btoa(`${username}:${password}`)}`
@@ -0,0 +1,180 @@
+import { APIError } from '@/lib/errors'
+import {
+  GatewayPaymentStatus,
+  GatewayWebhookRequest,
+  MobileMoneyPaymentRequest,
+  MobileMoneyWebhookEvent,
+  PaymentGatewayService,
+  PaymentResponse,
+  parseWebhookBody,
+  toMsisdn
+} from './gateway'
+import { basicAuth, gatewayRequest } from './http-client'
+import { signCallbackUrl, verifyCallbackUrl } from './webhook-signature'
+
+export interface MtnMomoConfig {
+  subscriptionKey: string
+  apiUser: string
+  apiKey: string
+  // 'sandbox' or the market name MTN assigns, e.g. 'mtncameroon'
+  targetEnvironment: string
+  countries: string[]
+  // MTN doesn't sign callbacks, so the callback URL carries an HMAC of the reference id
+  callbackSecret?: string
+  baseUrl?: string
+  timeoutMs?: number
+}
+
+interface MtnRequestToPayStatus {
+  amount: string
+  currency: string
+  externalId: string
+  status: 'PENDING' | 'SUCCESSFUL' | 'FAILED'
+  reason?: string | { code: string; message?: string }
+  financialTransactionId?: string
+}
+
+// Refresh the access token a minute before MTN expires it
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000
+
+// MTN MoMo Collections API: request-to-pay, approved by the payer on their handset
+export class MtnMomoGatewayService extends PaymentGatewayService {
+  readonly provider = 'mtn_momo' as const
+  private readonly baseUrl: string
+  private token: { value: string; expiresAt: number } | null = null
+
+  constructor(private readonly config: MtnMomoConfig) {
+    super()
+    this.baseUrl = (config.baseUrl || 'https://sandbox.momodeveloper.mtn.com').replace(/\/$/, '')
+  }
+
+  supports(operatorCode: string, country: string): boolean {
+    return operatorCode.startsWith('mtn_') && this.config.countries.includes(country.toUpperCase())
+  }
+
+  async initiateMobileMoneyPayment(request: MobileMoneyPaymentRequest): Promise<PaymentResponse> {
+    const referenceId = crypto.randomUUID()
+    const callbackUrl = this.config.callbackSecret
+      ? await signCallbackUrl(request.webhookUrl, this.config.callbackSecret, referenceId)
+      : request.webhookUrl
+
+    try {
+      await gatewayRequest(`${this.baseUrl}/collection/v1_0/requesttopay`, {
+        method: 'POST',
+        timeoutMs: this.config.timeoutMs,
+        headers: {
+          ...(await this.headers()),
+          'X-Reference-Id': referenceId,
+          'X-Callback-Url': callbackUrl
+        },
+        body: {
+          amount: String(request.amount),
+          currency: request.currency,
+          externalId: request.orderId,
+          payer: { partyIdType: 'MSISDN', partyId: toMsisdn(request.customerPhone) },
+          payerMessage: `Payment for order ${request.orderId}`,
+          payeeNote: `Order ${request.orderId}`
+        }
+      })
+    } catch (error) {
+      if (error instanceof APIError && error.statusCode >= 400 && error.statusCode < 500) {
+        const response = error.context?.response
+        return {
+          success: false,
+          status: 'failed',
+          message: response?.message || 'Payment request was rejected',
+          gatewayResponse: response
+        }
+      }
+      throw error
+    }
+
+    // 202 Accepted: the payer now gets a prompt on their phone
+    return {
+      success: true,
+      status: 'pending',
+      transactionId: referenceId,
+      reference: referenceId,
+      message: 'Approve the payment prompt on your phone to complete the order',
+      gatewayResponse: { referenceId, externalId: request.orderId }
+    }
+  }
+
+  async verifyPayment(transactionId: string): Promise<PaymentResponse> {
+    const { data } = await gatewayRequest<MtnRequestToPayStatus>(
+      `${this.baseUrl}/collection/v1_0/requesttopay/${encodeURIComponent(transactionId)}`,
+      { headers: await this.headers(), timeoutMs: this.config.timeoutMs }
+    )
+
+    const status = this.mapStatus(data.status)
+    const reason = typeof data.reason === 'string' ? data.reason : data.reason?.message || data.reason?.code
+    return {
+      success: status === 'completed',
+      status,
+      transactionId,
+      message: status === 'failed'
+        ? reason || 'Payment failed'
+        : status === 'completed' ? 'Payment completed successfully' : 'Payment still pending',
+      gatewayResponse: data
+    }
+  }
+
+  async verifyWebhook(request: GatewayWebhookRequest): Promise<boolean> {
+    if (!this.config.callbackSecret) return false
+    return !!(await verifyCallbackUrl(request.url, this.config.callbackSecret))
+  }
+
+  parseWebhookEvent(request: GatewayWebhookRequest): MobileMoneyWebhookEvent | null {
+    const body = parseWebhookBody(request.rawBody) as MtnRequestToPayStatus | null
+    const referenceId = new URL(request.url).searchParams.get('ref')
+    if (!body?.status || !referenceId) return null
+
+    const reason = typeof body.reason === 'string' ? body.reason : body.reason?.message || body.reason?.code
+    return {
+      provider: this.provider,
+      eventId: `${referenceId}:${body.status}`,
+      transactionId: referenceId,
+      status: this.mapStatus(body.status),
+      reason,
+      payload: body
+    }
+  }
+
+  private async headers(): Promise<Record<string, string>> {
+    return {
+      Authorization: `Bearer ${await this.getAccessToken()}`,
+      'X-Target-Environment': this.config.targetEnvironment,
+      'Ocp-Apim-Subscription-Key': this.config.subscriptionKey
+    }
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value
+    }
+
+    const { data } = await gatewayRequest<{ access_token: string; expires_in: number }>(
+      `${this.baseUrl}/collection/token/`,
+      {
+        method: 'POST',
+        timeoutMs: this.config.timeoutMs,
+        headers: {
+          Authorization: basicAuth(this.config.apiUser, this.config.apiKey),
+          'Ocp-Apim-Subscription-Key': this.config.subscriptionKey
+        }
+      }
+    )
+
+    this.token = {
+      value: data.access_token,
+      expiresAt: Date.now() + data.expires_in * 1000 - TOKEN_EXPIRY_MARGIN_MS
+    }
+    return data.access_token
+  }
+
+  private mapStatus(status: MtnRequestToPayStatus['status']): GatewayPaymentStatus {
+    if (status === 'SUCCESSFUL') return 'completed'
+    if (status === 'FAILED') return 'failed'
+    return 'pending'
+  }
+}
@@ -0,0 +1,185 @@
+import { MobileMoneyGatewayProvider, MobileMoneyOperator } from './gateway'
+
+// Operators we accept, independent of which gateway collects for them
+export const MOBILE_MONEY_OPERATORS: Array<Omit<MobileMoneyOperator, 'gatewayProvider'>> = [
+  {
+    id: '1',
+    country: 'CM',
+    operatorCode: 'orange_money_cm',
+    operatorName: 'Orange Money',
+    isActive: true,
+    priority: 1,
+    logo: '/operators/orange-money.png',
+    description: 'Orange Money Cameroon'
+  },
+  {
+    id: '2',
+    country: 'CM',
+    operatorCode: 'mtn_cm',
+    operatorName: 'MTN Mobile Money',
+    isActive: true,
+    priority: 2,
+    logo: '/operators/mtn-momo.png',
+    description: 'MTN Mobile Money Cameroon'
+  },
+  {
+    id: '3',
+    country: 'CM',
+    operatorCode: 'express_union',
+    operatorName: 'Express Union Mobile Money',
+    isActive: true,
+    priority: 3,
+    logo: '/operators/express-union.png',
+    description: 'Express Union Mobile Money'
+  },
+  {
+    id: '4',
+    country: 'CI',
+    operatorCode: 'orange_money_ci',
+    operatorName: 'Orange Money',
+    isActive: true,
+    priority: 1,
+    logo: '/operators/orange-money.png',
+    description: 'Orange Money Côte d\'Ivoire'
+  },
+  {
+    id: '5',
+    country: 'CI',
+    operatorCode: 'mtn_ci',
+    operatorName: 'MTN Mobile Money',
+    isActive: true,
+    priority: 2,
+    logo: '/operators/mtn-momo.png',
+    description: 'MTN Mobile Money Côte d\'Ivoire'
+  },
+  {
+    id: '6',
+    country: 'GH',
+    operatorCode: 'mtn_gh',
+    operatorName: 'MTN Mobile Money',
+    isActive: true,
+    priority: 1,
+    logo: '/operators/mtn-momo.png',
+    description: 'MTN Mobile Money Ghana'
+  },
+  {
+    id: '7',
+    country: 'GH',
+    operatorCode: 'vodafone_gh',
+    operatorName: 'Vodafone Cash',
+    isActive: true,
+    priority: 2,
+    logo: '/operators/vodafone-cash.png',
+    description: 'Vodafone Cash Ghana'
+  },
+  {
+    id: '8',
+    country: 'KE',
+    operatorCode: 'mpesa',
+    operatorName: 'M-Pesa',
+    isActive: true,
+    priority: 1,
+    logo: '/operators/m-pesa.png',
+    description: 'Safaricom M-Pesa'
+  },
+  {
+    id: '9',
+    country: 'KE',
+    operatorCode: 'airtel_ke',
+    operatorName: 'Airtel Money',
+    isActive: true,
+    priority: 2,
+    logo: '/operators/airtel-money.png',
+    description: 'Airtel Money Kenya'
+  },
+  {
+    id: '10',
+    country: 'UG',
+    operatorCode: 'mtn_ug',
+    operatorName: 'MTN Mobile Money',
+    isActive: true,
+    priority: 1,
+    logo: '/operators/mtn-momo.png',
+    description: 'MTN Mobile Money Uganda'
+  },
+  {
+    id: '11',
+    country: 'UG',
+    operatorCode: 'airtel_ug',
+    operatorName: 'Airtel Money',
+    isActive: true,
+    priority: 2,
+    logo: '/operators/airtel-money.png',
+    description: 'Airtel Money Uganda'
+  },
+  {
+    id: '12',
+    country: 'SN',
+    operatorCode: 'orange_sn',
+    operatorName: 'Orange Money',
+    isActive: true,
+    priority: 1,
+    logo: '/operators/orange-money.png',
+    description: 'Orange Money Senegal'
+  },
+  {
+    id: '13',
+    country: 'SN',
+    operatorCode: 'mtn_sn',
+    operatorName: 'MTN Mobile Money',
+    isActive: true,
+    priority: 2,
+    logo: '/operators/mtn-momo.png',
+    description: 'MTN Mobile Money Senegal'
+  },
+  {
+    id: '14',
+    country: 'TZ',
+    operatorCode: 'mpesa_tz',
+    operatorName: 'M-Pesa',
+    isActive: true,
+    priority: 1,
+    logo: '/operators/m-pesa.png',
+    description: 'Vodacom M-Pesa Tanzania'
+  },
+  {
+    id: '15',
+    country: 'TZ',
+    operatorCode: 'tigo_tz',
+    operatorName: 'Tigo Pesa',
+    isActive: true,
+    priority: 2,
+    logo: '/operators/tigo-pesa.png',
+    description: 'Tigo Pesa Tanzania'
+  }
+]
+
+// Gateways able to collect for each operator, in order of preference.
+// The sandbox gateway is not listed: in sandbox mode it serves every operator.
+export const OPERATOR_GATEWAY_ROUTES: Record<string, Array<Exclude<MobileMoneyGatewayProvider, 'sandbox'>>> = {
+  orange_money_cm: ['orange_money', 'flutterwave'],
+  mtn_cm: ['mtn_momo', 'flutterwave'],
+  express_union: ['flutterwave'],
+  orange_money_ci: ['orange_money', 'flutterwave'],
+  mtn_ci: ['mtn_momo', 'flutterwave'],
+  mtn_gh: ['mtn_momo', 'flutterwave'],
+  vodafone_gh: ['flutterwave'],
+  mpesa: ['flutterwave'],
+  airtel_ke: ['flutterwave'],
+  mtn_ug: ['mtn_momo', 'flutterwave'],
+  airtel_ug: ['flutterwave'],
+  orange_sn: ['orange_money', 'flutterwave'],
+  mtn_sn: ['flutterwave'],
+  mpesa_tz: ['flutterwave'],
+  tigo_tz: ['flutterwave']
+}
+
+export function getCatalogOperators(country: string): Array<Omit<MobileMoneyOperator, 'gatewayProvider'>> {
+  return MOBILE_MONEY_OPERATORS
+    .filter(operator => operator.country === country.toUpperCase() && operator.isActive)
+    .sort((a, b) => a.priority - b.priority)
+}
+
+export function findCatalogOperator(operatorCode: string): Omit<MobileMoneyOperator, 'gatewayProvider'> | undefined {
+  return MOBILE_MONEY_OPERATORS.find(operator => operator.operatorCode === operatorCode)
+}
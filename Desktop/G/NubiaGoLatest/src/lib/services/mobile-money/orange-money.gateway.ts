@@ -0,0 +1,194 @@
+import { APIError } from '@/lib/errors'
+import {
+  GatewayPaymentStatus,
+  GatewayWebhookRequest,
+  MobileMoneyPayment,
+  MobileMoneyPaymentRequest,
+  MobileMoneyWebhookEvent,
+  PaymentGatewayService,
+  PaymentResponse,
+  parseWebhookBody
+} from './gateway'
+import { basicAuth, gatewayRequest } from './http-client'
+import { signCallbackUrl, verifyCallbackUrl } from './webhook-signature'
+
+export interface OrangeMoneyConfig {
+  clientId: string
+  clientSecret: string
+  merchantKey: string
+  // Country code -> path segment of the web payment API ('dev' for Orange's test environment)
+  countryPaths: Record<string, string>
+  // Signs the notif_url so forged notifications can be told apart
+  callbackSecret?: string
+  baseUrl?: string
+  timeoutMs?: number
+}
+
+interface OrangeWebPaymentResponse {
+  status: number
+  message: string
+  pay_token: string
+  payment_url: string
+  notif_token: string
+}
+
+interface OrangeTransactionStatus {
+  status: 'INITIATED' | 'PENDING' | 'SUCCESS' | 'FAILED' | 'EXPIRED'
+  order_id: string
+  txnid?: string
+}
+
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000
+
+// Orange Money Web Payment: the payer is redirected to Orange's hosted page
+export class OrangeMoneyGatewayService extends PaymentGatewayService {
+  readonly provider = 'orange_money' as const
+  private readonly baseUrl: string
+  private token: { value: string; expiresAt: number } | null = null
+
+  constructor(private readonly config: OrangeMoneyConfig) {
+    super()
+    this.baseUrl = (config.baseUrl || 'https://api.orange.com').replace(/\/$/, '')
+  }
+
+  supports(operatorCode: string, country: string): boolean {
+    return operatorCode.startsWith('orange_') && !!this.config.countryPaths[country.toUpperCase()]
+  }
+
+  async initiateMobileMoneyPayment(request: MobileMoneyPaymentRequest): Promise<PaymentResponse> {
+    // Orange requires a unique order_id per payment attempt
+    const orangeOrderId = `${request.orderId}-${Date.now()}`
+    const notifUrl = this.config.callbackSecret
+      ? await signCallbackUrl(request.webhookUrl, this.config.callbackSecret, orangeOrderId)
+      : request.webhookUrl
+
+    try {
+      const { data } = await gatewayRequest<OrangeWebPaymentResponse>(
+        `${this.webPaymentUrl(request.country)}/webpayment`,
+        {
+          method: 'POST',
+          timeoutMs: this.config.timeoutMs,
+          headers: await this.headers(),
+          body: {
+            merchant_key: this.config.merchantKey,
+            currency: request.currency,
+            order_id: orangeOrderId,
+            amount: request.amount,
+            return_url: request.redirectUrl,
+            cancel_url: request.redirectUrl,
+            notif_url: notifUrl,
+            lang: 'fr',
+            reference: 'NubiaGo'
+          }
+        }
+      )
+
+      return {
+        success: true,
+        status: 'pending',
+        transactionId: orangeOrderId,
+        paymentUrl: data.payment_url,
+        reference: orangeOrderId,
+        message: 'Complete the payment on the Orange Money page',
+        // pay_token is needed to check the status later
+        gatewayResponse: { ...data, order_id: orangeOrderId, amount: request.amount, country: request.country }
+      }
+    } catch (error) {
+      if (error instanceof APIError && error.statusCode >= 400 && error.statusCode < 500) {
+        const response = error.context?.response
+        return {
+          success: false,
+          status: 'failed',
+          message: response?.message || response?.description || 'Payment initiation failed',
+          gatewayResponse: response
+        }
+      }
+      throw error
+    }
+  }
+
+  async verifyPayment(transactionId: string, payment?: MobileMoneyPayment): Promise<PaymentResponse> {
+    const payToken = payment?.gatewayResponse?.pay_token
+    if (!payment || !payToken) {
+      throw new APIError('Orange Money status check needs the stored pay_token', 'orange://transactionstatus', 'POST', 400, { transactionId })
+    }
+
+    const { data } = await gatewayRequest<OrangeTransactionStatus>(
+      `${this.webPaymentUrl(payment.country)}/transactionstatus`,
+      {
+        method: 'POST',
+        timeoutMs: this.config.timeoutMs,
+        headers: await this.headers(),
+        body: { order_id: transactionId, amount: payment.amount, pay_token: payToken }
+      }
+    )
+
+    const status = this.mapStatus(data.status)
+    return {
+      success: status === 'completed',
+      status,
+      transactionId,
+      message: status === 'failed'
+        ? `Payment ${data.status.toLowerCase()}`
+        : status === 'completed' ? 'Payment completed successfully' : 'Payment still pending',
+      // Keep pay_token alongside the status so later checks still work
+      gatewayResponse: { ...payment.gatewayResponse, transactionStatus: data }
+    }
+  }
+
+  async verifyWebhook(request: GatewayWebhookRequest): Promise<boolean> {
+    if (!this.config.callbackSecret) return false
+    return !!(await verifyCallbackUrl(request.url, this.config.callbackSecret))
+  }
+
+  parseWebhookEvent(request: GatewayWebhookRequest): MobileMoneyWebhookEvent | null {
+    const body = parseWebhookBody(request.rawBody) as { status?: OrangeTransactionStatus['status']; notif_token?: string; txnid?: string } | null
+    const orangeOrderId = new URL(request.url).searchParams.get('ref')
+    if (!body?.status || !orangeOrderId) return null
+
+    return {
+      provider: this.provider,
+      eventId: `${orangeOrderId}:${body.status}`,
+      transactionId: orangeOrderId,
+      status: this.mapStatus(body.status),
+      reason: body.status === 'SUCCESS' ? undefined : `Payment ${body.status.toLowerCase()}`,
+      payload: body
+    }
+  }
+
+  private webPaymentUrl(country: string): string {
+    return `${this.baseUrl}/orange-money-webpay/${this.config.countryPaths[country.toUpperCase()]}/v1`
+  }
+
+  private async headers(): Promise<Record<string, string>> {
+    return { Authorization: `Bearer ${await this.getAccessToken()}` }
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value
+    }
+
+    const { data } = await gatewayRequest<{ access_token: string; expires_in: number }>(
+      `${this.baseUrl}/oauth/v3/token`,
+      {
+        method: 'POST',
+        timeoutMs: this.config.timeoutMs,
+        headers: { Authorization: basicAuth(this.config.clientId, this.config.clientSecret) },
+        body: new URLSearchParams({ grant_type: 'client_credentials' })
+      }
+    )
+
+    this.token = {
+      value: data.access_token,
+      expiresAt: Date.now() + data.expires_in * 1000 - TOKEN_EXPIRY_MARGIN_MS
+    }
+    return data.access_token
+  }
+
+  private mapStatus(status: OrangeTransactionStatus['status']): GatewayPaymentStatus {
+    if (status === 'SUCCESS') return 'completed'
+    if (status === 'FAILED' || status === 'EXPIRED') return 'failed'
+    return 'pending'
+  }
+}
@@ -0,0 +1,44 @@
+import { MobileMoneyPayment } from './gateway'
+
+export type MobileMoneyPaymentStatus = MobileMoneyPayment['status']
+
+// Allowed payment status changes. Completed and failed are final: a late or replayed
+// "successful" event must never revive a failed payment. An expired payment can still
+// complete, since the payer may approve the prompt after we stopped waiting.
+const PAYMENT_TRANSITIONS: Record<MobileMoneyPaymentStatus, MobileMoneyPaymentStatus[]> = {
+  pending: ['completed', 'failed', 'expired'],
+  expired: ['completed', 'failed'],
+  completed: [],
+  failed: []
+}
+
+export type PaymentTransitionResult = 'applied' | 'unchanged' | 'rejected'
+
+export function canTransitionPayment(from: MobileMoneyPaymentStatus, to: MobileMoneyPaymentStatus): boolean {
+  return PAYMENT_TRANSITIONS[from].includes(to)
+}
+
+// Move a payment to a new status if the state machine allows it.
+// Repeating the current status is a no-op, so redelivered events are harmless.
+export function transitionPayment(
+  payment: MobileMoneyPayment,
+  to: MobileMoneyPaymentStatus,
+  details: { reason?: string; gatewayResponse?: any } = {}
+): PaymentTransitionResult {
+  if (payment.status === to) return 'unchanged'
+  if (!canTransitionPayment(payment.status, to)) return 'rejected'
+
+  const now = new Date()
+  payment.status = to
+  payment.updatedAt = now
+  if (details.gatewayResponse !== undefined) {
+    payment.gatewayResponse = details.gatewayResponse
+  }
+  if (to === 'completed') {
+    payment.completedAt = now
+  }
+  if (to === 'failed') {
+    payment.failureReason = details.reason || payment.failureReason
+  }
+  return 'applied'
+}
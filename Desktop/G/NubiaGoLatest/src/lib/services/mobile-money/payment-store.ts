@@ -0,0 +1,116 @@
+import { adminDb } from '@/lib/firebase/admin'
+import { MobileMoneyPayment } from './gateway'
+import { MobileMoneyPaymentStatus, PaymentTransitionResult, transitionPayment } from './payment-state-machine'
+
+// Where mobile money payments are kept. Every instance of the app shares the same records,
+// so a webhook, a status poll and the verification job all see one payment.
+export interface MobileMoneyPaymentStore {
+  create(payment: MobileMoneyPayment): Promise<void>
+  get(paymentId: string): Promise<MobileMoneyPayment | null>
+  findByTransactionId(provider: MobileMoneyPayment['gatewayProvider'], transactionId: string): Promise<MobileMoneyPayment | null>
+  // Record gateway details that don't change the status
+  update(paymentId: string, updates: Partial<Pick<MobileMoneyPayment, 'gatewayTransactionId' | 'gatewayResponse' | 'lastVerificationCheck'>>): Promise<void>
+  // Apply a status change through the state machine against the stored payment, atomically
+  transition(
+    paymentId: string,
+    to: MobileMoneyPaymentStatus,
+    details?: { reason?: string; gatewayResponse?: any }
+  ): Promise<{ payment: MobileMoneyPayment | null; result: PaymentTransitionResult }>
+  list(filter?: Partial<Pick<MobileMoneyPayment, 'status' | 'country' | 'operator'>>): Promise<MobileMoneyPayment[]>
+}
+
+// Firestore rejects undefined values; gateway payloads are plain JSON, so a round trip drops them
+const toStoredResponse = (gatewayResponse: any) =>
+  gatewayResponse === undefined ? null : JSON.parse(JSON.stringify(gatewayResponse))
+
+// Server-only: payments in the mobile_money_payments collection, written with firebase-admin
+export class FirestorePaymentStore implements MobileMoneyPaymentStore {
+  private readonly COLLECTION_NAME = 'mobile_money_payments'
+
+  async create(payment: MobileMoneyPayment): Promise<void> {
+    await adminDb.collection(this.COLLECTION_NAME).doc(payment.id).set(this.toFirestore(payment))
+  }
+
+  async get(paymentId: string): Promise<MobileMoneyPayment | null> {
+    const snapshot = await adminDb.collection(this.COLLECTION_NAME).doc(paymentId).get()
+    return snapshot.exists ? this.fromFirestore(snapshot.data()!) : null
+  }
+
+  async findByTransactionId(
+    provider: MobileMoneyPayment['gatewayProvider'],
+    transactionId: string
+  ): Promise<MobileMoneyPayment | null> {
+    const snapshot = await adminDb
+      .collection(this.COLLECTION_NAME)
+      .where('gatewayProvider', '==', provider)
+      .where('gatewayTransactionId', '==', transactionId)
+      .limit(1)
+      .get()
+    return snapshot.empty ? null : this.fromFirestore(snapshot.docs[0].data())
+  }
+
+  async update(
+    paymentId: string,
+    updates: Partial<Pick<MobileMoneyPayment, 'gatewayTransactionId' | 'gatewayResponse' | 'lastVerificationCheck'>>
+  ): Promise<void> {
+    await adminDb.collection(this.COLLECTION_NAME).doc(paymentId).update({
+      ...(updates.gatewayTransactionId ? { gatewayTransactionId: updates.gatewayTransactionId } : {}),
+      ...('gatewayResponse' in updates ? { gatewayResponse: toStoredResponse(updates.gatewayResponse) } : {}),
+      ...(updates.lastVerificationCheck ? { lastVerificationCheck: updates.lastVerificationCheck } : {}),
+      updatedAt: new Date()
+    })
+  }
+
+  // Read, check and write in one transaction, so a failed payment can't be completed by
+  // a webhook handled on another instance at the same moment
+  async transition(
+    paymentId: string,
+    to: MobileMoneyPaymentStatus,
+    details: { reason?: string; gatewayResponse?: any } = {}
+  ): Promise<{ payment: MobileMoneyPayment | null; result: PaymentTransitionResult }> {
+    const ref = adminDb.collection(this.COLLECTION_NAME).doc(paymentId)
+
+    return adminDb.runTransaction(async transaction => {
+      const snapshot = await transaction.get(ref)
+      if (!snapshot.exists) {
+        return { payment: null, result: 'unchanged' as PaymentTransitionResult }
+      }
+
+      const payment = this.fromFirestore(snapshot.data()!)
+      const result = transitionPayment(payment, to, details)
+      if (result === 'applied') {
+        transaction.set(ref, this.toFirestore(payment))
+      }
+      return { payment, result }
+    })
+  }
+
+  async list(filter: Partial<Pick<MobileMoneyPayment, 'status' | 'country' | 'operator'>> = {}): Promise<MobileMoneyPayment[]> {
+    let query: FirebaseFirestore.Query = adminDb.collection(this.COLLECTION_NAME)
+    for (const [field, value] of Object.entries(filter)) {
+      if (value !== undefined) {
+        query = query.where(field, '==', value)
+      }
+    }
+    const snapshot = await query.get()
+    return snapshot.docs.map(doc => this.fromFirestore(doc.data()))
+  }
+
+  private toFirestore(payment: MobileMoneyPayment): Record<string, unknown> {
+    const data: Record<string, unknown> = { ...payment, gatewayResponse: toStoredResponse(payment.gatewayResponse) }
+    for (const key of Object.keys(data)) {
+      if (data[key] === undefined) delete data[key]
+    }
+    return data
+  }
+
+  private fromFirestore(data: FirebaseFirestore.DocumentData): MobileMoneyPayment {
+    return {
+      ...data,
+      createdAt: data.createdAt?.toDate?.() || new Date(),
+      updatedAt: data.updatedAt?.toDate?.() || new Date(),
+      completedAt: data.completedAt?.toDate?.(),
+      lastVerificationCheck: data.lastVerificationCheck?.toDate?.()
+    } as MobileMoneyPayment
+  }
+}
@@ -0,0 +1,72 @@
+import { toMsisdn } from './gateway'
+
+// Deterministic sandbox outcomes. The last four digits of the payer's number pick the
+// scenario, so any country prefix works (e.g. +237 6 7000 0002 always fails).
+//
+//   ...0001  approved on the first status check (also the default for other numbers)
+//   ...0002  rejected at initiation: insufficient funds
+//   ...0003  pending on the first status check, approved on the next
+//   ...0004  declined by the customer on the first status check
+//   ...0005  never approved; stays pending until the payment expires
+//   ...0006  gateway timeout at initiation
+//
+// Amounts above SANDBOX_AMOUNT_LIMIT are rejected at initiation whatever the number.
+
+export type SandboxScenario =
+  | 'approved'
+  | 'insufficient_funds'
+  | 'approved_after_retry'
+  | 'declined'
+  | 'never_completes'
+  | 'timeout'
+
+export const SANDBOX_AMOUNT_LIMIT = 1000000
+
+const SCENARIOS_BY_SUFFIX: Record<string, SandboxScenario> = {
+  '0001': 'approved',
+  '0002': 'insufficient_funds',
+  '0003': 'approved_after_retry',
+  '0004': 'declined',
+  '0005': 'never_completes',
+  '0006': 'timeout'
+}
+
+export interface SandboxInitiationOutcome {
+  accepted: boolean
+  scenario: SandboxScenario
+  reason?: string
+}
+
+export function resolveSandboxScenario(phone: string): SandboxScenario {
+  return SCENARIOS_BY_SUFFIX[toMsisdn(phone).slice(-4)] || 'approved'
+}
+
+// What happens when a payment is requested
+export function sandboxInitiationOutcome(phone: string, amount: number): SandboxInitiationOutcome {
+  const scenario = resolveSandboxScenario(phone)
+
+  if (amount > SANDBOX_AMOUNT_LIMIT) {
+    return { accepted: false, scenario, reason: 'Transaction limit exceeded' }
+  }
+  if (scenario === 'insufficient_funds') {
+    return { accepted: false, scenario, reason: 'Insufficient funds' }
+  }
+  return { accepted: true, scenario }
+}
+
+// Status reported on the nth status check (1-based) of an accepted payment
+export function sandboxStatusOnCheck(
+  scenario: SandboxScenario,
+  check: number
+): { status: 'pending' | 'completed' | 'failed'; reason?: string } {
+  switch (scenario) {
+    case 'approved_after_retry':
+      return check < 2 ? { status: 'pending' } : { status: 'completed' }
+    case 'declined':
+      return { status: 'failed', reason: 'Payment declined by customer' }
+    case 'never_completes':
+      return { status: 'pending' }
+    default:
+      return { status: 'completed' }
+  }
+}
@@ -0,0 +1,137 @@
+import { APIError } from '@/lib/errors'
+import {
+  GatewayPaymentStatus,
+  GatewayWebhookRequest,
+  MobileMoneyPaymentRequest,
+  MobileMoneyWebhookEvent,
+  PaymentGatewayService,
+  PaymentResponse,
+  parseWebhookBody
+} from './gateway'
+import { findCatalogOperator } from './operators'
+import {
+  SandboxScenario,
+  sandboxInitiationOutcome,
+  sandboxStatusOnCheck
+} from './sandbox-scenarios'
+import { hmacSha256Hex, safeEqual } from '@/lib/security/hmac'
+
+export const SANDBOX_SIGNATURE_HEADER = 'x-sandbox-signature'
+
+// In-process gateway for development and tests. Outcomes follow sandbox-scenarios.ts,
+// so the same phone number and amount always produce the same result.
+export class SandboxPaymentGatewayService extends PaymentGatewayService {
+  readonly provider = 'sandbox' as const
+  readonly signsWebhookBody = true
+
+  private transactions = new Map<string, { scenario: SandboxScenario; checks: number; amount: number; currency: string }>()
+  private sequence = 0
+
+  // Sandbox webhooks are signed with an HMAC-SHA256 of the raw body
+  constructor(private readonly webhookSecret = 'sandbox-webhook-secret') {
+    super()
+  }
+
+  supports(operatorCode: string): boolean {
+    return !!findCatalogOperator(operatorCode)
+  }
+
+  async initiateMobileMoneyPayment(request: MobileMoneyPaymentRequest): Promise<PaymentResponse> {
+    const outcome = sandboxInitiationOutcome(request.customerPhone, request.amount)
+
+    if (outcome.scenario === 'timeout') {
+      throw new APIError('Gateway request timed out', 'sandbox://charges', 'POST', 504)
+    }
+
+    if (!outcome.accepted) {
+      return {
+        success: false,
+        status: 'failed',
+        message: `Payment initiation failed - ${outcome.reason?.toLowerCase()}`,
+        gatewayResponse: { status: 'error', message: outcome.reason, scenario: outcome.scenario }
+      }
+    }
+
+    this.sequence++
+    const transactionId = `sandbox_${request.orderId}_${this.sequence}`
+    this.transactions.set(transactionId, {
+      scenario: outcome.scenario,
+      checks: 0,
+      amount: request.amount,
+      currency: request.currency
+    })
+
+    const paymentUrl = `${request.redirectUrl}?tx_ref=${transactionId}`
+    return {
+      success: true,
+      status: 'pending',
+      transactionId,
+      paymentUrl,
+      reference: transactionId,
+      message: 'Payment initiated successfully',
+      gatewayResponse: { status: 'success', scenario: outcome.scenario, data: { tx_ref: transactionId, link: paymentUrl } }
+    }
+  }
+
+  async verifyPayment(transactionId: string): Promise<PaymentResponse> {
+    const transaction = this.transactions.get(transactionId)
+    if (!transaction) {
+      return {
+        success: false,
+        status: 'failed',
+        message: 'Transaction not found',
+        gatewayResponse: { status: 'error', message: 'Transaction not found' }
+      }
+    }
+
+    transaction.checks++
+    const { status, reason } = sandboxStatusOnCheck(transaction.scenario, transaction.checks)
+    const gatewayResponse = {
+      status,
+      data: { status, amount: transaction.amount, currency: transaction.currency, reason }
+    }
+
+    return {
+      success: status === 'completed',
+      status,
+      transactionId,
+      message: status === 'completed' ? 'Payment completed successfully' : reason || 'Payment still pending',
+      gatewayResponse
+    }
+  }
+
+  async verifyWebhook(request: GatewayWebhookRequest): Promise<boolean> {
+    const expected = await hmacSha256Hex(this.webhookSecret, request.rawBody)
+    return safeEqual(request.headers.get(SANDBOX_SIGNATURE_HEADER), expected)
+  }
+
+  parseWebhookEvent(request: GatewayWebhookRequest): MobileMoneyWebhookEvent | null {
+    const body = parseWebhookBody(request.rawBody)
+    if (!body?.id || !body.tx_ref || !['pending', 'completed', 'failed'].includes(body.status)) return null
+
+    return {
+      provider: this.provider,
+      eventId: String(body.id),
+      transactionId: body.tx_ref,
+      status: body.status,
+      reason: body.reason,
+      payload: body
+    }
+  }
+
+  // Build a signed webhook delivery, for simulating gateway callbacks in development and tests
+  async createWebhook(
+    transactionId: string,
+    status: GatewayPaymentStatus,
+    reason?: string
+  ): Promise<{ rawBody: string; headers: Record<string, string> }> {
+    const rawBody = JSON.stringify({ id: `evt_${transactionId}_${status}`, tx_ref: transactionId, status, reason })
+    return {
+      rawBody,
+      headers: {
+        'Content-Type': 'application/json',
+        [SANDBOX_SIGNATURE_HEADER]: await hmacSha256Hex(this.webhookSecret, rawBody)
+      }
+    }
+  }
+}
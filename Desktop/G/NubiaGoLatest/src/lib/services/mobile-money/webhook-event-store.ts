@@ -0,0 +1,168 @@
+import { adminDb } from '@/lib/firebase/admin'
+import { logger } from '@/lib/utils/logger'
+import { MobileMoneyWebhookEvent } from './gateway'
+
+// Server-only: persists webhook event ids so replays are rejected, and keeps a
+// dead-letter record of events that failed processing.
+
+export type WebhookEventStatus = 'processing' | 'processed' | 'ignored' | 'failed'
+
+export interface WebhookEventRecord {
+  provider: string
+  eventId: string
+  transactionId: string
+  status: WebhookEventStatus
+  attempts: number
+  note?: string
+  error?: string
+  receivedAt: Date
+  updatedAt: Date
+}
+
+export interface WebhookDeadLetter {
+  id: string
+  provider: string
+  eventId: string
+  transactionId: string
+  payload: any
+  error: string
+  attempts: number
+  resolved: boolean
+  createdAt: Date
+  resolvedAt?: Date
+}
+
+// A delivery stuck in 'processing' this long (crashed worker) may be claimed again
+const PROCESSING_LEASE_MS = 5 * 60 * 1000
+
+export class WebhookEventStore {
+  private readonly COLLECTION_NAME = 'mobile_money_webhook_events'
+  private readonly DEAD_LETTER_COLLECTION = 'mobile_money_webhook_dead_letters'
+
+  // Claim an event for processing. Returns false if it was already handled or is
+  // being handled, i.e. the delivery is a duplicate. Failed events can be claimed again
+  // so gateway retries get another chance.
+  async claim(event: MobileMoneyWebhookEvent): Promise<boolean> {
+    const ref = adminDb.collection(this.COLLECTION_NAME).doc(this.docId(event))
+
+    try {
+      return await adminDb.runTransaction(async transaction => {
+        const snapshot = await transaction.get(ref)
+        const now = new Date()
+
+        if (snapshot.exists) {
+          const existing = snapshot.data() as { status: WebhookEventStatus; attempts: number; updatedAt: { toDate(): Date } }
+          const leaseExpired = existing.status === 'processing' &&
+            now.getTime() - existing.updatedAt.toDate().getTime() > PROCESSING_LEASE_MS
+          if (existing.status !== 'failed' && !leaseExpired) {
+            return false
+          }
+          transaction.update(ref, { status: 'processing', attempts: existing.attempts + 1, updatedAt: now })
+          return true
+        }
+
+        transaction.set(ref, {
+          provider: event.provider,
+          eventId: event.eventId,
+          transactionId: event.transactionId,
+          status: 'processing',
+          attempts: 1,
+          receivedAt: now,
+          updatedAt: now
+        })
+        return true
+      })
+    } catch (error) {
+      logger.error('Error claiming webhook event:', error)
+      throw new Error('Failed to claim webhook event')
+    }
+  }
+
+  // Record the outcome of a successfully handled event
+  async complete(event: MobileMoneyWebhookEvent, status: 'processed' | 'ignored', note?: string): Promise<void> {
+    try {
+      await adminDb.collection(this.COLLECTION_NAME).doc(this.docId(event)).update({
+        status,
+        ...(note ? { note } : {}),
+        updatedAt: new Date()
+      })
+    } catch (error) {
+      logger.error('Error completing webhook event:', error)
+      throw new Error('Failed to complete webhook event')
+    }
+  }
+
+  // Mark an event failed and store it in the dead-letter collection for inspection
+  async fail(event: MobileMoneyWebhookEvent, failure: unknown): Promise<void> {
+    const message = failure instanceof Error ? failure.message : String(failure)
+    const ref = adminDb.collection(this.COLLECTION_NAME).doc(this.docId(event))
+
+    try {
+      const snapshot = await ref.get()
+      const attempts = (snapshot.data()?.attempts as number | undefined) || 1
+      const now = new Date()
+
+      const batch = adminDb.batch()
+      batch.set(ref, { status: 'failed', error: message, updatedAt: now }, { merge: true })
+      batch.set(adminDb.collection(this.DEAD_LETTER_COLLECTION).doc(), {
+        provider: event.provider,
+        eventId: event.eventId,
+        transactionId: event.transactionId,
+        payload: event.payload,
+        error: message,
+        attempts,
+        resolved: false,
+        createdAt: now
+      })
+      await batch.commit()
+    } catch (error) {
+      logger.error('Error dead-lettering webhook event:', error)
+      throw new Error('Failed to dead-letter webhook event')
+    }
+  }
+
+  // Unresolved dead letters, newest first
+  async getDeadLetters(limitCount = 50): Promise<WebhookDeadLetter[]> {
+    try {
+      const snapshot = await adminDb
+        .collection(this.DEAD_LETTER_COLLECTION)
+        .where('resolved', '==', false)
+        .orderBy('createdAt', 'desc')
+        .limit(limitCount)
+        .get()
+
+      return snapshot.docs.map(doc => {
+        const data = doc.data()
+        return {
+          id: doc.id,
+          ...data,
+          createdAt: data.createdAt?.toDate?.() || new Date(),
+          resolvedAt: data.resolvedAt?.toDate?.()
+        } as WebhookDeadLetter
+      })
+    } catch (error) {
+      logger.error('Error getting webhook dead letters:', error)
+      throw new Error('Failed to get webhook dead letters')
+    }
+  }
+
+  // Mark a dead letter as handled (replayed or dismissed by an operator)
+  async resolveDeadLetter(id: string): Promise<void> {
+    try {
+      await adminDb.collection(this.DEAD_LETTER_COLLECTION).doc(id).update({
+        resolved: true,
+        resolvedAt: new Date()
+      })
+    } catch (error) {
+      logger.error('Error resolving webhook dead letter:', error)
+      throw new Error('Failed to resolve webhook dead letter')
+    }
+  }
+
+  // Event ids can contain characters Firestore doesn't allow in document ids
+  private docId(event: MobileMoneyWebhookEvent): string {
+    return `${event.provider}_${event.eventId}`.replace(/[^A-Za-z0-9_-]/g, '_')
+  }
+}
+
+export const webhookEventStore = new WebhookEventStore()
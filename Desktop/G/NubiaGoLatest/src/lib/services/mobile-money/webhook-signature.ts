@@ -0,0 +1,17 @@
+import { hmacSha256Hex, safeEqual } from '@/lib/security/hmac'
+
+// Append a signed reference to a callback URL for gateways that don't sign their callbacks
+export async function signCallbackUrl(url: string, secret: string, reference: string): Promise<string> {
+  const signed = new URL(url)
+  signed.searchParams.set('ref', reference)
+  signed.searchParams.set('sig', await hmacSha256Hex(secret, reference))
+  return signed.toString()
+}
+
+// Check the reference and signature added by signCallbackUrl; returns the reference if valid
+export async function verifyCallbackUrl(url: string, secret: string): Promise<string | null> {
+  const { searchParams } = new URL(url)
+  const reference = searchParams.get('ref')
+  if (!reference) return null
+  return safeEqual(searchParams.get('sig'), await hmacSha256Hex(secret, reference)) ? reference : null
+}
@@ -0,0 +1,261 @@
+import {
+  doc,
+  getDoc,
+  setDoc,
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  runTransaction
+} from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { BaseError, ConflictError, NotFoundError, ValidationError } from '@/lib/errors'
+import { logger } from '@/lib/utils/logger'
+import { toDate } from '@/lib/utils/dates'
+import {
+  ModerationAction,
+  ModerationFlag,
+  ModerationReasonCode,
+  ModerationResult,
+  ModerationRules,
+  ProductReview,
+  ReviewModerationStatus
+} from '@/types'
+import {
+  DEFAULT_MODERATION_RULES,
+  MODERATION_REASON_LABELS,
+  moderateFiles,
+  moderateText,
+  toModerationResult
+} from './moderation/content-moderation'
+
+export interface ModerationInput {
+  text?: string
+  files?: File[]
+}
+
+// Saved rules are re-read at most this often per server instance or browser tab
+const RULES_CACHE_MS = 60 * 1000
+
+const MAX_RULE_TERMS = 500
+const MAX_RULE_TERM_LENGTH = 100
+const MAX_LINKS_LIMIT = 20
+
+const MODERATION_ACTIONS: ModerationAction[] = ['allow', 'queue', 'hide']
+
+// Review status for each pipeline outcome, mirroring how chat messages are handled
+const REVIEW_STATUS_FOR_ACTION: Record<ModerationAction, ReviewModerationStatus> = {
+  allow: 'published',
+  queue: 'flagged',
+  hide: 'hidden'
+}
+
+export class ModerationService {
+  private readonly SETTINGS_COLLECTION = 'moderation_settings'
+  private readonly RULES_DOCUMENT = 'content_rules'
+  private readonly REVIEWS_COLLECTION = 'reviews'
+  private cachedRules?: { rules: ModerationRules; loadedAt: number }
+
+  // Current rule lists, falling back to the defaults for anything an admin never set
+  async getRules(): Promise<ModerationRules> {
+    if (this.cachedRules && Date.now() - this.cachedRules.loadedAt < RULES_CACHE_MS) {
+      return this.cachedRules.rules
+    }
+
+    try {
+      const rulesDoc = await getDoc(doc(db, this.SETTINGS_COLLECTION, this.RULES_DOCUMENT))
+      const data = rulesDoc.exists() ? rulesDoc.data() : {}
+      const rules: ModerationRules = {
+        ...DEFAULT_MODERATION_RULES,
+        ...data,
+        actions: { ...DEFAULT_MODERATION_RULES.actions, ...(data.actions || {}) },
+        updatedAt: toDate(data.updatedAt)
+      }
+      this.cachedRules = { rules, loadedAt: Date.now() }
+      return rules
+    } catch (error) {
+      // Moderation must not take chat or reviews down with it
+      logger.error('Error loading moderation rules, using defaults:', error)
+      return DEFAULT_MODERATION_RULES
+    }
+  }
+
+  // Replace the rule lists. Terms are trimmed, lower-cased and de-duplicated.
+  async updateRules(input: Partial<ModerationRules>, adminId: string): Promise<ModerationRules> {
+    const current = await this.getRules()
+    const fieldErrors: Record<string, string[]> = {}
+
+    const cleanList = (field: 'profanity' | 'offPlatformPaymentTerms' | 'allowedLinkDomains' | 'allowedImageTypes') => {
+      const value = input[field] ?? current[field]
+      if (!Array.isArray(value) || value.some(term => typeof term !== 'string')) {
+        fieldErrors[field] = ['Must be a list of terms']
+        return []
+      }
+      const terms = Array.from(new Set(value.map(term => term.trim().toLowerCase()).filter(Boolean)))
+      if (terms.length > MAX_RULE_TERMS) {
+        fieldErrors[field] = [`At most ${MAX_RULE_TERMS} entries`]
+      } else if (terms.some(term => term.length > MAX_RULE_TERM_LENGTH)) {
+        fieldErrors[field] = [`Entries must be at most ${MAX_RULE_TERM_LENGTH} characters`]
+      }
+      return terms
+    }
+
+    const rules: ModerationRules = {
+      profanity: cleanList('profanity'),
+      offPlatformPaymentTerms: cleanList('offPlatformPaymentTerms'),
+      allowedLinkDomains: cleanList('allowedLinkDomains'),
+      allowedImageTypes: cleanList('allowedImageTypes'),
+      maxLinks: input.maxLinks ?? current.maxLinks,
+      actions: { ...current.actions, ...(input.actions || {}) },
+      updatedAt: new Date(),
+      updatedBy: adminId
+    }
+
+    if (rules.allowedImageTypes.some(type => !type.startsWith('image/'))) {
+      fieldErrors.allowedImageTypes = ['Only image/* types can be allowed']
+    }
+    if (!Number.isInteger(rules.maxLinks) || rules.maxLinks < 0 || rules.maxLinks > MAX_LINKS_LIMIT) {
+      fieldErrors.maxLinks = [`Must be a whole number between 0 and ${MAX_LINKS_LIMIT}`]
+    }
+    const invalidActions = (Object.keys(rules.actions) as ModerationReasonCode[])
+      .filter(code => !(code in MODERATION_REASON_LABELS) || !MODERATION_ACTIONS.includes(rules.actions[code]))
+    if (invalidActions.length > 0) {
+      fieldErrors.actions = [`Invalid action for: ${invalidActions.join(', ')}`]
+    }
+    if (Object.keys(fieldErrors).length > 0) {
+      throw new ValidationError('Invalid moderation rules', fieldErrors)
+    }
+
+    try {
+      await setDoc(doc(db, this.SETTINGS_COLLECTION, this.RULES_DOCUMENT), rules)
+      this.cachedRules = { rules, loadedAt: Date.now() }
+      return rules
+    } catch (error) {
+      logger.error('Error saving moderation rules:', error)
+      throw new Error('Failed to save moderation rules')
+    }
+  }
+
+  // Run text and image attachments through the pipeline
+  async moderateContent(input: ModerationInput): Promise<ModerationResult> {
+    const rules = await this.getRules()
+    const flags = [
+      ...moderateText(input.text || '', rules),
+      ...(input.files?.length ? await moderateFiles(input.files, rules) : [])
+    ]
+    return toModerationResult(flags, rules)
+  }
+
+  // Status a new review starts in, given the pipeline result
+  getReviewStatus(result: ModerationResult): ReviewModerationStatus {
+    return REVIEW_STATUS_FOR_ACTION[result.action]
+  }
+
+  // Short summary of why content was held, for moderators
+  describeFlags(flags: ModerationFlag[]): string {
+    return Array.from(new Set(flags.map(flag => MODERATION_REASON_LABELS[flag.code]))).join(', ')
+  }
+
+  // Report a review to the moderators. It stays visible until they review it.
+  async reportReview(reviewId: string, reporterId: string, reason: string): Promise<void> {
+    if (!reason.trim()) {
+      throw new ValidationError('Please say why you are reporting this review', { reason: ['Required'] })
+    }
+
+    const reviewRef = doc(db, this.REVIEWS_COLLECTION, reviewId)
+    try {
+      await runTransaction(db, async (transaction) => {
+        const reviewDoc = await transaction.get(reviewRef)
+        if (!reviewDoc.exists()) {
+          throw new NotFoundError('Review', reviewId)
+        }
+        const review = this.toReview(reviewDoc.id, reviewDoc.data())
+        if (review.moderationStatus !== 'published') return
+
+        transaction.update(reviewRef, {
+          moderationStatus: 'flagged',
+          moderationFlags: [
+            ...(review.moderationFlags || []),
+            { code: 'user_report', match: `${reporterId}: ${reason.trim()}` }
+          ]
+        })
+      })
+    } catch (error) {
+      logger.error('Error reporting review:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to report review')
+    }
+  }
+
+  // Flagged and hidden reviews waiting for a moderator, oldest first
+  async getReviewQueue(maxResults: number = 50): Promise<ProductReview[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.REVIEWS_COLLECTION),
+        where('moderationStatus', 'in', ['flagged', 'hidden']),
+        orderBy('createdAt', 'asc'),
+        limit(maxResults)
+      ))
+      return snapshot.docs.map(reviewDoc => this.toReview(reviewDoc.id, reviewDoc.data()))
+    } catch (error) {
+      logger.error('Error getting review moderation queue:', error)
+      throw new Error('Failed to fetch review moderation queue')
+    }
+  }
+
+  // Publish a held review
+  async approveReview(reviewId: string, moderatorId: string): Promise<ProductReview> {
+    return this.moderateReview(reviewId, moderatorId, 'published')
+  }
+
+  // Take a review down for good
+  async removeReview(reviewId: string, moderatorId: string): Promise<ProductReview> {
+    return this.moderateReview(reviewId, moderatorId, 'removed')
+  }
+
+  private async moderateReview(
+    reviewId: string,
+    moderatorId: string,
+    status: 'published' | 'removed'
+  ): Promise<ProductReview> {
+    const reviewRef = doc(db, this.REVIEWS_COLLECTION, reviewId)
+    try {
+      return await runTransaction(db, async (transaction) => {
+        const reviewDoc = await transaction.get(reviewRef)
+        if (!reviewDoc.exists()) {
+          throw new NotFoundError('Review', reviewId)
+        }
+
+        const review = this.toReview(reviewDoc.id, reviewDoc.data())
+        if (review.moderationStatus === 'removed') {
+          throw new ConflictError('This review has already been removed', { reviewId })
+        }
+
+        const moderatedAt = new Date()
+        transaction.update(reviewRef, { moderationStatus: status, moderatedBy: moderatorId, moderatedAt })
+        return { ...review, moderationStatus: status, moderatedBy: moderatorId, moderatedAt }
+      })
+    } catch (error) {
+      logger.error('Error moderating review:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to update review')
+    }
+  }
+
+  private toReview(id: string, data: Record<string, any>): ProductReview {
+    return {
+      ...data,
+      id,
+      // Reviews written before moderation existed are published
+      moderationStatus: data.moderationStatus || 'published',
+      moderationFlags: data.moderationFlags || [],
+      createdAt: toDate(data.createdAt)!,
+      updatedAt: toDate(data.updatedAt),
+      moderatedAt: toDate(data.moderatedAt)
+    } as ProductReview
+  }
+}
+
+export const moderationService = new ModerationService()
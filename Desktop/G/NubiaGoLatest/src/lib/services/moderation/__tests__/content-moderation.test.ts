@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+import { ModerationRules } from '@/types'
+import {
+  DEFAULT_MODERATION_RULES,
+  checkImage,
+  moderateFiles,
+  moderateText,
+  normalizeForMatching,
+  resolveModerationAction,
+  toModerationResult
+} from '../content-moderation'
+
+const rules: ModerationRules = DEFAULT_MODERATION_RULES
+
+const codes = (text: string, ruleSet: ModerationRules = rules) => moderateText(text, ruleSet).map(flag => flag.code)
+
+const PNG_HEADER = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]
+const RIFF = [0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0]
+const ascii = (text: string) => Array.from(text).map(character => character.charCodeAt(0))
+
+const image = (type: string, bytes: number[], name = 'photo') => ({ name, type, header: new Uint8Array(bytes) })
+
+describe('normalizeForMatching', () => {
+  it('lowercases, strips accents and undoes common character swaps', () => {
+    expect(normalizeForMatching('Sh1T Café $@le')).toBe('shit cafe sale')
+  })
+})
+
+describe('moderateText', () => {
+  it('passes ordinary review text', () => {
+    expect(moderateText('Great phone, arrived in 3 days. Battery lasts 2 days!', rules)).toEqual([])
+    expect(moderateText('   ', rules)).toEqual([])
+  })
+
+  it('finds profanity as whole words, through swaps and separators', () => {
+    expect(codes('This is sh1t')).toEqual(['profanity'])
+    expect(moderateText('m.o.t.h.e.r.f.u.c.k.e.r', rules)).toContainEqual({ code: 'profanity', match: 'motherfucker' })
+  })
+
+  it('does not flag short terms hidden inside ordinary words', () => {
+    expect(codes('Ships from Scunthorpe, Dickens edition')).toEqual([])
+  })
+
+  it('finds phone numbers with separators, prefixes and spelled-out digits', () => {
+    expect(moderateText('call +237 6 70 00 00 01', rules)).toEqual([{ code: 'contact_phone', match: '+237 6 70 00 00 01' }])
+    expect(codes('ring 0803-123-4567 today')).toEqual(['contact_phone'])
+    expect(codes('zero seven one two three four five six seven')).toEqual(['contact_phone'])
+  })
+
+  it('ignores order numbers, prices and dates', () => {
+    expect(codes('Order 123456 cost 45,000 on 12.05.2026')).toEqual([])
+  })
+
+  it('finds email addresses, including obfuscated ones', () => {
+    expect(codes('write to seller@example.com')).toEqual(['contact_email'])
+    expect(codes('seller (at) example (dot) com')).toEqual(['contact_email'])
+  })
+
+  it('finds off-platform payment talk', () => {
+    expect(moderateText('Message me on WhatsApp for a discount', rules))
+      .toEqual([{ code: 'off_platform_payment', match: 'whatsapp' }])
+    expect(codes('send it by western union')).toEqual(['off_platform_payment'])
+  })
+
+  it('flags more links than allowed, skipping allowed domains', () => {
+    const text = 'see a.com b.com c.com'
+    expect(codes(text)).toEqual(['spam_links'])
+    expect(codes(text, { ...rules, allowedLinkDomains: ['b.com'] })).toEqual([])
+    expect(codes('https://shop.nubiago.com/a https://nubiago.com/b x.com', { ...rules, maxLinks: 0, allowedLinkDomains: ['nubiago.com'] }))
+      .toEqual(['spam_links'])
+  })
+
+  it('flags repeated characters and words', () => {
+    expect(codes('soooooooo good')).toEqual(['spam_repetition'])
+    expect(codes('buy buy buy buy buy buy now')).toEqual(['spam_repetition'])
+    expect(codes('buy buy buy buy buy now')).toEqual([])
+  })
+
+  it('flags long shouting but not short acronyms', () => {
+    expect(codes('THIS SELLER IS THE WORST EVER')).toEqual(['spam_caps'])
+    expect(codes('Works with USB and HDMI')).toEqual([])
+  })
+})
+
+describe('resolveModerationAction', () => {
+  it('allows content without flags', () => {
+    expect(resolveModerationAction([], rules)).toBe('allow')
+  })
+
+  it('takes the most severe action among the flags', () => {
+    expect(resolveModerationAction([{ code: 'profanity' }], rules)).toBe('queue')
+    expect(resolveModerationAction([{ code: 'profanity' }, { code: 'contact_email' }, { code: 'spam_caps' }], rules)).toBe('hide')
+  })
+
+  it('follows the configured actions and queues unconfigured reasons', () => {
+    const custom: ModerationRules = { ...rules, actions: { ...rules.actions, profanity: 'allow' } }
+    expect(resolveModerationAction([{ code: 'profanity' }], custom)).toBe('allow')
+
+    const missing = { ...rules, actions: {} } as ModerationRules
+    expect(resolveModerationAction([{ code: 'contact_phone' }], missing)).toBe('queue')
+  })
+
+  it('builds a result with the action and the flags', () => {
+    const flags = moderateText('email me at a@b.co', rules)
+    expect(toModerationResult(flags, rules)).toEqual({ action: 'hide', flags })
+  })
+})
+
+describe('checkImage', () => {
+  it('accepts an allowed type whose bytes match it', () => {
+    expect(checkImage(image('image/png', PNG_HEADER), rules)).toBeUndefined()
+    expect(checkImage(image('image/webp', [...RIFF, ...ascii('WEBP')]), rules)).toBeUndefined()
+  })
+
+  it('rejects types that are not allowed', () => {
+    expect(checkImage(image('image/svg+xml', [], 'logo.svg'), rules))
+      .toEqual({ code: 'invalid_image', match: 'logo.svg (image/svg+xml)' })
+  })
+
+  it('rejects content that does not match the declared type', () => {
+    expect(checkImage(image('image/jpeg', PNG_HEADER, 'a.jpg'), rules))
+      .toEqual({ code: 'invalid_image', match: 'a.jpg (content is not image/jpeg)' })
+  })
+
+  it('rejects RIFF containers that are not WebP', () => {
+    expect(checkImage(image('image/webp', [...RIFF, ...ascii('WAVE')]), rules)?.code).toBe('invalid_image')
+  })
+})
+
+describe('moderateFiles', () => {
+  it('checks images by their first bytes and leaves other attachments alone', async () => {
+    const files = [
+      new File([new Uint8Array(PNG_HEADER)], 'ok.png', { type: 'image/png' }),
+      new File(['<?php echo 1;'], 'shell.png', { type: 'image/png' }),
+      new File(['%PDF-1.7'], 'invoice.pdf', { type: 'application/pdf' })
+    ]
+
+    expect(await moderateFiles(files, rules)).toEqual([
+      { code: 'invalid_image', match: 'shell.png (content is not image/png)' }
+    ])
+  })
+})
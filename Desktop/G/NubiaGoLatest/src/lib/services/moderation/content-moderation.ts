@@ -0,0 +1,222 @@
+import { ModerationAction, ModerationFlag, ModerationReasonCode, ModerationResult, ModerationRules } from '@/types'
+
+// Starting rule set, used until an admin saves their own. Contact details and
+// off-platform payment talk are hidden outright: they let buyers and suppliers
+// move a deal off the marketplace, which the platform cannot protect.
+export const DEFAULT_MODERATION_RULES: ModerationRules = {
+  profanity: ['fuck', 'shit', 'bitch', 'bastard', 'asshole', 'cunt', 'dick', 'motherfucker', 'wanker', 'slut', 'whore'],
+  offPlatformPaymentTerms: [
+    'whatsapp',
+    'telegram',
+    'signal me',
+    'western union',
+    'moneygram',
+    'bank transfer',
+    'wire transfer',
+    'pay me directly',
+    'pay outside',
+    'send money to',
+    'my account number',
+    'paypal me',
+    'cash app',
+    'bitcoin',
+    'usdt'
+  ],
+  allowedLinkDomains: [],
+  allowedImageTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+  maxLinks: 2,
+  actions: {
+    profanity: 'queue',
+    contact_phone: 'hide',
+    contact_email: 'hide',
+    off_platform_payment: 'hide',
+    spam_links: 'hide',
+    spam_repetition: 'queue',
+    spam_caps: 'queue',
+    invalid_image: 'hide',
+    user_report: 'queue'
+  }
+}
+
+export const MODERATION_REASON_LABELS: Record<ModerationReasonCode, string> = {
+  profanity: 'Profanity',
+  contact_phone: 'Phone number',
+  contact_email: 'Email address',
+  off_platform_payment: 'Off-platform payment',
+  spam_links: 'Too many links',
+  spam_repetition: 'Repeated text',
+  spam_caps: 'Excessive capitals',
+  invalid_image: 'Invalid image',
+  user_report: 'Reported by a user'
+}
+
+// Most severe action wins when several rules match
+const ACTION_SEVERITY: Record<ModerationAction, number> = { allow: 0, queue: 1, hide: 2 }
+
+// Common character swaps used to slip past word lists
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i'
+}
+
+// Runs of digits separated by spaces, dots, dashes or brackets, with an optional
+// international prefix. Candidates are kept only if they hold enough digits.
+const PHONE_PATTERN = /(?:\+|00)?\d(?:[\s.\-()]*\d){6,}/g
+const EMAIL_PATTERN = /[a-z0-9._%+-]+\s*(?:@|\(at\)|\[at\]|\sat\s)\s*[a-z0-9-]+(?:\s*(?:\.|\(dot\)|\[dot\]|\sdot\s)\s*[a-z0-9-]+)*\s*(?:\.|\(dot\)|\[dot\]|\sdot\s)\s*[a-z]{2,}/gi
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s]+|\b[a-z0-9-]+\.(?:com|net|org|io|co|me|ly|app|shop|store|biz|info)(?:\/[^\s]*)?\b/gi
+
+// Written-out digits used to dodge the phone pattern ("zero seven one ...")
+const DIGIT_WORDS: Record<string, string> = {
+  zero: '0', oh: '0', one: '1', two: '2', three: '3', four: '4',
+  five: '5', six: '6', seven: '7', eight: '8', nine: '9'
+}
+
+const MAX_REPEATED_CHARACTERS = 8
+const MAX_WORD_REPEATS = 5
+const MIN_CAPS_LENGTH = 20
+const MAX_CAPS_RATIO = 0.7
+
+// Leading bytes of each image type, to catch files whose declared type is wrong
+const IMAGE_SIGNATURES: Record<string, number[][]> = {
+  'image/jpeg': [[0xff, 0xd8, 0xff]],
+  'image/png': [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  'image/gif': [[0x47, 0x49, 0x46, 0x38]],
+  'image/webp': [[0x52, 0x49, 0x46, 0x46]]
+}
+const IMAGE_SIGNATURE_LENGTH = 12
+
+export function normalizeForMatching(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[013457@$!]/g, character => LEET_SUBSTITUTIONS[character])
+}
+
+// Match list entries as whole words (or phrases), ignoring separators people insert
+// between letters such as "f.u.c.k" or "what sapp"
+function findTerms(text: string, terms: string[]): string[] {
+  const normalized = normalizeForMatching(text)
+  const collapsed = normalized.replace(/[^a-z]/g, '')
+  const found: string[] = []
+
+  for (const term of terms) {
+    const needle = normalizeForMatching(term.trim())
+    if (!needle) continue
+    const wordPattern = new RegExp(`(^|[^a-z])${needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^a-z])`)
+    const collapsedNeedle = needle.replace(/[^a-z]/g, '')
+    // Collapsed matching is only safe for longer terms; short ones occur inside ordinary words
+    if (wordPattern.test(normalized) || (collapsedNeedle.length >= 6 && collapsed.includes(collapsedNeedle))) {
+      found.push(term.trim())
+    }
+  }
+  return found
+}
+
+function findPhoneNumbers(text: string): string[] {
+  const spelledOut = text
+    .toLowerCase()
+    .replace(/\b(zero|oh|one|two|three|four|five|six|seven|eight|nine)\b/g, word => DIGIT_WORDS[word])
+  return Array.from(new Set([...(text.match(PHONE_PATTERN) || []), ...(spelledOut.match(PHONE_PATTERN) || [])]))
+    // Order numbers, prices and dates are shorter than a phone number once separators go
+    .filter(candidate => candidate.replace(/\D/g, '').length >= 9)
+}
+
+function findLinks(text: string, allowedDomains: string[]): string[] {
+  const allowed = allowedDomains.map(domain => domain.trim().toLowerCase()).filter(Boolean)
+  return (text.match(URL_PATTERN) || []).filter(link => {
+    const host = link.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0]
+    return !allowed.some(domain => host === domain || host.endsWith(`.${domain}`))
+  })
+}
+
+function findRepetition(text: string): string | undefined {
+  const repeatedCharacter = text.match(new RegExp(`(.)\\1{${MAX_REPEATED_CHARACTERS - 1},}`))
+  if (repeatedCharacter) return repeatedCharacter[0]
+
+  const counts = new Map<string, number>()
+  for (const word of text.toLowerCase().split(/\s+/).filter(word => word.length > 2)) {
+    const count = (counts.get(word) || 0) + 1
+    if (count > MAX_WORD_REPEATS) return word
+    counts.set(word, count)
+  }
+  return undefined
+}
+
+function isShouting(text: string): boolean {
+  const letters = text.replace(/[^a-zA-Z]/g, '')
+  if (letters.length < MIN_CAPS_LENGTH) return false
+  return letters.replace(/[^A-Z]/g, '').length / letters.length > MAX_CAPS_RATIO
+}
+
+// Decide what to do with content from the flags raised against it
+export function resolveModerationAction(flags: ModerationFlag[], rules: ModerationRules): ModerationAction {
+  return flags.reduce<ModerationAction>((action, flag) => {
+    const flagAction = rules.actions[flag.code] || 'queue'
+    return ACTION_SEVERITY[flagAction] > ACTION_SEVERITY[action] ? flagAction : action
+  }, 'allow')
+}
+
+// Run every text rule and report what matched
+export function moderateText(text: string, rules: ModerationRules): ModerationFlag[] {
+  if (!text.trim()) return []
+  const flags: ModerationFlag[] = []
+
+  findTerms(text, rules.profanity).forEach(match => flags.push({ code: 'profanity', match }))
+  findPhoneNumbers(text).forEach(match => flags.push({ code: 'contact_phone', match }))
+  const emails = text.match(EMAIL_PATTERN) || []
+  emails.forEach(match => flags.push({ code: 'contact_email', match }))
+  findTerms(text, rules.offPlatformPaymentTerms).forEach(match => flags.push({ code: 'off_platform_payment', match }))
+
+  const links = findLinks(text, rules.allowedLinkDomains)
+  if (links.length > rules.maxLinks) {
+    flags.push({ code: 'spam_links', match: links.slice(0, 3).join(' ') })
+  }
+  const repetition = findRepetition(text)
+  if (repetition) {
+    flags.push({ code: 'spam_repetition', match: repetition.slice(0, 40) })
+  }
+  if (isShouting(text)) {
+    flags.push({ code: 'spam_caps' })
+  }
+
+  return flags
+}
+
+// Check an image's declared type against the allowed list and its first bytes
+// against that type's signature
+export function checkImage(
+  image: { name: string; type: string; header: Uint8Array },
+  rules: ModerationRules
+): ModerationFlag | undefined {
+  if (!rules.allowedImageTypes.includes(image.type)) {
+    return { code: 'invalid_image', match: `${image.name} (${image.type || 'unknown type'})` }
+  }
+
+  const signatures = IMAGE_SIGNATURES[image.type]
+  if (!signatures) return undefined
+
+  let matchesSignature = signatures.some(signature => signature.every((byte, index) => image.header[index] === byte))
+  // RIFF is shared with audio and video containers; WebP names itself at byte 8
+  if (matchesSignature && image.type === 'image/webp') {
+    matchesSignature = String.fromCharCode(...Array.from(image.header.slice(8, 12))) === 'WEBP'
+  }
+  if (!matchesSignature) {
+    return { code: 'invalid_image', match: `${image.name} (content is not ${image.type})` }
+  }
+  return undefined
+}
+
+// Files declared as images are checked; other attachments are left to the upload rules
+export async function moderateFiles(files: File[], rules: ModerationRules): Promise<ModerationFlag[]> {
+  const flags: ModerationFlag[] = []
+  for (const file of files.filter(candidate => candidate.type.startsWith('image/'))) {
+    const header = new Uint8Array(await file.slice(0, IMAGE_SIGNATURE_LENGTH).arrayBuffer())
+    const flag = checkImage({ name: file.name, type: file.type, header }, rules)
+    if (flag) flags.push(flag)
+  }
+  return flags
+}
+
+export function toModerationResult(flags: ModerationFlag[], rules: ModerationRules): ModerationResult {
+  return { action: resolveModerationAction(flags, rules), flags }
+}
@@ -0,0 +1,403 @@
+import {
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  onSnapshot,
+  writeBatch
+} from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { AuthorizationError, BaseError, NotFoundError } from '@/lib/errors'
+import { logger } from '@/lib/utils/logger'
+import { toDate } from '@/lib/utils/dates'
+import {
+  Notification,
+  NotificationChannel,
+  NotificationType,
+  Order,
+  OrderStatus,
+  ShipmentStatus,
+  User
+} from '@/types'
+import { emailService, EmailSendResult } from './email.service'
+import { createSmsSenderFromEnv } from './sms-sender'
+import { userService } from './user.service'
+
+// Domain events that notify a user. Publishers describe what happened; the service
+// decides the wording and which channels the user has opted into.
+export type NotificationEvent =
+  | {
+      type: 'order_status'
+      userId: string
+      order: Order
+      status: OrderStatus
+      trackingNumber?: string
+    }
+  | {
+      type: 'payment_result'
+      userId: string
+      orderId: string
+      succeeded: boolean
+      amount: number
+      currency: string
+      paymentMethod: string
+      transactionId: string
+      reason?: string
+    }
+  | {
+      type: 'chat_message'
+      userId: string
+      roomId: string
+      senderName: string
+      preview: string
+    }
+  | {
+      type: 'shipment_update'
+      userId: string
+      orderId: string
+      carrier: string
+      trackingNumber: string
+      status: ShipmentStatus
+      location?: string
+      estimatedDelivery?: Date
+    }
+  | {
+      type: 'supplier_approval'
+      userId: string
+      approved: boolean
+      reviewedBy: string
+      reason?: string
+    }
+
+// Sends text messages; SMS is only offered when a provider is configured
+export interface SmsSender {
+  send(to: string, body: string): Promise<void>
+}
+
+type NotificationContent = Pick<Notification, 'type' | 'title' | 'message' | 'link' | 'data'>
+
+const ORDER_STATUS_COPY: Record<OrderStatus, { title: string; message: (orderId: string) => string }> = {
+  pending: { title: 'Order Received', message: id => `We've received your order #${id} and are waiting for payment.` },
+  confirmed: { title: 'Order Confirmed', message: id => `Your order #${id} is confirmed and being prepared.` },
+  processing: { title: 'Order Processing', message: id => `Your order #${id} is being packed by the seller.` },
+  shipped: { title: 'Order Shipped', message: id => `Your order #${id} has been shipped and is on its way to you.` },
+  delivered: { title: 'Order Delivered', message: id => `Your order #${id} has been delivered.` },
+  cancelled: { title: 'Order Cancelled', message: id => `Your order #${id} has been cancelled.` }
+}
+
+// Only the statuses tracking treats as milestones have dedicated copy
+const SHIPMENT_STATUS_COPY: Partial<Record<ShipmentStatus, { title: string; message: (orderId: string) => string }>> = {
+  picked_up: { title: 'Parcel On Its Way', message: id => `The carrier has picked up a parcel from order #${id}.` },
+  out_for_delivery: { title: 'Out for Delivery', message: id => `A parcel from order #${id} is out for delivery today.` },
+  delivered: { title: 'Parcel Delivered', message: id => `A parcel from order #${id} has been delivered.` },
+  exception: { title: 'Delivery Problem', message: id => `The carrier reported a problem delivering a parcel from order #${id}.` },
+  returned: { title: 'Parcel Returned', message: id => `A parcel from order #${id} is being returned to the seller.` }
+}
+
+const MAX_SMS_LENGTH = 160
+
+export class NotificationService {
+  private readonly COLLECTION_NAME = 'notifications'
+  private smsSender?: SmsSender
+
+  constructor(smsSender?: SmsSender) {
+    this.smsSender = smsSender
+  }
+
+  // Record a domain event as an in-app notification, then deliver it on every other
+  // channel the user has enabled. Email and SMS failures are only logged; the
+  // in-app record is what the bell and notification page show.
+  async publish(event: NotificationEvent): Promise<Notification> {
+    try {
+      const user = await userService.getUserProfile(event.userId)
+      const { link, ...content } = this.describe(event)
+      const channels = this.resolveChannels(content.type, user)
+
+      const notificationRef = doc(collection(db, this.COLLECTION_NAME))
+      const notification: Notification = {
+        id: notificationRef.id,
+        userId: event.userId,
+        ...content,
+        ...(link ? { link } : {}),
+        channels,
+        isRead: false,
+        createdAt: new Date()
+      }
+      await setDoc(notificationRef, notification)
+
+      if (user && channels.includes('email')) {
+        try {
+          await this.sendEmail(event, user, notification)
+        } catch (error) {
+          logger.warn(`Failed to email notification ${notification.id}:`, error)
+        }
+      }
+      if (this.smsSender && user?.phoneNumber && channels.includes('sms')) {
+        try {
+          await this.smsSender.send(user.phoneNumber, `${notification.title}: ${notification.message}`.slice(0, MAX_SMS_LENGTH))
+        } catch (error) {
+          logger.warn(`Failed to text notification ${notification.id}:`, error)
+        }
+      }
+      // 'push' is shown by the user's open browser sessions as they receive the notification
+
+      return notification
+    } catch (error) {
+      logger.error('Error publishing notification:', error)
+      throw new Error('Failed to publish notification')
+    }
+  }
+
+  // Get a user's notifications, newest first
+  async getUserNotifications(userId: string, maxResults: number = 50): Promise<Notification[]> {
+    try {
+      const notificationsQuery = query(
+        collection(db, this.COLLECTION_NAME),
+        where('userId', '==', userId),
+        orderBy('createdAt', 'desc'),
+        limit(maxResults)
+      )
+      const snapshot = await getDocs(notificationsQuery)
+      return snapshot.docs.map(notificationDoc => this.toNotification(notificationDoc.id, notificationDoc.data()))
+    } catch (error) {
+      logger.error('Error getting notifications:', error)
+      throw new Error('Failed to fetch notifications')
+    }
+  }
+
+  // Listen to a user's latest notifications and unread count. Returns the unsubscribe function.
+  subscribeToNotifications(
+    userId: string,
+    callback: (notifications: Notification[], unreadCount: number) => void,
+    maxResults: number = 10
+  ): () => void {
+    let latest: Notification[] = []
+    let unreadCount = 0
+
+    try {
+      const unsubscribeLatest = onSnapshot(
+        query(
+          collection(db, this.COLLECTION_NAME),
+          where('userId', '==', userId),
+          orderBy('createdAt', 'desc'),
+          limit(maxResults)
+        ),
+        (snapshot) => {
+          latest = snapshot.docs.map(notificationDoc => this.toNotification(notificationDoc.id, notificationDoc.data()))
+          callback(latest, unreadCount)
+        },
+        (error) => {
+          logger.error('Error in notification subscription:', error)
+        }
+      )
+      const unsubscribeUnread = onSnapshot(
+        query(
+          collection(db, this.COLLECTION_NAME),
+          where('userId', '==', userId),
+          where('isRead', '==', false)
+        ),
+        (snapshot) => {
+          unreadCount = snapshot.size
+          callback(latest, unreadCount)
+        },
+        (error) => {
+          logger.error('Error in unread notification subscription:', error)
+        }
+      )
+
+      return () => {
+        unsubscribeLatest()
+        unsubscribeUnread()
+      }
+    } catch (error) {
+      logger.error('Error setting up notification subscription:', error)
+      return () => {}
+    }
+  }
+
+  // Mark one notification as read
+  async markAsRead(notificationId: string, userId: string): Promise<void> {
+    try {
+      await this.assertOwner(notificationId, userId)
+      await updateDoc(doc(db, this.COLLECTION_NAME, notificationId), {
+        isRead: true,
+        readAt: new Date()
+      })
+    } catch (error) {
+      logger.error('Error marking notification as read:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to update notification')
+    }
+  }
+
+  // Mark all of a user's unread notifications as read
+  async markAllAsRead(userId: string): Promise<void> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.COLLECTION_NAME),
+        where('userId', '==', userId),
+        where('isRead', '==', false)
+      ))
+      if (snapshot.empty) return
+
+      const readAt = new Date()
+      const batch = writeBatch(db)
+      snapshot.docs.forEach(notificationDoc => {
+        batch.update(notificationDoc.ref, { isRead: true, readAt })
+      })
+      await batch.commit()
+    } catch (error) {
+      logger.error('Error marking notifications as read:', error)
+      throw new Error('Failed to update notifications')
+    }
+  }
+
+  // Delete a notification
+  async deleteNotification(notificationId: string, userId: string): Promise<void> {
+    try {
+      await this.assertOwner(notificationId, userId)
+      await deleteDoc(doc(db, this.COLLECTION_NAME, notificationId))
+    } catch (error) {
+      logger.error('Error deleting notification:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to delete notification')
+    }
+  }
+
+  // In-app is always on. Promotions go out on other channels only with marketing
+  // consent; everything else follows the email/push/sms switches, which default to
+  // email and push for users who never saved preferences.
+  private resolveChannels(type: NotificationType, user: User | null): NotificationChannel[] {
+    const channels: NotificationChannel[] = ['in_app']
+    if (!user) return channels
+
+    const preferences = user.preferences?.notifications
+    if (type === 'promotion' && !preferences?.marketing) return channels
+
+    if (preferences?.email ?? true) channels.push('email')
+    if (preferences?.push ?? true) channels.push('push')
+    if (preferences?.sms && user.phoneNumber && this.smsSender) channels.push('sms')
+    return channels
+  }
+
+  private describe(event: NotificationEvent): NotificationContent {
+    switch (event.type) {
+      case 'order_status': {
+        const copy = ORDER_STATUS_COPY[event.status]
+        return {
+          type: event.status === 'shipped' || event.status === 'delivered' ? 'shipping' : 'order',
+          title: copy.title,
+          message: copy.message(event.order.id) + (event.trackingNumber ? ` Tracking number: ${event.trackingNumber}.` : ''),
+          link: `/customer/orders/${event.order.id}`,
+          data: { orderId: event.order.id, status: event.status }
+        }
+      }
+      case 'payment_result':
+        return {
+          type: 'payment',
+          title: event.succeeded ? 'Payment Successful' : 'Payment Failed',
+          message: event.succeeded
+            ? `Your payment of ${event.currency} ${event.amount.toFixed(2)} for order #${event.orderId} was received.`
+            : `Your payment of ${event.currency} ${event.amount.toFixed(2)} for order #${event.orderId} failed: ${event.reason || 'Payment processing failed'}.`,
+          link: `/customer/orders/${event.orderId}`,
+          data: { orderId: event.orderId, transactionId: event.transactionId }
+        }
+      case 'chat_message':
+        return {
+          type: 'message',
+          title: `New message from ${event.senderName}`,
+          message: event.preview,
+          link: `/chat?room=${event.roomId}`,
+          data: { roomId: event.roomId }
+        }
+      case 'shipment_update': {
+        const copy = SHIPMENT_STATUS_COPY[event.status]
+        const details = [
+          event.location ? ` Last seen: ${event.location}.` : '',
+          event.estimatedDelivery && event.status !== 'delivered'
+            ? ` Expected by ${event.estimatedDelivery.toLocaleDateString()}.`
+            : ''
+        ].join('')
+        return {
+          type: 'shipping',
+          title: copy?.title || 'Shipment Update',
+          message: (copy?.message(event.orderId) || `There is news on a parcel from order #${event.orderId}.`) +
+            ` ${event.carrier} tracking number: ${event.trackingNumber}.` + details,
+          link: `/customer/orders/${event.orderId}/tracking`,
+          data: { orderId: event.orderId, trackingNumber: event.trackingNumber, status: event.status }
+        }
+      }
+      case 'supplier_approval':
+        return {
+          type: 'account',
+          title: event.approved ? 'Supplier Account Approved' : 'Supplier Application Declined',
+          message: event.approved
+            ? 'Your supplier account is active. You can start listing products.'
+            : `Your supplier application was not approved${event.reason ? `: ${event.reason}` : '.'}`,
+          link: event.approved ? '/supplier' : undefined,
+          data: { approved: event.approved }
+        }
+    }
+  }
+
+  // Events with a dedicated email template use it; the rest get the generic layout
+  private async sendEmail(event: NotificationEvent, user: User, notification: Notification): Promise<EmailSendResult> {
+    switch (event.type) {
+      case 'order_status':
+        if (event.status === 'confirmed') {
+          return emailService.sendOrderConfirmation(user, event.order)
+        }
+        if (event.status === 'shipped') {
+          return emailService.sendOrderShipped(user, event.order, event.trackingNumber)
+        }
+        break
+      case 'payment_result': {
+        const details = {
+          orderId: event.orderId,
+          amount: event.amount,
+          currency: event.currency,
+          paymentMethod: event.paymentMethod,
+          transactionId: event.transactionId
+        }
+        return event.succeeded
+          ? emailService.sendPaymentConfirmation(user, details)
+          : emailService.sendPaymentFailure(user, { ...details, reason: event.reason || 'Payment processing failed' })
+      }
+      case 'supplier_approval':
+        return event.approved
+          ? emailService.sendSupplierApprovalSuccess(user, event.reviewedBy)
+          : emailService.sendSupplierRejection(user, event.reason || 'Not specified', event.reviewedBy)
+    }
+    return emailService.sendNotification(user, notification)
+  }
+
+  private async assertOwner(notificationId: string, userId: string): Promise<void> {
+    const notificationDoc = await getDoc(doc(db, this.COLLECTION_NAME, notificationId))
+    if (!notificationDoc.exists()) {
+      throw new NotFoundError('Notification', notificationId)
+    }
+    if (notificationDoc.data().userId !== userId) {
+      throw new AuthorizationError('Notification belongs to another user')
+    }
+  }
+
+  private toNotification(id: string, data: Record<string, any>): Notification {
+    return {
+      ...data,
+      id,
+      channels: data.channels || ['in_app'],
+      isRead: !!data.isRead,
+      createdAt: toDate(data.createdAt)!,
+      readAt: toDate(data.readAt)
+    } as Notification
+  }
+}
+
+export const notificationService = new NotificationService(createSmsSenderFromEnv())
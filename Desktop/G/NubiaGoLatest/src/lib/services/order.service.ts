@@ -1,30 +1,31 @@
 import { 
   doc, 
   getDoc, 
-  setDoc, 
   updateDoc, 
   collection, 
   query, 
   where, 
   orderBy, 
   getDocs,
-  addDoc
+  addDoc,
+  runTransaction
 } from 'firebase/firestore'
 import { db } from '@/lib/firebase/config'
-import { Order, OrderItem, OrderStatus, PaymentStatus, Address, Product } from '@/types'
+import { Order, OrderItem, OrderStatus, PaymentStatus, Address, Product, SubOrder } from '@/types'
 import { cartService } from './cart.service'
 import { productService } from './product.service'
 import { paymentService } from './payment.service'
-import { emailService } from './email.service'
-
-export interface InventoryItem {
-  productId: string
-  quantity: number
-  reservedQuantity: number
-  availableQuantity: number
-  lowStockThreshold: number
-  lastUpdated: Date
-}
+import { notificationService } from './notification.service'
+import { chatService } from './chat.service'
+import { subOrderService } from './sub-order.service'
+import { payoutService } from './payout.service'
+import { currencyService } from './currency.service'
+import { InventoryItem, inventoryReservationService } from './inventory-reservation.service'
+import { getInventoryKey } from '@/lib/product-variants'
+import { BaseError, ConflictError } from '@/lib/errors'
+import { BASE_CURRENCY, toOrderCurrency } from '@/lib/currency'
+
+export type { InventoryItem } from './inventory-reservation.service'
 
 export interface OrderProcessingResult {
   success: boolean
@@ -51,19 +52,21 @@ export class OrderService {
     notes?: string
   }): Promise<OrderProcessingResult> {
     try {
-      // Step 1: Validate and reserve inventory
-      const inventoryResult = await this.reserveInventory(orderData.items)
-      if (!inventoryResult.success) {
-        return {
-          success: false,
-          error: `Inventory reservation failed: ${inventoryResult.error}`
+      // Step 1: Create order; this holds its stock until payment completes or the hold expires
+      let order: Order
+      try {
+        order = await this.createOrder(orderData)
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          return {
+            success: false,
+            error: `Inventory reservation failed: ${error.message}`
+          }
         }
+        throw error
       }
-
-      // Step 2: Create order
-      const order = await this.createOrder(orderData)
       
-      // Step 3: Process payment
+      // Step 2: Process payment
       const paymentResult = await this.processOrderPayment(order, {
         customerEmail: orderData.customerEmail,
         customerName: orderData.customerName,
@@ -72,7 +75,7 @@ export class OrderService {
 
       if (!paymentResult.success) {
         // Rollback inventory reservation
-        await this.releaseInventoryReservation(orderData.items)
+        await inventoryReservationService.release(order.id, 'payment_failed')
         return {
           success: false,
           error: `Payment processing failed: ${paymentResult.error}`,
@@ -80,33 +83,16 @@ export class OrderService {
         }
       }
 
-      // Step 4: Confirm inventory allocation
-      await this.confirmInventoryAllocation(orderData.items)
+      // Step 3: Confirm inventory allocation
+      await inventoryReservationService.commit(order.id)
 
-      // Step 5: Update order status
+      // Step 4: Update order status (notifies the customer)
       const confirmedOrder = await this.updateOrderStatus(order.id, 'confirmed')
       await this.updatePaymentStatus(order.id, 'paid')
 
-      // Send confirmation email
-      try {
-        await emailService.sendOrderConfirmation(
-          { 
-            uid: 'temp-user-id',
-            email: orderData.customerEmail, 
-            name: orderData.customerName,
-            role: 'customer',
-            createdAt: new Date()
-          },
-          confirmedOrder
-        )
-      } catch (emailError) {
-        console.warn('Failed to send order confirmation email:', emailError)
-      }
-
       return {
         success: true,
         order: confirmedOrder,
-        inventoryUpdates: inventoryResult.inventoryUpdates,
         paymentResult
       }
     } catch (error) {
@@ -127,6 +113,8 @@ export class OrderService {
     paymentMethod: string
     shippingMethod: string
     notes?: string
+    // Shopper's display currency; the order is charged in it at today's rate
+    currency?: string
   }): Promise<Order> {
     try {
       // Validate cart before creating order
@@ -140,25 +128,48 @@ export class OrderService {
       const shipping = await cartService.calculateShipping(orderData.userId, orderData.shippingMethod)
       const tax = subtotal * 0.1 // 10% tax rate
       const total = subtotal + shipping + tax
+      const { currency, exchangeRate } = await currencyService.lockRate(orderData.currency)
 
       // Create order
       const newOrder: Order = {
         id: `order-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         userId: orderData.userId,
         items: orderData.items,
+        subtotal,
+        shippingCost: shipping,
+        tax,
         total,
         status: 'pending',
         paymentStatus: 'pending',
         paymentMethod: orderData.paymentMethod,
         shippingAddress: orderData.shippingAddress,
         billingAddress: orderData.billingAddress,
+        currency,
+        exchangeRate,
         createdAt: new Date(),
         updatedAt: new Date()
       }
 
-      // Save order to Firestore
-      const orderRef = doc(db, this.COLLECTION_NAME, newOrder.id)
-      await setDoc(orderRef, newOrder)
+      // Hold the stock first; throws a ConflictError if any line is no longer available
+      await inventoryReservationService.holdForOrder(newOrder)
+
+      let subOrders: SubOrder[]
+      try {
+        // Save the order and its split into one sub-order per supplier (for fulfilment
+        // and payouts) in a single write
+        subOrders = await subOrderService.createSubOrders(newOrder, shipping)
+        newOrder.subOrderIds = subOrders.map(subOrder => subOrder.id)
+      } catch (error) {
+        await inventoryReservationService.release(newOrder.id, 'cancelled')
+        throw error
+      }
+
+      // Open the buyer/seller conversation for this order; the order stands without it
+      try {
+        await chatService.openOrderRoom(newOrder, subOrders.map(subOrder => subOrder.supplierId))
+      } catch (error) {
+        console.warn(`Failed to open chat room for order ${newOrder.id}:`, error)
+      }
 
       // Clear cart after successful order creation
       await cartService.clearCart(orderData.userId)
@@ -166,6 +177,7 @@ export class OrderService {
       return newOrder
     } catch (error) {
       console.error('Error creating order:', error)
+      if (error instanceof BaseError) throw error
       throw new Error('Failed to create order')
     }
   }
@@ -235,7 +247,7 @@ export class OrderService {
   }
 
   // Update order status
-  async updateOrderStatus(orderId: string, status: OrderStatus): Promise<Order> {
+  async updateOrderStatus(orderId: string, status: OrderStatus, options: { trackingNumber?: string } = {}): Promise<Order> {
     try {
       const orderRef = doc(db, this.COLLECTION_NAME, orderId)
       await updateDoc(orderRef, {
@@ -243,8 +255,26 @@ export class OrderService {
         updatedAt: new Date()
       })
 
+      if (status === 'confirmed' || status === 'cancelled') {
+        await subOrderService.propagateParentStatus(orderId, status)
+      }
+
       const updatedDoc = await getDoc(orderRef)
-      return updatedDoc.data() as Order
+      const updatedOrder = { id: updatedDoc.id, ...updatedDoc.data() } as Order
+
+      try {
+        await notificationService.publish({
+          type: 'order_status',
+          userId: updatedOrder.userId,
+          order: updatedOrder,
+          status,
+          trackingNumber: options.trackingNumber
+        })
+      } catch (notificationError) {
+        console.warn('Failed to send order status notification:', notificationError)
+      }
+
+      return updatedOrder
     } catch (error) {
       console.error('Error updating order status:', error)
       throw new Error('Failed to update order status')
@@ -303,10 +333,10 @@ export class OrderService {
         status: 'cancelled',
         updatedAt: new Date()
       })
+      await subOrderService.propagateParentStatus(orderId, 'cancelled')
 
-      // Restore items to inventory if needed
-      // Restore inventory
-      await this.releaseInventoryReservation(order.items)
+      // Return held (or already sold) stock; a no-op if it was released before
+      await inventoryReservationService.release(orderId, 'cancelled')
 
       const updatedDoc = await getDoc(orderRef)
       return updatedDoc.data() as Order
@@ -434,22 +464,36 @@ export class OrderService {
     }
   }
 
-  // Refund order
-  async refundOrder(orderId: string, refundAmount: number, reason?: string): Promise<Order> {
+  // Refund order. A partial refund (e.g. a returned item) leaves the order open and
+  // only claws back from the given sub-order; once refunds reach the order total the
+  // whole order is marked refunded.
+  async refundOrder(
+    orderId: string,
+    refundAmount: number,
+    reason?: string,
+    options: { subOrderId?: string } = {}
+  ): Promise<Order> {
     try {
       const order = await this.getOrder(orderId)
       if (!order) {
         throw new Error('Order not found')
       }
 
-      if (order.paymentStatus !== 'paid') {
+      if (order.paymentStatus !== 'paid' && order.paymentStatus !== 'partial') {
         throw new Error('Order is not paid')
       }
 
-      // Process refund through payment gateway
+      const alreadyRefunded = order.refundedAmount || 0
+      if (alreadyRefunded + refundAmount > order.total + 0.005) {
+        throw new Error('Refund exceeds the amount paid')
+      }
+
+      // Process refund through payment gateway, in the currency paid at the checkout rate
+      const charged = toOrderCurrency(refundAmount, order)
       const refundResult = await paymentService.processRefund({
         paymentId: order.id,
-        amount: refundAmount,
+        amount: charged.amount,
+        currency: charged.currency,
         reason: reason || 'Customer requested refund'
       })
 
@@ -457,11 +501,25 @@ export class OrderService {
         throw new Error(`Refund processing failed: ${refundResult.message}`)
       }
 
+      // Claw the refund back from the suppliers' payable balances
+      const subOrders = await subOrderService.getSubOrdersForOrder(orderId)
+      if (options.subOrderId) {
+        const subOrder = subOrders.find(candidate => candidate.id === options.subOrderId)
+        if (subOrder && subOrder.status === 'delivered') {
+          await payoutService.recordRefund(subOrder, refundAmount, refundResult.refundId, BASE_CURRENCY)
+        }
+      } else {
+        await payoutService.recordOrderRefund(subOrders, refundAmount, refundResult.refundId, BASE_CURRENCY)
+      }
+
       // Update order status
+      const refundedAmount = Math.round((alreadyRefunded + refundAmount) * 100) / 100
+      const fullyRefunded = refundedAmount >= order.total - 0.005
       const orderRef = doc(db, this.COLLECTION_NAME, orderId)
       await updateDoc(orderRef, {
-        status: 'refunded',
-        paymentStatus: 'refunded',
+        ...(fullyRefunded ? { status: 'refunded' } : {}),
+        paymentStatus: fullyRefunded ? 'refunded' : 'partial',
+        refundedAmount,
         updatedAt: new Date()
       })
 
@@ -473,52 +531,15 @@ export class OrderService {
     }
   }
 
-  // Inventory Management Methods
+  // Inventory Management Methods. Orders placed through createOrder hold their stock
+  // in inventoryReservationService; these adjust stock for a bare list of items.
   async reserveInventory(items: OrderItem[]): Promise<{
     success: boolean
     error?: string
     inventoryUpdates?: InventoryItem[]
   }> {
     try {
-      const inventoryUpdates: InventoryItem[] = []
-      
-      for (const item of items) {
-        const inventoryRef = doc(db, this.INVENTORY_COLLECTION, item.productId)
-        const inventoryDoc = await getDoc(inventoryRef)
-        
-        let inventory: InventoryItem
-        
-        if (inventoryDoc.exists()) {
-          inventory = inventoryDoc.data() as InventoryItem
-        } else {
-          // Create new inventory record
-          inventory = {
-            productId: item.productId,
-            quantity: 100, // Default stock
-            reservedQuantity: 0,
-            availableQuantity: 100,
-            lowStockThreshold: 10,
-            lastUpdated: new Date()
-          }
-        }
-        
-        // Check availability
-        if (inventory.availableQuantity < item.quantity) {
-          return {
-            success: false,
-            error: `Insufficient stock for product ${item.productId}. Available: ${inventory.availableQuantity}, Requested: ${item.quantity}`
-          }
-        }
-        
-        // Reserve inventory
-        inventory.reservedQuantity += item.quantity
-        inventory.availableQuantity -= item.quantity
-        inventory.lastUpdated = new Date()
-        
-        await setDoc(inventoryRef, inventory)
-        inventoryUpdates.push(inventory)
-      }
-      
+      const inventoryUpdates = await inventoryReservationService.adjustStock(items, 'reserve')
       return {
         success: true,
         inventoryUpdates
@@ -534,30 +555,7 @@ export class OrderService {
   
   async confirmInventoryAllocation(items: OrderItem[]): Promise<void> {
     try {
-      for (const item of items) {
-        const inventoryRef = doc(db, this.INVENTORY_COLLECTION, item.productId)
-        const inventoryDoc = await getDoc(inventoryRef)
-        
-        if (inventoryDoc.exists()) {
-          const inventory = inventoryDoc.data() as InventoryItem
-          
-          // Move from reserved to allocated (reduce total quantity)
-          inventory.quantity -= item.quantity
-          inventory.reservedQuantity -= item.quantity
-          inventory.lastUpdated = new Date()
-          
-          await updateDoc(inventoryRef, {
-            quantity: inventory.quantity,
-            reservedQuantity: inventory.reservedQuantity,
-            lastUpdated: inventory.lastUpdated
-          })
-          
-          // Check for low stock alert
-          if (inventory.quantity <= inventory.lowStockThreshold) {
-            console.warn(`Low stock alert for product ${item.productId}: ${inventory.quantity} remaining`)
-          }
-        }
-      }
+      await inventoryReservationService.adjustStock(items, 'commit')
     } catch (error) {
       console.error('Inventory allocation confirmation error:', error)
       throw new Error('Failed to confirm inventory allocation')
@@ -566,34 +564,16 @@ export class OrderService {
   
   async releaseInventoryReservation(items: OrderItem[]): Promise<void> {
     try {
-      for (const item of items) {
-        const inventoryRef = doc(db, this.INVENTORY_COLLECTION, item.productId)
-        const inventoryDoc = await getDoc(inventoryRef)
-        
-        if (inventoryDoc.exists()) {
-          const inventory = inventoryDoc.data() as InventoryItem
-          
-          // Release reservation
-          inventory.reservedQuantity -= item.quantity
-          inventory.availableQuantity += item.quantity
-          inventory.lastUpdated = new Date()
-          
-          await updateDoc(inventoryRef, {
-            reservedQuantity: inventory.reservedQuantity,
-            availableQuantity: inventory.availableQuantity,
-            lastUpdated: inventory.lastUpdated
-          })
-        }
-      }
+      await inventoryReservationService.adjustStock(items, 'release')
     } catch (error) {
       console.error('Inventory reservation release error:', error)
       throw new Error('Failed to release inventory reservation')
     }
   }
   
-  async getInventoryStatus(productId: string): Promise<InventoryItem | null> {
+  async getInventoryStatus(productId: string, variant?: { id: string; sku: string }): Promise<InventoryItem | null> {
     try {
-      const inventoryRef = doc(db, this.INVENTORY_COLLECTION, productId)
+      const inventoryRef = doc(db, this.INVENTORY_COLLECTION, getInventoryKey({ productId, variant }))
       const inventoryDoc = await getDoc(inventoryRef)
       
       if (inventoryDoc.exists()) {
@@ -607,38 +587,43 @@ export class OrderService {
     }
   }
   
-  async updateInventory(productId: string, quantity: number): Promise<InventoryItem> {
+  async updateInventory(productId: string, quantity: number, variant?: { id: string; sku: string }): Promise<InventoryItem> {
     try {
-      const inventoryRef = doc(db, this.INVENTORY_COLLECTION, productId)
-      const inventoryDoc = await getDoc(inventoryRef)
-      
-      let inventory: InventoryItem
-      
-      if (inventoryDoc.exists()) {
-        inventory = inventoryDoc.data() as InventoryItem
-        inventory.quantity = quantity
-        inventory.availableQuantity = quantity - inventory.reservedQuantity
-      } else {
-        inventory = {
-          productId,
-          quantity,
-          reservedQuantity: 0,
-          availableQuantity: quantity,
-          lowStockThreshold: 10,
-          lastUpdated: new Date()
+      const inventoryRef = doc(db, this.INVENTORY_COLLECTION, getInventoryKey({ productId, variant }))
+
+      // In a transaction so units reserved by a concurrent checkout aren't lost
+      return await runTransaction(db, async (transaction) => {
+        const inventoryDoc = await transaction.get(inventoryRef)
+        
+        let inventory: InventoryItem
+        
+        if (inventoryDoc.exists()) {
+          inventory = inventoryDoc.data() as InventoryItem
+          inventory.quantity = quantity
+          inventory.availableQuantity = quantity - inventory.reservedQuantity
+        } else {
+          inventory = {
+            productId,
+            ...(variant ? { variantId: variant.id, sku: variant.sku } : {}),
+            quantity,
+            reservedQuantity: 0,
+            availableQuantity: quantity,
+            lowStockThreshold: 10,
+            lastUpdated: new Date()
+          }
         }
-      }
-      
-      inventory.lastUpdated = new Date()
-      await setDoc(inventoryRef, inventory)
-      
-      return inventory
+        
+        inventory.lastUpdated = new Date()
+        transaction.set(inventoryRef, inventory)
+        
+        return inventory
+      })
     } catch (error) {
       console.error('Error updating inventory:', error)
       throw new Error('Failed to update inventory')
     }
   }
-  
+
   // Order fulfillment workflow
   async fulfillOrder(orderId: string, trackingNumber?: string): Promise<Order> {
     try {
@@ -651,31 +636,12 @@ export class OrderService {
         throw new Error('Order must be confirmed before fulfillment')
       }
       
-      // Update order status to shipped
-      const updatedOrder = await this.updateOrderStatus(orderId, 'shipped')
-      
       if (trackingNumber) {
         await this.addTrackingNumber(orderId, trackingNumber)
       }
       
-      // Send shipping notification email
-      try {
-        await emailService.sendOrderShipped(
-          { 
-            uid: 'temp-user-id',
-            email: order.userId, // Use userId as email fallback
-            name: 'Customer',
-            role: 'customer',
-            createdAt: new Date()
-          },
-          updatedOrder,
-          trackingNumber
-        )
-      } catch (emailError) {
-        console.warn('Failed to send shipping notification:', emailError)
-      }
-      
-      return updatedOrder
+      // Update order status to shipped (notifies the customer)
+      return await this.updateOrderStatus(orderId, 'shipped', { trackingNumber })
     } catch (error) {
       console.error('Order fulfillment error:', error)
       throw new Error('Failed to fulfill order')
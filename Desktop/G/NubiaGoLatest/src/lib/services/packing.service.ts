@@ -0,0 +1,197 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { BaseError, NotFoundError, ValidationError } from '@/lib/errors'
+import { logger } from '@/lib/utils/logger'
+import { ShippingBox, SubOrder } from '@/types'
+import type { ShippingPackage } from './logistics.service'
+import {
+  DEFAULT_ITEM_SIZE,
+  DEFAULT_SHIPPING_BOXES,
+  PackableItem,
+  packItems,
+  PackingPlan,
+  toCm,
+  toKg,
+  toShippingPackages
+} from './shipping/packing'
+
+export interface PackingRequestItem {
+  productId: string
+  quantity: number
+}
+
+// Plan for the part of an order one supplier ships
+export interface SupplierPackingPlan extends PackingPlan {
+  supplierId: string
+}
+
+// Packing is per unit, so very large orders are quoted by hand
+export const MAX_PACKING_UNITS = 500
+const MAX_SHIPPING_BOXES = 20
+
+export class PackingService {
+  private readonly SUPPLIERS_COLLECTION = 'suppliers'
+  private readonly PRODUCTS_COLLECTION = 'products'
+
+  // Box sizes a supplier packs with, or the standard sizes if they never set any
+  async getSupplierBoxes(supplierId: string): Promise<ShippingBox[]> {
+    if (!supplierId) return DEFAULT_SHIPPING_BOXES
+
+    try {
+      const supplierDoc = await getDoc(doc(db, this.SUPPLIERS_COLLECTION, supplierId))
+      const boxes = supplierDoc.exists() ? supplierDoc.data().shippingBoxes : undefined
+      return Array.isArray(boxes) && boxes.length > 0 ? boxes : DEFAULT_SHIPPING_BOXES
+    } catch (error) {
+      logger.error('Error fetching supplier shipping boxes:', error)
+      throw new Error('Failed to fetch shipping boxes')
+    }
+  }
+
+  // Replace a supplier's box sizes. An empty list goes back to the standard sizes.
+  async updateSupplierBoxes(supplierId: string, input: Partial<ShippingBox>[]): Promise<ShippingBox[]> {
+    const fieldErrors: Record<string, string[]> = {}
+    if (!Array.isArray(input) || input.length > MAX_SHIPPING_BOXES) {
+      throw new ValidationError(`Provide up to ${MAX_SHIPPING_BOXES} boxes`)
+    }
+
+    const boxes: ShippingBox[] = input.map((box, index) => {
+      const name = typeof box.name === 'string' ? box.name.trim() : ''
+      if (!name) {
+        fieldErrors[`boxes.${index}.name`] = ['Name is required']
+      }
+      const positive = (field: 'length' | 'width' | 'height' | 'maxWeight') => {
+        const value = box[field]
+        if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+          fieldErrors[`boxes.${index}.${field}`] = ['Must be greater than 0']
+          return 0
+        }
+        return value
+      }
+      const emptyWeight = box.emptyWeight ?? 0
+      if (typeof emptyWeight !== 'number' || !isFinite(emptyWeight) || emptyWeight < 0) {
+        fieldErrors[`boxes.${index}.emptyWeight`] = ['Must be zero or more']
+      }
+
+      const maxWeight = positive('maxWeight')
+      if (maxWeight > 0 && emptyWeight >= maxWeight) {
+        fieldErrors[`boxes.${index}.maxWeight`] = ['Must be more than the empty box weighs']
+      }
+
+      return {
+        id: typeof box.id === 'string' && box.id.trim() ? box.id.trim() : `box-${index + 1}`,
+        name,
+        length: positive('length'),
+        width: positive('width'),
+        height: positive('height'),
+        maxWeight,
+        emptyWeight
+      }
+    })
+
+    if (new Set(boxes.map(box => box.id)).size !== boxes.length) {
+      fieldErrors.boxes = ['Box ids must be unique']
+    }
+    if (Object.keys(fieldErrors).length > 0) {
+      throw new ValidationError('Invalid shipping boxes', fieldErrors)
+    }
+
+    try {
+      await setDoc(
+        doc(db, this.SUPPLIERS_COLLECTION, supplierId),
+        { shippingBoxes: boxes, updatedAt: new Date() },
+        { merge: true }
+      )
+      return boxes.length > 0 ? boxes : DEFAULT_SHIPPING_BOXES
+    } catch (error) {
+      logger.error('Error saving supplier shipping boxes:', error)
+      throw new Error('Failed to save shipping boxes')
+    }
+  }
+
+  // Pack order items, one plan per supplier since each ships from their own address
+  async planShipments(items: PackingRequestItem[]): Promise<SupplierPackingPlan[]> {
+    this.checkUnitCount(items)
+
+    try {
+      const bySupplier = new Map<string, PackableItem[]>()
+      for (const { supplierId, item } of await this.toPackableItems(items)) {
+        bySupplier.set(supplierId, [...(bySupplier.get(supplierId) || []), item])
+      }
+
+      return await Promise.all(Array.from(bySupplier.entries()).map(async ([supplierId, packable]) => ({
+        supplierId,
+        ...packItems(packable, await this.getSupplierBoxes(supplierId))
+      })))
+    } catch (error) {
+      if (error instanceof BaseError) throw error
+      logger.error('Error planning shipment packing:', error)
+      throw new Error('Failed to plan packing')
+    }
+  }
+
+  // Packages for every box of an order, across suppliers, ready for rate quotes
+  async packagesForItems(items: PackingRequestItem[]): Promise<ShippingPackage[]> {
+    const plans = await this.planShipments(items)
+    return plans.reduce<ShippingPackage[]>((packages, plan) => packages.concat(toShippingPackages(plan)), [])
+  }
+
+  // Packages for one supplier's sub-order, packed in that supplier's boxes
+  async packagesForSubOrder(subOrder: SubOrder): Promise<ShippingPackage[]> {
+    const items = subOrder.items.map(item => ({ productId: item.productId, quantity: item.quantity }))
+    this.checkUnitCount(items)
+
+    try {
+      const packable = (await this.toPackableItems(items)).map(({ item }) => item)
+      return toShippingPackages(packItems(packable, await this.getSupplierBoxes(subOrder.supplierId)))
+    } catch (error) {
+      if (error instanceof BaseError) throw error
+      logger.error('Error packing sub-order:', error)
+      throw new Error('Failed to plan packing')
+    }
+  }
+
+  private checkUnitCount(items: PackingRequestItem[]): void {
+    const units = items.reduce((total, item) => total + item.quantity, 0)
+    if (units > MAX_PACKING_UNITS) {
+      throw new ValidationError(`Orders of more than ${MAX_PACKING_UNITS} units are quoted on request`)
+    }
+  }
+
+  // Size and weight of each product, from the product form or a spreadsheet import.
+  // Missing values are assumed, and the item is flagged as estimated.
+  private async toPackableItems(items: PackingRequestItem[]): Promise<Array<{ supplierId: string; item: PackableItem }>> {
+    return Promise.all(items.map(async ({ productId, quantity }) => {
+      const productDoc = await getDoc(doc(db, this.PRODUCTS_COLLECTION, productId))
+      if (!productDoc.exists()) {
+        throw new NotFoundError('Product', productId)
+      }
+
+      const product = productDoc.data()
+      const positive = (value: unknown): value is number => typeof value === 'number' && value > 0
+      // Imports write zeros for blank cells, so only sides that were filled in count
+      const sidesOf = (dimensions: any, unit?: 'cm' | 'in' | 'm' | 'ft') =>
+        dimensions && [dimensions.length, dimensions.width, dimensions.height].every(positive)
+          ? [dimensions.length, dimensions.width, dimensions.height].map((side: number) => toCm(side, unit))
+          : null
+      const sides = sidesOf(product.shipping?.dimensions) || sidesOf(product.dimensions, product.dimensions?.unit)
+      const weight = positive(product.shipping?.weight)
+        ? product.shipping.weight
+        : positive(product.weight) ? toKg(product.weight, product.weightUnit) : 0
+
+      return {
+        supplierId: product.supplierId || '',
+        item: {
+          id: productId,
+          quantity,
+          length: sides ? sides[0] : DEFAULT_ITEM_SIZE.length,
+          width: sides ? sides[1] : DEFAULT_ITEM_SIZE.width,
+          height: sides ? sides[2] : DEFAULT_ITEM_SIZE.height,
+          weight: weight || DEFAULT_ITEM_SIZE.weight,
+          ...(!sides || !weight ? { estimated: true } : {})
+        }
+      }
+    }))
+  }
+}
+
+export const packingService = new PackingService()
@@ -1,4 +1,5 @@
-import { mobileMoneyService } from './mobile-money.service'
+import { mobileMoneyService, MobileMoneyPayment } from './mobile-money.service'
+import { inventoryHoldService } from './inventory-hold.service'
 
 export class PaymentVerificationJob {
   private isRunning = false
@@ -17,10 +18,11 @@ export class PaymentVerificationJob {
     // Run every 2 minutes
     this.intervalId = setInterval(async () => {
       await this.verifyPendingPayments()
+      await this.releaseExpiredReservations()
     }, 2 * 60 * 1000) // 2 minutes
 
     // Run immediately on start
-    this.verifyPendingPayments()
+    this.verifyPendingPayments().then(() => this.releaseExpiredReservations())
   }
 
   // Stop the payment verification job
@@ -38,12 +40,10 @@ export class PaymentVerificationJob {
     try {
       console.log('Running payment verification job...')
       
-      const allPayments = await mobileMoneyService.getAllPayments()
+      const allPayments = await mobileMoneyService.getPaymentsByStatus('pending')
       
       // Get payments that are pending and older than 5 minutes
       const pendingPayments = allPayments.filter(payment => {
-        if (payment.status !== 'pending') return false
-        
         const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000)
         if (payment.createdAt < fiveMinutesAgo) return true
         
@@ -78,13 +78,9 @@ export class PaymentVerificationJob {
   }
 
   // Verify individual payment
-  private async verifyIndividualPayment(payment: any) {
+  private async verifyIndividualPayment(payment: MobileMoneyPayment) {
     try {
-      // Update last verification check timestamp
-      payment.lastVerificationCheck = new Date()
-      payment.updatedAt = new Date()
-
-      // Verify payment with gateway
+      // Verify payment with gateway; the check is recorded on the payment
       if (payment.gatewayTransactionId) {
         const verification = await mobileMoneyService.getPaymentStatus(payment.id)
         
@@ -100,18 +96,60 @@ export class PaymentVerificationJob {
       }
 
       // Check if payment has expired
-      if (this.isPaymentExpired(payment)) {
-        payment.status = 'expired'
-        payment.updatedAt = new Date()
-        console.log(`Payment ${payment.id} marked as expired`)
+      if (payment.status === 'pending' && this.isPaymentExpired(payment)) {
+        await mobileMoneyService.expirePayment(payment)
       }
     } catch (error) {
       console.error(`Failed to verify payment ${payment.id}:`, error)
     }
   }
 
+  // Release stock held for orders whose payment wasn't completed in time and cancel
+  // those orders. A payment that did complete (webhook missed) is settled instead.
+  async releaseExpiredReservations() {
+    try {
+      const expiredHolds = await inventoryHoldService.getExpiredHolds()
+      if (expiredHolds.length > 0) {
+        console.log(`Found ${expiredHolds.length} expired stock holds`)
+      }
+
+      const { OrderService } = await import('./order.service')
+      const orderService = new OrderService()
+      const { checkoutPromotionService } = await import('./checkout-promotion.service')
+
+      for (const hold of expiredHolds) {
+        try {
+          const payment = hold.paymentId ? await mobileMoneyService.getPaymentStatus(hold.paymentId) : null
+
+          if (payment?.status === 'completed') {
+            await inventoryHoldService.commit(hold.orderId)
+            await orderService.updatePaymentStatus(hold.orderId, 'paid')
+            await orderService.updateOrderStatus(hold.orderId, 'confirmed')
+            console.log(`Order ${hold.orderId} paid before its stock hold expired; hold committed`)
+            continue
+          }
+
+          if (payment) {
+            await mobileMoneyService.expirePayment(payment)
+          }
+
+          if (await inventoryHoldService.release(hold.orderId, 'expired') === 'applied') {
+            await orderService.updatePaymentStatus(hold.orderId, 'failed')
+            await orderService.cancelOrder(hold.orderId, 'Payment not completed before the stock hold expired')
+            await checkoutPromotionService.releaseForOrder(hold.orderId, 'expired')
+            console.log(`Stock hold for order ${hold.orderId} expired; order cancelled`)
+          }
+        } catch (error) {
+          console.error(`Failed to release expired stock hold for order ${hold.orderId}:`, error)
+        }
+      }
+    } catch (error) {
+      console.error('Expired stock hold sweep failed:', error)
+    }
+  }
+
   // Check if payment has expired
-  private isPaymentExpired(payment: any): boolean {
+  private isPaymentExpired(payment: MobileMoneyPayment): boolean {
     const hoursSinceCreation = (Date.now() - payment.createdAt.getTime()) / (1000 * 60 * 60)
     return hoursSinceCreation > 24 // Expire after 24 hours
   }
@@ -128,6 +166,8 @@ export class PaymentVerificationJob {
         await orderService.updateOrderStatus(orderId, 'confirmed')
       } else if (status === 'failed') {
         await orderService.updatePaymentStatus(orderId, 'failed')
+        const { checkoutPromotionService } = await import('./checkout-promotion.service')
+        await checkoutPromotionService.releaseForOrder(orderId, 'payment_failed')
       }
       
       console.log(`Order ${orderId} payment status updated to: ${status}`)
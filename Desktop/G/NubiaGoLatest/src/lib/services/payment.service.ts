@@ -1,6 +1,7 @@
 'use client'
 
 import { PaymentMethod, PaymentTransaction } from '@/store/payment'
+import { currencyService } from './currency.service'
 
 export interface PaymentGatewayConfig {
   apiKey: string
@@ -50,6 +51,7 @@ export interface PaymentStatusResponse {
 export interface RefundRequest {
   paymentId: string
   amount?: number // Partial refund if specified
+  currency?: string // Currency the payment was taken in
   reason: string
 }
 
@@ -187,7 +189,7 @@ class PaymentService {
         refundId,
         status: 'pending',
         amount: request.amount || 100.00,
-        currency: 'USD',
+        currency: request.currency || 'USD',
         message: 'Refund initiated successfully. It may take 3-5 business days to reflect in your account.'
       }
       
@@ -288,31 +290,10 @@ class PaymentService {
    */
   async getExchangeRate(fromCurrency: string, toCurrency: string): Promise<number> {
     try {
-      if (fromCurrency === toCurrency) return 1
-
-      // Mock exchange rates - in production, use a real exchange rate API
-      const mockRates: Record<string, number> = {
-        'USD_UGX': 3700,
-        'USD_KES': 110,
-        'USD_TZS': 2300,
-        'EUR_USD': 1.08,
-        'GBP_USD': 1.25
-      }
-
-      const rateKey = `${fromCurrency}_${toCurrency}`
-      const reverseKey = `${toCurrency}_${fromCurrency}`
-      
-      if (mockRates[rateKey]) {
-        return mockRates[rateKey]
-      } else if (mockRates[reverseKey]) {
-        return 1 / mockRates[reverseKey]
-      }
-
-      return 1 // Default rate
-      
+      return await currencyService.getExchangeRate(fromCurrency, toCurrency)
     } catch (error) {
       console.error('Exchange rate fetch error:', error)
-      return 1
+      throw error
     }
   }
 
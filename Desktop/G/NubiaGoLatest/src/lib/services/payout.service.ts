@@ -0,0 +1,344 @@
+import {
+  doc,
+  getDoc,
+  getDocs,
+  collection,
+  query,
+  where,
+  orderBy,
+  runTransaction
+} from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { logger } from '@/lib/utils/logger'
+import { SubOrder } from '@/types'
+
+// Ledger accounts. Supplier payables are sub-ledgered by supplierId.
+export type LedgerAccount =
+  | 'customer_clearing'   // money collected from customers, held by the platform
+  | 'supplier_payable'    // what the platform owes a supplier
+  | 'commission_revenue'  // platform commission income
+  | 'chargeback_fees'     // fees charged by processors on disputes
+  | 'payout_clearing'     // money sent out to suppliers
+
+export type LedgerTransactionType = 'sale' | 'commission' | 'refund' | 'commission_reversal' | 'chargeback' | 'payout'
+
+export interface LedgerEntry {
+  account: LedgerAccount
+  debit: number
+  credit: number
+}
+
+export interface LedgerTransaction {
+  id: string
+  type: LedgerTransactionType
+  supplierId: string
+  subOrderId?: string
+  orderId?: string
+  // Null until a settlement claims the row, so unsettled rows can be queried
+  settlementId: string | null
+  currency: string
+  description: string
+  entries: LedgerEntry[]
+  // Net effect on the supplier payable (credit minus debit)
+  payableDelta: number
+  createdAt: Date
+}
+
+export type SettlementStatus = 'pending_approval' | 'approved' | 'processing' | 'paid' | 'failed' | 'rejected'
+
+export interface SupplierSettlement {
+  id: string
+  batchId: string
+  supplierId: string
+  amount: number
+  currency: string
+  transactionIds: string[]
+  payoutMethod: 'bank_transfer' | 'paypal' | 'mobile_money' | 'unknown'
+  payoutDestination?: string
+  status: SettlementStatus
+  payoutReference?: string
+  failureReason?: string
+  approvedBy?: string
+  approvedAt?: Date
+  paidAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface SettlementBatch {
+  id: string
+  periodStart: Date
+  periodEnd: Date
+  status: 'open' | 'approved' | 'completed'
+  settlementIds: string[]
+  // Amount settled per currency
+  totals: Record<string, number>
+  supplierCount: number
+  createdBy: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface SupplierBalance {
+  supplierId: string
+  // Earned and not yet included in a settlement
+  available: number
+  // Included in a settlement that has not been paid yet
+  pendingSettlement: number
+  totalPaidOut: number
+  totalCommission: number
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// What the customer paid for a sub-order's goods, and for goods and shipping, after promotions
+const goodsValue = (subOrder: SubOrder) => subOrder.subtotal - (subOrder.discountAmount || 0)
+const saleValue = (subOrder: SubOrder) => goodsValue(subOrder) + subOrder.shippingCost - (subOrder.shippingDiscount || 0)
+
+export class PayoutService {
+  private readonly LEDGER_COLLECTION = 'ledger_transactions'
+  private readonly SETTLEMENTS_COLLECTION = 'supplier_settlements'
+  private readonly BATCHES_COLLECTION = 'settlement_batches'
+
+  // Build a balanced double-entry transaction. Throws if debits and credits differ.
+  buildTransaction(
+    id: string,
+    type: LedgerTransactionType,
+    supplierId: string,
+    entries: LedgerEntry[],
+    details: Partial<Pick<LedgerTransaction, 'subOrderId' | 'orderId' | 'settlementId' | 'currency' | 'description'>> = {}
+  ): LedgerTransaction {
+    const normalized = entries.map(entry => ({
+      account: entry.account,
+      debit: round(entry.debit),
+      credit: round(entry.credit)
+    }))
+    const debits = round(normalized.reduce((sum, entry) => sum + entry.debit, 0))
+    const credits = round(normalized.reduce((sum, entry) => sum + entry.credit, 0))
+
+    if (debits !== credits) {
+      throw new Error(`Unbalanced ledger transaction ${id}: debits ${debits} != credits ${credits}`)
+    }
+
+    const payableDelta = round(normalized
+      .filter(entry => entry.account === 'supplier_payable')
+      .reduce((sum, entry) => sum + entry.credit - entry.debit, 0))
+
+    const transaction: LedgerTransaction = {
+      id,
+      type,
+      supplierId,
+      currency: details.currency || 'USD',
+      description: details.description || type,
+      entries: normalized,
+      payableDelta,
+      settlementId: details.settlementId || null,
+      createdAt: new Date()
+    }
+    if (details.subOrderId) transaction.subOrderId = details.subOrderId
+    if (details.orderId) transaction.orderId = details.orderId
+
+    return transaction
+  }
+
+  // Persist transactions once each. Ids are deterministic, so re-booking the
+  // same event (e.g. a status update delivered twice) is a no-op.
+  private async postTransactions(transactions: LedgerTransaction[]): Promise<LedgerTransaction[]> {
+    return runTransaction(db, async (firestoreTransaction) => {
+      const refs = transactions.map(tx => doc(db, this.LEDGER_COLLECTION, tx.id))
+      const existing = await Promise.all(refs.map(ref => firestoreTransaction.get(ref)))
+      const posted: LedgerTransaction[] = []
+
+      transactions.forEach((tx, index) => {
+        if (!existing[index].exists()) {
+          firestoreTransaction.set(refs[index], tx)
+          posted.push(tx)
+        }
+      })
+
+      return posted
+    })
+  }
+
+  // Book the sale and commission for a delivered sub-order
+  async recordSubOrderSale(subOrder: SubOrder, currency: string = 'USD'): Promise<LedgerTransaction[]> {
+    try {
+      const gross = round(saleValue(subOrder))
+      const details = { subOrderId: subOrder.id, orderId: subOrder.parentOrderId, currency }
+
+      const sale = this.buildTransaction(`sale-${subOrder.id}`, 'sale', subOrder.supplierId, [
+        { account: 'customer_clearing', debit: gross, credit: 0 },
+        { account: 'supplier_payable', debit: 0, credit: gross }
+      ], { ...details, description: `Sale for order ${subOrder.parentOrderId}` })
+
+      const transactions = [sale]
+      if (subOrder.commissionAmount > 0) {
+        transactions.push(this.buildTransaction(`commission-${subOrder.id}`, 'commission', subOrder.supplierId, [
+          { account: 'supplier_payable', debit: subOrder.commissionAmount, credit: 0 },
+          { account: 'commission_revenue', debit: 0, credit: subOrder.commissionAmount }
+        ], { ...details, description: `${subOrder.commissionRate}% commission on order ${subOrder.parentOrderId}` }))
+      }
+
+      return await this.postTransactions(transactions)
+    } catch (error) {
+      logger.error('Error recording sub-order sale:', error)
+      throw new Error('Failed to record sale in ledger')
+    }
+  }
+
+  // Book a refund against a sub-order. The supplier bears the refunded goods value,
+  // and the matching share of commission is returned to them.
+  async recordRefund(subOrder: SubOrder, amount: number, refundId: string, currency: string = 'USD'): Promise<LedgerTransaction[]> {
+    try {
+      const refundAmount = round(Math.min(amount, saleValue(subOrder)))
+      const details = { subOrderId: subOrder.id, orderId: subOrder.parentOrderId, currency }
+
+      const transactions = [
+        this.buildTransaction(`refund-${refundId}-${subOrder.id}`, 'refund', subOrder.supplierId, [
+          { account: 'supplier_payable', debit: refundAmount, credit: 0 },
+          { account: 'customer_clearing', debit: 0, credit: refundAmount }
+        ], { ...details, description: `Refund for order ${subOrder.parentOrderId}` })
+      ]
+
+      const goods = goodsValue(subOrder)
+      const commissionShare = goods > 0
+        ? round(subOrder.commissionAmount * Math.min(refundAmount, goods) / goods)
+        : 0
+      if (commissionShare > 0) {
+        transactions.push(this.buildTransaction(`commission-reversal-${refundId}-${subOrder.id}`, 'commission_reversal', subOrder.supplierId, [
+          { account: 'commission_revenue', debit: commissionShare, credit: 0 },
+          { account: 'supplier_payable', debit: 0, credit: commissionShare }
+        ], { ...details, description: `Commission returned on refund for order ${subOrder.parentOrderId}` }))
+      }
+
+      return await this.postTransactions(transactions)
+    } catch (error) {
+      logger.error('Error recording refund:', error)
+      throw new Error('Failed to record refund in ledger')
+    }
+  }
+
+  // Spread an order-level refund across its sub-orders in proportion to their totals.
+  // Only delivered sub-orders have a sale in the ledger; the rest were never payable.
+  async recordOrderRefund(allSubOrders: SubOrder[], amount: number, refundId: string, currency: string = 'USD'): Promise<LedgerTransaction[]> {
+    const subOrders = allSubOrders.filter(subOrder => subOrder.status === 'delivered')
+    const orderTotal = subOrders.reduce((sum, subOrder) => sum + saleValue(subOrder), 0)
+    if (orderTotal <= 0) {
+      return []
+    }
+
+    const posted: LedgerTransaction[] = []
+    for (const subOrder of subOrders) {
+      const share = round(amount * saleValue(subOrder) / orderTotal)
+      if (share > 0) {
+        posted.push(...await this.recordRefund(subOrder, share, refundId, currency))
+      }
+    }
+    return posted
+  }
+
+  // Book a card/mobile money chargeback. The disputed amount and the processor fee
+  // are both recovered from the supplier.
+  async recordChargeback(subOrder: SubOrder, amount: number, fee: number, disputeId: string, currency: string = 'USD'): Promise<LedgerTransaction[]> {
+    try {
+      const entries: LedgerEntry[] = [
+        { account: 'supplier_payable', debit: amount + fee, credit: 0 },
+        { account: 'customer_clearing', debit: 0, credit: amount }
+      ]
+      if (fee > 0) {
+        entries.push({ account: 'chargeback_fees', debit: 0, credit: fee })
+      }
+
+      return await this.postTransactions([
+        this.buildTransaction(`chargeback-${disputeId}`, 'chargeback', subOrder.supplierId, entries, {
+          subOrderId: subOrder.id,
+          orderId: subOrder.parentOrderId,
+          currency,
+          description: `Chargeback on order ${subOrder.parentOrderId}`
+        })
+      ])
+    } catch (error) {
+      logger.error('Error recording chargeback:', error)
+      throw new Error('Failed to record chargeback in ledger')
+    }
+  }
+
+  // Get a supplier's ledger transactions, newest first
+  async getSupplierLedger(supplierId: string): Promise<LedgerTransaction[]> {
+    try {
+      const q = query(
+        collection(db, this.LEDGER_COLLECTION),
+        where('supplierId', '==', supplierId),
+        orderBy('createdAt', 'desc')
+      )
+      const snapshot = await getDocs(q)
+      return snapshot.docs.map(ledgerDoc => ledgerDoc.data() as LedgerTransaction)
+    } catch (error) {
+      logger.error('Error fetching supplier ledger:', error)
+      throw new Error('Failed to fetch supplier ledger')
+    }
+  }
+
+  // Summarise what the platform owes a supplier
+  async getSupplierBalance(supplierId: string): Promise<SupplierBalance> {
+    const [ledger, settlements] = await Promise.all([
+      this.getSupplierLedger(supplierId),
+      this.getSupplierSettlements(supplierId)
+    ])
+
+    const unsettled = ledger.filter(tx => !tx.settlementId && tx.type !== 'payout')
+    const openSettlements = settlements.filter(s => ['pending_approval', 'approved', 'processing'].includes(s.status))
+
+    return {
+      supplierId,
+      available: round(unsettled.reduce((sum, tx) => sum + tx.payableDelta, 0)),
+      pendingSettlement: round(openSettlements.reduce((sum, s) => sum + s.amount, 0)),
+      totalPaidOut: round(settlements.filter(s => s.status === 'paid').reduce((sum, s) => sum + s.amount, 0)),
+      totalCommission: round(ledger
+        .filter(tx => tx.type === 'commission' || tx.type === 'commission_reversal')
+        .reduce((sum, tx) => sum - tx.payableDelta, 0))
+    }
+  }
+
+  // List settlement batches, newest first
+  async getSettlementBatches(): Promise<SettlementBatch[]> {
+    try {
+      const q = query(collection(db, this.BATCHES_COLLECTION), orderBy('createdAt', 'desc'))
+      const snapshot = await getDocs(q)
+      return snapshot.docs.map(batchDoc => batchDoc.data() as SettlementBatch)
+    } catch (error) {
+      logger.error('Error fetching settlement batches:', error)
+      throw new Error('Failed to fetch settlement batches')
+    }
+  }
+
+  // List the settlements in a batch
+  async getBatchSettlements(batchId: string): Promise<SupplierSettlement[]> {
+    try {
+      const q = query(collection(db, this.SETTLEMENTS_COLLECTION), where('batchId', '==', batchId))
+      const snapshot = await getDocs(q)
+      return snapshot.docs.map(settlementDoc => settlementDoc.data() as SupplierSettlement)
+    } catch (error) {
+      logger.error('Error fetching batch settlements:', error)
+      throw new Error('Failed to fetch batch settlements')
+    }
+  }
+
+  // List a supplier's settlements, newest first
+  async getSupplierSettlements(supplierId: string): Promise<SupplierSettlement[]> {
+    try {
+      const q = query(
+        collection(db, this.SETTLEMENTS_COLLECTION),
+        where('supplierId', '==', supplierId),
+        orderBy('createdAt', 'desc')
+      )
+      const snapshot = await getDocs(q)
+      return snapshot.docs.map(settlementDoc => settlementDoc.data() as SupplierSettlement)
+    } catch (error) {
+      logger.error('Error fetching supplier settlements:', error)
+      throw new Error('Failed to fetch supplier settlements')
+    }
+  }
+}
+
+export const payoutService = new PayoutService()
@@ -0,0 +1,411 @@
+import ExcelJS from 'exceljs'
+import { adminDb } from '@/lib/firebase/admin'
+import { bulkProductRowSchema } from '@/lib/validation-schemas'
+import { logger } from '@/lib/utils/logger'
+
+// Server-only: parses supplier catalog spreadsheets and upserts them by SKU.
+// Not exported from the services index because it depends on firebase-admin.
+
+export interface BulkProductData {
+  name: string
+  description: string
+  price: number
+  category: string
+  stock: number
+  sku: string
+  brandName?: string
+  modelNumber?: string
+  upcEanIsbn?: string
+  materialComposition?: string
+  weight?: number
+  dimensions?: {
+    length: number
+    width: number
+    height: number
+  }
+  tags?: string[]
+  seoTitle?: string
+  seoDescription?: string
+  metaKeywords?: string[]
+  productHighlights?: string[]
+}
+
+// Row numbers match the spreadsheet: the header is row 1, the first product row 2
+export interface RowValidationError {
+  row: number
+  field: string
+  message: string
+}
+
+export interface ParsedProductRow {
+  row: number
+  product: BulkProductData
+}
+
+export interface ProductImportResult {
+  dryRun: boolean
+  totalRows: number
+  validRows: number
+  created: number
+  updated: number
+  skipped: number
+  errors: RowValidationError[]
+  products: ParsedProductRow[]
+}
+
+export interface ImportingSupplier {
+  id: string
+  name: string
+  email: string
+}
+
+type ColumnField = keyof BulkProductData | 'length' | 'width' | 'height'
+
+// Header labels from the CSV template, normalized (lowercase, alphanumerics only)
+const COLUMN_FIELDS: Record<string, ColumnField> = {
+  name: 'name',
+  description: 'description',
+  price: 'price',
+  category: 'category',
+  stock: 'stock',
+  sku: 'sku',
+  brandname: 'brandName',
+  modelnumber: 'modelNumber',
+  upceanisbn: 'upcEanIsbn',
+  materialcomposition: 'materialComposition',
+  weight: 'weight',
+  length: 'length',
+  width: 'width',
+  height: 'height',
+  tags: 'tags',
+  seotitle: 'seoTitle',
+  seodescription: 'seoDescription',
+  metakeywords: 'metaKeywords',
+  producthighlights: 'productHighlights'
+}
+
+const REQUIRED_COLUMNS: ColumnField[] = ['name', 'description', 'price', 'category', 'stock', 'sku']
+const NUMBER_FIELDS: ColumnField[] = ['price', 'stock', 'weight', 'length', 'width', 'height']
+const LIST_FIELDS: ColumnField[] = ['tags', 'metaKeywords', 'productHighlights']
+
+export const MAX_IMPORT_ROWS = 10000
+export const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024
+
+// Firestore allows 500 writes per batch; leave headroom
+const WRITE_BATCH_SIZE = 450
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+// SKUs match regardless of case and surrounding spaces, within a file and against the catalog
+const normalizeSku = (sku: string) => sku.trim().toLowerCase()
+
+export class ProductImportService {
+  private readonly COLLECTION_NAME = 'products'
+
+  // Parse RFC 4180 CSV: quoted fields, escaped quotes, embedded newlines, CRLF
+  parseCsv(text: string): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ''
+    let inQuotes = false
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i]
+
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else if (char === '"') {
+          inQuotes = false
+        } else {
+          field += char
+        }
+        continue
+      }
+
+      if (char === '"') {
+        inQuotes = true
+      } else if (char === ',') {
+        row.push(field)
+        field = ''
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') {
+          i++
+        }
+        row.push(field)
+        rows.push(row)
+        row = []
+        field = ''
+      } else {
+        field += char
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field)
+      rows.push(row)
+    }
+
+    return rows
+  }
+
+  // Read the first worksheet of an XLSX workbook as rows of display strings
+  async parseWorkbook(data: ArrayBuffer): Promise<string[][]> {
+    const workbook = new ExcelJS.Workbook()
+    await workbook.xlsx.load(data)
+    const worksheet = workbook.worksheets[0]
+    if (!worksheet) {
+      return []
+    }
+
+    const rows: string[][] = []
+    for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+      const row = worksheet.getRow(rowNumber)
+      const cells: string[] = []
+      for (let column = 1; column <= worksheet.columnCount; column++) {
+        cells.push(row.getCell(column).text ?? '')
+      }
+      rows.push(cells)
+    }
+    return rows
+  }
+
+  // Parse an uploaded file into rows based on its extension
+  async parseFile(data: ArrayBuffer, fileName: string): Promise<string[][]> {
+    if (/\.csv$/i.test(fileName)) {
+      return this.parseCsv(new TextDecoder('utf-8').decode(data))
+    }
+    if (/\.xlsx$/i.test(fileName)) {
+      return this.parseWorkbook(data)
+    }
+    throw new Error('Unsupported file type. Upload a CSV or Excel (.xlsx) file.')
+  }
+
+  // Map and validate spreadsheet rows against the shared product schema
+  validateRows(table: string[][]): { products: ParsedProductRow[], errors: RowValidationError[], totalRows: number } {
+    const errors: RowValidationError[] = []
+    const products: ParsedProductRow[] = []
+    const [headerRow = [], ...dataRows] = table
+
+    const columns = headerRow.map(header => COLUMN_FIELDS[normalizeHeader(header)])
+    const missing = REQUIRED_COLUMNS.filter(field => !columns.includes(field))
+    if (missing.length > 0) {
+      missing.forEach(field => errors.push({ row: 1, field, message: `Missing required column "${field}"` }))
+      return { products, errors, totalRows: 0 }
+    }
+
+    const seenSkus = new Map<string, number>()
+    let totalRows = 0
+
+    dataRows.forEach((cells, index) => {
+      const row = index + 2
+      if (cells.every(cell => cell.trim() === '')) {
+        return
+      }
+      totalRows++
+
+      if (totalRows > MAX_IMPORT_ROWS) {
+        if (totalRows === MAX_IMPORT_ROWS + 1) {
+          errors.push({ row, field: 'file', message: `Only the first ${MAX_IMPORT_ROWS} products can be imported at once` })
+        }
+        return
+      }
+
+      const rowErrors: RowValidationError[] = []
+      const values: Partial<Record<ColumnField, string>> = {}
+      columns.forEach((field, column) => {
+        if (field) {
+          values[field] = (cells[column] ?? '').trim()
+        }
+      })
+
+      const candidate = this.toProductData(values, row, rowErrors)
+      const parsed = bulkProductRowSchema.safeParse(candidate)
+
+      if (!parsed.success) {
+        parsed.error.issues.forEach(issue => {
+          const field = issue.path.join('.') || 'row'
+          if (!rowErrors.some(existing => existing.field === field)) {
+            rowErrors.push({ row, field, message: issue.message })
+          }
+        })
+      }
+
+      const sku = candidate.sku
+      if (sku) {
+        const firstRow = seenSkus.get(normalizeSku(sku))
+        if (firstRow) {
+          rowErrors.push({ row, field: 'sku', message: `Duplicate SKU, already used on row ${firstRow}` })
+        } else {
+          seenSkus.set(normalizeSku(sku), row)
+        }
+      }
+
+      if (rowErrors.length > 0 || !parsed.success) {
+        errors.push(...rowErrors)
+      } else {
+        products.push({ row, product: parsed.data as BulkProductData })
+      }
+    })
+
+    return { products, errors, totalRows }
+  }
+
+  // Validate, then create or update the supplier's products keyed by SKU.
+  // Invalid rows are skipped and reported; with dryRun nothing is written.
+  async importProducts(table: string[][], supplier: ImportingSupplier, dryRun: boolean): Promise<ProductImportResult> {
+    const { products, errors, totalRows } = this.validateRows(table)
+
+    try {
+      const existing = await this.getExistingSkus(supplier.id)
+      const toUpdate = products.filter(({ product }) => existing.has(normalizeSku(product.sku)))
+      const result: ProductImportResult = {
+        dryRun,
+        totalRows,
+        validRows: products.length,
+        created: products.length - toUpdate.length,
+        updated: toUpdate.length,
+        skipped: totalRows - products.length,
+        errors,
+        products
+      }
+
+      if (dryRun || products.length === 0) {
+        return result
+      }
+
+      const now = new Date()
+      for (let start = 0; start < products.length; start += WRITE_BATCH_SIZE) {
+        const batch = adminDb.batch()
+
+        for (const { product } of products.slice(start, start + WRITE_BATCH_SIZE)) {
+          const existingId = existing.get(normalizeSku(product.sku))
+          const fields = this.toProductFields(product)
+
+          if (existingId) {
+            batch.update(adminDb.collection(this.COLLECTION_NAME).doc(existingId), {
+              ...fields,
+              updatedAt: now,
+              lastModifiedBy: supplier.id
+            })
+          } else {
+            batch.set(adminDb.collection(this.COLLECTION_NAME).doc(), {
+              ...fields,
+              supplierId: supplier.id,
+              supplier: supplier,
+              image: '',
+              images: [],
+              mainImage: '',
+              status: 'pending_approval',
+              approvalStatus: 'pending',
+              rating: 0,
+              reviewCount: 0,
+              sales: 0,
+              minStock: 0,
+              isFeatured: false,
+              isPromoted: false,
+              submittedAt: now,
+              createdAt: now,
+              updatedAt: now
+            })
+          }
+        }
+
+        await batch.commit()
+      }
+
+      logger.info(`Imported ${products.length} products for supplier ${supplier.id}`, {
+        created: result.created,
+        updated: result.updated,
+        skipped: result.skipped
+      })
+
+      return result
+    } catch (error) {
+      logger.error('Error importing products:', error)
+      throw new Error('Failed to import products')
+    }
+  }
+
+  // Convert raw cell strings to typed values, recording cells that are not numbers
+  private toProductData(
+    values: Partial<Record<ColumnField, string>>,
+    row: number,
+    errors: RowValidationError[]
+  ): BulkProductData {
+    const data: Record<string, unknown> = {}
+
+    for (const [field, raw] of Object.entries(values) as [ColumnField, string][]) {
+      if (raw === '') {
+        continue
+      }
+      if (NUMBER_FIELDS.includes(field)) {
+        const value = Number(raw.replace(/,/g, ''))
+        if (Number.isNaN(value)) {
+          errors.push({ row, field, message: `"${raw}" is not a number` })
+        } else {
+          data[field] = value
+        }
+      } else if (LIST_FIELDS.includes(field)) {
+        data[field] = raw.split(/[,;|]/).map(item => item.trim()).filter(Boolean)
+      } else {
+        data[field] = raw
+      }
+    }
+
+    // Required fields stay present (as empty strings) so the schema reports them by name
+    for (const field of REQUIRED_COLUMNS) {
+      if (!(field in data) && !NUMBER_FIELDS.includes(field)) {
+        data[field] = ''
+      }
+    }
+
+    const { length, width, height, ...product } = data
+    if (length !== undefined || width !== undefined || height !== undefined) {
+      product.dimensions = { length, width, height }
+    }
+
+    return product as unknown as BulkProductData
+  }
+
+  // Shape an imported row for the products collection
+  private toProductFields(product: BulkProductData): Record<string, unknown> {
+    const fields: Record<string, unknown> = {
+      ...product,
+      brand: product.brandName,
+      inStock: product.stock > 0,
+      shipping: {
+        weight: product.weight || 0,
+        dimensions: product.dimensions || { length: 0, width: 0, height: 0 },
+        freeShipping: false,
+        shippingCost: 0
+      }
+    }
+
+    // Firestore rejects undefined values
+    Object.keys(fields).forEach(key => fields[key] === undefined && delete fields[key])
+    return fields
+  }
+
+  // Map of normalized SKU to product document id for the supplier's current catalog
+  private async getExistingSkus(supplierId: string): Promise<Map<string, string>> {
+    const snapshot = await adminDb
+      .collection(this.COLLECTION_NAME)
+      .where('supplierId', '==', supplierId)
+      .select('sku')
+      .get()
+
+    const skus = new Map<string, string>()
+    snapshot.docs.forEach(productDoc => {
+      const sku = productDoc.get('sku')
+      if (typeof sku === 'string' && sku) {
+        skus.set(normalizeSku(sku), productDoc.id)
+      }
+    })
+    return skus
+  }
+}
+
+export const productImportService = new ProductImportService()
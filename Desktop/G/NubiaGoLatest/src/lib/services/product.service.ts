@@ -100,7 +100,33 @@ let MOCK_PRODUCTS: Product[] = [
   }
 ]
 
+export type ProductChange =
+  | { type: 'upsert'; product: Product }
+  | { type: 'remove'; productId: string }
+
+export type ProductChangeListener = (change: ProductChange) => void
+
 class ProductService {
+  private changeListeners = new Set<ProductChangeListener>()
+
+  // Subscribe to product writes (used to keep the search index current). Returns an unsubscribe function.
+  onProductChange(listener: ProductChangeListener): () => void {
+    this.changeListeners.add(listener)
+    return () => {
+      this.changeListeners.delete(listener)
+    }
+  }
+
+  private notifyChange(change: ProductChange): void {
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(change)
+      } catch (error) {
+        console.error('Product change listener failed:', error)
+      }
+    })
+  }
+
   // Get all products with pagination
   async getProducts(page: number = 1, pageSize: number = 20): Promise<{
     products: Product[]
@@ -239,6 +265,7 @@ class ProductService {
     } as Product
     
     MOCK_PRODUCTS.push(mockProduct)
+    this.notifyChange({ type: 'upsert', product: mockProduct })
     return mockProduct
   }
 
@@ -256,6 +283,7 @@ class ProductService {
       updatedAt: new Date()
     }
     
+    this.notifyChange({ type: 'upsert', product: MOCK_PRODUCTS[mockProductIndex] })
     return MOCK_PRODUCTS[mockProductIndex]
   }
 
@@ -264,7 +292,11 @@ class ProductService {
     console.log('Deleting product with mock data:', id)
     const initialLength = MOCK_PRODUCTS.length
     MOCK_PRODUCTS = MOCK_PRODUCTS.filter(p => p.id !== id)
-    return MOCK_PRODUCTS.length < initialLength
+    const deleted = MOCK_PRODUCTS.length < initialLength
+    if (deleted) {
+      this.notifyChange({ type: 'remove', productId: id })
+    }
+    return deleted
   }
 
   // Get categories
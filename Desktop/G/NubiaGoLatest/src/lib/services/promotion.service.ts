@@ -1,44 +1,17 @@
-import { Promotion, Deal, PromotionApplication, PromotionStats } from '@/types'
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  setDoc,
+  where,
+  Timestamp
+} from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { Promotion, Deal, PromotionApplication, PromotionStats, PromotionEvaluation } from '@/types'
 import { Product } from '@/types'
-
-// Mock promotions data
-const MOCK_PROMOTIONS: Promotion[] = [
-  {
-    id: 'promo-1',
-    name: 'Summer Sale',
-    description: '25% off all summer items',
-    type: 'percentage',
-    value: 25,
-    code: 'SUMMER25',
-    startDate: new Date('2024-06-01'),
-    endDate: new Date('2024-08-31'),
-    isActive: true,
-    usageLimit: 1000,
-    usedCount: 245,
-    minOrderAmount: 50,
-    maxDiscountAmount: 100,
-    applicableCategories: ['fashion', 'accessories'],
-    createdAt: new Date('2024-05-15'),
-    updatedAt: new Date('2024-06-01')
-  },
-  {
-    id: 'promo-2',
-    name: 'Electronics Deal',
-    description: '$50 off electronics over $200',
-    type: 'fixed_amount',
-    value: 50,
-    code: 'TECH50',
-    startDate: new Date('2024-07-01'),
-    endDate: new Date('2024-12-31'),
-    isActive: true,
-    usageLimit: 500,
-    usedCount: 89,
-    minOrderAmount: 200,
-    applicableCategories: ['electronics'],
-    createdAt: new Date('2024-06-20'),
-    updatedAt: new Date('2024-07-01')
-  }
-]
+import { evaluatePromotions, getIneligibilityReason, normalizePromotionCode, PromotionCart } from './promotions/promotion-engine'
+import { PROMOTIONS_COLLECTION, toPromotion } from './promotions/promotion-record'
 
 // Mock deals data
 const MOCK_DEALS: Deal[] = [
@@ -141,84 +114,71 @@ export class PromotionService {
 
   // Get all active promotions
   async getActivePromotions(): Promise<Promotion[]> {
-    console.log('Getting active promotions with mock data')
-    const now = new Date()
-    return MOCK_PROMOTIONS.filter(promo => 
-      promo.isActive && 
-      promo.startDate <= now && 
-      promo.endDate >= now
-    )
+    try {
+      const q = query(collection(db, PROMOTIONS_COLLECTION), where('isActive', '==', true))
+      const snapshot = await getDocs(q)
+      const now = new Date()
+      return snapshot.docs
+        .map(promotionDoc => toPromotion(promotionDoc.id, promotionDoc.data()))
+        .filter(promo => promo.startDate <= now && promo.endDate >= now)
+    } catch (error) {
+      console.error('Error getting active promotions:', error)
+      throw new Error('Failed to fetch promotions')
+    }
   }
 
   // Get promotion by code
   async getPromotionByCode(code: string): Promise<Promotion | null> {
-    console.log('Getting promotion by code:', code)
-    const now = new Date()
-    const promotion = MOCK_PROMOTIONS.find(promo => 
-      promo.code === code && 
-      promo.isActive && 
-      promo.startDate <= now && 
-      promo.endDate >= now
-    )
-    return promotion || null
+    try {
+      const q = query(collection(db, PROMOTIONS_COLLECTION), where('code', '==', normalizePromotionCode(code)))
+      const snapshot = await getDocs(q)
+      const now = new Date()
+      const promotion = snapshot.docs
+        .map(promotionDoc => toPromotion(promotionDoc.id, promotionDoc.data()))
+        .find(promo => promo.isActive && promo.startDate <= now && promo.endDate >= now)
+      return promotion || null
+    } catch (error) {
+      console.error('Error getting promotion by code:', error)
+      throw new Error('Failed to fetch promotion')
+    }
   }
 
   // Apply promotion to product
   async applyPromotionToProduct(product: Product, promotionId: string): Promise<PromotionApplication | null> {
-    console.log('Applying promotion to product:', product.id, promotionId)
-    const promotion = MOCK_PROMOTIONS.find(p => p.id === promotionId)
-    
-    if (!promotion || !promotion.isActive) {
-      return null
-    }
-
-    const now = new Date()
-    if (promotion.startDate > now || promotion.endDate < now) {
+    const promotion = (await this.getActivePromotions()).find(p => p.id === promotionId)
+    if (!promotion) {
       return null
     }
 
-    // Check if promotion applies to this product
-    if (promotion.applicableProducts && !promotion.applicableProducts.includes(product.id)) {
-      return null
-    }
+    const evaluation = evaluatePromotions(
+      {
+        lines: [{ id: product.id, productId: product.id, category: product.category, unitPrice: product.price, quantity: 1 }],
+        shippingCost: 0
+      },
+      [{ ...promotion, minOrderAmount: undefined }],
+      { codes: promotion.code ? [promotion.code] : [] }
+    )
 
-    if (promotion.applicableCategories && !promotion.applicableCategories.includes(product.category)) {
+    const discountAmount = evaluation.discountTotal
+    if (discountAmount <= 0) {
       return null
     }
 
-    let discountAmount = 0
-    let discountedPrice = product.price
-
-    switch (promotion.type) {
-      case 'percentage':
-        discountAmount = (product.price * promotion.value) / 100
-        if (promotion.maxDiscountAmount) {
-          discountAmount = Math.min(discountAmount, promotion.maxDiscountAmount)
-        }
-        discountedPrice = product.price - discountAmount
-        break
-      
-      case 'fixed_amount':
-        discountAmount = Math.min(promotion.value, product.price)
-        discountedPrice = product.price - discountAmount
-        break
-      
-      default:
-        return null
-    }
-
-    const discountPercentage = (discountAmount / product.price) * 100
-
     return {
       promotionId: promotion.id,
       productId: product.id,
       originalPrice: product.price,
-      discountedPrice,
+      discountedPrice: product.price - discountAmount,
       discountAmount,
-      discountPercentage
+      discountPercentage: (discountAmount / product.price) * 100
     }
   }
 
+  // Preview promotions for a cart. Checkout re-evaluates on the server, so this is display-only.
+  async previewCart(cart: PromotionCart, codes: string[] = []): Promise<PromotionEvaluation> {
+    return evaluatePromotions(cart, await this.getActivePromotions(), { codes })
+  }
+
   // Get all active deals
   async getActiveDeals(): Promise<Deal[]> {
     console.log('Getting active deals with mock data')
@@ -256,44 +216,46 @@ export class PromotionService {
 
   // Get promotion statistics
   async getPromotionStats(): Promise<PromotionStats> {
-    console.log('Getting promotion statistics with mock data')
-    const activePromotions = await this.getActivePromotions()
-    const totalSavings = MOCK_PROMOTIONS.reduce((sum, promo) => {
-      return sum + (promo.usedCount * (promo.type === 'percentage' ? 50 : promo.value))
-    }, 0)
+    try {
+      const snapshot = await getDocs(collection(db, PROMOTIONS_COLLECTION))
+      const promotions = snapshot.docs.map(promotionDoc => toPromotion(promotionDoc.id, promotionDoc.data()))
+      const activePromotions = await this.getActivePromotions()
+      const totalSavings = promotions.reduce((sum, promo) => {
+        return sum + (promo.usedCount * (promo.type === 'percentage' ? 50 : promo.value))
+      }, 0)
 
-    const mostUsedPromotion = MOCK_PROMOTIONS.reduce((prev, current) => 
-      (prev.usedCount > current.usedCount) ? prev : current
-    )
+      const mostUsedPromotion = promotions.reduce<Promotion | null>((prev, current) =>
+        (prev && prev.usedCount > current.usedCount) ? prev : current
+      , null)
 
-    return {
-      totalPromotions: MOCK_PROMOTIONS.length,
-      activePromotions: activePromotions.length,
-      totalSavings,
-      mostUsedPromotion: mostUsedPromotion.name,
-      conversionRate: 0.15 // 15% mock conversion rate
+      return {
+        totalPromotions: promotions.length,
+        activePromotions: activePromotions.length,
+        totalSavings,
+        mostUsedPromotion: mostUsedPromotion?.name || '',
+        conversionRate: 0.15 // 15% mock conversion rate
+      }
+    } catch (error) {
+      console.error('Error getting promotion stats:', error)
+      throw new Error('Failed to fetch promotion statistics')
     }
   }
 
   // Validate promotion code
   async validatePromotionCode(code: string, orderAmount: number): Promise<{ valid: boolean; promotion?: Promotion; error?: string }> {
-    console.log('Validating promotion code:', code, 'for order amount:', orderAmount)
-    
     const promotion = await this.getPromotionByCode(code)
     
     if (!promotion) {
       return { valid: false, error: 'Invalid promotion code' }
     }
 
-    if (promotion.minOrderAmount && orderAmount < promotion.minOrderAmount) {
-      return { 
-        valid: false, 
-        error: `Minimum order amount of $${promotion.minOrderAmount} required` 
-      }
-    }
-
-    if (promotion.usageLimit && promotion.usedCount >= promotion.usageLimit) {
-      return { valid: false, error: 'Promotion code usage limit exceeded' }
+    // Only order-level rules can be checked without the cart contents
+    const reason = getIneligibilityReason(
+      { ...promotion, applicableProducts: undefined, applicableCategories: undefined },
+      { lines: [{ id: 'order', productId: '', category: '', unitPrice: orderAmount, quantity: 1 }], shippingCost: 1 }
+    )
+    if (reason) {
+      return { valid: false, error: reason }
     }
 
     return { valid: true, promotion }
@@ -301,17 +263,34 @@ export class PromotionService {
 
   // Create new promotion (for admin)
   async createPromotion(promotionData: Omit<Promotion, 'id' | 'usedCount' | 'createdAt' | 'updatedAt'>): Promise<Promotion> {
-    console.log('Creating new promotion with mock data')
-    const newPromotion: Promotion = {
-      ...promotionData,
-      id: `promo-${Date.now()}`,
-      usedCount: 0,
-      createdAt: new Date(),
-      updatedAt: new Date()
+    try {
+      const now = new Date()
+      const promotionRef = doc(collection(db, PROMOTIONS_COLLECTION))
+      const newPromotion: Promotion = {
+        ...promotionData,
+        ...(promotionData.code ? { code: normalizePromotionCode(promotionData.code) } : {}),
+        id: promotionRef.id,
+        usedCount: 0,
+        createdAt: now,
+        updatedAt: now
+      }
+
+      // Firestore rejects undefined values, so drop unset optional fields
+      const definedFields = Object.fromEntries(
+        Object.entries(newPromotion).filter(([key, value]) => key !== 'id' && value !== undefined)
+      )
+      await setDoc(promotionRef, {
+        ...definedFields,
+        startDate: Timestamp.fromDate(newPromotion.startDate),
+        endDate: Timestamp.fromDate(newPromotion.endDate),
+        createdAt: Timestamp.fromDate(now),
+        updatedAt: Timestamp.fromDate(now)
+      })
+      return newPromotion
+    } catch (error) {
+      console.error('Error creating promotion:', error)
+      throw new Error('Failed to create promotion')
     }
-    
-    MOCK_PROMOTIONS.push(newPromotion)
-    return newPromotion
   }
 
   // Create new deal (for admin)
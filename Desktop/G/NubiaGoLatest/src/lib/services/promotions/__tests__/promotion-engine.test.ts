@@ -0,0 +1,249 @@
+/**
+ * @jest-environment node
+ */
+import { Promotion, PromotionCartLine } from '@/types'
+import {
+  PromotionCart,
+  evaluatePromotions,
+  getIneligibilityReason,
+  normalizePromotionCode,
+  splitEvaluation
+} from '../promotion-engine'
+
+const NOW = new Date('2026-06-15T12:00:00Z')
+
+const promotion = (id: string, fields: Partial<Promotion>): Promotion => ({
+  id,
+  name: `Promotion ${id}`,
+  description: '',
+  type: 'percentage',
+  value: 10,
+  startDate: new Date('2026-01-01T00:00:00Z'),
+  endDate: new Date('2026-12-31T00:00:00Z'),
+  isActive: true,
+  usedCount: 0,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...fields
+})
+
+const line = (id: string, unitPrice: number, quantity = 1, category = 'electronics'): PromotionCartLine => ({
+  id,
+  productId: `product-${id}`,
+  category,
+  unitPrice,
+  quantity
+})
+
+const cart = (lines: PromotionCartLine[], shippingCost = 0): PromotionCart => ({ lines, shippingCost })
+
+describe('getIneligibilityReason', () => {
+  const basket = cart([line('a', 50)], 5)
+
+  it('accepts a promotion that is running and applies to the cart', () => {
+    expect(getIneligibilityReason(promotion('p', {}), basket, NOW)).toBeNull()
+  })
+
+  it('rejects inactive, not yet started and ended promotions', () => {
+    expect(getIneligibilityReason(promotion('p', { isActive: false }), basket, NOW)).toBe('Promotion is not active')
+    expect(getIneligibilityReason(promotion('p', { startDate: new Date('2026-07-01') }), basket, NOW)).toBe('Promotion is not active')
+    expect(getIneligibilityReason(promotion('p', { endDate: new Date('2026-06-01') }), basket, NOW)).toBe('Promotion is not active')
+  })
+
+  it('rejects a promotion that has reached its usage limit', () => {
+    expect(getIneligibilityReason(promotion('p', { usageLimit: 5, usedCount: 5 }), basket, NOW))
+      .toBe('Promotion usage limit reached')
+  })
+
+  it('enforces the minimum order amount on the cart subtotal', () => {
+    expect(getIneligibilityReason(promotion('p', { minOrderAmount: 60 }), basket, NOW))
+      .toBe('Minimum order amount of 60 required')
+  })
+
+  it('needs at least one qualifying line', () => {
+    expect(getIneligibilityReason(promotion('p', { applicableCategories: ['fashion'] }), basket, NOW))
+      .toBe('No items in the cart qualify for this promotion')
+  })
+
+  it('does not offer free shipping on a cart that ships free', () => {
+    expect(getIneligibilityReason(promotion('p', { type: 'free_shipping' }), cart([line('a', 50)]), NOW))
+      .toBe('Shipping is already free')
+  })
+})
+
+describe('evaluatePromotions', () => {
+  it('applies a percentage off every eligible line', () => {
+    const evaluation = evaluatePromotions(
+      cart([line('a', 40, 2), line('b', 30, 1, 'fashion')]),
+      [promotion('p', { value: 25, applicableCategories: ['electronics'] })],
+      { now: NOW }
+    )
+
+    expect(evaluation.discountTotal).toBe(20)
+    expect(evaluation.lines.map(entry => entry.discountTotal)).toEqual([20, 0])
+    expect(evaluation.total).toBe(90)
+  })
+
+  it('caps a percentage discount at the maximum discount amount', () => {
+    const evaluation = evaluatePromotions(
+      cart([line('a', 100), line('b', 100)]),
+      [promotion('p', { value: 50, maxDiscountAmount: 30 })],
+      { now: NOW }
+    )
+
+    expect(evaluation.discountTotal).toBe(30)
+    expect(evaluation.lines.map(entry => entry.discountTotal)).toEqual([15, 15])
+  })
+
+  it('spreads a fixed amount over lines so the parts add up to the cent', () => {
+    const evaluation = evaluatePromotions(
+      cart([line('a', 10), line('b', 10), line('c', 10)]),
+      [promotion('p', { type: 'fixed_amount', value: 10 })],
+      { now: NOW }
+    )
+
+    const parts = evaluation.lines.map(entry => entry.discountTotal)
+    expect(parts.reduce((sum, part) => Math.round((sum + part) * 100) / 100, 0)).toBe(10)
+    expect(parts.sort()).toEqual([3.33, 3.33, 3.34])
+  })
+
+  it('never discounts more than the eligible lines are worth', () => {
+    const evaluation = evaluatePromotions(
+      cart([line('a', 15)]),
+      [promotion('p', { type: 'fixed_amount', value: 50 })],
+      { now: NOW }
+    )
+
+    expect(evaluation.discountTotal).toBe(15)
+    expect(evaluation.total).toBe(0)
+  })
+
+  it('gives every second unit free on buy one get one', () => {
+    const evaluation = evaluatePromotions(
+      cart([line('a', 12, 5)]),
+      [promotion('p', { type: 'buy_one_get_one', value: 0 })],
+      { now: NOW }
+    )
+
+    expect(evaluation.discountTotal).toBe(24)
+  })
+
+  it('takes free shipping off the shipping cost, not the items', () => {
+    const evaluation = evaluatePromotions(
+      cart([line('a', 50)], 7.5),
+      [promotion('p', { type: 'free_shipping', value: 0 })],
+      { now: NOW }
+    )
+
+    expect(evaluation.discountTotal).toBe(0)
+    expect(evaluation.shippingDiscount).toBe(7.5)
+    expect(evaluation.total).toBe(50)
+  })
+
+  it('only applies coded promotions when their code is entered, whatever its case', () => {
+    const coded = promotion('p', { code: 'SUMMER10' })
+    const basket = cart([line('a', 100)])
+
+    expect(evaluatePromotions(basket, [coded], { now: NOW }).appliedPromotions).toEqual([])
+    expect(evaluatePromotions(basket, [coded], { now: NOW, codes: [' summer10 '] }).appliedPromotions)
+      .toEqual([expect.objectContaining({ promotionId: 'p', code: 'SUMMER10', discountAmount: 10 })])
+  })
+
+  it('reports unknown and ineligible codes', () => {
+    const evaluation = evaluatePromotions(
+      cart([line('a', 20)]),
+      [promotion('p', { code: 'BIG', minOrderAmount: 100 })],
+      { now: NOW, codes: ['big', 'nope'] }
+    )
+
+    expect(evaluation.rejectedCodes).toEqual([
+      { code: 'BIG', reason: 'Minimum order amount of 100 required' },
+      { code: 'NOPE', reason: 'Invalid promotion code' }
+    ])
+  })
+
+  it('stacks stackable promotions by priority, each on what the previous left', () => {
+    const evaluation = evaluatePromotions(
+      cart([line('a', 100)]),
+      [
+        promotion('low', { stackable: true, priority: 1, type: 'fixed_amount', value: 10 }),
+        promotion('high', { stackable: true, priority: 5, value: 50 })
+      ],
+      { now: NOW }
+    )
+
+    expect(evaluation.appliedPromotions.map(applied => [applied.promotionId, applied.discountAmount]))
+      .toEqual([['high', 50], ['low', 10]])
+    expect(evaluation.total).toBe(40)
+  })
+
+  it('keeps the better of the stackable set and the best exclusive promotion', () => {
+    const evaluation = evaluatePromotions(
+      cart([line('a', 100)]),
+      [
+        promotion('stack-a', { stackable: true, value: 10 }),
+        promotion('stack-b', { stackable: true, type: 'fixed_amount', value: 5 }),
+        promotion('exclusive', { code: 'HALF', value: 50 })
+      ],
+      { now: NOW, codes: ['HALF'] }
+    )
+
+    expect(evaluation.appliedPromotions.map(applied => applied.promotionId)).toEqual(['exclusive'])
+    expect(evaluation.discountTotal).toBe(50)
+  })
+
+  it('tells the customer when their code lost to a better promotion', () => {
+    const evaluation = evaluatePromotions(
+      cart([line('a', 100)]),
+      [
+        promotion('auto', { value: 30 }),
+        promotion('coded', { code: 'SMALL', value: 5 })
+      ],
+      { now: NOW, codes: ['SMALL'] }
+    )
+
+    expect(evaluation.appliedPromotions.map(applied => applied.promotionId)).toEqual(['auto'])
+    expect(evaluation.rejectedCodes).toEqual([
+      { code: 'SMALL', reason: 'Cannot be combined with a better promotion already applied' }
+    ])
+  })
+})
+
+describe('splitEvaluation', () => {
+  it('keeps line discounts with their group and shares shipping by shipping cost', () => {
+    const evaluation = evaluatePromotions(
+      cart([line('a', 40), line('b', 60), line('c', 100)], 10),
+      [
+        promotion('percent', { stackable: true, value: 10 }),
+        promotion('shipping', { stackable: true, type: 'free_shipping', value: 0 })
+      ],
+      { now: NOW }
+    )
+
+    const shares = splitEvaluation(evaluation, [
+      { id: 'supplier-1', lineIds: ['a', 'b'], shippingCost: 3.33 },
+      { id: 'supplier-2', lineIds: ['c'], shippingCost: 6.67 }
+    ])
+
+    expect(shares.get('supplier-1')).toEqual({ discountAmount: 10, shippingDiscount: 3.33 })
+    expect(shares.get('supplier-2')).toEqual({ discountAmount: 10, shippingDiscount: 6.67 })
+  })
+
+  it('adds the shipping shares up to the exact shipping discount', () => {
+    const evaluation = evaluatePromotions(
+      cart([line('a', 10), line('b', 10), line('c', 10)], 1),
+      [promotion('shipping', { type: 'free_shipping', value: 0 })],
+      { now: NOW }
+    )
+
+    const shares = splitEvaluation(evaluation, ['a', 'b', 'c'].map(id => ({ id, lineIds: [id], shippingCost: 1 / 3 })))
+    const cents = Array.from(shares.values()).map(share => Math.round(share.shippingDiscount * 100))
+    expect(cents.reduce((sum, part) => sum + part, 0)).toBe(100)
+  })
+})
+
+describe('normalizePromotionCode', () => {
+  it('trims and uppercases codes', () => {
+    expect(normalizePromotionCode('  welcome5 ')).toBe('WELCOME5')
+  })
+})
@@ -0,0 +1,269 @@
+import {
+  AppliedPromotion,
+  Promotion,
+  PromotionCartLine,
+  PromotionEvaluation,
+  PromotionLineBreakdown
+} from '@/types'
+
+// Pure promotion rule engine. Evaluates promotions against cart lines and returns a
+// line-by-line discount breakdown. Amounts are handled in cents internally so line
+// discounts always add up to the promotion total.
+//
+// Stacking: a promotion with stackable !== true can't be combined with any other.
+// The engine compares the best single non-stackable promotion with all stackable
+// promotions applied together (highest priority first) and keeps whichever saves more.
+
+export interface PromotionCart {
+  lines: PromotionCartLine[]
+  shippingCost: number
+}
+
+// Lines that are charged together, such as one supplier's sub-order
+export interface PromotionSplitGroup {
+  id: string
+  lineIds: string[]
+  shippingCost: number
+}
+
+export interface EvaluatePromotionsOptions {
+  // Codes entered by the customer; promotions without a code apply automatically
+  codes?: string[]
+  now?: Date
+}
+
+const toCents = (amount: number) => Math.round(amount * 100)
+const fromCents = (cents: number) => cents / 100
+
+export const normalizePromotionCode = (code: string) => code.trim().toUpperCase()
+
+// Whether a line falls under the promotion's product and category restrictions
+export function isLineEligible(promotion: Promotion, line: PromotionCartLine): boolean {
+  if (promotion.applicableProducts?.length && !promotion.applicableProducts.includes(line.productId)) {
+    return false
+  }
+  if (promotion.applicableCategories?.length && !promotion.applicableCategories.includes(line.category)) {
+    return false
+  }
+  return true
+}
+
+// Reason the promotion can't be used on this cart, or null if it can
+export function getIneligibilityReason(
+  promotion: Promotion,
+  cart: PromotionCart,
+  now: Date = new Date()
+): string | null {
+  if (!promotion.isActive || promotion.startDate > now || promotion.endDate < now) {
+    return 'Promotion is not active'
+  }
+  if (promotion.usageLimit !== undefined && promotion.usageLimit !== null && promotion.usedCount >= promotion.usageLimit) {
+    return 'Promotion usage limit reached'
+  }
+
+  const subtotal = cart.lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0)
+  if (promotion.minOrderAmount && subtotal < promotion.minOrderAmount) {
+    return `Minimum order amount of ${promotion.minOrderAmount} required`
+  }
+
+  if (promotion.type !== 'free_shipping' && !cart.lines.some(line => isLineEligible(promotion, line))) {
+    return 'No items in the cart qualify for this promotion'
+  }
+  if (promotion.type === 'free_shipping' && cart.shippingCost <= 0) {
+    return 'Shipping is already free'
+  }
+  return null
+}
+
+// Split an amount across weights, largest remainder first, so the parts sum exactly
+function allocate(totalCents: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0)
+  if (weightSum <= 0 || totalCents <= 0) return weights.map(() => 0)
+
+  const exact = weights.map(weight => (totalCents * weight) / weightSum)
+  const parts = exact.map(Math.floor)
+  let remainder = totalCents - parts.reduce((sum, part) => sum + part, 0)
+
+  const order = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction)
+  for (let i = 0; remainder > 0; i = (i + 1) % order.length, remainder--) {
+    parts[order[i].index]++
+  }
+  return parts
+}
+
+interface ScenarioResult {
+  lineDiscounts: Map<string, Array<{ promotionId: string; cents: number }>>
+  applied: Array<{ promotion: Promotion; cents: number; shippingCents: number }>
+  totalCents: number
+}
+
+// Apply promotions in order, each one discounting what earlier ones left
+function runScenario(promotions: Promotion[], cart: PromotionCart): ScenarioResult {
+  const remaining = new Map(cart.lines.map(line => [line.id, toCents(line.unitPrice) * line.quantity]))
+  const lineDiscounts = new Map<string, Array<{ promotionId: string; cents: number }>>()
+  const applied: ScenarioResult['applied'] = []
+  let shippingRemaining = toCents(cart.shippingCost)
+  let totalCents = 0
+
+  for (const promotion of promotions) {
+    const eligible = cart.lines.filter(line => isLineEligible(promotion, line) && (remaining.get(line.id) || 0) > 0)
+    const maxCents = promotion.maxDiscountAmount ? toCents(promotion.maxDiscountAmount) : Infinity
+    let perLine: number[] = eligible.map(() => 0)
+    let shippingCents = 0
+
+    switch (promotion.type) {
+      case 'percentage': {
+        perLine = eligible.map(line => Math.round((remaining.get(line.id)! * promotion.value) / 100))
+        const raw = perLine.reduce((sum, cents) => sum + cents, 0)
+        if (raw > maxCents) perLine = allocate(maxCents, perLine)
+        break
+      }
+
+      case 'fixed_amount': {
+        const weights = eligible.map(line => remaining.get(line.id)!)
+        const available = weights.reduce((sum, cents) => sum + cents, 0)
+        perLine = allocate(Math.min(toCents(promotion.value), available, maxCents), weights)
+        break
+      }
+
+      case 'buy_one_get_one': {
+        const percentOff = promotion.value > 0 ? Math.min(promotion.value, 100) : 100
+        perLine = eligible.map(line => {
+          const freeUnits = Math.floor(line.quantity / 2)
+          const cents = Math.round((freeUnits * toCents(line.unitPrice) * percentOff) / 100)
+          return Math.min(cents, remaining.get(line.id)!)
+        })
+        const raw = perLine.reduce((sum, cents) => sum + cents, 0)
+        if (raw > maxCents) perLine = allocate(maxCents, perLine)
+        break
+      }
+
+      case 'free_shipping':
+        shippingCents = Math.min(shippingRemaining, maxCents)
+        break
+    }
+
+    const promotionCents = perLine.reduce((sum, cents) => sum + cents, 0)
+    if (promotionCents === 0 && shippingCents === 0) continue
+
+    eligible.forEach((line, index) => {
+      if (perLine[index] === 0) return
+      remaining.set(line.id, remaining.get(line.id)! - perLine[index])
+      const discounts = lineDiscounts.get(line.id) || []
+      discounts.push({ promotionId: promotion.id, cents: perLine[index] })
+      lineDiscounts.set(line.id, discounts)
+    })
+    shippingRemaining -= shippingCents
+    totalCents += promotionCents + shippingCents
+    applied.push({ promotion, cents: promotionCents, shippingCents })
+  }
+
+  return { lineDiscounts, applied, totalCents }
+}
+
+// Divide an evaluation's discounts between groups of lines. Line discounts stay with
+// their lines; the shipping discount is shared in proportion to each group's shipping
+// cost. The parts add up exactly to the evaluation's totals.
+export function splitEvaluation(
+  evaluation: PromotionEvaluation,
+  groups: PromotionSplitGroup[]
+): Map<string, { discountAmount: number; shippingDiscount: number }> {
+  const lineDiscounts = new Map(evaluation.lines.map(line => [line.lineId, toCents(line.discountTotal)]))
+  const shippingParts = allocate(toCents(evaluation.shippingDiscount), groups.map(group => toCents(group.shippingCost)))
+
+  return new Map(groups.map((group, index) => [group.id, {
+    discountAmount: fromCents(group.lineIds.reduce((sum, lineId) => sum + (lineDiscounts.get(lineId) || 0), 0)),
+    shippingDiscount: fromCents(shippingParts[index])
+  }]))
+}
+
+const byPriority = (a: Promotion, b: Promotion) =>
+  (b.priority || 0) - (a.priority || 0) || a.createdAt.getTime() - b.createdAt.getTime()
+
+export function evaluatePromotions(
+  cart: PromotionCart,
+  promotions: Promotion[],
+  options: EvaluatePromotionsOptions = {}
+): PromotionEvaluation {
+  const now = options.now || new Date()
+  const codes = Array.from(new Set((options.codes || []).map(normalizePromotionCode).filter(Boolean)))
+  const rejectedCodes: PromotionEvaluation['rejectedCodes'] = []
+
+  // Automatic promotions plus those unlocked by an entered code
+  const candidates: Promotion[] = []
+  for (const promotion of promotions) {
+    const code = promotion.code ? normalizePromotionCode(promotion.code) : undefined
+    if (code && !codes.includes(code)) continue
+
+    const reason = getIneligibilityReason(promotion, cart, now)
+    if (reason) {
+      if (code) rejectedCodes.push({ code, reason })
+      continue
+    }
+    candidates.push(promotion)
+  }
+
+  const knownCodes = new Set(promotions.filter(p => p.code).map(p => normalizePromotionCode(p.code!)))
+  codes
+    .filter(code => !knownCodes.has(code))
+    .forEach(code => rejectedCodes.push({ code, reason: 'Invalid promotion code' }))
+
+  // Compare the stackable set with each exclusive promotion on its own
+  const stackable = candidates.filter(p => p.stackable).sort(byPriority)
+  const scenarios = [
+    runScenario(stackable, cart),
+    ...candidates.filter(p => !p.stackable).map(p => runScenario([p], cart))
+  ]
+  const best = scenarios.reduce((a, b) => (b.totalCents > a.totalCents ? b : a))
+
+  const appliedIds = new Set(best.applied.map(({ promotion }) => promotion.id))
+  candidates
+    .filter(p => p.code && !appliedIds.has(p.id))
+    .forEach(p => rejectedCodes.push({
+      code: normalizePromotionCode(p.code!),
+      reason: 'Cannot be combined with a better promotion already applied'
+    }))
+
+  const lines: PromotionLineBreakdown[] = cart.lines.map(line => {
+    const subtotalCents = toCents(line.unitPrice) * line.quantity
+    const discounts = best.lineDiscounts.get(line.id) || []
+    const discountCents = discounts.reduce((sum, discount) => sum + discount.cents, 0)
+    return {
+      lineId: line.id,
+      productId: line.productId,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      subtotal: fromCents(subtotalCents),
+      discounts: discounts.map(discount => ({ promotionId: discount.promotionId, amount: fromCents(discount.cents) })),
+      discountTotal: fromCents(discountCents),
+      total: fromCents(subtotalCents - discountCents)
+    }
+  })
+
+  const appliedPromotions: AppliedPromotion[] = best.applied.map(({ promotion, cents, shippingCents }) => ({
+    promotionId: promotion.id,
+    name: promotion.name,
+    ...(promotion.code ? { code: normalizePromotionCode(promotion.code) } : {}),
+    type: promotion.type,
+    discountAmount: fromCents(cents),
+    shippingDiscount: fromCents(shippingCents)
+  }))
+
+  const subtotalCents = cart.lines.reduce((sum, line) => sum + toCents(line.unitPrice) * line.quantity, 0)
+  const discountCents = best.applied.reduce((sum, entry) => sum + entry.cents, 0)
+  const shippingCents = toCents(cart.shippingCost)
+  const shippingDiscountCents = best.applied.reduce((sum, entry) => sum + entry.shippingCents, 0)
+
+  return {
+    lines,
+    appliedPromotions,
+    rejectedCodes,
+    subtotal: fromCents(subtotalCents),
+    discountTotal: fromCents(discountCents),
+    shippingCost: fromCents(shippingCents),
+    shippingDiscount: fromCents(shippingDiscountCents),
+    total: fromCents(subtotalCents - discountCents + shippingCents - shippingDiscountCents)
+  }
+}
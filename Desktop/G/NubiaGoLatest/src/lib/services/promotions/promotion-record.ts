@@ -0,0 +1,31 @@
+import { Promotion } from '@/types'
+import { toDate } from '@/lib/utils/dates'
+
+export const PROMOTIONS_COLLECTION = 'promotions'
+export const PROMOTION_REDEMPTIONS_COLLECTION = 'promotion_redemptions'
+
+
+// Map a Firestore promotion document (client or admin SDK) to a Promotion
+export function toPromotion(id: string, data: Record<string, any>): Promotion {
+  return {
+    id,
+    name: data.name,
+    description: data.description || '',
+    type: data.type,
+    value: Number(data.value) || 0,
+    code: data.code || undefined,
+    startDate: toDate(data.startDate) || new Date(),
+    endDate: toDate(data.endDate) || new Date(),
+    isActive: !!data.isActive,
+    usageLimit: data.usageLimit ?? undefined,
+    usedCount: data.usedCount || 0,
+    minOrderAmount: data.minOrderAmount ?? undefined,
+    maxDiscountAmount: data.maxDiscountAmount ?? undefined,
+    applicableProducts: data.applicableProducts || undefined,
+    applicableCategories: data.applicableCategories || undefined,
+    stackable: !!data.stackable,
+    priority: data.priority || 0,
+    createdAt: toDate(data.createdAt) || new Date(),
+    updatedAt: toDate(data.updatedAt) || new Date()
+  }
+}
@@ -0,0 +1,298 @@
+import {
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs
+} from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { AuthorizationError, BaseError, ConflictError, NotFoundError, ValidationError } from '@/lib/errors'
+import { logger } from '@/lib/utils/logger'
+import { toDate } from '@/lib/utils/dates'
+import { ShippingCountryRule, ShippingRateRules } from '@/types'
+import { cacheService } from './cache.service'
+import { logisticsService, ShippingAddress, ShippingPackage, ShippingRate } from './logistics.service'
+import {
+  DEFAULT_SHIPPING_RATE_RULES,
+  priceQuotes,
+  rateCacheKey,
+  ShippingQuote
+} from './shipping/rate-shopping'
+
+export interface RateShoppingOptions {
+  userId: string
+  orderSubtotal?: number
+}
+
+// One round of shopping, kept so the option a customer picks can be checked and audited
+export interface ShippingQuoteSet {
+  id: string
+  userId: string
+  destinationCountry: string
+  orderSubtotal?: number
+  quotes: ShippingQuote[]
+  createdAt: Date
+  expiresAt: Date
+  selection?: ShippingQuoteSelection
+}
+
+export interface ShippingQuoteSelection {
+  orderId: string
+  rateId: string
+  carrier: string
+  serviceCode: string
+  carrierRate: number
+  price: number
+  // What we keep: price minus carrier cost, negative when shipping is subsidised
+  margin: number
+  freeShipping: boolean
+  selectedAt: Date
+}
+
+export interface ShippingMarginSummary {
+  selections: Array<ShippingQuoteSelection & { quoteId: string; destinationCountry: string }>
+  totals: { count: number; revenue: number; carrierCost: number; margin: number }
+}
+
+// Saved rules are re-read at most this often per server instance or browser tab
+const RULES_CACHE_MS = 60 * 1000
+
+// Raw carrier rates are reused for this long per route and weight bucket
+const RATE_CACHE_TTL_MS = 15 * 60 * 1000
+
+// A customer has this long to place the order at the quoted price
+const QUOTE_VALIDITY_MS = 30 * 60 * 1000
+
+const MAX_MARKUP_PERCENT = 500
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100
+
+export class RateShoppingService {
+  private readonly SETTINGS_COLLECTION = 'shipping_settings'
+  private readonly RULES_DOCUMENT = 'rate_rules'
+  private readonly QUOTES_COLLECTION = 'shipping_quotes'
+  private cachedRules?: { rules: ShippingRateRules; loadedAt: number }
+
+  // Current pricing rules, falling back to the defaults for anything an admin never set
+  async getRules(): Promise<ShippingRateRules> {
+    if (this.cachedRules && Date.now() - this.cachedRules.loadedAt < RULES_CACHE_MS) {
+      return this.cachedRules.rules
+    }
+
+    try {
+      const rulesDoc = await getDoc(doc(db, this.SETTINGS_COLLECTION, this.RULES_DOCUMENT))
+      const data = rulesDoc.exists() ? rulesDoc.data() : {}
+      const rules: ShippingRateRules = {
+        ...DEFAULT_SHIPPING_RATE_RULES,
+        ...data,
+        countryRules: data.countryRules || {},
+        updatedAt: toDate(data.updatedAt)
+      }
+      this.cachedRules = { rules, loadedAt: Date.now() }
+      return rules
+    } catch (error) {
+      // Without rules customers still get carrier prices rather than no shipping at all
+      logger.error('Error loading shipping rate rules, using defaults:', error)
+      return DEFAULT_SHIPPING_RATE_RULES
+    }
+  }
+
+  // Replace the pricing rules. Country keys are trimmed; carrier names are de-duplicated.
+  async updateRules(input: Partial<ShippingRateRules>, adminId: string): Promise<ShippingRateRules> {
+    const current = await this.getRules()
+    const fieldErrors: Record<string, string[]> = {}
+
+    const amount = (field: 'markupPercent' | 'markupFlat' | 'freeShippingThreshold', max?: number) => {
+      const value = input[field] ?? current[field]
+      if (typeof value !== 'number' || !isFinite(value) || value < 0 || (max !== undefined && value > max)) {
+        fieldErrors[field] = [max !== undefined ? `Must be between 0 and ${max}` : 'Must be zero or more']
+        return 0
+      }
+      return value
+    }
+
+    const countryRules: Record<string, ShippingCountryRule> = {}
+    for (const [country, rule] of Object.entries(input.countryRules ?? current.countryRules)) {
+      const key = country.trim()
+      const carriers = rule?.excludedCarriers
+      if (!key || !Array.isArray(carriers) || carriers.some(carrier => typeof carrier !== 'string')) {
+        fieldErrors.countryRules = [`Invalid rule for ${key || 'a blank country'}`]
+        continue
+      }
+      const invalidNumber = (value: unknown) =>
+        value !== undefined && (typeof value !== 'number' || !isFinite(value) || value < 0)
+      if (invalidNumber(rule.markupPercent) || invalidNumber(rule.freeShippingThreshold) ||
+        (rule.markupPercent ?? 0) > MAX_MARKUP_PERCENT) {
+        fieldErrors.countryRules = [`Invalid markup or threshold for ${key}`]
+        continue
+      }
+      countryRules[key] = {
+        excludedCarriers: Array.from(new Set(carriers.map(carrier => carrier.trim()).filter(Boolean))),
+        ...(rule.markupPercent !== undefined ? { markupPercent: rule.markupPercent } : {}),
+        ...(rule.freeShippingThreshold !== undefined ? { freeShippingThreshold: rule.freeShippingThreshold } : {})
+      }
+    }
+
+    const rules: ShippingRateRules = {
+      markupPercent: amount('markupPercent', MAX_MARKUP_PERCENT),
+      markupFlat: amount('markupFlat'),
+      freeShippingThreshold: amount('freeShippingThreshold'),
+      countryRules,
+      updatedAt: new Date(),
+      updatedBy: adminId
+    }
+
+    if (Object.keys(fieldErrors).length > 0) {
+      throw new ValidationError('Invalid shipping rate rules', fieldErrors)
+    }
+
+    try {
+      await setDoc(doc(db, this.SETTINGS_COLLECTION, this.RULES_DOCUMENT), rules)
+      this.cachedRules = { rules, loadedAt: Date.now() }
+      return rules
+    } catch (error) {
+      logger.error('Error saving shipping rate rules:', error)
+      throw new Error('Failed to save shipping rate rules')
+    }
+  }
+
+  // Quote every active carrier for a shipment and price the options for this customer.
+  // Carrier rates are cached before markup so rule changes apply straight away.
+  async shopRates(
+    fromAddress: ShippingAddress,
+    toAddress: ShippingAddress,
+    packages: ShippingPackage[],
+    options: RateShoppingOptions
+  ): Promise<ShippingQuoteSet> {
+    try {
+      const cacheKey = rateCacheKey(fromAddress, toAddress, packages)
+      let rates = cacheService.get<ShippingRate[]>(cacheKey)
+      if (!rates) {
+        rates = await logisticsService.getShippingRates(fromAddress, toAddress, packages)
+        // An empty answer usually means every carrier timed out; ask again next time
+        if (rates.length > 0) {
+          cacheService.set(cacheKey, rates, RATE_CACHE_TTL_MS)
+        }
+      }
+
+      const rules = await this.getRules()
+      const quotes = priceQuotes(rates, rules, {
+        destinationCountry: toAddress.country,
+        orderSubtotal: options.orderSubtotal
+      })
+
+      const quoteRef = doc(collection(db, this.QUOTES_COLLECTION))
+      const now = new Date()
+      const quoteSet: ShippingQuoteSet = {
+        id: quoteRef.id,
+        userId: options.userId,
+        destinationCountry: toAddress.country,
+        ...(options.orderSubtotal !== undefined ? { orderSubtotal: options.orderSubtotal } : {}),
+        quotes,
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + QUOTE_VALIDITY_MS)
+      }
+
+      const { id, ...data } = quoteSet
+      await setDoc(quoteRef, data)
+      return quoteSet
+    } catch (error) {
+      logger.error('Error shopping shipping rates:', error)
+      throw new Error('Failed to calculate shipping rates')
+    }
+  }
+
+  // Record which option paid for an order's shipping, with its margin for auditing
+  async recordSelection(quoteId: string, rateId: string, orderId: string, userId: string): Promise<ShippingQuoteSelection> {
+    try {
+      const quoteRef = doc(db, this.QUOTES_COLLECTION, quoteId)
+      const quoteDoc = await getDoc(quoteRef)
+      if (!quoteDoc.exists()) {
+        throw new NotFoundError('Shipping quote', quoteId)
+      }
+
+      const quoteSet = this.toQuoteSet(quoteDoc.id, quoteDoc.data())
+      if (quoteSet.userId !== userId) {
+        throw new AuthorizationError('Shipping quote belongs to another user')
+      }
+      if (quoteSet.selection && quoteSet.selection.orderId !== orderId) {
+        throw new ConflictError('Shipping quote was already used for another order', { quoteId })
+      }
+      if (quoteSet.expiresAt.getTime() < Date.now()) {
+        throw new ConflictError('Shipping quote has expired; recalculate shipping', { quoteId })
+      }
+
+      const quote = quoteSet.quotes.find(candidate => candidate.id === rateId)
+      if (!quote) {
+        throw new NotFoundError('Shipping rate', rateId)
+      }
+
+      const selection: ShippingQuoteSelection = {
+        orderId,
+        rateId,
+        carrier: quote.carrier,
+        serviceCode: quote.serviceCode,
+        carrierRate: quote.carrierRate,
+        price: quote.rate,
+        margin: roundMoney(quote.rate - quote.carrierRate),
+        freeShipping: quote.freeShipping,
+        selectedAt: new Date()
+      }
+      await updateDoc(quoteRef, { selection })
+      return selection
+    } catch (error) {
+      if (error instanceof BaseError) throw error
+      logger.error('Error recording shipping quote selection:', error)
+      throw new Error('Failed to record shipping selection')
+    }
+  }
+
+  // Chosen quotes since a date, newest first, with margin totals
+  async getMarginSummary(since: Date, maxResults: number = 500): Promise<ShippingMarginSummary> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.QUOTES_COLLECTION),
+        where('selection.selectedAt', '>=', since),
+        orderBy('selection.selectedAt', 'desc'),
+        limit(maxResults)
+      ))
+
+      const selections = snapshot.docs
+        .map(quoteDoc => this.toQuoteSet(quoteDoc.id, quoteDoc.data()))
+        .filter((quoteSet): quoteSet is ShippingQuoteSet & { selection: ShippingQuoteSelection } => !!quoteSet.selection)
+        .map(quoteSet => ({ ...quoteSet.selection, quoteId: quoteSet.id, destinationCountry: quoteSet.destinationCountry }))
+
+      const totals = selections.reduce((sum, selection) => ({
+        count: sum.count + 1,
+        revenue: roundMoney(sum.revenue + selection.price),
+        carrierCost: roundMoney(sum.carrierCost + selection.carrierRate),
+        margin: roundMoney(sum.margin + selection.margin)
+      }), { count: 0, revenue: 0, carrierCost: 0, margin: 0 })
+
+      return { selections, totals }
+    } catch (error) {
+      logger.error('Error fetching shipping margins:', error)
+      throw new Error('Failed to fetch shipping margins')
+    }
+  }
+
+  private toQuoteSet(id: string, data: Record<string, any>): ShippingQuoteSet {
+    return {
+      ...data,
+      id,
+      quotes: data.quotes || [],
+      createdAt: toDate(data.createdAt) || new Date(),
+      expiresAt: toDate(data.expiresAt) || new Date(0),
+      selection: data.selection
+        ? { ...data.selection, selectedAt: toDate(data.selection.selectedAt) || new Date() }
+        : undefined
+    } as ShippingQuoteSet
+  }
+}
+
+export const rateShoppingService = new RateShoppingService()
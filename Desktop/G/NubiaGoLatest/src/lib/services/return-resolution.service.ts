@@ -0,0 +1,119 @@
+import { FieldValue } from 'firebase-admin/firestore'
+import { adminDb } from '@/lib/firebase/admin'
+import { AuthorizationError, BaseError, ConflictError, NotFoundError } from '@/lib/errors'
+import { logger } from '@/lib/utils/logger'
+import { BASE_CURRENCY, formatMoney, toOrderCurrency } from '@/lib/currency'
+import { ReturnRequest, ReturnStatus, ReturnStatusChange } from '@/types'
+import { orderService } from './order.service'
+import { RETURNS_COLLECTION, toReturnRequest } from './returns/return-record'
+import { RESOLUTION_STATUS, transitionReturn } from './returns/return-state-machine'
+
+// Server-only: receiving returns and issuing their refund or store credit. Runs on
+// firebase-admin because suppliers may not credit a customer's account or mark a return
+// refunded from the browser. Not exported from the services index because it depends on
+// firebase-admin.
+
+type ReturnActor = Pick<ReturnStatusChange, 'actorId' | 'actorRole'>
+
+const SYSTEM_ACTOR: ReturnActor = { actorId: 'system', actorRole: 'system' }
+
+export class ReturnResolutionService {
+  private readonly USERS_COLLECTION = 'users'
+
+  // Supplier confirms the goods arrived; refunds and store credit are issued right away
+  async markReceived(returnId: string, supplierId: string, note?: string): Promise<ReturnRequest> {
+    const received = await this.changeStatus(returnId, 'received', { actorId: supplierId, actorRole: 'supplier' }, note)
+    if (received.resolution === 'exchange') {
+      return received
+    }
+    return this.resolveReturn(returnId, supplierId)
+  }
+
+  // Issue the refund or store credit for a received return. The return is claimed by
+  // moving it to 'refunding' before any money moves, so a second call (or a retry after
+  // a crash mid-refund) is rejected instead of refunding twice. If issuing fails the
+  // return goes back to 'received' and can be resolved again.
+  async resolveReturn(returnId: string, supplierId: string): Promise<ReturnRequest> {
+    const claimed = await this.changeStatus(returnId, 'refunding', { actorId: supplierId, actorRole: 'supplier' })
+
+    let note: string
+    try {
+      note = await this.issue(claimed)
+    } catch (error) {
+      logger.error(`Error issuing ${claimed.resolution} for return ${returnId}:`, error)
+      await this.changeStatus(returnId, 'received', SYSTEM_ACTOR, 'Refund failed; it can be retried')
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to resolve return')
+    }
+
+    return this.changeStatus(returnId, RESOLUTION_STATUS[claimed.resolution], SYSTEM_ACTOR, note)
+  }
+
+  // Refunds go back in the currency paid, at the checkout rate; store credit is kept in the base currency
+  private async issue(returnRequest: ReturnRequest): Promise<string> {
+    if (returnRequest.resolution === 'refund') {
+      const order = await orderService.refundOrder(
+        returnRequest.orderId,
+        returnRequest.refundAmount,
+        `Return ${returnRequest.rmaNumber}`,
+        { subOrderId: returnRequest.subOrderId }
+      )
+      const refunded = toOrderCurrency(returnRequest.refundAmount, order)
+      return `Refunded ${formatMoney(refunded.amount, refunded.currency)}`
+    }
+
+    await adminDb.collection(this.USERS_COLLECTION).doc(returnRequest.userId).update({
+      storeCredit: FieldValue.increment(returnRequest.refundAmount),
+      updatedAt: new Date()
+    })
+    return `Credited ${formatMoney(returnRequest.refundAmount, BASE_CURRENCY)}`
+  }
+
+  // Apply a status change in a transaction so two concurrent actions (e.g. a double
+  // click on "received") can't both pass the state machine check
+  private async changeStatus(
+    returnId: string,
+    to: ReturnStatus,
+    actor: ReturnActor,
+    note?: string
+  ): Promise<ReturnRequest> {
+    const returnRef = adminDb.collection(RETURNS_COLLECTION).doc(returnId)
+
+    try {
+      return await adminDb.runTransaction(async (transaction) => {
+        const returnDoc = await transaction.get(returnRef)
+        if (!returnDoc.exists) {
+          throw new NotFoundError('Return', returnId)
+        }
+
+        const returnRequest = toReturnRequest(returnDoc.id, returnDoc.data()!)
+        if (actor.actorRole === 'supplier' && returnRequest.supplierId !== actor.actorId) {
+          throw new AuthorizationError('Return belongs to another supplier')
+        }
+        if (to === 'refunding' && returnRequest.resolution === 'exchange') {
+          throw new ConflictError('Exchange returns are completed with a replacement', { returnId })
+        }
+
+        const from = returnRequest.status
+        if (!transitionReturn(returnRequest, to, { ...actor, note })) {
+          throw new ConflictError(`Return cannot move from ${from} to ${to}`, { returnId })
+        }
+
+        transaction.update(returnRef, {
+          status: returnRequest.status,
+          statusHistory: returnRequest.statusHistory,
+          updatedAt: returnRequest.updatedAt,
+          ...(returnRequest.receivedAt ? { receivedAt: returnRequest.receivedAt } : {}),
+          ...(returnRequest.resolvedAt ? { resolvedAt: returnRequest.resolvedAt } : {})
+        })
+        return returnRequest
+      })
+    } catch (error) {
+      logger.error(`Error moving return to ${to}:`, error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to update return')
+    }
+  }
+}
+
+export const returnResolutionService = new ReturnResolutionService()
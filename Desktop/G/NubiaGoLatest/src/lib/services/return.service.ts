@@ -0,0 +1,376 @@
+import {
+  doc,
+  getDoc,
+  setDoc,
+  collection,
+  query,
+  where,
+  orderBy,
+  getDocs,
+  runTransaction
+} from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { AuthorizationError, BaseError, ConflictError, NotFoundError, ValidationError } from '@/lib/errors'
+import { logger } from '@/lib/utils/logger'
+import { toDate } from '@/lib/utils/dates'
+import {
+  Order,
+  ReturnReason,
+  ReturnRequest,
+  ReturnResolution,
+  ReturnStatus,
+  ReturnStatusChange
+} from '@/types'
+import { logisticsService, ShippingPackage } from './logistics.service'
+import { orderService } from './order.service'
+import { subOrderService } from './sub-order.service'
+import {
+  OPEN_RETURN_STATUSES,
+  canTransitionReturn,
+  transitionReturn
+} from './returns/return-state-machine'
+import { RETURNS_COLLECTION, toReturnRequest } from './returns/return-record'
+
+// Items can be returned this many days after delivery (matches the published policy)
+export const RETURN_WINDOW_DAYS = 30
+
+export const MAX_RETURN_PHOTOS = 5
+
+// Reasons that need photo evidence before a supplier can assess the return
+const PHOTO_REQUIRED_REASONS: ReturnReason[] = ['damaged', 'defective', 'wrong_item']
+
+// Products carry no shipping dimensions yet, so labels are bought for a standard parcel
+const DEFAULT_RETURN_PACKAGE: ShippingPackage = {
+  weight: 2,
+  length: 40,
+  width: 30,
+  height: 20,
+  weightUnit: 'kg',
+  dimensionUnit: 'cm'
+}
+
+export interface CreateReturnRequestInput {
+  orderId: string
+  orderItemId: string
+  quantity: number
+  reason: ReturnReason
+  description?: string
+  photos: string[]
+  resolution: ReturnResolution
+}
+
+type ReturnActor = Pick<ReturnStatusChange, 'actorId' | 'actorRole'>
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+export class ReturnService {
+  private readonly COLLECTION_NAME = RETURNS_COLLECTION
+
+  // Open a return for one order line
+  async createReturnRequest(userId: string, input: CreateReturnRequestInput): Promise<ReturnRequest> {
+    try {
+      const order = await orderService.getOrder(input.orderId)
+      if (!order) {
+        throw new NotFoundError('Order', input.orderId)
+      }
+      if (order.userId !== userId) {
+        throw new AuthorizationError('Order belongs to another customer')
+      }
+
+      const item = order.items.find(orderItem => orderItem.id === input.orderItemId)
+      if (!item) {
+        throw new NotFoundError('Order item', input.orderItemId)
+      }
+
+      const subOrders = await subOrderService.getSubOrdersForOrder(order.id)
+      const subOrder = subOrders.find(candidate => candidate.items.some(subItem => subItem.id === item.id))
+
+      const status = subOrder?.status || order.status
+      if (status !== 'delivered') {
+        throw new ValidationError('Only delivered items can be returned')
+      }
+
+      const deliveredAt = toDate(subOrder?.deliveredAt) || toDate(order.updatedAt)!
+      if (Date.now() - deliveredAt.getTime() > RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+        throw new ValidationError(`Returns must be requested within ${RETURN_WINDOW_DAYS} days of delivery`)
+      }
+
+      this.validateRequest(input)
+      const returnable = item.quantity - await this.getReturnedQuantity(order.id, userId, item.id)
+      if (input.quantity > returnable) {
+        throw new ValidationError(
+          returnable > 0 ? `Only ${returnable} of this item can still be returned` : 'This item has already been returned',
+          { quantity: ['Exceeds the quantity that can be returned'] }
+        )
+      }
+
+      const now = new Date()
+      const returnRef = doc(collection(db, this.COLLECTION_NAME))
+      const returnRequest: ReturnRequest = {
+        id: returnRef.id,
+        rmaNumber: `RMA-${now.getTime().toString(36).toUpperCase()}-${returnRef.id.slice(0, 4).toUpperCase()}`,
+        orderId: order.id,
+        ...(subOrder ? { subOrderId: subOrder.id } : {}),
+        orderItemId: item.id,
+        productId: item.productId,
+        productName: item.product?.name || item.productId,
+        supplierId: subOrder?.supplierId || subOrderService.getItemSupplierId(item),
+        userId,
+        quantity: input.quantity,
+        unitPrice: item.price,
+        reason: input.reason,
+        ...(input.description?.trim() ? { description: input.description.trim() } : {}),
+        photos: input.photos,
+        resolution: input.resolution,
+        status: 'requested',
+        statusHistory: [{ status: 'requested', actorId: userId, actorRole: 'customer', changedAt: now }],
+        refundAmount: this.calculateRefundAmount(order, item.id, item.price, input.quantity),
+        createdAt: now,
+        updatedAt: now
+      }
+
+      await setDoc(returnRef, returnRequest)
+      return returnRequest
+    } catch (error) {
+      logger.error('Error creating return request:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to create return request')
+    }
+  }
+
+  // Get return by ID
+  async getReturn(returnId: string): Promise<ReturnRequest | null> {
+    try {
+      const returnDoc = await getDoc(doc(db, this.COLLECTION_NAME, returnId))
+      if (!returnDoc.exists()) {
+        return null
+      }
+      return toReturnRequest(returnDoc.id, returnDoc.data())
+    } catch (error) {
+      logger.error('Error getting return:', error)
+      throw new Error('Failed to fetch return')
+    }
+  }
+
+  // Get a customer's returns, newest first
+  async getCustomerReturns(userId: string): Promise<ReturnRequest[]> {
+    try {
+      const returnsQuery = query(
+        collection(db, this.COLLECTION_NAME),
+        where('userId', '==', userId),
+        orderBy('createdAt', 'desc')
+      )
+      const snapshot = await getDocs(returnsQuery)
+      return snapshot.docs.map(returnDoc => toReturnRequest(returnDoc.id, returnDoc.data()))
+    } catch (error) {
+      logger.error('Error getting customer returns:', error)
+      throw new Error('Failed to fetch returns')
+    }
+  }
+
+  // Get the customer's returns for one order
+  async getReturnsForOrder(orderId: string, userId: string): Promise<ReturnRequest[]> {
+    try {
+      const returnsQuery = query(
+        collection(db, this.COLLECTION_NAME),
+        where('orderId', '==', orderId),
+        where('userId', '==', userId)
+      )
+      const snapshot = await getDocs(returnsQuery)
+      return snapshot.docs
+        .map(returnDoc => toReturnRequest(returnDoc.id, returnDoc.data()))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    } catch (error) {
+      logger.error('Error getting order returns:', error)
+      throw new Error('Failed to fetch returns')
+    }
+  }
+
+  // Get returns of a supplier's items, newest first
+  async getSupplierReturns(supplierId: string, status?: ReturnStatus): Promise<ReturnRequest[]> {
+    try {
+      const constraints = [where('supplierId', '==', supplierId)]
+      if (status) {
+        constraints.push(where('status', '==', status))
+      }
+      const snapshot = await getDocs(query(collection(db, this.COLLECTION_NAME), ...constraints, orderBy('createdAt', 'desc')))
+      return snapshot.docs.map(returnDoc => toReturnRequest(returnDoc.id, returnDoc.data()))
+    } catch (error) {
+      logger.error('Error getting supplier returns:', error)
+      throw new Error('Failed to fetch returns')
+    }
+  }
+
+  // Approve a return. The label is bought separately through the return label API
+  // route; if that fails the return stays approved and the label can be requested again.
+  async approveReturn(returnId: string, supplierId: string, note?: string): Promise<ReturnRequest> {
+    return this.changeStatus(returnId, 'approved', { actorId: supplierId, actorRole: 'supplier' }, note)
+  }
+
+  // Reject a return; the customer sees the reason
+  async rejectReturn(returnId: string, supplierId: string, reason: string): Promise<ReturnRequest> {
+    if (!reason.trim()) {
+      throw new ValidationError('A rejection reason is required', { reason: ['Required'] })
+    }
+    return this.changeStatus(returnId, 'rejected', { actorId: supplierId, actorRole: 'supplier' }, reason.trim(), {
+      rejectionReason: reason.trim()
+    })
+  }
+
+  // Buy a return label from the customer's address to the supplier's business address.
+  // Server-only: it needs the carrier credentials (see /api/shipping/labels/returns).
+  async issueReturnLabel(returnId: string, supplierId: string): Promise<ReturnRequest> {
+    try {
+      const returnRequest = await this.getReturn(returnId)
+      if (!returnRequest) {
+        throw new NotFoundError('Return', returnId)
+      }
+      this.assertParty(returnRequest, { actorId: supplierId, actorRole: 'supplier' })
+      if (!canTransitionReturn(returnRequest.status, 'label_issued')) {
+        throw new ConflictError(`A label cannot be issued for a ${returnRequest.status} return`, { returnId })
+      }
+
+      const provider = await logisticsService.getLabelProvider()
+      if (!provider) {
+        throw new ConflictError('No logistics provider is configured for return labels')
+      }
+
+      const order = await orderService.getOrder(returnRequest.orderId)
+      if (!order) {
+        throw new NotFoundError('Order', returnRequest.orderId)
+      }
+
+      const label = await logisticsService.generateShippingLabel(
+        provider,
+        logisticsService.toShippingAddress(order.shippingAddress),
+        await logisticsService.getSupplierAddress(returnRequest.supplierId),
+        [DEFAULT_RETURN_PACKAGE],
+        'RETURN',
+        { reference: returnId, orderId: order.id }
+      )
+
+      return await this.changeStatus(returnId, 'label_issued', { actorId: 'system', actorRole: 'system' }, undefined, {
+        returnLabel: label
+      })
+    } catch (error) {
+      logger.error('Error issuing return label:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to issue return label')
+    }
+  }
+
+  // Customer withdraws the return before shipping it
+  async cancelReturn(returnId: string, userId: string): Promise<ReturnRequest> {
+    return this.changeStatus(returnId, 'cancelled', { actorId: userId, actorRole: 'customer' })
+  }
+
+  // Customer has handed the parcel to the carrier
+  async markShipped(returnId: string, userId: string): Promise<ReturnRequest> {
+    return this.changeStatus(returnId, 'in_transit', { actorId: userId, actorRole: 'customer' })
+  }
+
+  // Supplier ships the replacement item for an exchange
+  async completeExchange(returnId: string, supplierId: string, trackingNumber: string): Promise<ReturnRequest> {
+    if (!trackingNumber.trim()) {
+      throw new ValidationError('A tracking number is required', { trackingNumber: ['Required'] })
+    }
+    return this.changeStatus(returnId, 'exchanged', { actorId: supplierId, actorRole: 'supplier' },
+      `Replacement shipped (${trackingNumber.trim()})`,
+      { replacementTrackingNumber: trackingNumber.trim() }
+    )
+  }
+
+  // Apply a status change in a transaction so two concurrent actions (e.g. a double
+  // click on "received") can't both pass the state machine check
+  private async changeStatus(
+    returnId: string,
+    to: ReturnStatus,
+    actor: ReturnActor,
+    note?: string,
+    updates: Partial<ReturnRequest> = {}
+  ): Promise<ReturnRequest> {
+    const returnRef = doc(db, this.COLLECTION_NAME, returnId)
+
+    try {
+      return await runTransaction(db, async (transaction) => {
+        const returnDoc = await transaction.get(returnRef)
+        if (!returnDoc.exists()) {
+          throw new NotFoundError('Return', returnId)
+        }
+
+        const returnRequest = toReturnRequest(returnDoc.id, returnDoc.data())
+        this.assertParty(returnRequest, actor)
+        if (to === 'exchanged' && returnRequest.resolution !== 'exchange') {
+          throw new ConflictError('Only exchange returns can be completed with a replacement', { returnId })
+        }
+
+        const from = returnRequest.status
+        if (!transitionReturn(returnRequest, to, { ...actor, note })) {
+          throw new ConflictError(`Return cannot move from ${from} to ${to}`, { returnId })
+        }
+        Object.assign(returnRequest, updates)
+
+        transaction.update(returnRef, {
+          ...updates,
+          status: returnRequest.status,
+          statusHistory: returnRequest.statusHistory,
+          updatedAt: returnRequest.updatedAt,
+          ...(returnRequest.receivedAt ? { receivedAt: returnRequest.receivedAt } : {}),
+          ...(returnRequest.resolvedAt ? { resolvedAt: returnRequest.resolvedAt } : {})
+        })
+        return returnRequest
+      })
+    } catch (error) {
+      logger.error(`Error moving return to ${to}:`, error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to update return')
+    }
+  }
+
+  // Customers act on their own returns, suppliers on returns of their items
+  private assertParty(returnRequest: ReturnRequest, actor: ReturnActor): void {
+    if (actor.actorRole === 'customer' && returnRequest.userId !== actor.actorId) {
+      throw new AuthorizationError('Return belongs to another customer')
+    }
+    if (actor.actorRole === 'supplier' && returnRequest.supplierId !== actor.actorId) {
+      throw new AuthorizationError('Return belongs to another supplier')
+    }
+  }
+
+  private validateRequest(input: CreateReturnRequestInput): void {
+    const fieldErrors: Record<string, string[]> = {}
+
+    if (!Number.isInteger(input.quantity) || input.quantity < 1) {
+      fieldErrors.quantity = ['Quantity must be at least 1']
+    }
+    if (input.photos.length > MAX_RETURN_PHOTOS) {
+      fieldErrors.photos = [`At most ${MAX_RETURN_PHOTOS} photos can be attached`]
+    } else if (PHOTO_REQUIRED_REASONS.includes(input.reason) && input.photos.length === 0) {
+      fieldErrors.photos = ['Please attach a photo showing the problem']
+    }
+    if (input.reason === 'other' && !input.description?.trim()) {
+      fieldErrors.description = ['Please describe the reason for the return']
+    }
+
+    if (Object.keys(fieldErrors).length > 0) {
+      throw new ValidationError('Invalid return request', fieldErrors)
+    }
+  }
+
+  // Quantity of an order line already held by open or completed returns
+  private async getReturnedQuantity(orderId: string, userId: string, orderItemId: string): Promise<number> {
+    const returns = await this.getReturnsForOrder(orderId, userId)
+    return returns
+      .filter(existing => existing.orderItemId === orderItemId && OPEN_RETURN_STATUSES.includes(existing.status))
+      .reduce((sum, existing) => sum + existing.quantity, 0)
+  }
+
+  // What the customer actually paid for the returned units, net of promotion discounts
+  private calculateRefundAmount(order: Order, orderItemId: string, unitPrice: number, quantity: number): number {
+    const line = order.promotionEvaluation?.lines.find(candidate => candidate.lineId === orderItemId)
+    const paidPerUnit = line && line.quantity > 0 ? line.total / line.quantity : unitPrice
+    return roundMoney(paidPerUnit * quantity)
+  }
+}
+
+export const returnService = new ReturnService()
@@ -0,0 +1,22 @@
+import { ReturnRequest } from '@/types'
+import { toDate } from '@/lib/utils/dates'
+
+export const RETURNS_COLLECTION = 'returns'
+
+// Map a Firestore return document (client or admin SDK) to a ReturnRequest
+export function toReturnRequest(id: string, data: Record<string, any>): ReturnRequest {
+  return {
+    ...data,
+    id,
+    photos: data.photos || [],
+    statusHistory: (data.statusHistory || []).map((change: any) => ({
+      ...change,
+      changedAt: toDate(change.changedAt)
+    })),
+    ...(data.returnLabel ? { returnLabel: { ...data.returnLabel, createdAt: toDate(data.returnLabel.createdAt) } } : {}),
+    createdAt: toDate(data.createdAt)!,
+    updatedAt: toDate(data.updatedAt)!,
+    receivedAt: toDate(data.receivedAt),
+    resolvedAt: toDate(data.resolvedAt)
+  } as ReturnRequest
+}
@@ -0,0 +1,67 @@
+import { ReturnRequest, ReturnResolution, ReturnStatus, ReturnStatusChange } from '@/types'
+
+// Allowed RMA status changes. A return can be cancelled by the customer until the
+// parcel is on its way; once goods are received it can only be resolved. A refund or
+// credit is claimed by moving to 'refunding' first, so it is issued once; if issuing it
+// fails the return goes back to 'received'. Rejected, cancelled and resolved returns are final.
+const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ['approved', 'rejected', 'cancelled'],
+  approved: ['label_issued', 'cancelled'],
+  label_issued: ['in_transit', 'received', 'cancelled'],
+  in_transit: ['received'],
+  received: ['refunding', 'exchanged'],
+  refunding: ['refunded', 'credited', 'received'],
+  rejected: [],
+  cancelled: [],
+  refunded: [],
+  credited: [],
+  exchanged: []
+}
+
+// Final status for each resolution once the returned goods are received
+export const RESOLUTION_STATUS: Record<ReturnResolution, ReturnStatus> = {
+  refund: 'refunded',
+  store_credit: 'credited',
+  exchange: 'exchanged'
+}
+
+// Statuses in which a return still holds quantity of its order line
+export const OPEN_RETURN_STATUSES: ReturnStatus[] = [
+  'requested', 'approved', 'label_issued', 'in_transit', 'received', 'refunding', 'refunded', 'credited', 'exchanged'
+]
+
+export function canTransitionReturn(from: ReturnStatus, to: ReturnStatus): boolean {
+  return RETURN_TRANSITIONS[from].includes(to)
+}
+
+// Move a return to a new status and append the change to its history.
+// Returns false (leaving the return untouched) if the state machine forbids it.
+export function transitionReturn(
+  returnRequest: ReturnRequest,
+  to: ReturnStatus,
+  actor: Pick<ReturnStatusChange, 'actorId' | 'actorRole' | 'note'>
+): boolean {
+  if (!canTransitionReturn(returnRequest.status, to)) return false
+
+  const now = new Date()
+  returnRequest.status = to
+  returnRequest.updatedAt = now
+  returnRequest.statusHistory = [
+    ...returnRequest.statusHistory,
+    {
+      status: to,
+      actorId: actor.actorId,
+      actorRole: actor.actorRole,
+      ...(actor.note ? { note: actor.note } : {}),
+      changedAt: now
+    }
+  ]
+  // A failed refund moves back to 'received'; keep when the goods actually arrived
+  if (to === 'received' && !returnRequest.receivedAt) {
+    returnRequest.receivedAt = now
+  }
+  if (to === 'refunded' || to === 'credited' || to === 'exchanged') {
+    returnRequest.resolvedAt = now
+  }
+  return true
+}
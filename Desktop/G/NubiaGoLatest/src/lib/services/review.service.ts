@@ -0,0 +1,407 @@
+import {
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  runTransaction,
+  increment,
+  documentId
+} from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { AuthorizationError, BaseError, ConflictError, NotFoundError, ValidationError } from '@/lib/errors'
+import { logger } from '@/lib/utils/logger'
+import { toDate } from '@/lib/utils/dates'
+import { Order, ProductReview, ReviewReply, ReviewVoteType } from '@/types'
+import { moderationService } from './moderation.service'
+import { storageService } from './storage.service'
+import { userService } from './user.service'
+
+export const MAX_REVIEW_PHOTOS = 5
+export const MIN_REVIEW_COMMENT_LENGTH = 10
+export const MAX_REVIEW_COMMENT_LENGTH = 2000
+export const MAX_REVIEW_TITLE_LENGTH = 120
+export const MAX_REVIEW_REPLY_LENGTH = 1000
+
+// Firestore 'in' queries accept at most 30 values
+const MAX_IN_QUERY_IDS = 30
+
+export interface CreateReviewInput {
+  productId: string
+  rating: number
+  title?: string
+  comment: string
+  photos?: File[]
+}
+
+export interface ReviewEligibility {
+  eligible: boolean
+  // The delivered order that qualifies the customer, when there is one
+  orderId?: string
+  reason?: 'not_purchased' | 'not_delivered' | 'already_reviewed'
+}
+
+export interface ReviewVoteCounts {
+  likes: number
+  dislikes: number
+  vote: ReviewVoteType
+}
+
+export class ReviewService {
+  private readonly REVIEWS_COLLECTION = 'reviews'
+  private readonly VOTES_COLLECTION = 'review_votes'
+  private readonly ORDERS_COLLECTION = 'orders'
+  private readonly PRODUCTS_COLLECTION = 'products'
+  private readonly SUPPLIERS_COLLECTION = 'suppliers'
+
+  // Whether a customer may review a product: they need a delivered order that
+  // contains it, and get one review per product
+  async getEligibility(userId: string, productId: string): Promise<ReviewEligibility> {
+    try {
+      const existing = await getDoc(doc(db, this.REVIEWS_COLLECTION, this.getReviewId(productId, userId)))
+      if (existing.exists()) {
+        return { eligible: false, reason: 'already_reviewed' }
+      }
+
+      const ordersSnapshot = await getDocs(query(
+        collection(db, this.ORDERS_COLLECTION),
+        where('userId', '==', userId)
+      ))
+      const purchases = ordersSnapshot.docs
+        .map(orderDoc => ({ id: orderDoc.id, ...orderDoc.data() }) as Order)
+        .filter(order => (order.items || []).some(item => item.productId === productId))
+
+      const delivered = purchases.find(order => order.status === 'delivered')
+      if (delivered) {
+        return { eligible: true, orderId: delivered.id }
+      }
+      return { eligible: false, reason: purchases.length > 0 ? 'not_delivered' : 'not_purchased' }
+    } catch (error) {
+      logger.error('Error checking review eligibility:', error)
+      throw new Error('Failed to check review eligibility')
+    }
+  }
+
+  // Publish a verified-purchase review. The text and photos go through content
+  // moderation first, and the product and supplier ratings are recomputed after.
+  async createReview(userId: string, input: CreateReviewInput): Promise<ProductReview> {
+    const title = input.title?.trim() || ''
+    const comment = input.comment.trim()
+    const photos = input.photos || []
+    const fieldErrors: Record<string, string[]> = {}
+
+    if (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5) {
+      fieldErrors.rating = ['Choose a rating from 1 to 5 stars']
+    }
+    if (comment.length < MIN_REVIEW_COMMENT_LENGTH) {
+      fieldErrors.comment = [`At least ${MIN_REVIEW_COMMENT_LENGTH} characters`]
+    } else if (comment.length > MAX_REVIEW_COMMENT_LENGTH) {
+      fieldErrors.comment = [`At most ${MAX_REVIEW_COMMENT_LENGTH} characters`]
+    }
+    if (title.length > MAX_REVIEW_TITLE_LENGTH) {
+      fieldErrors.title = [`At most ${MAX_REVIEW_TITLE_LENGTH} characters`]
+    }
+    if (photos.length > MAX_REVIEW_PHOTOS) {
+      fieldErrors.photos = [`At most ${MAX_REVIEW_PHOTOS} photos`]
+    } else if (photos.some(photo => !photo.type.startsWith('image/'))) {
+      fieldErrors.photos = ['Only images can be attached']
+    }
+    if (Object.keys(fieldErrors).length > 0) {
+      throw new ValidationError('Invalid review', fieldErrors)
+    }
+
+    try {
+      const eligibility = await this.getEligibility(userId, input.productId)
+      if (eligibility.reason === 'already_reviewed') {
+        throw new ConflictError('You have already reviewed this product', { productId: input.productId })
+      }
+      if (!eligibility.eligible) {
+        throw new AuthorizationError(
+          eligibility.reason === 'not_delivered'
+            ? 'You can review this product once your order has been delivered'
+            : 'Only customers who bought this product can review it'
+        )
+      }
+
+      const [user, orderDoc, productDoc] = await Promise.all([
+        userService.getUserProfile(userId),
+        getDoc(doc(db, this.ORDERS_COLLECTION, eligibility.orderId!)),
+        getDoc(doc(db, this.PRODUCTS_COLLECTION, input.productId))
+      ])
+      const orderItem = (orderDoc.data()?.items || []).find((item: Order['items'][number]) => item.productId === input.productId)
+      const supplierId: string | undefined = orderItem?.supplierId || productDoc.data()?.supplierId
+
+      const moderation = await moderationService.moderateContent({ text: `${title}\n${comment}`, files: photos })
+
+      const reviewId = this.getReviewId(input.productId, userId)
+      const uploads = photos.length > 0 ? await storageService.uploadReviewPhotos(input.productId, reviewId, photos) : []
+      const avatar = user?.avatar || user?.photoURL
+
+      const review: ProductReview = {
+        id: reviewId,
+        productId: input.productId,
+        orderId: eligibility.orderId,
+        ...(supplierId ? { supplierId } : {}),
+        userId,
+        userName: user?.name || user?.displayName || 'Customer',
+        ...(avatar ? { userAvatar: avatar } : {}),
+        rating: input.rating,
+        ...(title ? { title } : {}),
+        comment,
+        verifiedPurchase: true,
+        likes: 0,
+        dislikes: 0,
+        images: uploads.map(upload => upload.url),
+        moderationStatus: moderationService.getReviewStatus(moderation),
+        moderationFlags: moderation.flags,
+        createdAt: new Date()
+      }
+      await setDoc(doc(db, this.REVIEWS_COLLECTION, reviewId), review)
+
+      await this.refreshRatings(review)
+      return review
+    } catch (error) {
+      logger.error('Error creating review:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to create review')
+    }
+  }
+
+  // A product's reviews, newest first. Hidden and removed reviews are only
+  // included for their author.
+  async getProductReviews(productId: string, viewerId?: string, maxResults: number = 50): Promise<ProductReview[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.REVIEWS_COLLECTION),
+        where('productId', '==', productId),
+        orderBy('createdAt', 'desc'),
+        limit(maxResults)
+      ))
+      return snapshot.docs
+        .map(reviewDoc => this.toReview(reviewDoc.id, reviewDoc.data()))
+        .filter(review => this.isPublic(review) || review.userId === viewerId)
+    } catch (error) {
+      logger.error('Error getting product reviews:', error)
+      throw new Error('Failed to fetch reviews')
+    }
+  }
+
+  // The votes a user has cast on the given reviews, keyed by review id
+  async getUserVotes(userId: string, reviewIds: string[]): Promise<Record<string, ReviewVoteType>> {
+    const votes: Record<string, ReviewVoteType> = {}
+    if (reviewIds.length === 0) return votes
+
+    try {
+      const voteIds = reviewIds.map(reviewId => this.getVoteId(reviewId, userId))
+      for (let start = 0; start < voteIds.length; start += MAX_IN_QUERY_IDS) {
+        const snapshot = await getDocs(query(
+          collection(db, this.VOTES_COLLECTION),
+          where(documentId(), 'in', voteIds.slice(start, start + MAX_IN_QUERY_IDS))
+        ))
+        snapshot.docs.forEach(voteDoc => {
+          votes[voteDoc.data().reviewId] = voteDoc.data().vote
+        })
+      }
+      return votes
+    } catch (error) {
+      logger.error('Error getting review votes:', error)
+      throw new Error('Failed to fetch review votes')
+    }
+  }
+
+  // Mark a review helpful or not. Each user has one vote per review; voting again
+  // switches it, and repeating the same vote changes nothing.
+  async voteReview(reviewId: string, userId: string, vote: ReviewVoteType): Promise<ReviewVoteCounts> {
+    if (vote !== 'helpful' && vote !== 'not_helpful') {
+      throw new ValidationError('Invalid vote', { vote: ['Must be helpful or not_helpful'] })
+    }
+
+    const reviewRef = doc(db, this.REVIEWS_COLLECTION, reviewId)
+    const voteRef = doc(db, this.VOTES_COLLECTION, this.getVoteId(reviewId, userId))
+    try {
+      return await runTransaction(db, async (transaction) => {
+        const reviewDoc = await transaction.get(reviewRef)
+        if (!reviewDoc.exists()) {
+          throw new NotFoundError('Review', reviewId)
+        }
+        const review = this.toReview(reviewDoc.id, reviewDoc.data())
+        if (!this.isPublic(review)) {
+          throw new NotFoundError('Review', reviewId)
+        }
+        if (review.userId === userId) {
+          throw new AuthorizationError('You cannot vote on your own review')
+        }
+
+        const voteDoc = await transaction.get(voteRef)
+        const previous: ReviewVoteType | undefined = voteDoc.exists() ? voteDoc.data().vote : undefined
+        const counts = { likes: review.likes || 0, dislikes: review.dislikes || 0, vote }
+        if (previous === vote) return counts
+
+        const countField = (type: ReviewVoteType) => type === 'helpful' ? 'likes' : 'dislikes'
+        counts[countField(vote)] += 1
+        if (previous) {
+          counts[countField(previous)] = Math.max(0, counts[countField(previous)] - 1)
+        }
+
+        const now = new Date()
+        transaction.update(reviewRef, {
+          [countField(vote)]: increment(1),
+          ...(previous ? { [countField(previous)]: increment(-1) } : {})
+        })
+        transaction.set(voteRef, {
+          reviewId,
+          userId,
+          vote,
+          createdAt: voteDoc.exists() ? voteDoc.data().createdAt : now,
+          updatedAt: now
+        })
+        return counts
+      })
+    } catch (error) {
+      logger.error('Error voting on review:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to record vote')
+    }
+  }
+
+  // Post or edit the selling supplier's public reply. Replies with contact details
+  // or other content the moderation rules would hide are rejected.
+  async replyToReview(reviewId: string, supplier: { id: string; name: string }, message: string): Promise<ProductReview> {
+    const text = message.trim()
+    if (!text) {
+      throw new ValidationError('Reply cannot be empty', { message: ['Required'] })
+    }
+    if (text.length > MAX_REVIEW_REPLY_LENGTH) {
+      throw new ValidationError('Reply is too long', { message: [`At most ${MAX_REVIEW_REPLY_LENGTH} characters`] })
+    }
+
+    try {
+      const reviewRef = doc(db, this.REVIEWS_COLLECTION, reviewId)
+      const reviewDoc = await getDoc(reviewRef)
+      if (!reviewDoc.exists()) {
+        throw new NotFoundError('Review', reviewId)
+      }
+      const review = this.toReview(reviewDoc.id, reviewDoc.data())
+      if (review.supplierId !== supplier.id) {
+        throw new AuthorizationError('Only the supplier who sold this product can reply')
+      }
+      if (review.moderationStatus === 'removed') {
+        throw new ConflictError('This review has been removed', { reviewId })
+      }
+
+      const moderation = await moderationService.moderateContent({ text })
+      if (moderation.action === 'hide') {
+        throw new ValidationError('Reply breaks the content rules', {
+          message: [moderationService.describeFlags(moderation.flags)]
+        })
+      }
+
+      const now = new Date()
+      const supplierReply: ReviewReply = {
+        supplierId: supplier.id,
+        supplierName: supplier.name,
+        message: text,
+        createdAt: review.supplierReply?.createdAt || now,
+        ...(review.supplierReply ? { updatedAt: now } : {})
+      }
+      await updateDoc(reviewRef, { supplierReply, updatedAt: now })
+      return { ...review, supplierReply, updatedAt: now }
+    } catch (error) {
+      logger.error('Error replying to review:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to reply to review')
+    }
+  }
+
+  // Recompute the product's rating and review count and the supplier's average
+  // rating from their public reviews. Call after a review is added or moderated.
+  async refreshRatings(review: Pick<ProductReview, 'productId' | 'supplierId'>): Promise<void> {
+    try {
+      if (review.productId) {
+        const summary = await this.summarizeReviews('productId', review.productId)
+        const productRef = doc(db, this.PRODUCTS_COLLECTION, review.productId)
+        if ((await getDoc(productRef)).exists()) {
+          await updateDoc(productRef, {
+            rating: summary.averageRating,
+            reviewCount: summary.reviewCount,
+            updatedAt: new Date()
+          })
+        }
+      }
+
+      if (review.supplierId) {
+        const summary = await this.summarizeReviews('supplierId', review.supplierId)
+        const supplierRef = doc(db, this.SUPPLIERS_COLLECTION, review.supplierId)
+        if ((await getDoc(supplierRef)).exists()) {
+          await updateDoc(supplierRef, {
+            'businessMetrics.averageRating': summary.averageRating,
+            'businessMetrics.reviewCount': summary.reviewCount,
+            updatedAt: new Date()
+          })
+        }
+      }
+    } catch (error) {
+      // The review itself is saved; ratings catch up on the next refresh
+      logger.error('Error refreshing review ratings:', error)
+    }
+  }
+
+  private async summarizeReviews(
+    field: 'productId' | 'supplierId',
+    value: string
+  ): Promise<{ averageRating: number; reviewCount: number }> {
+    const snapshot = await getDocs(query(collection(db, this.REVIEWS_COLLECTION), where(field, '==', value)))
+    const ratings = snapshot.docs
+      .map(reviewDoc => this.toReview(reviewDoc.id, reviewDoc.data()))
+      .filter(review => this.isPublic(review))
+      .map(review => review.rating)
+
+    const total = ratings.reduce((sum, rating) => sum + rating, 0)
+    return {
+      averageRating: ratings.length > 0 ? Math.round((total / ratings.length) * 10) / 10 : 0,
+      reviewCount: ratings.length
+    }
+  }
+
+  // Flagged reviews stay public until a moderator decides
+  private isPublic(review: ProductReview): boolean {
+    return review.moderationStatus === 'published' || review.moderationStatus === 'flagged'
+  }
+
+  // One review per customer per product
+  private getReviewId(productId: string, userId: string): string {
+    return `${productId}_${userId}`
+  }
+
+  private getVoteId(reviewId: string, userId: string): string {
+    return `${reviewId}_${userId}`
+  }
+
+  private toReview(id: string, data: Record<string, any>): ProductReview {
+    return {
+      ...data,
+      id,
+      moderationStatus: data.moderationStatus || 'published',
+      likes: data.likes || 0,
+      dislikes: data.dislikes || 0,
+      images: data.images || [],
+      supplierReply: data.supplierReply
+        ? {
+            ...data.supplierReply,
+            createdAt: toDate(data.supplierReply.createdAt)!,
+            updatedAt: toDate(data.supplierReply.updatedAt)
+          }
+        : undefined,
+      createdAt: toDate(data.createdAt)!,
+      updatedAt: toDate(data.updatedAt),
+      moderatedAt: toDate(data.moderatedAt)
+    } as ProductReview
+  }
+}
+
+export const reviewService = new ReviewService()
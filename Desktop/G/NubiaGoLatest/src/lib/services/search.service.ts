@@ -1,101 +1,78 @@
 import { productService } from './product.service'
 import { Product } from '@/types/product'
+import { SearchEngine, SearchFacets, SearchFilters } from './search/search-engine'
+import { LocalSearchEngine } from './search/local-search-engine'
 
-export class SearchService {
-  // Simple search implementation (can be replaced with Algolia)
-  async searchProducts(query: string, filters?: {
-    category?: string
-    priceRange?: { min: number; max: number }
-    rating?: number
-    brand?: string[]
-    availability?: 'in-stock' | 'out-of-stock'
-    sortBy?: 'price-asc' | 'price-desc' | 'name-asc' | 'name-desc' | 'rating' | 'newest'
-  }): Promise<{
-    products: Product[]
-    total: number
-    facets: {
-      categories: { [key: string]: number }
-      brands: { [key: string]: number }
-      priceRanges: { [key: string]: number }
-    }
-  }> {
-    try {
-      // Get all products for search
-      const allProducts = await productService.getProducts(1, 1000)
-      let products = allProducts.products
+// Page size used when loading the catalog into the index
+const INDEX_PAGE_SIZE = 500
 
-      // Apply search query
-      if (query) {
-        const lowercaseQuery = query.toLowerCase()
-        products = products.filter((product: Product) => 
-          product.name.toLowerCase().includes(lowercaseQuery) ||
-          (product.description && product.description.toLowerCase().includes(lowercaseQuery)) ||
-          product.category.toLowerCase().includes(lowercaseQuery) ||
-          // Remove brand references as Product interface doesn't have brand property
-          (product.tags && product.tags.some((tag: string) => tag.toLowerCase().includes(lowercaseQuery)))
-        )
-      }
+export class SearchService {
+  private engine: SearchEngine = new LocalSearchEngine()
+  private indexReady: Promise<void> | null = null
+  private unsubscribeProductChanges: (() => void) | null = null
+
+  // Swap the search backend; the new engine is populated on the next search
+  setEngine(engine: SearchEngine): void {
+    this.engine = engine
+    this.indexReady = null
+  }
 
-      // Apply filters
-      if (filters?.category) {
-        products = products.filter((product: Product) => product.category === filters.category)
-      }
+  // Reload the whole catalog into the index
+  async rebuildIndex(): Promise<void> {
+    this.indexReady = null
+    await this.ensureIndex()
+  }
 
-      if (filters?.priceRange) {
-        products = products.filter((product: Product) => 
-          product.price >= filters.priceRange!.min && product.price <= filters.priceRange!.max
-        )
-      }
+  // Build the index once, then keep it current from product writes
+  private ensureIndex(): Promise<void> {
+    if (!this.indexReady) {
+      this.indexReady = this.buildIndex().catch(error => {
+        this.indexReady = null
+        throw error
+      })
+    }
+    return this.indexReady
+  }
 
-      if (filters?.rating) {
-        products = products.filter((product: Product) => (product.rating || 0) >= filters.rating!)
-      }
+  private async buildIndex(): Promise<void> {
+    const products: Product[] = []
+    let page = 1
+    let hasMore = true
 
-      // Remove brand filter as Product interface doesn't have brand property
+    while (hasMore) {
+      const result = await productService.getProducts(page, INDEX_PAGE_SIZE)
+      products.push(...result.products)
+      hasMore = result.hasMore
+      page++
+    }
 
-      if (filters?.availability) {
-        if (filters.availability === 'in-stock') {
-          products = products.filter((product: Product) => product.inStock === true)
-        } else if (filters.availability === 'out-of-stock') {
-          products = products.filter((product: Product) => product.inStock === false)
-        }
-      }
+    this.engine.indexAll(products)
 
-      // Apply sorting
-      if (filters?.sortBy) {
-        switch (filters.sortBy) {
-          case 'price-asc':
-            products.sort((a: Product, b: Product) => a.price - b.price)
-            break
-          case 'price-desc':
-            products.sort((a: Product, b: Product) => b.price - a.price)
-            break
-          case 'name-asc':
-            products.sort((a: Product, b: Product) => a.name.localeCompare(b.name))
-            break
-          case 'name-desc':
-            products.sort((a: Product, b: Product) => b.name.localeCompare(a.name))
-            break
-          case 'rating':
-            products.sort((a: Product, b: Product) => (b.rating || 0) - (a.rating || 0))
-            break
-          case 'newest':
-            products.sort((a: Product, b: Product) => {
-              const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0
-              const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0
-              return dateB - dateA
-            })
-            break
+    if (!this.unsubscribeProductChanges) {
+      this.unsubscribeProductChanges = productService.onProductChange(change => {
+        if (change.type === 'upsert') {
+          this.engine.index(change.product)
+        } else {
+          this.engine.remove(change.productId)
         }
-      }
+      })
+    }
+  }
 
-      // Calculate facets
-      const facets = this.calculateFacets(allProducts.products)
+  // Full-text search with typo tolerance, field boosts and facet counts
+  async searchProducts(query: string, filters?: SearchFilters): Promise<{
+    products: Product[]
+    total: number
+    facets: SearchFacets
+  }> {
+    try {
+      await this.ensureIndex()
+      const result = this.engine.search(query, filters)
 
       return {
-        products,
-        total: products.length,
-        facets
+        products: result.hits.map(hit => hit.product),
+        total: result.total,
+        facets: result.facets
       }
     } catch (error) {
       console.error('Error searching products:', error)
@@ -103,77 +80,11 @@ export class SearchService {
     }
   }
 
-  // Calculate search facets
-  private calculateFacets(products: Product[]): {
-    categories: { [key: string]: number }
-    brands: { [key: string]: number }
-    priceRanges: { [key: string]: number }
-  } {
-    const categories: { [key: string]: number } = {}
-    const brands: { [key: string]: number } = {}
-    const priceRanges: { [key: string]: number } = {
-      '0-50': 0,
-      '50-100': 0,
-      '100-200': 0,
-      '200-500': 0,
-      '500+': 0
-    }
-
-    products.forEach(product => {
-      // Categories
-      categories[product.category] = (categories[product.category] || 0) + 1
-
-      // Remove brand facet calculation as Product interface doesn't have brand property
-
-      // Price ranges
-      if (product.price <= 50) {
-        priceRanges['0-50']++
-      } else if (product.price <= 100) {
-        priceRanges['50-100']++
-      } else if (product.price <= 200) {
-        priceRanges['100-200']++
-      } else if (product.price <= 500) {
-        priceRanges['200-500']++
-      } else {
-        priceRanges['500+']++
-      }
-    })
-
-    return { categories, brands, priceRanges }
-  }
-
   // Get search suggestions
   async getSearchSuggestions(query: string, limit: number = 5): Promise<string[]> {
     try {
-      const allProducts = await productService.getProducts(1, 1000)
-      const suggestions = new Set<string>()
-
-      const lowercaseQuery = query.toLowerCase()
-
-      allProducts.products.forEach((product: Product) => {
-        // Product names
-        if (product.name.toLowerCase().includes(lowercaseQuery)) {
-          suggestions.add(product.name)
-        }
-
-        // Categories
-        if (product.category.toLowerCase().includes(lowercaseQuery)) {
-          suggestions.add(product.category)
-        }
-
-        // Remove brand suggestions as Product interface doesn't have brand property
-
-        // Tags
-        if (product.tags) {
-          product.tags.forEach((tag: string) => {
-            if (tag.toLowerCase().includes(lowercaseQuery)) {
-              suggestions.add(tag)
-            }
-          })
-        }
-      })
-
-      return Array.from(suggestions).slice(0, limit)
+      await this.ensureIndex()
+      return this.engine.suggest(query, limit)
     } catch (error) {
       console.error('Error getting search suggestions:', error)
       return []
@@ -359,27 +270,19 @@ export class SearchService {
     brands: string[]
   }> {
     try {
-      const allProducts = await productService.getProducts(1, 1000)
-      const lowercaseQuery = query.toLowerCase()
-
-      const products = allProducts.products
-        .filter((product: Product) => 
-          product.name.toLowerCase().includes(lowercaseQuery) ||
-          product.category.toLowerCase().includes(lowercaseQuery) ||
-          // Remove brand search as Product interface doesn't have brand property
-          false
-        )
-        .slice(0, limit)
+      await this.ensureIndex()
+      const result = this.engine.search(query)
 
-      const categories = [...new Set(
-        allProducts.products
-          .filter((product: Product) => product.category.toLowerCase().includes(lowercaseQuery))
-          .map((product: Product) => product.category)
-      )].slice(0, 3)
+      const topValues = (counts: { [key: string]: number }) => Object.entries(counts)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 3)
+        .map(([value]) => value)
 
-      const brands: string[] = [] // Remove brand autocomplete as Product interface doesn't have brand property
-
-      return { products, categories: categories as string[], brands }
+      return {
+        products: result.hits.slice(0, limit).map(hit => hit.product),
+        categories: topValues(result.facets.categories),
+        brands: topValues(result.facets.brands)
+      }
     } catch (error) {
       console.error('Error with autocomplete search:', error)
       return { products: [], categories: [], brands: [] }
@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+import { Product } from '@/types/product'
+import { LocalSearchEngine } from '../local-search-engine'
+import { analyze, editDistance, maxEditsFor, stem, tokenize } from '../text-analysis'
+
+const product = (id: string, fields: Partial<Product>): Product => ({
+  id,
+  name: `Product ${id}`,
+  price: 10,
+  image: '',
+  category: 'general',
+  ...fields
+})
+
+const CATALOG: Product[] = [
+  product('headphones', {
+    name: 'Wireless Headphones',
+    description: 'Over-ear headphones with noise cancelling',
+    category: 'electronics',
+    brand: 'Sonic',
+    price: 120,
+    rating: 4.5,
+    inStock: true,
+    tags: ['audio', 'bluetooth']
+  }),
+  product('speaker', {
+    name: 'Bluetooth Speaker',
+    description: 'Portable speaker that pairs with wireless headphones',
+    category: 'electronics',
+    brand: 'Boom',
+    price: 45,
+    rating: 3.8,
+    inStock: true,
+    tags: ['audio']
+  }),
+  product('charger', {
+    name: 'Phone Charger',
+    description: 'Fast charging wall adapter',
+    category: 'electronics',
+    brand: 'Sonic',
+    price: 20,
+    rating: 4.1,
+    inStock: false
+  }),
+  product('dress', {
+    name: 'Summer Dress',
+    description: 'Light cotton dress',
+    category: 'fashion',
+    brand: 'Kente',
+    price: 60,
+    rating: 2.5,
+    inStock: true
+  })
+]
+
+const ids = (engine: LocalSearchEngine, query: string, filters = {}) =>
+  engine.search(query, filters).hits.map(hit => hit.product.id)
+
+describe('text analysis', () => {
+  it('lowercases, folds accents and drops stop words', () => {
+    expect(tokenize('The Café-Table for KIDS')).toEqual(['cafe', 'table', 'kids'])
+  })
+
+  it('stems plurals and common suffixes onto the same term', () => {
+    expect(stem('headphones')).toBe(stem('headphone'))
+    expect(stem('batteries')).toBe('battery')
+    expect(stem('running')).toBe('run')
+    expect(analyze('charging chargers')).toEqual(['charg', 'charg'])
+  })
+
+  it('leaves short words and model numbers alone', () => {
+    expect(stem('bus')).toBe('bus')
+    expect(stem('s20s')).toBe('s20s')
+  })
+
+  it('allows more typos in longer terms', () => {
+    expect(maxEditsFor('tv')).toBe(0)
+    expect(maxEditsFor('phone')).toBe(1)
+    expect(maxEditsFor('speaker')).toBe(2)
+  })
+
+  it('counts a transposition as a single edit', () => {
+    expect(editDistance('speaker', 'spaeker', 2)).toBe(1)
+    expect(editDistance('phone', 'phnoe', 1)).toBe(1)
+  })
+
+  it('stops at the maximum distance', () => {
+    expect(editDistance('phone', 'laptop', 2)).toBe(3)
+    expect(editDistance('a', 'abcd', 1)).toBe(2)
+  })
+})
+
+describe('LocalSearchEngine', () => {
+  let engine: LocalSearchEngine
+
+  beforeEach(() => {
+    engine = new LocalSearchEngine()
+    engine.indexAll(CATALOG)
+  })
+
+  it('ranks a name match above the same term in another product\'s description', () => {
+    const hits = engine.search('headphones').hits
+
+    expect(hits.map(hit => hit.product.id)).toEqual(['headphones', 'speaker'])
+    expect(hits[0].score).toBeGreaterThan(hits[1].score)
+  })
+
+  it('requires every query term to match when some product has them all', () => {
+    expect(ids(engine, 'wireless speaker')).toEqual(['speaker'])
+  })
+
+  it('falls back to any term when no product matches them all', () => {
+    expect(ids(engine, 'speaker dress').sort()).toEqual(['dress', 'speaker'])
+  })
+
+  it('matches misspelled terms', () => {
+    expect(ids(engine, 'spaeker')).toEqual(['speaker'])
+    expect(ids(engine, 'hedphones')[0]).toBe('headphones')
+  })
+
+  it('does not fuzz short terms', () => {
+    expect(ids(engine, 'dres')).toEqual(['dress'])
+    expect(ids(engine, 'xyz')).toEqual([])
+  })
+
+  it('completes the last query term as a prefix', () => {
+    expect(ids(engine, 'summer dr')).toEqual(['dress'])
+    expect(ids(engine, 'blue')).toEqual(expect.arrayContaining(['headphones', 'speaker']))
+  })
+
+  it('returns every product for an empty query', () => {
+    expect(engine.search('').total).toBe(CATALOG.length)
+  })
+
+  it('applies filters and sorting to the matches', () => {
+    expect(ids(engine, '', { category: 'electronics', sortBy: 'price-asc' })).toEqual(['charger', 'speaker', 'headphones'])
+    expect(ids(engine, '', { brand: ['sonic'], availability: 'in-stock' })).toEqual(['headphones'])
+    expect(ids(engine, '', { priceRange: { min: 40, max: 100 }, rating: 3, sortBy: 'name-asc' })).toEqual(['speaker'])
+  })
+
+  it('counts each facet without applying its own filter', () => {
+    const { facets } = engine.search('', { category: 'electronics', brand: ['Sonic'] })
+
+    expect(facets.categories).toEqual({ electronics: 2 })
+    expect(facets.brands).toEqual({ Sonic: 2, Boom: 1 })
+    expect(facets.priceRanges).toEqual({ '0-50': 1, '50-100': 0, '100-200': 1, '200-500': 0, '500+': 0 })
+    expect(facets.ratings).toEqual({ '4+': 2, '3+': 2, '2+': 2, '1+': 2 })
+  })
+
+  it('re-indexes a product in place and forgets removed products', () => {
+    engine.index({ ...CATALOG[3], name: 'Winter Coat' })
+
+    expect(engine.size()).toBe(CATALOG.length)
+    expect(ids(engine, 'summer')).toEqual([])
+    expect(ids(engine, 'coat')).toEqual(['dress'])
+
+    engine.remove('dress')
+    expect(engine.size()).toBe(CATALOG.length - 1)
+    expect(ids(engine, 'coat')).toEqual([])
+    expect(engine.suggest('win', 5)).toEqual([])
+  })
+
+  it('suggests names, brands and tags, favouring values that start with the prefix', () => {
+    expect(engine.suggest('so', 5)).toEqual(['Sonic'])
+    expect(engine.suggest('b', 5)).toEqual(['bluetooth', 'Bluetooth Speaker', 'Boom'])
+    expect(engine.suggest('speaker', 5)).toEqual(['Bluetooth Speaker'])
+    expect(engine.suggest('  ', 5)).toEqual([])
+  })
+})
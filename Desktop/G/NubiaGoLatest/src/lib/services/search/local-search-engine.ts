@@ -0,0 +1,359 @@
+import { Product } from '@/types/product'
+import { analyze, editDistance, maxEditsFor } from './text-analysis'
+import {
+  PRICE_BUCKETS,
+  RATING_BUCKETS,
+  SearchEngine,
+  SearchFacets,
+  SearchFilters,
+  SearchHit,
+  SearchResult
+} from './search-engine'
+
+type IndexedField = 'name' | 'tags' | 'brand' | 'category' | 'description'
+type FieldFrequencies = Partial<Record<IndexedField, number>>
+type FacetName = 'category' | 'brand' | 'price' | 'rating'
+
+const INDEXED_FIELDS: IndexedField[] = ['name', 'tags', 'brand', 'category', 'description']
+
+// A match in the name is worth more than the same match buried in the description
+const FIELD_BOOSTS: Record<IndexedField, number> = {
+  name: 3,
+  tags: 2,
+  brand: 2,
+  category: 1.5,
+  description: 1
+}
+
+// BM25 tuning: term frequency saturation and field length normalization
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+// Relative weight of a query term that matched by prefix or with typos
+const PREFIX_MATCH_WEIGHT = 0.7
+const FUZZY_MATCH_WEIGHT: Record<number, number> = { 1: 0.75, 2: 0.5 }
+
+interface TermExpansion {
+  term: string
+  weight: number
+}
+
+interface Suggestion {
+  display: string
+  count: number
+}
+
+// In-process inverted index over product text fields, with incremental updates.
+// Suitable for catalogs that fit in memory; see SearchEngine for swapping in a hosted engine.
+export class LocalSearchEngine implements SearchEngine {
+  private documents = new Map<string, Product>()
+  // term -> product id -> per-field term frequency
+  private postings = new Map<string, Map<string, FieldFrequencies>>()
+  // product id -> terms it contributed, so removal does not scan the whole index
+  private documentTerms = new Map<string, Set<string>>()
+  private fieldLengths = new Map<string, FieldFrequencies>()
+  private totalFieldLengths: Record<IndexedField, number> = { name: 0, tags: 0, brand: 0, category: 0, description: 0 }
+  private suggestions = new Map<string, Suggestion>()
+
+  index(product: Product): void {
+    if (this.documents.has(product.id)) {
+      this.remove(product.id)
+    }
+
+    this.documents.set(product.id, product)
+    const terms = new Set<string>()
+    const lengths: FieldFrequencies = {}
+
+    for (const field of INDEXED_FIELDS) {
+      const tokens = analyze(this.getFieldText(product, field))
+      lengths[field] = tokens.length
+      this.totalFieldLengths[field] += tokens.length
+
+      for (const token of tokens) {
+        let posting = this.postings.get(token)
+        if (!posting) {
+          posting = new Map()
+          this.postings.set(token, posting)
+        }
+        const frequencies = posting.get(product.id) || {}
+        frequencies[field] = (frequencies[field] || 0) + 1
+        posting.set(product.id, frequencies)
+        terms.add(token)
+      }
+    }
+
+    this.documentTerms.set(product.id, terms)
+    this.fieldLengths.set(product.id, lengths)
+    this.getSuggestionValues(product).forEach(value => this.adjustSuggestion(value, 1))
+  }
+
+  indexAll(products: Product[]): void {
+    this.clear()
+    products.forEach(product => this.index(product))
+  }
+
+  remove(productId: string): void {
+    const product = this.documents.get(productId)
+    if (!product) {
+      return
+    }
+
+    for (const term of this.documentTerms.get(productId) || []) {
+      const posting = this.postings.get(term)
+      posting?.delete(productId)
+      if (posting && posting.size === 0) {
+        this.postings.delete(term)
+      }
+    }
+
+    const lengths = this.fieldLengths.get(productId) || {}
+    for (const field of INDEXED_FIELDS) {
+      this.totalFieldLengths[field] -= lengths[field] || 0
+    }
+
+    this.getSuggestionValues(product).forEach(value => this.adjustSuggestion(value, -1))
+    this.documentTerms.delete(productId)
+    this.fieldLengths.delete(productId)
+    this.documents.delete(productId)
+  }
+
+  clear(): void {
+    this.documents.clear()
+    this.postings.clear()
+    this.documentTerms.clear()
+    this.fieldLengths.clear()
+    this.suggestions.clear()
+    this.totalFieldLengths = { name: 0, tags: 0, brand: 0, category: 0, description: 0 }
+  }
+
+  size(): number {
+    return this.documents.size
+  }
+
+  search(query: string, filters: SearchFilters = {}): SearchResult {
+    const scores = this.scoreQuery(query)
+    const matched = scores
+      ? Array.from(scores.keys()).map(id => this.documents.get(id)!)
+      : Array.from(this.documents.values())
+
+    const hits: SearchHit[] = matched
+      .filter(product => this.matchesFilters(product, filters))
+      .map(product => ({ product, score: scores?.get(product.id) || 0 }))
+
+    this.sortHits(hits, filters.sortBy || (scores ? 'relevance' : undefined))
+
+    return {
+      hits,
+      total: hits.length,
+      facets: this.computeFacets(matched, filters)
+    }
+  }
+
+  suggest(prefix: string, limit: number): string[] {
+    const normalized = prefix.trim().toLowerCase()
+    if (!normalized) {
+      return []
+    }
+
+    return Array.from(this.suggestions.entries())
+      .filter(([key]) => key.startsWith(normalized) || key.split(/\s+/).some(word => word.startsWith(normalized)))
+      .sort(([keyA, a], [keyB, b]) =>
+        Number(keyB.startsWith(normalized)) - Number(keyA.startsWith(normalized)) || b.count - a.count
+      )
+      .slice(0, limit)
+      .map(([, suggestion]) => suggestion.display)
+  }
+
+  // Score every product matching the query. Returns null for an empty query (match all).
+  // All query terms must match; if nothing matches them all, fall back to any term.
+  private scoreQuery(query: string): Map<string, number> | null {
+    const terms = analyze(query)
+    if (terms.length === 0) {
+      return null
+    }
+
+    const perTerm = terms.map((term, index) => {
+      const termScores = new Map<string, number>()
+      // The last term may still be being typed, so it also matches as a prefix
+      for (const expansion of this.expandTerm(term, index === terms.length - 1)) {
+        for (const [productId, frequencies] of this.postings.get(expansion.term) || []) {
+          const score = expansion.weight * this.bm25(expansion.term, productId, frequencies)
+          termScores.set(productId, Math.max(termScores.get(productId) || 0, score))
+        }
+      }
+      return termScores
+    })
+
+    const combine = (requireAll: boolean) => {
+      const combined = new Map<string, number>()
+      const [first, ...rest] = perTerm
+      const candidates = requireAll ? first.keys() : new Set(perTerm.flatMap(scores => Array.from(scores.keys()))).values()
+
+      for (const productId of candidates) {
+        if (requireAll && !rest.every(scores => scores.has(productId))) {
+          continue
+        }
+        combined.set(productId, perTerm.reduce((sum, scores) => sum + (scores.get(productId) || 0), 0))
+      }
+      return combined
+    }
+
+    const allTerms = combine(true)
+    return allTerms.size > 0 || perTerm.length === 1 ? allTerms : combine(false)
+  }
+
+  // Index terms that a query term should match: itself, completions, and close misspellings
+  private expandTerm(term: string, allowPrefix: boolean): TermExpansion[] {
+    const expansions = new Map<string, number>()
+    if (this.postings.has(term)) {
+      expansions.set(term, 1)
+    }
+
+    const maxEdits = maxEditsFor(term)
+    for (const candidate of this.postings.keys()) {
+      if (candidate === term) {
+        continue
+      }
+      if (allowPrefix && term.length >= 2 && candidate.startsWith(term)) {
+        expansions.set(candidate, Math.max(expansions.get(candidate) || 0, PREFIX_MATCH_WEIGHT))
+        continue
+      }
+      if (maxEdits > 0 && Math.abs(candidate.length - term.length) <= maxEdits) {
+        const distance = editDistance(term, candidate, maxEdits)
+        if (distance <= maxEdits) {
+          expansions.set(candidate, Math.max(expansions.get(candidate) || 0, FUZZY_MATCH_WEIGHT[distance]))
+        }
+      }
+    }
+
+    return Array.from(expansions.entries()).map(([expanded, weight]) => ({ term: expanded, weight }))
+  }
+
+  // BM25 score of a term for one product, summed over fields with their boosts
+  private bm25(term: string, productId: string, frequencies: FieldFrequencies): number {
+    const totalDocuments = this.documents.size
+    const documentFrequency = this.postings.get(term)?.size || 0
+    const idf = Math.log(1 + (totalDocuments - documentFrequency + 0.5) / (documentFrequency + 0.5))
+    const lengths = this.fieldLengths.get(productId) || {}
+
+    let score = 0
+    for (const field of INDEXED_FIELDS) {
+      const frequency = frequencies[field]
+      if (!frequency) {
+        continue
+      }
+      const averageLength = this.totalFieldLengths[field] / totalDocuments || 1
+      const lengthRatio = (lengths[field] || 0) / averageLength
+      const saturation = (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio))
+      score += FIELD_BOOSTS[field] * saturation
+    }
+    return idf * score
+  }
+
+  // Check a product against the filters, optionally ignoring one facet's own filter
+  private matchesFilters(product: Product, filters: SearchFilters, ignore?: FacetName): boolean {
+    if (ignore !== 'category' && filters.category && product.category !== filters.category) {
+      return false
+    }
+    if (ignore !== 'brand' && filters.brand && filters.brand.length > 0) {
+      const brand = (product.brand || '').toLowerCase()
+      if (!filters.brand.some(selected => selected.toLowerCase() === brand)) {
+        return false
+      }
+    }
+    if (ignore !== 'price' && filters.priceRange &&
+      (product.price < filters.priceRange.min || product.price > filters.priceRange.max)) {
+      return false
+    }
+    if (ignore !== 'rating' && filters.rating && (product.rating || 0) < filters.rating) {
+      return false
+    }
+    if (filters.availability === 'in-stock' && product.inStock !== true) {
+      return false
+    }
+    if (filters.availability === 'out-of-stock' && product.inStock !== false) {
+      return false
+    }
+    return true
+  }
+
+  // Facet counts over the query matches. Each facet ignores its own filter so the
+  // counts show what selecting another value would return.
+  private computeFacets(matched: Product[], filters: SearchFilters): SearchFacets {
+    const facets: SearchFacets = {
+      categories: {},
+      brands: {},
+      priceRanges: Object.fromEntries(PRICE_BUCKETS.map(bucket => [bucket.key, 0])),
+      ratings: Object.fromEntries(RATING_BUCKETS.map(stars => [`${stars}+`, 0]))
+    }
+
+    for (const product of matched) {
+      if (this.matchesFilters(product, filters, 'category')) {
+        facets.categories[product.category] = (facets.categories[product.category] || 0) + 1
+      }
+      if (product.brand && this.matchesFilters(product, filters, 'brand')) {
+        facets.brands[product.brand] = (facets.brands[product.brand] || 0) + 1
+      }
+      if (this.matchesFilters(product, filters, 'price')) {
+        const bucket = PRICE_BUCKETS.find(candidate => product.price <= candidate.max)!
+        facets.priceRanges[bucket.key]++
+      }
+      if (this.matchesFilters(product, filters, 'rating')) {
+        RATING_BUCKETS
+          .filter(stars => (product.rating || 0) >= stars)
+          .forEach(stars => facets.ratings[`${stars}+`]++)
+      }
+    }
+
+    return facets
+  }
+
+  private sortHits(hits: SearchHit[], sortBy?: SearchFilters['sortBy']): void {
+    const timestamp = (product: Product) => product.createdAt ? new Date(product.createdAt).getTime() : 0
+    const comparators: Record<NonNullable<SearchFilters['sortBy']>, (a: SearchHit, b: SearchHit) => number> = {
+      'relevance': (a, b) => b.score - a.score,
+      'price-asc': (a, b) => a.product.price - b.product.price,
+      'price-desc': (a, b) => b.product.price - a.product.price,
+      'name-asc': (a, b) => a.product.name.localeCompare(b.product.name),
+      'name-desc': (a, b) => b.product.name.localeCompare(a.product.name),
+      'rating': (a, b) => (b.product.rating || 0) - (a.product.rating || 0),
+      'newest': (a, b) => timestamp(b.product) - timestamp(a.product)
+    }
+
+    if (sortBy) {
+      // Ties keep relevance order
+      hits.sort((a, b) => comparators[sortBy](a, b) || b.score - a.score)
+    }
+  }
+
+  private getFieldText(product: Product, field: IndexedField): string {
+    switch (field) {
+      case 'name':
+        return product.name
+      case 'tags':
+        return (product.tags || []).join(' ')
+      case 'brand':
+        return product.brand || ''
+      case 'category':
+        return product.category
+      case 'description':
+        return product.description || ''
+    }
+  }
+
+  private getSuggestionValues(product: Product): string[] {
+    return [product.name, product.category, product.brand, ...(product.tags || [])]
+      .filter((value): value is string => !!value && value.trim().length > 0)
+  }
+
+  private adjustSuggestion(value: string, delta: number): void {
+    const key = value.trim().toLowerCase()
+    const suggestion = this.suggestions.get(key) || { display: value.trim(), count: 0 }
+    suggestion.count += delta
+    if (suggestion.count <= 0) {
+      this.suggestions.delete(key)
+    } else {
+      this.suggestions.set(key, suggestion)
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { Product } from '@/types/product'
+
+// Contract for product search backends. The local inverted index implements it today;
+// a hosted engine (Algolia, Typesense, ...) can be swapped in via searchService.setEngine().
+
+export type SearchSortBy = 'relevance' | 'price-asc' | 'price-desc' | 'name-asc' | 'name-desc' | 'rating' | 'newest'
+
+export interface SearchFilters {
+  category?: string
+  priceRange?: { min: number; max: number }
+  rating?: number
+  brand?: string[]
+  availability?: 'in-stock' | 'out-of-stock'
+  sortBy?: SearchSortBy
+}
+
+export interface SearchFacets {
+  categories: { [key: string]: number }
+  brands: { [key: string]: number }
+  priceRanges: { [key: string]: number }
+  ratings: { [key: string]: number }
+}
+
+export interface SearchHit {
+  product: Product
+  score: number
+}
+
+export interface SearchResult {
+  hits: SearchHit[]
+  total: number
+  facets: SearchFacets
+}
+
+export interface SearchEngine {
+  // Add or replace a product in the index
+  index(product: Product): void
+  // Replace the whole index contents
+  indexAll(products: Product[]): void
+  remove(productId: string): void
+  clear(): void
+  size(): number
+  search(query: string, filters?: SearchFilters): SearchResult
+  // Indexed terms and field values that complete the given prefix
+  suggest(prefix: string, limit: number): string[]
+}
+
+// Price facet buckets; upper bounds are inclusive
+export const PRICE_BUCKETS: Array<{ key: string; max: number }> = [
+  { key: '0-50', max: 50 },
+  { key: '50-100', max: 100 },
+  { key: '100-200', max: 200 },
+  { key: '200-500', max: 500 },
+  { key: '500+', max: Infinity }
+]
+
+// Rating facet buckets count products rated at least this many stars
+export const RATING_BUCKETS = [4, 3, 2, 1]
@@ -0,0 +1,113 @@
+// Text analysis shared by search engines: tokenization, stemming and fuzzy term matching
+
+// Common words that carry no meaning in product search
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is',
+  'it', 'of', 'on', 'or', 'the', 'to', 'with'
+])
+
+// Split text into lowercase word tokens, folding accents (e.g. "Café" -> "cafe")
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0 && !STOP_WORDS.has(token))
+}
+
+// Light English suffix stripping so "headphones", "headphone" and "charging"/"charger"
+// land on the same term. Deliberately conservative: short words and numbers are untouched.
+export function stem(token: string): string {
+  if (token.length <= 3 || /\d/.test(token)) {
+    return token
+  }
+
+  let word = token
+
+  if (word.endsWith('ies') && word.length > 4) {
+    word = word.slice(0, -3) + 'y'
+  } else if (word.endsWith('sses')) {
+    word = word.slice(0, -2)
+  } else if (/(ches|shes|xes|zes)$/.test(word)) {
+    word = word.slice(0, -2)
+  } else if (word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) {
+    word = word.slice(0, -1)
+  }
+
+  const suffixes: Array<[string, string]> = [
+    ['ational', 'ate'],
+    ['ization', 'ize'],
+    ['fulness', 'ful'],
+    ['ousness', 'ous'],
+    ['iveness', 'ive'],
+    ['ing', ''],
+    ['edly', ''],
+    ['ed', ''],
+    ['ly', ''],
+    ['er', '']
+  ]
+
+  for (const [suffix, replacement] of suffixes) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      word = word.slice(0, -suffix.length) + replacement
+      // "running" -> "runn" -> "run"
+      if (replacement === '' && /([^aeiouslz])\1$/.test(word)) {
+        word = word.slice(0, -1)
+      }
+      break
+    }
+  }
+
+  return word
+}
+
+// Tokenize and stem in one pass
+export function analyze(text: string): string[] {
+  return tokenize(text).map(stem)
+}
+
+// Typos allowed for a query term: none for short terms, more for longer ones
+export function maxEditsFor(term: string): number {
+  if (term.length <= 3) return 0
+  if (term.length <= 6) return 1
+  return 2
+}
+
+// Damerau-Levenshtein (optimal string alignment) distance, giving up once it exceeds maxDistance.
+// Returns maxDistance + 1 when the strings are further apart than allowed.
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1
+  }
+
+  let previousPrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMinimum = i
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      )
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1)
+      }
+      current[j] = value
+      rowMinimum = Math.min(rowMinimum, value)
+    }
+
+    if (rowMinimum > maxDistance) {
+      return maxDistance + 1
+    }
+    previousPrevious = previous
+    previous = current
+  }
+
+  return Math.min(previous[b.length], maxDistance + 1)
+}
@@ -0,0 +1,296 @@
+import { Transaction } from 'firebase-admin/firestore'
+import { adminDb } from '@/lib/firebase/admin'
+import { ConflictError, NotFoundError } from '@/lib/errors'
+import { logger } from '@/lib/utils/logger'
+import {
+  LedgerTransaction,
+  payoutService,
+  SettlementBatch,
+  SettlementStatus,
+  SupplierSettlement
+} from './payout.service'
+
+// Server-only: the admin settlement lifecycle (batching, approval, payout recording).
+// Runs on firebase-admin because clients may not write the ledger, settlement or batch
+// collections. Not exported from the services index because it depends on firebase-admin.
+
+// Settlements below this amount roll over to the next period
+const MINIMUM_PAYOUT = 1
+
+// Most ledger rows one settlement claims, keeping the claim within Firestore's
+// 500-write transaction limit. Anything beyond it is settled in the next batch.
+const MAX_SETTLEMENT_TRANSACTIONS = 450
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+export class SettlementService {
+  private readonly LEDGER_COLLECTION = 'ledger_transactions'
+  private readonly SETTLEMENTS_COLLECTION = 'supplier_settlements'
+  private readonly BATCHES_COLLECTION = 'settlement_batches'
+  private readonly SUPPLIERS_COLLECTION = 'suppliers'
+
+  // Create a settlement batch covering the unsettled transactions booked in the period.
+  // Suppliers are settled separately per currency. Each settlement claims its ledger rows in
+  // a transaction, so rows already taken by a concurrent run are skipped, not paid twice.
+  async createSettlementBatch(periodStart: Date, periodEnd: Date, adminId: string): Promise<SettlementBatch> {
+    try {
+      // Only rows no settlement has claimed; payout rows always carry their settlement
+      const snapshot = await adminDb
+        .collection(this.LEDGER_COLLECTION)
+        .where('settlementId', '==', null)
+        .where('createdAt', '>=', periodStart)
+        .where('createdAt', '<=', periodEnd)
+        .orderBy('createdAt', 'asc')
+        .get()
+      const unsettled = snapshot.docs.map(ledgerDoc => ledgerDoc.data() as LedgerTransaction)
+
+      const groups = new Map<string, LedgerTransaction[]>()
+      for (const tx of unsettled) {
+        const key = `${tx.supplierId}-${tx.currency}`
+        groups.set(key, [...(groups.get(key) || []), tx])
+      }
+
+      const batchId = `batch-${periodEnd.toISOString().slice(0, 10)}-${Date.now()}`
+      const now = new Date()
+      const settlements: SupplierSettlement[] = []
+
+      for (const transactions of Array.from(groups.values())) {
+        // Oldest first; anything past the cap waits for the next batch
+        const settlement = await this.claimSettlement(batchId, transactions.slice(0, MAX_SETTLEMENT_TRANSACTIONS), now)
+        if (settlement) {
+          settlements.push(settlement)
+        }
+      }
+
+      const totals: Record<string, number> = {}
+      for (const settlement of settlements) {
+        totals[settlement.currency] = round((totals[settlement.currency] || 0) + settlement.amount)
+      }
+
+      const batch: SettlementBatch = {
+        id: batchId,
+        periodStart,
+        periodEnd,
+        status: 'open',
+        settlementIds: settlements.map(s => s.id),
+        totals,
+        supplierCount: new Set(settlements.map(s => s.supplierId)).size,
+        createdBy: adminId,
+        createdAt: now,
+        updatedAt: now
+      }
+      await adminDb.collection(this.BATCHES_COLLECTION).doc(batch.id).set(batch)
+
+      logger.info(`Settlement batch ${batch.id} created with ${settlements.length} settlements by admin ${adminId}`)
+      return batch
+    } catch (error) {
+      logger.error('Error creating settlement batch:', error)
+      throw new Error('Failed to create settlement batch')
+    }
+  }
+
+  // Approve a settlement for payout
+  async approveSettlement(settlementId: string, adminId: string): Promise<SupplierSettlement> {
+    const settlement = await this.transitionSettlement(settlementId, ['pending_approval'], {
+      status: 'approved',
+      approvedBy: adminId,
+      approvedAt: new Date()
+    })
+    logger.info(`Settlement ${settlementId} approved by admin ${adminId}`)
+    return settlement
+  }
+
+  // Reject a settlement; its transactions go back to the unsettled pool
+  async rejectSettlement(settlementId: string, adminId: string, reason: string): Promise<SupplierSettlement> {
+    const settlement = await this.transitionSettlement(settlementId, ['pending_approval', 'approved'], {
+      status: 'rejected',
+      failureReason: reason
+    })
+    await this.refreshBatchStatus(settlement.batchId)
+    logger.info(`Settlement ${settlementId} rejected by admin ${adminId}: ${reason}`)
+    return settlement
+  }
+
+  // Record that the money has left the platform. The payout is booked in the same
+  // transaction as the status change, so it is recorded exactly once.
+  async markSettlementPaid(settlementId: string, payoutReference: string): Promise<SupplierSettlement> {
+    const settlement = await this.transitionSettlement(settlementId, ['approved', 'processing'], {
+      status: 'paid',
+      payoutReference,
+      paidAt: new Date()
+    })
+    await this.refreshBatchStatus(settlement.batchId)
+    return settlement
+  }
+
+  // Record a failed payout; the transactions become payable again next period
+  async markSettlementFailed(settlementId: string, reason: string): Promise<SupplierSettlement> {
+    const settlement = await this.transitionSettlement(settlementId, ['approved', 'processing'], {
+      status: 'failed',
+      failureReason: reason
+    })
+    await this.refreshBatchStatus(settlement.batchId)
+    return settlement
+  }
+
+  // Approve every pending settlement in a batch. Returns how many were approved.
+  async approveBatch(batchId: string, adminId: string): Promise<number> {
+    const batchDoc = await adminDb.collection(this.BATCHES_COLLECTION).doc(batchId).get()
+    if (!batchDoc.exists) {
+      throw new NotFoundError('Settlement batch', batchId)
+    }
+
+    const settlements = await this.getBatchSettlements(batchId)
+    const pending = settlements.filter(s => s.status === 'pending_approval')
+    for (const settlement of pending) {
+      await this.approveSettlement(settlement.id, adminId)
+    }
+    await this.refreshBatchStatus(batchId)
+    return pending.length
+  }
+
+  // Create one supplier settlement from ledger rows in a single currency, claiming only
+  // the rows that are still unsettled when the transaction runs. Returns null if what is
+  // left is below the minimum payout.
+  private async claimSettlement(batchId: string, candidates: LedgerTransaction[], now: Date): Promise<SupplierSettlement | null> {
+    const { supplierId, currency } = candidates[0]
+    const destination = await this.getPayoutDestination(supplierId)
+    const settlementId = `${batchId}-${supplierId}-${currency}`
+
+    return adminDb.runTransaction(async transaction => {
+      const refs = candidates.map(tx => adminDb.collection(this.LEDGER_COLLECTION).doc(tx.id))
+      const snapshots = await transaction.getAll(...refs)
+      const claimable = snapshots
+        .filter(snapshot => snapshot.exists && !snapshot.data()!.settlementId)
+        .map(snapshot => snapshot.data() as LedgerTransaction)
+
+      const amount = round(claimable.reduce((sum, tx) => sum + tx.payableDelta, 0))
+      // Negative balances (refunds exceeding sales) are carried forward and netted next period
+      if (amount < MINIMUM_PAYOUT) {
+        return null
+      }
+
+      const settlement: SupplierSettlement = {
+        id: settlementId,
+        batchId,
+        supplierId,
+        amount,
+        currency,
+        transactionIds: claimable.map(tx => tx.id),
+        ...destination,
+        status: 'pending_approval',
+        createdAt: now,
+        updatedAt: now
+      }
+
+      transaction.set(adminDb.collection(this.SETTLEMENTS_COLLECTION).doc(settlementId), settlement)
+      for (const tx of claimable) {
+        transaction.update(adminDb.collection(this.LEDGER_COLLECTION).doc(tx.id), { settlementId })
+      }
+      return settlement
+    })
+  }
+
+  // Move a settlement between statuses. Rejected and failed settlements release their
+  // ledger rows, and paid ones book the payout, in the same transaction as the change.
+  private async transitionSettlement(
+    settlementId: string,
+    allowedFrom: SettlementStatus[],
+    updates: Partial<SupplierSettlement>
+  ): Promise<SupplierSettlement> {
+    const ref = adminDb.collection(this.SETTLEMENTS_COLLECTION).doc(settlementId)
+    return adminDb.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref)
+      if (!snapshot.exists) {
+        throw new NotFoundError('Settlement', settlementId)
+      }
+
+      const settlement = snapshot.data() as SupplierSettlement
+      if (!allowedFrom.includes(settlement.status)) {
+        throw new ConflictError(`Cannot move settlement from ${settlement.status} to ${updates.status}`, {
+          settlementId,
+          from: settlement.status,
+          to: updates.status
+        })
+      }
+
+      const next = { ...updates, updatedAt: new Date() }
+      const updated = { ...settlement, ...next }
+      if (updates.status === 'paid') {
+        await this.bookPayout(transaction, updated)
+      }
+      if (updates.status === 'rejected' || updates.status === 'failed') {
+        this.releaseTransactions(transaction, settlement)
+      }
+      transaction.update(ref, next)
+      return updated
+    })
+  }
+
+  private async bookPayout(transaction: Transaction, settlement: SupplierSettlement): Promise<void> {
+    const payout = payoutService.buildTransaction(`payout-${settlement.id}`, 'payout', settlement.supplierId, [
+      { account: 'supplier_payable', debit: settlement.amount, credit: 0 },
+      { account: 'payout_clearing', debit: 0, credit: settlement.amount }
+    ], {
+      settlementId: settlement.id,
+      currency: settlement.currency,
+      description: `Payout ${settlement.payoutReference}`
+    })
+
+    const payoutRef = adminDb.collection(this.LEDGER_COLLECTION).doc(payout.id)
+    const existing = await transaction.get(payoutRef)
+    if (!existing.exists) {
+      transaction.set(payoutRef, payout)
+    }
+  }
+
+  private releaseTransactions(transaction: Transaction, settlement: SupplierSettlement): void {
+    for (const txId of settlement.transactionIds) {
+      transaction.update(adminDb.collection(this.LEDGER_COLLECTION).doc(txId), { settlementId: null })
+    }
+  }
+
+  private async getBatchSettlements(batchId: string): Promise<SupplierSettlement[]> {
+    const snapshot = await adminDb
+      .collection(this.SETTLEMENTS_COLLECTION)
+      .where('batchId', '==', batchId)
+      .get()
+    return snapshot.docs.map(settlementDoc => settlementDoc.data() as SupplierSettlement)
+  }
+
+  private async refreshBatchStatus(batchId: string): Promise<void> {
+    const settlements = await this.getBatchSettlements(batchId)
+    const done = settlements.every(s => ['paid', 'failed', 'rejected'].includes(s.status))
+    const approved = settlements.every(s => s.status !== 'pending_approval')
+    await adminDb.collection(this.BATCHES_COLLECTION).doc(batchId).update({
+      status: done ? 'completed' : approved ? 'approved' : 'open',
+      updatedAt: new Date()
+    })
+  }
+
+  // Pick the supplier's preferred payout rail from their AdminSupplier.paymentInfo
+  private async getPayoutDestination(supplierId: string): Promise<Pick<SupplierSettlement, 'payoutMethod' | 'payoutDestination'>> {
+    try {
+      const supplierDoc = await adminDb.collection(this.SUPPLIERS_COLLECTION).doc(supplierId).get()
+      const paymentInfo = supplierDoc.exists ? supplierDoc.data()!.paymentInfo || {} : {}
+
+      if (paymentInfo.mobileMoneyNumber) {
+        return { payoutMethod: 'mobile_money', payoutDestination: paymentInfo.mobileMoneyNumber }
+      }
+      if (paymentInfo.accountNumber) {
+        return {
+          payoutMethod: 'bank_transfer',
+          payoutDestination: `${paymentInfo.bankName || 'Bank'} ••••${String(paymentInfo.accountNumber).slice(-4)}`
+        }
+      }
+      if (paymentInfo.paypalEmail) {
+        return { payoutMethod: 'paypal', payoutDestination: paymentInfo.paypalEmail }
+      }
+    } catch (error) {
+      logger.warn(`Could not load payment info for supplier ${supplierId}:`, error)
+    }
+    return { payoutMethod: 'unknown' }
+  }
+}
+
+export const settlementService = new SettlementService()
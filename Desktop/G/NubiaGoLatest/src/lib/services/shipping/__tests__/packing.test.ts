@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+import {
+  DEFAULT_SHIPPING_BOXES,
+  PackableItem,
+  billableWeightKg,
+  dimensionalDivisorFor,
+  packItems,
+  toCm,
+  toKg,
+  toShippingPackages
+} from '../packing'
+
+const item = (id: string, size: [number, number, number], weight: number, quantity = 1): PackableItem => ({
+  id,
+  quantity,
+  length: size[0],
+  width: size[1],
+  height: size[2],
+  weight
+})
+
+describe('unit conversion', () => {
+  it('converts weights to kg and lengths to cm', () => {
+    expect(toKg(10, 'lb')).toBeCloseTo(4.5359, 4)
+    expect(toKg(500, 'g')).toBe(0.5)
+    expect(toCm(12, 'in')).toBeCloseTo(30.48, 2)
+    expect(toCm(2, 'm')).toBe(200)
+    expect(toKg(3)).toBe(3)
+  })
+})
+
+describe('billableWeightKg', () => {
+  it('bills the higher of actual and dimensional weight per package', () => {
+    const heavy = { weight: 10, length: 10, width: 10, height: 10, weightUnit: 'kg' as const, dimensionUnit: 'cm' as const }
+    const bulky = { weight: 1, length: 50, width: 50, height: 40, weightUnit: 'kg' as const, dimensionUnit: 'cm' as const }
+
+    expect(billableWeightKg([heavy])).toBe(10)
+    expect(billableWeightKg([bulky])).toBe(20)
+    expect(billableWeightKg([heavy, bulky])).toBe(30)
+    expect(billableWeightKg([bulky], 5018)).toBeCloseTo(19.93, 2)
+  })
+
+  it('converts imperial packages before comparing', () => {
+    const pkg = { weight: 10, length: 12, width: 12, height: 12, weightUnit: 'lb' as const, dimensionUnit: 'in' as const }
+    expect(billableWeightKg([pkg])).toBeCloseTo(5.663, 3)
+  })
+})
+
+describe('dimensionalDivisorFor', () => {
+  it('matches carriers by name and falls back to the default divisor', () => {
+    expect(dimensionalDivisorFor(' FedEx ')).toBe(5018)
+    expect(dimensionalDivisorFor('DHL')).toBe(5000)
+    expect(dimensionalDivisorFor('Aramex')).toBe(5000)
+  })
+})
+
+describe('packItems', () => {
+  it('ships a small item in the smallest box', () => {
+    const plan = packItems([item('case', [10, 10, 5], 1)], DEFAULT_SHIPPING_BOXES)
+
+    expect(plan.boxes).toEqual([{
+      boxId: 'small',
+      name: 'Small box',
+      length: 25,
+      width: 20,
+      height: 10,
+      weight: 1.2,
+      items: [{ itemId: 'case', quantity: 1 }],
+      fillRatio: 0.1
+    }])
+    expect(plan.totalWeight).toBe(1.2)
+  })
+
+  it('turns items to fit a smaller box', () => {
+    const plan = packItems([item('tall', [22, 8, 18], 1)], DEFAULT_SHIPPING_BOXES)
+    expect(plan.boxes.map(box => box.boxId)).toEqual(['small'])
+  })
+
+  it('shares a box between units and moves them to the smallest box that takes them all', () => {
+    const plan = packItems([item('shoes', [20, 15, 10], 0.5, 2)], DEFAULT_SHIPPING_BOXES)
+
+    expect(plan.boxes).toHaveLength(1)
+    expect(plan.boxes[0]).toMatchObject({
+      boxId: 'medium',
+      weight: 1.45,
+      items: [{ itemId: 'shoes', quantity: 2 }],
+      fillRatio: 0.25
+    })
+  })
+
+  it('opens another box when the weight limit is reached', () => {
+    const plan = packItems([item('weights', [10, 10, 10], 4, 8)], DEFAULT_SHIPPING_BOXES)
+
+    expect(plan.boxes.map(box => [box.boxId, box.items[0].quantity, box.weight])).toEqual([
+      ['large', 7, 28.9],
+      ['small', 1, 4.2]
+    ])
+    expect(plan.totalWeight).toBe(33.1)
+  })
+
+  it('ships an item no box takes in its own packaging', () => {
+    const plan = packItems([item('bike', [150, 30, 80], 12), item('bell', [5, 5, 5], 0.1)], DEFAULT_SHIPPING_BOXES)
+
+    expect(plan.boxes.map(box => box.boxId)).toEqual(['small', undefined])
+    expect(plan.boxes[1]).toMatchObject({
+      name: 'Own packaging',
+      length: 150,
+      width: 30,
+      height: 80,
+      weight: 12,
+      fillRatio: 1
+    })
+  })
+
+  it('bills light, bulky parcels by volume with each carrier\'s divisor', () => {
+    const plan = packItems([item('pillow', [38, 28, 18], 0.5)], DEFAULT_SHIPPING_BOXES)
+
+    expect(plan.boxes[0].boxId).toBe('medium')
+    expect(plan.billableWeight).toEqual({ default: 4.8, fedex: 4.78, ups: 4.78, dhl: 4.8 })
+  })
+
+  it('reports items whose size was assumed and packs whole units only', () => {
+    const plan = packItems(
+      [{ ...item('unknown', [20, 15, 10], 0.5), estimated: true }, item('half', [5, 5, 5], 0.1, 1.5)],
+      DEFAULT_SHIPPING_BOXES
+    )
+
+    expect(plan.estimatedItemIds).toEqual(['unknown'])
+    expect(plan.boxes.flatMap(box => box.items)).toEqual([
+      { itemId: 'unknown', quantity: 1 },
+      { itemId: 'half', quantity: 1 }
+    ])
+  })
+
+  it('packs nothing for an empty order', () => {
+    expect(packItems([], DEFAULT_SHIPPING_BOXES)).toEqual({
+      boxes: [],
+      totalWeight: 0,
+      billableWeight: { default: 0, fedex: 0, ups: 0, dhl: 0 },
+      estimatedItemIds: []
+    })
+  })
+})
+
+describe('toShippingPackages', () => {
+  it('hands each box to carriers in cm and kg', () => {
+    const plan = packItems([item('case', [10, 10, 5], 1)], DEFAULT_SHIPPING_BOXES)
+
+    expect(toShippingPackages(plan)).toEqual([
+      { weight: 1.2, length: 25, width: 20, height: 10, weightUnit: 'kg', dimensionUnit: 'cm' }
+    ])
+  })
+})
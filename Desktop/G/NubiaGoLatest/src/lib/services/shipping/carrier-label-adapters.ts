@@ -0,0 +1,302 @@
+// Per-carrier label purchase. Each adapter turns a carrier-agnostic request into the
+// carrier's shipment API call and normalizes the response: a tracking number plus the
+// label either inline (base64) or as a URL. Carriers without a label product return
+// only a tracking number and the caller prints a local label instead.
+import { ApiConfiguration } from '@/types/api'
+import type { ShippingAddress, ShippingPackage } from '../logistics.service'
+
+export type LabelFormat = 'pdf' | 'png' | 'zpl'
+
+export interface CarrierLabelRequest {
+  fromAddress: ShippingAddress
+  toAddress: ShippingAddress
+  packages: ShippingPackage[]
+  serviceCode: string
+  format: LabelFormat
+  reference?: string
+}
+
+export interface CarrierLabelResult {
+  shipmentId: string
+  trackingNumber: string
+  // Format actually issued, which differs from the request when the carrier lacks it
+  format: LabelFormat
+  labelData?: string
+  labelUrl?: string
+}
+
+export interface CarrierLabelAdapter {
+  carrier: string
+  // Preferred first; used when the requested format is not offered
+  supportedFormats: LabelFormat[]
+  createLabel(api: ApiConfiguration, request: CarrierLabelRequest): Promise<CarrierLabelResult>
+}
+
+const toKg = (pkg: ShippingPackage): number =>
+  pkg.weightUnit === 'kg' ? pkg.weight : Math.round(pkg.weight * 0.45359237 * 1000) / 1000
+
+const toCm = (value: number, pkg: ShippingPackage): number =>
+  pkg.dimensionUnit === 'cm' ? value : Math.round(value * 2.54 * 10) / 10
+
+function resolveFormat(adapter: Pick<CarrierLabelAdapter, 'supportedFormats'>, requested: LabelFormat): LabelFormat {
+  return adapter.supportedFormats.includes(requested) ? requested : adapter.supportedFormats[0]
+}
+
+async function postJson(api: ApiConfiguration, path: string, body: unknown, carrier: string): Promise<any> {
+  const response = await fetch(`${api.baseUrl}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${api.apiKey}`,
+    },
+    body: JSON.stringify(body)
+  })
+
+  if (!response.ok) {
+    throw new Error(`${carrier} label error: ${response.status}`)
+  }
+  return response.json()
+}
+
+const FEDEX_IMAGE_TYPES: Record<LabelFormat, string> = { pdf: 'PDF', png: 'PNG', zpl: 'ZPLII' }
+
+const fedexAddress = (address: ShippingAddress) => ({
+  contact: {
+    personName: address.name,
+    companyName: address.company,
+    phoneNumber: address.phone,
+    emailAddress: address.email
+  },
+  address: {
+    streetLines: [address.address1, address.address2].filter(Boolean),
+    city: address.city,
+    stateOrProvinceCode: address.state,
+    postalCode: address.postalCode,
+    countryCode: address.country
+  }
+})
+
+const fedexAdapter: CarrierLabelAdapter = {
+  carrier: 'FedEx',
+  supportedFormats: ['pdf', 'zpl', 'png'],
+  async createLabel(api, request) {
+    const format = resolveFormat(this, request.format)
+    const data = await postJson(api, '/ship/v1/shipments', {
+      labelResponseOptions: 'LABEL',
+      accountNumber: { value: api.config?.accountNumber },
+      requestedShipment: {
+        shipper: fedexAddress(request.fromAddress),
+        recipients: [fedexAddress(request.toAddress)],
+        serviceType: request.serviceCode,
+        packagingType: 'YOUR_PACKAGING',
+        pickupType: 'USE_SCHEDULED_PICKUP',
+        shippingChargesPayment: { paymentType: 'SENDER' },
+        labelSpecification: {
+          imageType: FEDEX_IMAGE_TYPES[format],
+          labelStockType: format === 'zpl' ? 'STOCK_4X6' : 'PAPER_4X6'
+        },
+        requestedPackageLineItems: request.packages.map(pkg => ({
+          ...(request.reference ? { customerReferences: [{ customerReferenceType: 'CUSTOMER_REFERENCE', value: request.reference }] } : {}),
+          weight: { units: pkg.weightUnit.toUpperCase(), value: pkg.weight },
+          dimensions: {
+            length: pkg.length,
+            width: pkg.width,
+            height: pkg.height,
+            units: pkg.dimensionUnit.toUpperCase()
+          }
+        }))
+      }
+    }, 'FedEx')
+
+    const shipment = data.output?.transactionShipments?.[0]
+    const document = shipment?.pieceResponses?.[0]?.packageDocuments?.[0]
+    return {
+      shipmentId: shipment?.shipmentId || shipment?.masterTrackingNumber,
+      trackingNumber: shipment?.masterTrackingNumber,
+      format,
+      labelData: document?.encodedLabel,
+      labelUrl: document?.url
+    }
+  }
+}
+
+const UPS_IMAGE_CODES: Partial<Record<LabelFormat, string>> = { png: 'PNG', zpl: 'ZPL' }
+
+const upsAddress = (address: ShippingAddress) => ({
+  Name: address.company || address.name,
+  AttentionName: address.name,
+  Phone: address.phone ? { Number: address.phone } : undefined,
+  Address: {
+    AddressLine: [address.address1, address.address2].filter(Boolean),
+    City: address.city,
+    StateProvinceCode: address.state,
+    PostalCode: address.postalCode,
+    CountryCode: address.country
+  }
+})
+
+// UPS has no PDF labels; PNG is the closest printable image
+const upsAdapter: CarrierLabelAdapter = {
+  carrier: 'UPS',
+  supportedFormats: ['png', 'zpl'],
+  async createLabel(api, request) {
+    const format = resolveFormat(this, request.format)
+    const data = await postJson(api, '/api/shipments/v1/ship', {
+      ShipmentRequest: {
+        Shipment: {
+          Description: request.reference || 'Marketplace order',
+          Shipper: { ...upsAddress(request.fromAddress), ShipperNumber: api.config?.accountNumber },
+          ShipFrom: upsAddress(request.fromAddress),
+          ShipTo: upsAddress(request.toAddress),
+          PaymentInformation: {
+            ShipmentCharge: { Type: '01', BillShipper: { AccountNumber: api.config?.accountNumber } }
+          },
+          Service: { Code: request.serviceCode },
+          Package: request.packages.map(pkg => ({
+            Packaging: { Code: '02' },
+            Dimensions: {
+              UnitOfMeasurement: { Code: pkg.dimensionUnit === 'in' ? 'IN' : 'CM' },
+              Length: pkg.length.toString(),
+              Width: pkg.width.toString(),
+              Height: pkg.height.toString()
+            },
+            PackageWeight: {
+              UnitOfMeasurement: { Code: pkg.weightUnit === 'lb' ? 'LBS' : 'KGS' },
+              Weight: pkg.weight.toString()
+            }
+          }))
+        },
+        LabelSpecification: {
+          LabelImageFormat: { Code: UPS_IMAGE_CODES[format] },
+          LabelStockSize: { Height: '6', Width: '4' }
+        }
+      }
+    }, 'UPS')
+
+    const results = data.ShipmentResponse?.ShipmentResults
+    const packageResults = Array.isArray(results?.PackageResults) ? results.PackageResults[0] : results?.PackageResults
+    return {
+      shipmentId: results?.ShipmentIdentificationNumber,
+      trackingNumber: packageResults?.TrackingNumber || results?.ShipmentIdentificationNumber,
+      format,
+      labelData: packageResults?.ShippingLabel?.GraphicImage
+    }
+  }
+}
+
+const dhlParty = (address: ShippingAddress) => ({
+  postalAddress: {
+    addressLine1: address.address1,
+    addressLine2: address.address2,
+    cityName: address.city,
+    provinceCode: address.state,
+    postalCode: address.postalCode,
+    countryCode: address.country
+  },
+  contactInformation: {
+    fullName: address.name,
+    companyName: address.company || address.name,
+    phone: address.phone || '',
+    email: address.email
+  }
+})
+
+// DHL Express renders PDF and ZPL but not PNG
+const dhlAdapter: CarrierLabelAdapter = {
+  carrier: 'DHL',
+  supportedFormats: ['pdf', 'zpl'],
+  async createLabel(api, request) {
+    const format = resolveFormat(this, request.format)
+    const data = await postJson(api, '/shipments', {
+      plannedShippingDateAndTime: new Date().toISOString().replace(/\.\d{3}Z$/, ' GMT+00:00'),
+      pickup: { isRequested: false },
+      productCode: request.serviceCode,
+      accounts: [{ typeCode: 'shipper', number: api.config?.accountNumber }],
+      outputImageProperties: {
+        encodingFormat: format,
+        imageOptions: [{ typeCode: 'label', isRequested: true }]
+      },
+      customerDetails: {
+        shipperDetails: dhlParty(request.fromAddress),
+        receiverDetails: dhlParty(request.toAddress)
+      },
+      ...(request.reference ? { customerReferences: [{ value: request.reference, typeCode: 'CU' }] } : {}),
+      content: {
+        isCustomsDeclarable: request.fromAddress.country !== request.toAddress.country,
+        description: request.reference || 'Marketplace order',
+        unitOfMeasurement: 'metric',
+        packages: request.packages.map(pkg => ({
+          weight: toKg(pkg),
+          dimensions: {
+            length: toCm(pkg.length, pkg),
+            width: toCm(pkg.width, pkg),
+            height: toCm(pkg.height, pkg)
+          }
+        }))
+      }
+    }, 'DHL')
+
+    const label = (data.documents || []).find((document: any) => document.typeCode === 'label') || data.documents?.[0]
+    return {
+      shipmentId: data.shipmentTrackingNumber,
+      trackingNumber: data.shipmentTrackingNumber,
+      format,
+      labelData: label?.content
+    }
+  }
+}
+
+// Bagster books collections rather than parcels; the booking reference is tracked and
+// a local label is printed for the collection
+const bagsterAdapter: CarrierLabelAdapter = {
+  carrier: 'Bagster',
+  supportedFormats: [],
+  async createLabel(api, request) {
+    const data = await postJson(api, '/api/v1/orders', {
+      pickupAddress: {
+        street: request.fromAddress.address1,
+        city: request.fromAddress.city,
+        state: request.fromAddress.state,
+        zipCode: request.fromAddress.postalCode,
+        country: request.fromAddress.country
+      },
+      serviceType: request.serviceCode,
+      bagCount: request.packages.length,
+      totalWeight: request.packages.reduce((sum, pkg) => sum + toKg(pkg), 0),
+      reference: request.reference
+    }, 'Bagster')
+
+    return {
+      shipmentId: data.orderId,
+      trackingNumber: data.trackingNumber || data.orderId,
+      format: request.format
+    }
+  }
+}
+
+// Providers without a dedicated adapter are expected to expose this shape
+const genericAdapter: CarrierLabelAdapter = {
+  carrier: 'Generic',
+  supportedFormats: ['pdf', 'png', 'zpl'],
+  async createLabel(api, request) {
+    const data = await postJson(api, '/labels', request, api.provider || 'Carrier')
+    return {
+      shipmentId: data.shipmentId || data.id,
+      trackingNumber: data.trackingNumber,
+      format: data.labelFormat || request.format,
+      labelData: data.labelData,
+      labelUrl: data.labelUrl
+    }
+  }
+}
+
+const CARRIER_LABEL_ADAPTERS: Record<string, CarrierLabelAdapter> = {
+  fedex: fedexAdapter,
+  ups: upsAdapter,
+  dhl: dhlAdapter,
+  bagster: bagsterAdapter
+}
+
+export function getCarrierLabelAdapter(provider?: string): CarrierLabelAdapter {
+  return CARRIER_LABEL_ADAPTERS[provider?.toLowerCase() || ''] || genericAdapter
+}
@@ -0,0 +1,82 @@
+// Code 128 barcode encoding for shipping labels. Tracking numbers are encoded in
+// code set B (printable ASCII), switching to code set C for long digit runs, which
+// halves their width.
+
+// Bar/space widths for each symbol value, in modules. Values 103-105 are the
+// start codes for sets A, B and C; 106 is the stop code.
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+]
+
+const START_B = 104
+const START_C = 105
+const CODE_B = 100
+const CODE_C = 99
+const STOP = 106
+
+// Digit runs at least this long are worth switching to code set C for
+const MIN_SET_C_RUN = 6
+
+function digitRunLength(value: string, start: number): number {
+  let end = start
+  while (end < value.length && value[end] >= '0' && value[end] <= '9') end++
+  return end - start
+}
+
+// Symbol values for the text, including start code and checksum but not the stop code
+export function encodeCode128Values(value: string): number[] {
+  if (!value) {
+    throw new Error('Cannot encode an empty barcode')
+  }
+  if (!/^[\x20-\x7e]+$/.test(value)) {
+    throw new Error('Code 128 labels only support printable ASCII characters')
+  }
+
+  const values: number[] = []
+  let set: 'B' | 'C' | undefined
+  let index = 0
+
+  while (index < value.length) {
+    const run = digitRunLength(value, index)
+    // Set C pays off for long runs, or for an all-digit value of even length
+    const useC = run >= MIN_SET_C_RUN || (index === 0 && run === value.length && run >= 2 && run % 2 === 0)
+
+    if (useC) {
+      values.push(set === undefined ? START_C : CODE_C)
+      set = 'C'
+      const pairs = Math.floor(run / 2)
+      for (let pair = 0; pair < pairs; pair++) {
+        values.push(Number(value.slice(index, index + 2)))
+        index += 2
+      }
+      continue
+    }
+
+    if (set !== 'B') {
+      values.push(set === undefined ? START_B : CODE_B)
+      set = 'B'
+    }
+    values.push(value.charCodeAt(index) - 32)
+    index++
+  }
+
+  const checksum = values.reduce((sum, symbol, position) => sum + symbol * Math.max(position, 1), 0) % 103
+  values.push(checksum)
+  return values
+}
+
+// Alternating bar and space widths in modules, starting with a bar
+export function encodeCode128(value: string): number[] {
+  return [...encodeCode128Values(value), STOP]
+    .flatMap(symbol => CODE128_PATTERNS[symbol].split('').map(Number))
+}
@@ -0,0 +1,232 @@
+// Locally rendered 4x6in shipping labels, used when a shipment goes out with our
+// own fleet or an informal courier that has no label API. Labels carry a Code 128
+// tracking barcode and a QR code, and come out as ZPL for thermal printers or as
+// PDF for everything else.
+import type { ShippingAddress, ShippingPackage } from '../logistics.service'
+import { encodeCode128 } from './code128'
+import { encodeQrCode } from './qr-code'
+
+export interface LocalLabelData {
+  trackingNumber: string
+  courierName: string
+  serviceCode: string
+  fromAddress: ShippingAddress
+  toAddress: ShippingAddress
+  packages: ShippingPackage[]
+  // Order or sub-order reference printed on the label
+  reference?: string
+  // Encoded in the QR code, usually the public tracking page
+  qrContent: string
+  createdAt: Date
+}
+
+// 4x6in at 72pt per inch
+const PDF_PAGE_WIDTH = 288
+const PDF_PAGE_HEIGHT = 432
+const PDF_MARGIN = 14
+
+// 4x6in at 203dpi, the standard thermal printer resolution
+const ZPL_LABEL_WIDTH = 812
+const ZPL_LABEL_HEIGHT = 1218
+const ZPL_MARGIN = 30
+
+function addressLines(address: ShippingAddress): string[] {
+  return [
+    address.company,
+    address.address1,
+    address.address2,
+    [address.city, address.state, address.postalCode].filter(Boolean).join(', '),
+    address.country,
+    address.phone
+  ].filter((line): line is string => !!line)
+}
+
+function packageSummary(packages: ShippingPackage[]): string {
+  const totals = packages.reduce<Record<string, number>>((byUnit, pkg) => {
+    byUnit[pkg.weightUnit] = (byUnit[pkg.weightUnit] || 0) + pkg.weight
+    return byUnit
+  }, {})
+  const weight = Object.entries(totals)
+    .map(([unit, total]) => `${Math.round(total * 100) / 100} ${unit}`)
+    .join(' + ')
+  return `${packages.length} ${packages.length === 1 ? 'package' : 'packages'}${weight ? `, ${weight}` : ''}`
+}
+
+// Label fonts only cover ASCII: drop accents and replace anything else
+function toLabelText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?')
+}
+
+// ZPL
+
+// ^ and ~ start ZPL commands, so they cannot appear in field data
+const zplField = (value: string): string => toLabelText(value).replace(/[\^~]/g, ' ')
+
+export function renderZplLabel(label: LocalLabelData): string {
+  const lines: string[] = ['^XA', '^CI28', `^PW${ZPL_LABEL_WIDTH}`, `^LL${ZPL_LABEL_HEIGHT}`]
+  let y = ZPL_MARGIN
+
+  const text = (value: string, size: number, x: number = ZPL_MARGIN) => {
+    lines.push(`^FO${x},${y}^A0N,${size},${size}^FD${zplField(value)}^FS`)
+    y += size + 6
+  }
+  const rule = () => {
+    y += 6
+    lines.push(`^FO${ZPL_MARGIN},${y}^GB${ZPL_LABEL_WIDTH - ZPL_MARGIN * 2},3,3^FS`)
+    y += 16
+  }
+
+  text('FROM', 22)
+  text(label.fromAddress.name, 26)
+  addressLines(label.fromAddress).forEach(line => text(line, 22))
+  rule()
+
+  text('SHIP TO', 24)
+  text(label.toAddress.name, 48)
+  addressLines(label.toAddress).forEach(line => text(line, 36))
+  rule()
+
+  const detailsTop = y
+  text(label.courierName.toUpperCase(), 40)
+  text(label.serviceCode, 28)
+  text(packageSummary(label.packages), 26)
+  if (label.reference) text(`Ref: ${label.reference}`, 26)
+  text(label.createdAt.toISOString().slice(0, 10), 26)
+  lines.push(`^FO${ZPL_LABEL_WIDTH - ZPL_MARGIN - 230},${detailsTop}^BQN,2,5^FDMA,${zplField(label.qrContent)}^FS`)
+  y = Math.max(y, detailsTop + 240)
+  rule()
+
+  // Widest bars that still fit the printable width
+  const modules = encodeCode128(label.trackingNumber).reduce((total, width) => total + width, 0)
+  const moduleWidth = Math.max(1, Math.min(4, Math.floor((ZPL_LABEL_WIDTH - ZPL_MARGIN * 2) / modules)))
+  const barcodeX = Math.max(ZPL_MARGIN, Math.floor((ZPL_LABEL_WIDTH - modules * moduleWidth) / 2))
+  lines.push(`^BY${moduleWidth}`)
+  lines.push(`^FO${barcodeX},${y}^BCN,160,N,N,N^FD${zplField(label.trackingNumber)}^FS`)
+  y += 176
+  lines.push(`^FO${ZPL_MARGIN},${y}^FB${ZPL_LABEL_WIDTH - ZPL_MARGIN * 2},1,0,C^A0N,36,36^FD${zplField(label.trackingNumber)}^FS`)
+
+  lines.push('^XZ')
+  return lines.join('\n')
+}
+
+// PDF
+
+const pdfString = (value: string): string =>
+  `(${toLabelText(value).replace(/[\\()]/g, match => `\\${match}`)})`
+
+const pdfNumber = (value: number): string => String(Math.round(value * 100) / 100)
+
+// Page content stream for one label, drawn top-down from the upper margin
+function pdfLabelContent(label: LocalLabelData): string {
+  const ops: string[] = []
+  let y = PDF_PAGE_HEIGHT - PDF_MARGIN
+  const innerWidth = PDF_PAGE_WIDTH - PDF_MARGIN * 2
+
+  const text = (value: string, size: number, bold: boolean = false, x: number = PDF_MARGIN) => {
+    y -= size
+    ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${pdfNumber(x)} ${pdfNumber(y)} Td ${pdfString(value)} Tj ET`)
+    y -= 3
+  }
+  const rule = () => {
+    y -= 4
+    ops.push(`${PDF_MARGIN} ${pdfNumber(y)} ${innerWidth} 1.5 re f`)
+    y -= 8
+  }
+
+  text('FROM', 7, true)
+  text(label.fromAddress.name, 8, true)
+  addressLines(label.fromAddress).forEach(line => text(line, 7))
+  rule()
+
+  text('SHIP TO', 8, true)
+  text(label.toAddress.name, 15, true)
+  addressLines(label.toAddress).forEach(line => text(line, 11))
+  rule()
+
+  const detailsTop = y
+  text(label.courierName.toUpperCase(), 13, true)
+  text(label.serviceCode, 9)
+  text(packageSummary(label.packages), 9)
+  if (label.reference) text(`Ref: ${label.reference}`, 9)
+  text(label.createdAt.toISOString().slice(0, 10), 9)
+
+  const qr = encodeQrCode(label.qrContent)
+  const qrSize = 84
+  const qrModule = qrSize / qr.length
+  const qrLeft = PDF_PAGE_WIDTH - PDF_MARGIN - qrSize
+  qr.forEach((row, rowIndex) => {
+    row.forEach((dark, colIndex) => {
+      if (!dark) return
+      const x = qrLeft + colIndex * qrModule
+      const top = detailsTop - rowIndex * qrModule
+      ops.push(`${pdfNumber(x)} ${pdfNumber(top - qrModule)} ${pdfNumber(qrModule)} ${pdfNumber(qrModule)} re`)
+    })
+  })
+  ops.push('f')
+  y = Math.min(y, detailsTop - qrSize)
+  rule()
+
+  const bars = encodeCode128(label.trackingNumber)
+  const modules = bars.reduce((total, width) => total + width, 0)
+  const moduleWidth = Math.min(2, innerWidth / modules)
+  const barHeight = 60
+  let x = PDF_MARGIN + (innerWidth - modules * moduleWidth) / 2
+  y -= barHeight
+  bars.forEach((width, index) => {
+    // Even positions are bars, odd positions are spaces
+    if (index % 2 === 0) {
+      ops.push(`${pdfNumber(x)} ${pdfNumber(y)} ${pdfNumber(width * moduleWidth)} ${barHeight} re`)
+    }
+    x += width * moduleWidth
+  })
+  ops.push('f')
+  y -= 4
+
+  // Helvetica-Bold averages about 0.6em per character for tracking numbers
+  const trackingSize = 14
+  const trackingWidth = label.trackingNumber.length * trackingSize * 0.6
+  text(label.trackingNumber, trackingSize, true, PDF_MARGIN + Math.max(0, (innerWidth - trackingWidth) / 2))
+
+  return ops.join('\n')
+}
+
+// One PDF with a page per label, for single labels and batch printing alike
+export function renderPdfLabels(labels: LocalLabelData[]): Uint8Array {
+  if (labels.length === 0) {
+    throw new Error('At least one label is required')
+  }
+
+  // Objects 1-4 are the catalog, page tree and fonts; each label adds a page and its content
+  const pageIds = labels.map((_, index) => 5 + index * 2)
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${labels.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  ]
+  labels.forEach((label, index) => {
+    const content = pdfLabelContent(label)
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    )
+  })
+
+  // Everything above is ASCII, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n'
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`
+    return offset
+  })
+  const xrefOffset = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return new TextEncoder().encode(pdf)
+}
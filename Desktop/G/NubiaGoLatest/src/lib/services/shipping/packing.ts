@@ -0,0 +1,244 @@
+// Packing engine: fits an order's items into a supplier's boxes with a 3D bin-packing
+// heuristic, then works out the weight each carrier bills for the result.
+// Sizes are cm and weights kg throughout.
+import { ShippingBox } from '@/types'
+import type { ShippingPackage } from '../logistics.service'
+
+export interface PackableItem {
+  // Reported back on the boxes it ends up in
+  id: string
+  quantity: number
+  length: number
+  width: number
+  height: number
+  weight: number
+  // The product had no size or weight on file, so a default was assumed
+  estimated?: boolean
+}
+
+export interface PackedBox {
+  // Not set when an item ships in its own packaging because no box takes it
+  boxId?: string
+  name: string
+  length: number
+  width: number
+  height: number
+  // Contents plus the empty box
+  weight: number
+  items: Array<{ itemId: string; quantity: number }>
+  // Share of the box the contents fill, 0 to 1
+  fillRatio: number
+}
+
+export interface PackingPlan {
+  boxes: PackedBox[]
+  totalWeight: number
+  // Billable weight of the whole shipment per carrier key in DIMENSIONAL_DIVISORS, and 'default'
+  billableWeight: Record<string, number>
+  estimatedItemIds: string[]
+}
+
+// Volumetric divisors in cm³ per kg. FedEx and UPS publish 139 in³/lb, which is 5018 cm³/kg.
+export const DIMENSIONAL_DIVISORS: Record<string, number> = {
+  fedex: 5018,
+  ups: 5018,
+  dhl: 5000
+}
+
+export const DEFAULT_DIMENSIONAL_DIVISOR = 5000
+
+// Offered to suppliers who have not set up their own boxes
+export const DEFAULT_SHIPPING_BOXES: ShippingBox[] = [
+  { id: 'small', name: 'Small box', length: 25, width: 20, height: 10, maxWeight: 5, emptyWeight: 0.2 },
+  { id: 'medium', name: 'Medium box', length: 40, width: 30, height: 20, maxWeight: 15, emptyWeight: 0.45 },
+  { id: 'large', name: 'Large box', length: 60, width: 40, height: 40, maxWeight: 30, emptyWeight: 0.9 }
+]
+
+// Assumed for a product with no size or weight on file
+export const DEFAULT_ITEM_SIZE = { length: 20, width: 15, height: 10, weight: 0.5 }
+
+const WEIGHT_TO_KG = { kg: 1, lb: 0.45359237, g: 0.001, oz: 0.028349523125 }
+const LENGTH_TO_CM = { cm: 1, in: 2.54, m: 100, ft: 30.48 }
+
+export const toKg = (value: number, unit: keyof typeof WEIGHT_TO_KG = 'kg'): number =>
+  value * (WEIGHT_TO_KG[unit] ?? 1)
+
+export const toCm = (value: number, unit: keyof typeof LENGTH_TO_CM = 'cm'): number =>
+  value * (LENGTH_TO_CM[unit] ?? 1)
+
+const roundTo = (value: number, places: number = 2): number =>
+  Math.round(value * 10 ** places) / 10 ** places
+
+// Divisor a carrier applies, matched on its name as quoted, e.g. 'FedEx'
+export function dimensionalDivisorFor(carrier: string): number {
+  return DIMENSIONAL_DIVISORS[carrier.trim().toLowerCase()] ?? DEFAULT_DIMENSIONAL_DIVISOR
+}
+
+// Weight a carrier bills: actual or dimensional weight, whichever is higher, per package
+export function billableWeightKg(packages: ShippingPackage[], divisor: number = DEFAULT_DIMENSIONAL_DIVISOR): number {
+  return packages.reduce((total, pkg) => {
+    const volume = toCm(pkg.length, pkg.dimensionUnit) * toCm(pkg.width, pkg.dimensionUnit) *
+      toCm(pkg.height, pkg.dimensionUnit)
+    return total + Math.max(toKg(pkg.weight, pkg.weightUnit), volume / divisor)
+  }, 0)
+}
+
+type Size = [number, number, number]
+
+interface Unit {
+  itemId: string
+  size: Size
+  weight: number
+}
+
+interface OpenBox {
+  box: ShippingBox
+  // Empty cuboids left in the box; they never overlap
+  spaces: Size[]
+  units: Unit[]
+  contentWeight: number
+}
+
+const volumeOf = (size: Size): number => size[0] * size[1] * size[2]
+
+const boxSize = (box: ShippingBox): Size => [box.length, box.width, box.height]
+
+// The ways a cuboid can sit, without repeats for items with equal sides
+function orientations([l, w, h]: Size): Size[] {
+  const all: Size[] = [[l, w, h], [l, h, w], [w, l, h], [w, h, l], [h, l, w], [h, w, l]]
+  return all.filter((size, index) =>
+    all.findIndex(other => other[0] === size[0] && other[1] === size[1] && other[2] === size[2]) === index)
+}
+
+// Put a unit in the tightest free space that takes it, turned so the largest possible
+// space is left over. The used space is cut guillotine-style into the slabs beside,
+// in front of and above the unit.
+function place(open: OpenBox, unit: Unit): boolean {
+  if (open.box.emptyWeight + open.contentWeight + unit.weight > open.box.maxWeight) {
+    return false
+  }
+
+  let best: { spaceIndex: number; spaceVolume: number; largest: number; remainder: Size[] } | null = null
+  for (let spaceIndex = 0; spaceIndex < open.spaces.length; spaceIndex++) {
+    const space = open.spaces[spaceIndex]
+    const spaceVolume = volumeOf(space)
+    for (const size of orientations(unit.size)) {
+      if (size[0] > space[0] || size[1] > space[1] || size[2] > space[2]) continue
+      const remainder = ([
+        [space[0] - size[0], space[1], space[2]],
+        [size[0], space[1] - size[1], space[2]],
+        [size[0], size[1], space[2] - size[2]]
+      ] as Size[]).filter(part => volumeOf(part) > 0)
+      const largest = Math.max(0, ...remainder.map(volumeOf))
+      if (!best || spaceVolume < best.spaceVolume || (spaceVolume === best.spaceVolume && largest > best.largest)) {
+        best = { spaceIndex, spaceVolume, largest, remainder }
+      }
+    }
+  }
+
+  if (!best) return false
+  open.spaces.splice(best.spaceIndex, 1, ...best.remainder)
+  open.units.push(unit)
+  open.contentWeight += unit.weight
+  return true
+}
+
+const openBox = (box: ShippingBox): OpenBox =>
+  ({ box, spaces: [boxSize(box)], units: [], contentWeight: 0 })
+
+// The units packed afresh into one box of this size, if they all fit
+function packInto(box: ShippingBox, units: Unit[]): OpenBox | null {
+  const open = openBox(box)
+  return units.every(unit => place(open, unit)) ? open : null
+}
+
+function toPackedBox(units: Unit[], box?: ShippingBox): PackedBox {
+  const size = box ? boxSize(box) : units[0].size
+  const items: PackedBox['items'] = []
+  for (const unit of units) {
+    const line = items.find(item => item.itemId === unit.itemId)
+    if (line) line.quantity++
+    else items.push({ itemId: unit.itemId, quantity: 1 })
+  }
+
+  const contentVolume = units.reduce((total, unit) => total + volumeOf(unit.size), 0)
+  return {
+    ...(box ? { boxId: box.id } : {}),
+    name: box ? box.name : 'Own packaging',
+    length: size[0],
+    width: size[1],
+    height: size[2],
+    weight: roundTo((box?.emptyWeight || 0) + units.reduce((total, unit) => total + unit.weight, 0)),
+    items,
+    fillRatio: volumeOf(size) > 0 ? roundTo(Math.min(1, contentVolume / volumeOf(size))) : 1
+  }
+}
+
+// The boxes of a plan, as carriers take them for rates and labels
+export function toShippingPackages(plan: PackingPlan): ShippingPackage[] {
+  return plan.boxes.map(box => ({
+    weight: box.weight,
+    length: box.length,
+    width: box.width,
+    height: box.height,
+    weightUnit: 'kg',
+    dimensionUnit: 'cm'
+  }))
+}
+
+// Pack items into as few, and then as small, boxes as the heuristic finds. Units go in
+// largest first, each into the first open box with room, else a new box of the largest
+// size; every box is then swapped for the smallest size that still takes its contents.
+// An item no box can take ships in its own packaging.
+export function packItems(items: PackableItem[], boxes: ShippingBox[]): PackingPlan {
+  const units: Unit[] = []
+  for (const item of items) {
+    for (let i = 0; i < Math.floor(item.quantity); i++) {
+      units.push({ itemId: item.id, size: [item.length, item.width, item.height], weight: item.weight })
+    }
+  }
+  units.sort((a, b) => volumeOf(b.size) - volumeOf(a.size) || b.weight - a.weight)
+
+  const smallestFirst = [...boxes].sort((a, b) => volumeOf(boxSize(a)) - volumeOf(boxSize(b)))
+  const largestFirst = [...smallestFirst].reverse()
+  const opened: OpenBox[] = []
+  const ownPackaging: Unit[] = []
+
+  for (const unit of units) {
+    if (opened.some(open => place(open, unit))) continue
+    let fresh: OpenBox | null = null
+    for (const box of largestFirst) {
+      fresh = packInto(box, [unit])
+      if (fresh) break
+    }
+    if (fresh) opened.push(fresh)
+    else ownPackaging.push(unit)
+  }
+
+  const packed = opened.map(open => {
+    for (const box of smallestFirst) {
+      if (box === open.box) break
+      const repacked = packInto(box, open.units)
+      if (repacked) return repacked
+    }
+    return open
+  })
+
+  const planBoxes = [
+    ...packed.map(open => toPackedBox(open.units, open.box)),
+    ...ownPackaging.map(unit => toPackedBox([unit]))
+  ]
+  const plan: PackingPlan = {
+    boxes: planBoxes,
+    totalWeight: roundTo(planBoxes.reduce((total, box) => total + box.weight, 0)),
+    billableWeight: {},
+    estimatedItemIds: items.filter(item => item.estimated).map(item => item.id)
+  }
+
+  const packages = toShippingPackages(plan)
+  plan.billableWeight.default = roundTo(billableWeightKg(packages))
+  for (const carrier of Object.keys(DIMENSIONAL_DIVISORS)) {
+    plan.billableWeight[carrier] = roundTo(billableWeightKg(packages, DIMENSIONAL_DIVISORS[carrier]))
+  }
+  return plan
+}
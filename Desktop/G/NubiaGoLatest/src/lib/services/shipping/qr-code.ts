@@ -0,0 +1,346 @@
+// Minimal QR code encoder for shipping labels: byte mode, error correction level M,
+// versions 1-10 (up to 213 bytes), which covers tracking URLs and order references.
+
+export type QrMatrix = boolean[][]
+
+interface QrVersion {
+  ecPerBlock: number
+  // [number of blocks, data codewords per block]
+  groups: Array<[number, number]>
+  alignment: number[]
+}
+
+// Level M block structure per version (ISO/IEC 18004 table 9)
+const QR_VERSIONS: Record<number, QrVersion> = {
+  1: { ecPerBlock: 10, groups: [[1, 16]], alignment: [] },
+  2: { ecPerBlock: 16, groups: [[1, 28]], alignment: [6, 18] },
+  3: { ecPerBlock: 26, groups: [[1, 44]], alignment: [6, 22] },
+  4: { ecPerBlock: 18, groups: [[2, 32]], alignment: [6, 26] },
+  5: { ecPerBlock: 24, groups: [[2, 43]], alignment: [6, 30] },
+  6: { ecPerBlock: 16, groups: [[4, 27]], alignment: [6, 34] },
+  7: { ecPerBlock: 18, groups: [[4, 31]], alignment: [6, 22, 38] },
+  8: { ecPerBlock: 22, groups: [[2, 38], [2, 39]], alignment: [6, 24, 42] },
+  9: { ecPerBlock: 22, groups: [[3, 36], [2, 37]], alignment: [6, 26, 46] },
+  10: { ecPerBlock: 26, groups: [[4, 43], [1, 44]], alignment: [6, 28, 50] }
+}
+
+const MAX_VERSION = 10
+const EC_LEVEL_M = 0b00
+
+// GF(256) tables for Reed-Solomon, using the QR primitive polynomial 0x11d
+const GF_EXP = new Array<number>(512)
+const GF_LOG = new Array<number>(256)
+
+let galoisValue = 1
+for (let power = 0; power < 255; power++) {
+  GF_EXP[power] = galoisValue
+  GF_LOG[galoisValue] = power
+  galoisValue <<= 1
+  if (galoisValue & 0x100) galoisValue ^= 0x11d
+}
+for (let power = 255; power < 512; power++) {
+  GF_EXP[power] = GF_EXP[power - 255]
+}
+
+const gfMultiply = (a: number, b: number): number =>
+  a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]]
+
+function generatorPolynomial(degree: number): number[] {
+  let poly = [1]
+  for (let root = 0; root < degree; root++) {
+    const next = new Array<number>(poly.length + 1).fill(0)
+    poly.forEach((coefficient, index) => {
+      next[index] ^= coefficient
+      next[index + 1] ^= gfMultiply(coefficient, GF_EXP[root])
+    })
+    poly = next
+  }
+  return poly
+}
+
+// Error correction codewords for one block of data codewords
+export function reedSolomon(data: number[], ecLength: number): number[] {
+  const generator = generatorPolynomial(ecLength)
+  const remainder = [...data, ...new Array<number>(ecLength).fill(0)]
+  for (let index = 0; index < data.length; index++) {
+    const factor = remainder[index]
+    if (factor === 0) continue
+    generator.forEach((coefficient, offset) => {
+      remainder[index + offset] ^= gfMultiply(coefficient, factor)
+    })
+  }
+  return remainder.slice(data.length)
+}
+
+const dataCapacity = (version: number): number =>
+  QR_VERSIONS[version].groups.reduce((total, [blocks, size]) => total + blocks * size, 0)
+
+const countBits = (version: number): number => (version < 10 ? 8 : 16)
+
+function chooseVersion(byteLength: number): number {
+  for (let version = 1; version <= MAX_VERSION; version++) {
+    const bitsNeeded = 4 + countBits(version) + byteLength * 8
+    if (bitsNeeded <= dataCapacity(version) * 8) return version
+  }
+  throw new Error(`QR code content is too long (${byteLength} bytes)`)
+}
+
+// Data codewords: mode, length, payload, terminator and padding
+function encodeData(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = []
+  const push = (value: number, length: number) => {
+    for (let bit = length - 1; bit >= 0; bit--) bits.push((value >>> bit) & 1)
+  }
+
+  push(0b0100, 4)
+  push(bytes.length, countBits(version))
+  bytes.forEach(byte => push(byte, 8))
+
+  const capacityBits = dataCapacity(version) * 8
+  push(0, Math.min(4, capacityBits - bits.length))
+  while (bits.length % 8 !== 0) bits.push(0)
+
+  const codewords: number[] = []
+  for (let index = 0; index < bits.length; index += 8) {
+    codewords.push(bits.slice(index, index + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  for (let pad = 0; codewords.length < dataCapacity(version); pad++) {
+    codewords.push(pad % 2 === 0 ? 0xec : 0x11)
+  }
+  return codewords
+}
+
+// Split into blocks, add error correction and interleave
+function buildCodewords(data: number[], version: number): number[] {
+  const { ecPerBlock, groups } = QR_VERSIONS[version]
+  const dataBlocks: number[][] = []
+  let offset = 0
+  for (const [blocks, size] of groups) {
+    for (let block = 0; block < blocks; block++) {
+      dataBlocks.push(data.slice(offset, offset + size))
+      offset += size
+    }
+  }
+  const ecBlocks = dataBlocks.map(block => reedSolomon(block, ecPerBlock))
+
+  const result: number[] = []
+  const longest = Math.max(...dataBlocks.map(block => block.length))
+  for (let index = 0; index < longest; index++) {
+    dataBlocks.forEach(block => {
+      if (index < block.length) result.push(block[index])
+    })
+  }
+  for (let index = 0; index < ecPerBlock; index++) {
+    ecBlocks.forEach(block => result.push(block[index]))
+  }
+  return result
+}
+
+// Remainder of a BCH code, used for the format and version information
+function bchRemainder(value: number, generator: number): number {
+  const generatorBits = generator.toString(2).length
+  let remainder = value << (generatorBits - 1)
+  while (remainder.toString(2).length >= generatorBits) {
+    remainder ^= generator << (remainder.toString(2).length - generatorBits)
+  }
+  return remainder
+}
+
+const MASKS: Array<(row: number, col: number) => boolean> = [
+  (row, col) => (row + col) % 2 === 0,
+  (row) => row % 2 === 0,
+  (_row, col) => col % 3 === 0,
+  (row, col) => (row + col) % 3 === 0,
+  (row, col) => (Math.floor(row / 2) + Math.floor(col / 3)) % 2 === 0,
+  (row, col) => ((row * col) % 2) + ((row * col) % 3) === 0,
+  (row, col) => (((row * col) % 2) + ((row * col) % 3)) % 2 === 0,
+  (row, col) => (((row + col) % 2) + ((row * col) % 3)) % 2 === 0
+]
+
+class QrBuilder {
+  readonly size: number
+  readonly modules: boolean[][]
+  private readonly reserved: boolean[][]
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+  }
+
+  private set(row: number, col: number, dark: boolean) {
+    this.modules[row][col] = dark
+    this.reserved[row][col] = true
+  }
+
+  drawFunctionPatterns() {
+    const { size } = this
+
+    const finder = (top: number, left: number) => {
+      for (let row = -1; row <= 7; row++) {
+        for (let col = -1; col <= 7; col++) {
+          const r = top + row
+          const c = left + col
+          if (r < 0 || c < 0 || r >= size || c >= size) continue
+          const ring = Math.max(Math.abs(row - 3), Math.abs(col - 3))
+          this.set(r, c, ring !== 2 && ring !== 4)
+        }
+      }
+    }
+    finder(0, 0)
+    finder(0, size - 7)
+    finder(size - 7, 0)
+
+    for (let index = 8; index < size - 8; index++) {
+      this.set(6, index, index % 2 === 0)
+      this.set(index, 6, index % 2 === 0)
+    }
+
+    const positions = QR_VERSIONS[this.version].alignment
+    for (const row of positions) {
+      for (const col of positions) {
+        // Alignment patterns never overlap the finder patterns
+        if ((row === 6 && col === 6) || (row === 6 && col === size - 7) || (row === size - 7 && col === 6)) continue
+        for (let dr = -2; dr <= 2; dr++) {
+          for (let dc = -2; dc <= 2; dc++) {
+            this.set(row + dr, col + dc, Math.max(Math.abs(dr), Math.abs(dc)) !== 1)
+          }
+        }
+      }
+    }
+
+    // Reserve the format areas (written once the mask is chosen) and the dark module
+    this.drawFormatBits(0)
+    this.set(size - 8, 8, true)
+
+    if (this.version >= 7) {
+      const bits = (this.version << 12) | bchRemainder(this.version, 0x1f25)
+      for (let index = 0; index < 18; index++) {
+        const dark = ((bits >>> index) & 1) === 1
+        const a = size - 11 + (index % 3)
+        const b = Math.floor(index / 3)
+        this.set(a, b, dark)
+        this.set(b, a, dark)
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const { size } = this
+    const data = (EC_LEVEL_M << 3) | mask
+    const bits = ((data << 10) | bchRemainder(data, 0x537)) ^ 0x5412
+    const bit = (index: number) => ((bits >>> index) & 1) === 1
+
+    for (let index = 0; index <= 5; index++) this.set(index, 8, bit(index))
+    this.set(7, 8, bit(6))
+    this.set(8, 8, bit(7))
+    this.set(8, 7, bit(8))
+    for (let index = 9; index < 15; index++) this.set(8, 14 - index, bit(index))
+
+    for (let index = 0; index < 8; index++) this.set(8, size - 1 - index, bit(index))
+    for (let index = 8; index < 15; index++) this.set(size - 15 + index, 8, bit(index))
+  }
+
+  // Place codewords in the zig-zag order, skipping function modules
+  drawCodewords(codewords: number[]) {
+    const { size } = this
+    let bitIndex = 0
+    const totalBits = codewords.length * 8
+
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      for (let vertical = 0; vertical < size; vertical++) {
+        for (let offset = 0; offset < 2; offset++) {
+          const col = right - offset
+          const upward = ((right + 1) & 2) === 0
+          const row = upward ? size - 1 - vertical : vertical
+          if (this.reserved[row][col]) continue
+          if (bitIndex < totalBits) {
+            this.modules[row][col] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) === 1
+          }
+          bitIndex++
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    const test = MASKS[mask]
+    for (let row = 0; row < this.size; row++) {
+      for (let col = 0; col < this.size; col++) {
+        if (!this.reserved[row][col] && test(row, col)) {
+          this.modules[row][col] = !this.modules[row][col]
+        }
+      }
+    }
+  }
+
+  // Penalty score from the four rules in ISO/IEC 18004 section 7.8.3
+  penalty(): number {
+    const { size, modules } = this
+    let score = 0
+
+    const lineScore = (line: boolean[]) => {
+      let total = 0
+      let runLength = 1
+      for (let index = 1; index <= line.length; index++) {
+        if (index < line.length && line[index] === line[index - 1]) {
+          runLength++
+          continue
+        }
+        if (runLength >= 5) total += runLength - 2
+        runLength = 1
+      }
+      const text = line.map(dark => (dark ? '1' : '0')).join('')
+      for (const pattern of ['10111010000', '00001011101']) {
+        let from = text.indexOf(pattern)
+        while (from !== -1) {
+          total += 40
+          from = text.indexOf(pattern, from + 1)
+        }
+      }
+      return total
+    }
+
+    for (let index = 0; index < size; index++) {
+      score += lineScore(modules[index])
+      score += lineScore(modules.map(row => row[index]))
+    }
+
+    for (let row = 0; row < size - 1; row++) {
+      for (let col = 0; col < size - 1; col++) {
+        const dark = modules[row][col]
+        if (dark === modules[row][col + 1] && dark === modules[row + 1][col] && dark === modules[row + 1][col + 1]) {
+          score += 3
+        }
+      }
+    }
+
+    const darkCount = modules.reduce((total, row) => total + row.filter(Boolean).length, 0)
+    const percent = (darkCount * 100) / (size * size)
+    score += Math.floor(Math.abs(percent - 50) / 5) * 10
+
+    return score
+  }
+}
+
+// Encode text into a module matrix (true = dark), without the quiet zone
+export function encodeQrCode(text: string): QrMatrix {
+  const bytes = new TextEncoder().encode(text)
+  const version = chooseVersion(bytes.length)
+  const codewords = buildCodewords(encodeData(bytes, version), version)
+
+  let best: { matrix: QrMatrix; penalty: number } | undefined
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const builder = new QrBuilder(version)
+    builder.drawFunctionPatterns()
+    builder.drawCodewords(codewords)
+    builder.applyMask(mask)
+    builder.drawFormatBits(mask)
+    const penalty = builder.penalty()
+    if (!best || penalty < best.penalty) {
+      best = { matrix: builder.modules, penalty }
+    }
+  }
+  return best!.matrix
+}
@@ -0,0 +1,103 @@
+// Rate shopping: turns raw carrier rates into the options a customer is offered.
+// Admin rules add our markup, waive the cheapest option above a subtotal and hide
+// carriers per destination; the cheapest and fastest options are labelled.
+import { ShippingCountryRule, ShippingRateRules } from '@/types'
+import type { ShippingAddress, ShippingPackage, ShippingRate } from '../logistics.service'
+import { billableWeightKg } from './packing'
+
+export type RateOptionLabel = 'cheapest' | 'fastest'
+
+export interface ShippingQuote extends ShippingRate {
+  // What the carrier charges us; rate is what the customer pays
+  carrierRate: number
+  markup: number
+  freeShipping: boolean
+  labels: RateOptionLabel[]
+}
+
+export interface QuoteContext {
+  destinationCountry: string
+  // Cart or order subtotal, for free-shipping thresholds
+  orderSubtotal?: number
+}
+
+export const DEFAULT_SHIPPING_RATE_RULES: ShippingRateRules = {
+  markupPercent: 0,
+  markupFlat: 0,
+  freeShippingThreshold: 0,
+  countryRules: {}
+}
+
+export const RATE_OPTION_LABELS: Record<RateOptionLabel, string> = {
+  cheapest: 'Cheapest',
+  fastest: 'Fastest'
+}
+
+// Quotes are cached per half kilo; carriers price in steps at least this coarse
+const WEIGHT_BUCKET_KG = 0.5
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100
+
+// Cache key for a route and weight. Postal codes are cut to their first three
+// characters, which carriers zone on, so neighbouring addresses share quotes.
+export function rateCacheKey(from: ShippingAddress, to: ShippingAddress, packages: ShippingPackage[]): string {
+  const place = (address: ShippingAddress) =>
+    `${address.country.trim().toUpperCase()}:${address.postalCode.replace(/\s+/g, '').slice(0, 3).toUpperCase()}`
+  const bucket = Math.ceil(billableWeightKg(packages) / WEIGHT_BUCKET_KG) * WEIGHT_BUCKET_KG
+  return `shipping_rates:${place(from)}>${place(to)}:${bucket.toFixed(1)}kg:${packages.length}`
+}
+
+// Country rule matching a destination code or name, ignoring case
+export function countryRuleFor(rules: ShippingRateRules, country: string): ShippingCountryRule | undefined {
+  const wanted = country.trim().toLowerCase()
+  const key = Object.keys(rules.countryRules).find(candidate => candidate.trim().toLowerCase() === wanted)
+  return key ? rules.countryRules[key] : undefined
+}
+
+// Apply the admin rules to raw carrier rates and label the best options.
+// Returned cheapest first.
+export function priceQuotes(rates: ShippingRate[], rules: ShippingRateRules, context: QuoteContext): ShippingQuote[] {
+  const countryRule = countryRuleFor(rules, context.destinationCountry)
+  const excluded = (countryRule?.excludedCarriers || []).map(carrier => carrier.toLowerCase())
+  const markupPercent = countryRule?.markupPercent ?? rules.markupPercent
+  const freeShippingThreshold = countryRule?.freeShippingThreshold ?? rules.freeShippingThreshold
+
+  const quotes: ShippingQuote[] = rates
+    .filter(rate => rate.isAvailable && !excluded.includes(rate.carrier.toLowerCase()))
+    .map(rate => {
+      const price = roundMoney(rate.rate * (1 + markupPercent / 100) + rules.markupFlat)
+      // Listed field by field: generic providers may send extras or leave fields out
+      return {
+        id: rate.id,
+        serviceName: rate.serviceName,
+        serviceCode: rate.serviceCode,
+        carrier: rate.carrier,
+        rate: price,
+        estimatedDays: rate.estimatedDays || `${rate.deliveryDays} business days`,
+        deliveryDays: rate.deliveryDays,
+        guaranteedDelivery: !!rate.guaranteedDelivery,
+        isAvailable: true,
+        currency: rate.currency || 'USD',
+        carrierRate: rate.rate,
+        markup: roundMoney(price - rate.rate),
+        freeShipping: false,
+        labels: []
+      }
+    })
+    .sort((a, b) => a.rate - b.rate || a.deliveryDays - b.deliveryDays)
+
+  if (quotes.length === 0) return quotes
+
+  // Only the cheapest option is waived; faster ones stay paid upgrades
+  const qualifiesForFreeShipping = freeShippingThreshold > 0 &&
+    context.orderSubtotal !== undefined && context.orderSubtotal >= freeShippingThreshold
+  if (qualifiesForFreeShipping) {
+    quotes[0] = { ...quotes[0], rate: 0, markup: roundMoney(-quotes[0].carrierRate), freeShipping: true }
+  }
+
+  quotes[0].labels.push('cheapest')
+  const fastest = quotes.reduce((best, quote) => quote.deliveryDays < best.deliveryDays ? quote : best)
+  fastest.labels.push('fastest')
+
+  return quotes
+}
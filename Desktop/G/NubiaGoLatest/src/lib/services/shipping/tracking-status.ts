@@ -0,0 +1,116 @@
+// Maps carrier tracking codes onto our shipment statuses and decides which status a
+// shipment is in given its events, which carriers often deliver out of order.
+import { ShipmentStatus, ShipmentTrackingEvent } from '@/types'
+
+const FEDEX_CODES: Record<string, ShipmentStatus> = {
+  OC: 'label_created',
+  PU: 'picked_up',
+  AR: 'in_transit',
+  DP: 'in_transit',
+  IT: 'in_transit',
+  AF: 'in_transit',
+  OD: 'out_for_delivery',
+  DL: 'delivered',
+  DE: 'exception',
+  DD: 'exception',
+  CA: 'exception',
+  SE: 'exception',
+  RS: 'returned'
+}
+
+// UPS activity status types
+const UPS_CODES: Record<string, ShipmentStatus> = {
+  M: 'label_created',
+  MV: 'label_created',
+  P: 'picked_up',
+  I: 'in_transit',
+  O: 'out_for_delivery',
+  D: 'delivered',
+  X: 'exception',
+  RS: 'returned'
+}
+
+// DHL unified tracking status codes
+const DHL_CODES: Record<string, ShipmentStatus> = {
+  'pre-transit': 'label_created',
+  transit: 'in_transit',
+  delivered: 'delivered',
+  failure: 'exception',
+  PU: 'picked_up',
+  WC: 'out_for_delivery',
+  OK: 'delivered',
+  RT: 'returned'
+}
+
+const CARRIER_CODES: Record<string, Record<string, ShipmentStatus>> = {
+  fedex: FEDEX_CODES,
+  ups: UPS_CODES,
+  dhl: DHL_CODES
+}
+
+// Free-text fallback for carriers without a code table, most specific first
+const STATUS_KEYWORDS: Array<[RegExp, ShipmentStatus]> = [
+  [/return(ed)? to (sender|shipper)|returning/i, 'returned'],
+  [/not delivered|undeliverable|attempted|failed|unable|refused|damaged|exception/i, 'exception'],
+  [/out for delivery|with (delivery )?courier|on vehicle/i, 'out_for_delivery'],
+  [/delivered|proof of delivery/i, 'delivered'],
+  [/held|customs|delay/i, 'exception'],
+  [/picked up|pickup|collected/i, 'picked_up'],
+  [/label|created|manifest|information received|pre-transit/i, 'label_created'],
+  [/transit|departed|arrived|hub|facility|sorted|processed/i, 'in_transit']
+]
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  label_created: 'Label created',
+  picked_up: 'Picked up',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery exception',
+  returned: 'Returned to sender'
+}
+
+// Forward order of the happy path. Exceptions and returns sit outside it.
+const PROGRESSION: ShipmentStatus[] = ['label_created', 'picked_up', 'in_transit', 'out_for_delivery', 'delivered']
+
+// Normalize a carrier's status code, falling back to its description text
+export function normalizeCarrierStatus(carrier: string, code: string, description: string = ''): ShipmentStatus {
+  const table = CARRIER_CODES[carrier.toLowerCase()]
+  const mapped = table?.[code] ?? table?.[code.toUpperCase()] ?? table?.[code.toLowerCase()]
+  if (mapped) return mapped
+
+  const text = `${code} ${description}`
+  return STATUS_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1] ?? 'in_transit'
+}
+
+// Status of a shipment given all of its events. Delivered and returned are final;
+// otherwise the latest event wins unless it is a late-arriving scan from earlier on
+// the happy path, which never moves a shipment backwards.
+export function resolveShipmentStatus(events: Pick<ShipmentTrackingEvent, 'status' | 'occurredAt'>[]): ShipmentStatus {
+  if (events.some(event => event.status === 'delivered')) return 'delivered'
+  if (events.some(event => event.status === 'returned')) return 'returned'
+
+  const sorted = [...events].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime())
+  const latest = sorted[sorted.length - 1]
+  if (!latest) return 'label_created'
+  if (latest.status === 'exception') return 'exception'
+
+  return sorted.reduce<ShipmentStatus>((furthest, event) => {
+    const rank = PROGRESSION.indexOf(event.status)
+    return rank > PROGRESSION.indexOf(furthest) ? event.status : furthest
+  }, 'label_created')
+}
+
+// Shipment statuses that mean the parcel has left the seller
+export function isInCarrierHands(status: ShipmentStatus): boolean {
+  return status !== 'label_created'
+}
+
+// Milestone worth telling the customer about when a shipment moves between statuses:
+// leaving the seller (reported once, as picked up), then every later key status
+export function getTrackingMilestone(previous: ShipmentStatus, next: ShipmentStatus): ShipmentStatus | null {
+  if (previous === next) return null
+  if (['out_for_delivery', 'delivered', 'exception', 'returned'].includes(next)) return next
+  if (previous === 'label_created' && isInCarrierHands(next)) return 'picked_up'
+  return null
+}
@@ -0,0 +1,128 @@
+// Carrier tracking webhooks: signature checks and payload parsing per carrier. Each
+// parser turns a push notification into scan updates keyed by tracking number.
+import { hmacSha256Hex, safeEqual } from '@/lib/security/hmac'
+
+export interface TrackingWebhookRequest {
+  headers: Headers
+  rawBody: string
+}
+
+export interface CarrierTrackingUpdate {
+  trackingNumber: string
+  carrierStatus: string
+  description: string
+  location?: string
+  occurredAt: Date
+  estimatedDelivery?: Date
+}
+
+export interface TrackingWebhookParser {
+  verify(request: TrackingWebhookRequest, secret: string): Promise<boolean>
+  parse(body: any): CarrierTrackingUpdate[]
+}
+
+const toDateOrUndefined = (value: unknown): Date | undefined => {
+  if (!value) return undefined
+  const date = new Date(value as string)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+const joinLocation = (...parts: Array<string | undefined>): string | undefined =>
+  parts.filter(Boolean).join(', ') || undefined
+
+// Most carriers sign the raw body with HMAC-SHA256 and send it hex-encoded in a header
+const hmacVerifier = (header: string) =>
+  async (request: TrackingWebhookRequest, secret: string): Promise<boolean> =>
+    safeEqual(request.headers.get(header)?.toLowerCase(), await hmacSha256Hex(secret, request.rawBody))
+
+const fedexParser: TrackingWebhookParser = {
+  verify: hmacVerifier('fedex-signature'),
+  parse(body) {
+    const trackingNumber = body?.trackingNumber || body?.trackingNumberInfo?.trackingNumber
+    const scans: any[] = body?.scanEvents || (body?.scanEvent ? [body.scanEvent] : [])
+    if (!trackingNumber) return []
+
+    return scans.map(scan => ({
+      trackingNumber,
+      carrierStatus: scan.eventType || scan.derivedStatusCode || '',
+      description: scan.eventDescription || scan.derivedStatus || '',
+      location: joinLocation(scan.scanLocation?.city, scan.scanLocation?.stateOrProvinceCode, scan.scanLocation?.countryCode),
+      occurredAt: toDateOrUndefined(scan.date) || new Date(),
+      estimatedDelivery: toDateOrUndefined(body.estimatedDeliveryTimeWindow?.window?.ends)
+    }))
+  }
+}
+
+// UPS Track Alert echoes the credential chosen at subscription instead of signing
+const upsParser: TrackingWebhookParser = {
+  async verify(request, secret) {
+    return safeEqual(request.headers.get('credential'), secret)
+  },
+  parse(body) {
+    if (!body?.trackingNumber || !body.activityStatus) return []
+
+    // Local date and time come as YYYYMMDD and HHMMSS
+    const date = String(body.localActivityDate || '')
+    const time = String(body.localActivityTime || '000000').padStart(6, '0')
+    const occurredAt = date.length === 8
+      ? toDateOrUndefined(`${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}T${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4, 6)}`)
+      : undefined
+    const scheduled = String(body.scheduledDeliveryDate || '')
+
+    return [{
+      trackingNumber: body.trackingNumber,
+      carrierStatus: body.activityStatus.type || body.activityStatus.code || '',
+      description: body.activityStatus.description || '',
+      location: joinLocation(body.activityLocation?.city, body.activityLocation?.stateProvince, body.activityLocation?.country),
+      occurredAt: occurredAt || new Date(),
+      estimatedDelivery: scheduled.length === 8
+        ? toDateOrUndefined(`${scheduled.slice(0, 4)}-${scheduled.slice(4, 6)}-${scheduled.slice(6, 8)}`)
+        : undefined
+    }]
+  }
+}
+
+const dhlParser: TrackingWebhookParser = {
+  verify: hmacVerifier('x-dhl-signature'),
+  parse(body) {
+    const shipments: any[] = body?.shipments || []
+    return shipments.flatMap(shipment => (shipment.events || [shipment.status]).filter(Boolean).map((event: any) => ({
+      trackingNumber: shipment.id,
+      carrierStatus: event.statusCode || event.status || '',
+      description: event.description || event.status || '',
+      location: event.location?.address?.addressLocality,
+      occurredAt: toDateOrUndefined(event.timestamp) || new Date(),
+      estimatedDelivery: toDateOrUndefined(shipment.estimatedTimeOfDelivery)
+    })))
+  }
+}
+
+// Providers without a dedicated parser, including couriers we integrate by hand, post
+// { trackingNumber, status, description?, location?, timestamp?, estimatedDelivery? }
+// or { events: [...] } with that shape
+const genericParser: TrackingWebhookParser = {
+  verify: hmacVerifier('x-webhook-signature'),
+  parse(body) {
+    const events: any[] = Array.isArray(body?.events) ? body.events : [body]
+    return events
+      .filter(event => event?.trackingNumber && event.status)
+      .map(event => ({
+        trackingNumber: String(event.trackingNumber),
+        carrierStatus: String(event.status),
+        description: String(event.description || event.status),
+        location: event.location ? String(event.location) : undefined,
+        occurredAt: toDateOrUndefined(event.timestamp) || new Date(),
+        estimatedDelivery: toDateOrUndefined(event.estimatedDelivery)
+      }))
+  }
+}
+
+const TRACKING_WEBHOOK_PARSERS: Record<string, TrackingWebhookParser> = {
+  fedex: fedexParser,
+  ups: upsParser,
+  dhl: dhlParser
+}
+
+export function getTrackingWebhookParser(carrier: string): TrackingWebhookParser {
+  return TRACKING_WEBHOOK_PARSERS[carrier.toLowerCase()] || genericParser
+}
@@ -0,0 +1,86 @@
+import { APIError } from '@/lib/errors'
+import { gatewayRequest } from './mobile-money/http-client'
+import type { SmsSender } from './notification.service'
+
+export interface AfricasTalkingSmsConfig {
+  username: string
+  apiKey: string
+  // Registered alphanumeric sender id or short code; the account default when unset
+  senderId?: string
+  baseUrl?: string
+  timeoutMs?: number
+}
+
+interface AfricasTalkingRecipient {
+  number: string
+  status: string
+  statusCode: number
+  messageId: string
+}
+
+interface AfricasTalkingSendResponse {
+  SMSMessageData: {
+    Message: string
+    Recipients: AfricasTalkingRecipient[]
+  }
+}
+
+const AFRICAS_TALKING_BASE_URL = 'https://api.africastalking.com'
+const AFRICAS_TALKING_SANDBOX_URL = 'https://api.sandbox.africastalking.com'
+
+// 100 Processed, 101 Sent, 102 Queued; everything else is a rejection
+const ACCEPTED_STATUS_CODES = new Set([100, 101, 102])
+
+// Sends text messages through Africa's Talking, which reaches the operators in every
+// country we ship to. Numbers must be in international format.
+export class AfricasTalkingSmsSender implements SmsSender {
+  private readonly baseUrl: string
+
+  constructor(private readonly config: AfricasTalkingSmsConfig) {
+    this.baseUrl = config.baseUrl ||
+      (config.username === 'sandbox' ? AFRICAS_TALKING_SANDBOX_URL : AFRICAS_TALKING_BASE_URL)
+  }
+
+  async send(to: string, body: string): Promise<void> {
+    const form = new URLSearchParams({
+      username: this.config.username,
+      to: to.replace(/[\s-]/g, ''),
+      message: body
+    })
+    if (this.config.senderId) form.set('from', this.config.senderId)
+
+    const url = `${this.baseUrl}/version1/messaging`
+    const { data } = await gatewayRequest<AfricasTalkingSendResponse>(url, {
+      method: 'POST',
+      headers: { apiKey: this.config.apiKey },
+      body: form,
+      timeoutMs: this.config.timeoutMs
+    })
+
+    const recipient = data?.SMSMessageData?.Recipients?.[0]
+    if (!recipient || !ACCEPTED_STATUS_CODES.has(recipient.statusCode)) {
+      throw new APIError(
+        `SMS to ${to} was rejected: ${recipient?.status || data?.SMSMessageData?.Message || 'no recipient accepted'}`,
+        url,
+        'POST',
+        502,
+        { response: data }
+      )
+    }
+  }
+}
+
+// Build the SMS sender from environment configuration. Without credentials there is
+// no sender and notifications never offer the SMS channel. The credentials are
+// server-only, so SMS goes out when events are published from server code.
+export function createSmsSenderFromEnv(env: NodeJS.ProcessEnv = process.env): SmsSender | undefined {
+  if (!env.AFRICAS_TALKING_USERNAME || !env.AFRICAS_TALKING_API_KEY) return undefined
+
+  return new AfricasTalkingSmsSender({
+    username: env.AFRICAS_TALKING_USERNAME,
+    apiKey: env.AFRICAS_TALKING_API_KEY,
+    senderId: env.AFRICAS_TALKING_SENDER_ID || undefined,
+    baseUrl: env.AFRICAS_TALKING_BASE_URL || undefined,
+    timeoutMs: env.SMS_TIMEOUT_MS ? Number(env.SMS_TIMEOUT_MS) : undefined
+  })
+}
@@ -182,6 +182,162 @@ export class StorageService {
     }
   }
 
+  /**
+   * Upload photos attached to a return request
+   */
+  async uploadReturnPhotos(
+    userId: string,
+    files: File[]
+  ): Promise<UploadResult[]> {
+    const results: UploadResult[] = []
+
+    for (const file of files) {
+      try {
+        // Validate image file
+        this.validateImageFile(file)
+
+        // Create unique filename
+        const timestamp = Date.now()
+        const filename = `return_${timestamp}_${file.name}`
+        const path = `returns/${userId}/${filename}`
+
+        // Upload to Firebase Storage
+        const storageRef = ref(this.storage, path)
+        const snapshot = await uploadBytes(storageRef, file)
+
+        // Get download URL
+        const downloadURL = await getDownloadURL(snapshot.ref)
+
+        results.push({
+          url: downloadURL,
+          path,
+          filename,
+          size: file.size,
+          contentType: file.type
+        })
+      } catch (error) {
+        console.error(`❌ Failed to upload return photo ${file.name}:`, error)
+        throw new Error(`Failed to upload return photo ${file.name}: ${error}`)
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Upload photos attached to a product review
+   */
+  async uploadReviewPhotos(
+    productId: string,
+    reviewId: string,
+    files: File[]
+  ): Promise<UploadResult[]> {
+    const results: UploadResult[] = []
+
+    for (const file of files) {
+      try {
+        // Validate image file
+        this.validateImageFile(file)
+
+        // Create unique filename
+        const timestamp = Date.now()
+        const filename = `review_${timestamp}_${file.name}`
+        const path = `reviews/${productId}/${reviewId}/${filename}`
+
+        // Upload to Firebase Storage
+        const storageRef = ref(this.storage, path)
+        const snapshot = await uploadBytes(storageRef, file)
+
+        // Get download URL
+        const downloadURL = await getDownloadURL(snapshot.ref)
+
+        results.push({
+          url: downloadURL,
+          path,
+          filename,
+          size: file.size,
+          contentType: file.type
+        })
+      } catch (error) {
+        console.error(`❌ Failed to upload review photo ${file.name}:`, error)
+        throw new Error(`Failed to upload review photo ${file.name}: ${error}`)
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Upload images and documents attached to a chat message
+   */
+  async uploadChatAttachments(
+    roomId: string,
+    files: File[]
+  ): Promise<UploadResult[]> {
+    const results: UploadResult[] = []
+
+    for (const file of files) {
+      try {
+        // Validate file
+        this.validateFile(file)
+
+        // Create unique filename
+        const timestamp = Date.now()
+        const filename = `chat_${timestamp}_${file.name}`
+        const path = `chat/${roomId}/${filename}`
+
+        // Upload to Firebase Storage
+        const storageRef = ref(this.storage, path)
+        const snapshot = await uploadBytes(storageRef, file)
+
+        // Get download URL
+        const downloadURL = await getDownloadURL(snapshot.ref)
+
+        results.push({
+          url: downloadURL,
+          path,
+          filename,
+          size: file.size,
+          contentType: file.type
+        })
+      } catch (error) {
+        console.error(`❌ Failed to upload chat attachment ${file.name}:`, error)
+        throw new Error(`Failed to upload chat attachment ${file.name}: ${error}`)
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Upload a generated shipping label or batch of labels
+   */
+  async uploadShippingLabel(
+    folder: string,
+    filename: string,
+    content: Uint8Array,
+    contentType: string
+  ): Promise<UploadResult> {
+    const path = `shipping-labels/${folder}/${filename}`
+
+    try {
+      const storageRef = ref(this.storage, path)
+      const snapshot = await uploadBytes(storageRef, content, { contentType })
+      const downloadURL = await getDownloadURL(snapshot.ref)
+
+      return {
+        url: downloadURL,
+        path,
+        filename,
+        size: content.byteLength,
+        contentType
+      }
+    } catch (error) {
+      console.error(`❌ Failed to upload shipping label ${path}:`, error)
+      throw new Error(`Failed to upload shipping label ${filename}: ${error}`)
+    }
+  }
+
   /**
    * Delete file from storage
    */
@@ -0,0 +1,413 @@
+import {
+  doc,
+  getDoc,
+  updateDoc,
+  collection,
+  query,
+  where,
+  orderBy,
+  getDocs,
+  runTransaction,
+  writeBatch
+} from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { BaseError, ConflictError, NotFoundError, ValidationError } from '@/lib/errors'
+import { Order, OrderItem, OrderStatus, ShipmentLabel, SubOrder } from '@/types'
+import { inventoryReservationService } from './inventory-reservation.service'
+import { orderService } from './order.service'
+import { payoutService } from './payout.service'
+
+// Items whose product has no supplier are fulfilled by the platform itself
+export const PLATFORM_SUPPLIER_ID = 'platform'
+
+const DEFAULT_COMMISSION_RATE = 10
+
+// Statuses a supplier may move their own sub-order to. 'delivered' credits the supplier's
+// payable, so only carrier tracking or an admin can set it.
+export const SUPPLIER_SETTABLE_STATUSES: OrderStatus[] = ['confirmed', 'processing', 'shipped', 'cancelled']
+
+// Allowed sub-order status changes. Sub-orders only move forward; delivered and
+// cancelled are final. Once the carrier has the parcel it can no longer be cancelled.
+const SUB_ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'processing', 'shipped', 'delivered', 'cancelled'],
+  confirmed: ['processing', 'shipped', 'delivered', 'cancelled'],
+  processing: ['shipped', 'delivered', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: []
+}
+
+export function canTransitionSubOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return SUB_ORDER_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+export interface SupplierItemGroup {
+  supplierId: string
+  items: OrderItem[]
+  subtotal: number
+}
+
+export class SubOrderService {
+  private readonly COLLECTION_NAME = 'sub_orders'
+  private readonly ORDERS_COLLECTION = 'orders'
+  private readonly SUPPLIERS_COLLECTION = 'suppliers'
+
+  // Resolve the supplier responsible for an order line
+  getItemSupplierId(item: OrderItem): string {
+    return item.supplierId || item.product?.supplierId || PLATFORM_SUPPLIER_ID
+  }
+
+  // Group order items by supplier, preserving the original item order
+  groupItemsBySupplier(items: OrderItem[]): SupplierItemGroup[] {
+    const groups = new Map<string, SupplierItemGroup>()
+
+    for (const item of items) {
+      const supplierId = this.getItemSupplierId(item)
+      const group = groups.get(supplierId) || { supplierId, items: [], subtotal: 0 }
+      group.items.push({ ...item, supplierId })
+      group.subtotal += item.price * item.quantity
+      groups.set(supplierId, group)
+    }
+
+    return Array.from(groups.values())
+  }
+
+  // Split a shipping charge across supplier groups in proportion to their subtotals.
+  // The last group absorbs rounding so the parts always add up to the whole.
+  allocateShipping(groups: SupplierItemGroup[], totalShipping: number): Map<string, number> {
+    const allocation = new Map<string, number>()
+    const orderSubtotal = groups.reduce((sum, group) => sum + group.subtotal, 0)
+    let allocated = 0
+
+    groups.forEach((group, index) => {
+      let share: number
+      if (index === groups.length - 1) {
+        share = Math.round((totalShipping - allocated) * 100) / 100
+      } else if (orderSubtotal > 0) {
+        share = Math.round((totalShipping * group.subtotal / orderSubtotal) * 100) / 100
+      } else {
+        share = Math.round((totalShipping / groups.length) * 100) / 100
+      }
+      allocated += share
+      allocation.set(group.supplierId, share)
+    })
+
+    return allocation
+  }
+
+  // Build (but do not persist) the per-supplier sub-orders for a parent order
+  async buildSubOrders(order: Order, totalShipping: number = 0): Promise<SubOrder[]> {
+    const groups = this.groupItemsBySupplier(order.items)
+    const shipping = this.allocateShipping(groups, totalShipping)
+    const now = new Date()
+
+    return Promise.all(groups.map(async (group) => {
+      const commissionRate = await this.getCommissionRate(group.supplierId)
+      const shippingCost = shipping.get(group.supplierId) || 0
+      const commissionAmount = Math.round(group.subtotal * commissionRate) / 100
+
+      return {
+        id: `${order.id}-${group.supplierId}`,
+        parentOrderId: order.id,
+        supplierId: group.supplierId,
+        userId: order.userId,
+        items: group.items,
+        subtotal: group.subtotal,
+        shippingCost,
+        commissionRate,
+        commissionAmount,
+        total: group.subtotal + shippingCost,
+        status: order.status,
+        shippingAddress: order.shippingAddress,
+        createdAt: now,
+        updatedAt: now
+      }
+    }))
+  }
+
+  // Save a new parent order together with its supplier sub-orders
+  async createSubOrders(order: Order, totalShipping: number = 0): Promise<SubOrder[]> {
+    try {
+      const subOrders = await this.buildSubOrders(order, totalShipping)
+      const batch = writeBatch(db)
+
+      for (const subOrder of subOrders) {
+        batch.set(doc(db, this.COLLECTION_NAME, subOrder.id), subOrder)
+      }
+
+      // The parent order goes in the same batch, so it is never saved without its sub-orders
+      batch.set(doc(db, this.ORDERS_COLLECTION, order.id), {
+        ...order,
+        subOrderIds: subOrders.map(subOrder => subOrder.id)
+      })
+
+      await batch.commit()
+      return subOrders
+    } catch (error) {
+      console.error('Error creating sub-orders:', error)
+      throw new Error('Failed to create sub-orders')
+    }
+  }
+
+  // Get sub-order by ID
+  async getSubOrder(subOrderId: string): Promise<SubOrder | null> {
+    try {
+      const subOrderDoc = await getDoc(doc(db, this.COLLECTION_NAME, subOrderId))
+      if (!subOrderDoc.exists()) {
+        return null
+      }
+      return { id: subOrderDoc.id, ...subOrderDoc.data() } as SubOrder
+    } catch (error) {
+      console.error('Error getting sub-order:', error)
+      throw new Error('Failed to fetch sub-order')
+    }
+  }
+
+  // Get a sub-order only if it belongs to the given supplier
+  async getSupplierSubOrder(subOrderId: string, supplierId: string): Promise<SubOrder | null> {
+    const subOrder = await this.getSubOrder(subOrderId)
+    if (!subOrder || subOrder.supplierId !== supplierId) {
+      return null
+    }
+    return subOrder
+  }
+
+  // Get all sub-orders belonging to a parent order
+  async getSubOrdersForOrder(parentOrderId: string): Promise<SubOrder[]> {
+    try {
+      const q = query(
+        collection(db, this.COLLECTION_NAME),
+        where('parentOrderId', '==', parentOrderId)
+      )
+      const snapshot = await getDocs(q)
+      return snapshot.docs.map(subOrderDoc => ({
+        id: subOrderDoc.id,
+        ...subOrderDoc.data()
+      })) as SubOrder[]
+    } catch (error) {
+      console.error('Error getting sub-orders for order:', error)
+      throw new Error('Failed to fetch sub-orders')
+    }
+  }
+
+  // Get a supplier's sub-orders, newest first
+  async getSupplierSubOrders(supplierId: string, status?: OrderStatus): Promise<SubOrder[]> {
+    try {
+      let q = query(
+        collection(db, this.COLLECTION_NAME),
+        where('supplierId', '==', supplierId),
+        orderBy('createdAt', 'desc')
+      )
+
+      if (status) {
+        q = query(q, where('status', '==', status))
+      }
+
+      const snapshot = await getDocs(q)
+      return snapshot.docs.map(subOrderDoc => ({
+        id: subOrderDoc.id,
+        ...subOrderDoc.data()
+      })) as SubOrder[]
+    } catch (error) {
+      console.error('Error getting supplier sub-orders:', error)
+      throw new Error('Failed to fetch supplier sub-orders')
+    }
+  }
+
+  // Update a sub-order's status and roll the change up to the parent order. Server-side
+  // only (API routes, carrier tracking): delivery books the sale in the supplier ledger,
+  // and cancellation returns the sub-order's stock and refunds its share of the payment.
+  // The status is checked and changed in one transaction, so the side effects of a
+  // change happen once even when two requests race.
+  async updateSubOrderStatus(subOrderId: string, status: OrderStatus, trackingNumber?: string): Promise<SubOrder> {
+    const subOrderRef = doc(db, this.COLLECTION_NAME, subOrderId)
+    try {
+      const { subOrder, changed } = await runTransaction(db, async (transaction) => {
+        const subOrderDoc = await transaction.get(subOrderRef)
+        if (!subOrderDoc.exists()) {
+          throw new NotFoundError('Sub-order', subOrderId)
+        }
+        const current = { id: subOrderDoc.id, ...subOrderDoc.data() } as SubOrder
+
+        const updates: Partial<SubOrder> = { updatedAt: new Date() }
+        if (trackingNumber) {
+          updates.trackingNumber = trackingNumber
+        }
+        if (current.status === status) {
+          // Repeating the current status only records a new tracking number
+          if (trackingNumber) transaction.update(subOrderRef, updates)
+          return { subOrder: { ...current, ...updates }, changed: false }
+        }
+        if (!canTransitionSubOrder(current.status, status)) {
+          throw new ConflictError(`A ${current.status} sub-order cannot be moved to ${status}`, {
+            subOrderId,
+            from: current.status,
+            to: status
+          })
+        }
+
+        updates.status = status
+        if (status === 'shipped') {
+          updates.shippedAt = new Date()
+        }
+        if (status === 'delivered') {
+          updates.deliveredAt = new Date()
+        }
+        transaction.update(subOrderRef, updates)
+        return { subOrder: { ...current, ...updates }, changed: true }
+      })
+
+      if (!changed) {
+        return subOrder
+      }
+      await this.syncParentStatus(subOrder.parentOrderId)
+
+      // The supplier earns the sale once the goods are delivered
+      if (status === 'delivered') {
+        await payoutService.recordSubOrderSale(subOrder)
+      }
+      if (status === 'cancelled') {
+        return await this.settleCancellation(subOrder)
+      }
+
+      return subOrder
+    } catch (error) {
+      console.error('Error updating sub-order status:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to update sub-order status')
+    }
+  }
+
+  // Status change requested by the supplier who owns the sub-order
+  async updateSupplierSubOrderStatus(subOrderId: string, supplierId: string, status: OrderStatus): Promise<SubOrder> {
+    if (!SUPPLIER_SETTABLE_STATUSES.includes(status)) {
+      throw new ValidationError('Status cannot be set by a supplier', {
+        status: [`Must be one of: ${SUPPLIER_SETTABLE_STATUSES.join(', ')}`]
+      })
+    }
+
+    const subOrder = await this.getSupplierSubOrder(subOrderId, supplierId)
+    if (!subOrder) {
+      throw new NotFoundError('Sub-order', subOrderId)
+    }
+
+    return this.updateSubOrderStatus(subOrderId, status)
+  }
+
+  // A sub-order cancelled on its own (the rest of the order goes ahead): its units go
+  // back to stock, and if the order was paid the customer gets this sub-order's share back
+  private async settleCancellation(subOrder: SubOrder): Promise<SubOrder> {
+    await inventoryReservationService.releaseItems(subOrder.parentOrderId, subOrder.items)
+
+    const order = await orderService.getOrder(subOrder.parentOrderId)
+    if (!order || (order.paymentStatus !== 'paid' && order.paymentStatus !== 'partial') || subOrder.total <= 0) {
+      return subOrder
+    }
+
+    try {
+      await orderService.refundOrder(
+        subOrder.parentOrderId,
+        subOrder.total,
+        `Sub-order ${subOrder.id} cancelled`,
+        { subOrderId: subOrder.id }
+      )
+    } catch (error) {
+      console.error(`Refund for cancelled sub-order ${subOrder.id} failed:`, error)
+      throw new Error('The sub-order was cancelled but its refund failed; refund it from the order')
+    }
+
+    const refunded = { refundedAmount: subOrder.total, refundedAt: new Date() }
+    await updateDoc(doc(db, this.COLLECTION_NAME, subOrder.id), refunded)
+    return { ...subOrder, ...refunded }
+  }
+
+  // Record the label printed for a sub-order; its tracking number goes on the sub-order too
+  async attachShippingLabel(subOrderId: string, label: ShipmentLabel): Promise<void> {
+    try {
+      await updateDoc(doc(db, this.COLLECTION_NAME, subOrderId), {
+        shippingLabel: label,
+        trackingNumber: label.trackingNumber,
+        updatedAt: new Date()
+      })
+    } catch (error) {
+      console.error('Error saving sub-order shipping label:', error)
+      throw new Error('Failed to save shipping label')
+    }
+  }
+
+  // Push an order-wide status (payment confirmed, order cancelled) down to sub-orders
+  // that have not progressed past it on their own
+  async propagateParentStatus(parentOrderId: string, status: OrderStatus): Promise<void> {
+    try {
+      const subOrders = await this.getSubOrdersForOrder(parentOrderId)
+      const batch = writeBatch(db)
+      let changed = 0
+
+      for (const subOrder of subOrders) {
+        const canMove = status === 'cancelled'
+          ? subOrder.status !== 'shipped' && subOrder.status !== 'delivered'
+          : subOrder.status === 'pending'
+        if (canMove && subOrder.status !== status) {
+          batch.update(doc(db, this.COLLECTION_NAME, subOrder.id), { status, updatedAt: new Date() })
+          changed++
+        }
+      }
+
+      if (changed > 0) {
+        await batch.commit()
+      }
+    } catch (error) {
+      console.error('Error propagating order status to sub-orders:', error)
+      throw new Error('Failed to update sub-order statuses')
+    }
+  }
+
+  // Derive the parent order status from its sub-orders.
+  // The parent only advances once every non-cancelled sub-order has.
+  deriveParentStatus(statuses: OrderStatus[]): OrderStatus {
+    const progression: OrderStatus[] = ['pending', 'confirmed', 'processing', 'shipped', 'delivered']
+    const active = statuses.filter(status => status !== 'cancelled')
+
+    if (active.length === 0) {
+      return 'cancelled'
+    }
+
+    const lowest = Math.min(...active.map(status => progression.indexOf(status)))
+    // A partially shipped order is still being processed from the customer's point of view
+    if (progression[lowest] !== 'shipped' && active.some(status => status === 'shipped' || status === 'delivered')) {
+      return 'processing'
+    }
+    return progression[lowest]
+  }
+
+  // Recompute and store the parent order status
+  async syncParentStatus(parentOrderId: string): Promise<OrderStatus> {
+    const subOrders = await this.getSubOrdersForOrder(parentOrderId)
+    const status = this.deriveParentStatus(subOrders.map(subOrder => subOrder.status))
+
+    await updateDoc(doc(db, this.ORDERS_COLLECTION, parentOrderId), {
+      status,
+      updatedAt: new Date()
+    })
+
+    return status
+  }
+
+  // Look up the supplier's commission rate (percent), falling back to the platform default
+  private async getCommissionRate(supplierId: string): Promise<number> {
+    if (supplierId === PLATFORM_SUPPLIER_ID) {
+      return 0
+    }
+
+    try {
+      const supplierDoc = await getDoc(doc(db, this.SUPPLIERS_COLLECTION, supplierId))
+      const rate = supplierDoc.exists() ? supplierDoc.data().commissionRate : undefined
+      return typeof rate === 'number' ? rate : DEFAULT_COMMISSION_RATE
+    } catch (error) {
+      console.warn(`Could not load commission rate for supplier ${supplierId}:`, error)
+      return DEFAULT_COMMISSION_RATE
+    }
+  }
+}
+
+export const subOrderService = new SubOrderService()
@@ -0,0 +1,70 @@
+import { supportService } from './support.service'
+
+// Escalates support tickets that missed their SLA deadline, on a schedule, so breaches
+// are flagged and the admins notified even when nobody has the support queue open.
+export class SupportSlaJob {
+  private isRunning = false
+  private intervalId: NodeJS.Timeout | null = null
+
+  // Start the SLA escalation job
+  start() {
+    if (this.isRunning) {
+      console.log('Support SLA job is already running')
+      return
+    }
+
+    console.log('Starting support SLA job...')
+    this.isRunning = true
+
+    // Run every 5 minutes; first-response deadlines are counted in hours
+    this.intervalId = setInterval(async () => {
+      await this.escalateOverdueTickets()
+    }, 5 * 60 * 1000)
+
+    // Run immediately on start
+    this.escalateOverdueTickets()
+  }
+
+  // Stop the SLA escalation job
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+    this.isRunning = false
+    console.log('Support SLA job stopped')
+  }
+
+  // Escalate every active ticket past its deadline; returns how many were newly breached
+  async escalateOverdueTickets(): Promise<number> {
+    try {
+      const breached = await supportService.escalateOverdueTickets()
+      if (breached > 0) {
+        console.log(`Escalated ${breached} support tickets that missed their SLA`)
+      }
+      return breached
+    } catch (error) {
+      console.error('Support SLA job failed:', error)
+      return 0
+    }
+  }
+
+  // Get job status
+  getStatus() {
+    return {
+      isRunning: this.isRunning,
+      intervalId: this.intervalId ? 'active' : 'inactive'
+    }
+  }
+}
+
+// Create singleton instance
+export const supportSlaJob = new SupportSlaJob()
+
+// Start the job when the module is imported (for development)
+if (process.env.NODE_ENV === 'development') {
+  // Only start in development to avoid multiple instances
+  setTimeout(() => {
+    supportSlaJob.start()
+  }, 5000) // Start after 5 seconds
+}
@@ -0,0 +1,509 @@
+import {
+  doc,
+  getDoc,
+  setDoc,
+  collection,
+  query,
+  where,
+  orderBy,
+  getDocs,
+  runTransaction
+} from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { AuthorizationError, BaseError, ConflictError, NotFoundError, ValidationError } from '@/lib/errors'
+import { logger } from '@/lib/utils/logger'
+import { toDate } from '@/lib/utils/dates'
+import {
+  SupportTicket,
+  TicketCategory,
+  TicketParticipantRole,
+  TicketPriority,
+  TicketStatus,
+  TicketStatusChange,
+  User
+} from '@/types'
+import { emailService } from './email.service'
+import { orderService } from './order.service'
+import { productService } from './product.service'
+import { subOrderService } from './sub-order.service'
+import {
+  ACTIVE_TICKET_STATUSES,
+  getSlaDeadlines,
+  isTicketOverdue,
+  transitionTicket
+} from './support/ticket-state-machine'
+
+export const MAX_TICKET_MESSAGE_LENGTH = 5000
+
+export interface CreateTicketInput {
+  subject: string
+  message: string
+  category: TicketCategory
+  priority: TicketPriority
+  orderId?: string
+  productId?: string
+}
+
+// Someone acting on a ticket: the requester, the linked supplier or an admin
+export interface TicketParticipant {
+  id: string
+  name: string
+  role: TicketParticipantRole
+}
+
+type TicketActor = Pick<TicketStatusChange, 'actorId' | 'actorRole'>
+
+const SYSTEM_ACTOR: TicketActor = { actorId: 'system', actorRole: 'system' }
+
+const PRIORITY_RANK: Record<TicketPriority, number> = { urgent: 0, high: 1, medium: 2, low: 3 }
+
+const toActor = (participant: TicketParticipant): TicketActor => ({
+  actorId: participant.id,
+  actorRole: participant.role
+})
+
+export class SupportService {
+  private readonly COLLECTION_NAME = 'support_tickets'
+
+  // Open a ticket for a customer or supplier
+  async createTicket(requester: User, input: CreateTicketInput): Promise<SupportTicket> {
+    try {
+      if (requester.role === 'admin') {
+        throw new AuthorizationError('Admins answer tickets rather than open them')
+      }
+      this.validateTicket(input)
+
+      const supplierId = requester.role === 'supplier'
+        ? requester.uid
+        : await this.resolveSupplierId(requester.uid, input)
+
+      const now = new Date()
+      const ticketRef = doc(collection(db, this.COLLECTION_NAME))
+      const requesterName = requester.name || requester.displayName || requester.email
+      const ticket: SupportTicket = {
+        id: ticketRef.id,
+        ticketNumber: `TKT-${now.getTime().toString(36).toUpperCase()}-${ticketRef.id.slice(0, 4).toUpperCase()}`,
+        subject: input.subject.trim(),
+        category: input.category,
+        priority: input.priority,
+        status: 'open',
+        requesterId: requester.uid,
+        requesterRole: requester.role,
+        requesterName,
+        requesterEmail: requester.email,
+        ...(input.orderId ? { orderId: input.orderId } : {}),
+        ...(input.productId ? { productId: input.productId } : {}),
+        ...(supplierId ? { supplierId } : {}),
+        messages: [{
+          id: `${ticketRef.id}-1`,
+          authorId: requester.uid,
+          authorName: requesterName,
+          authorRole: requester.role,
+          body: input.message.trim(),
+          createdAt: now
+        }],
+        statusHistory: [{ status: 'open', actorId: requester.uid, actorRole: requester.role, changedAt: now }],
+        ...getSlaDeadlines(input.priority, now),
+        slaBreached: false,
+        createdAt: now,
+        updatedAt: now
+      }
+
+      await setDoc(ticketRef, ticket)
+      await this.notifyRequester(ticket)
+      return ticket
+    } catch (error) {
+      logger.error('Error creating support ticket:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to create support ticket')
+    }
+  }
+
+  // Get ticket by ID
+  async getTicket(ticketId: string): Promise<SupportTicket | null> {
+    try {
+      const ticketDoc = await getDoc(doc(db, this.COLLECTION_NAME, ticketId))
+      if (!ticketDoc.exists()) {
+        return null
+      }
+      return this.toTicket(ticketDoc.id, ticketDoc.data())
+    } catch (error) {
+      logger.error('Error getting support ticket:', error)
+      throw new Error('Failed to fetch support ticket')
+    }
+  }
+
+  // Get the tickets a customer or supplier opened, most recently active first
+  async getRequesterTickets(userId: string): Promise<SupportTicket[]> {
+    try {
+      const ticketsQuery = query(
+        collection(db, this.COLLECTION_NAME),
+        where('requesterId', '==', userId),
+        orderBy('updatedAt', 'desc')
+      )
+      const snapshot = await getDocs(ticketsQuery)
+      return snapshot.docs.map(ticketDoc => this.toTicket(ticketDoc.id, ticketDoc.data()))
+    } catch (error) {
+      logger.error('Error getting requester tickets:', error)
+      throw new Error('Failed to fetch support tickets')
+    }
+  }
+
+  // Get the supplier's own tickets and customer tickets about its orders or products
+  async getSupplierTickets(supplierId: string): Promise<SupportTicket[]> {
+    try {
+      const ticketsQuery = query(
+        collection(db, this.COLLECTION_NAME),
+        where('supplierId', '==', supplierId),
+        orderBy('updatedAt', 'desc')
+      )
+      const snapshot = await getDocs(ticketsQuery)
+      return snapshot.docs.map(ticketDoc => this.toTicket(ticketDoc.id, ticketDoc.data()))
+    } catch (error) {
+      logger.error('Error getting supplier tickets:', error)
+      throw new Error('Failed to fetch support tickets')
+    }
+  }
+
+  // Active tickets for the admin queue: escalated and SLA-breached tickets first,
+  // then by priority and the closest resolution deadline
+  async getAdminQueue(): Promise<SupportTicket[]> {
+    try {
+      const ticketsQuery = query(
+        collection(db, this.COLLECTION_NAME),
+        where('status', 'in', ACTIVE_TICKET_STATUSES)
+      )
+      const snapshot = await getDocs(ticketsQuery)
+      return snapshot.docs
+        .map(ticketDoc => this.toTicket(ticketDoc.id, ticketDoc.data()))
+        .sort((a, b) =>
+          Number(b.status === 'escalated') - Number(a.status === 'escalated') ||
+          Number(b.slaBreached) - Number(a.slaBreached) ||
+          PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+          a.resolutionDueAt.getTime() - b.resolutionDueAt.getTime()
+        )
+    } catch (error) {
+      logger.error('Error getting admin ticket queue:', error)
+      throw new Error('Failed to fetch support tickets')
+    }
+  }
+
+  // Add a reply to the thread. Replies move the ticket along: a requester answering a
+  // 'waiting' ticket puts it back in progress (or reopens a resolved one), and the
+  // first answer from the supplier or an admin stops the first-response SLA timer.
+  async addReply(ticketId: string, author: TicketParticipant, body: string): Promise<SupportTicket> {
+    if (!body.trim()) {
+      throw new ValidationError('Reply cannot be empty', { body: ['Required'] })
+    }
+    if (body.length > MAX_TICKET_MESSAGE_LENGTH) {
+      throw new ValidationError('Reply is too long', { body: [`At most ${MAX_TICKET_MESSAGE_LENGTH} characters`] })
+    }
+
+    const ticketRef = doc(db, this.COLLECTION_NAME, ticketId)
+    try {
+      const { ticket, statusChanged } = await runTransaction(db, async (transaction) => {
+        const ticketDoc = await transaction.get(ticketRef)
+        if (!ticketDoc.exists()) {
+          throw new NotFoundError('Support ticket', ticketId)
+        }
+
+        const ticket = this.toTicket(ticketDoc.id, ticketDoc.data())
+        this.assertParty(ticket, toActor(author))
+        if (ticket.status === 'closed') {
+          throw new ConflictError('Closed tickets cannot be replied to; please open a new ticket', { ticketId })
+        }
+
+        const now = new Date()
+        const isRequester = author.id === ticket.requesterId
+        ticket.messages = [
+          ...ticket.messages,
+          {
+            id: `${ticket.id}-${ticket.messages.length + 1}`,
+            authorId: author.id,
+            authorName: author.name,
+            authorRole: author.role,
+            body: body.trim(),
+            createdAt: now
+          }
+        ]
+        ticket.updatedAt = now
+        if (!isRequester && !ticket.firstRespondedAt) {
+          ticket.firstRespondedAt = now
+        }
+
+        const nextStatus: TicketStatus | undefined = isRequester
+          ? (ticket.status === 'waiting' ? 'in_progress' : ticket.status === 'resolved' ? 'open' : undefined)
+          : (ticket.status === 'open' ? 'in_progress' : undefined)
+        const statusChanged = !!nextStatus && transitionTicket(ticket, nextStatus, toActor(author))
+
+        transaction.update(ticketRef, {
+          messages: ticket.messages,
+          status: ticket.status,
+          statusHistory: ticket.statusHistory,
+          updatedAt: ticket.updatedAt,
+          resolvedAt: ticket.resolvedAt || null,
+          ...(ticket.firstRespondedAt ? { firstRespondedAt: ticket.firstRespondedAt } : {})
+        })
+        return { ticket, statusChanged }
+      })
+
+      if (statusChanged) {
+        await this.notifyRequester(ticket)
+      }
+      return ticket
+    } catch (error) {
+      logger.error('Error replying to support ticket:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to reply to support ticket')
+    }
+  }
+
+  // Change a ticket's status. Requesters may only close their own tickets (replying
+  // reopens them); escalated tickets can only be taken back out of escalation by an admin.
+  async updateStatus(ticketId: string, to: TicketStatus, actor: TicketParticipant, note?: string): Promise<SupportTicket> {
+    return this.changeStatus(ticketId, to, toActor(actor), note, (ticket) => {
+      if (actor.id === ticket.requesterId && to !== 'closed') {
+        throw new AuthorizationError('Only the support team can change this ticket\'s status')
+      }
+      if (ticket.status === 'escalated' && actor.role !== 'admin' && to !== 'closed') {
+        throw new AuthorizationError('Escalated tickets are handled by an admin')
+      }
+    })
+  }
+
+  // Hand the ticket to the admins. Anyone on the ticket can escalate it.
+  async escalateTicket(ticketId: string, actor: TicketParticipant, reason: string): Promise<SupportTicket> {
+    if (!reason.trim()) {
+      throw new ValidationError('An escalation reason is required', { reason: ['Required'] })
+    }
+    return this.changeStatus(ticketId, 'escalated', toActor(actor), reason.trim(), undefined, {
+      escalationReason: reason.trim()
+    })
+  }
+
+  // Assign the ticket to an admin
+  async assignTicket(ticketId: string, admin: TicketParticipant, assignee: { id: string; name: string }): Promise<SupportTicket> {
+    if (admin.role !== 'admin') {
+      throw new AuthorizationError('Only admins can assign tickets')
+    }
+
+    const ticketRef = doc(db, this.COLLECTION_NAME, ticketId)
+    try {
+      return await runTransaction(db, async (transaction) => {
+        const ticketDoc = await transaction.get(ticketRef)
+        if (!ticketDoc.exists()) {
+          throw new NotFoundError('Support ticket', ticketId)
+        }
+
+        const ticket = this.toTicket(ticketDoc.id, ticketDoc.data())
+        if (!ACTIVE_TICKET_STATUSES.includes(ticket.status)) {
+          throw new ConflictError(`A ${ticket.status} ticket cannot be assigned`, { ticketId })
+        }
+
+        ticket.assigneeId = assignee.id
+        ticket.assigneeName = assignee.name
+        ticket.updatedAt = new Date()
+        transaction.update(ticketRef, {
+          assigneeId: ticket.assigneeId,
+          assigneeName: ticket.assigneeName,
+          updatedAt: ticket.updatedAt
+        })
+        return ticket
+      })
+    } catch (error) {
+      logger.error('Error assigning support ticket:', error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to assign support ticket')
+    }
+  }
+
+  // Flag active tickets that missed a deadline and escalate them to the admins.
+  // Returns the number of tickets newly marked as breached.
+  async escalateOverdueTickets(now: Date = new Date()): Promise<number> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.COLLECTION_NAME),
+        where('status', 'in', ACTIVE_TICKET_STATUSES),
+        where('slaBreached', '==', false)
+      ))
+      const overdue = snapshot.docs
+        .map(ticketDoc => this.toTicket(ticketDoc.id, ticketDoc.data()))
+        .filter(ticket => isTicketOverdue(ticket, now))
+
+      let breached = 0
+      for (const ticket of overdue) {
+        try {
+          if (ticket.status === 'escalated') {
+            await this.changeStatus(ticket.id, undefined, SYSTEM_ACTOR, undefined, undefined, { slaBreached: true })
+          } else {
+            await this.changeStatus(ticket.id, 'escalated', SYSTEM_ACTOR, 'SLA deadline missed', undefined, {
+              slaBreached: true,
+              escalationReason: 'SLA deadline missed'
+            })
+          }
+          breached++
+        } catch (error) {
+          logger.warn(`Could not escalate overdue ticket ${ticket.ticketNumber}:`, error)
+        }
+      }
+      return breached
+    } catch (error) {
+      logger.error('Error escalating overdue tickets:', error)
+      throw new Error('Failed to escalate overdue tickets')
+    }
+  }
+
+  // Apply a status change (and/or field updates) in a transaction, then email the
+  // requester about the new status. Passing no target status only applies the updates.
+  private async changeStatus(
+    ticketId: string,
+    to: TicketStatus | undefined,
+    actor: TicketActor,
+    note?: string,
+    authorize?: (ticket: SupportTicket) => void,
+    updates: Partial<SupportTicket> = {}
+  ): Promise<SupportTicket> {
+    const ticketRef = doc(db, this.COLLECTION_NAME, ticketId)
+
+    try {
+      const ticket = await runTransaction(db, async (transaction) => {
+        const ticketDoc = await transaction.get(ticketRef)
+        if (!ticketDoc.exists()) {
+          throw new NotFoundError('Support ticket', ticketId)
+        }
+
+        const ticket = this.toTicket(ticketDoc.id, ticketDoc.data())
+        this.assertParty(ticket, actor)
+        authorize?.(ticket)
+
+        const from = ticket.status
+        if (to && !transitionTicket(ticket, to, { ...actor, note })) {
+          throw new ConflictError(`Ticket cannot move from ${from} to ${to}`, { ticketId })
+        }
+        Object.assign(ticket, updates)
+        if (!to) {
+          ticket.updatedAt = new Date()
+        }
+
+        transaction.update(ticketRef, {
+          ...updates,
+          status: ticket.status,
+          statusHistory: ticket.statusHistory,
+          updatedAt: ticket.updatedAt,
+          resolvedAt: ticket.resolvedAt || null,
+          ...(ticket.escalatedAt ? { escalatedAt: ticket.escalatedAt } : {}),
+          ...(ticket.closedAt ? { closedAt: ticket.closedAt } : {})
+        })
+        return ticket
+      })
+
+      if (to) {
+        await this.notifyRequester(ticket, note)
+      }
+      return ticket
+    } catch (error) {
+      logger.error(`Error moving support ticket to ${to}:`, error)
+      if (error instanceof BaseError) throw error
+      throw new Error('Failed to update support ticket')
+    }
+  }
+
+  // Requesters see their own tickets, suppliers tickets shared with them, admins all
+  private assertParty(ticket: SupportTicket, actor: TicketActor): void {
+    if (actor.actorRole === 'admin' || actor.actorRole === 'system') return
+    if (ticket.requesterId === actor.actorId) return
+    if (actor.actorRole === 'supplier' && ticket.supplierId === actor.actorId) return
+    throw new AuthorizationError('Ticket belongs to another user')
+  }
+
+  // The supplier a customer ticket should be shared with: the linked product's supplier,
+  // or the order's supplier when the whole order came from one seller
+  private async resolveSupplierId(userId: string, input: CreateTicketInput): Promise<string | undefined> {
+    if (input.orderId) {
+      const order = await orderService.getOrder(input.orderId)
+      if (!order) {
+        throw new NotFoundError('Order', input.orderId)
+      }
+      if (order.userId !== userId) {
+        throw new AuthorizationError('Order belongs to another customer')
+      }
+
+      const items = input.productId
+        ? order.items.filter(item => item.productId === input.productId)
+        : order.items
+      const supplierIds = Array.from(new Set(items.map(item => subOrderService.getItemSupplierId(item))))
+      return supplierIds.length === 1 ? supplierIds[0] : undefined
+    }
+
+    if (input.productId) {
+      const product = await productService.getProduct(input.productId)
+      if (!product) {
+        throw new NotFoundError('Product', input.productId)
+      }
+      return product.supplierId
+    }
+
+    return undefined
+  }
+
+  private validateTicket(input: CreateTicketInput): void {
+    const fieldErrors: Record<string, string[]> = {}
+
+    if (!input.subject.trim()) {
+      fieldErrors.subject = ['Please add a subject']
+    } else if (input.subject.trim().length > 150) {
+      fieldErrors.subject = ['Subject must be 150 characters or fewer']
+    }
+    if (!input.message.trim()) {
+      fieldErrors.message = ['Please describe the problem']
+    } else if (input.message.length > MAX_TICKET_MESSAGE_LENGTH) {
+      fieldErrors.message = [`At most ${MAX_TICKET_MESSAGE_LENGTH} characters`]
+    }
+    if (input.category === 'order' && !input.orderId) {
+      fieldErrors.orderId = ['Select the order this is about']
+    }
+
+    if (Object.keys(fieldErrors).length > 0) {
+      throw new ValidationError('Invalid support ticket', fieldErrors)
+    }
+  }
+
+  // Status emails are best effort; a mail outage shouldn't block the support team
+  private async notifyRequester(ticket: SupportTicket, note?: string): Promise<void> {
+    try {
+      await emailService.sendSupportTicketUpdate(
+        { email: ticket.requesterEmail, name: ticket.requesterName },
+        ticket,
+        note
+      )
+    } catch (error) {
+      logger.warn(`Failed to email status update for ticket ${ticket.ticketNumber}:`, error)
+    }
+  }
+
+  private toTicket(id: string, data: Record<string, any>): SupportTicket {
+    return {
+      ...data,
+      id,
+      messages: (data.messages || []).map((message: any) => ({
+        ...message,
+        createdAt: toDate(message.createdAt)
+      })),
+      statusHistory: (data.statusHistory || []).map((change: any) => ({
+        ...change,
+        changedAt: toDate(change.changedAt)
+      })),
+      slaBreached: !!data.slaBreached,
+      firstResponseDueAt: toDate(data.firstResponseDueAt)!,
+      resolutionDueAt: toDate(data.resolutionDueAt)!,
+      firstRespondedAt: toDate(data.firstRespondedAt),
+      escalatedAt: toDate(data.escalatedAt),
+      createdAt: toDate(data.createdAt)!,
+      updatedAt: toDate(data.updatedAt)!,
+      resolvedAt: toDate(data.resolvedAt),
+      closedAt: toDate(data.closedAt)
+    } as SupportTicket
+  }
+}
+
+export const supportService = new SupportService()
@@ -0,0 +1,80 @@
+import { SupportTicket, TicketPriority, TicketStatus, TicketStatusChange } from '@/types'
+
+// Allowed ticket status changes. Any active ticket can be escalated to admins or
+// resolved; a resolved ticket reopens if the requester replies and is closed for
+// good otherwise.
+const TICKET_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  open: ['in_progress', 'waiting', 'escalated', 'resolved', 'closed'],
+  in_progress: ['waiting', 'escalated', 'resolved', 'closed'],
+  waiting: ['in_progress', 'escalated', 'resolved', 'closed'],
+  escalated: ['in_progress', 'waiting', 'resolved', 'closed'],
+  resolved: ['open', 'closed'],
+  closed: []
+}
+
+// Statuses in which the SLA clock is running
+export const ACTIVE_TICKET_STATUSES: TicketStatus[] = ['open', 'in_progress', 'waiting', 'escalated']
+
+// Hours allowed for the first reply and for resolution, by priority
+export const TICKET_SLA_HOURS: Record<TicketPriority, { firstResponse: number; resolution: number }> = {
+  urgent: { firstResponse: 1, resolution: 8 },
+  high: { firstResponse: 4, resolution: 24 },
+  medium: { firstResponse: 8, resolution: 72 },
+  low: { firstResponse: 24, resolution: 120 }
+}
+
+export function canTransitionTicket(from: TicketStatus, to: TicketStatus): boolean {
+  return TICKET_TRANSITIONS[from].includes(to)
+}
+
+export function getSlaDeadlines(priority: TicketPriority, openedAt: Date): Pick<SupportTicket, 'firstResponseDueAt' | 'resolutionDueAt'> {
+  const hours = TICKET_SLA_HOURS[priority]
+  return {
+    firstResponseDueAt: new Date(openedAt.getTime() + hours.firstResponse * 60 * 60 * 1000),
+    resolutionDueAt: new Date(openedAt.getTime() + hours.resolution * 60 * 60 * 1000)
+  }
+}
+
+// Whether an active ticket has missed its first-response or resolution deadline
+export function isTicketOverdue(ticket: SupportTicket, now: Date = new Date()): boolean {
+  if (!ACTIVE_TICKET_STATUSES.includes(ticket.status)) return false
+  if (!ticket.firstRespondedAt && ticket.firstResponseDueAt.getTime() <= now.getTime()) return true
+  return ticket.resolutionDueAt.getTime() <= now.getTime()
+}
+
+// Move a ticket to a new status and append the change to its history.
+// Returns false (leaving the ticket untouched) if the state machine forbids it.
+export function transitionTicket(
+  ticket: SupportTicket,
+  to: TicketStatus,
+  actor: Pick<TicketStatusChange, 'actorId' | 'actorRole' | 'note'>
+): boolean {
+  if (!canTransitionTicket(ticket.status, to)) return false
+
+  const now = new Date()
+  ticket.status = to
+  ticket.updatedAt = now
+  ticket.statusHistory = [
+    ...ticket.statusHistory,
+    {
+      status: to,
+      actorId: actor.actorId,
+      actorRole: actor.actorRole,
+      ...(actor.note ? { note: actor.note } : {}),
+      changedAt: now
+    }
+  ]
+  if (to === 'escalated') {
+    ticket.escalatedAt = now
+  }
+  if (to === 'resolved') {
+    ticket.resolvedAt = now
+  }
+  if (to === 'closed') {
+    ticket.closedAt = now
+  }
+  if (to === 'open') {
+    ticket.resolvedAt = undefined
+  }
+  return true
+}
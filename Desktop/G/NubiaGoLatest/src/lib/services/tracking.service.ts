@@ -0,0 +1,333 @@
+import {
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  collection,
+  query,
+  where,
+  limit,
+  getDocs,
+  onSnapshot,
+  writeBatch
+} from 'firebase/firestore'
+import { db } from '@/lib/firebase/config'
+import { logger } from '@/lib/utils/logger'
+import { toDate } from '@/lib/utils/dates'
+import { OrderStatus, Shipment, ShipmentStatus, ShipmentTrackingEvent } from '@/types'
+import { AdminOrderService } from './admin/admin-order.service'
+import { notificationService } from './notification.service'
+import { getTrackingMilestone, isInCarrierHands, normalizeCarrierStatus, resolveShipmentStatus } from './shipping/tracking-status'
+import type { CarrierTrackingUpdate } from './shipping/tracking-webhooks'
+import { subOrderService } from './sub-order.service'
+
+export type ShipmentWithEvents = Shipment & { events: ShipmentTrackingEvent[] }
+
+export interface RecordUpdatesResult {
+  recorded: number
+  // Tracking numbers that match no order; carriers also push for parcels we did not ship
+  unknown: string[]
+}
+
+// Order statuses a shipment can still move forward
+const ORDER_PROGRESSION: OrderStatus[] = ['pending', 'confirmed', 'processing', 'shipped', 'delivered']
+
+const adminOrderService = new AdminOrderService()
+
+export class TrackingService {
+  private readonly COLLECTION_NAME = 'shipments'
+  private readonly EVENTS_SUBCOLLECTION = 'events'
+  private readonly ORDERS_COLLECTION = 'orders'
+  private readonly SUB_ORDERS_COLLECTION = 'sub_orders'
+
+  // Store carrier scans, recompute each shipment's status and move its order along.
+  // Events are keyed by time and carrier code, so a redelivered webhook changes nothing.
+  async recordUpdates(
+    carrier: string,
+    updates: CarrierTrackingUpdate[],
+    source: ShipmentTrackingEvent['source'] = 'webhook'
+  ): Promise<RecordUpdatesResult> {
+    const byTrackingNumber = new Map<string, CarrierTrackingUpdate[]>()
+    for (const update of updates) {
+      byTrackingNumber.set(update.trackingNumber, [...(byTrackingNumber.get(update.trackingNumber) || []), update])
+    }
+
+    const result: RecordUpdatesResult = { recorded: 0, unknown: [] }
+    for (const [trackingNumber, shipmentUpdates] of Array.from(byTrackingNumber.entries())) {
+      const shipment = await this.resolveShipment(carrier, trackingNumber)
+      if (!shipment) {
+        result.unknown.push(trackingNumber)
+        continue
+      }
+      await this.applyUpdates(shipment, carrier, shipmentUpdates, source)
+      result.recorded += shipmentUpdates.length
+    }
+    return result
+  }
+
+  // Get the shipments of an order with their event timelines, oldest event first.
+  // Pass the customer's ID to see only parcels addressed to them.
+  async getOrderShipments(orderId: string, userId?: string): Promise<ShipmentWithEvents[]> {
+    try {
+      let q = query(collection(db, this.COLLECTION_NAME), where('orderId', '==', orderId))
+      if (userId) {
+        q = query(q, where('userId', '==', userId))
+      }
+      const snapshot = await getDocs(q)
+      const shipments = snapshot.docs.map(shipmentDoc => this.toShipment(shipmentDoc.id, shipmentDoc.data()))
+
+      return Promise.all(shipments.map(async shipment => ({
+        ...shipment,
+        events: await this.getEvents(shipment.id)
+      })))
+    } catch (error) {
+      logger.error('Error fetching order shipments:', error)
+      throw new Error('Failed to fetch shipments')
+    }
+  }
+
+  // Listen to an order's shipments as carriers report in. Returns the unsubscribe function.
+  subscribeToOrderShipments(
+    orderId: string,
+    userId: string,
+    callback: (shipments: ShipmentWithEvents[]) => void
+  ): () => void {
+    try {
+      return onSnapshot(
+        query(
+          collection(db, this.COLLECTION_NAME),
+          where('orderId', '==', orderId),
+          where('userId', '==', userId)
+        ),
+        async (snapshot) => {
+          try {
+            const shipments = snapshot.docs.map(shipmentDoc => this.toShipment(shipmentDoc.id, shipmentDoc.data()))
+            callback(await Promise.all(shipments.map(async shipment => ({
+              ...shipment,
+              events: await this.getEvents(shipment.id)
+            }))))
+          } catch (error) {
+            logger.error('Error loading shipment events:', error)
+          }
+        },
+        (error) => {
+          logger.error('Error in shipment subscription:', error)
+        }
+      )
+    } catch (error) {
+      logger.error('Error setting up shipment subscription:', error)
+      return () => {}
+    }
+  }
+
+  // Find the shipment for a tracking number, creating it on the first scan. Labels
+  // land on sub-orders; older orders carry the tracking number on the order itself.
+  private async resolveShipment(carrier: string, trackingNumber: string): Promise<Shipment | null> {
+    try {
+      const shipmentId = `${carrier.toLowerCase().replace(/[^a-z0-9]/g, '')}_${trackingNumber.replace(/\//g, '')}`
+      const shipmentRef = doc(db, this.COLLECTION_NAME, shipmentId)
+      const shipmentDoc = await getDoc(shipmentRef)
+      if (shipmentDoc.exists()) {
+        return this.toShipment(shipmentDoc.id, shipmentDoc.data())
+      }
+
+      let owner: Pick<Shipment, 'carrier' | 'orderId' | 'subOrderId' | 'userId'> | null = null
+      const subOrders = await getDocs(query(
+        collection(db, this.SUB_ORDERS_COLLECTION),
+        where('trackingNumber', '==', trackingNumber),
+        limit(1)
+      ))
+      if (!subOrders.empty) {
+        const subOrder = subOrders.docs[0]
+        owner = {
+          // The label names the carrier the way customers know it
+          carrier: subOrder.data().shippingLabel?.carrier || carrier,
+          orderId: subOrder.data().parentOrderId,
+          subOrderId: subOrder.id,
+          userId: subOrder.data().userId
+        }
+      } else {
+        const orders = await getDocs(query(
+          collection(db, this.ORDERS_COLLECTION),
+          where('trackingNumber', '==', trackingNumber),
+          limit(1)
+        ))
+        if (!orders.empty) {
+          owner = { carrier, orderId: orders.docs[0].id, userId: orders.docs[0].data().userId }
+        }
+      }
+      if (!owner) {
+        return null
+      }
+
+      const now = new Date()
+      const shipment: Shipment = {
+        id: shipmentId,
+        trackingNumber,
+        ...owner,
+        status: 'label_created',
+        createdAt: now,
+        updatedAt: now
+      }
+      const { subOrderId, ...data } = shipment
+      await setDoc(shipmentRef, { ...data, ...(subOrderId ? { subOrderId } : {}) })
+      return shipment
+    } catch (error) {
+      logger.error('Error resolving shipment:', error)
+      throw new Error('Failed to resolve shipment')
+    }
+  }
+
+  private async applyUpdates(
+    shipment: Shipment,
+    carrier: string,
+    updates: CarrierTrackingUpdate[],
+    source: ShipmentTrackingEvent['source']
+  ): Promise<void> {
+    try {
+      const receivedAt = new Date()
+      const batch = writeBatch(db)
+      for (const update of updates) {
+        const status = normalizeCarrierStatus(carrier, update.carrierStatus, update.description)
+        const eventId = `${update.occurredAt.getTime()}_${status}_${update.carrierStatus.replace(/[^A-Za-z0-9-]/g, '')}`
+        batch.set(doc(db, this.COLLECTION_NAME, shipment.id, this.EVENTS_SUBCOLLECTION, eventId), {
+          status,
+          carrierStatus: update.carrierStatus,
+          description: update.description,
+          ...(update.location ? { location: update.location } : {}),
+          occurredAt: update.occurredAt,
+          source,
+          receivedAt
+        })
+      }
+      await batch.commit()
+
+      // Carriers resend and reorder scans, so the status comes from the whole timeline
+      const events = await this.getEvents(shipment.id)
+      const status = resolveShipmentStatus(events)
+      const lastEvent = events[events.length - 1]
+      const deliveredEvent = events.find(event => event.status === 'delivered')
+      const estimatedDelivery = updates
+        .map(update => update.estimatedDelivery)
+        .filter((date): date is Date => !!date)
+        .pop()
+
+      await updateDoc(doc(db, this.COLLECTION_NAME, shipment.id), {
+        status,
+        ...(lastEvent ? {
+          lastEvent: {
+            status: lastEvent.status,
+            description: lastEvent.description,
+            ...(lastEvent.location ? { location: lastEvent.location } : {}),
+            occurredAt: lastEvent.occurredAt
+          }
+        } : {}),
+        ...(estimatedDelivery ? { estimatedDelivery } : {}),
+        ...(deliveredEvent ? { deliveredAt: deliveredEvent.occurredAt } : {}),
+        updatedAt: receivedAt
+      })
+
+      if (status !== shipment.status) {
+        await this.advanceOrder(shipment, status, deliveredEvent?.occurredAt)
+
+        const milestone = getTrackingMilestone(shipment.status, status)
+        if (milestone) {
+          await this.notifyMilestone(shipment, milestone, lastEvent?.location, estimatedDelivery || shipment.estimatedDelivery)
+        }
+      }
+    } catch (error) {
+      logger.error('Error applying tracking updates:', error)
+      throw new Error('Failed to record tracking updates')
+    }
+  }
+
+  // Mark the order shipped once the carrier has the parcel and delivered when it arrives.
+  // Orders only move forward; a sub-order that was cancelled or already further along is left alone.
+  private async advanceOrder(shipment: Shipment, status: ShipmentStatus, deliveredAt?: Date): Promise<void> {
+    const target: OrderStatus | null = status === 'delivered'
+      ? 'delivered'
+      : isInCarrierHands(status) && status !== 'returned' ? 'shipped' : null
+    if (!target) return
+
+    const isBehind = (current: OrderStatus) =>
+      current !== 'cancelled' && ORDER_PROGRESSION.indexOf(current) < ORDER_PROGRESSION.indexOf(target)
+
+    if (shipment.subOrderId) {
+      const subOrder = await subOrderService.getSubOrder(shipment.subOrderId)
+      if (!subOrder || !isBehind(subOrder.status)) return
+
+      await subOrderService.updateSubOrderStatus(subOrder.id, target, shipment.trackingNumber)
+
+      // The parent is delivered once its last parcel is; record when that parcel arrived
+      const orderRef = doc(db, this.ORDERS_COLLECTION, shipment.orderId)
+      const orderDoc = await getDoc(orderRef)
+      if (target === 'delivered' && orderDoc.data()?.status === 'delivered' && !orderDoc.data()?.actualDelivery) {
+        await updateDoc(orderRef, { actualDelivery: deliveredAt || new Date() })
+      }
+      return
+    }
+
+    const orderDoc = await getDoc(doc(db, this.ORDERS_COLLECTION, shipment.orderId))
+    if (!orderDoc.exists() || !isBehind(orderDoc.data().status)) return
+
+    await adminOrderService.updateOrderStatus(
+      shipment.orderId,
+      target,
+      'system',
+      `${shipment.carrier} reported the parcel ${target}`,
+      shipment.trackingNumber
+    )
+  }
+
+  // Notification failures never fail the webhook; the timeline is already stored
+  private async notifyMilestone(
+    shipment: Shipment,
+    status: ShipmentStatus,
+    location?: string,
+    estimatedDelivery?: Date
+  ): Promise<void> {
+    try {
+      await notificationService.publish({
+        type: 'shipment_update',
+        userId: shipment.userId,
+        orderId: shipment.orderId,
+        carrier: shipment.carrier,
+        trackingNumber: shipment.trackingNumber,
+        status,
+        location,
+        estimatedDelivery
+      })
+    } catch (error) {
+      logger.error('Error sending shipment notification:', error)
+    }
+  }
+
+  private async getEvents(shipmentId: string): Promise<ShipmentTrackingEvent[]> {
+    const snapshot = await getDocs(collection(db, this.COLLECTION_NAME, shipmentId, this.EVENTS_SUBCOLLECTION))
+    return snapshot.docs
+      .map(eventDoc => {
+        const data = eventDoc.data()
+        return {
+          ...data,
+          id: eventDoc.id,
+          occurredAt: toDate(data.occurredAt) || new Date(0),
+          receivedAt: toDate(data.receivedAt) || new Date(0)
+        } as ShipmentTrackingEvent
+      })
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime())
+  }
+
+  private toShipment(id: string, data: Record<string, any>): Shipment {
+    return {
+      ...data,
+      id,
+      lastEvent: data.lastEvent ? { ...data.lastEvent, occurredAt: toDate(data.lastEvent.occurredAt) } : undefined,
+      estimatedDelivery: toDate(data.estimatedDelivery),
+      deliveredAt: toDate(data.deliveredAt),
+      createdAt: toDate(data.createdAt) || new Date(),
+      updatedAt: toDate(data.updatedAt) || new Date()
+    } as Shipment
+  }
+}
+
+export const trackingService = new TrackingService()
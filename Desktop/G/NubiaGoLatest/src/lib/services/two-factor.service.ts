@@ -0,0 +1,348 @@
+import { FieldValue } from 'firebase-admin/firestore'
+import { adminDb } from '@/lib/firebase/admin'
+import { AuthenticationError, BaseError, ConflictError, RateLimitError, ValidationError } from '@/lib/errors'
+import { logger } from '@/lib/utils/logger'
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  normalizeRecoveryCode,
+  totpProvisioningUri,
+  verifyTotp
+} from '@/lib/auth/totp'
+import { TwoFactorPolicy, TwoFactorStatus, User } from '@/types'
+import { auditService } from './audit.service'
+
+// Server-only: runs on firebase-admin so secrets and recovery codes never pass through
+// client rules. Not exported from the services index because it depends on firebase-admin.
+
+// Stored per user in the two_factor collection, never sent to the browser
+interface TwoFactorRecord {
+  enabled: boolean
+  secret?: string
+  // Secret from an enrollment that hasn't been confirmed with a code yet
+  pendingSecret?: string
+  recoveryCodeHashes: string[]
+  // Last TOTP time step accepted, so a code can't be used twice
+  lastUsedStep?: number
+  // Wrong codes in a row; reaching MAX_FAILED_ATTEMPTS locks verification
+  failedAttempts?: number
+  lockedUntil?: Date
+  enabledAt?: Date
+}
+
+// The signed-in user, as API routes see them
+export interface TwoFactorUser {
+  uid: string
+  email: string
+  role: string
+}
+
+export interface TwoFactorEnrollment {
+  secret: string
+  otpauthUri: string
+}
+
+const POLICY_CACHE_MS = 5 * 60 * 1000
+// Whether a user has 2FA on is checked on every API call, so it is cached briefly
+const STATUS_CACHE_MS = 60 * 1000
+
+// The route is also rate limited per IP; this stops guessing spread across addresses
+const MAX_FAILED_ATTEMPTS = 5
+const LOCKOUT_MS = 15 * 60 * 1000
+
+const DEFAULT_POLICY: TwoFactorPolicy = { requiredRoles: [] }
+const ENFORCEABLE_ROLES: Array<User['role']> = ['admin', 'supplier']
+
+export class TwoFactorService {
+  private readonly TWO_FACTOR_COLLECTION = 'two_factor'
+  private readonly SETTINGS_COLLECTION = 'security_settings'
+  private readonly POLICY_DOCUMENT = 'two_factor_policy'
+  private cachedPolicy?: { policy: TwoFactorPolicy; loadedAt: number }
+  private enabledCache = new Map<string, { enabled: boolean; loadedAt: number }>()
+
+  // Roles an admin has made 2FA mandatory for
+  async getPolicy(): Promise<TwoFactorPolicy> {
+    if (this.cachedPolicy && Date.now() - this.cachedPolicy.loadedAt < POLICY_CACHE_MS) {
+      return this.cachedPolicy.policy
+    }
+
+    try {
+      const policyDoc = await adminDb.collection(this.SETTINGS_COLLECTION).doc(this.POLICY_DOCUMENT).get()
+      const data = policyDoc.data() || {}
+      const policy: TwoFactorPolicy = {
+        ...DEFAULT_POLICY,
+        ...data,
+        requiredRoles: Array.isArray(data.requiredRoles) ? data.requiredRoles : [],
+        updatedAt: data.updatedAt?.toDate?.() || data.updatedAt
+      }
+      this.cachedPolicy = { policy, loadedAt: Date.now() }
+      return policy
+    } catch (error) {
+      logger.error('Error loading two-factor policy:', error)
+      throw new Error('Failed to load two-factor policy')
+    }
+  }
+
+  // Set which roles must use 2FA. Only admin and supplier accounts can be forced.
+  async updatePolicy(requiredRoles: Array<User['role']>, adminId: string): Promise<TwoFactorPolicy> {
+    if (!Array.isArray(requiredRoles) || requiredRoles.some(role => !ENFORCEABLE_ROLES.includes(role))) {
+      throw new ValidationError('Invalid two-factor policy', {
+        requiredRoles: [`Roles must be from: ${ENFORCEABLE_ROLES.join(', ')}`]
+      })
+    }
+
+    try {
+      const policy: TwoFactorPolicy = {
+        requiredRoles: ENFORCEABLE_ROLES.filter(role => requiredRoles.includes(role)),
+        updatedAt: new Date(),
+        updatedBy: adminId
+      }
+      await adminDb.collection(this.SETTINGS_COLLECTION).doc(this.POLICY_DOCUMENT).set(policy)
+      this.cachedPolicy = { policy, loadedAt: Date.now() }
+      return policy
+    } catch (error) {
+      logger.error('Error saving two-factor policy:', error)
+      throw new Error('Failed to save two-factor policy')
+    }
+  }
+
+  // Whether the user must present a second factor: their role requires it, or they
+  // turned it on themselves
+  async isRequired(uid: string, role: string): Promise<boolean> {
+    if (await this.isRequiredForRole(role)) return true
+    return this.isEnabled(uid)
+  }
+
+  // Whether the user has turned 2FA on, cached briefly since every API call asks
+  async isEnabled(uid: string): Promise<boolean> {
+    const cached = this.enabledCache.get(uid)
+    if (cached && Date.now() - cached.loadedAt < STATUS_CACHE_MS) {
+      return cached.enabled
+    }
+    const enabled = (await this.getRecord(uid)).enabled
+    this.enabledCache.set(uid, { enabled, loadedAt: Date.now() })
+    return enabled
+  }
+
+  async isRequiredForRole(role: string): Promise<boolean> {
+    const policy = await this.getPolicy()
+    return policy.requiredRoles.includes(role as User['role'])
+  }
+
+  async getStatus(user: TwoFactorUser, verified: boolean): Promise<TwoFactorStatus> {
+    const [record, required] = await Promise.all([this.getRecord(user.uid), this.isRequiredForRole(user.role)])
+    return {
+      enabled: record.enabled,
+      required,
+      verified,
+      recoveryCodesRemaining: record.enabled ? record.recoveryCodeHashes.length : 0
+    }
+  }
+
+  // Generate a secret for the user's authenticator app. 2FA stays off until a code
+  // from the app is confirmed.
+  async startEnrollment(user: TwoFactorUser): Promise<TwoFactorEnrollment> {
+    const record = await this.getRecord(user.uid)
+    if (record.enabled) {
+      throw new ConflictError('Two-factor authentication is already enabled')
+    }
+
+    try {
+      const secret = generateTotpSecret()
+      await this.recordRef(user.uid).set({ pendingSecret: secret }, { merge: true })
+      return { secret, otpauthUri: totpProvisioningUri(secret, user.email) }
+    } catch (error) {
+      logger.error('Error starting two-factor enrollment:', error)
+      throw new Error('Failed to start two-factor enrollment')
+    }
+  }
+
+  // Turn 2FA on once the user proves their app produces codes. Returns the recovery
+  // codes, which are only ever shown this once.
+  async confirmEnrollment(user: TwoFactorUser, code: string): Promise<string[]> {
+    const { uid } = user
+    const record = await this.getRecord(uid)
+    if (record.enabled) {
+      throw new ConflictError('Two-factor authentication is already enabled')
+    }
+    if (!record.pendingSecret) {
+      throw new ValidationError('Start enrollment before confirming a code')
+    }
+
+    const step = await verifyTotp(record.pendingSecret, code)
+    if (step === null) {
+      throw new ValidationError('Invalid verification code', { code: ['Code does not match your authenticator app'] })
+    }
+
+    try {
+      const recoveryCodes = generateRecoveryCodes()
+      await this.recordRef(uid).set({
+        enabled: true,
+        secret: record.pendingSecret,
+        pendingSecret: FieldValue.delete(),
+        recoveryCodeHashes: await Promise.all(recoveryCodes.map(recovery => hashRecoveryCode(uid, recovery))),
+        lastUsedStep: step,
+        enabledAt: new Date()
+      }, { merge: true })
+      this.enabledCache.set(uid, { enabled: true, loadedAt: Date.now() })
+      await this.logEvent(user, 'two_factor_enabled')
+      return recoveryCodes
+    } catch (error) {
+      logger.error('Error confirming two-factor enrollment:', error)
+      throw new Error('Failed to enable two-factor authentication')
+    }
+  }
+
+  // Check a sign-in's second factor: an authenticator code, or an unused recovery code
+  // which is then spent. The record is read and updated in one transaction so two
+  // requests can't both use the same code, and wrong codes count towards a lockout.
+  async verifyCode(user: TwoFactorUser, code: string): Promise<'totp' | 'recovery'> {
+    const { uid } = user
+    const recordRef = this.recordRef(uid)
+    try {
+      const outcome = await adminDb.runTransaction(async (transaction) => {
+        const record = this.toRecord((await transaction.get(recordRef)).data())
+        if (!record.enabled || !record.secret) {
+          throw new ValidationError('Two-factor authentication is not enabled')
+        }
+        if (record.lockedUntil && record.lockedUntil.getTime() > Date.now()) {
+          return { result: 'locked' as const, lockedUntil: record.lockedUntil }
+        }
+
+        const step = await verifyTotp(record.secret, code)
+        if (step !== null) {
+          if (record.lastUsedStep !== undefined && step <= record.lastUsedStep) {
+            return { result: 'replayed' as const }
+          }
+          transaction.update(recordRef, { lastUsedStep: step, failedAttempts: 0, lockedUntil: FieldValue.delete() })
+          return { result: 'totp' as const }
+        }
+
+        if (normalizeRecoveryCode(code).length > 0) {
+          const hash = await hashRecoveryCode(uid, code)
+          if (record.recoveryCodeHashes.includes(hash)) {
+            transaction.update(recordRef, {
+              recoveryCodeHashes: record.recoveryCodeHashes.filter(existing => existing !== hash),
+              failedAttempts: 0,
+              lockedUntil: FieldValue.delete()
+            })
+            return { result: 'recovery' as const }
+          }
+        }
+
+        // An expired lock starts a fresh count
+        const failedAttempts = (record.lockedUntil ? 0 : record.failedAttempts || 0) + 1
+        if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+          const lockedUntil = new Date(Date.now() + LOCKOUT_MS)
+          transaction.update(recordRef, { failedAttempts, lockedUntil })
+          return { result: 'locked' as const, lockedUntil }
+        }
+        transaction.update(recordRef, { failedAttempts, lockedUntil: FieldValue.delete() })
+        return { result: 'invalid' as const }
+      })
+
+      switch (outcome.result) {
+        case 'totp':
+          return 'totp'
+        case 'recovery':
+          await this.logEvent(user, 'two_factor_recovery_code_used')
+          return 'recovery'
+        case 'replayed':
+          throw new AuthenticationError('This code was already used. Wait for the next one.')
+        case 'locked':
+          await this.logEvent(user, 'two_factor_locked', false)
+          throw new RateLimitError(Math.ceil((outcome.lockedUntil.getTime() - Date.now()) / 1000), { uid })
+        default:
+          await this.logEvent(user, 'two_factor_failed', false)
+          throw new AuthenticationError('Invalid verification code')
+      }
+    } catch (error) {
+      if (error instanceof BaseError) throw error
+      logger.error('Error verifying two-factor code:', error)
+      throw new Error('Failed to verify two-factor code')
+    }
+  }
+
+  // Replace all recovery codes; needs a current code so a hijacked session can't do it
+  async regenerateRecoveryCodes(user: TwoFactorUser, code: string): Promise<string[]> {
+    const { uid } = user
+    await this.verifyCode(user, code)
+
+    try {
+      const recoveryCodes = generateRecoveryCodes()
+      await this.recordRef(uid).update({
+        recoveryCodeHashes: await Promise.all(recoveryCodes.map(recovery => hashRecoveryCode(uid, recovery)))
+      })
+      await this.logEvent(user, 'two_factor_recovery_codes_regenerated')
+      return recoveryCodes
+    } catch (error) {
+      logger.error('Error regenerating recovery codes:', error)
+      throw new Error('Failed to regenerate recovery codes')
+    }
+  }
+
+  // Turn 2FA off, unless the user's role requires it
+  async disable(user: TwoFactorUser, code: string): Promise<void> {
+    const { uid } = user
+    if (await this.isRequiredForRole(user.role)) {
+      throw new ConflictError('Two-factor authentication is required for your account')
+    }
+    await this.verifyCode(user, code)
+
+    try {
+      await this.recordRef(uid).set({
+        enabled: false,
+        secret: FieldValue.delete(),
+        pendingSecret: FieldValue.delete(),
+        recoveryCodeHashes: [],
+        lastUsedStep: FieldValue.delete()
+      }, { merge: true })
+      this.enabledCache.set(uid, { enabled: false, loadedAt: Date.now() })
+      await this.logEvent(user, 'two_factor_disabled')
+    } catch (error) {
+      logger.error('Error disabling two-factor authentication:', error)
+      throw new Error('Failed to disable two-factor authentication')
+    }
+  }
+
+  private async getRecord(uid: string): Promise<TwoFactorRecord> {
+    try {
+      const recordDoc = await this.recordRef(uid).get()
+      return this.toRecord(recordDoc.data())
+    } catch (error) {
+      logger.error('Error loading two-factor record:', error)
+      throw new Error('Failed to load two-factor settings')
+    }
+  }
+
+  private recordRef(uid: string) {
+    return adminDb.collection(this.TWO_FACTOR_COLLECTION).doc(uid)
+  }
+
+  private toRecord(data: Record<string, any> = {}): TwoFactorRecord {
+    return {
+      ...data,
+      enabled: data.enabled === true,
+      recoveryCodeHashes: Array.isArray(data.recoveryCodeHashes) ? data.recoveryCodeHashes : [],
+      lockedUntil: data.lockedUntil?.toDate?.() || data.lockedUntil
+    }
+  }
+
+  private async logEvent(user: TwoFactorUser, action: string, success: boolean = true): Promise<void> {
+    try {
+      await auditService.logEvent({
+        action,
+        userId: user.uid,
+        userEmail: user.email,
+        userRole: user.role,
+        details: {},
+        success
+      })
+    } catch (error) {
+      logger.error('Error logging two-factor event:', error)
+    }
+  }
+}
+
+export const twoFactorService = new TwoFactorService()
@@ -1,16 +1,16 @@
 import { type ClassValue, clsx } from 'clsx'
 import { twMerge } from 'tailwind-merge'
+import { formatCurrency, formatPrice as formatDisplayPrice } from './formatting'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
 // Utility functions for formatting
-export function formatPrice(price: number, currency: string = 'USD'): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-  }).format(price)
+// Without a currency, the price is taken as a base-currency catalog price and shown in
+// the shopper's currency
+export function formatPrice(price: number, currency?: string): string {
+  return currency ? formatCurrency(price, currency) : formatDisplayPrice(price)
 }
 
 export function formatDate(date: Date | string): string {
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import { RateLimitPolicy, rateLimitHeaders } from '../rate-limit/algorithms'
+import { MemoryRateLimitStore, RateLimitStore } from '../rate-limit/store'
+import { RedisRateLimitStore } from '../rate-limit/redis-store'
+import { rateLimit, rateLimitIdentity, setApiKeyLookup, setRateLimitStore } from '../rate-limiter'
+
+const slidingLog: RateLimitPolicy = { algorithm: 'sliding-log', limit: 3, windowMs: 60 * 1000 }
+const tokenBucket: RateLimitPolicy = { algorithm: 'token-bucket', limit: 4, windowMs: 60 * 1000 }
+const START = 1_700_000_000_000
+
+// The same behaviour is expected from every store
+function describeStore(name: string, createStore: () => RateLimitStore, cleanup?: (store: RateLimitStore) => void) {
+  describe(name, () => {
+    let store: RateLimitStore
+    let key: string
+
+    beforeEach(() => {
+      store = createStore()
+      key = `test:${Math.random().toString(36).slice(2)}`
+    })
+
+    afterEach(async () => {
+      await store.reset(key)
+      cleanup?.(store)
+    })
+
+    it('allows up to the limit within a sliding window, then refuses', async () => {
+      const results = []
+      for (let i = 0; i < 4; i++) {
+        results.push(await store.consume(key, slidingLog, START + i * 1000))
+      }
+
+      expect(results.map(result => result.success)).toEqual([true, true, true, false])
+      expect(results.map(result => result.remaining)).toEqual([2, 1, 0, 0])
+      // The first request leaves the window 60s after it was made
+      expect(results[3].retryAfter).toBe(57)
+    })
+
+    it('lets requests through again as old ones leave the window', async () => {
+      for (let i = 0; i < 3; i++) {
+        await store.consume(key, slidingLog, START + i * 1000)
+      }
+
+      expect((await store.consume(key, slidingLog, START + 60 * 1000 - 1)).success).toBe(false)
+      expect((await store.consume(key, slidingLog, START + 60 * 1000)).success).toBe(true)
+    })
+
+    it('allows a burst up to the bucket size and refills over the window', async () => {
+      const burst = []
+      for (let i = 0; i < 5; i++) {
+        burst.push(await store.consume(key, tokenBucket, START))
+      }
+      expect(burst.map(result => result.success)).toEqual([true, true, true, true, false])
+      // One token comes back every 15s
+      expect(burst[4].retryAfter).toBe(15)
+
+      expect((await store.consume(key, tokenBucket, START + 14 * 1000)).success).toBe(false)
+      expect((await store.consume(key, tokenBucket, START + 16 * 1000)).success).toBe(true)
+    })
+
+    it('forgets a key on reset', async () => {
+      for (let i = 0; i < 3; i++) {
+        await store.consume(key, slidingLog, START)
+      }
+      await store.reset(key)
+
+      expect((await store.consume(key, slidingLog, START)).remaining).toBe(2)
+    })
+  })
+}
+
+describeStore('MemoryRateLimitStore', () => new MemoryRateLimitStore())
+
+// Runs against a real server when one is available, e.g. REDIS_URL=redis://localhost:6379
+if (process.env.REDIS_URL) {
+  describeStore(
+    'RedisRateLimitStore',
+    () => new RedisRateLimitStore(process.env.REDIS_URL!),
+    store => (store as RedisRateLimitStore).close()
+  )
+}
+
+describe('rateLimitHeaders', () => {
+  it('reports the policy and remaining allowance, with Retry-After once refused', async () => {
+    const store = new MemoryRateLimitStore()
+    const allowed = await store.consume('headers', slidingLog, START)
+    expect(rateLimitHeaders(allowed, slidingLog, START)).toEqual({
+      'RateLimit-Limit': '3',
+      'RateLimit-Remaining': '2',
+      'RateLimit-Reset': '60',
+      'RateLimit-Policy': '3;w=60'
+    })
+
+    await store.consume('headers', slidingLog, START)
+    await store.consume('headers', slidingLog, START)
+    const refused = await store.consume('headers', slidingLog, START + 10 * 1000)
+    expect(rateLimitHeaders(refused, slidingLog, START + 10 * 1000)['Retry-After']).toBe('50')
+  })
+})
+
+describe('rateLimitIdentity', () => {
+  const ISSUED_KEY = 'issued-key-for-partner'
+  const CLIENT_IP = '203.0.113.7'
+
+  const request = (apiKey?: string) => new Request('https://shop.example.com/api/products', {
+    headers: { 'x-forwarded-for': `${CLIENT_IP}, 10.0.0.1`, ...(apiKey ? { 'x-api-key': apiKey } : {}) }
+  })
+
+  beforeEach(async () => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(ISSUED_KEY))
+    const issuedHash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+    setApiKeyLookup(async keyHash => keyHash === issuedHash ? 'partner' : undefined)
+    setRateLimitStore(new MemoryRateLimitStore())
+  })
+
+  it('counts an issued API key against the client it belongs to', async () => {
+    expect(await rateLimitIdentity(request(ISSUED_KEY), 'user-1')).toBe('api-key:partner')
+  })
+
+  it('ignores unknown API keys and falls back to the user, then the IP', async () => {
+    expect(await rateLimitIdentity(request('made-up'), 'user-1')).toBe('user:user-1')
+    expect(await rateLimitIdentity(request('made-up'))).toBe(`ip:${CLIENT_IP}`)
+    expect(await rateLimitIdentity(request(ISSUED_KEY), 'user-1', 'user')).toBe('user:user-1')
+  })
+
+  it('does not reset the limit when the API key header changes on every request', async () => {
+    const results = []
+    for (let i = 0; i < 4; i++) {
+      const identity = await rateLimitIdentity(request(`rotated-${i}`))
+      results.push(await rateLimit(`route:/api/products:${identity}`, 3, 60 * 1000))
+    }
+
+    expect(results.map(result => result.success)).toEqual([true, true, true, false])
+  })
+})
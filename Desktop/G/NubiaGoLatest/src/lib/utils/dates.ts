@@ -0,0 +1,11 @@
+// Firestore timestamps from either SDK expose toDate(); dates that went through JSON
+// (API responses, cached state) arrive as ISO strings or epoch milliseconds
+export type DateLike = { toDate(): Date } | Date | string | number | null | undefined
+
+// Read a stored date field as a Date, or undefined when the field is not set
+export function toDate(value: DateLike): Date | undefined {
+  if (value === null || value === undefined || value === '') return undefined
+  if (value instanceof Date) return value
+  if (typeof value === 'object' && typeof value.toDate === 'function') return value.toDate()
+  return new Date(value as string | number)
+}
@@ -0,0 +1,123 @@
+// Rate limit algorithms as pure state transitions, so every store applies them the same
+// way: the in-memory and Firestore stores run these directly, the Redis store mirrors
+// them in Lua.
+
+export type RateLimitAlgorithm = 'sliding-log' | 'token-bucket'
+
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm
+  // Requests allowed per window. For token-bucket this is the bucket size, refilled
+  // evenly over the window, so short bursts are allowed but the average is held.
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  success: boolean
+  limit: number
+  remaining: number
+  // When the full allowance is back (ms since epoch)
+  resetTime: number
+  // Seconds until a request would be allowed, set when this one wasn't
+  retryAfter?: number
+}
+
+// Timestamps of the requests allowed within the window, oldest first
+export interface SlidingLogState {
+  log: number[]
+}
+
+export interface TokenBucketState {
+  tokens: number
+  updatedAt: number
+}
+
+export type RateLimitState = SlidingLogState | TokenBucketState
+
+const secondsUntil = (time: number, now: number): number =>
+  Math.max(1, Math.ceil((time - now) / 1000))
+
+export function slidingLogResult(
+  policy: RateLimitPolicy,
+  now: number,
+  success: boolean,
+  count: number,
+  oldest: number,
+  newest: number
+): RateLimitResult {
+  return {
+    success,
+    limit: policy.limit,
+    remaining: Math.max(0, policy.limit - count),
+    resetTime: (count > 0 ? newest : now) + policy.windowMs,
+    retryAfter: success ? undefined : secondsUntil(oldest + policy.windowMs, now)
+  }
+}
+
+// Exact: a request is allowed if fewer than `limit` were allowed in the last window
+export function applySlidingLog(
+  state: SlidingLogState | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): { state: SlidingLogState; result: RateLimitResult } {
+  const log = (state?.log || []).filter(time => time > now - policy.windowMs)
+  const success = log.length < policy.limit
+  if (success) log.push(now)
+  return {
+    state: { log },
+    result: slidingLogResult(policy, now, success, log.length, log[0], log[log.length - 1])
+  }
+}
+
+export function tokenBucketResult(policy: RateLimitPolicy, now: number, success: boolean, tokens: number): RateLimitResult {
+  const msPerToken = policy.windowMs / policy.limit
+  return {
+    success,
+    limit: policy.limit,
+    remaining: Math.floor(tokens),
+    resetTime: now + Math.ceil((policy.limit - tokens) * msPerToken),
+    retryAfter: success ? undefined : secondsUntil(now + (1 - tokens) * msPerToken, now)
+  }
+}
+
+export function applyTokenBucket(
+  state: TokenBucketState | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): { state: TokenBucketState; result: RateLimitResult } {
+  const available = state
+    ? Math.min(policy.limit, state.tokens + Math.max(0, now - state.updatedAt) * policy.limit / policy.windowMs)
+    : policy.limit
+  const success = available >= 1
+  const tokens = success ? available - 1 : available
+  return {
+    state: { tokens, updatedAt: now },
+    result: tokenBucketResult(policy, now, success, tokens)
+  }
+}
+
+// State left by a different algorithm (the policy for a key changed) is ignored
+export function applyRateLimit(
+  state: RateLimitState | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): { state: RateLimitState; result: RateLimitResult } {
+  if (policy.algorithm === 'token-bucket') {
+    return applyTokenBucket(state && 'tokens' in state ? state : undefined, policy, now)
+  }
+  return applySlidingLog(state && 'log' in state ? state : undefined, policy, now)
+}
+
+// RateLimit-* fields from the IETF rate limit headers draft, plus Retry-After on denials
+export function rateLimitHeaders(result: RateLimitResult, policy: RateLimitPolicy, now: number = Date.now()): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(Math.max(0, Math.ceil((result.resetTime - now) / 1000))),
+    'RateLimit-Policy': `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`
+  }
+  if (result.retryAfter !== undefined) {
+    headers['Retry-After'] = String(result.retryAfter)
+  }
+  return headers
+}
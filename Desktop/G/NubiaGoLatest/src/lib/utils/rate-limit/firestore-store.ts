@@ -0,0 +1,44 @@
+import { adminDb } from '@/lib/firebase/admin'
+import { logger } from '@/lib/utils/logger'
+import { RateLimitPolicy, RateLimitResult, RateLimitState, applyRateLimit } from './algorithms'
+import { RateLimitStore } from './store'
+
+// Server-only: one document per key, updated in a transaction. Give the collection a
+// TTL policy on `expiresAt` so idle keys are cleaned up. Each key is a single document,
+// so this suits per-user and per-IP limits rather than one very hot global key.
+export class FirestoreRateLimitStore implements RateLimitStore {
+  private readonly COLLECTION_NAME = 'rate_limits'
+
+  async consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult> {
+    const ref = adminDb.collection(this.COLLECTION_NAME).doc(this.docId(key))
+
+    try {
+      return await adminDb.runTransaction(async transaction => {
+        const snapshot = await transaction.get(ref)
+        const stored = snapshot.exists ? snapshot.data() as { state: RateLimitState; expiresAt: { toMillis(): number } } : null
+        const current = stored && stored.expiresAt.toMillis() > now ? stored.state : undefined
+
+        const { state, result } = applyRateLimit(current, policy, now)
+        transaction.set(ref, { state, expiresAt: new Date(now + policy.windowMs) })
+        return result
+      })
+    } catch (error) {
+      logger.error('Error updating rate limit:', error)
+      throw new Error('Failed to update rate limit')
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    try {
+      await adminDb.collection(this.COLLECTION_NAME).doc(this.docId(key)).delete()
+    } catch (error) {
+      logger.error('Error resetting rate limit:', error)
+      throw new Error('Failed to reset rate limit')
+    }
+  }
+
+  // Keys contain characters such as '/' that Firestore doesn't allow in document ids
+  private docId(key: string): string {
+    return encodeURIComponent(key)
+  }
+}
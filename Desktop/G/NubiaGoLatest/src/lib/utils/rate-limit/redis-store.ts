@@ -0,0 +1,256 @@
+import { Socket, connect as connectTcp } from 'net'
+import { connect as connectTls } from 'tls'
+import { RateLimitPolicy, RateLimitResult, slidingLogResult, tokenBucketResult } from './algorithms'
+import { RateLimitStore } from './store'
+
+// Server-only store for anything that speaks the Redis protocol (Redis, Valkey, KeyDB,
+// managed services via rediss://). Each algorithm runs as a Lua script, so a request is
+// counted atomically however many instances share the server.
+
+type RespReply = string | number | null | Error | RespReply[]
+
+// Matches applySlidingLog: allowed requests are kept as sorted-set members scored by time
+const SLIDING_LOG_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local newest = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+return {allowed, count, oldest[2] or ARGV[1], newest[2] or ARGV[1]}
+`
+
+// Matches applyTokenBucket. Tokens are fractional, so they travel as strings.
+const TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = limit
+if bucket[1] then
+  tokens = math.min(limit, tonumber(bucket[1]) + math.max(0, now - tonumber(bucket[2])) * limit / window)
+end
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', ARGV[1])
+redis.call('PEXPIRE', KEYS[1], window)
+return {allowed, tostring(tokens)}
+`
+
+const KEY_PREFIX = 'ratelimit:'
+const COMMAND_TIMEOUT_MS = 2000
+
+function encodeCommand(args: Array<string | number>): string {
+  return `*${args.length}\r\n` + args.map(arg => {
+    const value = String(arg)
+    return `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+  }).join('')
+}
+
+// One reply from the start of the buffer, or null if it hasn't fully arrived
+function parseReply(buffer: Buffer, start: number): { reply: RespReply; end: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', start)
+  if (lineEnd === -1) return null
+  const type = String.fromCharCode(buffer[start])
+  const line = buffer.toString('utf8', start + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case '+':
+      return { reply: line, end: next }
+    case '-':
+      return { reply: new Error(line), end: next }
+    case ':':
+      return { reply: Number(line), end: next }
+    case '$': {
+      const length = Number(line)
+      if (length === -1) return { reply: null, end: next }
+      if (buffer.length < next + length + 2) return null
+      return { reply: buffer.toString('utf8', next, next + length), end: next + length + 2 }
+    }
+    case '*': {
+      const count = Number(line)
+      if (count === -1) return { reply: null, end: next }
+      const items: RespReply[] = []
+      let offset = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, offset)
+        if (!item) return null
+        items.push(item.reply)
+        offset = item.end
+      }
+      return { reply: items, end: offset }
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type '${type}'`)
+  }
+}
+
+// Minimal pipelined client: replies arrive in command order, so each one settles the
+// oldest waiting command. Any error or timeout drops the connection, and the next
+// command reconnects.
+export class RedisConnection {
+  private socket: Socket | null = null
+  private connecting: Promise<Socket> | null = null
+  private buffer = Buffer.alloc(0)
+  private waiting: Array<{ resolve: (reply: RespReply) => void; reject: (error: Error) => void }> = []
+
+  constructor(private readonly url: string, private readonly timeoutMs: number = COMMAND_TIMEOUT_MS) {}
+
+  async command(args: Array<string | number>): Promise<RespReply> {
+    const socket = await this.connect()
+    return this.send(socket, args)
+  }
+
+  close(): void {
+    this.socket?.end()
+    this.drop(new Error('Redis connection closed'))
+  }
+
+  private send(socket: Socket, args: Array<string | number>): Promise<RespReply> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.drop(new Error(`Redis command ${args[0]} timed out`))
+      }, this.timeoutMs)
+      this.waiting.push({
+        resolve: reply => { clearTimeout(timer); resolve(reply) },
+        reject: error => { clearTimeout(timer); reject(error) }
+      })
+      socket.write(encodeCommand(args))
+    })
+  }
+
+  private connect(): Promise<Socket> {
+    if (this.socket) return Promise.resolve(this.socket)
+    if (!this.connecting) {
+      this.connecting = this.open().then(
+        socket => {
+          this.connecting = null
+          return socket
+        },
+        error => {
+          this.connecting = null
+          throw error
+        }
+      )
+    }
+    return this.connecting
+  }
+
+  private async open(): Promise<Socket> {
+    const url = new URL(this.url)
+    const secure = url.protocol === 'rediss:'
+    const options = { host: url.hostname, port: Number(url.port) || 6379 }
+
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const pending = secure ? connectTls({ ...options, servername: url.hostname }) : connectTcp(options)
+      const timer = setTimeout(() => {
+        pending.destroy()
+        reject(new Error('Redis connection timed out'))
+      }, this.timeoutMs)
+      pending.once(secure ? 'secureConnect' : 'connect', () => {
+        clearTimeout(timer)
+        resolve(pending)
+      })
+      pending.once('error', error => {
+        clearTimeout(timer)
+        reject(error)
+      })
+    })
+
+    socket.on('data', chunk => this.receive(chunk))
+    socket.on('error', error => this.drop(error))
+    socket.on('close', () => this.drop(new Error('Redis connection closed')))
+    this.socket = socket
+
+    try {
+      if (url.password) {
+        const credentials = url.username
+          ? [decodeURIComponent(url.username), decodeURIComponent(url.password)]
+          : [decodeURIComponent(url.password)]
+        await this.send(socket, ['AUTH', ...credentials])
+      }
+      const database = url.pathname.slice(1)
+      if (database) {
+        await this.send(socket, ['SELECT', database])
+      }
+    } catch (error) {
+      // Don't leave an unauthenticated connection for the next command
+      this.drop(error as Error)
+      throw error
+    }
+    return socket
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+    let parsed = parseReply(this.buffer, 0)
+    while (parsed) {
+      this.buffer = this.buffer.subarray(parsed.end)
+      const waiter = this.waiting.shift()
+      if (waiter) {
+        if (parsed.reply instanceof Error) waiter.reject(parsed.reply)
+        else waiter.resolve(parsed.reply)
+      }
+      parsed = this.buffer.length > 0 ? parseReply(this.buffer, 0) : null
+    }
+  }
+
+  private drop(error: Error): void {
+    if (this.socket) {
+      this.socket.removeAllListeners('data')
+      this.socket.destroy()
+      this.socket = null
+    }
+    this.buffer = Buffer.alloc(0)
+    const waiting = this.waiting
+    this.waiting = []
+    waiting.forEach(waiter => waiter.reject(error))
+  }
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+  private readonly connection: RedisConnection
+
+  constructor(url: string) {
+    this.connection = new RedisConnection(url)
+  }
+
+  async consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult> {
+    const args = [now, policy.windowMs, policy.limit]
+
+    if (policy.algorithm === 'token-bucket') {
+      const [allowed, tokens] = await this.eval(TOKEN_BUCKET_SCRIPT, key, args) as [number, string]
+      return tokenBucketResult(policy, now, allowed === 1, Number(tokens))
+    }
+
+    // Members must be unique, or two requests in the same millisecond count once
+    const member = `${now}:${Math.random().toString(36).slice(2)}`
+    const [allowed, count, oldest, newest] = await this.eval(SLIDING_LOG_SCRIPT, key, [...args, member]) as [number, number, string, string]
+    return slidingLogResult(policy, now, allowed === 1, count, Number(oldest), Number(newest))
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.connection.command(['DEL', KEY_PREFIX + key])
+  }
+
+  close(): void {
+    this.connection.close()
+  }
+
+  // Scripts are small, so they are sent whole rather than cached with SCRIPT LOAD
+  private async eval(script: string, key: string, args: Array<string | number>): Promise<RespReply[]> {
+    return await this.connection.command(['EVAL', script, 1, KEY_PREFIX + key, ...args]) as RespReply[]
+  }
+}
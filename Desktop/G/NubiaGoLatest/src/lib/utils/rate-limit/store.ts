@@ -0,0 +1,44 @@
+import { RateLimitPolicy, RateLimitResult, RateLimitState, applyRateLimit } from './algorithms'
+
+// Where counters live. Shared stores (Firestore, Redis) keep limits intact across
+// serverless instances and cold starts; the in-memory store only sees its own process.
+export interface RateLimitStore {
+  // Count one request against `key` under the policy. Must be atomic for everyone
+  // sharing the store.
+  consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult>
+  reset(key: string): Promise<void>
+}
+
+// Expired keys are swept at most this often, on the next request rather than a timer
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { state: RateLimitState; expiresAt: number }>()
+  private lastSweep = 0
+
+  async consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult> {
+    this.sweep(now)
+
+    const entry = this.entries.get(key)
+    const { state, result } = applyRateLimit(entry && entry.expiresAt > now ? entry.state : undefined, policy, now)
+    // Both algorithms are back to a full allowance one window after the last request
+    this.entries.set(key, { state, expiresAt: now + policy.windowMs })
+    return result
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return
+    this.lastSweep = now
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.entries.delete(key)
+    })
+  }
+}
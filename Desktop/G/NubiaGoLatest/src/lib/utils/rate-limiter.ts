@@ -2,145 +2,136 @@
 // RATE LIMITER UTILITY - Security & Performance
 // ============================================================================
 
-interface RateLimitEntry {
-  count: number
-  resetTime: number
-  blocked: boolean
-}
-
-class RateLimiter {
-  private store = new Map<string, RateLimitEntry>()
-  private cleanupInterval: NodeJS.Timeout
-
-  constructor() {
-    // Clean up expired entries every minute
-    this.cleanupInterval = setInterval(() => {
-      this.cleanup()
-    }, 60 * 1000)
-  }
-
-  private cleanup() {
-    const now = Date.now()
-    for (const [key, entry] of this.store) {
-      if (now > entry.resetTime) {
-        this.store.delete(key)
+import { logger } from './logger'
+import { RateLimitAlgorithm, RateLimitPolicy, RateLimitResult, rateLimitHeaders } from './rate-limit/algorithms'
+import { MemoryRateLimitStore, RateLimitStore } from './rate-limit/store'
+
+export type { RateLimitAlgorithm, RateLimitPolicy, RateLimitResult, RateLimitStore }
+export { MemoryRateLimitStore, rateLimitHeaders }
+
+// What a request is counted against. 'auto' picks the most specific identity present:
+// a recognised API key, then the signed-in user, then the client IP.
+export type RateLimitKeyType = 'auto' | 'api-key' | 'user' | 'ip'
+
+// Finds the client an API key was issued to from the key's SHA-256 hex digest
+export type ApiKeyLookup = (keyHash: string) => Promise<string | undefined>
+
+let store: Promise<RateLimitStore> | null = null
+let apiKeyLookup: ApiKeyLookup | null = null
+
+// Backend chosen by RATE_LIMIT_STORE: 'memory' (default, per instance), 'firestore', or
+// 'redis' (REDIS_URL). The shared backends are only imported when selected, since they
+// pull in firebase-admin and Node sockets.
+async function createStore(): Promise<RateLimitStore> {
+  switch (process.env.RATE_LIMIT_STORE) {
+    case 'firestore': {
+      const { FirestoreRateLimitStore } = await import('./rate-limit/firestore-store')
+      return new FirestoreRateLimitStore()
+    }
+    case 'redis': {
+      if (!process.env.REDIS_URL) {
+        logger.warn('RATE_LIMIT_STORE is redis but REDIS_URL is not set; using in-memory rate limits')
+        return new MemoryRateLimitStore()
       }
+      const { RedisRateLimitStore } = await import('./rate-limit/redis-store')
+      return new RedisRateLimitStore(process.env.REDIS_URL)
     }
+    default:
+      return new MemoryRateLimitStore()
   }
+}
 
-  async checkLimit(
-    key: string, 
-    maxRequests: number, 
-    windowMs: number
-  ): Promise<{
-    success: boolean
-    count: number
-    remaining: number
-    resetTime: number
-    retryAfter?: number
-  }> {
-    const now = Date.now()
-    const resetTime = now + windowMs
-    
-    let entry = this.store.get(key)
-    
-    // Create new entry if doesn't exist or expired
-    if (!entry || now > entry.resetTime) {
-      entry = {
-        count: 0,
-        resetTime,
-        blocked: false
-      }
-    }
+export function getRateLimitStore(): Promise<RateLimitStore> {
+  if (!store) store = createStore()
+  return store
+}
 
-    // Increment count
-    entry.count++
-    
-    // Check if limit exceeded
-    const success = entry.count <= maxRequests
-    const remaining = Math.max(0, maxRequests - entry.count)
-    
-    // Update blocked status
-    entry.blocked = !success
-    
-    // Store updated entry
-    this.store.set(key, entry)
-    
-    return {
-      success,
-      count: entry.count,
-      remaining,
-      resetTime: entry.resetTime,
-      retryAfter: success ? undefined : Math.ceil((entry.resetTime - now) / 1000)
-    }
-  }
+// Swap the backend, e.g. for a store pointed at a test server
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = Promise.resolve(next)
+}
 
-  isBlocked(key: string): boolean {
-    const entry = this.store.get(key)
-    if (!entry) return false
-    
-    const now = Date.now()
-    if (now > entry.resetTime) {
-      this.store.delete(key)
-      return false
-    }
-    
-    return entry.blocked
+// Issued keys from API_CLIENT_KEYS: comma-separated "clientId:sha256hex" pairs, so only
+// digests of the keys are ever configured
+function createEnvApiKeyLookup(): ApiKeyLookup {
+  const clients = new Map<string, string>()
+  for (const entry of (process.env.API_CLIENT_KEYS || '').split(',')) {
+    const [clientId, hash] = entry.split(':').map(part => part.trim())
+    if (clientId && hash) clients.set(hash.toLowerCase(), clientId)
   }
+  return async keyHash => clients.get(keyHash)
+}
 
-  reset(key: string): void {
-    this.store.delete(key)
-  }
+// Swap where issued API keys are looked up, e.g. for a fixed set in tests
+export function setApiKeyLookup(next: ApiKeyLookup): void {
+  apiKeyLookup = next
+}
 
-  resetAll(): void {
-    this.store.clear()
-  }
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
 
-  getStats() {
-    return {
-      totalKeys: this.store.size,
-      entries: Array.from(this.store.entries()).map(([key, entry]) => ({
-        key,
-        count: entry.count,
-        resetTime: entry.resetTime,
-        blocked: entry.blocked,
-        timeRemaining: Math.max(0, entry.resetTime - Date.now())
-      }))
-    }
+// Main rate limit function. If the store can't be reached the request is let through,
+// so an outage of the limiter's backend doesn't take the API down with it.
+export async function rateLimit(
+  key: string,
+  maxRequests: number,
+  windowMs: number,
+  algorithm: RateLimitAlgorithm = 'sliding-log'
+): Promise<RateLimitResult> {
+  const policy: RateLimitPolicy = { algorithm, limit: maxRequests, windowMs }
+  const now = Date.now()
+
+  try {
+    return await (await getRateLimitStore()).consume(key, policy, now)
+  } catch (error) {
+    logger.error('Rate limit check failed, allowing request:', error)
+    return { success: true, limit: maxRequests, remaining: maxRequests, resetTime: now + windowMs }
   }
+}
 
-  destroy() {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval)
-    }
-    this.store.clear()
-  }
+export async function resetRateLimit(key: string): Promise<void> {
+  await (await getRateLimitStore()).reset(key)
 }
 
-// Singleton instance
-const rateLimiter = new RateLimiter()
+// First address in X-Forwarded-For is the client; the rest are proxies
+export function getClientIP(request: Request & { ip?: string }): string {
+  return request.ip ||
+    request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+    request.headers.get('x-real-ip') ||
+    'unknown'
+}
 
-// Main rate limit function
-export async function rateLimit(
-  key: string, 
-  maxRequests: number, 
-  windowMs: number
-) {
-  return await rateLimiter.checkLimit(key, maxRequests, windowMs)
+// Identity part of a rate limit key. An API key only counts when it was issued to a
+// client, and the client id is used rather than the key; otherwise anyone could reset
+// their limit by sending a new made-up key with each request.
+export async function rateLimitIdentity(
+  request: Request & { ip?: string },
+  userId?: string,
+  keyBy: RateLimitKeyType = 'auto'
+): Promise<string> {
+  const apiKey = request.headers.get('x-api-key')
+  if (apiKey && (keyBy === 'auto' || keyBy === 'api-key')) {
+    if (!apiKeyLookup) apiKeyLookup = createEnvApiKeyLookup()
+    const clientId = await apiKeyLookup(await sha256Hex(apiKey))
+    if (clientId) return `api-key:${clientId}`
+  }
+  if (userId && (keyBy === 'auto' || keyBy === 'user')) {
+    return `user:${userId}`
+  }
+  return `ip:${getClientIP(request)}`
 }
 
 // Convenience functions for common use cases
-export const authRateLimit = (ip: string) => 
+export const authRateLimit = (ip: string) =>
   rateLimit(`auth:${ip}`, 5, 15 * 60 * 1000) // 5 attempts per 15 minutes
 
-export const apiRateLimit = (ip: string) => 
-  rateLimit(`api:${ip}`, 100, 60 * 1000) // 100 requests per minute
+export const apiRateLimit = (ip: string) =>
+  rateLimit(`api:${ip}`, 100, 60 * 1000, 'token-bucket') // 100 requests per minute, bursts allowed
 
-export const searchRateLimit = (ip: string) => 
-  rateLimit(`search:${ip}`, 30, 60 * 1000) // 30 searches per minute
+export const searchRateLimit = (ip: string) =>
+  rateLimit(`search:${ip}`, 30, 60 * 1000, 'token-bucket') // 30 searches per minute, bursts allowed
 
-export const emailRateLimit = (email: string) => 
+export const emailRateLimit = (email: string) =>
   rateLimit(`email:${email}`, 3, 60 * 60 * 1000) // 3 emails per hour
-
-// Export utilities
-export { rateLimiter }
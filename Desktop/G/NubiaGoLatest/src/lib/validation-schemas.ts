@@ -233,6 +233,33 @@ export const productCreateSchema = z.object({
 
 export const productUpdateSchema = productCreateSchema.partial()
 
+/**
+ * Bulk import row: the catalog fields a spreadsheet row can carry.
+ * Images are added after import, and stock maps to inventory.
+ */
+export const bulkProductRowSchema = productCreateSchema.pick({
+  name: true,
+  description: true,
+  price: true,
+  category: true,
+  sku: true,
+  weight: true,
+  dimensions: true,
+  tags: true,
+  seoTitle: true,
+  seoDescription: true,
+  metaKeywords: true,
+  productHighlights: true,
+  brandName: true,
+  modelNumber: true,
+  upcEanIsbn: true,
+  materialComposition: true
+}).extend({
+  stock: z.number()
+    .int('Stock must be a whole number')
+    .min(0, 'Stock cannot be negative')
+})
+
 /**
  * Address validation schemas
  */
@@ -451,7 +478,8 @@ export const validationSchemas = {
   },
   product: {
     create: productCreateSchema,
-    update: productUpdateSchema
+    update: productUpdateSchema,
+    bulkRow: bulkProductRowSchema
   },
   address: addressSchema,
   payment: {
@@ -1,5 +1,16 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { ROUTES, findRouteAccess } from '@/app/routes'
+import { AUTH_SESSION_COOKIE, verifySessionClaim } from '@/lib/auth/session'
+
+// Statuses that lock a user out of every dashboard
+const SUSPENDED_STATUSES = ['suspended', 'inactive']
+
+const redirectTo = (request: NextRequest, pathname: string, returnTo?: string) => {
+  const url = new URL(pathname, request.url)
+  if (returnTo) url.searchParams.set('redirect', returnTo)
+  return NextResponse.redirect(url)
+}
 
 // Simplified middleware for Firebase Hosting compatibility
 // Only run in production to avoid conflicts with static export
@@ -58,8 +69,32 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next()
   }
 
-  // For protected routes, just allow access for now
-  // Authentication will be handled at the component level
+  // Dashboards are checked against the signed session claim; client guards such as
+  // AdminAuthGuard only shape the UI from here on
+  const access = findRouteAccess(pathname)
+  if (!access) {
+    return NextResponse.next()
+  }
+
+  const session = await verifySessionClaim(request.cookies.get(AUTH_SESSION_COOKIE)?.value)
+  // A sign-in still waiting on its 2FA code hasn't finished
+  if (!session || !session.twoFactorVerified) {
+    return redirectTo(request, '/login', `${pathname}${request.nextUrl.search}`)
+  }
+
+  if (SUSPENDED_STATUSES.includes(session.status)) {
+    return redirectTo(request, ROUTES.AUTH.ACCOUNT_SUSPENDED)
+  }
+
+  if (!access.roles.includes(session.role)) {
+    return redirectTo(request, ROUTES.AUTH.UNAUTHORIZED)
+  }
+
+  // Suppliers awaiting approval only get the onboarding pages
+  if (session.role === 'supplier' && session.status !== 'active' && !access.onboarding) {
+    return redirectTo(request, ROUTES.SUPPLIER.PENDING_APPROVAL)
+  }
+
   return NextResponse.next()
 }
 
@@ -164,7 +164,8 @@ export const useAdminDashboardStore = create<AdminDashboardState>()(
           ordersThisMonth: 0,
           revenueThisMonth: 0,
           ordersThisWeek: 0,
-          revenueThisWeek: 0
+          revenueThisWeek: 0,
+          revenueByCurrency: {}
         },
         orderFilters: {},
         selectedOrders: [],
@@ -1,5 +1,7 @@
 import { create } from 'zustand'
 import { persist, createJSONStorage } from 'zustand/middleware'
+import { getCartLineId } from '@/lib/product-variants'
+import type { VariantSnapshot } from '@/types/product'
 
 // ============================================================================
 // CART TYPES
@@ -24,7 +26,10 @@ interface CartProduct extends Omit<Product, 'category'> {
 }
 
 export interface CartItem {
+  id: string // one line per product + variant
   productId: string
+  variantId?: string
+  variant?: VariantSnapshot
   quantity: number
   price: number
   product: CartProduct
@@ -35,14 +40,17 @@ export interface CartStoreState {
   total: number
   itemCount: number
   loading: boolean
-  addItem: (product: Product, quantity?: number) => void
-  removeItem: (productId: string) => void
-  updateQuantity: (productId: string, quantity: number) => void
+  addItem: (product: Product, quantity?: number, variant?: VariantSnapshot & { price: number }) => void
+  removeItem: (productId: string, variantId?: string) => void
+  updateQuantity: (productId: string, quantity: number, variantId?: string) => void
   clearCart: () => void
   setLoading: (loading: boolean) => void
   getTotal: () => number
 }
 
+// Items persisted before variants existed have no line id
+const lineIdOf = (item: CartItem) => item.id || item.productId
+
 export const useCartStore = create<CartStoreState>()(
   persist(
     (set, get) => ({
@@ -51,9 +59,10 @@ export const useCartStore = create<CartStoreState>()(
       itemCount: 0,
       loading: false,
       
-      addItem: (product: Product, quantity = 1) => {
+      addItem: (product: Product, quantity = 1, variant) => {
         set((state) => {
-          const existingItemIndex = state.items.findIndex(item => item.productId === product.id)
+          const lineId = getCartLineId(product.id, variant?.id)
+          const existingItemIndex = state.items.findIndex(item => lineIdOf(item) === lineId)
           
           if (existingItemIndex >= 0) {
             // Update existing item
@@ -77,9 +86,14 @@ export const useCartStore = create<CartStoreState>()(
           } else {
             // Add new item
             const newItem: CartItem = {
+              id: lineId,
               productId: product.id,
+              ...(variant ? {
+                variantId: variant.id,
+                variant: { id: variant.id, name: variant.name, sku: variant.sku, attributes: variant.attributes }
+              } : {}),
               quantity,
-              price: product.price,
+              price: variant ? variant.price : product.price,
               product: {
                 ...product,
                 category: product.category || 'Uncategorized',
@@ -103,9 +117,10 @@ export const useCartStore = create<CartStoreState>()(
         })
       },
       
-      removeItem: (productId: string) => {
+      removeItem: (productId: string, variantId?: string) => {
         set((state) => {
-          const newItems = state.items.filter(item => item.productId !== productId)
+          const lineId = getCartLineId(productId, variantId)
+          const newItems = state.items.filter(item => lineIdOf(item) !== lineId)
           const newTotal = newItems.reduce((sum, item) => sum + (item.price * item.quantity), 0)
           const newItemCount = newItems.reduce((sum, item) => sum + item.quantity, 0)
           
@@ -118,10 +133,11 @@ export const useCartStore = create<CartStoreState>()(
         })
       },
       
-      updateQuantity: (productId: string, quantity: number) => {
+      updateQuantity: (productId: string, quantity: number, variantId?: string) => {
         set((state) => {
+          const lineId = getCartLineId(productId, variantId)
           if (quantity <= 0) {
-            const newItems = state.items.filter(item => item.productId !== productId)
+            const newItems = state.items.filter(item => lineIdOf(item) !== lineId)
             const newTotal = newItems.reduce((sum, item) => sum + (item.price * item.quantity), 0)
             const newItemCount = newItems.reduce((sum, item) => sum + item.quantity, 0)
             
@@ -134,7 +150,7 @@ export const useCartStore = create<CartStoreState>()(
           }
           
           const updatedItems = state.items.map(item => 
-            item.productId === productId ? { ...item, quantity } : item
+            lineIdOf(item) === lineId ? { ...item, quantity } : item
           )
           
           const newTotal = updatedItems.reduce((sum, item) => sum + (item.price * item.quantity), 0)
@@ -0,0 +1,80 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { BASE_CURRENCY, convertAmount, currencyForCountry, exchangeRate } from '@/lib/currency'
+import { logger } from '@/lib/utils/logger'
+import { ExchangeRateTable } from '@/types'
+
+interface CurrencyState {
+  // Picked by the shopper; null follows their country
+  currency: string | null
+  // ISO country code, from the browser locale until an address says otherwise
+  country: string | null
+  table: ExchangeRateTable | null
+  ratesLoading: boolean
+}
+
+interface CurrencyActions {
+  loadRates: () => Promise<void>
+  setCurrency: (currency: string | null) => void
+  setCountry: (country: string | null) => void
+  // The currency prices are shown in. Anything without a rate shows in the base currency.
+  getDisplayCurrency: () => string
+  // A base-currency amount in the display currency
+  convert: (amount: number) => number
+}
+
+const localeCountry = (): string | null => {
+  if (typeof navigator === 'undefined') return null
+  const region = navigator.language?.split('-')[1]
+  return region && region.length === 2 ? region.toUpperCase() : null
+}
+
+export const useCurrencyStore = create<CurrencyState & CurrencyActions>()(
+  persist(
+    (set, get) => ({
+      currency: null,
+      country: localeCountry(),
+      table: null,
+      ratesLoading: false,
+
+      loadRates: async () => {
+        if (get().ratesLoading) return
+        set({ ratesLoading: true })
+        try {
+          const response = await fetch('/api/currency/rates')
+          const data = await response.json()
+          if (!response.ok) throw new Error(data.error)
+          set({ table: data.data.table })
+        } catch (error) {
+          logger.error('Failed to load exchange rates:', error)
+        } finally {
+          set({ ratesLoading: false })
+        }
+      },
+
+      setCurrency: (currency) => {
+        set({ currency })
+      },
+
+      setCountry: (country) => {
+        set({ country })
+      },
+
+      getDisplayCurrency: () => {
+        const { currency, country, table } = get()
+        const wanted = currency || currencyForCountry(country) || BASE_CURRENCY
+        return table && exchangeRate(table, BASE_CURRENCY, wanted) !== undefined ? wanted : BASE_CURRENCY
+      },
+
+      convert: (amount) => {
+        const { table, getDisplayCurrency } = get()
+        const currency = getDisplayCurrency()
+        return table ? convertAmount(amount, BASE_CURRENCY, currency, table) ?? amount : amount
+      }
+    }),
+    {
+      name: 'currency-storage',
+      partialize: (state) => ({ currency: state.currency, country: state.country })
+    }
+  )
+)
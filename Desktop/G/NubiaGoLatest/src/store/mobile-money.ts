@@ -0,0 +1,148 @@
+import { create } from 'zustand'
+import type {
+  MobileMoneyOperator,
+  MobileMoneyPayment,
+  MobileMoneyPaymentRequest,
+  PaymentResponse
+} from '@/lib/services/mobile-money/gateway'
+
+// Mobile money checkout state. Payments are created and checked by the server through
+// /api/mobile-money; this store only keeps what the payment form shows.
+
+interface MobileMoneyState {
+  payments: MobileMoneyPayment[]
+  operators: MobileMoneyOperator[]
+  selectedCountry: string
+  selectedOperator: string
+  isLoading: boolean
+  error: string | null
+}
+
+interface MobileMoneyActions {
+  setPayments: (payments: MobileMoneyPayment[]) => void
+  addPayment: (payment: MobileMoneyPayment) => void
+  updatePayment: (id: string, updates: Partial<MobileMoneyPayment>) => void
+  setOperators: (operators: MobileMoneyOperator[]) => void
+  setSelectedCountry: (country: string) => void
+  setSelectedOperator: (operator: string) => void
+  setLoading: (loading: boolean) => void
+  setError: (error: string | null) => void
+  clearError: () => void
+  fetchOperators: (country: string) => Promise<void>
+  initiatePayment: (request: MobileMoneyPaymentRequest) => Promise<PaymentResponse>
+  getPaymentStatus: (paymentId: string) => Promise<MobileMoneyPayment | null>
+}
+
+export const useMobileMoneyStore = create<MobileMoneyState & MobileMoneyActions>((set, get) => ({
+  payments: [],
+  operators: [],
+  selectedCountry: '',
+  selectedOperator: '',
+  isLoading: false,
+  error: null,
+
+  setPayments: (payments) => set({ payments }),
+  addPayment: (payment) => set((state) => ({ payments: [...state.payments, payment] })),
+  updatePayment: (id, updates) => set((state) => ({
+    payments: state.payments.map(p => p.id === id ? { ...p, ...updates } : p)
+  })),
+  setOperators: (operators) => set({ operators }),
+  setSelectedCountry: (country) => set({ selectedCountry: country }),
+  setSelectedOperator: (operator) => set({ selectedOperator: operator }),
+  setLoading: (loading) => set({ isLoading: loading }),
+  setError: (error) => set({ error }),
+  clearError: () => set({ error: null }),
+
+  fetchOperators: async (country: string) => {
+    set({ isLoading: true, error: null })
+    try {
+      const response = await fetch(`/api/mobile-money/operators/${encodeURIComponent(country)}`)
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.message)
+
+      const operators: MobileMoneyOperator[] = result.data || []
+      set({ operators, selectedCountry: country })
+      if (operators.length > 0) {
+        set({ selectedOperator: operators[0].operatorCode })
+      }
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to fetch operators' })
+    } finally {
+      set({ isLoading: false })
+    }
+  },
+
+  initiatePayment: async (request: MobileMoneyPaymentRequest) => {
+    set({ isLoading: true, error: null })
+    try {
+      const response = await fetch('/api/mobile-money/initiate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      })
+      const result = await response.json()
+      if (!result.success || !result.data?.paymentId) {
+        return { success: false, status: 'failed', message: result.message || 'Payment initiation failed' }
+      }
+
+      // Add payment to store
+      const payment: MobileMoneyPayment = {
+        id: result.data.paymentId,
+        orderId: request.orderId,
+        amount: request.amount,
+        currency: request.currency,
+        operator: request.operatorCode,
+        country: request.country,
+        phoneNumber: request.customerPhone,
+        gatewayProvider: result.data.gatewayProvider || 'sandbox',
+        gatewayTransactionId: result.data.transactionId,
+        status: 'pending',
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }
+      get().addPayment(payment)
+
+      return {
+        success: true,
+        status: 'pending',
+        data: {
+          paymentId: result.data.paymentId,
+          paymentUrl: result.data.paymentUrl,
+          transactionId: result.data.transactionId
+        },
+        transactionId: result.data.transactionId,
+        paymentUrl: result.data.paymentUrl,
+        reference: result.data.reference,
+        message: result.message
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Payment initiation failed'
+      set({ error: errorMessage })
+      return {
+        success: false,
+        message: errorMessage
+      }
+    } finally {
+      set({ isLoading: false })
+    }
+  },
+
+  getPaymentStatus: async (paymentId: string) => {
+    try {
+      const response = await fetch(`/api/mobile-money/status/${encodeURIComponent(paymentId)}`)
+      const result = await response.json()
+      if (!response.ok || !result.success) return null
+
+      const updates: Partial<MobileMoneyPayment> = {
+        status: result.data.status,
+        failureReason: result.data.failureReason,
+        gatewayTransactionId: result.data.gatewayTransactionId
+      }
+      get().updatePayment(paymentId, updates)
+      return get().payments.find(payment => payment.id === paymentId) || null
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to get payment status' })
+      return null
+    }
+  }
+}))
@@ -1,7 +1,8 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { logisticsService, ShippingRate, ShippingAddress, ShippingPackage, TrackingInfo } from '@/lib/services/logistics.service'
+import type { ShippingAddress, ShippingPackage, TrackingInfo } from '@/lib/services/logistics.service'
 import { logger } from '@/lib/utils/logger'
+import type { ShippingQuote } from '@/lib/services/shipping/rate-shopping'
 
 export interface ShippingMethod {
   id: string
@@ -27,12 +28,13 @@ interface ShippingState {
   selectedAddress: ShippingAddress | null
   shippingMethods: ShippingMethod[]
   selectedMethod: ShippingMethod | null
-  selectedRate: ShippingRate | null
+  selectedRate: ShippingQuote | null
   labels: ShippingLabel[]
   isLoading: boolean
   error: string | null
   // Rate calculation properties
-  rates: ShippingRate[]
+  rates: ShippingQuote[]
+  quoteId: string | null
   ratesLoading: boolean
   ratesError: string | null
   // Tracking properties
@@ -52,13 +54,14 @@ interface ShippingActions {
   // Shipping methods
   setShippingMethods: (methods: ShippingMethod[]) => void
   selectShippingMethod: (method: ShippingMethod | null) => void
-  selectRate: (rate: ShippingRate | null) => void
+  selectRate: (rate: ShippingQuote | null) => void
   
   // Rate calculation
   getRates: (data: {
     fromAddress: ShippingAddress
     toAddress: ShippingAddress
     packages: ShippingPackage[]
+    orderSubtotal?: number
   }) => Promise<boolean>
   clearRates: () => void
   
@@ -91,6 +94,7 @@ export const useShippingStore = create<ShippingState & ShippingActions>()(
       error: null,
       // Rate calculation state
       rates: [],
+      quoteId: null,
       ratesLoading: false,
       ratesError: null,
       trackingInfo: null,
@@ -154,18 +158,21 @@ export const useShippingStore = create<ShippingState & ShippingActions>()(
         set({ selectedRate: rate })
       },
 
-      // Rate calculation - NOW USING REAL LOGISTICS SERVICE
+      // Rate calculation - priced by the rate shopping API so markups and free shipping apply
       getRates: async (data) => {
         set({ ratesLoading: true, ratesError: null })
         try {
-          // Use the real logistics service
-          const rates = await logisticsService.getShippingRates(
-            data.fromAddress,
-            data.toAddress,
-            data.packages
-          )
-          
-          set({ rates, ratesLoading: false })
+          const response = await fetch('/api/shipping/rates', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(data)
+          })
+          const result = await response.json()
+          if (!response.ok || !result.success) {
+            throw new Error(result.error || 'Failed to calculate rates')
+          }
+
+          set({ rates: result.data.rates, quoteId: result.data.quoteId, ratesLoading: false })
           return true
         } catch (error: any) {
           logger.error('Failed to get shipping rates:', error)
@@ -175,10 +182,10 @@ export const useShippingStore = create<ShippingState & ShippingActions>()(
       },
 
       clearRates: () => {
-        set({ rates: [], ratesError: null })
+        set({ rates: [], quoteId: null, ratesError: null })
       },
 
-      // Tracking - NOW USING REAL LOGISTICS SERVICE
+      // Tracking - looked up by the tracking API, which holds the carrier credentials
       getTrackingInfo: async (trackingNumber, carrierCode) => {
         set({ trackingLoading: true, trackingError: null })
         try {
@@ -186,18 +193,21 @@ export const useShippingStore = create<ShippingState & ShippingActions>()(
             throw new Error('Carrier code is required for tracking')
           }
 
-          // Use the real logistics service
-          const trackingInfo = await logisticsService.getTrackingInfo(trackingNumber, carrierCode)
-          
-          if (!trackingInfo) {
-            throw new Error('Tracking information not found')
+          const response = await fetch('/api/shipping/tracking', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ trackingNumber, carrierCode })
+          })
+          const result = await response.json()
+          if (!response.ok || !result.success) {
+            throw new Error(result.error || 'Tracking information not found')
           }
 
-          set({ trackingInfo, trackingLoading: false })
+          set({ trackingInfo: result.data, trackingLoading: false })
           return true
         } catch (error: any) {
           logger.error('Failed to get tracking info:', error)
-          set({ ratesError: error.message || 'Failed to get tracking info', trackingLoading: false })
+          set({ trackingError: error.message || 'Failed to get tracking info', trackingLoading: false })
           return false
         }
       },
@@ -241,6 +251,7 @@ export const useShippingStore = create<ShippingState & ShippingActions>()(
           isLoading: false,
           error: null,
           rates: [],
+          quoteId: null,
           ratesLoading: false,
           ratesError: null,
           trackingInfo: null,
@@ -8,8 +8,12 @@ export interface ApiConfiguration {
   provider?: string;
   baseUrl: string;
   webhookUrl?: string;
+  // Credentials come back masked; the real values are only decrypted server-side
   apiKey?: string;
   apiSecret?: string;
+  // Version of the master key the credentials are encrypted under, unset if they
+  // were saved before encryption and haven't been rotated yet
+  secretKeyVersion?: number;
   headers?: Record<string, string>;
   rateLimit?: {
     requests: number;
@@ -32,6 +36,12 @@ export interface ApiConfiguration {
   updatedAt: Date;
 }
 
+// Fields kept in the secrets vault rather than as plain document fields.
+// webhookSecret lives in `config` on ApiConfiguration.
+export type ApiSecretField = 'apiKey' | 'apiSecret' | 'webhookSecret'
+
+export type ApiCredentials = Partial<Record<ApiSecretField, string>>
+
 export interface ApiEndpoint {
   id: string
   name: string
@@ -45,11 +45,15 @@ export interface User {
   status?: string
   emailVerified?: boolean
   avatar?: string
+  // Used for SMS notifications when the user has opted in
+  phoneNumber?: string
   createdAt: Date
   updatedAt?: Date
   lastLogin?: Date
   isVerified?: boolean
   preferences?: UserPreferences
+  // Balance issued through store-credit returns, spendable on future orders
+  storeCredit?: number
 }
 
 export interface UserPreferences {
@@ -134,9 +138,12 @@ export interface ProductSearchResult {
 // ========================================
 
 export interface CartItem {
+  // Line id: one line per product and variant combination
   id: string
   productId: string
   product: import('./product').Product
+  variantId?: string
+  variant?: import('./product').VariantSnapshot
   quantity: number
   price: number
   addedAt: Date
@@ -148,6 +155,8 @@ export interface Cart {
   items: CartItem[]
   total: number
   itemCount: number
+  // Entered promotion codes; discounts are computed server-side at checkout
+  promotionCodes?: string[]
   updatedAt: Date
 }
 
@@ -155,6 +164,9 @@ export interface OrderItem {
   id: string
   productId: string
   product: import('./product').Product
+  variantId?: string
+  variant?: import('./product').VariantSnapshot
+  supplierId?: string
   quantity: number
   price: number
   total: number
@@ -164,19 +176,436 @@ export interface Order {
   id: string
   userId: string
   items: OrderItem[]
+  subtotal?: number
+  shippingCost?: number
+  tax?: number
   total: number
+  // Set when promotions were redeemed server-side; total already includes the discount
+  promotionEvaluation?: import('./promotion').PromotionEvaluation
+  // Running total of partial refunds (item returns); the order is fully refunded once it reaches total
+  refundedAmount?: number
+  // Currency the shopper paid in, and the rate locked at checkout. Amounts above stay in
+  // the base currency; refunds and reports convert with this rate rather than today's.
+  currency?: string
+  exchangeRate?: LockedExchangeRate
   status: OrderStatus
   paymentStatus: PaymentStatus
   paymentMethod: string
   shippingAddress: Address
   billingAddress: Address
+  subOrderIds?: string[]
   createdAt: Date
   updatedAt: Date
 }
 
 export type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled'
+
+// A parent order is split into one sub-order per supplier so each supplier
+// can fulfil, track and be paid out for their own items independently.
+export interface SubOrder {
+  id: string
+  parentOrderId: string
+  supplierId: string
+  userId: string
+  items: OrderItem[]
+  subtotal: number
+  shippingCost: number
+  commissionRate: number
+  commissionAmount: number
+  // This sub-order's share of the order's promotions, set when they are redeemed
+  discountAmount?: number
+  shippingDiscount?: number
+  total: number
+  status: OrderStatus
+  trackingNumber?: string
+  shippingLabel?: ShipmentLabel
+  shippingAddress: Address
+  createdAt: Date
+  updatedAt: Date
+  shippedAt?: Date
+  deliveredAt?: Date
+  // Set when the sub-order was cancelled after payment and its total refunded
+  refundedAmount?: number
+  refundedAt?: Date
+}
+
+// Stock held for an unpaid order. The hold expires unless payment completes in time,
+// at which point the reserved units are returned and the order is cancelled.
+export type InventoryReservationStatus = 'held' | 'committed' | 'released' | 'expired'
+
+export interface InventoryReservationLine {
+  inventoryKey: string
+  productId: string
+  variantId?: string
+  sku?: string
+  quantity: number
+}
+
+export interface InventoryReservation {
+  id: string // same as the order id
+  orderId: string
+  userId: string
+  paymentId?: string
+  lines: InventoryReservationLine[]
+  status: InventoryReservationStatus
+  expiresAt: Date
+  releaseReason?: 'payment_failed' | 'expired' | 'cancelled'
+  createdAt: Date
+  updatedAt: Date
+}
 export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded' | 'partial'
 
+// ========================================
+// RETURN (RMA) TYPES
+// ========================================
+
+export type ReturnReason = 'damaged' | 'defective' | 'wrong_item' | 'not_as_described' | 'no_longer_needed' | 'other'
+
+export type ReturnResolution = 'refund' | 'exchange' | 'store_credit'
+
+export type ReturnStatus =
+  | 'requested'
+  | 'approved'
+  | 'rejected'
+  | 'cancelled'
+  | 'label_issued'
+  | 'in_transit'
+  | 'received'
+  // Refund or store credit is being issued; set before the money moves
+  | 'refunding'
+  | 'refunded'
+  | 'credited'
+  | 'exchanged'
+
+export interface ReturnStatusChange {
+  status: ReturnStatus
+  actorId: string
+  actorRole: 'customer' | 'supplier' | 'admin' | 'system'
+  note?: string
+  changedAt: Date
+}
+
+// Label bought from a carrier or printed locally for an own-fleet courier
+export interface ShipmentLabel {
+  id: string
+  trackingNumber: string
+  labelUrl: string
+  labelFormat: 'pdf' | 'png' | 'zpl'
+  carrier: string
+  serviceCode: string
+  createdAt: Date
+}
+
+export type ReturnLabel = ShipmentLabel
+
+// A return merchandise authorization for one order line. Quantity may be less than
+// the line quantity; several RMAs can exist for a line until it is fully returned.
+export interface ReturnRequest {
+  id: string
+  rmaNumber: string
+  orderId: string
+  subOrderId?: string
+  orderItemId: string
+  productId: string
+  productName: string
+  supplierId: string
+  userId: string
+  quantity: number
+  unitPrice: number
+  reason: ReturnReason
+  description?: string
+  photos: string[]
+  resolution: ReturnResolution
+  status: ReturnStatus
+  statusHistory: ReturnStatusChange[]
+  // Amount refunded or credited on receipt: unitPrice x quantity, less promotion discounts
+  refundAmount: number
+  returnLabel?: ReturnLabel
+  rejectionReason?: string
+  replacementTrackingNumber?: string
+  createdAt: Date
+  updatedAt: Date
+  receivedAt?: Date
+  resolvedAt?: Date
+}
+
+// ========================================
+// SHIPPING RATE TYPES
+// ========================================
+
+// Overrides for one destination country. Unset fields fall back to the global rules.
+export interface ShippingCountryRule {
+  markupPercent?: number
+  freeShippingThreshold?: number
+  // Carrier names as quoted, e.g. 'DHL'; their options are never offered here
+  excludedCarriers: string[]
+}
+
+// Pricing rules admins apply to carrier quotes before customers see them
+export interface ShippingRateRules {
+  markupPercent: number
+  markupFlat: number
+  // Order subtotal from which the cheapest option is free; 0 turns it off
+  freeShippingThreshold: number
+  // Keyed by destination country code or name as entered at checkout
+  countryRules: Record<string, ShippingCountryRule>
+  updatedAt?: Date
+  updatedBy?: string
+}
+
+// A carton size a supplier stocks. Inside dimensions in cm, weights in kg.
+export interface ShippingBox {
+  id: string
+  name: string
+  length: number
+  width: number
+  height: number
+  // Heaviest the packed box may be, box included
+  maxWeight: number
+  emptyWeight: number
+}
+
+// ========================================
+// SHIPMENT TRACKING TYPES
+// ========================================
+
+// Carrier scan codes are normalized into these. 'exception' covers failed delivery
+// attempts, damage and customs holds; the shipment can still move on afterwards.
+export type ShipmentStatus =
+  | 'label_created'
+  | 'picked_up'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'exception'
+  | 'returned'
+
+export interface ShipmentTrackingEvent {
+  id: string
+  status: ShipmentStatus
+  // Raw code or status text from the carrier, kept for support staff
+  carrierStatus: string
+  description: string
+  location?: string
+  occurredAt: Date
+  source: 'webhook' | 'poll'
+  receivedAt: Date
+}
+
+// One tracked parcel. Keyed by carrier and tracking number; events live in a subcollection.
+export interface Shipment {
+  id: string
+  carrier: string
+  trackingNumber: string
+  orderId: string
+  subOrderId?: string
+  userId: string
+  status: ShipmentStatus
+  lastEvent?: Pick<ShipmentTrackingEvent, 'status' | 'description' | 'location' | 'occurredAt'>
+  estimatedDelivery?: Date
+  deliveredAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+// ========================================
+// SUPPORT TICKET TYPES
+// ========================================
+
+export type TicketCategory = 'order' | 'payment' | 'shipping' | 'returns' | 'product' | 'account' | 'technical' | 'other'
+
+export type TicketPriority = 'low' | 'medium' | 'high' | 'urgent'
+
+// 'waiting' means the ticket is waiting on the person who opened it
+export type TicketStatus = 'open' | 'in_progress' | 'waiting' | 'escalated' | 'resolved' | 'closed'
+
+export type TicketParticipantRole = 'customer' | 'supplier' | 'admin'
+
+export interface TicketMessage {
+  id: string
+  authorId: string
+  authorName: string
+  authorRole: TicketParticipantRole
+  body: string
+  createdAt: Date
+}
+
+export interface TicketStatusChange {
+  status: TicketStatus
+  actorId: string
+  actorRole: TicketParticipantRole | 'system'
+  note?: string
+  changedAt: Date
+}
+
+// A support request from a customer or supplier. Customer tickets about an order or
+// product are shared with that product's supplier; escalated tickets go to admins.
+export interface SupportTicket {
+  id: string
+  ticketNumber: string
+  subject: string
+  category: TicketCategory
+  priority: TicketPriority
+  status: TicketStatus
+  requesterId: string
+  requesterRole: 'customer' | 'supplier'
+  requesterName: string
+  requesterEmail: string
+  orderId?: string
+  productId?: string
+  // Supplier who can see and answer the ticket
+  supplierId?: string
+  assigneeId?: string
+  assigneeName?: string
+  messages: TicketMessage[]
+  statusHistory: TicketStatusChange[]
+  // SLA deadlines, set from the priority when the ticket is opened
+  firstResponseDueAt: Date
+  resolutionDueAt: Date
+  firstRespondedAt?: Date
+  slaBreached: boolean
+  escalatedAt?: Date
+  escalationReason?: string
+  createdAt: Date
+  updatedAt: Date
+  resolvedAt?: Date
+  closedAt?: Date
+}
+
+// ========================================
+// CONTENT MODERATION TYPES
+// ========================================
+
+export type ModerationReasonCode =
+  | 'profanity'
+  | 'contact_phone'
+  | 'contact_email'
+  | 'off_platform_payment'
+  | 'spam_links'
+  | 'spam_repetition'
+  | 'spam_caps'
+  | 'invalid_image'
+  | 'user_report'
+
+// allow: publish as is; queue: publish and add to the review queue;
+// hide: keep from other users until a moderator approves it
+export type ModerationAction = 'allow' | 'queue' | 'hide'
+
+export interface ModerationFlag {
+  code: ModerationReasonCode
+  // The text or file that triggered the rule, shown to moderators
+  match?: string
+}
+
+export interface ModerationResult {
+  action: ModerationAction
+  flags: ModerationFlag[]
+}
+
+// Rule lists admins can tune from the moderation settings page
+export interface ModerationRules {
+  profanity: string[]
+  offPlatformPaymentTerms: string[]
+  // Links to these domains never count as spam
+  allowedLinkDomains: string[]
+  allowedImageTypes: string[]
+  maxLinks: number
+  actions: Record<ModerationReasonCode, ModerationAction>
+  updatedAt?: Date
+  updatedBy?: string
+}
+
+// ========================================
+// CHAT TYPES
+// ========================================
+
+export type ChatRoomType = 'customer_support' | 'order_inquiry' | 'general'
+
+export type ChatParticipantRole = 'customer' | 'supplier' | 'admin'
+
+export type ChatMessageType = 'text' | 'image' | 'file' | 'system'
+
+// 'flagged' messages stay visible until a moderator approves or removes them;
+// 'hidden' messages are only shown to their sender until approved
+export type ChatMessageStatus = 'visible' | 'flagged' | 'hidden' | 'removed'
+
+// Muted users can read but not send; banned users can do neither
+export type ChatUserStatus = 'active' | 'muted' | 'banned'
+
+export interface ChatParticipant {
+  id: string
+  name: string
+  role: ChatParticipantRole
+}
+
+export interface ChatAttachment {
+  url: string
+  path: string
+  name: string
+  contentType: string
+  size: number
+}
+
+export interface ChatMessage {
+  id: string
+  roomId: string
+  senderId: string
+  senderName: string
+  senderRole: ChatParticipantRole
+  content: string
+  messageType: ChatMessageType
+  attachments: ChatAttachment[]
+  status: ChatMessageStatus
+  moderationFlags?: ModerationFlag[]
+  flaggedBy?: string
+  flaggedReason?: string
+  flaggedAt?: Date
+  moderatedBy?: string
+  moderatedAt?: Date
+  createdAt: Date
+}
+
+// A conversation between participants. Order inquiry rooms are opened when the
+// order is placed and link the customer with every supplier on the order.
+export interface ChatRoom {
+  id: string
+  name: string
+  type: ChatRoomType
+  orderId?: string
+  participantIds: string[]
+  participants: ChatParticipant[]
+  lastMessage?: {
+    content: string
+    senderId: string
+    senderName: string
+    createdAt: Date
+  }
+  // Read receipts: a participant has read every message sent before their lastReadAt
+  lastReadAt: Record<string, Date>
+  unreadCounts: Record<string, number>
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ChatPresence {
+  userId: string
+  isOnline: boolean
+  lastSeenAt: Date
+}
+
+// A user's standing in chat, created the first time they join a room
+export interface ChatUser {
+  userId: string
+  name: string
+  role: ChatParticipantRole
+  status: ChatUserStatus
+  statusReason?: string
+  statusUpdatedBy?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
 // ========================================
 // ADDRESS & SHIPPING TYPES
 // ========================================
@@ -245,6 +674,46 @@ export interface PaymentTransaction {
   updatedAt: Date
 }
 
+// ========================================
+// CURRENCY TYPES
+// ========================================
+
+// Exchange rates against the base currency: units of each currency per one base unit
+export interface ExchangeRateTable {
+  base: string
+  rates: Record<string, number>
+  source: 'manual' | 'import'
+  updatedAt?: Date
+  updatedBy?: string
+}
+
+export interface LockedExchangeRate {
+  baseCurrency: string
+  // Units of the order currency per base unit
+  rate: number
+  lockedAt: Date
+}
+
+// ========================================
+// TWO-FACTOR AUTHENTICATION TYPES
+// ========================================
+
+// Roles that must pass a second factor before using the API
+export interface TwoFactorPolicy {
+  requiredRoles: Array<User['role']>
+  updatedAt?: Date
+  updatedBy?: string
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  // Policy makes 2FA mandatory for the user's role
+  required: boolean
+  // This session already passed the second factor
+  verified: boolean
+  recoveryCodesRemaining: number
+}
+
 // ========================================
 // NOTIFICATION & COMMUNICATION TYPES
 // ========================================
@@ -255,13 +724,19 @@ export interface Notification {
   type: NotificationType
   title: string
   message: string
+  // Where clicking the notification takes the user
+  link?: string
   data?: Record<string, unknown>
+  // Channels the notification was fanned out to, always including 'in_app'
+  channels: NotificationChannel[]
   isRead: boolean
   createdAt: Date
   readAt?: Date
 }
 
-export type NotificationType = 'order' | 'payment' | 'shipping' | 'promotion' | 'system' | 'security'
+export type NotificationType = 'order' | 'payment' | 'shipping' | 'promotion' | 'message' | 'account' | 'system' | 'security'
+
+export type NotificationChannel = 'in_app' | 'email' | 'push' | 'sms'
 
 export interface EmailTemplate {
   id: string
@@ -7,6 +7,8 @@ export * from './common'
 export type { 
   ApiResponse, 
   ApiConfiguration, 
+  ApiCredentials,
+  ApiSecretField,
   ApiEndpoint,
   ApiProvider,
   ApiTestResult
@@ -23,8 +25,15 @@ export type {
 export type { 
   Product, 
   ProductCategory, 
+  ProductDimensions,
   ProductVariant, 
-  ProductReview 
+  ProductReview,
+  ReviewModerationStatus,
+  ReviewReply,
+  ReviewVote,
+  ReviewVoteType,
+  VariantOptionAxis,
+  VariantSnapshot
 } from './product'
 
 // Cart and Order Types
@@ -34,7 +43,79 @@ export type {
   Order, 
   OrderItem, 
   OrderStatus, 
-  PaymentStatus 
+  SubOrder, 
+  ShipmentLabel,
+  PaymentStatus,
+  InventoryReservation,
+  InventoryReservationLine,
+  InventoryReservationStatus,
+  ReturnRequest,
+  ReturnStatus,
+  ReturnStatusChange,
+  ReturnReason,
+  ReturnResolution,
+  ReturnLabel,
+  Shipment,
+  ShipmentStatus,
+  ShipmentTrackingEvent,
+  ShippingCountryRule,
+  ShippingRateRules,
+  ShippingBox
+} from './common'
+
+// Currency Types
+export type {
+  ExchangeRateTable,
+  LockedExchangeRate
+} from './common'
+
+// Two-Factor Authentication Types
+export type {
+  TwoFactorPolicy,
+  TwoFactorStatus
+} from './common'
+
+// Notification Types
+export type {
+  Notification,
+  NotificationType,
+  NotificationChannel,
+  NotificationSettings
+} from './common'
+
+// Support Types
+export type {
+  SupportTicket,
+  TicketCategory,
+  TicketPriority,
+  TicketStatus,
+  TicketParticipantRole,
+  TicketMessage,
+  TicketStatusChange
+} from './common'
+
+// Content Moderation Types
+export type {
+  ModerationReasonCode,
+  ModerationAction,
+  ModerationFlag,
+  ModerationResult,
+  ModerationRules
+} from './common'
+
+// Chat Types
+export type {
+  ChatRoom,
+  ChatRoomType,
+  ChatMessage,
+  ChatMessageType,
+  ChatMessageStatus,
+  ChatParticipant,
+  ChatParticipantRole,
+  ChatAttachment,
+  ChatPresence,
+  ChatUser,
+  ChatUserStatus
 } from './common'
 
 // Export Category alias for backward compatibility
@@ -47,4 +128,15 @@ export type { ProductReview as Review } from './product'
 export type { Wishlist, WishlistItem } from './wishlist'
 
 // Promotion Types
-export type { Promotion, Deal, PromotionApplication, PromotionStats } from './promotion'
+export type {
+  Promotion,
+  Deal,
+  PromotionApplication,
+  PromotionStats,
+  PromotionCartLine,
+  PromotionLineBreakdown,
+  AppliedPromotion,
+  PromotionEvaluation,
+  PromotionRedemption,
+  PromotionReleaseReason
+} from './promotion'
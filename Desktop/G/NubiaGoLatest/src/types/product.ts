@@ -1,3 +1,5 @@
+import type { ModerationFlag } from './common'
+
 export interface Product {
   id: string
   name: string
@@ -7,16 +9,40 @@ export interface Product {
   image: string
   images?: string[]
   category: string
+  brand?: string
+  supplierId?: string
   rating?: number
   reviewCount?: number
   inStock?: boolean
+  // Initial stock from the product form or import; live stock is kept in the inventory collection
+  stock?: number
   sku?: string
   tags?: string[]
   createdAt?: Date
   updatedAt?: Date
   featured?: boolean
   attributes?: Record<string, string | number | boolean>
+  // Option axes (e.g. Size, Color) the variants are generated from
+  variantOptions?: VariantOptionAxis[]
   variants?: ProductVariant[]
+  // Packed size as entered on the product form
+  weight?: number
+  weightUnit?: 'kg' | 'lb' | 'g' | 'oz'
+  dimensions?: ProductDimensions
+  // Written by spreadsheet imports, in kg and cm
+  shipping?: {
+    weight: number
+    dimensions: ProductDimensions
+    freeShipping: boolean
+    shippingCost: number
+  }
+}
+
+export interface ProductDimensions {
+  length: number
+  width: number
+  height: number
+  unit?: 'cm' | 'in' | 'm' | 'ft'
 }
 
 export interface ProductVariant {
@@ -26,10 +52,26 @@ export interface ProductVariant {
   originalPrice?: number
   sku: string
   inStock: boolean
+  // Initial stock from the product form; live stock is kept in the inventory collection by SKU
+  stock?: number
   attributes: Record<string, string>
   image?: string
 }
 
+export interface VariantOptionAxis {
+  name: string
+  values: string[]
+}
+
+// The variant as it was when added to a cart or order, so later catalog edits
+// don't change what the customer bought
+export interface VariantSnapshot {
+  id: string
+  name: string
+  sku: string
+  attributes: Record<string, string>
+}
+
 export interface ProductFilterOptions {
   categories?: string[]
   priceRange?: [number, number]
@@ -43,6 +85,10 @@ export interface ProductFilterOptions {
 
 export interface ProductReview {
   id: string
+  productId?: string
+  // The delivered order that makes this a verified purchase, and the supplier who sold it
+  orderId?: string
+  supplierId?: string
   userId: string
   userName: string
   userAvatar?: string
@@ -52,9 +98,37 @@ export interface ProductReview {
   createdAt: Date
   updatedAt?: Date
   verifiedPurchase?: boolean
+  // Helpful / not helpful vote counts; each user has at most one vote per review
   likes?: number
   dislikes?: number
   images?: string[]
+  supplierReply?: ReviewReply
+  // Hidden and removed reviews are only shown to their author and moderators
+  moderationStatus?: ReviewModerationStatus
+  moderationFlags?: ModerationFlag[]
+  moderatedBy?: string
+  moderatedAt?: Date
+}
+
+export type ReviewModerationStatus = 'published' | 'flagged' | 'hidden' | 'removed'
+
+// The selling supplier's public answer to a review
+export interface ReviewReply {
+  supplierId: string
+  supplierName: string
+  message: string
+  createdAt: Date
+  updatedAt?: Date
+}
+
+export type ReviewVoteType = 'helpful' | 'not_helpful'
+
+export interface ReviewVote {
+  reviewId: string
+  userId: string
+  vote: ReviewVoteType
+  createdAt: Date
+  updatedAt?: Date
 }
 
 export interface ProductCategory {
@@ -3,7 +3,7 @@ export interface Promotion {
   name: string
   description: string
   type: 'percentage' | 'fixed_amount' | 'buy_one_get_one' | 'free_shipping'
-  value: number // percentage (0-100) or fixed amount
+  value: number // percentage (0-100), fixed amount, or % off the free item for buy_one_get_one (0 = 100)
   code?: string // promo code for manual application
   startDate: Date
   endDate: Date
@@ -14,6 +14,8 @@ export interface Promotion {
   maxDiscountAmount?: number
   applicableProducts?: string[] // product IDs
   applicableCategories?: string[] // category IDs
+  stackable?: boolean // can combine with other stackable promotions; defaults to false
+  priority?: number // higher applies first when stacking
   createdAt: Date
   updatedAt: Date
 }
@@ -52,3 +54,58 @@ export interface PromotionStats {
   mostUsedPromotion: string
   conversionRate: number
 }
+
+// A cart or order line as seen by the promotion engine
+export interface PromotionCartLine {
+  id: string
+  productId: string
+  category: string
+  unitPrice: number
+  quantity: number
+}
+
+export interface PromotionLineBreakdown {
+  lineId: string
+  productId: string
+  quantity: number
+  unitPrice: number
+  subtotal: number
+  discounts: Array<{ promotionId: string; amount: number }>
+  discountTotal: number
+  total: number
+}
+
+export interface AppliedPromotion {
+  promotionId: string
+  name: string
+  code?: string
+  type: Promotion['type']
+  discountAmount: number
+  shippingDiscount: number
+}
+
+export interface PromotionEvaluation {
+  lines: PromotionLineBreakdown[]
+  appliedPromotions: AppliedPromotion[]
+  rejectedCodes: Array<{ code: string; reason: string }>
+  subtotal: number
+  discountTotal: number
+  shippingCost: number
+  shippingDiscount: number
+  total: number
+}
+
+// Why a redemption was given back to the promotion's usage limit
+export type PromotionReleaseReason = 'cancelled' | 'payment_failed' | 'expired'
+
+export interface PromotionRedemption {
+  id: string
+  promotionId: string
+  code?: string
+  userId: string
+  orderId: string
+  discountAmount: number
+  createdAt: Date
+  releasedAt?: Date
+  releaseReason?: PromotionReleaseReason
+}